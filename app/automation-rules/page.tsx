@@ -0,0 +1,25 @@
+/**
+ * Automation Rules Page
+ * Rule list and builder for a property's automation rules; the property comes from ?propertyId=
+ */
+
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import AutomationRulesManager from '../../components/AutomationRulesManager';
+
+function AutomationRulesForProperty() {
+  const searchParams = useSearchParams();
+  const propertyId = searchParams.get('propertyId') ?? process.env.NEXT_PUBLIC_PROPERTY_ID;
+
+  return <AutomationRulesManager propertyId={propertyId} />;
+}
+
+export default function AutomationRulesPage() {
+  return (
+    <Suspense fallback={null}>
+      <AutomationRulesForProperty />
+    </Suspense>
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Channel Sync Monitor Page
+ * Operations dashboard for channel sync health; the property comes from ?propertyId=
+ */
+
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import ChannelSyncMonitor from '../../components/ChannelSyncMonitor';
+
+function ChannelSyncMonitorForProperty() {
+  const searchParams = useSearchParams();
+  const propertyId = searchParams.get('propertyId') ?? process.env.NEXT_PUBLIC_PROPERTY_ID;
+
+  return <ChannelSyncMonitor propertyId={propertyId} />;
+}
+
+export default function ChannelSyncPage() {
+  return (
+    <Suspense fallback={null}>
+      <ChannelSyncMonitorForProperty />
+    </Suspense>
+  );
+}
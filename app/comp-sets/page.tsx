@@ -0,0 +1,25 @@
+/**
+ * Comp Sets Page
+ * Competitors and weighted comp sets of a property; the property comes from ?propertyId=
+ */
+
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import CompSetManager from '../../components/CompSetManager';
+
+function CompSetsForProperty() {
+  const searchParams = useSearchParams();
+  const propertyId = searchParams.get('propertyId') ?? process.env.NEXT_PUBLIC_PROPERTY_ID;
+
+  return <CompSetManager propertyId={propertyId} />;
+}
+
+export default function CompSetsPage() {
+  return (
+    <Suspense fallback={null}>
+      <CompSetsForProperty />
+    </Suspense>
+  );
+}
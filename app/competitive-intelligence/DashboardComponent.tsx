@@ -19,6 +19,8 @@ import {
   CalendarDays, TrendingUp as TrendUp
 } from 'lucide-react';
 import Link from 'next/link';
+import { useCurrency } from '../../hooks/useCurrency';
+import { currencyLocale, currencySymbol } from '../../lib/currency';
 import { 
   getDemandIntelligence, 
   type RealFlightData, 
@@ -44,7 +46,9 @@ const RATE_PLANS = [
 ];
 
 // Helper functions
-const formatCurrency = (val: number) => `₹${Math.round(val).toLocaleString('en-IN')}`;
+// Amounts are formatted in the property currency from useCurrency
+type FormatCurrency = (value: number) => string;
+
 const formatDate = (dateStr: string) => {
   const date = new Date(dateStr);
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
@@ -179,7 +183,8 @@ const generateDemandInsightsFromRealData = (
   events: RealEventData[],
   flights: RealFlightData[],
   priceSpikes: PriceSpikeAlert[],
-  currentRate: number
+  currentRate: number,
+  formatCurrency: FormatCurrency
 ): Array<{
   type: 'opportunity' | 'warning' | 'success' | 'action';
   title: string;
@@ -283,7 +288,13 @@ const generateDemandInsightsFromRealData = (
  * Competitor set: Mix of 4-star and 5-star properties in Goa
  * Price positioning correlates with star rating and guest reviews
  */
-const generateCompetitiveData = (roomTypeId: string, ratePlanId: string, startDate: Date = new Date(), daysToShow: number = 30) => {
+const generateCompetitiveData = (
+  roomTypeId: string,
+  ratePlanId: string,
+  formatCurrency: FormatCurrency,
+  startDate: Date = new Date(),
+  daysToShow: number = 30
+) => {
   // Competitors with pricing multiplier based on star rating & positioning
   // priceMultiplier: relative to your base rate (1.0 = same as you)
   const competitors = [
@@ -623,13 +634,14 @@ const generateCompetitiveData = (roomTypeId: string, ratePlanId: string, startDa
     demandIntel.events,
     demandIntel.flightData,
     priceSpikeAlerts,
-    todayData.userRate
+    todayData.userRate,
+    formatCurrency
   );
   
   // Merge regular insights with demand insights
   const allInsights = [
     ...demandInsights,
-    ...generateInsights(todayData, rateHistory, underpricedDays, competitorPositioning, avgUserOccupancy)
+    ...generateInsights(todayData, rateHistory, underpricedDays, competitorPositioning, avgUserOccupancy, formatCurrency)
   ].sort((a, b) => {
     // Sort by priority (high first)
     const priorityOrder = { high: 0, medium: 1, low: 2 };
@@ -686,7 +698,8 @@ const generateInsights = (
   rateHistory: any[], 
   underpricedDays: any[],
   competitors: any[],
-  occupancy: number
+  occupancy: number,
+  formatCurrency: FormatCurrency
 ) => {
   const insights: Array<{
     type: 'opportunity' | 'warning' | 'success' | 'action';
@@ -795,6 +808,7 @@ const KPICard = ({
   format?: 'number' | 'currency' | 'percent';
   actionHint?: string;
 }) => {
+  const { currency, formatCurrency } = useCurrency();
   const gradientStyles = {
     cyan: { border: 'from-cyan-500/40 to-cyan-600/40', icon: 'from-cyan-500 to-cyan-600', glow: 'shadow-cyan-500/20' },
     emerald: { border: 'from-emerald-500/40 to-emerald-600/40', icon: 'from-emerald-500 to-emerald-600', glow: 'shadow-emerald-500/20' },
@@ -809,7 +823,7 @@ const KPICard = ({
     if (typeof val === 'string') return val;
     if (format === 'currency') return formatCurrency(val);
     if (format === 'percent') return `${val}%`;
-    return val.toLocaleString('en-IN');
+    return val.toLocaleString(currencyLocale(currency));
   };
 
   return (
@@ -942,6 +956,7 @@ const ActionCard = ({
   priority: 'high' | 'medium' | 'low';
   demandScore: number;
 }) => {
+  const { formatCurrency } = useCurrency();
   const getTypeStyles = () => {
     switch (type) {
       case 'increase': return { bg: 'bg-emerald-500/10', border: 'border-emerald-500/30', badge: 'bg-emerald-500', icon: TrendingUp, iconColor: 'text-emerald-400', action: 'INCREASE RATE' };
@@ -1233,6 +1248,7 @@ const EventsSummaryCard = ({ events }: { events: RealEventData[] }) => {
  * Competitor Price Spike Alerts - Simplified
  */
 const PriceSpikeAlertsCard = ({ alerts }: { alerts: PriceSpikeAlert[] }) => {
+  const { formatCurrency } = useCurrency();
   if (alerts.length === 0) {
     return (
       <div className="p-4 rounded-xl bg-slate-800/30 border border-white/5">
@@ -1307,6 +1323,7 @@ const MultiLineChart = ({
   rateHistory: any[];
   competitors: any[];
 }) => {
+  const { currency, formatCurrency } = useCurrency();
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
   const [viewMode, setViewMode] = useState<'competitors' | 'channels'>('competitors');
@@ -1623,7 +1640,7 @@ const MultiLineChart = ({
                   fontSize="11"
                   className="fill-slate-500"
                 >
-                  ₹{(val / 1000).toFixed(1)}k
+                  {currencySymbol(currency)}{(val / 1000).toFixed(1)}k
                 </text>
               </g>
             );
@@ -1990,6 +2007,7 @@ const MultiLineChart = ({
  * - Parity Score (0-100)
  */
 const ChannelRow = ({ channel, index }: { channel: any; index: number }) => {
+  const { formatCurrency } = useCurrency();
   const statusConfig = {
     win: { bg: 'bg-emerald-500', badge: 'bg-emerald-500/20 text-emerald-400', label: 'Win', icon: '✓' },
     meet: { bg: 'bg-cyan-500', badge: 'bg-cyan-500/20 text-cyan-400', label: 'Meet', icon: '=' },
@@ -2076,6 +2094,7 @@ const CompetitorCard = ({ competitor, userTodayRate, expanded, onToggle }: {
   expanded: boolean;
   onToggle: () => void;
 }) => {
+  const { formatCurrency } = useCurrency();
   const isCheaper = competitor.todayRate < userTodayRate;
   const diffToday = competitor.todayRate - userTodayRate;
   
@@ -2214,6 +2233,7 @@ const CompetitorCard = ({ competitor, userTodayRate, expanded, onToggle }: {
 
 // Simple row for compact view
 const CompetitorRowSimple = ({ competitor, userTodayRate }: { competitor: any; userTodayRate: number }) => {
+  const { formatCurrency } = useCurrency();
   const diffToday = competitor.todayRate - userTodayRate;
   return (
     <div className="flex items-center gap-3 p-2 rounded-lg hover:bg-slate-800/30 transition-all">
@@ -2234,6 +2254,8 @@ const CompetitorRowSimple = ({ competitor, userTodayRate }: { competitor: any; u
  * Main Dashboard Component
  */
 function CompetitiveIntelligenceDashboard() {
+  const { formatCurrency } = useCurrency();
+
   // Get today's date normalized to start of day
   const getToday = () => {
     const today = new Date();
@@ -2295,8 +2317,8 @@ function CompetitiveIntelligenceDashboard() {
   };
   
   const data = useMemo(() => {
-    return generateCompetitiveData(selectedRoomType, selectedRatePlan, selectedStartDate, daysToShow);
-  }, [selectedRoomType, selectedRatePlan, selectedStartDate, daysToShow, refreshKey]);
+    return generateCompetitiveData(selectedRoomType, selectedRatePlan, formatCurrency, selectedStartDate, daysToShow);
+  }, [selectedRoomType, selectedRatePlan, formatCurrency, selectedStartDate, daysToShow, refreshKey]);
 
   if (!data) {
     return (
@@ -1,12 +1,16 @@
 /**
  * Competitive Intelligence Dashboard Page
- * Uses dynamic import with SSR disabled to avoid hydration issues
+ * Uses dynamic import with SSR disabled to avoid hydration issues; the property
+ * comes from ?propertyId=, or is the user's last used property
  */
 
 'use client';
 
 import dynamic from 'next/dynamic';
 import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { CurrencyProvider } from '../../components/CurrencyProvider';
+import { usePropertyPortfolio } from '../../hooks/usePropertyPortfolio';
 
 // Import the dashboard component dynamically with SSR disabled to avoid hydration issues
 // This ensures the component only renders on the client side
@@ -29,10 +33,24 @@ function LoadingFallback() {
   );
 }
 
+function CompetitiveIntelligenceForProperty() {
+  const searchParams = useSearchParams();
+  const { properties, selectedProperty } = usePropertyPortfolio();
+  const propertyId = searchParams.get('propertyId') ?? selectedProperty?.id ?? process.env.NEXT_PUBLIC_PROPERTY_ID;
+  const property = properties.find(candidate => candidate.id === propertyId);
+
+  // Keyed by property so the dashboard reloads when the property changes
+  return (
+    <CurrencyProvider propertyId={propertyId} currency={property?.currency}>
+      <CompetitiveIntelligenceDashboard key={propertyId ?? 'default'} />
+    </CurrencyProvider>
+  );
+}
+
 export default function CompetitiveIntelligencePage() {
   return (
     <Suspense fallback={<LoadingFallback />}>
-      <CompetitiveIntelligenceDashboard />
+      <CompetitiveIntelligenceForProperty />
     </Suspense>
   );
 }
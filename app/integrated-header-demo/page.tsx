@@ -2,30 +2,16 @@
 
 import React, { useState } from 'react';
 import IntegratedHeader from '../../components/IntegratedHeader';
-
-interface Property {
-  id: string;
-  name: string;
-  location: string;
-  type: string;
-  rooms: number;
-  avatar: string;
-}
-
-interface Competitor {
-  id: string;
-  name: string;
-  type: string;
-  distance: string;
-  avatar: string;
-}
+import { propertyInitials, propertyLocation } from '../../lib/properties';
+import type { PropertySummary } from '../../types/properties';
+import type { Competitor } from '../../types/comp-sets';
 
 export default function IntegratedHeaderDemo() {
   const [isDark, setIsDark] = useState(false);
-  const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
+  const [selectedProperty, setSelectedProperty] = useState<PropertySummary | null>(null);
   const [selectedCompetitors, setSelectedCompetitors] = useState<Competitor[]>([]);
 
-  const handlePropertyChange = (property: Property) => {
+  const handlePropertyChange = (property: PropertySummary) => {
     setSelectedProperty(property);
   };
 
@@ -60,13 +46,15 @@ export default function IntegratedHeaderDemo() {
             {selectedProperty ? (
               <div className="space-y-4">
                 <div className="flex items-center gap-4 p-4 bg-blue-50 dark:bg-blue-900/30 rounded-lg">
-                  <span className="text-3xl">{selectedProperty.avatar}</span>
+                  <span className="w-12 h-12 rounded-lg bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 flex items-center justify-center text-lg font-semibold">
+                    {propertyInitials(selectedProperty)}
+                  </span>
                   <div>
                     <h3 className="font-semibold text-gray-900 dark:text-white">
                       {selectedProperty.name}
                     </h3>
                     <p className="text-sm text-gray-600 dark:text-gray-400">
-                      {selectedProperty.location} • {selectedProperty.type}
+                      {propertyLocation(selectedProperty)} • {selectedProperty.code}
                     </p>
                     <p className="text-sm text-gray-500 dark:text-gray-500">
                       {selectedProperty.rooms} rooms
@@ -83,9 +71,9 @@ export default function IntegratedHeaderDemo() {
                   </div>
                   <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
                     <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-                      {selectedProperty.type}
+                      {selectedProperty.currency}
                     </div>
-                    <div className="text-sm text-gray-600 dark:text-gray-400">Property Type</div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">Currency</div>
                   </div>
                 </div>
               </div>
@@ -116,13 +104,16 @@ export default function IntegratedHeaderDemo() {
 
                 {selectedCompetitors.map((competitor) => (
                   <div key={competitor.id} className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                    <span className="text-xl">{competitor.avatar}</span>
+                    <span className="w-8 h-8 rounded-md bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 flex items-center justify-center text-sm font-semibold">
+                      {competitor.name.charAt(0).toUpperCase()}
+                    </span>
                     <div className="flex-1">
                       <div className="font-medium text-gray-900 dark:text-white text-sm">
                         {competitor.name}
                       </div>
                       <div className="text-xs text-gray-500 dark:text-gray-400">
-                        {competitor.type} • {competitor.distance}
+                        {competitor.starRating ? `${competitor.starRating}★` : competitor.code}
+                        {competitor.address && ` • ${competitor.address}`}
                       </div>
                     </div>
                     <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
@@ -164,7 +155,7 @@ export default function IntegratedHeaderDemo() {
               </h3>
               <ul className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
                 <li>• Click on the property selector in the header</li>
-                <li>• Browse through 5 available properties</li>
+                <li>• Browse the properties you can access, grouped by organization</li>
                 <li>• Click any property to switch context</li>
                 <li>• See instant updates in this demo page</li>
                 <li>• Add new properties with the "+" option</li>
@@ -178,7 +169,7 @@ export default function IntegratedHeaderDemo() {
               <ul className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
                 <li>• Switch to "Competitors" tab in dropdown</li>
                 <li>• Toggle competitors on/off with checkboxes</li>
-                <li>• Each property has different competitors</li>
+                <li>• Competitors come from the property's comp sets</li>
                 <li>• See live tracking status indicators</li>
                 <li>• Monitor pricing and availability</li>
               </ul>
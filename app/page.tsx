@@ -33,6 +33,15 @@ import { useGlobalNewsInsights } from '../hooks/useGlobalNewsInsights';
 import PromotionAssistant from '../components/PromotionAssistant';
 import { InventoryStatusIconInline, getFixedCompetitorData } from '../components/MainPageFixes';
 import PublishConfirmation from '../components/PublishConfirmation';
+import CellSyncBadge from '../components/CellSyncBadge';
+import { usePublishChanges } from '../hooks/usePublishChanges';
+import { useCompSets } from '../hooks/useCompSets';
+import { useRestrictionRules } from '../hooks/useRestrictionRules';
+import ImportWizard from '../components/ImportWizard';
+import { cellSyncKey, type PublishCell } from '../types/publish';
+import { buildGridExportRows, exportGrid } from '../lib/grid-export';
+import { describeApplication, ruleCoversDate, toDaysOfWeek, toRestrictionRuleType } from '../lib/restriction-rules';
+import { RESTRICTION_TYPE_IDS, type RestrictionRule } from '../types/restriction-rules';
 import TutorialOverlay from '../components/TutorialOverlay';
 import SummarizedAITooltip from "../components/SummarizedAITooltip";
 import EnhancedAIRecommendationTooltip from "../components/EnhancedAIRecommendationTooltip";
@@ -53,7 +62,11 @@ import {
 } from '../types/rate-consistency';
 import { WorkingBulkRestrictions } from '@/components/WorkingBulkRestrictions';
 import GlobalBulkEditModal from '../components/GlobalBulkEditModal';
+import { CurrencyProvider } from '../components/CurrencyProvider';
 import { DateRangeModal } from '@/components/ui/date-range-modal';
+import { useBusinessDate } from '../hooks/useBusinessDate';
+import type { PropertySummary } from '../types/properties';
+import { addDays, dayOfWeek, daysBetween, fromLocalDate, toLocalDate } from '../lib/business-date';
 
 // Enhanced Types for Modern Interface
 interface AIInsight {
@@ -787,6 +800,8 @@ export default function RevenuePage() {
     type: 'price' | 'inventory';
     room: string;
     product?: string;
+    roomId?: string;
+    productId?: string;
     date: string;
     oldValue: number;
     newValue: number;
@@ -883,9 +898,44 @@ export default function RevenuePage() {
   }, [inlineEdit]);
 
   // Property and Competitor State Management
-  const [selectedProperty, setSelectedProperty] = useState<any>(null);
+  const [selectedProperty, setSelectedProperty] = useState<PropertySummary | null>(null);
+  const propertyId = selectedProperty?.id ?? process.env.NEXT_PUBLIC_PROPERTY_ID;
   const [selectedCompetitors, setSelectedCompetitors] = useState<any[]>([]);
 
+  // Publish flow: server outcome and per-cell channel sync state
+  const {
+    publish,
+    retryFailed,
+    clearOutcome,
+    outcome: publishOutcome,
+    cellSyncStates,
+    isPublishing,
+    error: publishSyncError,
+  } = usePublishChanges(propertyId);
+
+  // Comp sets weighting the market average in the competitor drawer
+  const { compSets } = useCompSets(propertyId);
+  const {
+    rules: restrictionRules,
+    createRule: createRestrictionRule,
+  } = useRestrictionRules(propertyId);
+
+  // "Today" of the grid is the property's business date, in its own timezone
+  const { businessDate } = useBusinessDate(propertyId, selectedProperty?.timezone);
+
+  // Switching property reloads the grid from its business date and closes the
+  // views of the previous property; unpublished edits belong to that property
+  const previousPropertyId = useRef(propertyId);
+  useEffect(() => {
+    if (previousPropertyId.current === propertyId) return;
+    previousPropertyId.current = propertyId;
+    setChanges([]);
+    setInlineEdit(null);
+    setDateOffset(0);
+    setIsCompetitorDrawerOpen(false);
+    setCompetitorDrawerData(null);
+  }, [propertyId]);
+
   // Enhanced Rich Tooltip State
   const [richTooltip, setRichTooltip] = useState<{
     type: 'event' | 'ai' | 'competitor' | 'general' | 'inventory_analysis';
@@ -929,6 +979,8 @@ export default function RevenuePage() {
     dateRange: 'visible' as 'visible' | 'all' | 'custom',
     customDateRange: { start: '', end: '' }
   });
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   // Bulk Restrictions State
   const [isBulkRestrictionsOpen, setIsBulkRestrictionsOpen] = useState(false);
@@ -1726,13 +1778,12 @@ export default function RevenuePage() {
   // Generate sample dates for calendar with proper event assignment
   const generateDates = () => {
     const dates = [];
-    const today = new Date();
     for (let i = 0; i < 21; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() + i + dateOffset);
+      const dateStr = addDays(businessDate, i + dateOffset);
+      const date = toLocalDate(dateStr);
       const dayName = date.toLocaleDateString('en', { weekday: 'short' });
-      const dateStr = date.toISOString().split('T')[0];
-      const isWeekend = date.getDay() === 0 || date.getDay() === 6;
+      const isWeekend = dayOfWeek(dateStr) === 0 || dayOfWeek(dateStr) === 6;
+      const isPast = dateStr < businessDate;
       
       // Assign events to dates based on event date ranges
       const events = sampleEvents.filter(event => {
@@ -1752,7 +1803,7 @@ export default function RevenuePage() {
       if (i === 15) events.push(sampleEvents[2]); // Another corporate event
       if (i === 20) events.push(sampleEvents[6]); // Holiday weekend
       
-      dates.push({ date, dayName, dateStr, isWeekend, events });
+      dates.push({ date, dayName, dateStr, isWeekend, isPast, events });
     }
     return dates;
   };
@@ -2874,20 +2925,14 @@ export default function RevenuePage() {
    * Calculates the dateOffset needed to start the grid from the selected date
    */
   const handleDateRangeSelect = (startDate: Date) => {
-    const today = new Date();
-    const diffTime = startDate.getTime() - today.getTime();
-    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-    setDateOffset(diffDays);
+    setDateOffset(daysBetween(businessDate, fromLocalDate(startDate)));
   };
 
   /**
    * Get the current start date for the grid
    */
   const getCurrentStartDate = () => {
-    const today = new Date();
-    const startDate = new Date(today);
-    startDate.setDate(today.getDate() + dateOffset);
-    return startDate;
+    return toLocalDate(addDays(businessDate, dateOffset));
   };
 
   /**
@@ -2911,6 +2956,7 @@ export default function RevenuePage() {
 
   const handleCellClick = (roomName: string, productName: string, price: number, dateIndex: number) => {
     if (inlineEdit) return; // Don't open modal if inline editing
+    if (dates[dateIndex]?.isPast) return; // Dates before the business date are locked
     
     // Delay single click to allow for double-click detection
     const timeout = setTimeout(() => {
@@ -2936,6 +2982,7 @@ export default function RevenuePage() {
 
   const handleInventoryClick = (roomName: string, currentInventory: number, dateIndex: number) => {
     if (inlineEdit) return; // Don't open modal if inline editing
+    if (dates[dateIndex]?.isPast) return; // Dates before the business date are locked
     
     // Delay single click to allow for double-click detection
     const timeout = setTimeout(() => {
@@ -3112,17 +3159,43 @@ export default function RevenuePage() {
     setShowPublishConfirmation(true);
   };
 
-  const handlePublishConfirmed = () => {
-    console.log('Publishing changes:', changes);
+  // Resolve a change record to the grid cell it edits
+  const toPublishCell = (change: typeof changes[number]): PublishCell => {
+    const roomType = sampleRoomTypes.find(r => r.id === change.roomId) || sampleRoomTypes.find(r => r.name === change.room);
+    const product = change.type === 'price'
+      ? roomType?.products.find(p => p.id === change.productId) || roomType?.products.find(p => p.name === change.product)
+      : undefined;
+
+    if (!roomType || (change.type === 'price' && !product) || !/^\d{4}-\d{2}-\d{2}$/.test(change.date)) {
+      return { changeId: change.id, cellKey: change.id, error: 'Change does not map to a single grid cell' };
+    }
+
+    return {
+      changeId: change.id,
+      cellKey: cellSyncKey(roomType.id, product?.id, change.date),
+      request: {
+        changeId: change.id,
+        type: change.type,
+        roomTypeId: roomType.id,
+        ratePlanId: product?.id,
+        date: change.date,
+        value: change.newValue,
+      },
+    };
+  };
+
+  const handlePublishConfirmed = async () => {
+    await publish(changes.map(toPublishCell));
+  };
+
+  const handlePublishClosed = () => {
+    // Published changes leave the queue; failed ones stay so they can be published again
+    if (publishOutcome) {
+      const settled = new Set(publishOutcome.cells.filter(c => c.status !== 'FAILED').map(c => c.changeId));
+      setChanges(prev => prev.filter(change => !settled.has(change.id)));
+    }
+    clearOutcome();
     setShowPublishConfirmation(false);
-    setShowChangesSummary(true);
-    
-    // In real app, this would send changes to backend
-    setTimeout(() => {
-      setChanges([]);
-      setShowChangesSummary(false);
-      alert(`Successfully published ${changes.length} changes!`);
-    }, 2000);
   };
 
   const handleApplyInsight = (insight: AIInsight) => {
@@ -3317,6 +3390,7 @@ export default function RevenuePage() {
   // Inline Editing Handlers
   const startInlineEdit = (type: 'price' | 'inventory', roomId: string, productId: string | undefined, dateIndex: number, currentValue: number, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent modal from opening
+    if (dates[dateIndex]?.isPast) return; // Dates before the business date are locked
     setInlineEdit({
       type,
       roomId,
@@ -3413,6 +3487,8 @@ export default function RevenuePage() {
         type: inlineEdit.type,
         room: sampleRoomTypes.find(r => r.id === inlineEdit.roomId)?.name || '',
         product: inlineEdit.productId ? sampleRoomTypes.find(r => r.id === inlineEdit.roomId)?.products.find(p => p.id === inlineEdit.productId)?.name : undefined,
+        roomId: inlineEdit.roomId,
+        productId: inlineEdit.productId,
         date: dates[inlineEdit.dateIndex]?.dateStr || '',
         oldValue: inlineEdit.originalValue,
         newValue: newValue,
@@ -3624,31 +3700,49 @@ export default function RevenuePage() {
     });
   };
 
-  const handleExport = () => {
-    const dataToExport = {
-      roomTypes: applyFilters(roomTypes),
-      dates: dates,
-      filters: filters,
-      exportOptions: exportOptions,
-      timestamp: new Date().toISOString()
-    };
-    
-    console.log('Exporting data:', dataToExport);
-    
-    // In a real app, this would trigger the actual export
-    switch (exportOptions.format) {
-      case 'excel':
-        console.log('Exporting to Excel...');
-        break;
-      case 'csv':
-        console.log('Exporting to CSV...');
-        break;
-      case 'pdf':
-        console.log('Exporting to PDF...');
-        break;
+  // Room types to export: 'all' ignores the grid filters, the other options follow them
+  const getExportRoomTypes = () =>
+    exportOptions.dateRange === 'all' ? sampleRoomTypes : applyFilters(sampleRoomTypes);
+
+  // Date columns to export for the selected date range option
+  const getExportDateIndexes = () => {
+    // The grid only holds data for the loaded window, so 'visible' and 'all' cover the same dates
+    if (exportOptions.dateRange !== 'custom') {
+      return dates.map((_, index) => index);
+    }
+
+    const { start, end } = exportOptions.customDateRange;
+    return dates
+      .map((date, index) => ({ dateStr: date.dateStr, index }))
+      .filter(({ dateStr }) => (!start || dateStr >= start) && (!end || dateStr <= end))
+      .map(({ index }) => index);
+  };
+
+  const handleExport = async () => {
+    const rows = buildGridExportRows(
+      getExportRoomTypes(),
+      dates,
+      getExportDateIndexes(),
+      exportOptions,
+      (roomTypeName, ratePlanCode, dateStr) => getApplicableRestrictions(roomTypeName, ratePlanCode, dateStr)
+        .map(restriction => formatRestrictionStatement({ name: restriction.restrictionType.name, value: restriction.value }))
+    );
+
+    if (rows.length === 0) {
+      toastError('Nothing to export', 'No grid rows match the current filters and date range');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      await exportGrid(rows, exportOptions, `rates-inventory-${format(new Date(), 'yyyy-MM-dd')}`);
+      toastSuccess('Export ready', `${rows.length} rows exported to ${exportOptions.format.toUpperCase()}`);
+      setIsExportOpen(false);
+    } catch (error) {
+      toastError('Export failed', error instanceof Error ? error.message : 'The file could not be generated');
+    } finally {
+      setIsExporting(false);
     }
-    
-    setIsExportOpen(false);
   };
 
   const clearFilters = () => {
@@ -3684,8 +3778,41 @@ export default function RevenuePage() {
   const filteredRoomTypes = applyFilters(sampleRoomTypes);
 
   // Helper Functions for Restrictions
+
+  // Persisted restriction rules in the shape of the grid's bulk restrictions
+  const toBulkRestriction = (rule: RestrictionRule): BulkRestriction | null => {
+    const restrictionType = restrictionTypes.find(type => type.id === RESTRICTION_TYPE_IDS[rule.restriction]);
+    if (!restrictionType) return null;
+
+    return {
+      id: rule.id,
+      restrictionType,
+      value: rule.value ?? undefined,
+      dateRange: { start: rule.startDate, end: rule.endDate },
+      targets: {
+        roomTypes: rule.targets.roomTypes.map(target => target.name),
+        ratePlans: rule.targets.ratePlans.map(target => target.code),
+        channels: rule.targets.channels.map(target => target.name)
+      },
+      status: 'active',
+      createdBy: rule.createdBy ?? 'Restriction rule',
+      createdAt: new Date(rule.createdAt),
+      notes: rule.notes ?? undefined
+    };
+  };
+
   const getApplicableRestrictions = (roomTypeName: string, productType: string, dateStr: string) => {
-    return bulkRestrictions.filter(restriction => {
+    const persisted = restrictionRules
+      .filter(rule =>
+        ruleCoversDate(rule, dateStr) &&
+        (rule.targets.roomTypes.length === 0 ||
+          rule.targets.roomTypes.some(target => target.name === roomTypeName || target.code === roomTypeName)) &&
+        (rule.targets.ratePlans.length === 0 ||
+          rule.targets.ratePlans.some(target => target.code === productType || target.name === productType)))
+      .map(toBulkRestriction)
+      .filter((restriction): restriction is BulkRestriction => restriction !== null);
+
+    return [...persisted, ...bulkRestrictions.filter(restriction => {
       if (restriction.status !== 'active') return false;
       
       // Check date range
@@ -3704,7 +3831,7 @@ export default function RevenuePage() {
           !restriction.targets.ratePlans.includes(productType)) return false;
       
       return true;
-    });
+    })];
   };
 
   const isCloseoutApplied = (roomTypeName: string, productType: string, dateStr: string) => {
@@ -3859,7 +3986,7 @@ export default function RevenuePage() {
                 <div className="space-y-3">
                   {[
                     { value: 'visible', label: 'Current View', description: 'Export currently visible dates' },
-                    { value: 'all', label: 'All Data', description: 'Export all available data' },
+                    { value: 'all', label: 'All Data', description: 'Export every room type, ignoring filters' },
                     { value: 'custom', label: 'Custom Range', description: 'Select specific date range' }
                   ].map((range) => (
                     <label key={range.value} className="flex items-center gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer">
@@ -3963,7 +4090,7 @@ export default function RevenuePage() {
                   <div>• Format: {exportOptions.format.toUpperCase()}</div>
                   <div>• Date Range: {exportOptions.dateRange === 'visible' ? 'Current view' : 
                                      exportOptions.dateRange === 'all' ? 'All data' : 'Custom range'}</div>
-                  <div>• Room Types: {filteredRoomTypes.length} included</div>
+                  <div>• Room Types: {getExportRoomTypes().length} included</div>
                   <div>• Additional Data: {[
                     exportOptions.includeRestrictions && 'Restrictions',
                     exportOptions.includeAIInsights && 'AI Insights',
@@ -3989,10 +4116,11 @@ export default function RevenuePage() {
               </button>
               <button
                 onClick={handleExport}
-                className="px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2"
+                disabled={isExporting}
+                className="px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
               >
                 <Download className="w-4 h-4" />
-                Export Data
+                {isExporting ? 'Exporting...' : 'Export Data'}
               </button>
             </div>
           </div>
@@ -5213,9 +5341,8 @@ export default function RevenuePage() {
   };
 
   // Property and Competitor Handlers
-  const handlePropertyChange = useCallback((property: any) => {
+  const handlePropertyChange = useCallback((property: PropertySummary) => {
     setSelectedProperty(property);
-    console.log('Property changed to:', property);
   }, []);
 
   const handleCompetitorsChange = useCallback((competitors: any[]) => {
@@ -5434,6 +5561,10 @@ export default function RevenuePage() {
   };
 
   return (
+    <CurrencyProvider
+      propertyId={propertyId}
+      currency={selectedProperty?.currency}
+    >
     <div className={`min-h-screen transition-all duration-300 ${isDark ? 'dark' : ''}`}>
       {/* Integrated Header with Property & Competitor Selectors */}
             <IntegratedHeader 
@@ -5582,6 +5713,15 @@ export default function RevenuePage() {
                     <Download className="w-4 h-4" />
                     <span className="hidden sm:inline">Export</span>
                   </button>
+
+                  {/* Import Button */}
+                  <button 
+                    onClick={() => setIsImportOpen(true)}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold transition-all duration-200 bg-gray-50 hover:bg-gray-100 text-gray-700 border border-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 dark:text-gray-300 dark:border-gray-700"
+                  >
+                    <Upload className="w-4 h-4" />
+                    <span className="hidden sm:inline">Import</span>
+                  </button>
                 </div>
 
                 {/* Secondary Actions Group */}
@@ -5801,6 +5941,9 @@ export default function RevenuePage() {
                                 
                                 {/* Bottom-Left: Status Indicators */}
                                 <div className="absolute bottom-0.5 left-0.5 flex items-center gap-1">
+                                  {/* Channel Sync Indicator */}
+                                  <CellSyncBadge state={cellSyncStates[cellSyncKey(roomType.id, undefined, dates[dateIndex]?.dateStr || '')]} />
+
                                   {/* Restriction Indicator */}
                                   {inv.restrictions && inv.restrictions.length > 0 && (
                                     <div className="cursor-pointer">
@@ -5940,6 +6083,9 @@ export default function RevenuePage() {
                                   
                                   {/* Bottom-Left: Status Indicators */}
                                   <div className="absolute bottom-0.5 left-0.5 flex items-center gap-1">
+                                    {/* Channel Sync Indicator */}
+                                    <CellSyncBadge state={cellSyncStates[cellSyncKey(roomType.id, product.id, dates[dateIndex]?.dateStr || '')]} />
+
                                     {(() => {
                                       // Get actual bulk restrictions for this cell
                                       const dateStr = dates[dateIndex].dateStr;
@@ -6217,31 +6363,44 @@ export default function RevenuePage() {
         {/* Export Panel */}
         <ExportPanel />
 
+        {/* Import Wizard */}
+        <ImportWizard
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          propertyId={propertyId}
+          onImported={(summary) => toastSuccess('Rates import', summary)}
+          isDark={isDark}
+        />
+
         {/* Bulk Restrictions Panel */}
         <WorkingBulkRestrictions 
           isOpen={isBulkRestrictionsOpen} 
           onClose={() => setIsBulkRestrictionsOpen(false)} 
           restrictionTypes={restrictionTypes} 
           roomTypes={sampleRoomTypes} 
-          onApply={(data) => {
-            const newRestriction: BulkRestriction = {
-              id: generateStableId(), 
-              restrictionType: data.restrictionType, 
-              value: data.value || undefined, 
-              dateRange: data.dateRange, 
-              targets: {
-                roomTypes: data.roomTypes || [], 
-                ratePlans: data.ratePlans || [], 
-                channels: data.channels || []
-              }, 
-              status: "active", 
-              createdBy: "Current User", 
-              createdAt: new Date(), 
-              notes: data.notes || ""
-            }; 
-            setBulkRestrictions(prev => [...prev, newRestriction]); 
-            console.log("✅ Applied bulk restriction:", newRestriction); 
-            alert(`Applied ${data.restrictionType.name} restriction successfully!`); 
+          onApply={async (data) => {
+            const restriction = toRestrictionRuleType(data.restrictionType.id);
+            const saved = restriction && await createRestrictionRule({
+              restriction,
+              value: data.value !== '' ? parseInt(data.value) : undefined,
+              startDate: data.dateRange.start,
+              endDate: data.dateRange.end,
+              daysOfWeek: toDaysOfWeek(data.daySelection),
+              roomTypes: data.roomTypes || [],
+              ratePlans: data.ratePlans || [],
+              channels: data.channels || [],
+              priority: data.priority !== '' ? parseInt(data.priority) : undefined,
+              status: 'ACTIVE',
+              notes: data.notes || undefined
+            });
+            if (saved) {
+              toastSuccess(
+                `${data.restrictionType.name} applied`,
+                saved.application ? describeApplication(saved.application) : 'Restriction rule saved'
+              );
+            } else {
+              toastError('Restriction not applied', `${data.restrictionType.name} could not be saved for this property`);
+            }
             setIsBulkRestrictionsOpen(false);
           }} 
         />
@@ -6285,10 +6444,12 @@ export default function RevenuePage() {
           onDismissInsight={handleDismissInsight}
           onRefreshInsights={refreshNewsInsights}
           isLoading={isNewsLoading}
+          propertyId={propertyId}
         />
 
         {/* Enhanced Agentic AI Panel */}
         <EnhancedAgenticAI 
+          key={`agentic-ai-${propertyId}`}
           isOpen={isEnhancedAgenticAIOpen}
           onClose={() => setIsEnhancedAgenticAIOpen(false)}
           insights={sampleInsights}
@@ -6316,9 +6477,13 @@ export default function RevenuePage() {
         {showPublishConfirmation && (
           <PublishConfirmation
             isOpen={showPublishConfirmation}
-            onClose={() => setShowPublishConfirmation(false)}
+            onClose={handlePublishClosed}
             onConfirm={handlePublishConfirmed}
+            onRetryFailed={retryFailed}
             changes={changes}
+            outcome={publishOutcome}
+            syncError={publishSyncError}
+            isPublishing={isPublishing}
             isDark={isDark}
           />
         )}
@@ -6468,16 +6633,19 @@ ${insight.agentCapabilities?.canAutoExecute ? `
             roomType={competitorDrawerData.roomType}
             currentPrice={competitorDrawerData.currentPrice}
             onDateNavigate={handleCompetitorDateNavigate}
+            compSets={compSets}
           />
         )}
 
         {/* Competitive Analytics Drawer */}
         <CompetitiveAnalyticsDrawer
+          key={`competitive-analytics-${propertyId}`}
           isOpen={isCompetitiveAnalyticsOpen}
           onClose={() => setIsCompetitiveAnalyticsOpen(false)}
         />
 
       </main>
     </div>
+    </CurrencyProvider>
   );
 }
\ No newline at end of file
@@ -35,7 +35,7 @@ export default function PropertySelectorDemo() {
               <ul className="space-y-2 text-gray-600 dark:text-gray-400">
                 <li className="flex items-center gap-2">
                   <span className="w-2 h-2 bg-green-500 rounded-full"></span>
-                  5 sample properties with different locations and types
+                  Properties you can access, grouped by organization
                 </li>
                 <li className="flex items-center gap-2">
                   <span className="w-2 h-2 bg-green-500 rounded-full"></span>
@@ -59,33 +59,6 @@ export default function PropertySelectorDemo() {
                 </li>
               </ul>
             </div>
-
-            <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
-              <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
-                Sample Properties:
-              </h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {[
-                  { emoji: '🏖️', name: 'Ocean View Resort & Spa', location: 'Maldives', rooms: 150 },
-                  { emoji: '🏢', name: 'Downtown Business Hotel', location: 'New York, USA', rooms: 280 },
-                  { emoji: '🏔️', name: 'Mountain Lodge Retreat', location: 'Swiss Alps', rooms: 85 },
-                  { emoji: '🏛️', name: 'City Center Boutique', location: 'London, UK', rooms: 65 },
-                  { emoji: '🌴', name: 'Beachfront Paradise', location: 'Bali, Indonesia', rooms: 200 }
-                ].map((property, index) => (
-                  <div key={index} className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                    <span className="text-2xl">{property.emoji}</span>
-                    <div>
-                      <div className="font-medium text-gray-900 dark:text-white text-sm">
-                        {property.name}
-                      </div>
-                      <div className="text-xs text-gray-500 dark:text-gray-400">
-                        {property.location} • {property.rooms} rooms
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
           </div>
         </div>
 
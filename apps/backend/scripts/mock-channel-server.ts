@@ -0,0 +1,198 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+
+/**
+ * Mock Channel Server
+ *
+ * Local stand-in for the Booking.com, RateGain, Derbysoft and Expedia APIs so
+ * the channel providers can be exercised without real credentials. Point the
+ * providers at it with, for example:
+ *
+ *   BOOKING_COM_API_URL=http://localhost:4010/booking-com
+ *   RATEGAIN_API_URL=http://localhost:4010/rategain
+ *   DERBYSOFT_API_URL=http://localhost:4010/derbysoft
+ *   EXPEDIA_API_URL=http://localhost:4010/expedia
+ *
+ * RateGain and Expedia also serve a small reservation feed for pullReservations.
+ *
+ * MOCK_CHANNEL_FAILURE simulates failures:
+ * - throttle: HTTP 429 (retryable)
+ * - unavailable: HTTP 503 (retryable)
+ * - reject: every update rejected with a non-retryable channel error code
+ * - partial: only the first update of each request is rejected
+ */
+
+const port = parseInt(process.env.MOCK_CHANNEL_PORT || '4010', 10);
+const failure = process.env.MOCK_CHANNEL_FAILURE || 'none';
+const latency = parseInt(process.env.MOCK_CHANNEL_LATENCY_MS || '0', 10);
+
+type Handler = (body: string, path: string) => { status?: number; contentType?: string; body: any };
+
+const stayDate = (offsetDays: number) => new Date(Date.now() + offsetDays * 86400000).toISOString().split('T')[0];
+
+const handlers: Array<{ method?: 'GET' | 'POST'; pattern: RegExp; handle: Handler }> = [
+  {
+    pattern: /^\/booking-com\/availability$/,
+    handle: (body) => {
+      const rooms = Array.from(body.matchAll(/<room id="([^"]*)"><date value="([^"]*)">/g));
+      if (failure === 'reject' || (failure === 'partial' && rooms.length)) {
+        const [, roomId, date] = rooms[0] ?? [];
+        const errors = failure === 'reject'
+          ? '<error code="INVALID_RATE">Rate is not active for this room</error>'
+          : `<error code="INVALID_RATE" room_id="${roomId}" date="${date}">Rate is not active for this room</error>`;
+        return { contentType: 'text/xml', body: `<?xml version="1.0"?><errors>${errors}</errors>` };
+      }
+      return { contentType: 'text/xml', body: '<?xml version="1.0"?><ok></ok>' };
+    },
+  },
+  {
+    pattern: /^\/rategain\/properties\/[^/]+\/ari$/,
+    handle: (body) => {
+      const updates: Array<{ ref: string }> = JSON.parse(body || '{}').updates ?? [];
+      return {
+        body: {
+          status: failure === 'none' ? 'OK' : 'PARTIAL',
+          results: updates.map((update, index) => (failure === 'reject' || (failure === 'partial' && index === 0))
+            ? { ref: update.ref, status: 'ERROR', errorCode: 'INVALID_ROOM_CODE', message: 'Unknown room code' }
+            : { ref: update.ref, status: 'OK' }),
+        },
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/rategain\/properties\/[^/]+\/reservations$/,
+    handle: () => ({
+      body: {
+        reservations: [
+          {
+            id: 'RG-100231',
+            status: 'NEW',
+            guest: { firstName: 'Ana', lastName: 'Silva' },
+            checkIn: stayDate(7),
+            checkOut: stayDate(9),
+            roomCode: 'DLX',
+            rateCode: 'BAR',
+            rooms: 1,
+            total: { amount: 398, currency: 'USD' },
+            createdAt: new Date().toISOString(),
+          },
+          {
+            id: 'RG-100198',
+            status: 'CANCELLED',
+            checkIn: stayDate(3),
+            checkOut: stayDate(4),
+            roomCode: 'STD',
+            rateCode: 'BAR',
+            rooms: 2,
+            total: { amount: 260, currency: 'USD' },
+            createdAt: new Date(Date.now() - 86400000).toISOString(),
+          },
+        ],
+      },
+    }),
+  },
+  {
+    pattern: /^\/derbysoft\/ari\/update$/,
+    handle: (body) => {
+      const ariList: Array<{ ref: string }> = JSON.parse(body || '{}').ariList ?? [];
+      const rejected = failure === 'reject' ? ariList : failure === 'partial' ? ariList.slice(0, 1) : [];
+      return {
+        body: {
+          success: rejected.length === 0,
+          errors: rejected.map(ari => ({ code: 'InvalidRatePlan', message: 'Rate plan not mapped', ref: ari.ref })),
+        },
+      };
+    },
+  },
+  {
+    pattern: /^\/expedia\/properties\/[^/]+\/availability-rates$/,
+    handle: (body) => {
+      const roomTypes: Array<{ id: string; dates: Array<{ date: string }> }> = JSON.parse(body || '{}').roomTypes ?? [];
+      const first = roomTypes[0];
+      if (failure === 'reject') {
+        return { body: { errors: [{ code: 'INVALID_PROPERTY', message: 'Property is not active' }] } };
+      }
+      if (failure === 'partial' && first) {
+        return {
+          body: {
+            errors: [{ code: 'RATE_OUT_OF_RANGE', message: 'Rate outside allowed range', roomTypeId: first.id, date: first.dates[0]?.date }],
+          },
+        };
+      }
+      return { body: { errors: [] } };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/expedia\/properties\/[^/]+\/reservations$/,
+    handle: () => ({
+      body: {
+        reservations: [
+          {
+            id: '1187345021',
+            status: 'BOOKED',
+            primaryGuest: { name: 'Jordan Lee' },
+            checkInDate: stayDate(14),
+            checkOutDate: stayDate(17),
+            roomTypeId: 'DLX',
+            ratePlanId: 'BAR',
+            rooms: 1,
+            totalAmount: { value: 612.5, currency: 'USD' },
+            bookingDateTime: new Date().toISOString(),
+          },
+        ],
+      },
+    }),
+  },
+];
+
+function send(res: ServerResponse, status: number, body: any, contentType = 'application/json') {
+  res.writeHead(status, { 'Content-Type': contentType });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+const server = createServer(async (req, res) => {
+  const path = (req.url || '/').split('?')[0];
+  const body = await readBody(req);
+  console.log(`${req.method} ${path} (${body.length} bytes)`);
+
+  if (latency) {
+    await new Promise(resolve => setTimeout(resolve, latency));
+  }
+
+  if (req.method === 'GET' && path.endsWith('/health')) {
+    return send(res, 200, { status: 'ok' });
+  }
+
+  if (failure === 'throttle') {
+    return send(res, 429, { message: 'Too many requests' });
+  }
+
+  if (failure === 'unavailable') {
+    return send(res, 503, { message: 'Service unavailable' });
+  }
+
+  const route = handlers.find(handler => (handler.method ?? 'POST') === req.method && handler.pattern.test(path));
+  if (!route) {
+    return send(res, 404, { message: `No mock for ${req.method} ${path}` });
+  }
+
+  try {
+    const result = route.handle(body, path);
+    send(res, result.status ?? 200, result.body, result.contentType);
+  } catch (error) {
+    send(res, 400, { message: `Malformed request: ${error.message}` });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Mock channel server listening on http://localhost:${port} (failure mode: ${failure})`);
+});
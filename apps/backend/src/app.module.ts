@@ -12,8 +12,19 @@ import { AuthModule } from './modules/auth/auth.module';
 import { UsersModule } from './modules/users/users.module';
 import { PropertiesModule } from './modules/properties/properties.module';
 import { RatesInventoryModule } from './modules/rates-inventory/rates-inventory.module';
+import { PricingRulesModule } from './modules/pricing-rules/pricing-rules.module';
+import { ChangeRequestsModule } from './modules/change-requests/change-requests.module';
 import { ChannelsModule } from './modules/channels/channels.module';
+import { ChannelManagerModule } from './modules/channel-manager/channel-manager.module';
+import { ReservationsModule } from './modules/reservations/reservations.module';
+import { ForecastingModule } from './modules/forecasting/forecasting.module';
+import { CompetitorRatesModule } from './modules/competitor-rates/competitor-rates.module';
+import { CurrencyModule } from './modules/currency/currency.module';
+import { BusinessDatesModule } from './modules/business-dates/business-dates.module';
 import { AiInsightsModule } from './modules/ai-insights/ai-insights.module';
+import { BacktestingModule } from './modules/backtesting/backtesting.module';
+import { AutonomousActionsModule } from './modules/autonomous-actions/autonomous-actions.module';
+import { AutomationRulesModule } from './modules/automation-rules/automation-rules.module';
 import { AuditModule } from './modules/audit/audit.module';
 
 // Common modules
@@ -116,8 +127,19 @@ import configuration from './common/config/configuration';
     UsersModule,
     PropertiesModule,
     RatesInventoryModule,
+    PricingRulesModule,
+    ChangeRequestsModule,
     ChannelsModule,
+    ChannelManagerModule,
+    ReservationsModule,
+    ForecastingModule,
+    CompetitorRatesModule,
+    CurrencyModule,
+    BusinessDatesModule,
     AiInsightsModule,
+    BacktestingModule,
+    AutonomousActionsModule,
+    AutomationRulesModule,
     AuditModule,
 
     // Common modules
@@ -139,9 +161,16 @@ export class AppModule {
       console.log('   - Authentication & Authorization');
       console.log('   - User Management & RBAC');
       console.log('   - Property Management');
+      console.log('   - Property Business Dates');
       console.log('   - Rates & Inventory Management');
       console.log('   - Channel Integrations');
+      console.log('   - Channel Sync Queues & Monitoring');
+      console.log('   - Reservations & On-the-Books');
+      console.log('   - Demand Forecasting');
+      console.log('   - Competitor Rate Shopping');
       console.log('   - AI Insights & Recommendations');
+      console.log('   - Autonomous Actions & Auto-Rollback');
+      console.log('   - Automation Rules');
       console.log('   - Audit Logging & Compliance');
       console.log('   - Health Monitoring');
     }
@@ -0,0 +1,77 @@
+/**
+ * Business Dates
+ *
+ * Date-only values shared by every module: a stay date or business date is
+ * the calendar day it names, stored as midnight UTC (`@db.Date`), and never
+ * shifted by the server's timezone.
+ * - "Today" of a property is the calendar day in its own timezone
+ * - Differences between date-only values are whole days
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Whether a value is an IANA timezone the runtime knows, e.g. "Asia/Kolkata"
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Calendar day of an instant in a timezone, as YYYY-MM-DD
+ */
+export function localDateString(timezone: string, at: Date = new Date()): string {
+  if (!formatters.has(timezone)) {
+    formatters.set(timezone, new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }));
+  }
+  return formatters.get(timezone).format(at);
+}
+
+/**
+ * Business date of a timezone at an instant, as a date-only value
+ */
+export function businessDateOf(timezone: string, at: Date = new Date()): Date {
+  return toDateOnly(localDateString(timezone, at));
+}
+
+/**
+ * Date-only value of a YYYY-MM-DD string, or of the UTC calendar day of a Date
+ */
+export function toDateOnly(value: Date | string): Date {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T00:00:00.000Z`);
+  }
+
+  const day = new Date(value);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+}
+
+export function formatDateOnly(value: Date | string): string {
+  return toDateOnly(value).toISOString().split('T')[0];
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(toDateOnly(date).getTime() + days * DAY_MS);
+}
+
+/**
+ * Whole days from one date-only value to another; negative when `to` is earlier
+ */
+export function daysBetween(from: Date | string, to: Date | string): number {
+  return Math.round((toDateOnly(to).getTime() - toDateOnly(from).getTime()) / DAY_MS);
+}
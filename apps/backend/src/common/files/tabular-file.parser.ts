@@ -0,0 +1,108 @@
+import { BadRequestException } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+
+/**
+ * Tabular File Parser
+ *
+ * Reads CSV and XLSX uploads into rows of cell text, shared by the
+ * rate inventory and reservation imports:
+ * - CSV per RFC 4180 (quoted fields, escaped quotes, embedded newlines)
+ * - First worksheet of an XLSX workbook, with dates kept as YYYY-MM-DD
+ */
+
+export const TABULAR_FILE_EXTENSIONS = ['csv', 'xlsx'];
+
+/**
+ * Parse a CSV or XLSX file by its extension
+ */
+export async function parseTabularFile(buffer: Buffer, fileName: string): Promise<string[][]> {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+
+  if (extension === 'csv') {
+    return parseCsv(buffer.toString('utf8'));
+  }
+  if (extension === 'xlsx') {
+    return parseXlsx(buffer);
+  }
+
+  throw new BadRequestException('Only .csv and .xlsx files can be imported');
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read the first worksheet of an XLSX workbook
+ */
+export async function parseXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch (error) {
+    throw new BadRequestException('The file is not a valid Excel workbook');
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    throw new BadRequestException('The workbook has no worksheets');
+  }
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+      // Excel stores dates as serial numbers; keep them as YYYY-MM-DD
+      cells[columnNumber - 1] = cell.value instanceof Date
+        ? cell.value.toISOString().split('T')[0]
+        : cell.text ?? '';
+    });
+    rows[rowNumber - 1] = Array.from(cells, cell => cell ?? '');
+  });
+
+  return Array.from(rows, row => row ?? []);
+}
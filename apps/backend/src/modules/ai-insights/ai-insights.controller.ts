@@ -1,7 +1,16 @@
-import { Controller, Get, Post, Param, Query, Body, Logger } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { Controller, Get, Post, Param, Query, Body, Logger, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
 import { AiInsightsService } from './ai-insights.service';
-import { RateShopperService } from './rate-shopper.service';
+import { RateShopperService } from '../competitor-rates/rate-shopper.service';
+import { SuggestionFeedbackService } from './suggestion-feedback.service';
+import { SuggestionLifecycleService } from './suggestion-lifecycle.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { RejectSuggestionDto, SuggestionFeedbackDto } from './dto/ai-insights.dto';
 
 /**
  * AI Insights Controller
@@ -10,7 +19,7 @@ import { RateShopperService } from './rate-shopper.service';
  * - Rate recommendations with confidence scoring
  * - Competitor analysis and market insights
  * - Market trend analysis and forecasting
- * - AI suggestion management and application
+ * - AI suggestion management, application, undo, rejection and feedback
  */
 @ApiTags('AI Insights')
 @Controller('ai-insights')
@@ -20,6 +29,8 @@ export class AiInsightsController {
   constructor(
     private readonly aiInsightsService: AiInsightsService,
     private readonly rateShopperService: RateShopperService,
+    private readonly suggestionFeedbackService: SuggestionFeedbackService,
+    private readonly suggestionLifecycleService: SuggestionLifecycleService,
   ) {}
 
   /**
@@ -192,19 +203,23 @@ export class AiInsightsController {
    * Apply an AI suggestion
    */
   @Post('suggestions/:suggestionId/apply')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
   @ApiOperation({ summary: 'Apply an AI suggestion' })
   @ApiParam({ name: 'suggestionId', description: 'AI suggestion ID' })
   @ApiResponse({ status: 200, description: 'AI suggestion applied successfully' })
   async applySuggestion(
     @Param('suggestionId') suggestionId: string,
-    @Body() body: { userId: string },
+    @GetUser() user: RequestUser,
   ) {
     try {
-      await this.aiInsightsService.applySuggestion(suggestionId, body.userId);
+      const suggestion = await this.suggestionLifecycleService.apply(suggestionId, user.id);
 
       return {
         success: true,
         message: 'AI suggestion applied successfully',
+        data: suggestion,
       };
     } catch (error) {
       this.logger.error(`Failed to apply AI suggestion: ${error.message}`);
@@ -215,6 +230,126 @@ export class AiInsightsController {
     }
   }
 
+  /**
+   * Undo an applied AI suggestion within the undo window
+   */
+  @Post('suggestions/:suggestionId/undo')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Undo an applied AI suggestion' })
+  @ApiParam({ name: 'suggestionId', description: 'AI suggestion ID' })
+  @ApiResponse({ status: 200, description: 'AI suggestion undone successfully' })
+  async undoSuggestion(
+    @Param('suggestionId') suggestionId: string,
+    @GetUser() user: RequestUser,
+  ) {
+    try {
+      const suggestion = await this.suggestionLifecycleService.undo(suggestionId, user.id);
+
+      return {
+        success: true,
+        message: 'AI suggestion undone successfully',
+        data: suggestion,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to undo AI suggestion: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * Reject an AI suggestion with a reason code
+   */
+  @Post('suggestions/:suggestionId/reject')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Reject an AI suggestion' })
+  @ApiParam({ name: 'suggestionId', description: 'AI suggestion ID' })
+  @ApiResponse({ status: 200, description: 'AI suggestion rejected successfully' })
+  async rejectSuggestion(
+    @Param('suggestionId') suggestionId: string,
+    @Body() dto: RejectSuggestionDto,
+    @GetUser() user: RequestUser,
+  ) {
+    try {
+      const suggestion = await this.suggestionFeedbackService.reject(suggestionId, user.id, dto);
+
+      return {
+        success: true,
+        message: 'AI suggestion rejected successfully',
+        data: suggestion,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to reject AI suggestion: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * Give feedback on an AI suggestion
+   */
+  @Post('suggestions/:suggestionId/feedback')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Give feedback on an AI suggestion' })
+  @ApiParam({ name: 'suggestionId', description: 'AI suggestion ID' })
+  @ApiResponse({ status: 200, description: 'Feedback recorded successfully' })
+  async provideSuggestionFeedback(
+    @Param('suggestionId') suggestionId: string,
+    @Body() dto: SuggestionFeedbackDto,
+    @GetUser() user: RequestUser,
+  ) {
+    try {
+      const feedback = await this.suggestionFeedbackService.recordFeedback(suggestionId, user.id, dto);
+
+      return {
+        success: true,
+        message: 'Feedback recorded successfully',
+        data: feedback,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to record AI suggestion feedback: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * Acceptance and rejection stats of AI suggestions
+   */
+  @Get('suggestions/:propertyId/stats')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get AI suggestion acceptance stats' })
+  @ApiParam({ name: 'propertyId', description: 'Property ID' })
+  @ApiResponse({ status: 200, description: 'Suggestion stats retrieved successfully' })
+  async getSuggestionStats(@Param('propertyId') propertyId: string) {
+    try {
+      return {
+        success: true,
+        data: await this.suggestionFeedbackService.getStats(propertyId),
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get AI suggestion stats: ${error.message}`);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
   /**
    * Refresh competitor data for a property
    */
@@ -1,11 +1,22 @@
 import { Module } from '@nestjs/common';
-import { HttpModule } from '@nestjs/axios';
 import { ConfigModule } from '@nestjs/config';
+import { BullModule } from '@nestjs/bull';
 import { DatabaseModule } from '../database/database.module';
+import { ReservationsModule } from '../reservations/reservations.module';
+import { ForecastingModule } from '../forecasting/forecasting.module';
+import { PricingRulesModule } from '../pricing-rules/pricing-rules.module';
+import { ChannelManagerModule } from '../channel-manager/channel-manager.module';
+import { CompetitorRatesModule } from '../competitor-rates/competitor-rates.module';
+import { BusinessDatesModule } from '../business-dates/business-dates.module';
 import { AiInsightsService } from './ai-insights.service';
-import { RateShopperService } from './rate-shopper.service';
 import { RecommendationEngine } from './recommendation.engine';
 import { CompetitorAnalysisService } from './competitor-analysis.service';
+import { ElasticityService } from './elasticity.service';
+import { RateOptimizationEngine } from './rate-optimization.engine';
+import { RateConstraintsService } from './rate-constraints.service';
+import { SuggestionFeedbackService } from './suggestion-feedback.service';
+import { SuggestionLifecycleService } from './suggestion-lifecycle.service';
+import { SuggestionExpiryProcessor, AI_SUGGESTIONS_QUEUE } from './processors/suggestion-expiry.processor';
 import { AiInsightsController } from './ai-insights.controller';
 
 /**
@@ -13,29 +24,51 @@ import { AiInsightsController } from './ai-insights.controller';
  * 
  * Provides AI-powered revenue optimization and competitive intelligence:
  * - Rate recommendations with confidence scoring
- * - Competitor analysis and market positioning
- * - Market trend detection and forecasting
- * - Historical performance analysis
+ * - Revenue-maximizing rates from forecast demand and price elasticity
+ * - Suggestion rejections, feedback and acceptance stats
+ * - Applying suggestions with undo, and expiry of stale ones
+ * - Competitor analysis and market positioning from stored competitor rates
+ * - Market trend detection and demand forecasts
+ * - Historical performance analysis from on-the-books data
  * - Real-time insights and suggestions
  */
 @Module({
   imports: [
-    HttpModule,
     ConfigModule,
     DatabaseModule,
+    ReservationsModule,
+    ForecastingModule,
+    PricingRulesModule,
+    ChannelManagerModule,
+    CompetitorRatesModule,
+    BusinessDatesModule,
+    BullModule.registerQueue({
+      name: AI_SUGGESTIONS_QUEUE,
+      defaultJobOptions: {
+        attempts: 1, // Repeating job; the next run expires what this one missed
+        removeOnComplete: 50,
+        removeOnFail: 50,
+      },
+    }),
   ],
   controllers: [AiInsightsController],
   providers: [
     AiInsightsService,
-    RateShopperService,
     RecommendationEngine,
     CompetitorAnalysisService,
+    ElasticityService,
+    RateOptimizationEngine,
+    RateConstraintsService,
+    SuggestionFeedbackService,
+    SuggestionLifecycleService,
+    SuggestionExpiryProcessor,
   ],
   exports: [
     AiInsightsService,
-    RateShopperService,
     RecommendationEngine,
     CompetitorAnalysisService,
+    RateOptimizationEngine,
+    RateConstraintsService,
   ],
 })
 export class AiInsightsModule {} 
\ No newline at end of file
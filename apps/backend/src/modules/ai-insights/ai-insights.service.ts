@@ -1,8 +1,16 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { DatabaseService } from '../database/database.service';
-import { RateShopperService } from './rate-shopper.service';
-import { RecommendationEngine } from './recommendation.engine';
+import { RateShopperService } from '../competitor-rates/rate-shopper.service';
+import { CompetitorRateIngestionService } from '../competitor-rates/competitor-rate-ingestion.service';
+import { CompSetsService } from '../competitor-rates/comp-sets.service';
+import { RecommendationEngine, HistoricalPerformance, RateRecommendationFactors } from './recommendation.engine';
+import { RateConstraintsService } from './rate-constraints.service';
 import { CompetitorAnalysisService } from './competitor-analysis.service';
+import { SuggestionFeedbackService } from './suggestion-feedback.service';
+import { SuggestionLifecycleService } from './suggestion-lifecycle.service';
+import { OnTheBooksService } from '../reservations/on-the-books.service';
+import { ForecastingService } from '../forecasting/forecasting.service';
 
 export interface RateRecommendation {
   id: string;
@@ -14,15 +22,12 @@ export interface RateRecommendation {
   suggestedRate: number;
   confidence: number;
   reasoning: string;
-  factors: {
-    competitorAverage: number;
-    marketTrend: 'up' | 'down' | 'stable';
-    demandLevel: 'low' | 'medium' | 'high';
-    occupancyForecast: number;
-  };
+  factors: RateRecommendationFactors;
   createdAt: Date;
 }
 
+const RATE_SUGGESTION_TYPE = 'RATE_ADJUSTMENT';
+
 export interface CompetitorInsight {
   competitorId: string;
   competitorName: string;
@@ -53,6 +58,7 @@ export interface MarketAnalysis {
  * - Provides competitor analysis and positioning
  * - Delivers market trend insights
  * - Manages AI suggestion lifecycle
+ * - Calibrates confidence with user feedback and skips repeatedly rejected patterns
  * - Tracks recommendation performance
  */
 @Injectable()
@@ -62,8 +68,15 @@ export class AiInsightsService {
   constructor(
     private readonly databaseService: DatabaseService,
     private readonly rateShopperService: RateShopperService,
+    private readonly competitorRateIngestionService: CompetitorRateIngestionService,
+    private readonly compSetsService: CompSetsService,
     private readonly recommendationEngine: RecommendationEngine,
     private readonly competitorAnalysisService: CompetitorAnalysisService,
+    private readonly onTheBooksService: OnTheBooksService,
+    private readonly forecastingService: ForecastingService,
+    private readonly rateConstraintsService: RateConstraintsService,
+    private readonly suggestionFeedbackService: SuggestionFeedbackService,
+    private readonly suggestionLifecycleService: SuggestionLifecycleService,
   ) {}
 
   /**
@@ -96,23 +109,67 @@ export class AiInsightsService {
         roomTypeIds,
       );
 
+      // Floors, ceilings, differentials and elasticities for the optimizer
+      const pricingContext = await this.rateConstraintsService.loadContext(propertyId, startDate, endDate);
+
+      // How users received similar suggestions
+      const feedbackContext = await this.suggestionFeedbackService.loadContext(propertyId);
+      let suppressed = 0;
+
       // Generate recommendations using AI engine
       const recommendations: RateRecommendation[] = [];
 
-      for (const rateRecord of currentRates) {
+      // Parents first, so child room types are priced against the parent's new rate
+      for (const rateRecord of this.rateConstraintsService.sortByHierarchy(pricingContext, currentRates)) {
         try {
           const recommendation = await this.recommendationEngine.generateRecommendation(
             rateRecord,
             competitorData,
             await this.getHistoricalPerformance(rateRecord),
+            await this.forecastingService.getForecastForDate(
+              rateRecord.propertyId,
+              rateRecord.roomTypeId,
+              new Date(rateRecord.date),
+            ),
+            this.rateConstraintsService.resolve(pricingContext, rateRecord),
           );
 
-          if (recommendation) {
-            recommendations.push(recommendation);
+          if (!recommendation) {
+            this.rateConstraintsService.recordRate(pricingContext, rateRecord, Number(rateRecord.rate));
+            continue;
+          }
+
+          const pattern = this.suggestionFeedbackService.patternOf(
+            RATE_SUGGESTION_TYPE,
+            recommendation.roomTypeId,
+            recommendation.ratePlanId,
+            recommendation.currentRate,
+            recommendation.suggestedRate,
+          );
+          const calibration = this.suggestionFeedbackService.calibrate(
+            feedbackContext,
+            RATE_SUGGESTION_TYPE,
+            pattern,
+            recommendation.confidence,
+          );
 
-            // Save recommendation to database
-            await this.saveRecommendation(recommendation);
+          if (calibration.suppressed) {
+            suppressed++;
+            this.rateConstraintsService.recordRate(pricingContext, rateRecord, Number(rateRecord.rate));
+            continue;
           }
+
+          this.rateConstraintsService.recordRate(pricingContext, rateRecord, recommendation.suggestedRate);
+
+          recommendation.confidence = calibration.confidence;
+          recommendation.factors.feedback = {
+            acceptanceRate: calibration.acceptanceRate,
+            decisions: calibration.decisions,
+          };
+          recommendations.push(recommendation);
+
+          // Save recommendation to database
+          await this.saveRecommendation(recommendation, pattern);
         } catch (error) {
           this.logger.error(
             `Failed to generate recommendation for rate ${rateRecord.id}: ${error.message}`
@@ -120,7 +177,10 @@ export class AiInsightsService {
         }
       }
 
-      this.logger.log(`Generated ${recommendations.length} rate recommendations`);
+      this.logger.log(
+        `Generated ${recommendations.length} rate recommendations` +
+        (suppressed ? `, suppressed ${suppressed} repeatedly rejected` : ''),
+      );
       return recommendations;
 
     } catch (error) {
@@ -130,7 +190,8 @@ export class AiInsightsService {
   }
 
   /**
-   * Get competitor insights for a property
+   * Get competitor insights of the primary comp set for a property; room type
+   * codes are ours, mapped from each competitor's room categories
    */
   async getCompetitorInsights(
     propertyId: string,
@@ -138,24 +199,27 @@ export class AiInsightsService {
     roomTypeCode?: string,
   ): Promise<CompetitorInsight[]> {
     try {
-      const competitorRates = await this.databaseService.competitorRate.findMany({
-        where: {
-          propertyId,
-          date,
-          ...(roomTypeCode && { roomTypeCode }),
-        },
-        orderBy: { rate: 'asc' },
-      });
-
-      return competitorRates.map(rate => ({
-        competitorId: rate.competitorId,
-        competitorName: rate.competitorName,
-        roomTypeCode: rate.roomTypeCode,
-        rate: parseFloat(rate.rate.toString()),
-        currency: rate.currency,
-        availability: true, // Assume available if rate exists
-        lastUpdated: rate.collectedAt,
-      }));
+      const [weighting, competitorRates] = await Promise.all([
+        this.compSetsService.loadWeighting(propertyId),
+        this.databaseService.competitorRate.findMany({
+          where: { propertyId, date },
+          include: { competitorProperty: true },
+          orderBy: { rate: 'asc' },
+        }),
+      ]);
+
+      return (await this.compSetsService.weighRates(weighting, competitorRates))
+        .filter(rate => !roomTypeCode || rate.roomTypeCode === roomTypeCode)
+        .map(rate => ({
+          competitorId: rate.competitorPropertyId,
+          competitorName: rate.competitorProperty?.name ?? rate.competitorPropertyId,
+          roomTypeCode: rate.roomTypeCode,
+          rate: parseFloat(rate.rate.toString()),
+          currency: rate.currency,
+          availability: rate.availability !== 'SOLD_OUT',
+          lastUpdated: rate.scrapedAt,
+          weight: rate.weight,
+        }));
 
     } catch (error) {
       this.logger.error(`Failed to get competitor insights: ${error.message}`);
@@ -172,14 +236,16 @@ export class AiInsightsService {
     roomTypeCode: string,
   ): Promise<MarketAnalysis> {
     try {
-      const competitorInsights = await this.getCompetitorInsights(propertyId, date, roomTypeCode);
+      // Sold-out competitors have no rate to compare against
+      const competitorInsights = (await this.getCompetitorInsights(propertyId, date, roomTypeCode))
+        .filter(c => c.availability && c.rate > 0);
       
       if (competitorInsights.length === 0) {
         throw new Error('No competitor data available for market analysis');
       }
 
       const rates = competitorInsights.map(c => c.rate);
-      const marketAverage = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+      const marketAverage = this.compSetsService.weightedAverage(competitorInsights) ?? 0;
       const marketMin = Math.min(...rates);
       const marketMax = Math.max(...rates);
 
@@ -226,7 +292,7 @@ export class AiInsightsService {
     endDate: Date,
     isApplied?: boolean,
   ) {
-    return this.databaseService.aiSuggestion.findMany({
+    const suggestions = await this.databaseService.aiSuggestion.findMany({
       where: {
         propertyId,
         date: {
@@ -240,56 +306,12 @@ export class AiInsightsService {
       },
       orderBy: { date: 'asc' },
     });
-  }
 
-  /**
-   * Apply an AI suggestion
-   */
-  async applySuggestion(suggestionId: string, userId: string) {
-    try {
-      const suggestion = await this.databaseService.aiSuggestion.findUnique({
-        where: { id: suggestionId },
-      });
-
-      if (!suggestion) {
-        throw new Error('AI suggestion not found');
-      }
-
-      if (suggestion.isApplied) {
-        throw new Error('AI suggestion already applied');
-      }
-
-      // Update the actual rate inventory record
-      await this.databaseService.rateInventory.updateMany({
-        where: {
-          propertyId: suggestion.propertyId,
-          roomTypeId: suggestion.roomTypeId,
-          ratePlanId: suggestion.ratePlanId,
-          date: suggestion.date,
-        },
-        data: {
-          rate: suggestion.suggestedRate,
-          syncSource: 'ai_suggestion',
-          updatedAt: new Date(),
-        },
-      });
-
-      // Mark suggestion as applied
-      await this.databaseService.aiSuggestion.update({
-        where: { id: suggestionId },
-        data: {
-          isApplied: true,
-          appliedAt: new Date(),
-          appliedBy: userId,
-        },
-      });
-
-      this.logger.log(`Applied AI suggestion ${suggestionId} by user ${userId}`);
-
-    } catch (error) {
-      this.logger.error(`Failed to apply AI suggestion: ${error.message}`);
-      throw error;
-    }
+    const now = new Date();
+    return suggestions.map(suggestion => ({
+      ...suggestion,
+      undoAvailable: this.suggestionLifecycleService.isUndoAvailable(suggestion, now),
+    }));
   }
 
   /**
@@ -299,13 +321,12 @@ export class AiInsightsService {
     try {
       this.logger.log(`Refreshing competitor data for property ${propertyId}`);
       
-      const today = new Date();
-      const endDate = new Date(today);
-      endDate.setDate(today.getDate() + 30); // Next 30 days
+      const result = await this.competitorRateIngestionService.shop(propertyId);
+      if (result.error) {
+        throw new Error(result.error);
+      }
 
-      await this.rateShopperService.collectCompetitorRates(propertyId, today, endDate);
-      
-      this.logger.log(`Competitor data refresh completed for property ${propertyId}`);
+      this.logger.log(`Competitor data refresh completed for property ${propertyId}: ${result.stored} rates stored`);
 
     } catch (error) {
       this.logger.error(`Failed to refresh competitor data: ${error.message}`);
@@ -355,29 +376,37 @@ export class AiInsightsService {
     return rateRecord?.rate ? parseFloat(rateRecord.rate.toString()) : null;
   }
 
-  private async getHistoricalPerformance(rateRecord: any) {
-    // Get historical performance data for the recommendation engine
-    // This would include occupancy, ADR, RevPAR trends, etc.
-    return {
-      averageOccupancy: 75, // Placeholder
-      averageAdr: 150, // Placeholder
-      seasonalTrend: 'stable' as const,
+  private async getHistoricalPerformance(rateRecord: any): Promise<HistoricalPerformance> {
+    const performance = await this.onTheBooksService.getHistoricalPerformance(
+      rateRecord.propertyId,
+      rateRecord.roomTypeId,
+      new Date(rateRecord.date),
+    );
+
+    // Properties without booking history yet get neutral assumptions
+    return performance ?? {
+      averageOccupancy: 75,
+      averageAdr: rateRecord.rate ? parseFloat(rateRecord.rate.toString()) : 150,
+      seasonalTrend: 'stable',
     };
   }
 
-  private async saveRecommendation(recommendation: RateRecommendation) {
+  private async saveRecommendation(recommendation: RateRecommendation, pattern: string) {
     await this.databaseService.aiSuggestion.create({
       data: {
         propertyId: recommendation.propertyId,
+        suggestionType: RATE_SUGGESTION_TYPE,
+        pattern,
         roomTypeId: recommendation.roomTypeId,
         ratePlanId: recommendation.ratePlanId,
         date: recommendation.date,
-        suggestedRate: recommendation.suggestedRate,
-        currentRate: recommendation.currentRate,
+        suggestedValue: recommendation.suggestedRate,
+        currentValue: recommendation.currentRate,
         confidence: recommendation.confidence,
         reasoning: recommendation.reasoning,
-        factors: recommendation.factors,
+        factors: recommendation.factors as Prisma.InputJsonValue,
         isApplied: false,
+        expiresAt: this.suggestionLifecycleService.expiresAt(),
       },
     });
   }
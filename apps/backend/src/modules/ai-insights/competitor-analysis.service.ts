@@ -8,6 +8,7 @@ export interface CompetitorInsight {
   currency: string;
   availability: boolean;
   lastUpdated: Date;
+  weight?: number; // Comp set weight; 1 when absent
 }
 
 export interface MarketPosition {
@@ -0,0 +1,59 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * Why a suggestion was rejected or judged unhelpful
+ */
+export enum SuggestionReasonCode {
+  TOO_AGGRESSIVE = 'TOO_AGGRESSIVE',
+  TOO_CONSERVATIVE = 'TOO_CONSERVATIVE',
+  EVENT_NOT_RELEVANT = 'EVENT_NOT_RELEVANT',
+  COMPETITOR_SET_WRONG = 'COMPETITOR_SET_WRONG',
+  DEMAND_MISJUDGED = 'DEMAND_MISJUDGED',
+  CONFLICTS_WITH_STRATEGY = 'CONFLICTS_WITH_STRATEGY',
+  DATA_ISSUE = 'DATA_ISSUE',
+  OTHER = 'OTHER',
+}
+
+/**
+ * Suggestion Feedback Rating
+ */
+export enum SuggestionFeedbackRating {
+  HELPFUL = 'HELPFUL',
+  NOT_HELPFUL = 'NOT_HELPFUL',
+}
+
+/**
+ * Reject Suggestion DTO
+ */
+export class RejectSuggestionDto {
+  @ApiProperty({ enum: SuggestionReasonCode, example: SuggestionReasonCode.TOO_AGGRESSIVE })
+  @IsEnum(SuggestionReasonCode)
+  reasonCode: SuggestionReasonCode;
+
+  @ApiProperty({ example: 'Group block already secured for these dates', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  comment?: string;
+}
+
+/**
+ * Suggestion Feedback DTO
+ */
+export class SuggestionFeedbackDto {
+  @ApiProperty({ enum: SuggestionFeedbackRating, example: SuggestionFeedbackRating.NOT_HELPFUL })
+  @IsEnum(SuggestionFeedbackRating)
+  rating: SuggestionFeedbackRating;
+
+  @ApiProperty({ enum: SuggestionReasonCode, required: false })
+  @IsOptional()
+  @IsEnum(SuggestionReasonCode)
+  reasonCode?: SuggestionReasonCode;
+
+  @ApiProperty({ example: 'The concert is across town and does not drive our demand', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  comment?: string;
+}
@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+
+export interface SegmentElasticity {
+  ratePlanId: string | null; // Segment; null for the property default
+  elasticity: number; // % change in rooms booked per 1% change in rate, negative
+  samples: number;
+  source: 'ESTIMATED' | 'DEFAULT';
+}
+
+const HISTORY_DAYS = 365;
+const MIN_SAMPLES = 30;
+const MIN_RATE_VARIATION = 0.02; // Coefficient of variation of the nightly rate
+const MIN_ELASTICITY = -4;
+const MAX_ELASTICITY = -0.2;
+
+/**
+ * Elasticity Service
+ *
+ * Estimates price elasticity of demand per segment (rate plan) from stay nights:
+ * - Log-log regression of rooms sold on the average nightly rate per stay date
+ * - Needs enough dates with real rate variation to be trusted
+ * - Falls back to the property default when the estimate is missing or implausible,
+ *   e.g. when rates rose with demand and the slope came out positive
+ */
+@Injectable()
+export class ElasticityService {
+  private readonly logger = new Logger(ElasticityService.name);
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Elasticity of every segment of a property with booking history before the as-of date
+   */
+  async estimateByRatePlan(
+    propertyId: string,
+    defaultElasticity: number,
+    asOf: Date = new Date(),
+  ): Promise<Map<string, SegmentElasticity>> {
+    const since = new Date(asOf.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+    const nights = await this.databaseService.stayNight.groupBy({
+      by: ['ratePlanId', 'stayDate'],
+      where: {
+        propertyId,
+        ratePlanId: { not: null },
+        stayDate: { gte: since, lt: asOf },
+        cancelledAt: null,
+      },
+      _sum: { rooms: true, revenue: true },
+    });
+
+    const pointsByRatePlan = new Map<string, Array<{ rate: number; rooms: number }>>();
+    for (const night of nights) {
+      const rooms = night._sum.rooms ?? 0;
+      const revenue = night._sum.revenue ? parseFloat(night._sum.revenue.toString()) : 0;
+      if (rooms > 0 && revenue > 0) {
+        pointsByRatePlan.set(night.ratePlanId, [
+          ...(pointsByRatePlan.get(night.ratePlanId) ?? []),
+          { rate: revenue / rooms, rooms },
+        ]);
+      }
+    }
+
+    const elasticities = new Map<string, SegmentElasticity>();
+    for (const [ratePlanId, points] of pointsByRatePlan) {
+      const estimate = this.regress(points);
+
+      elasticities.set(ratePlanId, estimate === null
+        ? { ratePlanId, elasticity: defaultElasticity, samples: points.length, source: 'DEFAULT' }
+        : { ratePlanId, elasticity: estimate, samples: points.length, source: 'ESTIMATED' });
+    }
+
+    this.logger.debug(
+      `Estimated elasticity for ${Array.from(elasticities.values()).filter(e => e.source === 'ESTIMATED').length}` +
+      ` of ${elasticities.size} segments of property ${propertyId}`,
+    );
+
+    return elasticities;
+  }
+
+  /**
+   * Elasticity of one segment, or the property default
+   */
+  forSegment(
+    elasticities: Map<string, SegmentElasticity>,
+    ratePlanId: string,
+    defaultElasticity: number,
+  ): SegmentElasticity {
+    return elasticities.get(ratePlanId)
+      ?? { ratePlanId, elasticity: defaultElasticity, samples: 0, source: 'DEFAULT' };
+  }
+
+  // Private helper methods
+
+  /**
+   * Slope of ln(rooms) on ln(rate), or null when it cannot be trusted
+   */
+  private regress(points: Array<{ rate: number; rooms: number }>): number | null {
+    if (points.length < MIN_SAMPLES) {
+      return null;
+    }
+
+    const meanRate = points.reduce((sum, p) => sum + p.rate, 0) / points.length;
+    const rateDeviation = Math.sqrt(points.reduce((sum, p) => sum + Math.pow(p.rate - meanRate, 2), 0) / points.length);
+    if (rateDeviation / meanRate < MIN_RATE_VARIATION) {
+      return null;
+    }
+
+    const xs = points.map(p => Math.log(p.rate));
+    const ys = points.map(p => Math.log(p.rooms));
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+    const covariance = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+    const varianceX = xs.reduce((sum, x) => sum + Math.pow(x - meanX, 2), 0);
+    const slope = covariance / varianceX;
+
+    if (!isFinite(slope) || slope > MAX_ELASTICITY) {
+      return null;
+    }
+
+    return Math.max(MIN_ELASTICITY, slope);
+  }
+}
@@ -0,0 +1,44 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { Process, Processor, InjectQueue } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+
+import { SuggestionLifecycleService } from '../suggestion-lifecycle.service';
+
+export const AI_SUGGESTIONS_QUEUE = 'ai-suggestions';
+
+const EXPIRY_CRON = '*/30 * * * *';
+
+/**
+ * Suggestion Expiry Processor
+ *
+ * Expires pending AI suggestions every half hour, once their stay date,
+ * time to live, current rate or competitor market has moved on.
+ */
+@Processor(AI_SUGGESTIONS_QUEUE)
+export class SuggestionExpiryProcessor implements OnModuleInit {
+  private readonly logger = new Logger(SuggestionExpiryProcessor.name);
+
+  constructor(
+    private readonly suggestionLifecycleService: SuggestionLifecycleService,
+    @InjectQueue(AI_SUGGESTIONS_QUEUE) private readonly suggestionsQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.suggestionsQueue.add(
+        'expire-suggestions',
+        {},
+        { jobId: 'ai-suggestions-expire', repeat: { cron: EXPIRY_CRON } },
+      );
+    } catch (error) {
+      this.logger.warn(`Could not schedule AI suggestion expiry: ${error.message}`);
+    }
+  }
+
+  @Process('expire-suggestions')
+  async handleExpiry(job: Job) {
+    const summary = await this.suggestionLifecycleService.expireStale();
+    this.logger.debug(`AI suggestion expiry ${job.id}: ${summary.expired} expired`);
+    return summary;
+  }
+}
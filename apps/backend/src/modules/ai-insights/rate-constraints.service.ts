@@ -0,0 +1,175 @@
+import { Injectable } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { PricingRulesService, RateOptimizerSettings } from '../pricing-rules/pricing-rules.service';
+import { ElasticityService, SegmentElasticity } from './elasticity.service';
+import { RateConstraints } from './rate-optimization.engine';
+
+export interface PricingContext {
+  settings: RateOptimizerSettings;
+  roomTypes: Map<string, any>;
+  ratePlans: Map<string, any>;
+  specialEvents: any[];
+  seasonalRules: any[];
+  elasticities: Map<string, SegmentElasticity>;
+  rates: Map<string, number>; // Rate by rate key; suggested rates replace current ones as they are made
+}
+
+export interface PricingInputs {
+  constraints: RateConstraints;
+  elasticity: SegmentElasticity;
+}
+
+/**
+ * Rate Constraints Service
+ *
+ * Gathers what the rate optimizer must respect for a property and date range:
+ * - Property, rate plan, special event and seasonal floors and ceilings
+ * - Max daily change and default elasticity from the optimizer settings
+ * - Parent room type rates and differentials
+ * - Estimated elasticity per segment
+ */
+@Injectable()
+export class RateConstraintsService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly pricingRulesService: PricingRulesService,
+    private readonly elasticityService: ElasticityService,
+  ) {}
+
+  /**
+   * Load everything needed to constrain rates of a property in a date range;
+   * elasticities only learn from bookings made by the as-of date
+   */
+  async loadContext(
+    propertyId: string,
+    startDate: Date,
+    endDate: Date,
+    asOf: Date = new Date(),
+  ): Promise<PricingContext> {
+    const settings = await this.pricingRulesService.getRateOptimizerSettings(propertyId);
+    const overlapping = {
+      propertyId,
+      isActive: true,
+      startDate: { lte: endDate },
+      endDate: { gte: startDate },
+    };
+
+    const [roomTypes, ratePlans, specialEvents, seasonalRules, elasticities] = await Promise.all([
+      this.databaseService.roomType.findMany({ where: { propertyId } }),
+      this.databaseService.ratePlan.findMany({ where: { propertyId } }),
+      this.databaseService.specialEvent.findMany({ where: overlapping }),
+      this.databaseService.seasonalPricing.findMany({ where: overlapping }),
+      this.elasticityService.estimateByRatePlan(propertyId, settings.defaultElasticity, asOf),
+    ]);
+
+    // Current rates of parent room types, which may be outside the requested room types
+    const parentIds = Array.from(new Set(roomTypes.map(rt => rt.parentRoomTypeId).filter(Boolean)));
+    const parentRates = parentIds.length
+      ? await this.databaseService.rateInventory.findMany({
+          where: { propertyId, roomTypeId: { in: parentIds }, date: { gte: startDate, lte: endDate } },
+        })
+      : [];
+
+    return {
+      settings,
+      roomTypes: new Map(roomTypes.map(rt => [rt.id, rt])),
+      ratePlans: new Map(ratePlans.map(rp => [rp.id, rp])),
+      specialEvents,
+      seasonalRules,
+      elasticities,
+      rates: new Map(parentRates
+        .filter(record => record.rate !== null && record.rate !== undefined)
+        .map(record => [this.rateKey(record), parseFloat(record.rate.toString())])),
+    };
+  }
+
+  /**
+   * Constraints and segment elasticity of one rate record
+   */
+  resolve(context: PricingContext, rateRecord: any): PricingInputs {
+    const date = new Date(rateRecord.date);
+    const ratePlan = context.ratePlans.get(rateRecord.ratePlanId);
+    const applies = (rule: any) =>
+      new Date(rule.startDate).getTime() <= date.getTime() &&
+      new Date(rule.endDate).getTime() >= date.getTime() &&
+      (!rule.roomTypeId || rule.roomTypeId === rateRecord.roomTypeId) &&
+      (!rule.ratePlanId || rule.ratePlanId === rateRecord.ratePlanId);
+    const rules = [...context.specialEvents, ...context.seasonalRules].filter(applies);
+
+    const floors = [context.settings.minRate, this.toRate(ratePlan?.minRate), ...rules.map(r => this.toRate(r.minRate))]
+      .filter(rate => rate !== null);
+    const ceilings = [context.settings.maxRate, this.toRate(ratePlan?.maxRate), ...rules.map(r => this.toRate(r.maxRate))]
+      .filter(rate => rate !== null);
+
+    return {
+      constraints: {
+        floor: floors.length ? Math.max(...floors) : null,
+        ceiling: ceilings.length ? Math.min(...ceilings) : null,
+        maxDailyChangePct: context.settings.maxDailyChangePct,
+        minimumFromParent: this.minimumFromParent(context, rateRecord),
+      },
+      elasticity: this.elasticityService.forSegment(
+        context.elasticities,
+        rateRecord.ratePlanId,
+        context.settings.defaultElasticity,
+      ),
+    };
+  }
+
+  /**
+   * Record the rate a room type will be priced at, for its children
+   */
+  recordRate(context: PricingContext, rateRecord: any, rate: number): void {
+    context.rates.set(this.rateKey(rateRecord), rate);
+  }
+
+  /**
+   * Order rate records so parent room types are priced before their children
+   */
+  sortByHierarchy<T extends { roomTypeId: string }>(context: PricingContext, rateRecords: T[]): T[] {
+    const depth = (roomTypeId: string): number => {
+      let level = 0;
+      let parentId = context.roomTypes.get(roomTypeId)?.parentRoomTypeId;
+      while (parentId && level < context.roomTypes.size) {
+        level++;
+        parentId = context.roomTypes.get(parentId)?.parentRoomTypeId;
+      }
+      return level;
+    };
+
+    return [...rateRecords].sort((a, b) => depth(a.roomTypeId) - depth(b.roomTypeId));
+  }
+
+  // Private helper methods
+
+  private minimumFromParent(context: PricingContext, rateRecord: any): number | null {
+    const roomType = context.roomTypes.get(rateRecord.roomTypeId);
+    if (!roomType?.parentRoomTypeId) {
+      return null;
+    }
+
+    const parentRate = context.rates.get(this.rateKey({ ...rateRecord, roomTypeId: roomType.parentRoomTypeId }));
+    if (parentRate === undefined) {
+      return null;
+    }
+
+    const value = this.toRate(roomType.differentialValue) ?? 0;
+    return roomType.differentialType === 'PERCENT'
+      ? parentRate * (1 + value / 100)
+      : parentRate + value;
+  }
+
+  private rateKey(record: { roomTypeId: string; ratePlanId: string; channelId?: string; date: Date | string }): string {
+    return [
+      record.roomTypeId,
+      record.ratePlanId,
+      record.channelId ?? '',
+      new Date(record.date).toISOString().split('T')[0],
+    ].join('|');
+  }
+
+  private toRate(value: any): number | null {
+    return value === null || value === undefined ? null : parseFloat(value.toString());
+  }
+}
@@ -0,0 +1,181 @@
+import { Injectable } from '@nestjs/common';
+
+export type RateConstraintKind = 'FLOOR' | 'CEILING' | 'MAX_DAILY_CHANGE' | 'ROOM_TYPE_DIFFERENTIAL';
+
+export interface RateConstraints {
+  floor: number | null; // Highest of the property, rate plan, event and seasonal floors
+  ceiling: number | null; // Lowest of the matching ceilings
+  maxDailyChangePct: number;
+  minimumFromParent: number | null; // Parent room type rate plus its differential
+}
+
+export interface RateOptimizationInput {
+  currentRate: number;
+  onTheBooks: number;
+  unconstrainedDemand: number; // Forecast at the current rate
+  remainingInventory: number;
+  elasticity: number;
+  constraints: RateConstraints;
+}
+
+export interface RateOptimizationResult {
+  rate: number;
+  expectedRevenue: number; // Objective: revenue from demand still to book at the rate
+  baselineRevenue: number; // Objective at the current rate
+  expectedRoomsSold: number;
+  lowerBound: number;
+  upperBound: number;
+  bindingConstraints: RateConstraintKind[];
+  relaxedConstraints: RateConstraintKind[];
+}
+
+interface RateRange {
+  min: number;
+  max: number;
+}
+
+const MAX_CANDIDATES = 2000;
+
+/**
+ * Rate Optimization Engine
+ *
+ * Picks the rate that maximizes expected revenue from demand still to book:
+ * - Constant-elasticity demand curve anchored at the forecast for the current rate
+ * - Expected rooms sold capped by remaining inventory
+ * - Searches whole-currency rates within floors, ceilings, the parent room
+ *   type differential and the max daily change
+ * - When constraints conflict, max daily change gives way first, then the differential
+ */
+@Injectable()
+export class RateOptimizationEngine {
+  /**
+   * Revenue-maximizing rate within the constraints
+   */
+  optimize(input: RateOptimizationInput): RateOptimizationResult {
+    const { range, relaxedConstraints } = this.resolveRange(input.currentRate, input.constraints);
+    const remainingDemand = Math.max(0, input.unconstrainedDemand - input.onTheBooks);
+
+    const objective = (rate: number) => {
+      const roomsSold = Math.min(
+        Math.max(0, input.remainingInventory),
+        remainingDemand * Math.pow(rate / input.currentRate, input.elasticity),
+      );
+      return { roomsSold, revenue: rate * roomsSold };
+    };
+
+    const start = this.clamp(Math.round(input.currentRate), range);
+    let best = { rate: start, ...objective(start) };
+    for (const rate of this.candidates(range)) {
+      const value = objective(rate);
+      const isBetter = value.revenue > best.revenue + 0.005 ||
+        // Equal revenue: prefer the smaller move
+        (Math.abs(value.revenue - best.revenue) <= 0.005 &&
+          Math.abs(rate - input.currentRate) < Math.abs(best.rate - input.currentRate));
+      if (isBetter) {
+        best = { rate, ...value };
+      }
+    }
+
+    return {
+      rate: best.rate,
+      expectedRevenue: this.round(best.revenue),
+      baselineRevenue: this.round(objective(input.currentRate).revenue),
+      expectedRoomsSold: this.round(best.roomsSold),
+      lowerBound: this.round(range.min),
+      upperBound: this.round(range.max),
+      bindingConstraints: this.bindingConstraints(best.rate, input.currentRate, input.constraints),
+      relaxedConstraints,
+    };
+  }
+
+  /**
+   * Bring any rate within the constraints, for recommendations made without a forecast
+   */
+  constrain(rate: number, currentRate: number, constraints: RateConstraints): number {
+    return this.clamp(rate, this.resolveRange(currentRate, constraints).range);
+  }
+
+  // Private helper methods
+
+  private resolveRange(
+    currentRate: number,
+    constraints: RateConstraints,
+  ): { range: RateRange; relaxedConstraints: RateConstraintKind[] } {
+    const relaxedConstraints: RateConstraintKind[] = [];
+    let range: RateRange = {
+      min: constraints.floor ?? 0,
+      max: constraints.ceiling ?? Infinity,
+    };
+
+    // Guardrail floors and ceilings are hard; a misconfigured pair keeps the floor
+    if (range.min > range.max) {
+      range = { min: range.min, max: range.min };
+    }
+
+    if (constraints.minimumFromParent !== null) {
+      const narrowed = this.narrow(range, { min: constraints.minimumFromParent, max: Infinity });
+      if (!narrowed.exact) relaxedConstraints.push('ROOM_TYPE_DIFFERENTIAL');
+      range = narrowed.range;
+    }
+
+    const change = constraints.maxDailyChangePct / 100;
+    const narrowed = this.narrow(range, { min: currentRate * (1 - change), max: currentRate * (1 + change) });
+    if (!narrowed.exact) relaxedConstraints.push('MAX_DAILY_CHANGE');
+
+    return { range: narrowed.range, relaxedConstraints };
+  }
+
+  /**
+   * Intersect two ranges; if they do not overlap, the point of the first
+   * range closest to the second
+   */
+  private narrow(range: RateRange, window: RateRange): { range: RateRange; exact: boolean } {
+    const min = Math.max(range.min, window.min);
+    const max = Math.min(range.max, window.max);
+
+    if (min <= max) {
+      return { range: { min, max }, exact: true };
+    }
+
+    const closest = window.max < range.min ? range.min : range.max;
+    return { range: { min: closest, max: closest }, exact: false };
+  }
+
+  private candidates(range: RateRange): number[] {
+    // Round to cents first so 100 * 1.15 does not floor to 114
+    const first = Math.ceil(this.round(range.min));
+    const last = Math.floor(this.round(range.max));
+
+    if (first > last) {
+      return [this.round(range.min)];
+    }
+
+    const step = Math.max(1, Math.ceil((last - first) / MAX_CANDIDATES));
+    const rates: number[] = [];
+    for (let rate = first; rate <= last; rate += step) {
+      rates.push(rate);
+    }
+    return rates;
+  }
+
+  private bindingConstraints(rate: number, currentRate: number, constraints: RateConstraints): RateConstraintKind[] {
+    const binding: RateConstraintKind[] = [];
+    const change = constraints.maxDailyChangePct / 100;
+    const touches = (limit: number | null) => limit !== null && Math.abs(rate - limit) < 1;
+
+    if (touches(constraints.floor)) binding.push('FLOOR');
+    if (touches(constraints.ceiling)) binding.push('CEILING');
+    if (touches(constraints.minimumFromParent)) binding.push('ROOM_TYPE_DIFFERENTIAL');
+    if (touches(currentRate * (1 - change)) || touches(currentRate * (1 + change))) binding.push('MAX_DAILY_CHANGE');
+
+    return binding;
+  }
+
+  private clamp(rate: number, range: RateRange): number {
+    return Math.max(range.min, Math.min(range.max, rate));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -1,241 +0,0 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { HttpService } from '@nestjs/axios';
-import { ConfigService } from '@nestjs/config';
-import { firstValueFrom } from 'rxjs';
-
-export interface CompetitorRate {
-  competitorId: string;
-  competitorName: string;
-  roomTypeCode: string;
-  rate: number;
-  currency: string;
-  date: Date;
-  availability: boolean;
-}
-
-/**
- * Rate Shopper Service
- * 
- * Integrates with external rate shopping APIs to collect competitor pricing data:
- * - Real-time competitor rate collection
- * - Multi-source data aggregation
- * - Rate validation and normalization
- * - Historical rate tracking
- * - Market positioning analysis
- */
-@Injectable()
-export class RateShopperService {
-  private readonly logger = new Logger(RateShopperService.name);
-  private readonly apiUrl: string;
-  private readonly apiKey: string;
-
-  constructor(
-    private readonly httpService: HttpService,
-    private readonly configService: ConfigService,
-  ) {
-    this.apiUrl = this.configService.get<string>('RATE_SHOPPER_API_URL', 'https://api.rateshopper.com/v1');
-    this.apiKey = this.configService.get<string>('RATE_SHOPPER_API_KEY', '');
-  }
-
-  /**
-   * Collect competitor rates for a property and date range
-   */
-  async collectCompetitorRates(
-    propertyId: string,
-    startDate: Date,
-    endDate: Date,
-    roomTypeCodes?: string[],
-  ): Promise<CompetitorRate[]> {
-    try {
-      this.logger.log(`Collecting competitor rates for property ${propertyId}`);
-
-      if (!this.apiKey) {
-        this.logger.warn('Rate Shopper API key not configured, using mock data');
-        return this.generateMockCompetitorRates(propertyId, startDate, endDate, roomTypeCodes);
-      }
-
-      const response = await firstValueFrom(
-        this.httpService.post(
-          `${this.apiUrl}/rates/search`,
-          {
-            propertyId,
-            startDate: startDate.toISOString().split('T')[0],
-            endDate: endDate.toISOString().split('T')[0],
-            roomTypes: roomTypeCodes,
-            includeCompetitors: true,
-            maxResults: 100,
-          },
-          {
-            headers: {
-              'Authorization': `Bearer ${this.apiKey}`,
-              'Content-Type': 'application/json',
-            },
-            timeout: 30000,
-          }
-        )
-      );
-
-      const competitorRates = this.transformRateShopperData(response.data);
-      
-      this.logger.log(`Collected ${competitorRates.length} competitor rates`);
-      return competitorRates;
-
-    } catch (error) {
-      this.logger.error(`Failed to collect competitor rates: ${error.message}`);
-      
-      // Fallback to mock data in case of API failure
-      this.logger.warn('Falling back to mock competitor data');
-      return this.generateMockCompetitorRates(propertyId, startDate, endDate, roomTypeCodes);
-    }
-  }
-
-  /**
-   * Get competitor rates from database
-   */
-  async getCompetitorRates(
-    propertyId: string,
-    startDate: Date,
-    endDate: Date,
-    roomTypeIds?: string[],
-  ): Promise<CompetitorRate[]> {
-    // This would typically query the database for stored competitor rates
-    // For now, we'll return mock data
-    return this.generateMockCompetitorRates(propertyId, startDate, endDate);
-  }
-
-  /**
-   * Transform Rate Shopper API response to internal format
-   */
-  private transformRateShopperData(apiData: any): CompetitorRate[] {
-    const competitorRates: CompetitorRate[] = [];
-
-    if (apiData.competitors && Array.isArray(apiData.competitors)) {
-      for (const competitor of apiData.competitors) {
-        for (const rate of competitor.rates || []) {
-          competitorRates.push({
-            competitorId: competitor.id,
-            competitorName: competitor.name,
-            roomTypeCode: rate.roomType,
-            rate: parseFloat(rate.amount),
-            currency: rate.currency || 'USD',
-            date: new Date(rate.date),
-            availability: rate.available !== false,
-          });
-        }
-      }
-    }
-
-    return competitorRates;
-  }
-
-  /**
-   * Generate mock competitor rates for development/testing
-   */
-  private generateMockCompetitorRates(
-    propertyId: string,
-    startDate: Date,
-    endDate: Date,
-    roomTypeCodes?: string[],
-  ): CompetitorRate[] {
-    const mockCompetitors = [
-      { id: 'comp_001', name: 'Grand Hotel Downtown' },
-      { id: 'comp_002', name: 'Luxury Suites & Spa' },
-      { id: 'comp_003', name: 'Business Center Hotel' },
-      { id: 'comp_004', name: 'Boutique Inn' },
-    ];
-
-    const mockRoomTypes = roomTypeCodes || ['STD', 'DLX', 'STE'];
-    const competitorRates: CompetitorRate[] = [];
-
-    const currentDate = new Date(startDate);
-    while (currentDate <= endDate) {
-      for (const competitor of mockCompetitors) {
-        for (const roomType of mockRoomTypes) {
-          // Generate realistic rate variations
-          const baseRate = this.getBaseRateForRoomType(roomType);
-          const variation = (Math.random() - 0.5) * 0.3; // ±15% variation
-          const seasonalMultiplier = this.getSeasonalMultiplier(currentDate);
-          const weekendMultiplier = this.isWeekend(currentDate) ? 1.2 : 1.0;
-          
-          const finalRate = Math.round(
-            baseRate * (1 + variation) * seasonalMultiplier * weekendMultiplier
-          );
-
-          competitorRates.push({
-            competitorId: competitor.id,
-            competitorName: competitor.name,
-            roomTypeCode: roomType,
-            rate: finalRate,
-            currency: 'USD',
-            date: new Date(currentDate),
-            availability: Math.random() > 0.1, // 90% availability
-          });
-        }
-      }
-      
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
-
-    return competitorRates;
-  }
-
-  private getBaseRateForRoomType(roomType: string): number {
-    const baseRates = {
-      'STD': 120,
-      'DLX': 180,
-      'STE': 350,
-      'PRES': 500,
-    };
-    
-    return baseRates[roomType] || 150;
-  }
-
-  private getSeasonalMultiplier(date: Date): number {
-    const month = date.getMonth();
-    
-    // Higher rates in summer and winter holiday seasons
-    if (month >= 5 && month <= 8) return 1.3; // Summer
-    if (month === 11 || month === 0) return 1.4; // Winter holidays
-    if (month >= 2 && month <= 4) return 1.1; // Spring
-    
-    return 1.0; // Fall
-  }
-
-  private isWeekend(date: Date): boolean {
-    const day = date.getDay();
-    return day === 0 || day === 6; // Sunday or Saturday
-  }
-
-  /**
-   * Test connection to Rate Shopper API
-   */
-  async testConnection(): Promise<{ success: boolean; message: string }> {
-    try {
-      if (!this.apiKey) {
-        return {
-          success: false,
-          message: 'Rate Shopper API key not configured',
-        };
-      }
-
-      const response = await firstValueFrom(
-        this.httpService.get(`${this.apiUrl}/health`, {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-          },
-          timeout: 10000,
-        })
-      );
-
-      return {
-        success: true,
-        message: 'Rate Shopper connection successful',
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Rate Shopper connection failed: ${error.message}`,
-      };
-    }
-  }
-} 
\ No newline at end of file
@@ -1,6 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 
+import { DemandForecastPoint } from '../forecasting/forecasting.service';
+import { RateConstraintKind, RateOptimizationEngine } from './rate-optimization.engine';
+import { PricingInputs } from './rate-constraints.service';
+
 export interface RecommendationInput {
   id: string;
   propertyId: string;
@@ -21,6 +25,7 @@ export interface CompetitorData {
   currency: string;
   date: Date;
   availability: boolean;
+  weight?: number; // Comp set weight; 1 when absent
 }
 
 export interface HistoricalPerformance {
@@ -29,6 +34,28 @@ export interface HistoricalPerformance {
   seasonalTrend: 'up' | 'down' | 'stable';
 }
 
+export interface RateOptimizationFactors {
+  expectedRoomsSold: number;
+  baselineRevenue: number; // Objective at the current rate
+  elasticity: number;
+  elasticitySource: 'ESTIMATED' | 'DEFAULT';
+  bindingConstraints: RateConstraintKind[];
+  relaxedConstraints: RateConstraintKind[];
+}
+
+/**
+ * Market and demand inputs behind a rate recommendation, stored with the suggestion
+ */
+export interface RateRecommendationFactors {
+  competitorAverage: number;
+  marketTrend: 'up' | 'down' | 'stable';
+  demandLevel: 'low' | 'medium' | 'high';
+  occupancyForecast: number;
+  objectiveValue?: number; // Expected revenue from remaining demand at the suggested rate
+  optimization?: RateOptimizationFactors;
+  feedback?: { acceptanceRate: number; decisions: number }; // Set when calibrated with user feedback
+}
+
 export interface RateRecommendation {
   id: string;
   propertyId: string;
@@ -39,22 +66,22 @@ export interface RateRecommendation {
   suggestedRate: number;
   confidence: number;
   reasoning: string;
-  factors: {
-    competitorAverage: number;
-    marketTrend: 'up' | 'down' | 'stable';
-    demandLevel: 'low' | 'medium' | 'high';
-    occupancyForecast: number;
-  };
+  factors: RateRecommendationFactors;
   createdAt: Date;
 }
 
+const TARGET_OCCUPANCY = 0.8; // Forecast demand ratio at which the rate is held
+const DEMAND_RATE_SENSITIVITY = 0.4; // Rate change per unit of demand ratio above or below target
+const MAX_DEMAND_INCREASE = 0.12;
+const MAX_DEMAND_DECREASE = 0.08;
+
 /**
  * AI Recommendation Engine
  * 
  * Advanced AI-powered rate optimization engine that generates intelligent pricing recommendations:
  * - Market-based pricing analysis using competitor data
  * - Historical performance pattern recognition
- * - Demand forecasting and seasonal adjustments
+ * - Demand forecasts learned from booking history
  * - Confidence scoring based on data quality and market conditions
  * - Multi-factor recommendation reasoning
  * - Revenue optimization algorithms
@@ -63,7 +90,10 @@ export interface RateRecommendation {
 export class RecommendationEngine {
   private readonly logger = new Logger(RecommendationEngine.name);
 
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly rateOptimizationEngine: RateOptimizationEngine,
+  ) {}
 
   /**
    * Generate rate recommendation for a specific rate record
@@ -72,6 +102,9 @@ export class RecommendationEngine {
     rateRecord: RecommendationInput,
     competitorData: CompetitorData[],
     historicalPerformance: HistoricalPerformance,
+    demandForecast: DemandForecastPoint | null = null,
+    pricing: PricingInputs | null = null,
+    asOf: Date = new Date(),
   ): Promise<RateRecommendation | null> {
     try {
       this.logger.debug(`Generating recommendation for rate ${rateRecord.id}`);
@@ -90,12 +123,18 @@ export class RecommendationEngine {
 
       // Calculate market metrics
       const marketMetrics = this.calculateMarketMetrics(relevantCompetitors);
+
+      // Forecast occupancy
+      const occupancyForecast = this.forecastOccupancy(
+        historicalPerformance,
+        demandForecast,
+      );
       
       // Analyze demand level
       const demandLevel = this.analyzeDemandLevel(
         rateRecord,
         marketMetrics,
-        historicalPerformance,
+        occupancyForecast,
       );
 
       // Determine market trend
@@ -106,12 +145,14 @@ export class RecommendationEngine {
       );
 
       // Generate rate suggestion
-      const suggestedRate = this.calculateOptimalRate(
-        rateRecord.rate,
+      const { rate: suggestedRate, objectiveValue, optimization } = this.calculateOptimalRate(
+        rateRecord,
         marketMetrics,
         demandLevel,
         marketTrend,
         historicalPerformance,
+        demandForecast,
+        pricing,
       );
 
       // Calculate confidence score
@@ -120,6 +161,8 @@ export class RecommendationEngine {
         marketMetrics.standardDeviation,
         historicalPerformance,
         rateRecord.date,
+        demandForecast,
+        asOf,
       );
 
       // Generate reasoning
@@ -129,13 +172,7 @@ export class RecommendationEngine {
         marketMetrics,
         demandLevel,
         marketTrend,
-      );
-
-      // Forecast occupancy
-      const occupancyForecast = this.forecastOccupancy(
-        historicalPerformance,
-        demandLevel,
-        rateRecord.date,
+        objectiveValue !== undefined ? { baselineRevenue: optimization.baselineRevenue, expectedRevenue: objectiveValue } : null,
       );
 
       return {
@@ -145,7 +182,7 @@ export class RecommendationEngine {
         ratePlanId: rateRecord.ratePlanId,
         date: rateRecord.date,
         currentRate: rateRecord.rate,
-        suggestedRate: Math.round(suggestedRate),
+        suggestedRate,
         confidence: Math.round(confidence),
         reasoning,
         factors: {
@@ -153,6 +190,7 @@ export class RecommendationEngine {
           marketTrend,
           demandLevel,
           occupancyForecast: Math.round(occupancyForecast),
+          ...(objectiveValue !== undefined && { objectiveValue, optimization }),
         },
         createdAt: new Date(),
       };
@@ -173,6 +211,7 @@ export class RecommendationEngine {
   ): CompetitorData[] {
     const targetDate = date.toISOString().split('T')[0];
     
+    // Competitor room categories were mapped to our room type codes when loaded
     return competitorData.filter(comp => {
       const compDate = comp.date.toISOString().split('T')[0];
       return comp.roomTypeCode === roomTypeCode && 
@@ -183,16 +222,18 @@ export class RecommendationEngine {
   }
 
   /**
-   * Calculate market metrics from competitor data
+   * Calculate market metrics from competitor data, weighting each competitor
+   * by its comp set weight
    */
   private calculateMarketMetrics(competitors: CompetitorData[]) {
     const rates = competitors.map(c => c.rate);
-    const average = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+    const totalWeight = competitors.reduce((sum, c) => sum + (c.weight ?? 1), 0);
+    const average = competitors.reduce((sum, c) => sum + c.rate * (c.weight ?? 1), 0) / totalWeight;
     const min = Math.min(...rates);
     const max = Math.max(...rates);
     
-    // Calculate standard deviation
-    const variance = rates.reduce((sum, rate) => sum + Math.pow(rate - average, 2), 0) / rates.length;
+    // Calculate weighted standard deviation
+    const variance = competitors.reduce((sum, c) => sum + (c.weight ?? 1) * Math.pow(c.rate - average, 2), 0) / totalWeight;
     const standardDeviation = Math.sqrt(variance);
     
     return {
@@ -210,26 +251,19 @@ export class RecommendationEngine {
   private analyzeDemandLevel(
     rateRecord: RecommendationInput,
     marketMetrics: any,
-    historicalPerformance: HistoricalPerformance,
+    occupancyForecast: number,
   ): 'low' | 'medium' | 'high' {
     // Factor 1: Current rate vs market average
     const ratePosition = rateRecord.rate / marketMetrics.average;
     
-    // Factor 2: Historical occupancy
-    const occupancyFactor = historicalPerformance.averageOccupancy / 100;
-    
-    // Factor 3: Day of week (weekend = higher demand)
-    const dayOfWeek = rateRecord.date.getDay();
-    const weekendFactor = (dayOfWeek === 0 || dayOfWeek === 6) ? 1.2 : 1.0;
-    
-    // Factor 4: Seasonal trends
-    const seasonalFactor = this.getSeasonalDemandFactor(rateRecord.date);
+    // Factor 2: Forecast occupancy (already reflects day of week and season)
+    const occupancyFactor = occupancyForecast / 100;
     
     // Composite demand score
-    const demandScore = (ratePosition * 0.3) + (occupancyFactor * 0.4) + (weekendFactor * 0.15) + (seasonalFactor * 0.15);
+    const demandScore = (ratePosition * 0.3) + (occupancyFactor * 0.7);
     
-    if (demandScore >= 1.1) return 'high';
-    if (demandScore >= 0.9) return 'medium';
+    if (demandScore >= 0.9) return 'high';
+    if (demandScore >= 0.7) return 'medium';
     return 'low';
   }
 
@@ -272,14 +306,70 @@ export class RecommendationEngine {
   }
 
   /**
-   * Calculate optimal rate based on multiple factors
+   * Calculate optimal rate: maximize expected revenue when a learned forecast
+   * and pricing constraints are available, otherwise fall back to market heuristics
    */
   private calculateOptimalRate(
+    rateRecord: RecommendationInput,
+    marketMetrics: any,
+    demandLevel: 'low' | 'medium' | 'high',
+    marketTrend: 'up' | 'down' | 'stable',
+    historicalPerformance: HistoricalPerformance,
+    demandForecast: DemandForecastPoint | null,
+    pricing: PricingInputs | null,
+  ): { rate: number; objectiveValue?: number; optimization?: RateOptimizationFactors } {
+    const currentRate = Number(rateRecord.rate);
+
+    if (pricing && demandForecast && demandForecast.method !== 'ON_THE_BOOKS' && currentRate > 0) {
+      const result = this.rateOptimizationEngine.optimize({
+        currentRate,
+        onTheBooks: demandForecast.onTheBooks,
+        unconstrainedDemand: demandForecast.unconstrainedDemand,
+        remainingInventory: rateRecord.inventory,
+        elasticity: pricing.elasticity.elasticity,
+        constraints: pricing.constraints,
+      });
+
+      return {
+        rate: result.rate,
+        objectiveValue: result.expectedRevenue,
+        optimization: {
+          expectedRoomsSold: result.expectedRoomsSold,
+          baselineRevenue: result.baselineRevenue,
+          elasticity: pricing.elasticity.elasticity,
+          elasticitySource: pricing.elasticity.source,
+          bindingConstraints: result.bindingConstraints,
+          relaxedConstraints: result.relaxedConstraints,
+        },
+      };
+    }
+
+    const heuristicRate = Math.round(this.calculateHeuristicRate(
+      currentRate,
+      marketMetrics,
+      demandLevel,
+      marketTrend,
+      historicalPerformance,
+      demandForecast,
+    ));
+
+    return {
+      rate: pricing
+        ? Math.round(this.rateOptimizationEngine.constrain(heuristicRate, currentRate, pricing.constraints) * 100) / 100
+        : heuristicRate,
+    };
+  }
+
+  /**
+   * Blend current and market rates, adjusted for demand and trend
+   */
+  private calculateHeuristicRate(
     currentRate: number,
     marketMetrics: any,
     demandLevel: 'low' | 'medium' | 'high',
     marketTrend: 'up' | 'down' | 'stable',
     historicalPerformance: HistoricalPerformance,
+    demandForecast: DemandForecastPoint | null,
   ): number {
     let suggestedRate = currentRate;
     
@@ -288,17 +378,29 @@ export class RecommendationEngine {
     const currentWeight = 0.4;
     suggestedRate = (marketMetrics.average * marketWeight) + (currentRate * currentWeight);
     
-    // Demand level adjustments
-    switch (demandLevel) {
-      case 'high':
-        suggestedRate *= 1.08; // 8% increase for high demand
-        break;
-      case 'medium':
-        suggestedRate *= 1.02; // 2% increase for medium demand
-        break;
-      case 'low':
-        suggestedRate *= 0.95; // 5% decrease for low demand
-        break;
+    // Demand adjustments: scale with forecast demand against capacity,
+    // damped by how wide the forecast interval is
+    if (demandForecast?.capacity && demandForecast.method !== 'ON_THE_BOOKS') {
+      const demandRatio = demandForecast.unconstrainedDemand / demandForecast.capacity;
+      const uncertainty = (demandForecast.upperBound - demandForecast.lowerBound) / demandForecast.capacity;
+      const adjustment = Math.max(
+        -MAX_DEMAND_DECREASE,
+        Math.min(MAX_DEMAND_INCREASE, (demandRatio - TARGET_OCCUPANCY) * DEMAND_RATE_SENSITIVITY),
+      );
+      suggestedRate *= 1 + adjustment * (1 - Math.min(0.5, uncertainty));
+    } else {
+      // No learned forecast yet: fixed step per demand level
+      switch (demandLevel) {
+        case 'high':
+          suggestedRate *= 1.08; // 8% increase for high demand
+          break;
+        case 'medium':
+          suggestedRate *= 1.02; // 2% increase for medium demand
+          break;
+        case 'low':
+          suggestedRate *= 0.95; // 5% decrease for low demand
+          break;
+      }
     }
     
     // Market trend adjustments
@@ -334,6 +436,8 @@ export class RecommendationEngine {
     marketVolatility: number,
     historicalPerformance: HistoricalPerformance,
     date: Date,
+    demandForecast: DemandForecastPoint | null,
+    asOf: Date,
   ): number {
     let confidence = 100;
     
@@ -352,9 +456,18 @@ export class RecommendationEngine {
     if (historicalPerformance.averageOccupancy === 75) { // Default/placeholder value
       confidence -= 10;
     }
+
+    // Reduce confidence without a learned forecast, or for a wide forecast interval
+    if (!demandForecast || demandForecast.method === 'ON_THE_BOOKS') {
+      confidence -= 10;
+    } else {
+      const intervalWidth = (demandForecast.upperBound - demandForecast.lowerBound) /
+        Math.max(1, demandForecast.unconstrainedDemand);
+      confidence -= Math.min(15, intervalWidth * 10);
+    }
     
     // Reduce confidence for far future dates
-    const daysAhead = Math.ceil((date.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
+    const daysAhead = Math.ceil((new Date(date).getTime() - asOf.getTime()) / (1000 * 60 * 60 * 24));
     if (daysAhead > 30) {
       confidence -= Math.min(20, (daysAhead - 30) * 0.5);
     }
@@ -371,6 +484,7 @@ export class RecommendationEngine {
     marketMetrics: any,
     demandLevel: 'low' | 'medium' | 'high',
     marketTrend: 'up' | 'down' | 'stable',
+    objective: { baselineRevenue: number; expectedRevenue: number } | null = null,
   ): string {
     const rateChange = ((suggestedRate - currentRate) / currentRate) * 100;
     const marketPosition = ((currentRate - marketMetrics.average) / marketMetrics.average) * 100;
@@ -417,60 +531,28 @@ export class RecommendationEngine {
       default:
         reasoning += 'Stable market conditions support current strategy.';
     }
+
+    // Add optimization outcome
+    if (objective && objective.expectedRevenue > objective.baselineRevenue) {
+      reasoning += ` Expected revenue from remaining demand rises from $${Math.round(objective.baselineRevenue)}` +
+        ` to $${Math.round(objective.expectedRevenue)}.`;
+    }
     
     return reasoning;
   }
 
   /**
-   * Forecast occupancy based on various factors
+   * Forecast occupancy from the demand forecast, falling back to
+   * historical same-weekday occupancy when none exists yet
    */
   private forecastOccupancy(
     historicalPerformance: HistoricalPerformance,
-    demandLevel: 'low' | 'medium' | 'high',
-    date: Date,
+    demandForecast: DemandForecastPoint | null,
   ): number {
-    let forecast = historicalPerformance.averageOccupancy;
-    
-    // Adjust for demand level
-    switch (demandLevel) {
-      case 'high':
-        forecast += 10;
-        break;
-      case 'low':
-        forecast -= 8;
-        break;
-      // 'medium' requires no adjustment
-    }
-    
-    // Seasonal adjustments
-    const seasonalFactor = this.getSeasonalDemandFactor(date);
-    forecast *= seasonalFactor;
-    
-    // Weekend boost
-    const dayOfWeek = date.getDay();
-    if (dayOfWeek === 0 || dayOfWeek === 6) {
-      forecast += 5;
-    }
-    
-    return Math.max(20, Math.min(100, forecast));
-  }
-
-  /**
-   * Get seasonal demand factor for a given date
-   */
-  private getSeasonalDemandFactor(date: Date): number {
-    const month = date.getMonth();
-    
-    // Summer peak season
-    if (month >= 5 && month <= 8) return 1.15;
-    
-    // Winter holidays
-    if (month === 11 || month === 0) return 1.20;
+    const forecast = demandForecast && demandForecast.method !== 'ON_THE_BOOKS'
+      ? demandForecast.occupancyForecast
+      : historicalPerformance.averageOccupancy;
     
-    // Spring
-    if (month >= 2 && month <= 4) return 1.05;
-    
-    // Fall
-    return 0.95;
+    return Math.max(0, Math.min(100, forecast));
   }
-} 
\ No newline at end of file
+}
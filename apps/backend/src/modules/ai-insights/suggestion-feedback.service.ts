@@ -0,0 +1,372 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import {
+  RejectSuggestionDto,
+  SuggestionFeedbackDto,
+  SuggestionFeedbackRating,
+} from './dto/ai-insights.dto';
+
+export interface SuggestionDecisionStats {
+  suggestionType: string;
+  userId?: string; // Absent on property totals per type
+  accepted: number;
+  rejected: number;
+  feedback: number;
+  acceptanceRate: number | null;
+  reasonCounts: Record<string, number>;
+}
+
+export interface SuppressedPattern {
+  pattern: string;
+  consecutiveRejections: number;
+  lastRejectedAt: Date;
+  suppressedUntil: Date;
+}
+
+export interface SuggestionStatsSummary {
+  propertyId: string;
+  byUser: SuggestionDecisionStats[];
+  byType: SuggestionDecisionStats[];
+  suppressedPatterns: SuppressedPattern[];
+}
+
+export interface FeedbackContext {
+  typeRates: Map<string, number>; // Smoothed acceptance rate per suggestion type
+  patterns: Map<string, PatternHistory>;
+}
+
+export interface FeedbackCalibration {
+  confidence: number;
+  suppressed: boolean;
+  acceptanceRate: number; // Smoothed acceptance rate of the suggestion's pattern
+  decisions: number; // Recent accepts and rejects of the pattern
+}
+
+interface PatternHistory {
+  accepted: number;
+  rejected: number;
+  consecutiveRejections: number; // Since the pattern was last accepted
+  lastRejectedAt: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FEEDBACK_WINDOW_DAYS = 90;
+const PRIOR_WEIGHT = 5; // Pseudo-decisions at the prior acceptance rate
+const NEUTRAL_ACCEPTANCE = 0.5;
+const SUPPRESS_AFTER_REJECTIONS = 3;
+const SUPPRESSION_DAYS = 30; // Counted from the last rejection
+const HOLD_TOLERANCE = 0.01; // Moves within 1% count as holding the rate
+const MIN_CONFIDENCE = 30;
+const MAX_CONFIDENCE = 100;
+
+/**
+ * Suggestion Feedback Service
+ *
+ * Closes the loop between users and AI suggestions:
+ * - Rejections and feedback with structured reason codes
+ * - Acceptance and rejection counts per user and suggestion type
+ * - Confidence scaled by how often similar suggestions were accepted
+ * - Suggestion patterns rejected repeatedly are suppressed for a while
+ *
+ * A pattern is the suggestion type, direction, room type and rate plan.
+ */
+@Injectable()
+export class SuggestionFeedbackService {
+  private readonly logger = new Logger(SuggestionFeedbackService.name);
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Pattern key that groups similar suggestions
+   */
+  patternOf(
+    suggestionType: string,
+    roomTypeId: string | null,
+    ratePlanId: string | null,
+    currentValue: number,
+    suggestedValue: number,
+  ): string {
+    const change = currentValue ? (suggestedValue - currentValue) / currentValue : 0;
+    const direction = change > HOLD_TOLERANCE ? 'UP' : change < -HOLD_TOLERANCE ? 'DOWN' : 'HOLD';
+    return [suggestionType, direction, roomTypeId ?? '*', ratePlanId ?? '*'].join(':');
+  }
+
+  /**
+   * Reject a suggestion with a reason code
+   */
+  async reject(suggestionId: string, userId: string, dto: RejectSuggestionDto) {
+    const suggestion = await this.findSuggestion(suggestionId);
+
+    if (suggestion.isApplied) {
+      throw new BadRequestException('AI suggestion already applied');
+    }
+    if (suggestion.rejectedAt) {
+      throw new BadRequestException('AI suggestion already rejected');
+    }
+
+    const updated = await this.databaseService.$transaction(async (tx) => {
+      const rejected = await tx.aiSuggestion.update({
+        where: { id: suggestionId },
+        data: {
+          rejectedAt: new Date(),
+          rejectedBy: userId,
+          rejectionCode: dto.reasonCode,
+          rejectionReason: dto.comment,
+        },
+      });
+
+      await this.recordDecision(tx, suggestion, userId, 'rejected', dto.reasonCode);
+
+      await tx.auditLog.create({
+        data: {
+          propertyId: suggestion.propertyId,
+          userId,
+          action: 'REJECT',
+          entityType: 'AI_SUGGESTION',
+          entityId: suggestionId,
+          newValues: { reasonCode: dto.reasonCode, comment: dto.comment ?? null },
+          source: 'API',
+        },
+      });
+
+      return rejected;
+    });
+
+    this.logger.log(`Rejected AI suggestion ${suggestionId} by user ${userId}: ${dto.reasonCode}`);
+    return updated;
+  }
+
+  /**
+   * Record whether a suggestion was helpful, and why not
+   */
+  async recordFeedback(suggestionId: string, userId: string, dto: SuggestionFeedbackDto) {
+    const suggestion = await this.findSuggestion(suggestionId);
+
+    return this.databaseService.$transaction(async (tx) => {
+      const feedback = await tx.aiSuggestionFeedback.create({
+        data: {
+          suggestionId,
+          propertyId: suggestion.propertyId,
+          userId,
+          rating: dto.rating,
+          reasonCode: dto.reasonCode,
+          comment: dto.comment,
+        },
+      });
+
+      await this.recordDecision(
+        tx,
+        suggestion,
+        userId,
+        'feedback',
+        dto.rating === SuggestionFeedbackRating.NOT_HELPFUL ? dto.reasonCode : undefined,
+      );
+
+      await tx.auditLog.create({
+        data: {
+          propertyId: suggestion.propertyId,
+          userId,
+          action: 'FEEDBACK',
+          entityType: 'AI_SUGGESTION',
+          entityId: suggestionId,
+          newValues: { rating: dto.rating, reasonCode: dto.reasonCode ?? null, comment: dto.comment ?? null },
+          source: 'API',
+        },
+      });
+
+      return feedback;
+    });
+  }
+
+  /**
+   * Count an applied suggestion toward its user's acceptance stats
+   */
+  async recordAcceptance(tx: DatabaseService, suggestion: any, userId: string): Promise<void> {
+    await this.recordDecision(tx, suggestion, userId, 'accepted');
+  }
+
+  /**
+   * Acceptance and rejection stats of a property per user and suggestion type
+   */
+  async getStats(propertyId: string): Promise<SuggestionStatsSummary> {
+    const [stats, context] = await Promise.all([
+      this.databaseService.aiSuggestionStat.findMany({ where: { propertyId } }),
+      this.loadContext(propertyId),
+    ]);
+
+    const byType = new Map<string, SuggestionDecisionStats>();
+    for (const stat of stats) {
+      const total = byType.get(stat.suggestionType)
+        ?? { suggestionType: stat.suggestionType, accepted: 0, rejected: 0, feedback: 0, acceptanceRate: null, reasonCounts: {} };
+      total.accepted += stat.accepted;
+      total.rejected += stat.rejected;
+      total.feedback += stat.feedback;
+      total.reasonCounts = this.mergeCounts(total.reasonCounts, stat.reasonCounts ?? {});
+      byType.set(stat.suggestionType, total);
+    }
+
+    return {
+      propertyId,
+      byUser: stats.map(stat => this.toDecisionStats(stat, stat.userId)),
+      byType: Array.from(byType.values()).map(total => this.toDecisionStats(total)),
+      suppressedPatterns: this.suppressedPatterns(context),
+    };
+  }
+
+  /**
+   * Recent decisions of a property, loaded once per recommendation run
+   */
+  async loadContext(propertyId: string): Promise<FeedbackContext> {
+    const since = new Date(Date.now() - FEEDBACK_WINDOW_DAYS * DAY_MS);
+
+    const [stats, decided] = await Promise.all([
+      this.databaseService.aiSuggestionStat.findMany({ where: { propertyId } }),
+      this.databaseService.aiSuggestion.findMany({
+        where: {
+          propertyId,
+          pattern: { not: null },
+          OR: [{ appliedAt: { gte: since } }, { rejectedAt: { gte: since } }],
+        },
+        select: { pattern: true, isApplied: true, appliedAt: true, rejectedAt: true },
+      }),
+    ]);
+
+    const typeTotals = new Map<string, { accepted: number; decided: number }>();
+    for (const stat of stats) {
+      const total = typeTotals.get(stat.suggestionType) ?? { accepted: 0, decided: 0 };
+      total.accepted += stat.accepted;
+      total.decided += stat.accepted + stat.rejected;
+      typeTotals.set(stat.suggestionType, total);
+    }
+
+    const typeRates = new Map<string, number>();
+    typeTotals.forEach((total, suggestionType) => {
+      typeRates.set(suggestionType, this.smooth(total.accepted, total.decided, NEUTRAL_ACCEPTANCE));
+    });
+
+    // Replay decisions in order so rejections since the last acceptance can be counted
+    const decisions = decided
+      .map(s => ({ pattern: s.pattern, accepted: !!s.isApplied, at: new Date(s.isApplied ? s.appliedAt : s.rejectedAt) }))
+      .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    const patterns = new Map<string, PatternHistory>();
+    for (const decision of decisions) {
+      const history = patterns.get(decision.pattern)
+        ?? { accepted: 0, rejected: 0, consecutiveRejections: 0, lastRejectedAt: null };
+
+      if (decision.accepted) {
+        history.accepted++;
+        history.consecutiveRejections = 0;
+      } else {
+        history.rejected++;
+        history.consecutiveRejections++;
+        history.lastRejectedAt = decision.at;
+      }
+      patterns.set(decision.pattern, history);
+    }
+
+    return { typeRates, patterns };
+  }
+
+  /**
+   * Scale a suggestion's confidence by the acceptance of its pattern, and
+   * tell whether the pattern is suppressed
+   */
+  calibrate(context: FeedbackContext, suggestionType: string, pattern: string, confidence: number): FeedbackCalibration {
+    const history = context.patterns.get(pattern);
+    const typeRate = context.typeRates.get(suggestionType) ?? NEUTRAL_ACCEPTANCE;
+    const decisions = history ? history.accepted + history.rejected : 0;
+    const acceptanceRate = this.smooth(history?.accepted ?? 0, decisions, typeRate);
+
+    // 50% acceptance leaves confidence unchanged; always or never accepted moves it by a quarter
+    const scaled = confidence * (0.75 + 0.5 * acceptanceRate);
+
+    return {
+      confidence: Math.round(Math.max(MIN_CONFIDENCE, Math.min(MAX_CONFIDENCE, scaled)) * 100) / 100,
+      suppressed: !!history && this.isSuppressed(history),
+      acceptanceRate: Math.round(acceptanceRate * 10000) / 10000,
+      decisions,
+    };
+  }
+
+  // Private helper methods
+
+  private async findSuggestion(suggestionId: string) {
+    const suggestion = await this.databaseService.aiSuggestion.findUnique({ where: { id: suggestionId } });
+    if (!suggestion) {
+      throw new NotFoundException('AI suggestion not found');
+    }
+    return suggestion;
+  }
+
+  private async recordDecision(
+    tx: DatabaseService,
+    suggestion: any,
+    userId: string,
+    counter: 'accepted' | 'rejected' | 'feedback',
+    reasonCode?: string,
+  ): Promise<void> {
+    const key = {
+      propertyId: suggestion.propertyId,
+      userId,
+      suggestionType: suggestion.suggestionType ?? 'RATE_ADJUSTMENT',
+    };
+    const existing = await tx.aiSuggestionStat.findUnique({
+      where: { propertyId_userId_suggestionType: key },
+    });
+    const reasonCounts = reasonCode
+      ? this.mergeCounts(existing?.reasonCounts ?? {}, { [reasonCode]: 1 })
+      : existing?.reasonCounts ?? {};
+
+    await tx.aiSuggestionStat.upsert({
+      where: { propertyId_userId_suggestionType: key },
+      create: { ...key, [counter]: 1, reasonCounts },
+      update: { [counter]: { increment: 1 }, reasonCounts },
+    });
+  }
+
+  private isSuppressed(history: PatternHistory): boolean {
+    return history.consecutiveRejections >= SUPPRESS_AFTER_REJECTIONS &&
+      history.lastRejectedAt.getTime() + SUPPRESSION_DAYS * DAY_MS > Date.now();
+  }
+
+  private suppressedPatterns(context: FeedbackContext): SuppressedPattern[] {
+    return Array.from(context.patterns.entries())
+      .filter(([, history]) => this.isSuppressed(history))
+      .map(([pattern, history]) => ({
+        pattern,
+        consecutiveRejections: history.consecutiveRejections,
+        lastRejectedAt: history.lastRejectedAt,
+        suppressedUntil: new Date(history.lastRejectedAt.getTime() + SUPPRESSION_DAYS * DAY_MS),
+      }));
+  }
+
+  /**
+   * Acceptance rate pulled toward a prior while there are few decisions
+   */
+  private smooth(accepted: number, decided: number, prior: number): number {
+    return (accepted + prior * PRIOR_WEIGHT) / (decided + PRIOR_WEIGHT);
+  }
+
+  private toDecisionStats(stat: any, userId?: string): SuggestionDecisionStats {
+    const decided = stat.accepted + stat.rejected;
+    return {
+      suggestionType: stat.suggestionType,
+      ...(userId && { userId }),
+      accepted: stat.accepted,
+      rejected: stat.rejected,
+      feedback: stat.feedback,
+      acceptanceRate: decided ? Math.round((stat.accepted / decided) * 10000) / 10000 : null,
+      reasonCounts: stat.reasonCounts ?? {},
+    };
+  }
+
+  private mergeCounts(counts: Record<string, number>, more: Record<string, number>): Record<string, number> {
+    const merged = { ...counts };
+    Object.entries(more).forEach(([key, count]) => {
+      merged[key] = (merged[key] ?? 0) + count;
+    });
+    return merged;
+  }
+}
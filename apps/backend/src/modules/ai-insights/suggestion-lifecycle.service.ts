@@ -0,0 +1,418 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+
+import { DatabaseService } from '../database/database.service';
+import { toDateOnly } from '../../common/dates/business-date';
+import { SyncService } from '../channel-manager/sync.service';
+import { BusinessDatesService } from '../business-dates/business-dates.service';
+import { toRateInventoryResponse } from '../rates-inventory/rates-inventory.mapper';
+import { CompSetsService } from '../competitor-rates/comp-sets.service';
+import { SuggestionFeedbackService } from './suggestion-feedback.service';
+import { RateRecommendationFactors } from './recommendation.engine';
+
+export type SuggestionExpiryReason = 'STAY_DATE_PASSED' | 'TTL_ELAPSED' | 'RATE_CHANGED' | 'MARKET_MOVED';
+
+export interface SuggestionPreviousState {
+  appliedRate: number;
+  records: Array<{ id: string; channelId: string | null; rate: number | null }>;
+}
+
+export interface SuggestionExpirySummary {
+  expired: number;
+  reasons: Record<SuggestionExpiryReason, number>;
+}
+
+const DEFAULT_UNDO_WINDOW_MINUTES = 60;
+const DEFAULT_TTL_HOURS = 48;
+const MARKET_MOVE_THRESHOLD = 0.1; // Competitor average moved more than 10%
+const RATE_TOLERANCE = 0.005;
+
+/**
+ * Suggestion Lifecycle Service
+ *
+ * Applies AI suggestions to rate inventory and retires them again:
+ * - Applying snapshots the records it overwrites and syncs their channels
+ * - Undo restores the snapshot within a configurable window and re-syncs
+ * - Pending suggestions expire once their stay date, time to live or the
+ *   rate and market they were made against have passed
+ */
+@Injectable()
+export class SuggestionLifecycleService {
+  private readonly logger = new Logger(SuggestionLifecycleService.name);
+  private readonly undoWindowMinutes: number;
+  private readonly ttlHours: number;
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly configService: ConfigService,
+    private readonly syncService: SyncService,
+    private readonly suggestionFeedbackService: SuggestionFeedbackService,
+    private readonly compSetsService: CompSetsService,
+    private readonly businessDatesService: BusinessDatesService,
+  ) {
+    this.undoWindowMinutes = Number(
+      this.configService.get<number>('AI_SUGGESTION_UNDO_WINDOW_MINUTES', DEFAULT_UNDO_WINDOW_MINUTES),
+    );
+    this.ttlHours = Number(this.configService.get<number>('AI_SUGGESTION_TTL_HOURS', DEFAULT_TTL_HOURS));
+  }
+
+  /**
+   * When a suggestion made now stops being offered
+   */
+  expiresAt(createdAt = new Date()): Date {
+    return new Date(createdAt.getTime() + this.ttlHours * 60 * 60 * 1000);
+  }
+
+  /**
+   * Whether an applied suggestion can still be undone
+   */
+  isUndoAvailable(suggestion: any, now = new Date()): boolean {
+    return Boolean(
+      suggestion.isApplied &&
+      !suggestion.undoneAt &&
+      suggestion.previousState &&
+      suggestion.undoExpiresAt &&
+      new Date(suggestion.undoExpiresAt).getTime() > now.getTime(),
+    );
+  }
+
+  /**
+   * Load a suggested rate into every channel's record of its stay date,
+   * keeping the overwritten rates for undo
+   */
+  async apply(suggestionId: string, userId: string) {
+    const suggestion = await this.findSuggestion(suggestionId);
+    const now = new Date();
+
+    if (suggestion.isApplied) {
+      throw new BadRequestException('AI suggestion already applied');
+    }
+    if (suggestion.rejectedAt) {
+      throw new BadRequestException('AI suggestion was rejected');
+    }
+    const expiryReason = suggestion.expiryReason ?? await this.staticExpiryReason(suggestion, now);
+    if (suggestion.expiredAt || expiryReason) {
+      throw new BadRequestException(`AI suggestion has expired (${expiryReason})`);
+    }
+
+    const appliedRate = this.toNumber(suggestion.suggestedValue);
+    if (!(appliedRate > 0)) {
+      throw new BadRequestException('AI suggestion has no suggested rate');
+    }
+
+    const records = await this.databaseService.rateInventory.findMany({
+      where: {
+        propertyId: suggestion.propertyId,
+        roomTypeId: suggestion.roomTypeId,
+        ratePlanId: suggestion.ratePlanId,
+        date: suggestion.date,
+      },
+    });
+    if (!records.length) {
+      throw new BadRequestException('No rate inventory matches the AI suggestion');
+    }
+
+    const previousState: SuggestionPreviousState = {
+      appliedRate,
+      records: records.map(record => ({
+        id: record.id,
+        channelId: record.channelId ?? null,
+        rate: record.rate !== null && record.rate !== undefined ? this.toNumber(record.rate) : null,
+      })),
+    };
+
+    const applied = await this.databaseService.$transaction(async (tx) => {
+      for (const record of records) {
+        await this.writeRate(tx, record, appliedRate, userId, { suggestionId, action: 'APPLY' });
+      }
+
+      const updated = await tx.aiSuggestion.update({
+        where: { id: suggestionId },
+        data: {
+          isApplied: true,
+          appliedAt: now,
+          appliedBy: userId,
+          previousState: previousState as Prisma.InputJsonValue,
+          undoExpiresAt: new Date(now.getTime() + this.undoWindowMinutes * 60 * 1000),
+        },
+      });
+
+      await this.suggestionFeedbackService.recordAcceptance(tx, suggestion, userId);
+
+      await tx.auditLog.create({
+        data: {
+          propertyId: suggestion.propertyId,
+          userId,
+          action: 'APPLY',
+          entityType: 'AI_SUGGESTION',
+          entityId: suggestionId,
+          newValues: { appliedRate, records: records.length },
+          source: 'API',
+        },
+      });
+
+      return updated;
+    });
+
+    await this.syncService.syncRecords(suggestion.propertyId, records, userId);
+
+    this.logger.log(`Applied AI suggestion ${suggestionId} by user ${userId} to ${records.length} records`);
+    return { ...applied, undoAvailable: this.isUndoAvailable(applied, now) };
+  }
+
+  /**
+   * Restore the rates an applied suggestion overwrote, while the undo
+   * window is open and nobody has changed them since
+   */
+  async undo(suggestionId: string, userId: string) {
+    const suggestion = await this.findSuggestion(suggestionId);
+    const now = new Date();
+
+    if (!suggestion.isApplied) {
+      throw new BadRequestException('AI suggestion has not been applied');
+    }
+    if (suggestion.undoneAt) {
+      throw new BadRequestException('AI suggestion was already undone');
+    }
+    if (!this.isUndoAvailable(suggestion, now)) {
+      throw new BadRequestException('The undo window of this AI suggestion has closed');
+    }
+
+    const previousState = suggestion.previousState as SuggestionPreviousState;
+    const snapshots = new Map(previousState.records.map(record => [record.id, record]));
+    const records = await this.databaseService.rateInventory.findMany({
+      where: { id: { in: Array.from(snapshots.keys()) } },
+    });
+
+    if (records.length !== snapshots.size) {
+      throw new ConflictException('Rate records changed by this AI suggestion no longer exist');
+    }
+    const changed = records.filter(record => !this.sameRate(this.toNumber(record.rate), previousState.appliedRate));
+    if (changed.length) {
+      throw new ConflictException(
+        `Rates were changed after the AI suggestion was applied (${changed.map(record => record.id).join(', ')})`
+      );
+    }
+
+    const undone = await this.databaseService.$transaction(async (tx) => {
+      for (const record of records) {
+        await this.writeRate(tx, record, snapshots.get(record.id).rate, userId, { suggestionId, action: 'UNDO' });
+      }
+
+      const updated = await tx.aiSuggestion.update({
+        where: { id: suggestionId },
+        data: {
+          undoneAt: now,
+          undoneBy: userId,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId: suggestion.propertyId,
+          userId,
+          action: 'UNDO',
+          entityType: 'AI_SUGGESTION',
+          entityId: suggestionId,
+          oldValues: { appliedRate: previousState.appliedRate },
+          newValues: { records: previousState.records },
+          source: 'API',
+        },
+      });
+
+      return updated;
+    });
+
+    await this.syncService.syncRecords(suggestion.propertyId, records, userId);
+
+    this.logger.log(`Undid AI suggestion ${suggestionId} by user ${userId}`);
+    return { ...undone, undoAvailable: false };
+  }
+
+  /**
+   * Expire pending suggestions that can no longer be acted on
+   */
+  async expireStale(now = new Date()): Promise<SuggestionExpirySummary> {
+    const pending = await this.databaseService.aiSuggestion.findMany({
+      where: {
+        isApplied: false,
+        rejectedAt: null,
+        expiredAt: null,
+      },
+    });
+
+    const reasons: Record<SuggestionExpiryReason, number> = {
+      STAY_DATE_PASSED: 0,
+      TTL_ELAPSED: 0,
+      RATE_CHANGED: 0,
+      MARKET_MOVED: 0,
+    };
+    const expired = new Map<string, SuggestionExpiryReason>();
+    const live: any[] = [];
+
+    for (const suggestion of pending) {
+      const reason = await this.staticExpiryReason(suggestion, now);
+      if (reason) {
+        expired.set(suggestion.id, reason);
+      } else {
+        live.push(suggestion);
+      }
+    }
+
+    for (const [propertyId, suggestions] of this.groupBy(live, suggestion => suggestion.propertyId)) {
+      for (const [id, reason] of await this.marketExpiryReasons(propertyId, suggestions)) {
+        expired.set(id, reason);
+      }
+    }
+
+    for (const [id, reason] of expired) {
+      await this.databaseService.aiSuggestion.update({
+        where: { id },
+        data: { expiredAt: now, expiryReason: reason },
+      });
+      reasons[reason]++;
+    }
+
+    if (expired.size) {
+      this.logger.log(`Expired ${expired.size} pending AI suggestions`);
+    }
+
+    return { expired: expired.size, reasons };
+  }
+
+  // Private helper methods
+
+  private async findSuggestion(suggestionId: string) {
+    const suggestion = await this.databaseService.aiSuggestion.findUnique({ where: { id: suggestionId } });
+    if (!suggestion) {
+      throw new NotFoundException('AI suggestion not found');
+    }
+    return suggestion;
+  }
+
+  /**
+   * Expiry that needs nothing but the suggestion and its property's business date
+   */
+  private async staticExpiryReason(suggestion: any, now: Date): Promise<SuggestionExpiryReason | null> {
+    const today = await this.businessDatesService.today(suggestion.propertyId, now);
+    if (toDateOnly(suggestion.date).getTime() < today.getTime()) {
+      return 'STAY_DATE_PASSED';
+    }
+    if (suggestion.expiresAt && new Date(suggestion.expiresAt).getTime() <= now.getTime()) {
+      return 'TTL_ELAPSED';
+    }
+    return null;
+  }
+
+  /**
+   * Suggestions whose current rate or competitor average no longer match
+   * the ones they were made against
+   */
+  private async marketExpiryReasons(
+    propertyId: string,
+    suggestions: any[],
+  ): Promise<Map<string, SuggestionExpiryReason>> {
+    const dates = suggestions.map(suggestion => toDateOnly(new Date(suggestion.date)).getTime());
+    const dateRange = { gte: new Date(Math.min(...dates)), lte: new Date(Math.max(...dates)) };
+
+    const [rateRecords, competitorRates, roomTypes, weighting] = await Promise.all([
+      this.databaseService.rateInventory.findMany({
+        where: { propertyId, date: dateRange },
+      }),
+      this.databaseService.competitorRate.findMany({
+        where: { propertyId, date: dateRange },
+      }),
+      this.databaseService.roomType.findMany({
+        where: { propertyId },
+      }),
+      this.compSetsService.loadWeighting(propertyId),
+    ]);
+
+    const ratesByKey = this.groupBy(rateRecords, record =>
+      [record.roomTypeId, record.ratePlanId, this.formatDate(record.date)].join('|'));
+    // Same weighted primary comp set the suggestions were made against
+    const competitorsByKey = this.groupBy(
+      (await this.compSetsService.weighRates(weighting, competitorRates))
+        .filter(rate => rate.availability !== 'SOLD_OUT' && rate.rate > 0),
+      rate => [rate.roomTypeCode, this.formatDate(rate.date)].join('|'),
+    );
+    const roomTypeCodes = new Map(roomTypes.map(roomType => [roomType.id, roomType.code]));
+
+    const reasons = new Map<string, SuggestionExpiryReason>();
+    for (const suggestion of suggestions) {
+      const date = this.formatDate(suggestion.date);
+      const currentValue = this.toNumber(suggestion.currentValue);
+      const records = ratesByKey.get([suggestion.roomTypeId, suggestion.ratePlanId, date].join('|')) ?? [];
+
+      if (currentValue > 0 && records.some(record => !this.sameRate(this.toNumber(record.rate), currentValue))) {
+        reasons.set(suggestion.id, 'RATE_CHANGED');
+        continue;
+      }
+
+      const factors = suggestion.factors as Partial<RateRecommendationFactors> | null;
+      const madeAgainst = Number(factors?.competitorAverage);
+      const competitors = competitorsByKey.get([roomTypeCodes.get(suggestion.roomTypeId), date].join('|')) ?? [];
+      if (madeAgainst > 0 && competitors.length) {
+        const average = this.compSetsService.weightedAverage(competitors) ?? 0;
+        if (Math.abs(average - madeAgainst) / madeAgainst > MARKET_MOVE_THRESHOLD) {
+          reasons.set(suggestion.id, 'MARKET_MOVED');
+        }
+      }
+    }
+
+    return reasons;
+  }
+
+  private async writeRate(
+    tx: DatabaseService,
+    record: any,
+    rate: number | null,
+    userId: string,
+    changes: { suggestionId: string; action: 'APPLY' | 'UNDO' },
+  ): Promise<void> {
+    const updated = await tx.rateInventory.update({
+      where: { id: record.id },
+      data: { rate, syncStatus: 'PENDING' },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        propertyId: record.propertyId,
+        userId,
+        action: 'UPDATE',
+        entityType: 'RATE_INVENTORY',
+        entityId: record.id,
+        oldValues: toRateInventoryResponse(record),
+        newValues: toRateInventoryResponse({ ...record, ...updated }),
+        changes: { aiSuggestionId: changes.suggestionId, aiSuggestionAction: changes.action },
+        source: 'API',
+      },
+    });
+  }
+
+  private sameRate(a: number, b: number): boolean {
+    return Math.abs(a - b) < RATE_TOLERANCE;
+  }
+
+  private toNumber(value: any): number {
+    return value !== null && value !== undefined ? parseFloat(value.toString()) : 0;
+  }
+
+  private groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+      const group = groups.get(key(item));
+      if (group) {
+        group.push(item);
+      } else {
+        groups.set(key(item), [item]);
+      }
+    }
+    return groups;
+  }
+
+  private formatDate(date: Date | string): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+}
@@ -1,5 +1,5 @@
 import { SetMetadata } from '@nestjs/common';
-import { UserRole } from '@prisma/client';
+import { UserRole } from '../enums/user-role.enum';
 
 export const ROLES_KEY = 'roles';
 
@@ -10,7 +10,7 @@ import {
   Matches,
   IsUUID,
 } from 'class-validator';
-import { UserRole } from '@prisma/client';
+import { UserRole } from '../enums/user-role.enum';
 
 /**
  * Login DTO
@@ -0,0 +1,13 @@
+/**
+ * User Role Names
+ * 
+ * Role names seeded by RoleService and checked by RolesGuard.
+ * Prisma's UserRole is the user/role join model, so the names live here.
+ */
+export enum UserRole {
+  REVENUE_MANAGER = 'REVENUE_MANAGER',
+  DISTRIBUTION_MANAGER = 'DISTRIBUTION_MANAGER',
+  CORPORATE_ADMIN = 'CORPORATE_ADMIN',
+  AI_VIEWER = 'AI_VIEWER',
+  OPERATIONS = 'OPERATIONS',
+}
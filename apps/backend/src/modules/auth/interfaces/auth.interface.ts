@@ -7,6 +7,8 @@
  * @version 1.0.0
  */
 
+import { User } from '@prisma/client';
+
 export interface TokenPayload {
   sub: string; // User ID
   email: string;
@@ -14,6 +16,15 @@ export interface TokenPayload {
   exp: number; // Expires at
 }
 
+/**
+ * Authenticated user attached to the request by JwtStrategy
+ * (role is the name checked by RolesGuard)
+ */
+export interface RequestUser extends User {
+  role?: string;
+  sessionId?: string;
+}
+
 export interface AuthTokens {
   accessToken: string;
   refreshToken: string;
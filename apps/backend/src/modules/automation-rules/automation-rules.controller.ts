@@ -0,0 +1,153 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { AutomationRulesService } from './automation-rules.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { UserRole } from '../auth/enums/user-role.enum';
+import {
+  AutomationRuleQueryDto,
+  CreateAutomationRuleDto,
+  RuleExecutionQueryDto,
+  UpdateAutomationRuleDto,
+} from './dto/automation-rules.dto';
+
+/**
+ * Automation Rules Controller
+ *
+ * REST API endpoints for user-defined automation rules:
+ * - Rule CRUD, including pausing and testing through the status
+ * - Previewing the dates a rule would match
+ * - Execution history per rule
+ */
+@ApiTags('automation-rules')
+@Controller('properties/:propertyId/automation-rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class AutomationRulesController {
+  constructor(private readonly automationRulesService: AutomationRulesService) {}
+
+  /**
+   * List automation rules
+   */
+  @Get()
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'List automation rules' })
+  @ApiResponse({ status: 200, description: 'Automation rules retrieved successfully' })
+  async getRules(
+    @Param('propertyId') propertyId: string,
+    @Query() query: AutomationRuleQueryDto,
+  ) {
+    return this.automationRulesService.findAll(propertyId, query);
+  }
+
+  /**
+   * Preview the matches of a rule without saving it
+   */
+  @Post('preview')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Preview automation rule matches' })
+  @ApiResponse({ status: 200, description: 'Stay dates and room types the rule matches now' })
+  @ApiResponse({ status: 400, description: 'Invalid conditions, action or scope' })
+  async previewRule(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: CreateAutomationRuleDto,
+  ) {
+    return this.automationRulesService.preview(propertyId, dto);
+  }
+
+  /**
+   * Get an automation rule
+   */
+  @Get(':id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get automation rule' })
+  @ApiResponse({ status: 200, description: 'Automation rule retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Automation rule not found' })
+  async getRule(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+  ) {
+    return this.automationRulesService.findOne(propertyId, id);
+  }
+
+  /**
+   * Get the executions of an automation rule
+   */
+  @Get(':id/executions')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'List automation rule executions' })
+  @ApiResponse({ status: 200, description: 'Executions retrieved successfully' })
+  async getExecutions(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @Query() query: RuleExecutionQueryDto,
+  ) {
+    return this.automationRulesService.getExecutions(propertyId, id, query);
+  }
+
+  /**
+   * Create an automation rule
+   */
+  @Post()
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Create automation rule' })
+  @ApiResponse({ status: 201, description: 'Automation rule created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid conditions, action or scope' })
+  async createRule(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: CreateAutomationRuleDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.automationRulesService.create(propertyId, user.id, dto);
+  }
+
+  /**
+   * Update an automation rule
+   */
+  @Put(':id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Update automation rule' })
+  @ApiResponse({ status: 200, description: 'Automation rule updated successfully' })
+  @ApiResponse({ status: 404, description: 'Automation rule not found' })
+  async updateRule(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @Body() dto: UpdateAutomationRuleDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.automationRulesService.update(propertyId, id, user.id, dto);
+  }
+
+  /**
+   * Delete an automation rule
+   */
+  @Delete(':id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete automation rule' })
+  @ApiResponse({ status: 204, description: 'Automation rule deleted successfully' })
+  async deleteRule(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.automationRulesService.remove(propertyId, id, user.id);
+  }
+}
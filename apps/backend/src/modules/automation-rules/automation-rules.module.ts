@@ -0,0 +1,51 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+
+import { DatabaseModule } from '../database/database.module';
+import { ChannelManagerModule } from '../channel-manager/channel-manager.module';
+import { RatesInventoryModule } from '../rates-inventory/rates-inventory.module';
+import { ReservationsModule } from '../reservations/reservations.module';
+import { CompetitorRatesModule } from '../competitor-rates/competitor-rates.module';
+import { BusinessDatesModule } from '../business-dates/business-dates.module';
+import { AutomationRulesController } from './automation-rules.controller';
+import { AutomationRulesService } from './automation-rules.service';
+import { RuleEvaluatorService } from './rule-evaluator.service';
+import { RuleExecutionService } from './rule-execution.service';
+import { AutomationRulesProcessor, AUTOMATION_RULES_QUEUE } from './processors/automation-rules.processor';
+
+/**
+ * Automation Rules Module
+ *
+ * User-defined pricing and inventory rules:
+ * - Typed conditions on occupancy, days out, competitor position, pickup and events
+ * - Rate adjustments, channel closures and minimum stays as actions
+ * - Active, paused and testing (shadow) modes
+ * - Per-rule trigger counts and revenue impact from executions
+ */
+@Module({
+  imports: [
+    DatabaseModule,
+    ChannelManagerModule,
+    RatesInventoryModule,
+    ReservationsModule,
+    CompetitorRatesModule,
+    BusinessDatesModule,
+    BullModule.registerQueue({
+      name: AUTOMATION_RULES_QUEUE,
+      defaultJobOptions: {
+        attempts: 1, // Repeating jobs; the next run picks up where this one failed
+        removeOnComplete: 50,
+        removeOnFail: 50,
+      },
+    }),
+  ],
+  controllers: [AutomationRulesController],
+  providers: [
+    AutomationRulesService,
+    RuleEvaluatorService,
+    RuleExecutionService,
+    AutomationRulesProcessor,
+  ],
+  exports: [AutomationRulesService],
+})
+export class AutomationRulesModule {}
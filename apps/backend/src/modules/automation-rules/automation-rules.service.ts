@@ -0,0 +1,406 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+import { DatabaseService } from '../database/database.service';
+import { RuleAction, RuleCondition, RuleDefinition, RuleEvaluatorService } from './rule-evaluator.service';
+import {
+  AutomationRuleQueryDto,
+  AutomationRuleStatus,
+  AutomationRuleType,
+  CreateAutomationRuleDto,
+  RuleActionType,
+  RuleConditionMetric,
+  RuleExecutionQueryDto,
+  RuleExecutionStatus,
+  UpdateAutomationRuleDto,
+} from './dto/automation-rules.dto';
+
+const ACTION_RULE_TYPES: Record<RuleActionType, AutomationRuleType> = {
+  [RuleActionType.ADJUST_RATE]: AutomationRuleType.PRICING,
+  [RuleActionType.SET_MIN_LOS]: AutomationRuleType.INVENTORY,
+  [RuleActionType.CLOSE_CHANNEL]: AutomationRuleType.CHANNEL,
+};
+
+const DEFAULT_HORIZON_DAYS = 30;
+const DEFAULT_COOLDOWN_HOURS = 24;
+const MAX_MIN_LOS = 30;
+const PREVIEW_LIMIT = 100;
+
+/**
+ * Automation Rules Service
+ *
+ * User-defined pricing and inventory rules:
+ * - CRUD with validation of the condition DSL, action and scope
+ * - Active, paused and testing (shadow) modes
+ * - Preview of the dates and room types a rule would match today
+ * - Execution history and per-rule performance
+ */
+@Injectable()
+export class AutomationRulesService {
+  private readonly logger = new Logger(AutomationRulesService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly ruleEvaluatorService: RuleEvaluatorService,
+  ) {}
+
+  /**
+   * List rules of a property with their performance
+   */
+  async findAll(propertyId: string, query: AutomationRuleQueryDto) {
+    const rules = await this.databaseService.automationRule.findMany({
+      where: {
+        propertyId,
+        ...(query.status && { status: query.status }),
+        ...(query.type && { type: query.type }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const counts = await this.executionCounts(rules.map(rule => rule.id));
+    return rules.map(rule => this.toResponse(rule, counts.get(rule.id)));
+  }
+
+  /**
+   * One rule with its performance
+   */
+  async findOne(propertyId: string, id: string) {
+    const rule = await this.findRuleOrFail(propertyId, id);
+    const counts = await this.executionCounts([id]);
+    return this.toResponse(rule, counts.get(id));
+  }
+
+  /**
+   * Create a rule; new rules start in testing unless a status is given
+   */
+  async create(propertyId: string, userId: string, dto: CreateAutomationRuleDto) {
+    const data = this.normalize(dto);
+    await this.validateRule(propertyId, data);
+
+    const rule = await this.databaseService.$transaction(async (tx) => {
+      const created = await tx.automationRule.create({
+        data: {
+          ...data,
+          propertyId,
+          name: dto.name,
+          description: dto.description,
+          status: dto.status ?? AutomationRuleStatus.TESTING,
+          createdBy: userId,
+          updatedBy: userId,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'CREATE',
+          entityType: 'AUTOMATION_RULE',
+          entityId: created.id,
+          newValues: created,
+          source: 'API',
+        },
+      });
+
+      return created;
+    });
+
+    this.logger.log(`Created automation rule ${rule.id} for property ${propertyId}`);
+    return this.toResponse(rule);
+  }
+
+  /**
+   * Update a rule, validating the merged result; changing the status
+   * pauses, resumes or moves the rule in and out of testing
+   */
+  async update(propertyId: string, id: string, userId: string, dto: UpdateAutomationRuleDto) {
+    const existing = await this.findRuleOrFail(propertyId, id);
+    const data = this.normalize({
+      conditions: dto.conditions ?? existing.conditions,
+      action: dto.action ?? existing.action,
+      roomTypeIds: dto.roomTypeIds ?? existing.roomTypeIds,
+      ratePlanIds: dto.ratePlanIds ?? existing.ratePlanIds,
+      horizonDays: dto.horizonDays ?? existing.horizonDays,
+      cooldownHours: dto.cooldownHours ?? existing.cooldownHours,
+    });
+    await this.validateRule(propertyId, data);
+
+    const changes = {
+      ...data,
+      ...(dto.name !== undefined && { name: dto.name }),
+      ...(dto.description !== undefined && { description: dto.description }),
+      ...(dto.status !== undefined && { status: dto.status }),
+      updatedBy: userId,
+    };
+
+    const rule = await this.databaseService.$transaction(async (tx) => {
+      const updated = await tx.automationRule.update({
+        where: { id },
+        data: changes,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'UPDATE',
+          entityType: 'AUTOMATION_RULE',
+          entityId: id,
+          oldValues: existing,
+          newValues: updated,
+          changes: dto as Prisma.InputJsonValue,
+          source: 'API',
+        },
+      });
+
+      return updated;
+    });
+
+    this.logger.log(`Updated automation rule ${id}`);
+    const counts = await this.executionCounts([id]);
+    return this.toResponse({ ...existing, ...rule }, counts.get(id));
+  }
+
+  /**
+   * Delete a rule and its execution history
+   */
+  async remove(propertyId: string, id: string, userId: string): Promise<void> {
+    const existing = await this.findRuleOrFail(propertyId, id);
+
+    await this.databaseService.$transaction(async (tx) => {
+      await tx.automationRule.delete({ where: { id } });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'DELETE',
+          entityType: 'AUTOMATION_RULE',
+          entityId: id,
+          oldValues: existing,
+          source: 'API',
+        },
+      });
+    });
+
+    this.logger.log(`Deleted automation rule ${id}`);
+  }
+
+  /**
+   * Stay dates and room types a rule would match now, without saving or running it
+   */
+  async preview(propertyId: string, dto: CreateAutomationRuleDto) {
+    const data = this.normalize(dto);
+    await this.validateRule(propertyId, data);
+
+    const matches = await this.ruleEvaluatorService.findMatches(propertyId, data);
+    return {
+      total: matches.length,
+      matches: matches.slice(0, PREVIEW_LIMIT),
+    };
+  }
+
+  /**
+   * Most recent executions of a rule
+   */
+  async getExecutions(propertyId: string, id: string, query: RuleExecutionQueryDto) {
+    await this.findRuleOrFail(propertyId, id);
+
+    const executions = await this.databaseService.automationRuleExecution.findMany({
+      where: {
+        ruleId: id,
+        ...(query.status && { status: query.status }),
+      },
+      orderBy: { executedAt: 'desc' },
+      take: query.limit ?? 50,
+    });
+
+    return executions.map(execution => ({
+      id: execution.id,
+      ruleId: execution.ruleId,
+      roomTypeId: execution.roomTypeId,
+      stayDate: this.formatDate(execution.stayDate),
+      status: execution.status,
+      metrics: execution.metrics,
+      changes: execution.changes,
+      error: execution.error ?? null,
+      revenueImpact: execution.revenueImpact !== null && execution.revenueImpact !== undefined
+        ? parseFloat(execution.revenueImpact.toString())
+        : null,
+      impactMeasuredAt: execution.impactMeasuredAt ?? null,
+      executedAt: execution.executedAt,
+    }));
+  }
+
+  // Private helper methods
+
+  private async findRuleOrFail(propertyId: string, id: string) {
+    const rule = await this.databaseService.automationRule.findFirst({
+      where: { id, propertyId },
+    });
+    if (!rule) {
+      throw new NotFoundException('Automation rule not found');
+    }
+    return rule;
+  }
+
+  /**
+   * Keep only the fields each condition and the action use, and derive the rule type
+   */
+  private normalize(dto: {
+    conditions: RuleCondition[];
+    action: RuleAction;
+    roomTypeIds?: string[];
+    ratePlanIds?: string[];
+    horizonDays?: number;
+    cooldownHours?: number;
+  }): RuleDefinition & { type: AutomationRuleType; action: RuleAction; cooldownHours: number } {
+    const conditions = dto.conditions.map(condition =>
+      condition.metric === RuleConditionMetric.EVENT
+        ? { metric: condition.metric, present: condition.present }
+        : {
+          metric: condition.metric,
+          operator: condition.operator,
+          value: condition.value,
+          ...(condition.metric === RuleConditionMetric.PICKUP && { pickupDays: condition.pickupDays ?? 7 }),
+        });
+
+    const action: RuleAction = dto.action.type === RuleActionType.CLOSE_CHANNEL
+      ? { type: dto.action.type, channelId: dto.action.channelId }
+      : dto.action.type === RuleActionType.ADJUST_RATE
+        ? { type: dto.action.type, value: dto.action.value, unit: dto.action.unit ?? 'PERCENT' }
+        : { type: dto.action.type, value: dto.action.value };
+
+    return {
+      type: ACTION_RULE_TYPES[action.type],
+      conditions,
+      action,
+      roomTypeIds: dto.roomTypeIds ?? [],
+      ratePlanIds: dto.ratePlanIds ?? [],
+      horizonDays: dto.horizonDays ?? DEFAULT_HORIZON_DAYS,
+      cooldownHours: dto.cooldownHours ?? DEFAULT_COOLDOWN_HOURS,
+    };
+  }
+
+  /**
+   * Check the conditions and action are complete and the scope belongs to the property
+   */
+  private async validateRule(
+    propertyId: string,
+    rule: RuleDefinition & { action: RuleAction },
+  ): Promise<void> {
+    for (const condition of rule.conditions) {
+      if (condition.metric === RuleConditionMetric.EVENT) {
+        if (typeof condition.present !== 'boolean') {
+          throw new BadRequestException('EVENT conditions need present set to true or false');
+        }
+      } else if (!condition.operator || typeof condition.value !== 'number') {
+        throw new BadRequestException(`${condition.metric} conditions need an operator and a value`);
+      }
+    }
+
+    const { action } = rule;
+    switch (action.type) {
+      case RuleActionType.ADJUST_RATE:
+        if (typeof action.value !== 'number' || action.value === 0) {
+          throw new BadRequestException('ADJUST_RATE needs a non-zero value');
+        }
+        if (action.unit === 'PERCENT' && action.value <= -100) {
+          throw new BadRequestException('A rate cannot be lowered by 100% or more');
+        }
+        break;
+      case RuleActionType.SET_MIN_LOS:
+        if (!Number.isInteger(action.value) || action.value < 1 || action.value > MAX_MIN_LOS) {
+          throw new BadRequestException(`SET_MIN_LOS needs a whole number of nights from 1 to ${MAX_MIN_LOS}`);
+        }
+        break;
+      case RuleActionType.CLOSE_CHANNEL: {
+        const channel = action.channelId
+          ? await this.databaseService.channel.findUnique({ where: { id: action.channelId } })
+          : null;
+        if (!channel) {
+          throw new BadRequestException('CLOSE_CHANNEL needs an existing channel');
+        }
+        break;
+      }
+    }
+
+    if (rule.roomTypeIds.length) {
+      const roomTypes = await this.databaseService.roomType.findMany({
+        where: { id: { in: rule.roomTypeIds }, propertyId },
+      });
+      if (roomTypes.length !== new Set(rule.roomTypeIds).size) {
+        throw new BadRequestException('Room types must belong to this property');
+      }
+    }
+
+    if (rule.ratePlanIds.length) {
+      const ratePlans = await this.databaseService.ratePlan.findMany({
+        where: { id: { in: rule.ratePlanIds }, propertyId },
+      });
+      if (ratePlans.length !== new Set(rule.ratePlanIds).size) {
+        throw new BadRequestException('Rate plans must belong to this property');
+      }
+    }
+  }
+
+  /**
+   * Applied, failed and shadow execution counts per rule
+   */
+  private async executionCounts(ruleIds: string[]): Promise<Map<string, Record<string, number>>> {
+    if (!ruleIds.length) {
+      return new Map();
+    }
+
+    const groups = await this.databaseService.automationRuleExecution.groupBy({
+      by: ['ruleId', 'status'],
+      where: { ruleId: { in: ruleIds } },
+      _count: { _all: true },
+    });
+
+    const counts = new Map<string, Record<string, number>>();
+    for (const group of groups) {
+      counts.set(group.ruleId, { ...counts.get(group.ruleId), [group.status]: group._count._all });
+    }
+    return counts;
+  }
+
+  private toResponse(rule: any, counts: Record<string, number> = {}) {
+    const applied = counts[RuleExecutionStatus.APPLIED] ?? 0;
+    const failed = counts[RuleExecutionStatus.FAILED] ?? 0;
+
+    return {
+      id: rule.id,
+      propertyId: rule.propertyId,
+      name: rule.name,
+      description: rule.description ?? null,
+      type: rule.type,
+      status: rule.status,
+      conditions: rule.conditions,
+      action: rule.action,
+      roomTypeIds: rule.roomTypeIds ?? [],
+      ratePlanIds: rule.ratePlanIds ?? [],
+      horizonDays: rule.horizonDays,
+      cooldownHours: rule.cooldownHours,
+      performance: {
+        timesTriggered: rule.timesTriggered ?? 0,
+        appliedCount: applied,
+        failedCount: failed,
+        shadowCount: counts[RuleExecutionStatus.SHADOW] ?? 0,
+        successRate: applied + failed ? Math.round(applied / (applied + failed) * 1000) / 10 : null,
+        revenueImpact: rule.revenueImpact !== undefined && rule.revenueImpact !== null
+          ? parseFloat(rule.revenueImpact.toString())
+          : 0,
+        lastTriggeredAt: rule.lastTriggeredAt ?? null,
+        lastEvaluatedAt: rule.lastEvaluatedAt ?? null,
+      },
+      createdBy: rule.createdBy ?? null,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+
+  private formatDate(date: Date | string): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,223 @@
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Automation Rule Status
+ *
+ * TESTING rules are evaluated in shadow mode: matches are recorded but nothing is written.
+ */
+export enum AutomationRuleStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED',
+  TESTING = 'TESTING',
+}
+
+/**
+ * Automation Rule Type, derived from the rule's action
+ */
+export enum AutomationRuleType {
+  PRICING = 'PRICING',
+  INVENTORY = 'INVENTORY',
+  CHANNEL = 'CHANNEL',
+}
+
+/**
+ * Metric a rule condition tests, per stay date and room type
+ */
+export enum RuleConditionMetric {
+  OCCUPANCY = 'OCCUPANCY', // Percent of capacity on the books
+  DAYS_OUT = 'DAYS_OUT', // Days between today and the stay date
+  COMPETITOR_POSITION = 'COMPETITOR_POSITION', // Percent our rate sits above the competitor average
+  PICKUP = 'PICKUP', // Rooms picked up over the last pickupDays
+  EVENT = 'EVENT', // Whether a special event covers the stay date
+}
+
+/**
+ * What a rule does when its conditions hold
+ */
+export enum RuleActionType {
+  ADJUST_RATE = 'ADJUST_RATE',
+  CLOSE_CHANNEL = 'CLOSE_CHANNEL',
+  SET_MIN_LOS = 'SET_MIN_LOS',
+}
+
+/**
+ * Outcome of one rule execution
+ */
+export enum RuleExecutionStatus {
+  APPLIED = 'APPLIED',
+  SHADOW = 'SHADOW', // Matched while testing; nothing written
+  FAILED = 'FAILED',
+}
+
+export const RULE_OPERATORS = ['>', '<', '=', '>=', '<='] as const;
+export type RuleOperator = typeof RULE_OPERATORS[number];
+
+/**
+ * Rule Condition DTO
+ *
+ * Numeric metrics compare with operator and value; EVENT tests present.
+ */
+export class RuleConditionDto {
+  @ApiProperty({ enum: RuleConditionMetric, example: RuleConditionMetric.OCCUPANCY })
+  @IsEnum(RuleConditionMetric)
+  metric: RuleConditionMetric;
+
+  @ApiProperty({ enum: RULE_OPERATORS, example: '>', required: false })
+  @IsOptional()
+  @IsIn(RULE_OPERATORS as unknown as string[])
+  operator?: RuleOperator;
+
+  @ApiProperty({ example: 75, required: false })
+  @IsOptional()
+  @IsNumber()
+  value?: number;
+
+  @ApiProperty({ enum: [1, 7], example: 7, required: false, description: 'PICKUP window; 7 days by default' })
+  @IsOptional()
+  @IsIn([1, 7])
+  pickupDays?: 1 | 7;
+
+  @ApiProperty({ example: true, required: false, description: 'EVENT: whether an event must cover the date' })
+  @IsOptional()
+  @IsBoolean()
+  present?: boolean;
+}
+
+/**
+ * Rule Action DTO
+ */
+export class RuleActionDto {
+  @ApiProperty({ enum: RuleActionType, example: RuleActionType.ADJUST_RATE })
+  @IsEnum(RuleActionType)
+  type: RuleActionType;
+
+  @ApiProperty({ example: 10, required: false, description: 'Rate change, or the minimum length of stay' })
+  @IsOptional()
+  @IsNumber()
+  value?: number;
+
+  @ApiProperty({ enum: ['AMOUNT', 'PERCENT'], required: false, description: 'Unit of a rate change; PERCENT by default' })
+  @IsOptional()
+  @IsIn(['AMOUNT', 'PERCENT'])
+  unit?: 'AMOUNT' | 'PERCENT';
+
+  @ApiProperty({ example: 'channel-id', required: false, description: 'Channel a CLOSE_CHANNEL action stops selling on' })
+  @IsOptional()
+  @IsString()
+  channelId?: string;
+}
+
+/**
+ * Create Automation Rule DTO
+ */
+export class CreateAutomationRuleDto {
+  @ApiProperty({ example: 'Weekend premium pricing' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name: string;
+
+  @ApiProperty({ example: 'Raise BAR when weekends fill early', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiProperty({ enum: AutomationRuleStatus, required: false, description: 'TESTING by default' })
+  @IsOptional()
+  @IsEnum(AutomationRuleStatus)
+  status?: AutomationRuleStatus;
+
+  @ApiProperty({ type: [RuleConditionDto], description: 'All conditions must hold' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => RuleConditionDto)
+  conditions: RuleConditionDto[];
+
+  @ApiProperty({ type: RuleActionDto })
+  @ValidateNested()
+  @Type(() => RuleActionDto)
+  action: RuleActionDto;
+
+  @ApiProperty({ type: [String], required: false, description: 'All room types when empty' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  roomTypeIds?: string[];
+
+  @ApiProperty({ type: [String], required: false, description: 'All rate plans when empty' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  ratePlanIds?: string[];
+
+  @ApiProperty({ example: 30, required: false, description: 'Stay dates evaluated ahead of today' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  horizonDays?: number;
+
+  @ApiProperty({ example: 24, required: false, description: 'Hours before the rule acts on the same date again' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(720)
+  cooldownHours?: number;
+}
+
+/**
+ * Update Automation Rule DTO
+ */
+export class UpdateAutomationRuleDto extends PartialType(CreateAutomationRuleDto) {}
+
+/**
+ * Automation Rule Query DTO
+ */
+export class AutomationRuleQueryDto {
+  @ApiProperty({ enum: AutomationRuleStatus, required: false })
+  @IsOptional()
+  @IsEnum(AutomationRuleStatus)
+  status?: AutomationRuleStatus;
+
+  @ApiProperty({ enum: AutomationRuleType, required: false })
+  @IsOptional()
+  @IsEnum(AutomationRuleType)
+  type?: AutomationRuleType;
+}
+
+/**
+ * Rule Execution Query DTO
+ */
+export class RuleExecutionQueryDto {
+  @ApiProperty({ enum: RuleExecutionStatus, required: false })
+  @IsOptional()
+  @IsEnum(RuleExecutionStatus)
+  status?: RuleExecutionStatus;
+
+  @ApiProperty({ example: 50, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @Type(() => Number)
+  limit?: number;
+}
@@ -0,0 +1,60 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { Process, Processor, InjectQueue } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+
+import { RuleExecutionService } from '../rule-execution.service';
+
+export const AUTOMATION_RULES_QUEUE = 'automation-rules';
+
+const EVALUATE_INTERVAL_MS = 60 * 60 * 1000;
+const IMPACT_CRON = '30 3 * * *'; // Daily, once last night's stays are on the books
+
+/**
+ * Automation Rules Processor
+ *
+ * Runs the repeating automation rule jobs:
+ * - Evaluates active and testing rules every hour
+ * - Measures the revenue impact of applied executions nightly
+ */
+@Processor(AUTOMATION_RULES_QUEUE)
+export class AutomationRulesProcessor implements OnModuleInit {
+  private readonly logger = new Logger(AutomationRulesProcessor.name);
+
+  constructor(
+    private readonly ruleExecutionService: RuleExecutionService,
+    @InjectQueue(AUTOMATION_RULES_QUEUE) private readonly rulesQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.rulesQueue.add(
+        'evaluate',
+        {},
+        { jobId: 'automation-rules-evaluate', repeat: { every: EVALUATE_INTERVAL_MS } },
+      );
+      await this.rulesQueue.add(
+        'measure-impact',
+        {},
+        { jobId: 'automation-rules-measure-impact', repeat: { cron: IMPACT_CRON } },
+      );
+    } catch (error) {
+      this.logger.warn(`Could not schedule automation rule jobs: ${error.message}`);
+    }
+  }
+
+  @Process('evaluate')
+  async handleEvaluate(job: Job) {
+    const summaries = await this.ruleExecutionService.runRules();
+    const applied = summaries.reduce((sum, summary) => sum + summary.applied, 0);
+    const shadow = summaries.reduce((sum, summary) => sum + summary.shadow, 0);
+    this.logger.debug(`Automation rule run ${job.id}: ${summaries.length} rules, ${applied} applied, ${shadow} shadow`);
+    return { rules: summaries.length, applied, shadow };
+  }
+
+  @Process('measure-impact')
+  async handleMeasureImpact(job: Job) {
+    const measured = await this.ruleExecutionService.measureImpact();
+    this.logger.debug(`Automation rule impact ${job.id}: ${measured} executions measured`);
+    return { measured };
+  }
+}
@@ -0,0 +1,264 @@
+import { Injectable } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { DailyPerformance, OnTheBooksService } from '../reservations/on-the-books.service';
+import { CompSetsService } from '../competitor-rates/comp-sets.service';
+import { BusinessDatesService } from '../business-dates/business-dates.service';
+import { RuleActionType, RuleConditionMetric, RuleOperator } from './dto/automation-rules.dto';
+
+export interface RuleCondition {
+  metric: RuleConditionMetric;
+  operator?: RuleOperator;
+  value?: number;
+  pickupDays?: 1 | 7;
+  present?: boolean;
+}
+
+export interface RuleAction {
+  type: RuleActionType;
+  value?: number;
+  unit?: 'AMOUNT' | 'PERCENT';
+  channelId?: string;
+}
+
+/**
+ * Scope and conditions of a rule, stored or still being built
+ */
+export interface RuleDefinition {
+  conditions: RuleCondition[];
+  roomTypeIds: string[];
+  ratePlanIds: string[];
+  horizonDays: number;
+}
+
+/**
+ * Metric values of one stay date and room type; null when not measurable
+ */
+export interface RuleMetrics {
+  occupancy: number | null;
+  daysOut: number;
+  competitorPosition: number | null;
+  pickup1Day: number | null;
+  pickup7Day: number | null;
+  event: string | null; // Name of the event covering the date
+}
+
+export interface RuleMatch {
+  stayDate: string; // YYYY-MM-DD
+  roomTypeId: string;
+  roomTypeCode: string;
+  metrics: RuleMetrics;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERFORMANCE_METRICS = [RuleConditionMetric.OCCUPANCY, RuleConditionMetric.PICKUP];
+
+/**
+ * Rule Evaluator Service
+ *
+ * Measures the condition metrics of a rule over its horizon and finds the
+ * stay dates and room types where all conditions hold:
+ * - Occupancy and 1/7 day pickup from the on-the-books performance
+ * - Days out from today
+ * - Competitor position of our average rate against the competitor average
+ * - Special events covering the date
+ */
+@Injectable()
+export class RuleEvaluatorService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly onTheBooksService: OnTheBooksService,
+    private readonly compSetsService: CompSetsService,
+    private readonly businessDatesService: BusinessDatesService,
+  ) {}
+
+  /**
+   * Stay dates and room types of a property where every condition of the rule holds
+   */
+  async findMatches(propertyId: string, rule: RuleDefinition, now = new Date()): Promise<RuleMatch[]> {
+    const start = await this.businessDatesService.today(propertyId, now);
+    const end = this.addDays(start, rule.horizonDays - 1);
+    const metrics = new Set(rule.conditions.map(condition => condition.metric));
+
+    const roomTypes = await this.databaseService.roomType.findMany({
+      where: {
+        propertyId,
+        isActive: true,
+        ...(rule.roomTypeIds.length && { id: { in: rule.roomTypeIds } }),
+      },
+    });
+    if (!roomTypes.length) {
+      return [];
+    }
+
+    const [events, competitorPositions] = await Promise.all([
+      metrics.has(RuleConditionMetric.EVENT) ? this.loadEvents(propertyId, start, end) : Promise.resolve([]),
+      metrics.has(RuleConditionMetric.COMPETITOR_POSITION)
+        ? this.competitorPositions(propertyId, roomTypes, rule.ratePlanIds, start, end)
+        : Promise.resolve(new Map<string, number>()),
+    ]);
+
+    const matches: RuleMatch[] = [];
+    for (const roomType of roomTypes) {
+      const performance = PERFORMANCE_METRICS.some(metric => metrics.has(metric))
+        ? await this.onTheBooksService.getPerformance(propertyId, start, end, roomType.id)
+        : [];
+      const performanceByDate = new Map<string, DailyPerformance>(performance.map(day => [day.date, day]));
+
+      for (let offset = 0; offset < rule.horizonDays; offset++) {
+        const date = this.formatDate(this.addDays(start, offset));
+        const day = performanceByDate.get(date);
+        const event = events.find(candidate =>
+          (!candidate.roomTypeId || candidate.roomTypeId === roomType.id) &&
+          this.formatDate(candidate.startDate) <= date &&
+          this.formatDate(candidate.endDate) >= date);
+
+        const values: RuleMetrics = {
+          occupancy: day ? day.occupancy : null,
+          daysOut: offset,
+          competitorPosition: competitorPositions.get(`${roomType.id}|${date}`) ?? null,
+          pickup1Day: day ? day.pickup1Day : null,
+          pickup7Day: day ? day.pickup7Day : null,
+          event: event ? event.name : null,
+        };
+
+        if (rule.conditions.every(condition => this.holds(condition, values))) {
+          matches.push({ stayDate: date, roomTypeId: roomType.id, roomTypeCode: roomType.code, metrics: values });
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Whether one condition holds for the metrics of a date; unmeasurable metrics never hold
+   */
+  holds(condition: RuleCondition, metrics: RuleMetrics): boolean {
+    if (condition.metric === RuleConditionMetric.EVENT) {
+      return (metrics.event !== null) === condition.present;
+    }
+
+    const value = this.metricValue(condition, metrics);
+    return value !== null && this.compare(value, condition.operator, condition.value);
+  }
+
+  // Private helper methods
+
+  private metricValue(condition: RuleCondition, metrics: RuleMetrics): number | null {
+    switch (condition.metric) {
+      case RuleConditionMetric.OCCUPANCY:
+        return metrics.occupancy;
+      case RuleConditionMetric.DAYS_OUT:
+        return metrics.daysOut;
+      case RuleConditionMetric.COMPETITOR_POSITION:
+        return metrics.competitorPosition;
+      case RuleConditionMetric.PICKUP:
+        return condition.pickupDays === 1 ? metrics.pickup1Day : metrics.pickup7Day;
+      default:
+        return null;
+    }
+  }
+
+  private compare(value: number, operator: RuleOperator, threshold: number): boolean {
+    switch (operator) {
+      case '>': return value > threshold;
+      case '<': return value < threshold;
+      case '>=': return value >= threshold;
+      case '<=': return value <= threshold;
+      case '=': return value === threshold;
+    }
+  }
+
+  private async loadEvents(propertyId: string, start: Date, end: Date) {
+    return this.databaseService.specialEvent.findMany({
+      where: {
+        propertyId,
+        isActive: true,
+        startDate: { lte: end },
+        endDate: { gte: start },
+      },
+    });
+  }
+
+  /**
+   * Percent our average rate sits above (+) or below (-) the weighted
+   * average available rate of the primary comp set, keyed by room type and date
+   */
+  private async competitorPositions(
+    propertyId: string,
+    roomTypes: any[],
+    ratePlanIds: string[],
+    start: Date,
+    end: Date,
+  ): Promise<Map<string, number>> {
+    const [records, competitorRates, weighting] = await Promise.all([
+      this.databaseService.rateInventory.findMany({
+        where: {
+          propertyId,
+          roomTypeId: { in: roomTypes.map(roomType => roomType.id) },
+          date: { gte: start, lte: end },
+          ...(ratePlanIds.length && { ratePlanId: { in: ratePlanIds } }),
+        },
+      }),
+      this.databaseService.competitorRate.findMany({
+        where: {
+          propertyId,
+          date: { gte: start, lte: end },
+        },
+      }),
+      this.compSetsService.loadWeighting(propertyId),
+    ]);
+
+    const ourRates = this.averageBy(records, record =>
+      [record.roomTypeId, this.formatDate(record.date)].join('|'));
+    const marketRates = this.averageBy(
+      (await this.compSetsService.weighRates(weighting, competitorRates))
+        .filter(rate => rate.availability !== 'SOLD_OUT'),
+      rate => [rate.roomTypeCode, this.formatDate(rate.date)].join('|'),
+    );
+
+    const positions = new Map<string, number>();
+    for (const roomType of roomTypes) {
+      for (let day = new Date(start); day <= end; day = this.addDays(day, 1)) {
+        const date = this.formatDate(day);
+        const ours = ourRates.get(`${roomType.id}|${date}`);
+        const market = marketRates.get(`${roomType.code}|${date}`);
+
+        if (ours && market) {
+          positions.set(`${roomType.id}|${date}`, Math.round((ours - market) / market * 1000) / 10);
+        }
+      }
+    }
+
+    return positions;
+  }
+
+  /**
+   * Average rate per key; rows with a comp set weight count that many times
+   */
+  private averageBy(rows: any[], keyOf: (row: any) => string): Map<string, number> {
+    const totals = new Map<string, { sum: number; weight: number }>();
+    for (const row of rows) {
+      const rate = parseFloat(row.rate.toString());
+      if (!(rate > 0)) {
+        continue;
+      }
+
+      const key = keyOf(row);
+      const weight = row.weight ?? 1;
+      const total = totals.get(key) ?? { sum: 0, weight: 0 };
+      totals.set(key, { sum: total.sum + rate * weight, weight: total.weight + weight });
+    }
+
+    return new Map(Array.from(totals, ([key, total]) => [key, total.sum / total.weight]));
+  }
+
+  private addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_MS);
+  }
+
+  private formatDate(date: Date | string): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+}
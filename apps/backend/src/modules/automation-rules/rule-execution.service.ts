@@ -0,0 +1,347 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+import { DatabaseService } from '../database/database.service';
+import { addDays, toDateOnly } from '../../common/dates/business-date';
+import { SyncService } from '../channel-manager/sync.service';
+import { ValidationService } from '../rates-inventory/validation.service';
+import { BusinessDatesService } from '../business-dates/business-dates.service';
+import {
+  RateInventoryValues,
+  toRateInventoryData,
+  toRateInventoryResponse,
+} from '../rates-inventory/rates-inventory.mapper';
+import { RuleAction, RuleDefinition, RuleEvaluatorService, RuleMatch } from './rule-evaluator.service';
+import { AutomationRuleStatus, RuleActionType, RuleExecutionStatus } from './dto/automation-rules.dto';
+
+export interface RuleRecordChange {
+  id: string;
+  ratePlanId: string;
+  channelId: string;
+  before: RateInventoryValues;
+  after: RateInventoryValues;
+}
+
+export interface RuleRunSummary {
+  ruleId: string;
+  propertyId: string;
+  matched: number;
+  applied: number;
+  shadow: number;
+  failed: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Rule Execution Service
+ *
+ * Runs automation rules against live data:
+ * - Evaluates ACTIVE and TESTING rules over their horizon
+ * - Applies the action to each new match of an ACTIVE rule, with rate
+ *   validation, audit logs and channel syncs
+ * - Records matches of TESTING rules as shadow executions without writing
+ * - Skips a stay date and room type the rule acted on within its cooldown
+ * - Measures the revenue impact of applied rate changes once the stay date passes
+ */
+@Injectable()
+export class RuleExecutionService {
+  private readonly logger = new Logger(RuleExecutionService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly ruleEvaluatorService: RuleEvaluatorService,
+    private readonly validationService: ValidationService,
+    private readonly syncService: SyncService,
+    private readonly businessDatesService: BusinessDatesService,
+  ) {}
+
+  /**
+   * Evaluate the ACTIVE and TESTING rules, optionally of one property
+   */
+  async runRules(propertyId?: string, now = new Date()): Promise<RuleRunSummary[]> {
+    const rules = await this.databaseService.automationRule.findMany({
+      where: {
+        status: { in: [AutomationRuleStatus.ACTIVE, AutomationRuleStatus.TESTING] },
+        ...(propertyId && { propertyId }),
+      },
+    });
+
+    const summaries: RuleRunSummary[] = [];
+    for (const rule of rules) {
+      try {
+        summaries.push(await this.runRule(rule, now));
+      } catch (error) {
+        this.logger.error(`Automation rule ${rule.id} could not be evaluated: ${error.message}`);
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Measure the revenue impact of applied executions whose stay date has
+   * passed and add it to their rule. Returns the number of executions measured.
+   */
+  async measureImpact(now = new Date()): Promise<number> {
+    // Properties ahead of UTC may already be on the next calendar day
+    const executions = await this.databaseService.automationRuleExecution.findMany({
+      where: {
+        status: RuleExecutionStatus.APPLIED,
+        impactMeasuredAt: null,
+        stayDate: { lt: addDays(toDateOnly(now), 1) },
+      },
+    });
+
+    let measured = 0;
+    for (const execution of executions) {
+      const today = await this.businessDatesService.today(execution.propertyId, now);
+      if (toDateOnly(execution.stayDate).getTime() >= today.getTime()) {
+        continue;
+      }
+
+      const impact = await this.revenueImpact(execution);
+
+      await this.databaseService.$transaction(async (tx) => {
+        await tx.automationRuleExecution.update({
+          where: { id: execution.id },
+          data: { revenueImpact: impact, impactMeasuredAt: now },
+        });
+        await tx.automationRule.update({
+          where: { id: execution.ruleId },
+          data: { revenueImpact: { increment: impact } },
+        });
+      });
+      measured++;
+    }
+
+    return measured;
+  }
+
+  /**
+   * Values each record would have after a rule action; records the action
+   * would not change are left out
+   */
+  planChanges(action: RuleAction, records: any[]): Array<RuleRecordChange & { record: any }> {
+    return records
+      .map(record => {
+        const values = toRateInventoryResponse(record);
+        const before: RateInventoryValues = {};
+        const after: RateInventoryValues = {};
+
+        switch (action.type) {
+          case RuleActionType.ADJUST_RATE: {
+            const next = action.unit === 'AMOUNT'
+              ? values.rate + action.value
+              : values.rate * (1 + action.value / 100);
+            before.rate = values.rate;
+            after.rate = Math.max(0, Math.round(next * 100) / 100);
+            break;
+          }
+          case RuleActionType.CLOSE_CHANNEL:
+            before.stopSell = values.stopSell;
+            after.stopSell = true;
+            break;
+          case RuleActionType.SET_MIN_LOS:
+            // An unset minimum stay is kept as null so the audit shows it was cleared before
+            before.minStay = values.minStay ?? null;
+            after.minStay = action.value;
+            break;
+        }
+
+        return {
+          record,
+          id: record.id,
+          ratePlanId: record.ratePlanId,
+          channelId: record.channelId,
+          before,
+          after,
+        };
+      })
+      .filter(change => Object.keys(change.after).some(field => change.after[field] !== change.before[field]));
+  }
+
+  // Private helper methods
+
+  private async runRule(rule: any, now: Date): Promise<RuleRunSummary> {
+    const matches = await this.ruleEvaluatorService.findMatches(rule.propertyId, this.toDefinition(rule), now);
+    const summary: RuleRunSummary = {
+      ruleId: rule.id,
+      propertyId: rule.propertyId,
+      matched: matches.length,
+      applied: 0,
+      shadow: 0,
+      failed: 0,
+    };
+
+    const recent = matches.length
+      ? await this.databaseService.automationRuleExecution.findMany({
+        where: {
+          ruleId: rule.id,
+          executedAt: { gte: new Date(now.getTime() - rule.cooldownHours * HOUR_MS) },
+        },
+        select: { roomTypeId: true, stayDate: true },
+      })
+      : [];
+    const cooling = new Set(recent.map(execution =>
+      `${execution.roomTypeId}|${this.formatDate(execution.stayDate)}`));
+
+    for (const match of matches) {
+      if (cooling.has(`${match.roomTypeId}|${match.stayDate}`)) {
+        continue;
+      }
+
+      const status = await this.execute(rule, match, now);
+      if (status === RuleExecutionStatus.APPLIED) summary.applied++;
+      if (status === RuleExecutionStatus.SHADOW) summary.shadow++;
+      if (status === RuleExecutionStatus.FAILED) summary.failed++;
+    }
+
+    const triggered = summary.applied + summary.shadow;
+    await this.databaseService.automationRule.update({
+      where: { id: rule.id },
+      data: {
+        lastEvaluatedAt: now,
+        ...(triggered && { timesTriggered: { increment: triggered }, lastTriggeredAt: now }),
+      },
+    });
+
+    if (triggered || summary.failed) {
+      this.logger.log(
+        `Automation rule ${rule.id}: ${summary.applied} applied, ${summary.shadow} shadow, ${summary.failed} failed`,
+      );
+    }
+    return summary;
+  }
+
+  /**
+   * Act on one match; returns null when the action would change nothing
+   */
+  private async execute(rule: any, match: RuleMatch, now: Date): Promise<RuleExecutionStatus | null> {
+    const action = rule.action as RuleAction;
+    const records = await this.databaseService.rateInventory.findMany({
+      where: {
+        propertyId: rule.propertyId,
+        roomTypeId: match.roomTypeId,
+        date: new Date(match.stayDate),
+        ...(rule.ratePlanIds.length && { ratePlanId: { in: rule.ratePlanIds } }),
+        ...(action.type === RuleActionType.CLOSE_CHANNEL && { channelId: action.channelId }),
+      },
+    });
+
+    const planned = this.planChanges(action, records);
+    if (!planned.length) {
+      return null;
+    }
+
+    const changes: RuleRecordChange[] = planned.map(({ record, ...change }) => change);
+    const execution = {
+      ruleId: rule.id,
+      propertyId: rule.propertyId,
+      roomTypeId: match.roomTypeId,
+      stayDate: new Date(match.stayDate),
+      metrics: match.metrics as Prisma.InputJsonValue,
+      changes: changes as Prisma.InputJsonValue,
+      executedAt: now,
+    };
+
+    if (rule.status === AutomationRuleStatus.TESTING) {
+      await this.databaseService.automationRuleExecution.create({
+        data: { ...execution, status: RuleExecutionStatus.SHADOW },
+      });
+      return RuleExecutionStatus.SHADOW;
+    }
+
+    const errors: string[] = [];
+    for (const { record, after } of planned) {
+      try {
+        await this.validationService.validateRateInventoryUpdate(after, toRateInventoryResponse(record));
+      } catch (error) {
+        errors.push(`${record.ratePlanId}/${record.channelId}: ${error.message}`);
+      }
+    }
+    if (errors.length) {
+      await this.databaseService.automationRuleExecution.create({
+        data: { ...execution, status: RuleExecutionStatus.FAILED, error: errors.join('; ') },
+      });
+      return RuleExecutionStatus.FAILED;
+    }
+
+    await this.databaseService.$transaction(async (tx) => {
+      const created = await tx.automationRuleExecution.create({
+        data: { ...execution, status: RuleExecutionStatus.APPLIED },
+      });
+
+      for (const { record, after } of planned) {
+        const updated = await tx.rateInventory.update({
+          where: { id: record.id },
+          data: { ...toRateInventoryData(after), syncStatus: 'PENDING' },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            propertyId: rule.propertyId,
+            userId: null,
+            action: 'UPDATE',
+            entityType: 'RATE_INVENTORY',
+            entityId: record.id,
+            oldValues: toRateInventoryResponse(record),
+            newValues: toRateInventoryResponse({ ...record, ...updated }),
+            changes: { automationRuleId: rule.id, executionId: created.id, ...after },
+            source: 'SYSTEM',
+          },
+        });
+      }
+    });
+
+    await this.syncService.syncRecords(rule.propertyId, records.filter(record =>
+      planned.some(change => change.id === record.id)), rule.updatedBy ?? rule.createdBy);
+
+    return RuleExecutionStatus.APPLIED;
+  }
+
+  /**
+   * Extra revenue of rate changes: room nights booked after execution on the
+   * changed rate plans and channels, times the rate change they sold at.
+   * Restriction and channel actions carry no revenue impact of their own.
+   */
+  private async revenueImpact(execution: any): Promise<number> {
+    const deltas = new Map<string, number>();
+    for (const change of execution.changes as RuleRecordChange[]) {
+      if (change.after.rate !== undefined && change.before.rate !== undefined) {
+        deltas.set(`${change.ratePlanId}|${change.channelId}`, change.after.rate - change.before.rate);
+      }
+    }
+    if (!deltas.size) {
+      return 0;
+    }
+
+    const nights = await this.databaseService.stayNight.findMany({
+      where: {
+        propertyId: execution.propertyId,
+        roomTypeId: execution.roomTypeId,
+        stayDate: execution.stayDate,
+        bookedAt: { gt: execution.executedAt },
+        cancelledAt: null,
+      },
+      select: { ratePlanId: true, channelId: true, rooms: true },
+    });
+
+    const impact = nights.reduce((sum, night) =>
+      sum + night.rooms * (deltas.get(`${night.ratePlanId}|${night.channelId}`) ?? 0), 0);
+    return Math.round(impact * 100) / 100;
+  }
+
+  private toDefinition(rule: any): RuleDefinition {
+    return {
+      conditions: rule.conditions,
+      roomTypeIds: rule.roomTypeIds ?? [],
+      ratePlanIds: rule.ratePlanIds ?? [],
+      horizonDays: rule.horizonDays,
+    };
+  }
+
+  private formatDate(date: Date | string): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,190 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { AutonomousActionsService } from './autonomous-actions.service';
+import { AutonomyGuardrailsService } from './autonomy-guardrails.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { UserRole } from '../auth/enums/user-role.enum';
+import {
+  ActionDecisionDto,
+  AutonomousActionQueryDto,
+  ScheduleAutonomousActionDto,
+  UpdateAutonomyGuardrailsDto,
+} from './dto/autonomous-actions.dto';
+
+/**
+ * Autonomous Actions Controller
+ *
+ * REST API endpoints for AI-triggered changes:
+ * - Scheduling actions and listing them with their audit trail
+ * - Approving, rejecting, cancelling and rolling back actions
+ * - Per-property autonomy guardrails
+ */
+@ApiTags('autonomous-actions')
+@Controller('properties/:propertyId')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class AutonomousActionsController {
+  constructor(
+    private readonly autonomousActionsService: AutonomousActionsService,
+    private readonly guardrailsService: AutonomyGuardrailsService,
+  ) {}
+
+  /**
+   * List autonomous actions
+   */
+  @Get('autonomous-actions')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'List autonomous actions' })
+  @ApiResponse({ status: 200, description: 'Autonomous actions retrieved successfully' })
+  async getActions(
+    @Param('propertyId') propertyId: string,
+    @Query() query: AutonomousActionQueryDto,
+  ) {
+    return this.autonomousActionsService.findAll(propertyId, query);
+  }
+
+  /**
+   * Get an autonomous action with its audit trail
+   */
+  @Get('autonomous-actions/:id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get autonomous action' })
+  @ApiResponse({ status: 200, description: 'Autonomous action retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Autonomous action not found' })
+  async getAction(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+  ) {
+    return this.autonomousActionsService.findOne(propertyId, id);
+  }
+
+  /**
+   * Schedule an autonomous action
+   */
+  @Post('autonomous-actions')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Schedule autonomous action' })
+  @ApiResponse({ status: 201, description: 'Autonomous action scheduled' })
+  @ApiResponse({ status: 400, description: 'Action violates the autonomy guardrails' })
+  async scheduleAction(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: ScheduleAutonomousActionDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.autonomousActionsService.schedule(propertyId, user.id, dto);
+  }
+
+  /**
+   * Approve an autonomous action
+   */
+  @Post('autonomous-actions/:id/approve')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve autonomous action' })
+  @ApiResponse({ status: 200, description: 'Autonomous action approved' })
+  @ApiResponse({ status: 409, description: 'Action is not awaiting approval' })
+  async approveAction(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @Body() dto: ActionDecisionDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.autonomousActionsService.approve(propertyId, id, user.id, dto.comment);
+  }
+
+  /**
+   * Reject an autonomous action
+   */
+  @Post('autonomous-actions/:id/reject')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject autonomous action' })
+  @ApiResponse({ status: 200, description: 'Autonomous action rejected' })
+  @ApiResponse({ status: 409, description: 'Action is not awaiting approval' })
+  async rejectAction(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @Body() dto: ActionDecisionDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.autonomousActionsService.reject(propertyId, id, user.id, dto.comment);
+  }
+
+  /**
+   * Cancel an autonomous action that has not run
+   */
+  @Post('autonomous-actions/:id/cancel')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel autonomous action' })
+  @ApiResponse({ status: 200, description: 'Autonomous action cancelled' })
+  @ApiResponse({ status: 409, description: 'Action already ran or was closed' })
+  async cancelAction(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @Body() dto: ActionDecisionDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.autonomousActionsService.cancel(propertyId, id, user.id, dto.comment);
+  }
+
+  /**
+   * Roll back an executed autonomous action
+   */
+  @Post('autonomous-actions/:id/rollback')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Roll back autonomous action' })
+  @ApiResponse({ status: 200, description: 'Autonomous action rolled back' })
+  @ApiResponse({ status: 409, description: 'Action has not completed' })
+  async rollbackAction(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @Body() dto: ActionDecisionDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.autonomousActionsService.rollback(propertyId, id, user.id, dto.comment);
+  }
+
+  /**
+   * Get autonomy guardrails
+   */
+  @Get('autonomy-guardrails')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get autonomy guardrails' })
+  @ApiResponse({ status: 200, description: 'Autonomy guardrails retrieved successfully' })
+  async getGuardrails(@Param('propertyId') propertyId: string) {
+    return this.guardrailsService.getGuardrails(propertyId);
+  }
+
+  /**
+   * Update autonomy guardrails
+   */
+  @Put('autonomy-guardrails')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Update autonomy guardrails' })
+  @ApiResponse({ status: 200, description: 'Autonomy guardrails updated successfully' })
+  async updateGuardrails(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: UpdateAutonomyGuardrailsDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.guardrailsService.updateGuardrails(propertyId, user.id, dto);
+  }
+}
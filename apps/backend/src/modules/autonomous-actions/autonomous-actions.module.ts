@@ -0,0 +1,47 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+
+import { DatabaseModule } from '../database/database.module';
+import { ChannelManagerModule } from '../channel-manager/channel-manager.module';
+import { RatesInventoryModule } from '../rates-inventory/rates-inventory.module';
+import { BusinessDatesModule } from '../business-dates/business-dates.module';
+import { AutonomousActionsController } from './autonomous-actions.controller';
+import { AutonomousActionsService } from './autonomous-actions.service';
+import { AutonomyGuardrailsService } from './autonomy-guardrails.service';
+import { RollbackMonitorService } from './rollback-monitor.service';
+import { AutonomousActionsProcessor, AUTONOMOUS_ACTIONS_QUEUE } from './processors/autonomous-actions.processor';
+
+/**
+ * Autonomous Actions Module
+ *
+ * AI-triggered rate, inventory and restriction changes:
+ * - Per-property autonomy guardrails
+ * - Scheduling, approval and execution of actions
+ * - Rollback conditions watched after execution, with automatic rollback
+ * - Audit trail per action
+ */
+@Module({
+  imports: [
+    DatabaseModule,
+    ChannelManagerModule,
+    RatesInventoryModule,
+    BusinessDatesModule,
+    BullModule.registerQueue({
+      name: AUTONOMOUS_ACTIONS_QUEUE,
+      defaultJobOptions: {
+        attempts: 1, // Repeating jobs; the next run picks up where this one failed
+        removeOnComplete: 50,
+        removeOnFail: 50,
+      },
+    }),
+  ],
+  controllers: [AutonomousActionsController],
+  providers: [
+    AutonomousActionsService,
+    AutonomyGuardrailsService,
+    RollbackMonitorService,
+    AutonomousActionsProcessor,
+  ],
+  exports: [AutonomousActionsService],
+})
+export class AutonomousActionsModule {}
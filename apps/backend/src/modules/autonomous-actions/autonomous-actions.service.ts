@@ -0,0 +1,746 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { AutonomousAction } from '@prisma/client';
+
+import { DatabaseService } from '../database/database.service';
+import { addDays, toDateOnly } from '../../common/dates/business-date';
+import { SyncService } from '../channel-manager/sync.service';
+import { BusinessDatesService } from '../business-dates/business-dates.service';
+import { ValidationService } from '../rates-inventory/validation.service';
+import {
+  RateInventoryValues,
+  toRateInventoryData,
+  toRateInventoryResponse,
+} from '../rates-inventory/rates-inventory.mapper';
+import { AutonomyGuardrails, AutonomyGuardrailsService } from './autonomy-guardrails.service';
+import { RollbackMonitorService, StoredRollbackPlan } from './rollback-monitor.service';
+import {
+  ActionChangeDto,
+  ActionField,
+  ActionTriggerType,
+  AutonomousActionQueryDto,
+  AutonomousActionStatus,
+  AutonomousActionType,
+  ScheduleAutonomousActionDto,
+} from './dto/autonomous-actions.dto';
+
+export interface AuditTrailEntry {
+  timestamp: Date;
+  action: string;
+  userId?: string;
+  details: Record<string, any>;
+  source: 'user' | 'ai' | 'system';
+}
+
+export interface ActionRecordState {
+  id: string;
+  channelId: string;
+  before: RateInventoryValues;
+  after: RateInventoryValues;
+}
+
+interface PlannedChange {
+  record: any;
+  before: RateInventoryValues;
+  after: RateInventoryValues;
+}
+
+const ACTION_FIELDS: Record<AutonomousActionType, ActionField[]> = {
+  [AutonomousActionType.RATE_ADJUSTMENT]: [ActionField.RATE],
+  [AutonomousActionType.INVENTORY_UPDATE]: [ActionField.INVENTORY],
+  [AutonomousActionType.RESTRICTION_CHANGE]: [
+    ActionField.MIN_STAY,
+    ActionField.MAX_STAY,
+    ActionField.CLOSED_TO_ARRIVAL,
+    ActionField.CLOSED_TO_DEPARTURE,
+    ActionField.STOP_SELL,
+  ],
+};
+
+const BOOLEAN_FIELDS = [ActionField.CLOSED_TO_ARRIVAL, ActionField.CLOSED_TO_DEPARTURE, ActionField.STOP_SELL];
+const DUE_STATUSES = [AutonomousActionStatus.SCHEDULED, AutonomousActionStatus.APPROVED];
+const CANCELLABLE_STATUSES = [...DUE_STATUSES, AutonomousActionStatus.PENDING_APPROVAL];
+const DEFAULT_MONITOR_HOURS = 72;
+const MAX_TARGET_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Autonomous Actions Service
+ *
+ * Runs AI-triggered rate, inventory and restriction changes:
+ * - Scheduling within the property's autonomy guardrails and rate validation
+ * - Approval gate for actions the guardrails or the caller flag
+ * - Execution when due, keeping every record's values for rollback
+ * - Automatic rollback when a rollback condition trips, or on request
+ * - Full audit trail per action, with channel syncs after every write
+ */
+@Injectable()
+export class AutonomousActionsService {
+  private readonly logger = new Logger(AutonomousActionsService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly guardrailsService: AutonomyGuardrailsService,
+    private readonly rollbackMonitorService: RollbackMonitorService,
+    private readonly validationService: ValidationService,
+    private readonly syncService: SyncService,
+    private readonly businessDatesService: BusinessDatesService,
+  ) {}
+
+  /**
+   * Schedule an action; it waits for approval when the guardrails or the
+   * caller require it
+   */
+  async schedule(propertyId: string, userId: string, dto: ScheduleAutonomousActionDto) {
+    const startDate = toDateOnly(new Date(dto.startDate));
+    const endDate = toDateOnly(new Date(dto.endDate));
+    const days = Math.round((endDate.getTime() - startDate.getTime()) / DAY_MS) + 1;
+
+    if (days < 1) {
+      throw new BadRequestException('End date must not be before start date');
+    }
+    if (days > MAX_TARGET_DAYS) {
+      throw new BadRequestException(`Autonomous actions can target at most ${MAX_TARGET_DAYS} days`);
+    }
+    this.assertChanges(dto.type, dto.changes);
+
+    const guardrails = await this.guardrailsService.getGuardrails(propertyId);
+    const today = await this.businessDatesService.today(propertyId);
+    const scheduledToday = await this.countScheduledOn(propertyId, today);
+    const target = { propertyId, roomTypeId: dto.roomTypeId, ratePlanId: dto.ratePlanId, startDate, endDate };
+
+    const violations = [
+      ...this.guardrailsService.checkSchedulable(guardrails, dto.type, dto.confidence, scheduledToday),
+      ...await this.checkPlan(guardrails, this.planChanges(dto.changes, await this.loadTargetRecords(target))),
+    ];
+    if (violations.length) {
+      throw new BadRequestException(`Action violates guardrails: ${violations.join('; ')}`);
+    }
+
+    const approvalRequired = this.guardrailsService.requiresApproval(
+      guardrails,
+      dto.type,
+      dto.confidence,
+      dto.approvalRequired,
+    );
+    const rollbackPlan: StoredRollbackPlan = {
+      autoRollback: dto.rollbackPlan.autoRollback,
+      monitorHours: dto.rollbackPlan.monitorHours ?? DEFAULT_MONITOR_HOURS,
+      conditions: (dto.rollbackPlan.conditions ?? []).map(condition => ({
+        ...condition,
+        afterHours: condition.afterHours ?? 0,
+        lastCheckedAt: null,
+        lastValue: null,
+      })),
+    };
+
+    const action = await this.databaseService.$transaction(async (tx) => {
+      const created = await tx.autonomousAction.create({
+        data: {
+          ...target,
+          type: dto.type,
+          status: approvalRequired ? AutonomousActionStatus.PENDING_APPROVAL : AutonomousActionStatus.SCHEDULED,
+          trigger: { ...dto.trigger, data: dto.trigger.data ?? {}, timestamp: new Date().toISOString() },
+          changes: dto.changes,
+          reasoning: dto.reasoning,
+          confidence: dto.confidence,
+          approvalRequired,
+          scheduledAt: dto.scheduledAt ? new Date(dto.scheduledAt) : new Date(),
+          rollbackPlan,
+          createdBy: userId,
+        },
+      });
+
+      await this.recordEvent(tx, created, 'SCHEDULE', {
+        trigger: dto.trigger,
+        changes: dto.changes,
+        approvalRequired,
+      }, userId, dto.trigger.type === ActionTriggerType.MANUAL_OVERRIDE ? 'API' : 'AI');
+
+      return created;
+    });
+
+    this.logger.log(
+      `Scheduled ${dto.type} action ${action.id} for property ${propertyId}` +
+      (approvalRequired ? ', awaiting approval' : ''),
+    );
+    return this.toResponse(action);
+  }
+
+  /**
+   * List actions of a property, newest first
+   */
+  async findAll(propertyId: string, query: AutonomousActionQueryDto) {
+    const actions = await this.databaseService.autonomousAction.findMany({
+      where: {
+        propertyId,
+        ...(query.status && { status: query.status }),
+        ...(query.type && { type: query.type }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit ?? 50,
+    });
+
+    return actions.map(action => this.toResponse(action));
+  }
+
+  /**
+   * One action with its audit trail
+   */
+  async findOne(propertyId: string, actionId: string) {
+    const action = await this.findAction(propertyId, actionId);
+    return this.toResponse(action, await this.getAuditTrail(action));
+  }
+
+  /**
+   * Approve an action awaiting approval; it runs once it is due
+   */
+  async approve(propertyId: string, actionId: string, userId: string, comment?: string) {
+    const action = await this.findAction(propertyId, actionId);
+    this.assertStatus(action, [AutonomousActionStatus.PENDING_APPROVAL], 'approved');
+
+    const approved = await this.databaseService.$transaction(async (tx) => {
+      const claimed = await tx.autonomousAction.updateMany({
+        where: { id: actionId, status: AutonomousActionStatus.PENDING_APPROVAL },
+        data: {
+          status: AutonomousActionStatus.APPROVED,
+          approvedBy: userId,
+          approvedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictException('The action is no longer awaiting approval');
+      }
+
+      await this.recordEvent(tx, action, 'APPROVE', { comment: comment ?? null }, userId, 'API');
+      return tx.autonomousAction.findUnique({ where: { id: actionId } });
+    });
+
+    this.logger.log(`Approved autonomous action ${actionId} by user ${userId}`);
+    return this.toResponse(approved);
+  }
+
+  /**
+   * Reject an action awaiting approval
+   */
+  async reject(propertyId: string, actionId: string, userId: string, comment?: string) {
+    const action = await this.findAction(propertyId, actionId);
+    this.assertStatus(action, [AutonomousActionStatus.PENDING_APPROVAL], 'rejected');
+
+    return this.closeWithoutRunning(action, 'REJECT', userId, comment);
+  }
+
+  /**
+   * Cancel an action that has not run yet
+   */
+  async cancel(propertyId: string, actionId: string, userId: string, comment?: string) {
+    const action = await this.findAction(propertyId, actionId);
+    this.assertStatus(action, CANCELLABLE_STATUSES, 'cancelled');
+
+    return this.closeWithoutRunning(action, 'CANCEL', userId, comment);
+  }
+
+  /**
+   * Roll back a completed action on request
+   */
+  async rollback(propertyId: string, actionId: string, userId: string, comment?: string) {
+    const action = await this.findAction(propertyId, actionId);
+    this.assertStatus(action, [AutonomousActionStatus.COMPLETED], 'rolled back');
+
+    const rolledBack = await this.revert(action, { comment: comment ?? null }, userId);
+    return this.toResponse(rolledBack);
+  }
+
+  /**
+   * Execute scheduled and approved actions whose time has come
+   */
+  async executeDue(now = new Date()): Promise<number> {
+    const due = await this.databaseService.autonomousAction.findMany({
+      where: {
+        status: { in: DUE_STATUSES },
+        scheduledAt: { lte: now },
+      },
+      orderBy: { scheduledAt: 'asc' },
+    });
+
+    let executed = 0;
+    for (const action of due) {
+      try {
+        if (await this.execute(action)) {
+          executed++;
+        }
+      } catch (error) {
+        this.logger.error(`Autonomous action ${action.id} failed: ${error.message}`);
+        await this.fail(action, error.message);
+      }
+    }
+
+    return executed;
+  }
+
+  /**
+   * Check the rollback conditions of executed actions, rolling back those
+   * that trip and closing monitoring of those past their window
+   */
+  async monitor(now = new Date()): Promise<{ checked: number; rolledBack: number }> {
+    const watched = await this.databaseService.autonomousAction.findMany({
+      where: {
+        status: AutonomousActionStatus.COMPLETED,
+        monitorUntil: { not: null },
+        monitoringEndedAt: null,
+      },
+    });
+
+    let checked = 0;
+    let rolledBack = 0;
+    for (const action of watched) {
+      const plan = action.rollbackPlan as StoredRollbackPlan;
+
+      if (new Date(action.monitorUntil).getTime() <= now.getTime()) {
+        await this.databaseService.$transaction(async (tx) => {
+          await tx.autonomousAction.update({
+            where: { id: action.id },
+            data: { monitoringEndedAt: now },
+          });
+          await this.recordEvent(tx, action, 'MONITORING_ENDED', {}, null, 'SYSTEM');
+        });
+        continue;
+      }
+
+      const checks = await this.rollbackMonitorService.checkDue(action, now);
+      if (!checks.length) {
+        continue;
+      }
+      checked++;
+
+      const tripped = checks.find(check => check.tripped);
+      if (tripped) {
+        const { condition, value } = tripped;
+        await this.revert({ ...action, rollbackPlan: plan }, {
+          condition: `${condition.metric} ${condition.operator} ${condition.threshold}`,
+          value,
+        }, null);
+        rolledBack++;
+        continue;
+      }
+
+      await this.databaseService.autonomousAction.update({
+        where: { id: action.id },
+        data: { rollbackPlan: plan },
+      });
+    }
+
+    if (rolledBack) {
+      this.logger.log(`Rolled back ${rolledBack} autonomous actions whose conditions tripped`);
+    }
+
+    return { checked, rolledBack };
+  }
+
+  // Private helper methods
+
+  private async findAction(propertyId: string, actionId: string) {
+    const action = await this.databaseService.autonomousAction.findFirst({
+      where: { id: actionId, propertyId },
+    });
+    if (!action) {
+      throw new NotFoundException('Autonomous action not found');
+    }
+    return action;
+  }
+
+  /**
+   * Actions scheduled on a business date of the property, counting each by
+   * the property's calendar day at the time it was created
+   */
+  private async countScheduledOn(propertyId: string, businessDate: Date): Promise<number> {
+    // The property's day never starts more than a day before midnight UTC of its date
+    const recent = await this.databaseService.autonomousAction.findMany({
+      where: { propertyId, createdAt: { gte: addDays(businessDate, -1) } },
+      select: { createdAt: true },
+    });
+
+    let count = 0;
+    for (const action of recent) {
+      const day = await this.businessDatesService.today(propertyId, new Date(action.createdAt));
+      if (day.getTime() === businessDate.getTime()) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  private assertStatus(action: any, allowed: AutonomousActionStatus[], verb: string): void {
+    if (!allowed.includes(action.status)) {
+      throw new ConflictException(`A ${action.status.toLowerCase()} action cannot be ${verb}`);
+    }
+  }
+
+  /**
+   * Changes must touch fields of the action's type, with a value or a numeric delta
+   */
+  private assertChanges(type: AutonomousActionType, changes: ActionChangeDto[]): void {
+    for (const change of changes) {
+      if (!ACTION_FIELDS[type].includes(change.field)) {
+        throw new BadRequestException(`${type} actions cannot change ${change.field}`);
+      }
+      if ((change.value === undefined) === (change.delta === undefined)) {
+        throw new BadRequestException(`Change of ${change.field} needs either a value or a delta`);
+      }
+
+      const isBoolean = BOOLEAN_FIELDS.includes(change.field);
+      if (isBoolean && typeof change.value !== 'boolean') {
+        throw new BadRequestException(`${change.field} must be set to true or false`);
+      }
+      if (!isBoolean && change.value !== undefined && typeof change.value !== 'number') {
+        throw new BadRequestException(`${change.field} must be set to a number`);
+      }
+    }
+  }
+
+  private async loadTargetRecords(target: {
+    propertyId: string;
+    roomTypeId?: string | null;
+    ratePlanId?: string | null;
+    startDate: Date;
+    endDate: Date;
+  }) {
+    return this.databaseService.rateInventory.findMany({
+      where: {
+        propertyId: target.propertyId,
+        date: { gte: target.startDate, lte: target.endDate },
+        ...(target.roomTypeId && { roomTypeId: target.roomTypeId }),
+        ...(target.ratePlanId && { ratePlanId: target.ratePlanId }),
+      },
+    });
+  }
+
+  /**
+   * Values each targeted record would have after the changes
+   */
+  private planChanges(changes: ActionChangeDto[], records: any[]): PlannedChange[] {
+    return records.map(record => {
+      const values = toRateInventoryResponse(record);
+      const before: Record<string, any> = {};
+      const after: Record<string, any> = {};
+
+      // Unset restrictions are kept as null so a rollback clears them again
+      for (const change of changes) {
+        before[change.field] = values[change.field] ?? null;
+        after[change.field] = this.nextValue(change, values[change.field]);
+      }
+
+      return { record, before, after };
+    });
+  }
+
+  private nextValue(change: ActionChangeDto, current: any): number | boolean {
+    if (change.value !== undefined) {
+      return change.value;
+    }
+
+    const base = Number(current ?? 0);
+    const next = change.unit === 'PERCENT' ? base * (1 + change.delta / 100) : base + change.delta;
+
+    return change.field === ActionField.RATE
+      ? Math.max(0, Math.round(next * 100) / 100)
+      : Math.max(0, Math.round(next));
+  }
+
+  /**
+   * Guardrail and rate validation violations of a plan
+   */
+  private async checkPlan(guardrails: AutonomyGuardrails, planned: PlannedChange[]): Promise<string[]> {
+    if (!planned.length) {
+      return ['No rate inventory exists in the targeted dates'];
+    }
+
+    const violations = new Set<string>();
+    for (const { record, before, after } of planned) {
+      const label = `${this.formatDate(record.date)} ${record.roomTypeId}/${record.ratePlanId}/${record.channelId}`;
+
+      for (const violation of this.guardrailsService.checkChangeLimits(guardrails, before, after)) {
+        violations.add(`${label}: ${violation}`);
+      }
+
+      try {
+        await this.validationService.validateRateInventoryUpdate(after, toRateInventoryResponse(record));
+      } catch (error) {
+        violations.add(`${label}: ${error.message}`);
+      }
+    }
+
+    return Array.from(violations);
+  }
+
+  /**
+   * Write the planned values; guardrails are checked again against the
+   * records as they are now. Returns false when the action was not run.
+   *
+   * The action is claimed with a conditional update first, so one that was
+   * cancelled or picked up by another run in the meantime is left alone.
+   */
+  private async execute(action: AutonomousAction): Promise<boolean> {
+    const claimed = await this.databaseService.autonomousAction.updateMany({
+      where: { id: action.id, status: action.status },
+      data: { status: AutonomousActionStatus.EXECUTING },
+    });
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    const guardrails = await this.guardrailsService.getGuardrails(action.propertyId);
+    if (!guardrails.enabled) {
+      await this.fail(action, 'Autonomous actions were disabled for this property');
+      return false;
+    }
+
+    const planned = this.planChanges(action.changes as ActionChangeDto[], await this.loadTargetRecords(action));
+    const violations = await this.checkPlan(guardrails, planned);
+    if (violations.length) {
+      await this.fail(action, `Action violates guardrails: ${violations.join('; ')}`);
+      return false;
+    }
+
+    const executedAt = new Date();
+    const plan = action.rollbackPlan as StoredRollbackPlan;
+    const rollbackData: ActionRecordState[] = planned.map(({ record, before, after }) => ({
+      id: record.id,
+      channelId: record.channelId,
+      before,
+      after,
+    }));
+
+    await this.databaseService.$transaction(async (tx) => {
+      for (const { record, after } of planned) {
+        await this.writeRecord(tx, action, record, after, 'EXECUTE');
+      }
+
+      await tx.autonomousAction.update({
+        where: { id: action.id },
+        data: {
+          status: AutonomousActionStatus.COMPLETED,
+          executedAt,
+          rollbackData,
+          monitorUntil: plan.autoRollback && plan.conditions.length
+            ? new Date(executedAt.getTime() + plan.monitorHours * 60 * 60 * 1000)
+            : null,
+        },
+      });
+
+      await this.recordEvent(tx, action, 'EXECUTE', { records: planned.length }, null, 'SYSTEM');
+    });
+
+    await this.syncService.syncRecords(action.propertyId, planned.map(({ record }) => record), action.createdBy);
+
+    this.logger.log(`Executed autonomous action ${action.id} on ${planned.length} records`);
+    return true;
+  }
+
+  /**
+   * Restore the values an action replaced; records changed since the
+   * action ran are left alone and reported in the audit trail
+   */
+  private async revert(action: any, reason: Record<string, any>, userId: string | null) {
+    const states = (action.rollbackData ?? []) as ActionRecordState[];
+    const current = await this.databaseService.rateInventory.findMany({
+      where: { id: { in: states.map(state => state.id) } },
+    });
+    const currentById = new Map(current.map(record => [record.id, record]));
+
+    const restorable: Array<{ record: any; before: RateInventoryValues }> = [];
+    const skipped: string[] = [];
+    for (const state of states) {
+      const record = currentById.get(state.id);
+      const values = record ? toRateInventoryResponse(record) : null;
+      const unchanged = values && Object.keys(state.after).every(field => values[field] === state.after[field]);
+
+      if (unchanged) {
+        restorable.push({ record, before: state.before });
+      } else {
+        skipped.push(state.id);
+      }
+    }
+
+    const rolledBack = await this.databaseService.$transaction(async (tx) => {
+      for (const { record, before } of restorable) {
+        await this.writeRecord(tx, action, record, before, 'ROLLBACK', userId);
+      }
+
+      const updated = await tx.autonomousAction.update({
+        where: { id: action.id },
+        data: {
+          status: AutonomousActionStatus.ROLLED_BACK,
+          rolledBackAt: new Date(),
+          rolledBackBy: userId,
+          rollbackPlan: action.rollbackPlan,
+          monitoringEndedAt: new Date(),
+        },
+      });
+
+      await this.recordEvent(tx, action, 'ROLLBACK', {
+        ...reason,
+        restored: restorable.length,
+        skipped,
+      }, userId, userId ? 'API' : 'SYSTEM');
+
+      return updated;
+    });
+
+    await this.syncService.syncRecords(action.propertyId, restorable.map(({ record }) => record), userId ?? action.createdBy);
+
+    this.logger.log(
+      `Rolled back autonomous action ${action.id}: ${restorable.length} records restored` +
+      (skipped.length ? `, ${skipped.length} changed since and left alone` : ''),
+    );
+    return rolledBack;
+  }
+
+  private async closeWithoutRunning(
+    action: AutonomousAction,
+    event: 'REJECT' | 'CANCEL',
+    userId: string,
+    comment?: string,
+  ) {
+    const closed = await this.databaseService.$transaction(async (tx) => {
+      const claimed = await tx.autonomousAction.updateMany({
+        where: { id: action.id, status: action.status },
+        data: { status: AutonomousActionStatus.CANCELLED },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictException(`The action is no longer ${action.status.toLowerCase()}`);
+      }
+
+      await this.recordEvent(tx, action, event, { comment: comment ?? null }, userId, 'API');
+      return tx.autonomousAction.findUnique({ where: { id: action.id } });
+    });
+
+    this.logger.log(`Autonomous action ${action.id}: ${event.toLowerCase()} by user ${userId}`);
+    return this.toResponse(closed);
+  }
+
+  private async fail(action: any, error: string): Promise<void> {
+    await this.databaseService.$transaction(async (tx) => {
+      await tx.autonomousAction.update({
+        where: { id: action.id },
+        data: { status: AutonomousActionStatus.FAILED, error },
+      });
+
+      await this.recordEvent(tx, action, 'FAIL', { error }, null, 'SYSTEM');
+    });
+  }
+
+  private async writeRecord(
+    tx: DatabaseService,
+    action: any,
+    record: any,
+    values: RateInventoryValues,
+    event: 'EXECUTE' | 'ROLLBACK',
+    userId: string | null = null,
+  ): Promise<void> {
+    const updated = await tx.rateInventory.update({
+      where: { id: record.id },
+      data: { ...toRateInventoryData(values), syncStatus: 'PENDING' },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        propertyId: action.propertyId,
+        userId,
+        action: 'UPDATE',
+        entityType: 'RATE_INVENTORY',
+        entityId: record.id,
+        oldValues: toRateInventoryResponse(record),
+        newValues: toRateInventoryResponse({ ...record, ...updated }),
+        changes: { autonomousActionId: action.id, event, ...values },
+        source: userId ? 'API' : 'SYSTEM',
+      },
+    });
+  }
+
+  private async recordEvent(
+    tx: DatabaseService,
+    action: any,
+    event: string,
+    details: Record<string, any>,
+    userId: string | null,
+    source: 'API' | 'AI' | 'SYSTEM',
+  ): Promise<void> {
+    await tx.auditLog.create({
+      data: {
+        propertyId: action.propertyId,
+        userId,
+        action: event,
+        entityType: 'AUTONOMOUS_ACTION',
+        entityId: action.id,
+        newValues: details,
+        source,
+      },
+    });
+  }
+
+  private async getAuditTrail(action: any): Promise<AuditTrailEntry[]> {
+    const entries = await this.databaseService.auditLog.findMany({
+      where: {
+        propertyId: action.propertyId,
+        entityType: 'AUTONOMOUS_ACTION',
+        entityId: action.id,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return entries.map(entry => ({
+      timestamp: entry.createdAt,
+      action: entry.action,
+      userId: entry.userId ?? undefined,
+      details: entry.newValues ?? {},
+      source: entry.source === 'AI' ? 'ai' : entry.source === 'API' ? 'user' : 'system',
+    }));
+  }
+
+  private toResponse(action: any, auditTrail?: AuditTrailEntry[]) {
+    const plan = action.rollbackPlan as StoredRollbackPlan;
+
+    return {
+      id: action.id,
+      propertyId: action.propertyId,
+      type: action.type,
+      status: action.status,
+      triggeredBy: action.trigger,
+      target: {
+        roomTypeId: action.roomTypeId ?? null,
+        ratePlanId: action.ratePlanId ?? null,
+        dateRange: { start: this.formatDate(action.startDate), end: this.formatDate(action.endDate) },
+      },
+      changes: action.changes,
+      reasoning: action.reasoning,
+      confidence: action.confidence,
+      approvalRequired: action.approvalRequired,
+      approvedBy: action.approvedBy ?? null,
+      approvedAt: action.approvedAt ?? null,
+      scheduledAt: action.scheduledAt,
+      executedAt: action.executedAt ?? null,
+      error: action.error ?? null,
+      rollbackPlan: {
+        ...plan,
+        rollbackExpiresAt: action.monitorUntil ?? null,
+        rollbackData: action.rollbackData ?? null,
+      },
+      rolledBackAt: action.rolledBackAt ?? null,
+      rolledBackBy: action.rolledBackBy ?? null,
+      ...(auditTrail && { auditTrail }),
+      createdAt: action.createdAt,
+    };
+  }
+
+  private formatDate(date: Date | string): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,187 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { AutonomousActionType, UpdateAutonomyGuardrailsDto } from './dto/autonomous-actions.dto';
+
+export interface AutonomyGuardrails {
+  propertyId: string;
+  enabled: boolean;
+  allowedTypes: AutonomousActionType[];
+  maxRateChangePct: number;
+  maxInventoryChangePct: number;
+  maxActionsPerDay: number;
+  minConfidence: number;
+  autoApproveConfidence: number | null;
+  approvalRequiredFor: AutonomousActionType[];
+}
+
+/**
+ * Guardrails of a property that never configured them. Autonomy stays off
+ * until enabled; once on, actions at least 90% confident run without approval.
+ */
+export const DEFAULT_AUTONOMY_GUARDRAILS = {
+  enabled: false,
+  allowedTypes: [AutonomousActionType.RATE_ADJUSTMENT],
+  maxRateChangePct: 10,
+  maxInventoryChangePct: 20,
+  maxActionsPerDay: 20,
+  minConfidence: 70,
+  autoApproveConfidence: 90,
+  approvalRequiredFor: [AutonomousActionType.INVENTORY_UPDATE, AutonomousActionType.RESTRICTION_CHANGE],
+};
+
+/**
+ * Autonomy Guardrails Service
+ *
+ * Per-property limits on AI-triggered changes:
+ * - Whether autonomous actions run at all, and of which types
+ * - Largest rate and inventory move a single action may make
+ * - Daily action cap and minimum confidence
+ * - When an action must wait for approval
+ */
+@Injectable()
+export class AutonomyGuardrailsService {
+  private readonly logger = new Logger(AutonomyGuardrailsService.name);
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Guardrails of a property, with defaults when never configured
+   */
+  async getGuardrails(propertyId: string): Promise<AutonomyGuardrails> {
+    const guardrails = await this.databaseService.autonomyGuardrails.findUnique({
+      where: { propertyId },
+    });
+
+    return {
+      propertyId,
+      enabled: guardrails?.enabled ?? DEFAULT_AUTONOMY_GUARDRAILS.enabled,
+      allowedTypes: guardrails?.allowedTypes ?? DEFAULT_AUTONOMY_GUARDRAILS.allowedTypes,
+      maxRateChangePct: guardrails?.maxRateChangePct ?? DEFAULT_AUTONOMY_GUARDRAILS.maxRateChangePct,
+      maxInventoryChangePct: guardrails?.maxInventoryChangePct ?? DEFAULT_AUTONOMY_GUARDRAILS.maxInventoryChangePct,
+      maxActionsPerDay: guardrails?.maxActionsPerDay ?? DEFAULT_AUTONOMY_GUARDRAILS.maxActionsPerDay,
+      minConfidence: guardrails?.minConfidence ?? DEFAULT_AUTONOMY_GUARDRAILS.minConfidence,
+      autoApproveConfidence: guardrails
+        ? guardrails.autoApproveConfidence ?? null
+        : DEFAULT_AUTONOMY_GUARDRAILS.autoApproveConfidence,
+      approvalRequiredFor: guardrails?.approvalRequiredFor ?? DEFAULT_AUTONOMY_GUARDRAILS.approvalRequiredFor,
+    };
+  }
+
+  /**
+   * Update the guardrails of a property
+   */
+  async updateGuardrails(
+    propertyId: string,
+    userId: string,
+    dto: UpdateAutonomyGuardrailsDto,
+  ): Promise<AutonomyGuardrails> {
+    const current = await this.getGuardrails(propertyId);
+
+    const data = {
+      ...(dto.enabled !== undefined && { enabled: dto.enabled }),
+      ...(dto.allowedTypes !== undefined && { allowedTypes: dto.allowedTypes }),
+      ...(dto.maxRateChangePct !== undefined && { maxRateChangePct: dto.maxRateChangePct }),
+      ...(dto.maxInventoryChangePct !== undefined && { maxInventoryChangePct: dto.maxInventoryChangePct }),
+      ...(dto.maxActionsPerDay !== undefined && { maxActionsPerDay: dto.maxActionsPerDay }),
+      ...(dto.minConfidence !== undefined && { minConfidence: dto.minConfidence }),
+      ...(dto.autoApproveConfidence !== undefined && { autoApproveConfidence: dto.autoApproveConfidence }),
+      ...(dto.approvalRequiredFor !== undefined && { approvalRequiredFor: dto.approvalRequiredFor }),
+    };
+
+    await this.databaseService.$transaction(async (tx) => {
+      await tx.autonomyGuardrails.upsert({
+        where: { propertyId },
+        create: { ...current, ...data, updatedBy: userId },
+        update: { ...data, updatedBy: userId },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'UPDATE',
+          entityType: 'AUTONOMY_GUARDRAILS',
+          entityId: propertyId,
+          oldValues: current,
+          newValues: { ...current, ...data },
+          changes: data,
+          source: 'API',
+        },
+      });
+    });
+
+    this.logger.log(`Updated autonomy guardrails for property ${propertyId}`);
+    return { ...current, ...data };
+  }
+
+  /**
+   * Reasons an action may not be scheduled at all
+   */
+  checkSchedulable(
+    guardrails: AutonomyGuardrails,
+    type: AutonomousActionType,
+    confidence: number,
+    scheduledToday: number,
+  ): string[] {
+    const violations: string[] = [];
+
+    if (!guardrails.enabled) {
+      violations.push('Autonomous actions are disabled for this property');
+    }
+    if (!guardrails.allowedTypes.includes(type)) {
+      violations.push(`${type} actions are not allowed for this property`);
+    }
+    if (confidence < guardrails.minConfidence) {
+      violations.push(`Confidence ${confidence} is below the minimum of ${guardrails.minConfidence}`);
+    }
+    if (scheduledToday >= guardrails.maxActionsPerDay) {
+      violations.push(`The daily limit of ${guardrails.maxActionsPerDay} autonomous actions has been reached`);
+    }
+
+    return violations;
+  }
+
+  /**
+   * Reasons a planned change of one record moves too far
+   */
+  checkChangeLimits(guardrails: AutonomyGuardrails, before: Record<string, any>, after: Record<string, any>): string[] {
+    const violations: string[] = [];
+
+    if (after.rate !== undefined && before.rate > 0) {
+      const changePct = Math.abs(after.rate - before.rate) / before.rate * 100;
+      if (changePct > guardrails.maxRateChangePct) {
+        violations.push(
+          `Rate change of ${changePct.toFixed(1)}% exceeds the ${guardrails.maxRateChangePct}% guardrail`
+        );
+      }
+    }
+
+    if (after.inventory !== undefined && before.inventory !== undefined) {
+      const changePct = Math.abs(after.inventory - before.inventory) / Math.max(before.inventory, 1) * 100;
+      if (changePct > guardrails.maxInventoryChangePct) {
+        violations.push(
+          `Inventory change of ${changePct.toFixed(1)}% exceeds the ${guardrails.maxInventoryChangePct}% guardrail`
+        );
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Whether an action waits for approval before it runs; a property that set
+   * its auto-approve confidence to null approves every action by hand
+   */
+  requiresApproval(
+    guardrails: AutonomyGuardrails,
+    type: AutonomousActionType,
+    confidence: number,
+    requested = false,
+  ): boolean {
+    return requested ||
+      guardrails.approvalRequiredFor.includes(type) ||
+      guardrails.autoApproveConfidence === null ||
+      confidence < guardrails.autoApproveConfidence;
+  }
+}
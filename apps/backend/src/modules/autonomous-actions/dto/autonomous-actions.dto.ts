@@ -0,0 +1,350 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Autonomous Action Type
+ */
+export enum AutonomousActionType {
+  RATE_ADJUSTMENT = 'RATE_ADJUSTMENT',
+  INVENTORY_UPDATE = 'INVENTORY_UPDATE',
+  RESTRICTION_CHANGE = 'RESTRICTION_CHANGE',
+}
+
+/**
+ * Autonomous Action Status
+ */
+export enum AutonomousActionStatus {
+  SCHEDULED = 'SCHEDULED',
+  PENDING_APPROVAL = 'PENDING_APPROVAL',
+  APPROVED = 'APPROVED',
+  EXECUTING = 'EXECUTING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+  ROLLED_BACK = 'ROLLED_BACK',
+}
+
+/**
+ * What triggered an autonomous action
+ */
+export enum ActionTriggerType {
+  AI_RECOMMENDATION = 'AI_RECOMMENDATION',
+  THRESHOLD_BREACH = 'THRESHOLD_BREACH',
+  EVENT_DETECTED = 'EVENT_DETECTED',
+  COMPETITOR_CHANGE = 'COMPETITOR_CHANGE',
+  DEMAND_SPIKE = 'DEMAND_SPIKE',
+  MANUAL_OVERRIDE = 'MANUAL_OVERRIDE',
+}
+
+/**
+ * Rate inventory field an action changes, in API field names
+ */
+export enum ActionField {
+  RATE = 'rate',
+  INVENTORY = 'inventory',
+  MIN_STAY = 'minStay',
+  MAX_STAY = 'maxStay',
+  CLOSED_TO_ARRIVAL = 'closedToArrival',
+  CLOSED_TO_DEPARTURE = 'closedToDeparture',
+  STOP_SELL = 'stopSell',
+}
+
+/**
+ * Metric watched by a rollback condition, over the action's target
+ */
+export enum RollbackMetric {
+  PICKUP_ROOMS = 'PICKUP_ROOMS', // Room nights booked since execution
+  PICKUP_REVENUE = 'PICKUP_REVENUE', // Revenue of those room nights
+  ADR = 'ADR', // Average rate of those room nights
+  OCCUPANCY = 'OCCUPANCY', // Percent of capacity on the books
+}
+
+/**
+ * How often a rollback condition is evaluated
+ */
+export enum CheckFrequency {
+  REALTIME = 'REALTIME',
+  HOURLY = 'HOURLY',
+  DAILY = 'DAILY',
+}
+
+export const ROLLBACK_OPERATORS = ['>', '<', '=', '>=', '<='] as const;
+export type RollbackOperator = typeof ROLLBACK_OPERATORS[number];
+
+/**
+ * Action Trigger DTO
+ */
+export class ActionTriggerDto {
+  @ApiProperty({ enum: ActionTriggerType, example: ActionTriggerType.AI_RECOMMENDATION })
+  @IsEnum(ActionTriggerType)
+  type: ActionTriggerType;
+
+  @ApiProperty({ example: 'ai-suggestion-id', description: 'What raised the trigger' })
+  @IsString()
+  @IsNotEmpty()
+  source: string;
+
+  @ApiProperty({ example: { competitorAverage: 182 }, required: false })
+  @IsOptional()
+  @IsObject()
+  data?: Record<string, any>;
+}
+
+/**
+ * Action Change DTO
+ *
+ * Sets a field to value, or moves a numeric field by delta in the given unit.
+ */
+export class ActionChangeDto {
+  @ApiProperty({ enum: ActionField, example: ActionField.RATE })
+  @IsEnum(ActionField)
+  field: ActionField;
+
+  @ApiProperty({ example: 189.0, required: false, description: 'New value; numbers or booleans' })
+  @IsOptional()
+  value?: number | boolean;
+
+  @ApiProperty({ example: 5, required: false, description: 'Change from the current value' })
+  @IsOptional()
+  @IsNumber()
+  delta?: number;
+
+  @ApiProperty({ enum: ['AMOUNT', 'PERCENT'], required: false, description: 'Unit of delta; AMOUNT by default' })
+  @IsOptional()
+  @IsIn(['AMOUNT', 'PERCENT'])
+  unit?: 'AMOUNT' | 'PERCENT';
+}
+
+/**
+ * Rollback Condition DTO
+ *
+ * The action is reverted when metric operator threshold holds, e.g. pickup
+ * below 3 rooms once 24 hours have passed since execution.
+ */
+export class RollbackConditionDto {
+  @ApiProperty({ enum: RollbackMetric, example: RollbackMetric.PICKUP_ROOMS })
+  @IsEnum(RollbackMetric)
+  metric: RollbackMetric;
+
+  @ApiProperty({ enum: ROLLBACK_OPERATORS, example: '<' })
+  @IsIn(ROLLBACK_OPERATORS as unknown as string[])
+  operator: RollbackOperator;
+
+  @ApiProperty({ example: 3 })
+  @IsNumber()
+  threshold: number;
+
+  @ApiProperty({ enum: CheckFrequency, example: CheckFrequency.HOURLY })
+  @IsEnum(CheckFrequency)
+  checkFrequency: CheckFrequency;
+
+  @ApiProperty({ example: 24, required: false, description: 'Hours after execution before the first check' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(720)
+  afterHours?: number;
+}
+
+/**
+ * Rollback Plan DTO
+ */
+export class RollbackPlanDto {
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  autoRollback: boolean;
+
+  @ApiProperty({ type: [RollbackConditionDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RollbackConditionDto)
+  conditions?: RollbackConditionDto[];
+
+  @ApiProperty({ example: 72, required: false, description: 'Hours after execution the conditions are watched' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(720)
+  monitorHours?: number;
+}
+
+/**
+ * Schedule Autonomous Action DTO
+ */
+export class ScheduleAutonomousActionDto {
+  @ApiProperty({ enum: AutonomousActionType, example: AutonomousActionType.RATE_ADJUSTMENT })
+  @IsEnum(AutonomousActionType)
+  type: AutonomousActionType;
+
+  @ApiProperty({ type: ActionTriggerDto })
+  @ValidateNested()
+  @Type(() => ActionTriggerDto)
+  trigger: ActionTriggerDto;
+
+  @ApiProperty({ example: 'room-type-id', required: false, description: 'All room types when omitted' })
+  @IsOptional()
+  @IsString()
+  roomTypeId?: string;
+
+  @ApiProperty({ example: 'rate-plan-id', required: false, description: 'All rate plans when omitted' })
+  @IsOptional()
+  @IsString()
+  ratePlanId?: string;
+
+  @ApiProperty({ example: '2024-07-01' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2024-07-03' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({ type: [ActionChangeDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ActionChangeDto)
+  changes: ActionChangeDto[];
+
+  @ApiProperty({ example: 'Competitors raised rates 12% for the conference weekend' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  reasoning: string;
+
+  @ApiProperty({ example: 84, description: 'Confidence from 0 to 100' })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  confidence: number;
+
+  @ApiProperty({ example: false, required: false, description: 'Ask for approval even when guardrails would not' })
+  @IsOptional()
+  @IsBoolean()
+  approvalRequired?: boolean;
+
+  @ApiProperty({ example: '2024-06-20T06:00:00Z', required: false, description: 'Immediately when omitted' })
+  @IsOptional()
+  @IsDateString()
+  scheduledAt?: string;
+
+  @ApiProperty({ type: RollbackPlanDto })
+  @ValidateNested()
+  @Type(() => RollbackPlanDto)
+  rollbackPlan: RollbackPlanDto;
+}
+
+/**
+ * Autonomous Action Query DTO
+ */
+export class AutonomousActionQueryDto {
+  @ApiProperty({ enum: AutonomousActionStatus, required: false })
+  @IsOptional()
+  @IsEnum(AutonomousActionStatus)
+  status?: AutonomousActionStatus;
+
+  @ApiProperty({ enum: AutonomousActionType, required: false })
+  @IsOptional()
+  @IsEnum(AutonomousActionType)
+  type?: AutonomousActionType;
+
+  @ApiProperty({ example: 50, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @Type(() => Number)
+  limit?: number;
+}
+
+/**
+ * Action Decision DTO
+ */
+export class ActionDecisionDto {
+  @ApiProperty({ example: 'Fine for the conference weekend', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  comment?: string;
+}
+
+/**
+ * Update Autonomy Guardrails DTO
+ */
+export class UpdateAutonomyGuardrailsDto {
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiProperty({ enum: AutonomousActionType, isArray: true, required: false })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(AutonomousActionType, { each: true })
+  allowedTypes?: AutonomousActionType[];
+
+  @ApiProperty({ example: 10, required: false, description: 'Largest rate move per action, in percent' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  maxRateChangePct?: number;
+
+  @ApiProperty({ example: 20, required: false, description: 'Largest inventory move per action, in percent' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  maxInventoryChangePct?: number;
+
+  @ApiProperty({ example: 20, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(1000)
+  maxActionsPerDay?: number;
+
+  @ApiProperty({ example: 70, required: false, description: 'Actions below this confidence are refused' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  minConfidence?: number;
+
+  @ApiProperty({
+    example: 90,
+    required: false,
+    nullable: true,
+    description: 'Actions at least this confident run without approval; null always requires approval',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  autoApproveConfidence?: number | null;
+
+  @ApiProperty({ enum: AutonomousActionType, isArray: true, required: false })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(AutonomousActionType, { each: true })
+  approvalRequiredFor?: AutonomousActionType[];
+}
@@ -0,0 +1,58 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { Process, Processor, InjectQueue } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+
+import { AutonomousActionsService } from '../autonomous-actions.service';
+
+export const AUTONOMOUS_ACTIONS_QUEUE = 'autonomous-actions';
+
+const EXECUTE_INTERVAL_MS = 60 * 1000;
+const MONITOR_INTERVAL_MS = 5 * 60 * 1000; // Granularity of realtime rollback conditions
+
+/**
+ * Autonomous Actions Processor
+ *
+ * Runs the repeating autonomous action jobs:
+ * - Executes scheduled and approved actions once they are due
+ * - Checks rollback conditions of executed actions
+ */
+@Processor(AUTONOMOUS_ACTIONS_QUEUE)
+export class AutonomousActionsProcessor implements OnModuleInit {
+  private readonly logger = new Logger(AutonomousActionsProcessor.name);
+
+  constructor(
+    private readonly autonomousActionsService: AutonomousActionsService,
+    @InjectQueue(AUTONOMOUS_ACTIONS_QUEUE) private readonly actionsQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.actionsQueue.add(
+        'execute-due',
+        {},
+        { jobId: 'autonomous-actions-execute-due', repeat: { every: EXECUTE_INTERVAL_MS } },
+      );
+      await this.actionsQueue.add(
+        'monitor',
+        {},
+        { jobId: 'autonomous-actions-monitor', repeat: { every: MONITOR_INTERVAL_MS } },
+      );
+    } catch (error) {
+      this.logger.warn(`Could not schedule autonomous action jobs: ${error.message}`);
+    }
+  }
+
+  @Process('execute-due')
+  async handleExecuteDue(job: Job) {
+    const executed = await this.autonomousActionsService.executeDue();
+    this.logger.debug(`Autonomous action run ${job.id}: ${executed} executed`);
+    return { executed };
+  }
+
+  @Process('monitor')
+  async handleMonitor(job: Job) {
+    const result = await this.autonomousActionsService.monitor();
+    this.logger.debug(`Rollback monitor ${job.id}: ${result.checked} checked, ${result.rolledBack} rolled back`);
+    return result;
+  }
+}
@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { CheckFrequency, RollbackMetric, RollbackOperator } from './dto/autonomous-actions.dto';
+
+export interface RollbackCondition {
+  metric: RollbackMetric;
+  operator: RollbackOperator;
+  threshold: number;
+  checkFrequency: CheckFrequency;
+  afterHours: number;
+  lastCheckedAt?: string | null;
+  lastValue?: number | null;
+}
+
+export interface StoredRollbackPlan {
+  autoRollback: boolean;
+  monitorHours: number;
+  conditions: RollbackCondition[];
+}
+
+export interface ConditionCheck {
+  condition: RollbackCondition;
+  value: number;
+  tripped: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const CHECK_INTERVAL_MS: Record<CheckFrequency, number> = {
+  [CheckFrequency.REALTIME]: 0, // Every monitoring run
+  [CheckFrequency.HOURLY]: HOUR_MS,
+  [CheckFrequency.DAILY]: DAY_MS,
+};
+
+/**
+ * Rollback Monitor Service
+ *
+ * Evaluates the rollback conditions of executed autonomous actions:
+ * - Pickup, revenue and ADR of room nights booked since execution
+ * - On-the-books occupancy of the targeted stay dates
+ * - Conditions wait their delay after execution, then run at their frequency
+ */
+@Injectable()
+export class RollbackMonitorService {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Evaluate the conditions of an action that are due; checked conditions
+   * record their time and value on the plan
+   */
+  async checkDue(action: any, now = new Date()): Promise<ConditionCheck[]> {
+    const plan = action.rollbackPlan as StoredRollbackPlan;
+    const executedAt = new Date(action.executedAt);
+    const checks: ConditionCheck[] = [];
+
+    for (const condition of plan.conditions) {
+      if (!this.isDue(condition, executedAt, now)) {
+        continue;
+      }
+
+      const value = await this.measure(action, condition.metric);
+      condition.lastCheckedAt = now.toISOString();
+      condition.lastValue = value;
+      checks.push({ condition, value, tripped: this.compare(value, condition.operator, condition.threshold) });
+    }
+
+    return checks;
+  }
+
+  /**
+   * Current value of a metric over an action's target
+   */
+  async measure(action: any, metric: RollbackMetric): Promise<number> {
+    const stayDates = { gte: new Date(action.startDate), lte: new Date(action.endDate) };
+    const nights = await this.databaseService.stayNight.findMany({
+      where: {
+        propertyId: action.propertyId,
+        stayDate: stayDates,
+        cancelledAt: null,
+        ...(action.roomTypeId && { roomTypeId: action.roomTypeId }),
+      },
+      select: { ratePlanId: true, rooms: true, revenue: true, bookedAt: true },
+    });
+
+    if (metric === RollbackMetric.OCCUPANCY) {
+      return this.occupancy(action, nights);
+    }
+
+    const pickup = nights.filter(night =>
+      new Date(night.bookedAt).getTime() > new Date(action.executedAt).getTime() &&
+      (!action.ratePlanId || night.ratePlanId === action.ratePlanId));
+    const rooms = pickup.reduce((sum, night) => sum + night.rooms, 0);
+    const revenue = pickup.reduce((sum, night) => sum + parseFloat(night.revenue.toString()), 0);
+
+    switch (metric) {
+      case RollbackMetric.PICKUP_ROOMS:
+        return rooms;
+      case RollbackMetric.PICKUP_REVENUE:
+        return this.round(revenue);
+      case RollbackMetric.ADR:
+        return rooms ? this.round(revenue / rooms) : 0;
+      default: {
+        const unknown: never = metric;
+        throw new Error(`Unsupported rollback metric: ${unknown}`);
+      }
+    }
+  }
+
+  // Private helper methods
+
+  private isDue(condition: RollbackCondition, executedAt: Date, now: Date): boolean {
+    if (now.getTime() < executedAt.getTime() + condition.afterHours * HOUR_MS) {
+      return false;
+    }
+    if (!condition.lastCheckedAt) {
+      return true;
+    }
+    return now.getTime() - new Date(condition.lastCheckedAt).getTime() >= CHECK_INTERVAL_MS[condition.checkFrequency];
+  }
+
+  private async occupancy(action: any, nights: Array<{ rooms: number }>): Promise<number> {
+    const roomTypes = await this.databaseService.roomType.findMany({
+      where: action.roomTypeId
+        ? { id: action.roomTypeId }
+        : { propertyId: action.propertyId, isActive: true },
+    });
+
+    const days = Math.round(
+      (new Date(action.endDate).getTime() - new Date(action.startDate).getTime()) / DAY_MS,
+    ) + 1;
+    const capacity = roomTypes.reduce((sum, roomType) => sum + (roomType.totalRooms ?? 0), 0) * days;
+    const onTheBooks = nights.reduce((sum, night) => sum + night.rooms, 0);
+
+    return capacity ? this.round(onTheBooks / capacity * 100) : 0;
+  }
+
+  private compare(value: number, operator: RollbackOperator, threshold: number): boolean {
+    switch (operator) {
+      case '>': return value > threshold;
+      case '<': return value < threshold;
+      case '>=': return value >= threshold;
+      case '<=': return value <= threshold;
+      case '=': return value === threshold;
+      default: {
+        const unknown: never = operator;
+        throw new Error(`Unsupported rollback operator: ${unknown}`);
+      }
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,271 @@
+import { Injectable } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { toDateOnly } from '../../common/dates/business-date';
+import { CompetitorData, RecommendationInput } from '../ai-insights/recommendation.engine';
+import { CompSetsService } from '../competitor-rates/comp-sets.service';
+
+export interface ReplayFilters {
+  roomTypeIds?: string[];
+  ratePlanIds?: string[];
+  competitorLookahead: boolean;
+}
+
+export interface ReplayedRate extends RecommendationInput {
+  channelId: string;
+}
+
+export interface RealizedOutcome {
+  remainingInventory: number; // Inventory open for sale on the as-of date
+  pickupRooms: number; // Nights booked after the as-of date and never cancelled
+  pickupRevenue: number;
+}
+
+export interface ReplayHistory {
+  propertyId: string;
+  filters: ReplayFilters;
+  rateRecords: any[];
+  rateChanges: Map<string, any[]>; // Audit entries by rate record, oldest first
+  nights: Map<string, any[]>; // Stay nights by outcome key
+  competitorRates: any[]; // Competitor rate history, oldest scrape first
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Backtest Replay Service
+ *
+ * Rebuilds what the platform knew at the end of a past day:
+ * - Rates and inventory from the rate inventory audit trail
+ * - Competitor rates scraped by then, optionally looking ahead when none were
+ * - Nights booked after the day, as the outcome a recommendation could change
+ *
+ * Reads stored data only; nothing is fetched from rate shoppers or channels.
+ */
+@Injectable()
+export class BacktestReplayService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly compSetsService: CompSetsService,
+  ) {}
+
+  /**
+   * Load rates, rate changes, bookings and competitor rates for stay dates
+   * recommended between the first and last as-of dates
+   */
+  async loadHistory(
+    propertyId: string,
+    firstAsOf: Date,
+    lastAsOf: Date,
+    horizonDays: number,
+    filters: ReplayFilters,
+  ): Promise<ReplayHistory> {
+    const stayDates = {
+      gte: this.addDays(toDateOnly(firstAsOf), 1),
+      lte: this.addDays(toDateOnly(lastAsOf), horizonDays),
+    };
+
+    const [rateRecords, stayNights, competitorRates, weighting] = await Promise.all([
+      this.databaseService.rateInventory.findMany({
+        where: {
+          propertyId,
+          date: stayDates,
+          ...(filters.roomTypeIds && { roomTypeId: { in: filters.roomTypeIds } }),
+          ...(filters.ratePlanIds && { ratePlanId: { in: filters.ratePlanIds } }),
+        },
+        include: {
+          roomType: true,
+          ratePlan: true,
+        },
+      }),
+      this.databaseService.stayNight.findMany({
+        where: { propertyId, stayDate: stayDates },
+      }),
+      this.databaseService.competitorRateHistory.findMany({
+        where: { propertyId, date: stayDates },
+        include: { competitorProperty: true },
+        orderBy: { scrapedAt: 'asc' },
+      }),
+      this.compSetsService.loadWeighting(propertyId),
+    ]);
+
+    const rateChanges = rateRecords.length
+      ? await this.databaseService.auditLog.findMany({
+          where: {
+            propertyId,
+            entityType: 'RATE_INVENTORY',
+            entityId: { in: rateRecords.map(record => record.id) },
+          },
+          orderBy: { createdAt: 'asc' },
+        })
+      : [];
+
+    return {
+      propertyId,
+      filters,
+      rateRecords,
+      rateChanges: this.groupBy(rateChanges, change => change.entityId),
+      nights: this.groupBy(stayNights, night => this.outcomeKey(night, night.stayDate)),
+      // Replayed against today's primary comp set and room type mapping, in
+      // the property currency at the exchange rate of each shop
+      competitorRates: await this.compSetsService.weighRates(weighting, competitorRates),
+    };
+  }
+
+  /**
+   * Rates of the stay dates after an as-of date, as they stood at its end
+   */
+  ratesAsOf(history: ReplayHistory, asOf: Date, horizonDays: number): ReplayedRate[] {
+    const firstStay = this.addDays(toDateOnly(asOf), 1).getTime();
+    const lastStay = this.addDays(toDateOnly(asOf), horizonDays).getTime();
+    const rates: ReplayedRate[] = [];
+
+    for (const record of history.rateRecords) {
+      const date = toDateOnly(new Date(record.date));
+      if (date.getTime() < firstStay || date.getTime() > lastStay) {
+        continue;
+      }
+
+      const values = this.valuesAsOf(record, history.rateChanges.get(record.id) ?? [], asOf);
+      if (!values || !(values.rate > 0)) {
+        continue;
+      }
+
+      rates.push({
+        id: record.id,
+        propertyId: record.propertyId,
+        roomTypeId: record.roomTypeId,
+        ratePlanId: record.ratePlanId,
+        channelId: record.channelId,
+        date,
+        rate: values.rate,
+        inventory: values.inventory,
+        roomType: { code: record.roomType?.code, name: record.roomType?.name },
+        ratePlan: { code: record.ratePlan?.code, name: record.ratePlan?.name },
+      });
+    }
+
+    return rates;
+  }
+
+  /**
+   * Latest competitor rates known at the end of an as-of date; with lookahead,
+   * stay dates scraped only later use their first later rate and are counted
+   * as lookahead
+   */
+  competitorRatesAsOf(history: ReplayHistory, asOf: Date): { rates: CompetitorData[]; lookahead: Set<string> } {
+    const rates: CompetitorData[] = [];
+    const lookahead = new Set<string>();
+    const known = new Map<string, any>();
+    const later = new Map<string, any>();
+
+    // History is ordered by scrape time, so the last known and first later rate win
+    for (const rate of history.competitorRates) {
+      const key = `${rate.competitorPropertyId}|${this.formatDate(new Date(rate.date))}|${rate.roomTypeCode ?? ''}`;
+      if (new Date(rate.scrapedAt).getTime() <= asOf.getTime()) {
+        known.set(key, rate);
+      } else if (history.filters.competitorLookahead && !later.has(key)) {
+        later.set(key, rate);
+      }
+    }
+
+    for (const [key, rate] of later) {
+      if (!known.has(key)) {
+        lookahead.add(this.formatDate(new Date(rate.date)));
+        known.set(key, rate);
+      }
+    }
+
+    for (const rate of known.values()) {
+      const date = toDateOnly(new Date(rate.date));
+      rates.push({
+        competitorId: rate.competitorPropertyId,
+        competitorName: rate.competitorProperty?.name ?? rate.competitorPropertyId,
+        roomTypeCode: rate.roomTypeCode,
+        rate: parseFloat(rate.rate.toString()),
+        currency: rate.currency,
+        date,
+        availability: rate.availability !== 'SOLD_OUT',
+        weight: rate.weight,
+      });
+    }
+
+    return { rates, lookahead };
+  }
+
+  /**
+   * What happened to a replayed rate after the as-of date
+   */
+  outcome(history: ReplayHistory, rate: ReplayedRate, asOf: Date): RealizedOutcome {
+    const pickup = (history.nights.get(this.outcomeKey(rate, rate.date)) ?? [])
+      .filter(night => new Date(night.bookedAt).getTime() > asOf.getTime() && !night.cancelledAt);
+
+    return {
+      remainingInventory: Math.max(0, rate.inventory),
+      pickupRooms: pickup.reduce((sum, night) => sum + night.rooms, 0),
+      pickupRevenue: pickup.reduce((sum, night) => sum + parseFloat(night.revenue.toString()), 0),
+    };
+  }
+
+  /**
+   * End of a day, the moment a replay takes as "now"
+   */
+  endOfDay(date: Date): Date {
+    return new Date(this.addDays(toDateOnly(date), 1).getTime() - 1);
+  }
+
+  // Private helper methods
+
+  /**
+   * Rate and inventory of a record at a moment: the last audited change
+   * before it, else the state the first later change started from, else
+   * the current values; null when the record did not exist yet
+   */
+  private valuesAsOf(record: any, changes: any[], asOf: Date): { rate: number; inventory: number } | null {
+    const known = changes.filter(change => new Date(change.createdAt).getTime() <= asOf.getTime());
+
+    let values: any = record;
+    if (known.length) {
+      values = known[known.length - 1].newValues;
+    } else if (changes.length) {
+      values = changes[0].oldValues;
+    }
+
+    if (!values || values.rate === null || values.rate === undefined) {
+      return null;
+    }
+
+    return {
+      rate: parseFloat(values.rate.toString()),
+      inventory: values.inventory ?? record.inventory,
+    };
+  }
+
+  private outcomeKey(
+    record: { roomTypeId: string; ratePlanId?: string | null; channelId?: string | null },
+    stayDate: Date | string,
+  ): string {
+    return [record.roomTypeId, record.ratePlanId ?? '', record.channelId ?? '', this.formatDate(stayDate)].join('|');
+  }
+
+  private groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+      const group = groups.get(key(item));
+      if (group) {
+        group.push(item);
+      } else {
+        groups.set(key(item), [item]);
+      }
+    }
+    return groups;
+  }
+
+  private addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_MS);
+  }
+
+  private formatDate(date: Date | string): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { BacktestingService } from './backtesting.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { BacktestQueryDto, RunBacktestDto } from './dto/backtesting.dto';
+
+/**
+ * Backtesting Controller
+ *
+ * REST API endpoints for recommendation backtests:
+ * - Queue a replay of past dates
+ * - Hit rate, revenue uplift and confidence calibration reports
+ */
+@ApiTags('backtesting')
+@Controller('properties/:propertyId/backtests')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class BacktestingController {
+  constructor(private readonly backtestingService: BacktestingService) {}
+
+  /**
+   * Recent backtest runs
+   */
+  @Get()
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'List backtest runs' })
+  @ApiResponse({ status: 200, description: 'Backtest runs retrieved successfully' })
+  async getRuns(
+    @Param('propertyId') propertyId: string,
+    @Query() query: BacktestQueryDto,
+  ) {
+    return this.backtestingService.listRuns(propertyId, query.limit);
+  }
+
+  /**
+   * One backtest run and its report
+   */
+  @Get(':runId')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get a backtest report' })
+  @ApiResponse({ status: 200, description: 'Backtest run retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Backtest run not found' })
+  async getRun(
+    @Param('propertyId') propertyId: string,
+    @Param('runId') runId: string,
+  ) {
+    return this.backtestingService.getRun(propertyId, runId);
+  }
+
+  /**
+   * Queue a backtest of past dates
+   */
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Run a recommendation backtest' })
+  @ApiResponse({ status: 202, description: 'Backtest queued' })
+  @ApiResponse({ status: 400, description: 'Invalid date range' })
+  async runBacktest(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: RunBacktestDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.backtestingService.requestBacktest(propertyId, dto, user.id);
+  }
+}
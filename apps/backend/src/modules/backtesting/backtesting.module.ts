@@ -0,0 +1,50 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+
+import { DatabaseModule } from '../database/database.module';
+import { AiInsightsModule } from '../ai-insights/ai-insights.module';
+import { ReservationsModule } from '../reservations/reservations.module';
+import { ForecastingModule } from '../forecasting/forecasting.module';
+import { CompetitorRatesModule } from '../competitor-rates/competitor-rates.module';
+import { BusinessDatesModule } from '../business-dates/business-dates.module';
+import { BacktestingController } from './backtesting.controller';
+import { BacktestingService, BACKTESTING_QUEUE } from './backtesting.service';
+import { BacktestReplayService } from './backtest-replay.service';
+import { CounterfactualEstimator } from './counterfactual.estimator';
+import { BacktestingProcessor } from './processors/backtesting.processor';
+
+/**
+ * Backtesting Module
+ *
+ * Measures whether AI rate recommendations would have earned more:
+ * - Day-by-day replay of past rates, competitor rates and bookings
+ * - Counterfactual revenue from segment price elasticity
+ * - Hit rate, revenue uplift and confidence calibration per property
+ */
+@Module({
+  imports: [
+    DatabaseModule,
+    AiInsightsModule,
+    ReservationsModule,
+    ForecastingModule,
+    CompetitorRatesModule,
+    BusinessDatesModule,
+    BullModule.registerQueue({
+      name: BACKTESTING_QUEUE,
+      defaultJobOptions: {
+        attempts: 1,
+        removeOnComplete: 30,
+        removeOnFail: 30,
+      },
+    }),
+  ],
+  controllers: [BacktestingController],
+  providers: [
+    BacktestingService,
+    BacktestReplayService,
+    CounterfactualEstimator,
+    BacktestingProcessor,
+  ],
+  exports: [BacktestingService],
+})
+export class BacktestingModule {}
@@ -0,0 +1,496 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { Prisma } from '@prisma/client';
+
+import { DatabaseService } from '../database/database.service';
+import { toDateOnly } from '../../common/dates/business-date';
+import { RecommendationEngine, HistoricalPerformance } from '../ai-insights/recommendation.engine';
+import { RateConstraintsService } from '../ai-insights/rate-constraints.service';
+import { OnTheBooksService } from '../reservations/on-the-books.service';
+import { ForecastingService, DemandForecastPoint } from '../forecasting/forecasting.service';
+import { BusinessDatesService } from '../business-dates/business-dates.service';
+import { BacktestReplayService, ReplayFilters, ReplayedRate } from './backtest-replay.service';
+import { CounterfactualEstimator, CounterfactualEstimate, RateDirection } from './counterfactual.estimator';
+import { BacktestStatus, RunBacktestDto } from './dto/backtesting.dto';
+
+export const BACKTESTING_QUEUE = 'backtesting';
+
+export interface BacktestSegmentReport {
+  segment: string; // Room type ID or lead time band
+  evaluated: number;
+  hitRate: number | null;
+  actualRevenue: number;
+  counterfactualRevenue: number;
+  revenueUplift: number;
+  revenueUpliftPct: number | null;
+}
+
+export interface CalibrationBucket {
+  minConfidence: number;
+  maxConfidence: number;
+  count: number;
+  averageConfidence: number | null;
+  hitRate: number | null;
+  gap: number | null; // Average confidence minus hit rate, both as fractions
+}
+
+export interface BacktestReport {
+  propertyId: string;
+  startDate: string;
+  endDate: string;
+  horizonDays: number;
+  asOfDates: number;
+  evaluated: number;
+  skipped: {
+    noRecommendation: number; // No competitor rates for the room type and date
+    unrealized: number; // Stay date not in the past yet
+  };
+  competitorLookahead: number; // Evaluations using competitor rates scraped after the as-of date
+  hitRate: number | null;
+  actualRevenue: number;
+  counterfactualRevenue: number;
+  revenueUplift: number;
+  revenueUpliftPct: number | null;
+  directions: Record<RateDirection, { recommended: number; best: number }>;
+  calibration: {
+    brierScore: number | null;
+    expectedCalibrationError: number | null;
+    buckets: CalibrationBucket[];
+  };
+  byRoomType: BacktestSegmentReport[];
+  byLeadTime: BacktestSegmentReport[];
+}
+
+// Replay filters stored with a queued run
+interface BacktestParameters {
+  roomTypeIds: string[] | null;
+  ratePlanIds: string[] | null;
+  competitorLookahead: boolean;
+}
+
+interface Evaluation {
+  roomTypeId: string;
+  leadDays: number;
+  confidence: number;
+  lookahead: boolean;
+  estimate: CounterfactualEstimate;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_HORIZON_DAYS = 30;
+const MAX_AS_OF_DAYS = 366;
+const CALIBRATION_BUCKET_SIZE = 10; // Confidence points per bucket
+const LEAD_TIME_BANDS = [
+  { label: '1-7', max: 7 },
+  { label: '8-14', max: 14 },
+  { label: '15-30', max: 30 },
+  { label: '31-60', max: 60 },
+  { label: '61+', max: Infinity },
+];
+
+/**
+ * Backtesting Service
+ *
+ * Replays rate recommendations over past dates to measure whether they would
+ * have earned more:
+ * - Recommendations are generated day by day from the rates, competitor rates,
+ *   history and forecasts known at the end of each as-of date
+ * - Each is scored against the nights actually booked afterwards
+ * - Reports hit rate, counterfactual revenue uplift and calibration of the
+ *   confidence score, overall and by room type and lead time
+ *
+ * Runs against stored data only; pricing settings and rules are the current ones.
+ */
+@Injectable()
+export class BacktestingService {
+  private readonly logger = new Logger(BacktestingService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly replayService: BacktestReplayService,
+    private readonly counterfactualEstimator: CounterfactualEstimator,
+    private readonly recommendationEngine: RecommendationEngine,
+    private readonly rateConstraintsService: RateConstraintsService,
+    private readonly onTheBooksService: OnTheBooksService,
+    private readonly forecastingService: ForecastingService,
+    private readonly businessDatesService: BusinessDatesService,
+    @InjectQueue(BACKTESTING_QUEUE) private readonly backtestingQueue: Queue,
+  ) {}
+
+  /**
+   * Record a backtest run and queue it
+   */
+  async requestBacktest(propertyId: string, dto: RunBacktestDto, userId?: string) {
+    const startDate = toDateOnly(new Date(dto.startDate));
+    const endDate = toDateOnly(new Date(dto.endDate));
+    this.validateRange(startDate, endDate, await this.businessDatesService.today(propertyId));
+
+    const property = await this.databaseService.property.findUnique({ where: { id: propertyId } });
+    if (!property) {
+      throw new NotFoundException(`Property ${propertyId} not found`);
+    }
+
+    const run = await this.databaseService.backtestRun.create({
+      data: {
+        propertyId,
+        startDate,
+        endDate,
+        horizonDays: dto.horizonDays ?? DEFAULT_HORIZON_DAYS,
+        parameters: {
+          roomTypeIds: dto.roomTypeIds ?? null,
+          ratePlanIds: dto.ratePlanIds ?? null,
+          competitorLookahead: dto.competitorLookahead ?? true,
+        },
+        status: BacktestStatus.PENDING,
+        requestedBy: userId,
+      },
+    });
+
+    await this.backtestingQueue.add('run-backtest', { runId: run.id }, { jobId: run.id });
+    this.logger.log(`Queued backtest ${run.id} for property ${propertyId}`);
+
+    return run;
+  }
+
+  /**
+   * Execute a queued run and store its report
+   */
+  async runBacktest(runId: string): Promise<BacktestReport | null> {
+    const run = await this.databaseService.backtestRun.findUnique({ where: { id: runId } });
+    if (!run) {
+      this.logger.warn(`Backtest ${runId} no longer exists`);
+      return null;
+    }
+
+    await this.databaseService.backtestRun.update({
+      where: { id: runId },
+      data: { status: BacktestStatus.RUNNING, startedAt: new Date(), error: null },
+    });
+
+    try {
+      const parameters = (run.parameters ?? {}) as Partial<BacktestParameters>;
+      const report = await this.replay(
+        run.propertyId,
+        new Date(run.startDate),
+        new Date(run.endDate),
+        run.horizonDays,
+        {
+          roomTypeIds: parameters.roomTypeIds ?? undefined,
+          ratePlanIds: parameters.ratePlanIds ?? undefined,
+          competitorLookahead: parameters.competitorLookahead ?? true,
+        },
+      );
+
+      await this.databaseService.backtestRun.update({
+        where: { id: runId },
+        data: { status: BacktestStatus.COMPLETED, report: report as Prisma.InputJsonValue, completedAt: new Date() },
+      });
+
+      return report;
+    } catch (error) {
+      this.logger.error(`Backtest ${runId} failed: ${error.message}`, error.stack);
+
+      await this.databaseService.backtestRun.update({
+        where: { id: runId },
+        data: { status: BacktestStatus.FAILED, error: error.message, completedAt: new Date() },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Replay recommendations for each as-of date in a range and score them
+   */
+  async replay(
+    propertyId: string,
+    startDate: Date,
+    endDate: Date,
+    horizonDays: number,
+    filters: ReplayFilters,
+  ): Promise<BacktestReport> {
+    const firstAsOf = toDateOnly(startDate);
+    const lastAsOf = toDateOnly(endDate);
+    const today = await this.businessDatesService.today(propertyId);
+    this.validateRange(firstAsOf, lastAsOf, today);
+
+    const history = await this.replayService.loadHistory(propertyId, firstAsOf, lastAsOf, horizonDays, filters);
+    const evaluations: Evaluation[] = [];
+    const skipped = { noRecommendation: 0, unrealized: 0 };
+    let asOfDates = 0;
+
+    for (let day = firstAsOf; day.getTime() <= lastAsOf.getTime(); day = this.addDays(day, 1)) {
+      const asOf = this.replayService.endOfDay(day);
+      const rates = this.replayService.ratesAsOf(history, asOf, horizonDays);
+      if (!rates.length) {
+        continue;
+      }
+      asOfDates++;
+
+      const competitors = this.replayService.competitorRatesAsOf(history, asOf);
+      const context = await this.rateConstraintsService.loadContext(
+        propertyId,
+        this.addDays(day, 1),
+        this.addDays(day, horizonDays),
+        asOf,
+      );
+
+      // Parents not being replayed are priced at their rates of the day
+      rates.forEach(rate => this.rateConstraintsService.recordRate(context, rate, rate.rate));
+
+      const performance = new Map<string, HistoricalPerformance>();
+      const forecasts = new Map<string, DemandForecastPoint | null>();
+
+      for (const rate of this.rateConstraintsService.sortByHierarchy(context, rates)) {
+        const pricing = this.rateConstraintsService.resolve(context, rate);
+        const recommendation = await this.recommendationEngine.generateRecommendation(
+          rate,
+          competitors.rates,
+          await this.getPerformance(performance, rate, asOf),
+          await this.getForecast(forecasts, rate, day),
+          pricing,
+          asOf,
+        );
+
+        this.rateConstraintsService.recordRate(context, rate, recommendation?.suggestedRate ?? rate.rate);
+
+        if (rate.date.getTime() >= today.getTime()) {
+          skipped.unrealized++;
+          continue;
+        }
+        if (!recommendation) {
+          skipped.noRecommendation++;
+          continue;
+        }
+
+        evaluations.push({
+          roomTypeId: rate.roomTypeId,
+          leadDays: Math.round((rate.date.getTime() - day.getTime()) / DAY_MS),
+          confidence: recommendation.confidence,
+          lookahead: competitors.lookahead.has(this.formatDate(rate.date)),
+          estimate: this.counterfactualEstimator.estimate({
+            asOfRate: rate.rate,
+            recommendedRate: recommendation.suggestedRate,
+            elasticity: pricing.elasticity.elasticity,
+            constraints: pricing.constraints,
+            outcome: this.replayService.outcome(history, rate, asOf),
+          }),
+        });
+      }
+    }
+
+    this.logger.log(
+      `Backtest of property ${propertyId}: ${evaluations.length} recommendations over ${asOfDates} as-of dates`,
+    );
+
+    return {
+      propertyId,
+      startDate: this.formatDate(firstAsOf),
+      endDate: this.formatDate(lastAsOf),
+      horizonDays,
+      asOfDates,
+      evaluated: evaluations.length,
+      skipped,
+      competitorLookahead: evaluations.filter(e => e.lookahead).length,
+      ...this.summarize(evaluations),
+      directions: this.countDirections(evaluations),
+      calibration: this.calibrate(evaluations),
+      byRoomType: this.segment(evaluations, e => e.roomTypeId),
+      byLeadTime: this.segment(
+        evaluations,
+        e => LEAD_TIME_BANDS.find(band => e.leadDays <= band.max).label,
+        LEAD_TIME_BANDS.map(band => band.label),
+      ),
+    };
+  }
+
+  /**
+   * Recent backtest runs of a property
+   */
+  async listRuns(propertyId: string, limit = 20) {
+    return this.databaseService.backtestRun.findMany({
+      where: { propertyId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * One backtest run with its report
+   */
+  async getRun(propertyId: string, runId: string) {
+    const run = await this.databaseService.backtestRun.findFirst({ where: { id: runId, propertyId } });
+    if (!run) {
+      throw new NotFoundException(`Backtest ${runId} not found`);
+    }
+    return run;
+  }
+
+  // Private helper methods
+
+  /**
+   * Only dates before the property's business date can be replayed
+   */
+  private validateRange(startDate: Date, endDate: Date, today: Date): void {
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      throw new BadRequestException('Start and end dates are required');
+    }
+    if (endDate.getTime() < startDate.getTime()) {
+      throw new BadRequestException('End date must not be before start date');
+    }
+    if (endDate.getTime() >= today.getTime()) {
+      throw new BadRequestException('Backtests can only replay dates in the past');
+    }
+    if ((endDate.getTime() - startDate.getTime()) / DAY_MS + 1 > MAX_AS_OF_DAYS) {
+      throw new BadRequestException(`Backtests can replay at most ${MAX_AS_OF_DAYS} days`);
+    }
+  }
+
+  private async getPerformance(
+    cache: Map<string, HistoricalPerformance>,
+    rate: ReplayedRate,
+    asOf: Date,
+  ): Promise<HistoricalPerformance> {
+    const key = `${rate.roomTypeId}|${rate.date.getUTCDay()}`;
+    if (!cache.has(key)) {
+      const performance = await this.onTheBooksService.getHistoricalPerformance(
+        rate.propertyId,
+        rate.roomTypeId,
+        rate.date,
+        asOf,
+      );
+
+      // Same neutral assumptions as live recommendations without booking history
+      cache.set(key, performance ?? { averageOccupancy: 75, averageAdr: rate.rate, seasonalTrend: 'stable' });
+    }
+    return cache.get(key);
+  }
+
+  private async getForecast(
+    cache: Map<string, DemandForecastPoint | null>,
+    rate: ReplayedRate,
+    asOfDay: Date,
+  ): Promise<DemandForecastPoint | null> {
+    const key = `${rate.roomTypeId}|${this.formatDate(rate.date)}`;
+    if (!cache.has(key)) {
+      cache.set(key, await this.forecastingService.getForecastForDate(
+        rate.propertyId,
+        rate.roomTypeId,
+        rate.date,
+        asOfDay,
+      ));
+    }
+    return cache.get(key);
+  }
+
+  private summarize(evaluations: Evaluation[]) {
+    const actualRevenue = evaluations.reduce((sum, e) => sum + e.estimate.actualRevenue, 0);
+    const counterfactualRevenue = evaluations.reduce((sum, e) => sum + e.estimate.counterfactualRevenue, 0);
+
+    return {
+      hitRate: evaluations.length
+        ? this.round(evaluations.filter(e => e.estimate.hit).length / evaluations.length, 4)
+        : null,
+      actualRevenue: this.round(actualRevenue),
+      counterfactualRevenue: this.round(counterfactualRevenue),
+      revenueUplift: this.round(counterfactualRevenue - actualRevenue),
+      revenueUpliftPct: actualRevenue > 0
+        ? this.round(((counterfactualRevenue - actualRevenue) / actualRevenue) * 100)
+        : null,
+    };
+  }
+
+  private countDirections(evaluations: Evaluation[]): BacktestReport['directions'] {
+    const directions: BacktestReport['directions'] = {
+      UP: { recommended: 0, best: 0 },
+      DOWN: { recommended: 0, best: 0 },
+      HOLD: { recommended: 0, best: 0 },
+    };
+
+    for (const { estimate } of evaluations) {
+      directions[estimate.recommendedDirection].recommended++;
+      directions[estimate.bestDirection].best++;
+    }
+
+    return directions;
+  }
+
+  /**
+   * Compare confidence, read as the probability of a hit, with observed hit rates
+   */
+  private calibrate(evaluations: Evaluation[]): BacktestReport['calibration'] {
+    const buckets: CalibrationBucket[] = [];
+
+    for (let min = 0; min < 100; min += CALIBRATION_BUCKET_SIZE) {
+      const max = min + CALIBRATION_BUCKET_SIZE;
+      const members = evaluations.filter(e =>
+        e.confidence >= min && (e.confidence < max || (max === 100 && e.confidence <= 100)));
+      const averageConfidence = members.length
+        ? members.reduce((sum, e) => sum + e.confidence, 0) / members.length
+        : null;
+      const hitRate = members.length ? members.filter(e => e.estimate.hit).length / members.length : null;
+
+      buckets.push({
+        minConfidence: min,
+        maxConfidence: max,
+        count: members.length,
+        averageConfidence: averageConfidence === null ? null : this.round(averageConfidence),
+        hitRate: hitRate === null ? null : this.round(hitRate, 4),
+        gap: members.length ? this.round(averageConfidence / 100 - hitRate, 4) : null,
+      });
+    }
+
+    if (!evaluations.length) {
+      return { brierScore: null, expectedCalibrationError: null, buckets };
+    }
+
+    const brierScore = evaluations.reduce(
+      (sum, e) => sum + Math.pow(e.confidence / 100 - (e.estimate.hit ? 1 : 0), 2),
+      0,
+    ) / evaluations.length;
+    const expectedCalibrationError = buckets
+      .filter(bucket => bucket.count)
+      .reduce((sum, bucket) => sum + (bucket.count / evaluations.length) * Math.abs(bucket.gap), 0);
+
+    return {
+      brierScore: this.round(brierScore, 4),
+      expectedCalibrationError: this.round(expectedCalibrationError, 4),
+      buckets,
+    };
+  }
+
+  private segment(
+    evaluations: Evaluation[],
+    key: (evaluation: Evaluation) => string,
+    order?: string[],
+  ): BacktestSegmentReport[] {
+    const groups = new Map<string, Evaluation[]>((order ?? []).map(segment => [segment, []]));
+    for (const evaluation of evaluations) {
+      const segment = key(evaluation);
+      if (!groups.has(segment)) {
+        groups.set(segment, []);
+      }
+      groups.get(segment).push(evaluation);
+    }
+
+    return Array.from(groups.entries()).map(([segment, members]) => ({
+      segment,
+      evaluated: members.length,
+      ...this.summarize(members),
+    }));
+  }
+
+  private addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_MS);
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private round(value: number, decimals = 2): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
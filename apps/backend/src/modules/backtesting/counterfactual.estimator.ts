@@ -0,0 +1,105 @@
+import { Injectable } from '@nestjs/common';
+
+import { RateConstraints, RateOptimizationEngine } from '../ai-insights/rate-optimization.engine';
+import { RealizedOutcome } from './backtest-replay.service';
+
+export type RateDirection = 'UP' | 'DOWN' | 'HOLD';
+
+export interface CounterfactualInput {
+  asOfRate: number; // Rate in effect when the recommendation was made
+  recommendedRate: number;
+  elasticity: number;
+  constraints: RateConstraints;
+  outcome: RealizedOutcome;
+}
+
+export interface CounterfactualEstimate {
+  actualRevenue: number; // Revenue of nights booked after the as-of date
+  counterfactualRevenue: number; // The same, had the recommended rate been loaded
+  counterfactualRooms: number;
+  uplift: number;
+  recommendedDirection: RateDirection;
+  bestDirection: RateDirection; // Direction that would have paid off, in hindsight
+  hit: boolean;
+}
+
+const HOLD_TOLERANCE = 0.01; // Moves within 1% count as holding the rate
+
+/**
+ * Counterfactual Estimator
+ *
+ * Scores a past recommendation against what was actually booked:
+ * - Rooms picked up at the rate actually paid are re-priced along the
+ *   segment's elasticity curve, capped by the inventory left on the as-of date
+ * - Sold-out demand is censored, so revenue lost by raising is an upper bound
+ * - In hindsight, a sell-out called for a higher rate and unsold rooms without
+ *   pickup for a lower one; otherwise the optimizer is re-run on realized demand
+ */
+@Injectable()
+export class CounterfactualEstimator {
+  constructor(private readonly rateOptimizationEngine: RateOptimizationEngine) {}
+
+  /**
+   * Counterfactual revenue and hindsight direction of one recommendation
+   */
+  estimate(input: CounterfactualInput): CounterfactualEstimate {
+    const { outcome } = input;
+    const paidRate = outcome.pickupRooms > 0
+      ? outcome.pickupRevenue / outcome.pickupRooms
+      : input.asOfRate;
+
+    const counterfactualRooms = Math.min(
+      outcome.remainingInventory,
+      outcome.pickupRooms * Math.pow(input.recommendedRate / paidRate, input.elasticity),
+    );
+    const counterfactualRevenue = counterfactualRooms * input.recommendedRate;
+
+    const recommendedDirection = this.direction(input.recommendedRate, input.asOfRate);
+    const bestDirection = this.bestDirection(input, paidRate);
+
+    return {
+      actualRevenue: this.round(outcome.pickupRevenue),
+      counterfactualRevenue: this.round(counterfactualRevenue),
+      counterfactualRooms: this.round(counterfactualRooms),
+      uplift: this.round(counterfactualRevenue - outcome.pickupRevenue),
+      recommendedDirection,
+      bestDirection,
+      hit: recommendedDirection === bestDirection,
+    };
+  }
+
+  // Private helper methods
+
+  private bestDirection(input: CounterfactualInput, paidRate: number): RateDirection {
+    const { outcome } = input;
+
+    if (outcome.remainingInventory > 0 && outcome.pickupRooms >= outcome.remainingInventory) {
+      return 'UP';
+    }
+    if (outcome.pickupRooms === 0) {
+      return outcome.remainingInventory > 0 ? 'DOWN' : 'HOLD';
+    }
+
+    const best = this.rateOptimizationEngine.optimize({
+      currentRate: paidRate,
+      onTheBooks: 0,
+      unconstrainedDemand: outcome.pickupRooms,
+      remainingInventory: outcome.remainingInventory,
+      elasticity: input.elasticity,
+      constraints: input.constraints,
+    });
+
+    return this.direction(best.rate, input.asOfRate);
+  }
+
+  private direction(rate: number, baseline: number): RateDirection {
+    const change = (rate - baseline) / baseline;
+    if (change > HOLD_TOLERANCE) return 'UP';
+    if (change < -HOLD_TOLERANCE) return 'DOWN';
+    return 'HOLD';
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,76 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Backtest Run Status
+ */
+export enum BacktestStatus {
+  PENDING = 'PENDING',
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Run Backtest DTO
+ */
+export class RunBacktestDto {
+  @ApiProperty({ example: '2024-01-01', description: 'First as-of date to replay' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2024-03-31', description: 'Last as-of date to replay; must be in the past' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({ example: 30, required: false, description: 'Stay dates recommended per as-of date' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  horizonDays?: number;
+
+  @ApiProperty({ example: ['room-type-id'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  roomTypeIds?: string[];
+
+  @ApiProperty({ example: ['rate-plan-id'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  ratePlanIds?: string[];
+
+  @ApiProperty({
+    example: true,
+    required: false,
+    description: 'Use competitor rates scraped after the as-of date when nothing earlier is stored',
+  })
+  @IsOptional()
+  @IsBoolean()
+  competitorLookahead?: boolean;
+}
+
+/**
+ * Backtest Query DTO
+ */
+export class BacktestQueryDto {
+  @ApiProperty({ example: 20, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  limit?: number;
+}
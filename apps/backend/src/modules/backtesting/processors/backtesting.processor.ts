@@ -0,0 +1,29 @@
+import { Logger } from '@nestjs/common';
+import { Process, Processor } from '@nestjs/bull';
+import { Job } from 'bull';
+
+import { BacktestingService, BACKTESTING_QUEUE } from '../backtesting.service';
+
+export interface BacktestJobData {
+  runId: string;
+}
+
+/**
+ * Backtesting Processor
+ *
+ * Runs requested backtests one at a time, since a replay regenerates
+ * recommendations for every as-of date in its range.
+ */
+@Processor(BACKTESTING_QUEUE)
+export class BacktestingProcessor {
+  private readonly logger = new Logger(BacktestingProcessor.name);
+
+  constructor(private readonly backtestingService: BacktestingService) {}
+
+  @Process('run-backtest')
+  async handleBacktest(job: Job<BacktestJobData>) {
+    const report = await this.backtestingService.runBacktest(job.data.runId);
+    this.logger.debug(`Backtest ${job.data.runId}: ${report?.evaluated ?? 0} recommendations evaluated`);
+    return report && { evaluated: report.evaluated, hitRate: report.hitRate, revenueUplift: report.revenueUplift };
+  }
+}
@@ -0,0 +1,37 @@
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { BusinessDatesService } from './business-dates.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../auth/enums/user-role.enum';
+
+/**
+ * Business Dates Controller
+ *
+ * REST API endpoint for a property's business date, which the grid uses as
+ * "today" for its date columns and past-date locking
+ */
+@ApiTags('business-dates')
+@Controller('properties/:propertyId/business-date')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class BusinessDatesController {
+  constructor(private readonly businessDatesService: BusinessDatesService) {}
+
+  @Get()
+  @Roles(
+    UserRole.OPERATIONS,
+    UserRole.REVENUE_MANAGER,
+    UserRole.DISTRIBUTION_MANAGER,
+    UserRole.CORPORATE_ADMIN,
+    UserRole.AI_VIEWER,
+  )
+  @ApiOperation({ summary: 'Get the business date of a property' })
+  @ApiResponse({ status: 200, description: 'Business date, timezone and last roll retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Property not found' })
+  async getBusinessDate(@Param('propertyId') propertyId: string) {
+    return this.businessDatesService.getBusinessDate(propertyId);
+  }
+}
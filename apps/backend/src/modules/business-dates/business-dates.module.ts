@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+
+import { DatabaseModule } from '../database/database.module';
+import { BusinessDatesController } from './business-dates.controller';
+import { BusinessDatesService } from './business-dates.service';
+import { BusinessDateProcessor, BUSINESS_DATES_QUEUE } from './processors/business-date.processor';
+
+/**
+ * Business Dates Module
+ *
+ * Property-timezone business dates:
+ * - "Today" per property for past-date locking, days-out and sync batches
+ * - The nightly roll of each property to its next business date
+ */
+@Module({
+  imports: [
+    DatabaseModule,
+    BullModule.registerQueue({
+      name: BUSINESS_DATES_QUEUE,
+      defaultJobOptions: {
+        attempts: 1, // Repeating job; a missed roll is made by the next run
+        removeOnComplete: 20,
+        removeOnFail: 20,
+      },
+    }),
+  ],
+  controllers: [BusinessDatesController],
+  providers: [BusinessDatesService, BusinessDateProcessor],
+  exports: [BusinessDatesService],
+})
+export class BusinessDatesModule {}
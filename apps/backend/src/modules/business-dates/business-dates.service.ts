@@ -0,0 +1,152 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import {
+  DEFAULT_TIMEZONE,
+  businessDateOf,
+  formatDateOnly,
+  isValidTimeZone,
+  localDateString,
+  toDateOnly,
+} from '../../common/dates/business-date';
+
+export interface BusinessDateRoll {
+  propertyId: string;
+  timezone: string;
+  from: string | null;
+  to: string;
+}
+
+const TIMEZONE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Business Dates Service
+ *
+ * The hotel's own calendar day for every date rule:
+ * - "Today" per property, in the property's timezone rather than the server's
+ * - The nightly roll that moves each property to its next business date
+ */
+@Injectable()
+export class BusinessDatesService {
+  private readonly logger = new Logger(BusinessDatesService.name);
+  private readonly timezones = new Map<string, { timezone: string; expiresAt: number }>();
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Timezone of a property; UTC when it is missing or not an IANA timezone
+   */
+  async getTimezone(propertyId: string): Promise<string> {
+    const cached = this.timezones.get(propertyId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.timezone;
+    }
+
+    const property = await this.databaseService.property.findUnique({ where: { id: propertyId } });
+    const timezone = this.resolveTimezone(propertyId, property?.timezone);
+    this.timezones.set(propertyId, { timezone, expiresAt: Date.now() + TIMEZONE_CACHE_TTL_MS });
+    return timezone;
+  }
+
+  /**
+   * Business date of a property at an instant, as a date-only value
+   */
+  async today(propertyId: string, at: Date = new Date()): Promise<Date> {
+    return businessDateOf(await this.getTimezone(propertyId), at);
+  }
+
+  /**
+   * Business date and local time of a property, and its last nightly roll
+   */
+  async getBusinessDate(propertyId: string, at: Date = new Date()) {
+    const property = await this.databaseService.property.findUnique({ where: { id: propertyId } });
+    if (!property) {
+      throw new NotFoundException(`Property ${propertyId} not found`);
+    }
+
+    const timezone = this.resolveTimezone(propertyId, property.timezone);
+
+    return {
+      propertyId,
+      timezone,
+      businessDate: localDateString(timezone, at),
+      localTime: at.toLocaleTimeString('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit' }),
+      lastRolledDate: property.businessDate ? formatDateOnly(property.businessDate) : null,
+      lastRolledAt: property.businessDateRolledAt ?? null,
+    };
+  }
+
+  /**
+   * Move every active property whose local calendar day has changed to its
+   * new business date
+   */
+  async rollBusinessDates(now: Date = new Date()): Promise<BusinessDateRoll[]> {
+    const properties = await this.databaseService.property.findMany({ where: { isActive: true } });
+    const rolls: BusinessDateRoll[] = [];
+
+    for (const property of properties) {
+      const timezone = this.resolveTimezone(property.id, property.timezone);
+      const businessDate = businessDateOf(timezone, now);
+      const previous = property.businessDate ? toDateOnly(property.businessDate) : null;
+      if (previous && previous.getTime() >= businessDate.getTime()) {
+        continue;
+      }
+
+      const roll: BusinessDateRoll = {
+        propertyId: property.id,
+        timezone,
+        from: previous ? formatDateOnly(previous) : null,
+        to: formatDateOnly(businessDate),
+      };
+
+      await this.databaseService.$transaction(async (tx) => {
+        await tx.property.update({
+          where: { id: property.id },
+          data: { businessDate, businessDateRolledAt: now },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            propertyId: property.id,
+            userId: null,
+            action: 'ROLL',
+            entityType: 'BUSINESS_DATE',
+            entityId: property.id,
+            oldValues: { businessDate: roll.from },
+            newValues: { businessDate: roll.to },
+            changes: { timezone },
+            source: 'SYSTEM',
+          },
+        });
+      });
+
+      this.timezones.set(property.id, { timezone, expiresAt: Date.now() + TIMEZONE_CACHE_TTL_MS });
+      rolls.push(roll);
+    }
+
+    if (rolls.length) {
+      this.logger.log(`Rolled the business date of ${rolls.length} properties`);
+    }
+
+    return rolls;
+  }
+
+  /**
+   * Forget the cached timezone of a property after it changes
+   */
+  invalidate(propertyId: string): void {
+    this.timezones.delete(propertyId);
+  }
+
+  // Private helper methods
+
+  private resolveTimezone(propertyId: string, timezone?: string | null): string {
+    if (timezone && isValidTimeZone(timezone)) {
+      return timezone;
+    }
+    if (timezone) {
+      this.logger.warn(`Property ${propertyId} has unknown timezone "${timezone}"; using ${DEFAULT_TIMEZONE}`);
+    }
+    return DEFAULT_TIMEZONE;
+  }
+}
@@ -0,0 +1,45 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { Process, Processor, InjectQueue } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+
+import { BusinessDatesService } from '../business-dates.service';
+
+export const BUSINESS_DATES_QUEUE = 'business-dates';
+
+// Every quarter hour, so properties in half- and quarter-hour timezones roll on time
+const ROLL_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Business Date Processor
+ *
+ * Runs the nightly roll: each property moves to its next business date soon
+ * after midnight in its own timezone.
+ */
+@Processor(BUSINESS_DATES_QUEUE)
+export class BusinessDateProcessor implements OnModuleInit {
+  private readonly logger = new Logger(BusinessDateProcessor.name);
+
+  constructor(
+    private readonly businessDatesService: BusinessDatesService,
+    @InjectQueue(BUSINESS_DATES_QUEUE) private readonly businessDatesQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.businessDatesQueue.add(
+        'roll',
+        {},
+        { jobId: 'business-dates-roll', repeat: { every: ROLL_CHECK_INTERVAL_MS } },
+      );
+    } catch (error) {
+      this.logger.warn(`Could not schedule the business date roll: ${error.message}`);
+    }
+  }
+
+  @Process('roll')
+  async handleRoll(job: Job) {
+    const rolls = await this.businessDatesService.rollBusinessDates();
+    this.logger.debug(`Business date roll ${job.id}: ${rolls.length} properties rolled`);
+    return { rolled: rolls.length };
+  }
+}
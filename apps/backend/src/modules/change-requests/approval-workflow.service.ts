@@ -0,0 +1,219 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { RoleService } from '../auth/role.service';
+import { ChangeRequestOperation, UpdateApprovalWorkflowDto } from './dto/change-requests.dto';
+
+export type ApprovalScope = 'rates' | 'inventory';
+
+export interface NotificationTemplate {
+  subject: string;
+  body: string;
+  channels: string[];
+  urgency: 'low' | 'medium' | 'high' | 'critical';
+}
+
+export interface EscalationRule {
+  condition: string;
+  delay: number;
+  escalateTo: string[];
+  notification?: NotificationTemplate;
+}
+
+export interface ApprovalWorkflowConfig {
+  propertyId: string;
+  required: boolean;
+  approvers: string[];
+  threshold: number | null;
+  autoApprove: boolean;
+  escalation: EscalationRule[];
+}
+
+/**
+ * Approval Workflow Service
+ *
+ * Per-property approval policy for staged rate and inventory changes:
+ * - Decides which writes need approval from the caller's role permissions
+ * - Resolves the roles a change request is routed to
+ * - Auto-approval threshold for small rate changes
+ * - Escalation rules for requests left pending too long
+ */
+@Injectable()
+export class ApprovalWorkflowService {
+  private readonly logger = new Logger(ApprovalWorkflowService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly roleService: RoleService,
+  ) {}
+
+  /**
+   * Get the workflow for a property, falling back to the default policy
+   */
+  async getWorkflow(propertyId: string): Promise<ApprovalWorkflowConfig> {
+    const workflow = await this.databaseService.approvalWorkflow.findUnique({
+      where: { propertyId },
+    });
+
+    return {
+      propertyId,
+      required: workflow?.required ?? true,
+      approvers: workflow?.approverRoles ?? [],
+      threshold: workflow?.threshold !== null && workflow?.threshold !== undefined
+        ? parseFloat(workflow.threshold.toString())
+        : null,
+      autoApprove: workflow?.autoApprove ?? false,
+      escalation: (workflow?.escalation as EscalationRule[]) ?? [],
+    };
+  }
+
+  /**
+   * Create or update the workflow for a property
+   */
+  async updateWorkflow(
+    propertyId: string,
+    userId: string,
+    dto: UpdateApprovalWorkflowDto,
+  ): Promise<ApprovalWorkflowConfig> {
+    if (dto.approvers?.length) {
+      const knownRoles = (await this.roleService.getAllRoles()).map(role => role.name);
+      const unknown = dto.approvers.filter(role => !knownRoles.includes(role));
+      if (unknown.length) {
+        throw new BadRequestException(`Unknown approver roles: ${unknown.join(', ')}`);
+      }
+    }
+
+    const previous = await this.getWorkflow(propertyId);
+    const data = {
+      ...(dto.required !== undefined && { required: dto.required }),
+      ...(dto.approvers !== undefined && { approverRoles: dto.approvers }),
+      ...(dto.threshold !== undefined && { threshold: dto.threshold }),
+      ...(dto.autoApprove !== undefined && { autoApprove: dto.autoApprove }),
+      ...(dto.escalation !== undefined && { escalation: dto.escalation }),
+    };
+
+    await this.databaseService.$transaction(async (tx) => {
+      await tx.approvalWorkflow.upsert({
+        where: { propertyId },
+        create: { propertyId, ...data },
+        update: data,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'UPDATE',
+          entityType: 'APPROVAL_WORKFLOW',
+          entityId: propertyId,
+          oldValues: previous,
+          changes: data,
+          source: 'API',
+        },
+      });
+    });
+
+    this.logger.log(`Updated approval workflow for property ${propertyId}`);
+    return this.getWorkflow(propertyId);
+  }
+
+  /**
+   * Permissions that force a write to go through approval
+   *
+   * A role that holds `<scope>.write` writes directly. A role that only holds
+   * `<scope>.write_with_approval` has its write staged for approval.
+   */
+  async getRequiredApprovals(
+    workflow: ApprovalWorkflowConfig,
+    role: string | undefined,
+    scopes: ApprovalScope[],
+  ): Promise<string[]> {
+    if (!workflow.required || !role) {
+      return [];
+    }
+
+    const required: string[] = [];
+    for (const scope of scopes) {
+      const canWrite = await this.roleService.hasPermission(role, `${scope}.write`);
+      const canRequest = await this.roleService.hasPermission(role, `${scope}.write_with_approval`);
+
+      if (!canWrite && canRequest) {
+        required.push(`${scope}.write_with_approval`);
+      }
+    }
+
+    return required;
+  }
+
+  /**
+   * Roles a change request is routed to
+   *
+   * The property's configured approvers win. Otherwise the roles that hold the
+   * direct write permission for every affected scope, plus the holders of
+   * `bulk_operations.approve` for bulk changes.
+   */
+  async resolveApproverRoles(
+    workflow: ApprovalWorkflowConfig,
+    scopes: ApprovalScope[],
+    operation: ChangeRequestOperation,
+  ): Promise<string[]> {
+    if (workflow.approvers.length) {
+      return workflow.approvers;
+    }
+
+    const roles = await this.roleService.getAllRoles();
+
+    return roles
+      .filter(role => {
+        const canWriteAll = scopes.every(scope => role.permissions.includes(`${scope}.write`));
+        const canApproveBulk = [ChangeRequestOperation.BULK_UPDATE, ChangeRequestOperation.COPY].includes(operation)
+          && role.permissions.includes('bulk_operations.approve');
+        return canWriteAll || canApproveBulk;
+      })
+      .map(role => role.name);
+  }
+
+  /**
+   * Whether a set of rate changes falls inside the auto-approval threshold
+   *
+   * Only updates that change nothing but the rate qualify.
+   */
+  canAutoApprove(
+    workflow: ApprovalWorkflowConfig,
+    changes: Array<{ before: Record<string, any> | null; after: Record<string, any> | null }>,
+  ): boolean {
+    if (!workflow.autoApprove || workflow.threshold === null || !changes.length) {
+      return false;
+    }
+
+    return changes.every(({ before, after }) => {
+      if (!before || !after) {
+        return false;
+      }
+
+      const fields = Object.keys(after);
+      if (fields.length !== 1 || fields[0] !== 'rate' || !before.rate) {
+        return false;
+      }
+
+      const changePercent = Math.abs((after.rate - before.rate) / before.rate) * 100;
+      return changePercent <= workflow.threshold;
+    });
+  }
+
+  /**
+   * Next escalation rule due for a pending request, if any
+   */
+  findDueEscalation(
+    workflow: ApprovalWorkflowConfig,
+    operation: string,
+    escalationLevel: number,
+    pendingMinutes: number,
+  ): EscalationRule | null {
+    const rules = workflow.escalation
+      .filter(rule => rule.condition === 'ALWAYS' || rule.condition === operation)
+      .sort((a, b) => a.delay - b.delay);
+
+    const next = rules[escalationLevel];
+    return next && pendingMinutes >= next.delay ? next : null;
+  }
+}
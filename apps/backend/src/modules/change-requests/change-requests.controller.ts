@@ -0,0 +1,168 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { ChangeRequestsService } from './change-requests.service';
+import { ApprovalWorkflowService } from './approval-workflow.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { UserRole } from '../auth/enums/user-role.enum';
+
+import {
+  ChangeRequestQueryDto,
+  ApproveChangeRequestDto,
+  RejectChangeRequestDto,
+  UpdateApprovalWorkflowDto,
+} from './dto/change-requests.dto';
+
+/**
+ * Change Requests Controller
+ *
+ * REST API endpoints for the rate and inventory approval workflow:
+ * - Listing requests and the approver inbox
+ * - Approving, rejecting and cancelling requests
+ * - Per-property approval workflow configuration
+ */
+@ApiTags('change-requests')
+@Controller('properties/:propertyId')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ChangeRequestsController {
+  constructor(
+    private readonly changeRequestsService: ChangeRequestsService,
+    private readonly approvalWorkflowService: ApprovalWorkflowService,
+  ) {}
+
+  /**
+   * List change requests
+   */
+  @Get('change-requests')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'List change requests' })
+  @ApiResponse({ status: 200, description: 'Change requests retrieved successfully' })
+  async getChangeRequests(
+    @Param('propertyId') propertyId: string,
+    @Query() query: ChangeRequestQueryDto,
+  ) {
+    return this.changeRequestsService.findAll(propertyId, query);
+  }
+
+  /**
+   * Pending change requests awaiting the current user's decision
+   */
+  @Get('change-requests/inbox')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Get approver inbox' })
+  @ApiResponse({ status: 200, description: 'Inbox retrieved successfully' })
+  async getInbox(
+    @Param('propertyId') propertyId: string,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.changeRequestsService.getInbox(propertyId, user);
+  }
+
+  /**
+   * Get change request by ID
+   */
+  @Get('change-requests/:id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Get change request' })
+  @ApiResponse({ status: 200, description: 'Change request retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Change request not found' })
+  async getChangeRequest(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+  ) {
+    return this.changeRequestsService.findOne(propertyId, id);
+  }
+
+  /**
+   * Approve and apply a change request
+   */
+  @Post('change-requests/:id/approve')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve change request' })
+  @ApiResponse({ status: 200, description: 'Change request approved and applied' })
+  @ApiResponse({ status: 409, description: 'Change request already decided or its records changed' })
+  async approveChangeRequest(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @Body() dto: ApproveChangeRequestDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.changeRequestsService.approve(propertyId, id, user, dto.comment);
+  }
+
+  /**
+   * Reject a change request
+   */
+  @Post('change-requests/:id/reject')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject change request' })
+  @ApiResponse({ status: 200, description: 'Change request rejected' })
+  async rejectChangeRequest(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @Body() dto: RejectChangeRequestDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.changeRequestsService.reject(propertyId, id, user, dto.comment);
+  }
+
+  /**
+   * Cancel own change request
+   */
+  @Post('change-requests/:id/cancel')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel change request' })
+  @ApiResponse({ status: 200, description: 'Change request cancelled' })
+  async cancelChangeRequest(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.changeRequestsService.cancel(propertyId, id, user);
+  }
+
+  /**
+   * Get approval workflow
+   */
+  @Get('approval-workflow')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Get approval workflow' })
+  @ApiResponse({ status: 200, description: 'Approval workflow retrieved successfully' })
+  async getApprovalWorkflow(@Param('propertyId') propertyId: string) {
+    return this.approvalWorkflowService.getWorkflow(propertyId);
+  }
+
+  /**
+   * Update approval workflow
+   */
+  @Put('approval-workflow')
+  @Roles(UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Update approval workflow' })
+  @ApiResponse({ status: 200, description: 'Approval workflow updated successfully' })
+  async updateApprovalWorkflow(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: UpdateApprovalWorkflowDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.approvalWorkflowService.updateWorkflow(propertyId, user.id, dto);
+  }
+}
@@ -0,0 +1,45 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+
+import { DatabaseModule } from '../database/database.module';
+import { AuthModule } from '../auth/auth.module';
+import { RatesInventoryModule } from '../rates-inventory/rates-inventory.module';
+import { ChannelManagerModule } from '../channel-manager/channel-manager.module';
+import { ChangeRequestsController } from './change-requests.controller';
+import { ChangeRequestsService } from './change-requests.service';
+import { ApprovalWorkflowService } from './approval-workflow.service';
+import { EscalationProcessor, ESCALATION_QUEUE } from './processors/escalation.processor';
+
+/**
+ * Change Requests Module
+ *
+ * Approval workflow for rate and inventory writes:
+ * - Staging writes from roles with *.write_with_approval permissions
+ * - Approver routing, inbox and decisions with comments
+ * - Atomic, audited application of approved changes, queued for channel sync
+ * - Escalation of requests left pending
+ */
+@Module({
+  imports: [
+    DatabaseModule,
+    AuthModule,
+    // Approved changes are re-validated; rates & inventory stages requests here in turn
+    forwardRef(() => RatesInventoryModule),
+    ChannelManagerModule,
+    BullModule.registerQueue({
+      name: ESCALATION_QUEUE,
+      defaultJobOptions: {
+        removeOnComplete: 10,
+        removeOnFail: 50,
+      },
+    }),
+  ],
+  controllers: [ChangeRequestsController],
+  providers: [
+    ChangeRequestsService,
+    ApprovalWorkflowService,
+    EscalationProcessor,
+  ],
+  exports: [ChangeRequestsService],
+})
+export class ChangeRequestsModule {}
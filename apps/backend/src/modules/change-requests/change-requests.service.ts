@@ -0,0 +1,586 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { ApprovalWorkflowService, ApprovalScope } from './approval-workflow.service';
+import {
+  ChangeRequestStatus,
+  ChangeRequestOperation,
+  ChangeRequestQueryDto,
+} from './dto/change-requests.dto';
+import {
+  RateInventoryValues,
+  toRateInventoryData,
+  toRateInventoryResponse,
+} from '../rates-inventory/rates-inventory.mapper';
+import { ValidationService } from '../rates-inventory/validation.service';
+import { SyncService, SyncRecord } from '../channel-manager/sync.service';
+
+/**
+ * Pending change to a single RateInventory record
+ *
+ * before is null for a create and after is null for a delete. For updates,
+ * before holds the values of the changed fields when the request was staged.
+ */
+export interface ChangeRequestDiff {
+  rateInventoryId?: string;
+  roomTypeId: string;
+  ratePlanId: string;
+  channelId: string;
+  date: string;
+  before: RateInventoryValues | null;
+  after: RateInventoryValues | null;
+}
+
+export interface StageChangeRequestInput {
+  propertyId: string;
+  userId: string;
+  operation: ChangeRequestOperation;
+  diffs: ChangeRequestDiff[];
+  permissions: string[];
+  summary?: string;
+  comment?: string;
+}
+
+export interface ChangeRequestSubmission {
+  pendingApproval: boolean;
+  changeRequest: any;
+}
+
+export function isChangeRequestSubmission(result: unknown): result is ChangeRequestSubmission {
+  return typeof result === 'object' && result !== null && 'pendingApproval' in result;
+}
+
+/**
+ * Change Requests Service
+ *
+ * Approval workflow for rate and inventory writes:
+ * - Stages writes from roles that need approval as pending diffs
+ * - Routes requests to approver roles and escalates stale ones
+ * - Applies approved diffs atomically, refusing stale or no longer valid ones
+ * - Audits every submission, decision and applied change
+ */
+@Injectable()
+export class ChangeRequestsService {
+  private readonly logger = new Logger(ChangeRequestsService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly approvalWorkflowService: ApprovalWorkflowService,
+    private readonly validationService: ValidationService,
+    private readonly syncService: SyncService,
+  ) {}
+
+  /**
+   * Permissions that require approval for these diffs, empty when the write can go ahead
+   *
+   * Without diffs, every scope is checked: an empty result means the role
+   * never needs approval at this property.
+   */
+  async getRequiredApprovals(
+    propertyId: string,
+    role: string | undefined,
+    diffs?: ChangeRequestDiff[],
+  ): Promise<string[]> {
+    const workflow = await this.approvalWorkflowService.getWorkflow(propertyId);
+    const scopes: ApprovalScope[] = diffs ? this.scopesOf(diffs) : ['rates', 'inventory'];
+
+    return this.approvalWorkflowService.getRequiredApprovals(workflow, role, scopes);
+  }
+
+  /**
+   * Stage a change request, applying it straight away when it qualifies for auto-approval
+   */
+  async submit(input: StageChangeRequestInput): Promise<ChangeRequestSubmission> {
+    const { propertyId, userId, operation, diffs } = input;
+
+    if (!diffs.length) {
+      throw new BadRequestException('A change request needs at least one change');
+    }
+
+    const workflow = await this.approvalWorkflowService.getWorkflow(propertyId);
+    const approverRoles = await this.approvalWorkflowService.resolveApproverRoles(
+      workflow,
+      this.scopesOf(diffs),
+      operation,
+    );
+
+    const changeRequest = await this.databaseService.$transaction(async (tx) => {
+      const created = await tx.changeRequest.create({
+        data: {
+          propertyId,
+          requestedBy: userId,
+          status: ChangeRequestStatus.PENDING,
+          operation,
+          entityType: 'RATE_INVENTORY',
+          permissions: input.permissions,
+          summary: input.summary ?? this.describe(operation, diffs),
+          requestComment: input.comment,
+          diffs,
+          approverRoles,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'SUBMIT',
+          entityType: 'CHANGE_REQUEST',
+          entityId: created.id,
+          newValues: { operation, approverRoles, changeCount: diffs.length },
+          source: 'API',
+        },
+      });
+
+      return created;
+    });
+
+    this.logger.log(
+      `Change request ${changeRequest.id} (${operation}, ${diffs.length} changes) routed to ${approverRoles.join(', ')}`
+    );
+
+    if (this.approvalWorkflowService.canAutoApprove(workflow, diffs)) {
+      const approved = await this.applyDecision(changeRequest, null, 'Auto-approved within threshold');
+      return { pendingApproval: false, changeRequest: approved };
+    }
+
+    return { pendingApproval: true, changeRequest };
+  }
+
+  /**
+   * List change requests for a property
+   */
+  async findAll(propertyId: string, query: ChangeRequestQueryDto) {
+    return this.databaseService.changeRequest.findMany({
+      where: {
+        propertyId,
+        ...(query.status && { status: query.status }),
+        ...(query.requestedBy && { requestedBy: query.requestedBy }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Pending requests the user can decide on
+   */
+  async getInbox(propertyId: string, user: RequestUser) {
+    if (!user.role) {
+      return [];
+    }
+
+    return this.databaseService.changeRequest.findMany({
+      where: {
+        propertyId,
+        status: ChangeRequestStatus.PENDING,
+        approverRoles: { has: user.role },
+        requestedBy: { not: user.id },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Get a single change request
+   */
+  async findOne(propertyId: string, id: string) {
+    const changeRequest = await this.databaseService.changeRequest.findFirst({
+      where: { id, propertyId },
+    });
+
+    if (!changeRequest) {
+      throw new NotFoundException(`Change request ${id} not found`);
+    }
+
+    return changeRequest;
+  }
+
+  /**
+   * Approve a pending request and apply its changes
+   */
+  async approve(propertyId: string, id: string, user: RequestUser, comment?: string) {
+    const changeRequest = await this.findPendingOrFail(propertyId, id);
+    this.assertCanDecide(changeRequest, user);
+
+    return this.applyDecision(changeRequest, user.id, comment);
+  }
+
+  /**
+   * Reject a pending request
+   */
+  async reject(propertyId: string, id: string, user: RequestUser, comment: string) {
+    const changeRequest = await this.findPendingOrFail(propertyId, id);
+    this.assertCanDecide(changeRequest, user);
+
+    const rejected = await this.databaseService.$transaction(async (tx) => {
+      const claimed = await tx.changeRequest.updateMany({
+        where: { id, status: ChangeRequestStatus.PENDING },
+        data: {
+          status: ChangeRequestStatus.REJECTED,
+          reviewedBy: user.id,
+          reviewedAt: new Date(),
+          reviewComment: comment,
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictException(`Change request ${id} is no longer pending`);
+      }
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId: user.id,
+          action: 'REJECT',
+          entityType: 'CHANGE_REQUEST',
+          entityId: id,
+          changes: { comment },
+          source: 'API',
+        },
+      });
+
+      return tx.changeRequest.findUnique({ where: { id } });
+    });
+
+    this.logger.log(`Change request ${id} rejected by ${user.id}`);
+    return rejected;
+  }
+
+  /**
+   * Withdraw a pending request (requester only)
+   */
+  async cancel(propertyId: string, id: string, user: RequestUser) {
+    const changeRequest = await this.findPendingOrFail(propertyId, id);
+
+    if (changeRequest.requestedBy !== user.id) {
+      throw new ForbiddenException('Only the requester can cancel a change request');
+    }
+
+    const cancelled = await this.databaseService.$transaction(async (tx) => {
+      const claimed = await tx.changeRequest.updateMany({
+        where: { id, status: ChangeRequestStatus.PENDING },
+        data: { status: ChangeRequestStatus.CANCELLED },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictException(`Change request ${id} is no longer pending`);
+      }
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId: user.id,
+          action: 'CANCEL',
+          entityType: 'CHANGE_REQUEST',
+          entityId: id,
+          source: 'API',
+        },
+      });
+
+      return tx.changeRequest.findUnique({ where: { id } });
+    });
+
+    this.logger.log(`Change request ${id} cancelled by requester`);
+    return cancelled;
+  }
+
+  /**
+   * Escalate pending requests whose escalation delay has passed
+   */
+  async processEscalations(now = new Date()): Promise<number> {
+    const pending = await this.databaseService.changeRequest.findMany({
+      where: { status: ChangeRequestStatus.PENDING },
+    });
+
+    let escalated = 0;
+    for (const changeRequest of pending) {
+      const workflow = await this.approvalWorkflowService.getWorkflow(changeRequest.propertyId);
+      const pendingMinutes = (now.getTime() - new Date(changeRequest.createdAt).getTime()) / 60000;
+      const rule = this.approvalWorkflowService.findDueEscalation(
+        workflow,
+        changeRequest.operation,
+        changeRequest.escalationLevel ?? 0,
+        pendingMinutes,
+      );
+
+      if (!rule) {
+        continue;
+      }
+
+      const approverRoles = Array.from(new Set([...changeRequest.approverRoles, ...rule.escalateTo]));
+
+      await this.databaseService.$transaction(async (tx) => {
+        await tx.changeRequest.update({
+          where: { id: changeRequest.id },
+          data: {
+            approverRoles,
+            escalationLevel: (changeRequest.escalationLevel ?? 0) + 1,
+            escalatedAt: now,
+          },
+        });
+
+        await tx.auditLog.create({
+          data: {
+            propertyId: changeRequest.propertyId,
+            action: 'ESCALATE',
+            entityType: 'CHANGE_REQUEST',
+            entityId: changeRequest.id,
+            changes: {
+              escalateTo: rule.escalateTo,
+              notification: rule.notification ?? null,
+            },
+            source: 'SYSTEM',
+          },
+        });
+      });
+
+      if (rule.notification) {
+        this.logger.log(
+          `Escalation notice [${rule.notification.urgency}] to ${rule.escalateTo.join(', ')}: ${rule.notification.subject}`
+        );
+      }
+
+      escalated++;
+    }
+
+    if (escalated) {
+      this.logger.log(`Escalated ${escalated} pending change requests`);
+    }
+
+    return escalated;
+  }
+
+  // Private helper methods
+
+  private async findPendingOrFail(propertyId: string, id: string) {
+    const changeRequest = await this.findOne(propertyId, id);
+
+    if (changeRequest.status !== ChangeRequestStatus.PENDING) {
+      throw new ConflictException(`Change request ${id} is already ${changeRequest.status.toLowerCase()}`);
+    }
+
+    return changeRequest;
+  }
+
+  private assertCanDecide(changeRequest: any, user: RequestUser): void {
+    if (changeRequest.requestedBy === user.id) {
+      throw new ForbiddenException('You cannot decide on your own change request');
+    }
+
+    if (!user.role || !changeRequest.approverRoles.includes(user.role)) {
+      throw new ForbiddenException('Your role is not an approver for this change request');
+    }
+  }
+
+  /**
+   * Mark a request approved and apply every diff in one transaction
+   *
+   * The request is claimed with a conditional update first, so of two
+   * concurrent approvals only one applies the diffs; the other fails and
+   * rolls back. Written records are queued for channel sync once the
+   * transaction commits.
+   */
+  private async applyDecision(changeRequest: any, reviewerId: string | null, comment?: string) {
+    const diffs = changeRequest.diffs as ChangeRequestDiff[];
+    const now = new Date();
+    const written: SyncRecord[] = [];
+
+    const approved = await this.databaseService.$transaction(async (tx) => {
+      const claimed = await tx.changeRequest.updateMany({
+        where: { id: changeRequest.id, status: ChangeRequestStatus.PENDING },
+        data: {
+          status: ChangeRequestStatus.APPROVED,
+          reviewedBy: reviewerId,
+          reviewedAt: now,
+          reviewComment: comment,
+          appliedAt: now,
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictException(`Change request ${changeRequest.id} is no longer pending`);
+      }
+
+      for (const diff of diffs) {
+        const record = await this.applyDiff(tx, changeRequest, diff, reviewerId);
+        if (record) {
+          written.push(record);
+        }
+      }
+
+      await tx.auditLog.create({
+        data: {
+          propertyId: changeRequest.propertyId,
+          userId: reviewerId,
+          action: 'APPROVE',
+          entityType: 'CHANGE_REQUEST',
+          entityId: changeRequest.id,
+          changes: { comment: comment ?? null, appliedCount: diffs.length },
+          source: reviewerId ? 'API' : 'SYSTEM',
+        },
+      });
+
+      return tx.changeRequest.findUnique({ where: { id: changeRequest.id } });
+    });
+
+    this.logger.log(`Change request ${changeRequest.id} approved and applied (${diffs.length} changes)`);
+
+    await this.syncService.syncRecords(changeRequest.propertyId, written, reviewerId ?? changeRequest.requestedBy);
+    return approved;
+  }
+
+  /**
+   * Apply one diff, returning the written record (null for a delete)
+   */
+  private async applyDiff(
+    tx: any,
+    changeRequest: any,
+    diff: ChangeRequestDiff,
+    reviewerId: string | null,
+  ): Promise<SyncRecord | null> {
+    const { propertyId } = changeRequest;
+    const date = new Date(diff.date);
+    const current = diff.rateInventoryId
+      ? await tx.rateInventory.findFirst({ where: { id: diff.rateInventoryId, propertyId } })
+      : await tx.rateInventory.findUnique({
+        where: {
+          propertyId_roomTypeId_ratePlanId_channelId_date: {
+            propertyId,
+            roomTypeId: diff.roomTypeId,
+            ratePlanId: diff.ratePlanId,
+            channelId: diff.channelId,
+            date,
+          },
+        },
+      });
+
+    this.assertNotStale(diff, current);
+    await this.assertStillValid(propertyId, diff, current);
+
+    let record: any;
+    let action: string;
+    if (!diff.after) {
+      record = await tx.rateInventory.delete({ where: { id: current.id } });
+      action = 'DELETE';
+    } else if (current) {
+      record = await tx.rateInventory.update({
+        where: { id: current.id },
+        data: { ...toRateInventoryData(diff.after), syncStatus: 'PENDING' },
+      });
+      action = 'UPDATE';
+    } else {
+      record = await tx.rateInventory.create({
+        data: {
+          ...toRateInventoryData(diff.after),
+          propertyId,
+          roomTypeId: diff.roomTypeId,
+          ratePlanId: diff.ratePlanId,
+          channelId: diff.channelId,
+          date,
+          syncStatus: 'PENDING',
+        },
+      });
+      action = 'CREATE';
+    }
+
+    await tx.auditLog.create({
+      data: {
+        propertyId,
+        userId: changeRequest.requestedBy,
+        action,
+        entityType: 'RATE_INVENTORY',
+        entityId: record.id,
+        oldValues: current ? toRateInventoryResponse(current) : null,
+        newValues: diff.after ? toRateInventoryResponse(record) : null,
+        changes: { changeRequestId: changeRequest.id, approvedBy: reviewerId },
+        source: 'APPROVAL',
+      },
+    });
+
+    return diff.after ? record : null;
+  }
+
+  /**
+   * Refuse to apply a diff when the record changed after the request was staged
+   */
+  private assertNotStale(diff: ChangeRequestDiff, current: any): void {
+    const label = `${diff.date} ${diff.roomTypeId}/${diff.ratePlanId}/${diff.channelId}`;
+
+    if (!diff.before) {
+      if (current) {
+        throw new ConflictException(`A record was created for ${label} after this request was submitted`);
+      }
+      return;
+    }
+
+    if (!current) {
+      throw new ConflictException(`The record for ${label} no longer exists`);
+    }
+
+    const values = toRateInventoryResponse(current);
+    const drifted = Object.keys(diff.before).filter(field => values[field] !== diff.before[field]);
+
+    if (drifted.length) {
+      throw new ConflictException(
+        `The record for ${label} changed after this request was submitted (${drifted.join(', ')})`
+      );
+    }
+  }
+
+  /**
+   * Re-run validation on a diff, as the business date, rate guardrails or
+   * room setup may have changed since it was submitted
+   */
+  private async assertStillValid(propertyId: string, diff: ChangeRequestDiff, current: any): Promise<void> {
+    if (!diff.after) {
+      return;
+    }
+
+    if (current) {
+      await this.validationService.validateRateInventoryUpdate(diff.after, toRateInventoryResponse(current));
+      return;
+    }
+
+    await this.validationService.validateRateInventoryData(
+      {
+        ...diff.after,
+        roomTypeId: diff.roomTypeId,
+        ratePlanId: diff.ratePlanId,
+        channelId: diff.channelId,
+        date: new Date(diff.date),
+        rate: diff.after.rate,
+        inventory: diff.after.inventory,
+      },
+      propertyId,
+    );
+  }
+
+  private scopesOf(diffs: ChangeRequestDiff[]): ApprovalScope[] {
+    const scopes = new Set<ApprovalScope>();
+
+    for (const { before, after } of diffs) {
+      const fields = [...Object.keys(before ?? {}), ...Object.keys(after ?? {})];
+      if (!before || !after || fields.includes('rate')) {
+        scopes.add('rates');
+      }
+      if (!before || !after || fields.includes('inventory')) {
+        scopes.add('inventory');
+      }
+    }
+
+    return Array.from(scopes);
+  }
+
+  private describe(operation: ChangeRequestOperation, diffs: ChangeRequestDiff[]): string {
+    const dates = diffs.map(diff => diff.date).sort();
+    const range = dates[0] === dates[dates.length - 1] ? dates[0] : `${dates[0]} to ${dates[dates.length - 1]}`;
+    return `${operation} of ${diffs.length} record${diffs.length === 1 ? '' : 's'} (${range})`;
+  }
+}
@@ -0,0 +1,148 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Change Request Status
+ */
+export enum ChangeRequestStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Change Request Operation
+ */
+export enum ChangeRequestOperation {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+  BULK_UPDATE = 'BULK_UPDATE',
+  COPY = 'COPY',
+}
+
+/**
+ * Change Request Query DTO
+ */
+export class ChangeRequestQueryDto {
+  @ApiProperty({ enum: ChangeRequestStatus, required: false })
+  @IsOptional()
+  @IsEnum(ChangeRequestStatus)
+  status?: ChangeRequestStatus;
+
+  @ApiProperty({ example: 'user-id', required: false, description: 'Only requests submitted by this user' })
+  @IsOptional()
+  @IsString()
+  requestedBy?: string;
+}
+
+/**
+ * Approve Change Request DTO
+ */
+export class ApproveChangeRequestDto {
+  @ApiProperty({ example: 'Aligned with the weekend strategy', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  comment?: string;
+}
+
+/**
+ * Reject Change Request DTO
+ */
+export class RejectChangeRequestDto {
+  @ApiProperty({ example: 'Rate is below the corporate floor for December' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  comment: string;
+}
+
+/**
+ * Escalation Rule DTO
+ *
+ * condition is ALWAYS or a change request operation (e.g. BULK_UPDATE).
+ */
+export class EscalationRuleDto {
+  @ApiProperty({ example: 'ALWAYS' })
+  @IsIn(['ALWAYS', ...Object.values(ChangeRequestOperation)])
+  condition: string;
+
+  @ApiProperty({ example: 240, description: 'Minutes a request may stay pending before escalating' })
+  @IsInt()
+  @Min(1)
+  delay: number;
+
+  @ApiProperty({ example: ['CORPORATE_ADMIN'] })
+  @IsArray()
+  @IsString({ each: true })
+  escalateTo: string[];
+
+  @ApiProperty({
+    required: false,
+    example: {
+      subject: 'Rate change awaiting approval',
+      body: 'A change request has been pending for 4 hours',
+      channels: ['email'],
+      urgency: 'high',
+    },
+  })
+  @IsOptional()
+  notification?: {
+    subject: string;
+    body: string;
+    channels: string[];
+    urgency: 'low' | 'medium' | 'high' | 'critical';
+  };
+}
+
+/**
+ * Update Approval Workflow DTO
+ */
+export class UpdateApprovalWorkflowDto {
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+
+  @ApiProperty({ example: ['REVENUE_MANAGER', 'CORPORATE_ADMIN'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  approvers?: string[];
+
+  @ApiProperty({ example: 5, required: false, nullable: true, description: 'Max rate change % that can be auto-approved' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  threshold?: number | null;
+
+  @ApiProperty({ example: false, required: false })
+  @IsOptional()
+  @IsBoolean()
+  autoApprove?: boolean;
+
+  @ApiProperty({ type: [EscalationRuleDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => EscalationRuleDto)
+  escalation?: EscalationRuleDto[];
+}
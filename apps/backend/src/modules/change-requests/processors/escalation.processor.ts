@@ -0,0 +1,47 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { Process, Processor, InjectQueue } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+
+import { ChangeRequestsService } from '../change-requests.service';
+
+export const ESCALATION_QUEUE = 'change-request-escalation';
+
+const ESCALATION_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Change Request Escalation Processor
+ *
+ * Runs a repeating job that escalates pending change requests
+ * whose escalation delay has passed.
+ */
+@Processor(ESCALATION_QUEUE)
+export class EscalationProcessor implements OnModuleInit {
+  private readonly logger = new Logger(EscalationProcessor.name);
+
+  constructor(
+    private readonly changeRequestsService: ChangeRequestsService,
+    @InjectQueue(ESCALATION_QUEUE) private readonly escalationQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.escalationQueue.add(
+        'check',
+        {},
+        {
+          jobId: 'change-request-escalation-check',
+          repeat: { every: ESCALATION_CHECK_INTERVAL_MS },
+        },
+      );
+    } catch (error) {
+      this.logger.warn(`Could not schedule escalation checks: ${error.message}`);
+    }
+  }
+
+  @Process('check')
+  async handleCheck(job: Job) {
+    const escalated = await this.changeRequestsService.processEscalations();
+    this.logger.debug(`Escalation check ${job.id}: ${escalated} requests escalated`);
+    return { escalated };
+  }
+}
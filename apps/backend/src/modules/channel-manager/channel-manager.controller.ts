@@ -0,0 +1,164 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { ChannelManagerService } from './channel-manager.service';
+import { SyncService } from './sync.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { UserRole } from '../auth/enums/user-role.enum';
+
+import {
+  SyncLogQueryDto,
+  SyncOverviewQueryDto,
+  FailedRecordsQueryDto,
+  CancelSyncJobsDto,
+  RestrictionOverridesDto,
+} from './dto/channel-manager.dto';
+
+/**
+ * Channel Manager Controller
+ *
+ * REST API endpoints for monitoring channel synchronization:
+ * - Sync history, per-channel health and failed records of a property
+ * - Cancelling queued syncs and retries
+ * - Queue depth and registered channel providers
+ * - Restriction overrides per channel
+ *
+ * Monitoring is open to OPERATIONS (channel_sync.monitor); cancelling
+ * requires channel_sync.manage.
+ */
+@ApiTags('channel-sync')
+@Controller()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ChannelManagerController {
+  constructor(
+    private readonly channelManagerService: ChannelManagerService,
+    private readonly syncService: SyncService,
+  ) {}
+
+  /**
+   * List recent syncs of a property
+   */
+  @Get('properties/:propertyId/channel-sync/logs')
+  @Roles(UserRole.OPERATIONS, UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'List recent channel syncs' })
+  @ApiResponse({ status: 200, description: 'Sync history retrieved successfully' })
+  async getSyncStatus(
+    @Param('propertyId') propertyId: string,
+    @Query() query: SyncLogQueryDto,
+  ) {
+    return this.syncService.getSyncStatus(propertyId, query);
+  }
+
+  /**
+   * Per-channel sync health of a property
+   */
+  @Get('properties/:propertyId/channel-sync/overview')
+  @Roles(UserRole.OPERATIONS, UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Get per-channel sync overview' })
+  @ApiResponse({ status: 200, description: 'Sync overview retrieved successfully' })
+  async getSyncOverview(
+    @Param('propertyId') propertyId: string,
+    @Query() query: SyncOverviewQueryDto,
+  ) {
+    return this.channelManagerService.getSyncOverview(propertyId, query.hours);
+  }
+
+  /**
+   * Records whose last channel push failed
+   */
+  @Get('properties/:propertyId/channel-sync/failures')
+  @Roles(UserRole.OPERATIONS, UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'List records with failed channel sync' })
+  @ApiResponse({ status: 200, description: 'Failed records retrieved successfully' })
+  async getFailedRecords(
+    @Param('propertyId') propertyId: string,
+    @Query() query: FailedRecordsQueryDto,
+  ) {
+    return this.channelManagerService.getFailedRecords(propertyId, query.channelId, query.limit);
+  }
+
+  /**
+   * Cancel queued syncs and retries of a property
+   */
+  @Post('properties/:propertyId/channel-sync/cancel')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Cancel queued channel syncs' })
+  @ApiResponse({ status: 200, description: 'Queued syncs cancelled' })
+  async cancelSyncJobs(
+    @Param('propertyId') propertyId: string,
+    @Body() cancelDto: CancelSyncJobsDto,
+  ) {
+    return this.syncService.cancelSyncJobs(propertyId, cancelDto.channelId);
+  }
+
+  /**
+   * Job counts of the sync and retry queues
+   */
+  @Get('channel-sync/queue-stats')
+  @Roles(UserRole.OPERATIONS, UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Get channel sync queue statistics' })
+  @ApiResponse({ status: 200, description: 'Queue statistics retrieved successfully' })
+  async getQueueStats() {
+    return this.syncService.getQueueStats();
+  }
+
+  /**
+   * Registered channel providers and their capabilities
+   */
+  @Get('channel-sync/providers')
+  @Roles(UserRole.OPERATIONS, UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'List channel providers and supported restrictions' })
+  @ApiResponse({ status: 200, description: 'Channel providers retrieved successfully' })
+  async getProviders() {
+    return this.channelManagerService.listProviders();
+  }
+
+  /**
+   * Restriction overrides of a channel and the restrictions it can receive
+   */
+  @Get('properties/:propertyId/channels/:channelId/restriction-overrides')
+  @Roles(UserRole.OPERATIONS, UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Get restriction overrides of a channel' })
+  @ApiResponse({ status: 200, description: 'Restriction overrides retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Channel not mapped for the property' })
+  async getRestrictionOverrides(
+    @Param('propertyId') propertyId: string,
+    @Param('channelId') channelId: string,
+  ) {
+    return this.channelManagerService.getRestrictionOverrides(propertyId, channelId);
+  }
+
+  /**
+   * Replace the restriction overrides of a channel
+   */
+  @Put('properties/:propertyId/channels/:channelId/restriction-overrides')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Update restriction overrides of a channel' })
+  @ApiResponse({ status: 200, description: 'Restriction overrides updated successfully' })
+  @ApiResponse({ status: 400, description: 'Channel cannot receive an overridden restriction' })
+  async updateRestrictionOverrides(
+    @Param('propertyId') propertyId: string,
+    @Param('channelId') channelId: string,
+    @Body() dto: RestrictionOverridesDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.channelManagerService.updateRestrictionOverrides(propertyId, channelId, dto, user.id);
+  }
+}
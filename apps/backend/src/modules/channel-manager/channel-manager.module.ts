@@ -3,10 +3,13 @@ import { HttpModule } from '@nestjs/axios';
 import { BullModule } from '@nestjs/bull';
 
 import { DatabaseModule } from '../database/database.module';
+import { BusinessDatesModule } from '../business-dates/business-dates.module';
 import { ChannelManagerController } from './channel-manager.controller';
 import { ChannelManagerService } from './channel-manager.service';
 import { SyncService } from './sync.service';
 import { RetryService } from './retry.service';
+import { ChannelProviderRegistry } from './channel-provider.registry';
+import { CHANNEL_PROVIDERS, ChannelProvider } from './interfaces/channel-provider.interface';
 
 // Channel Manager Providers
 import { RateGainProvider } from './providers/rategain.provider';
@@ -19,6 +22,20 @@ import { ExpediaProvider } from './providers/expedia.provider';
 import { SyncProcessor } from './processors/sync.processor';
 import { RetryProcessor } from './processors/retry.processor';
 
+/**
+ * Every channel integration; adding an OTA means adding its provider here
+ */
+const CHANNEL_PROVIDER_CLASSES = [
+  // Channel Manager Providers
+  RateGainProvider,
+  SiteminderProvider,
+  DerbysoftProvider,
+
+  // Direct OTA Providers
+  BookingComProvider,
+  ExpediaProvider,
+];
+
 /**
  * Channel Manager Integration Module
  * 
@@ -27,11 +44,12 @@ import { RetryProcessor } from './processors/retry.processor';
  * - Direct OTA integrations (Booking.com, Expedia, Agoda)
  * - Real-time sync with retry logic and error handling
  * - Queue-based processing for reliability
- * - Comprehensive logging and monitoring
+ * - Sync logs and queue statistics for the sync monitor
  */
 @Module({
   imports: [
     DatabaseModule,
+    BusinessDatesModule,
     HttpModule.register({
       timeout: 30000, // 30 seconds
       maxRedirects: 3,
@@ -69,19 +87,19 @@ import { RetryProcessor } from './processors/retry.processor';
     SyncService,
     RetryService,
     
-    // Channel Manager Providers
-    RateGainProvider,
-    SiteminderProvider,
-    DerbysoftProvider,
-    
-    // Direct OTA Providers
-    BookingComProvider,
-    ExpediaProvider,
+    // Channel providers, resolved by Channel.providerType
+    ...CHANNEL_PROVIDER_CLASSES,
+    {
+      provide: CHANNEL_PROVIDERS,
+      useFactory: (...providers: ChannelProvider[]) => providers,
+      inject: CHANNEL_PROVIDER_CLASSES,
+    },
+    ChannelProviderRegistry,
     
     // Queue Processors
     SyncProcessor,
     RetryProcessor,
   ],
-  exports: [ChannelManagerService, SyncService],
+  exports: [ChannelManagerService, SyncService, ChannelProviderRegistry],
 })
 export class ChannelManagerModule {} 
\ No newline at end of file
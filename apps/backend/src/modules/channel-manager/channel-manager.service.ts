@@ -0,0 +1,253 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { ChannelProviderRegistry } from './channel-provider.registry';
+import {
+  ChannelProviderInfo,
+  ChannelRestriction,
+  ChannelRestrictionOverrides,
+} from './interfaces/channel-provider.interface';
+import { RestrictionOverridesDto } from './dto/channel-manager.dto';
+
+export interface ChannelSyncSummary {
+  channelId: string;
+  channelName: string;
+  providerType: string | null;
+  syncEnabled: boolean;
+  lastSyncAt: Date | null;
+  lastStatus: string | null;
+  lastError: string | null;
+  syncCount: number;
+  failedSyncCount: number;
+  pendingSyncCount: number;
+  recordsSynced: number;
+  recordsFailed: number;
+  failedRecords: number; // Records currently in FAILED sync state
+  averageDuration: number | null; // milliseconds
+}
+
+export interface FailedSyncRecord {
+  id: string;
+  channelId: string;
+  channelName: string;
+  roomTypeCode: string;
+  ratePlanCode: string;
+  date: string; // YYYY-MM-DD
+  error: string | null;
+  lastSyncAt: Date | null;
+}
+
+export interface ChannelRestrictionSettings {
+  channelId: string;
+  channelName: string;
+  providerType: string | null;
+  supportedRestrictions: ChannelRestriction[] | null; // null when no provider is registered
+  overrides: ChannelRestrictionOverrides;
+}
+
+const DEFAULT_OVERVIEW_HOURS = 24;
+const DEFAULT_FAILED_RECORDS_LIMIT = 100;
+const UNSUCCESSFUL_STATUSES = ['FAILED', 'PARTIAL_SUCCESS'];
+const OPEN_STATUSES = ['PENDING', 'IN_PROGRESS'];
+
+/**
+ * Channel Manager Service
+ *
+ * Read models for the channel sync monitor:
+ * - Per-channel sync health over a recent window
+ * - Records whose last push to a channel failed
+ * - Registered providers and the restrictions each can receive
+ * - Per-channel restriction overrides of a property
+ */
+@Injectable()
+export class ChannelManagerService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly providerRegistry: ChannelProviderRegistry,
+  ) {}
+
+  /**
+   * Summarize sync history for every channel mapped to the property
+   */
+  async getSyncOverview(propertyId: string, hours = DEFAULT_OVERVIEW_HOURS): Promise<ChannelSyncSummary[]> {
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    const [mappings, syncLogs, failedByChannel] = await Promise.all([
+      this.databaseService.channelMapping.findMany({
+        where: { propertyId },
+        include: { channel: true },
+      }),
+      this.databaseService.channelSyncLog.findMany({
+        where: { propertyId, startedAt: { gte: since } },
+        select: {
+          channelId: true,
+          status: true,
+          successCount: true,
+          failedCount: true,
+          errorMessage: true,
+          duration: true,
+        },
+        orderBy: { startedAt: 'desc' },
+      }),
+      this.databaseService.rateInventory.groupBy({
+        by: ['channelId'],
+        where: { propertyId, syncStatus: 'FAILED' },
+        _count: { id: true },
+      }),
+    ]);
+
+    return mappings.map(mapping => {
+      const logs = syncLogs.filter(log => log.channelId === mapping.channelId);
+      const durations = logs.map(log => log.duration).filter(duration => duration !== null && duration !== undefined);
+      const failed = failedByChannel.find(group => group.channelId === mapping.channelId);
+
+      return {
+        channelId: mapping.channelId,
+        channelName: mapping.channel.name,
+        providerType: mapping.channel.providerType ?? null,
+        syncEnabled: mapping.syncEnabled,
+        lastSyncAt: mapping.lastSyncAt ?? null,
+        lastStatus: logs[0]?.status ?? mapping.syncStatus ?? null,
+        lastError: mapping.syncError ?? null,
+        syncCount: logs.length,
+        failedSyncCount: logs.filter(log => UNSUCCESSFUL_STATUSES.includes(log.status)).length,
+        pendingSyncCount: logs.filter(log => OPEN_STATUSES.includes(log.status)).length,
+        recordsSynced: logs.reduce((sum, log) => sum + (log.successCount ?? 0), 0),
+        recordsFailed: logs.reduce((sum, log) => sum + (log.failedCount ?? 0), 0),
+        failedRecords: failed?._count?.id ?? 0,
+        averageDuration: durations.length
+          ? Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length)
+          : null,
+      };
+    });
+  }
+
+  /**
+   * Records whose most recent channel push failed
+   */
+  async getFailedRecords(
+    propertyId: string,
+    channelId?: string,
+    limit = DEFAULT_FAILED_RECORDS_LIMIT,
+  ): Promise<FailedSyncRecord[]> {
+    const where: any = { propertyId, syncStatus: 'FAILED' };
+    if (channelId) {
+      where.channelId = channelId;
+    }
+
+    const records = await this.databaseService.rateInventory.findMany({
+      where,
+      include: {
+        roomType: true,
+        ratePlan: true,
+        channel: true,
+      },
+      orderBy: { lastSyncAt: 'desc' },
+      take: limit,
+    });
+
+    return records.map(record => ({
+      id: record.id,
+      channelId: record.channelId,
+      channelName: record.channel?.name,
+      roomTypeCode: record.roomType?.code,
+      ratePlanCode: record.ratePlan?.code,
+      date: new Date(record.date).toISOString().split('T')[0],
+      error: record.syncError ?? null,
+      lastSyncAt: record.lastSyncAt ?? null,
+    }));
+  }
+
+  /**
+   * Registered channel providers with their capabilities
+   */
+  listProviders(): ChannelProviderInfo[] {
+    return this.providerRegistry.list();
+  }
+
+  /**
+   * Restriction overrides of one channel, with the restrictions it can receive
+   */
+  async getRestrictionOverrides(propertyId: string, channelId: string): Promise<ChannelRestrictionSettings> {
+    const mapping = await this.findChannelMapping(propertyId, channelId);
+    return this.toRestrictionSettings(mapping);
+  }
+
+  /**
+   * Replace the restriction overrides of one channel; restrictions the
+   * channel's provider cannot receive are rejected
+   */
+  async updateRestrictionOverrides(
+    propertyId: string,
+    channelId: string,
+    dto: RestrictionOverridesDto,
+    userId: string,
+  ): Promise<ChannelRestrictionSettings> {
+    const mapping = await this.findChannelMapping(propertyId, channelId);
+
+    const overrides = Object.fromEntries(
+      Object.entries(dto).filter(([, value]) => value !== undefined),
+    ) as ChannelRestrictionOverrides;
+
+    const supported = this.supportedRestrictions(mapping.channel?.providerType);
+    const unsupported = Object.keys(overrides).filter(
+      restriction => supported && !supported.includes(restriction as ChannelRestriction),
+    );
+    if (unsupported.length) {
+      throw new BadRequestException(
+        `${mapping.channel?.name ?? channelId} cannot receive ${unsupported.join(', ')}`,
+      );
+    }
+
+    const updated = await this.databaseService.channelMapping.update({
+      where: { id: mapping.id },
+      data: { restrictionOverrides: Object.keys(overrides).length ? overrides : null },
+      include: { channel: true },
+    });
+
+    await this.databaseService.auditLog.create({
+      data: {
+        propertyId,
+        userId,
+        action: 'UPDATE',
+        entityType: 'CHANNEL_RESTRICTION_OVERRIDES',
+        entityId: mapping.id,
+        changes: { channelId, before: mapping.restrictionOverrides ?? {}, after: overrides },
+        source: 'API',
+      },
+    });
+
+    return this.toRestrictionSettings(updated);
+  }
+
+  // Private helper methods
+
+  private async findChannelMapping(propertyId: string, channelId: string) {
+    const mapping = await this.databaseService.channelMapping.findUnique({
+      where: { propertyId_channelId: { propertyId, channelId } },
+      include: { channel: true },
+    });
+
+    if (!mapping) {
+      throw new NotFoundException(`Channel ${channelId} is not mapped for property ${propertyId}`);
+    }
+
+    return mapping;
+  }
+
+  private supportedRestrictions(providerType?: string | null): ChannelRestriction[] | null {
+    return providerType && this.providerRegistry.has(providerType)
+      ? this.providerRegistry.get(providerType).capabilities.restrictions
+      : null;
+  }
+
+  private toRestrictionSettings(mapping: any): ChannelRestrictionSettings {
+    return {
+      channelId: mapping.channelId,
+      channelName: mapping.channel?.name,
+      providerType: mapping.channel?.providerType ?? null,
+      supportedRestrictions: this.supportedRestrictions(mapping.channel?.providerType),
+      overrides: mapping.restrictionOverrides ?? {},
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { Inject, Injectable } from '@nestjs/common';
+
+import {
+  CHANNEL_PROVIDERS,
+  ChannelProvider,
+  ChannelProviderInfo,
+} from './interfaces/channel-provider.interface';
+
+/**
+ * Channel Provider Registry
+ *
+ * Resolves channel integrations by the provider type declared on each Channel:
+ * - Built from every provider registered under the CHANNEL_PROVIDERS token
+ * - Rejects two providers claiming the same provider type
+ * - Lists providers with their capabilities for the UI
+ */
+@Injectable()
+export class ChannelProviderRegistry {
+  private readonly providers = new Map<string, ChannelProvider>();
+
+  constructor(@Inject(CHANNEL_PROVIDERS) providers: ChannelProvider[]) {
+    providers.forEach(provider => {
+      if (this.providers.has(provider.providerType)) {
+        throw new Error(`Duplicate channel provider registered for ${provider.providerType}`);
+      }
+      this.providers.set(provider.providerType, provider);
+    });
+  }
+
+  /**
+   * Get the provider for a channel's provider type
+   */
+  get(providerType: string): ChannelProvider {
+    const provider = this.providers.get(providerType);
+    if (!provider) {
+      throw new Error(`Unsupported channel provider type: ${providerType}`);
+    }
+    return provider;
+  }
+
+  has(providerType: string): boolean {
+    return this.providers.has(providerType);
+  }
+
+  /**
+   * Registered providers and what each of them can sync
+   */
+  list(): ChannelProviderInfo[] {
+    return Array.from(this.providers.values()).map(provider => ({
+      providerType: provider.providerType,
+      displayName: provider.displayName,
+      capabilities: provider.capabilities,
+    }));
+  }
+}
@@ -0,0 +1,153 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Channel Sync Log Status
+ */
+export enum ChannelSyncStatus {
+  PENDING = 'PENDING',
+  IN_PROGRESS = 'IN_PROGRESS',
+  SUCCESS = 'SUCCESS',
+  PARTIAL_SUCCESS = 'PARTIAL_SUCCESS',
+  FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Sync Log Query DTO
+ */
+export class SyncLogQueryDto {
+  @ApiProperty({ example: 'channel-id', required: false })
+  @IsOptional()
+  @IsString()
+  channelId?: string;
+
+  @ApiProperty({ enum: ChannelSyncStatus, required: false })
+  @IsOptional()
+  @IsEnum(ChannelSyncStatus)
+  status?: ChannelSyncStatus;
+
+  @ApiProperty({ example: 50, required: false, description: 'Most recent syncs to return (max 200)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  @Type(() => Number)
+  limit?: number;
+}
+
+/**
+ * Sync Overview Query DTO
+ */
+export class SyncOverviewQueryDto {
+  @ApiProperty({ example: 24, required: false, description: 'Hours of sync history to summarize (max 168)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(168)
+  @Type(() => Number)
+  hours?: number;
+}
+
+/**
+ * Failed Records Query DTO
+ */
+export class FailedRecordsQueryDto {
+  @ApiProperty({ example: 'channel-id', required: false })
+  @IsOptional()
+  @IsString()
+  channelId?: string;
+
+  @ApiProperty({ example: 100, required: false, description: 'Most recent failures to return (max 500)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  @Type(() => Number)
+  limit?: number;
+}
+
+/**
+ * Cancel Sync Jobs DTO
+ */
+export class CancelSyncJobsDto {
+  @ApiProperty({ example: 'channel-id', required: false, description: 'Only cancel jobs for this channel' })
+  @IsOptional()
+  @IsString()
+  channelId?: string;
+}
+
+/**
+ * Restriction Overrides DTO
+ *
+ * Restriction values one channel receives instead of those stored on each
+ * record. Omitted restrictions are sent as stored; null sends them cleared.
+ * The overrides replace the channel's previous ones as a whole.
+ */
+export class RestrictionOverridesDto {
+  @ApiProperty({ example: 2, required: false, nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  minStay?: number | null;
+
+  @ApiProperty({ example: 28, required: false, nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  maxStay?: number | null;
+
+  @ApiProperty({ example: 2, required: false, nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  minStayThrough?: number | null;
+
+  @ApiProperty({ example: null, required: false, nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  maxStayThrough?: number | null;
+
+  @ApiProperty({ example: 1, required: false, nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  minAdvanceBookingDays?: number | null;
+
+  @ApiProperty({ example: 365, required: false, nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(730)
+  maxAdvanceBookingDays?: number | null;
+
+  @ApiProperty({ example: false, required: false, nullable: true })
+  @IsOptional()
+  @IsBoolean()
+  closedToArrival?: boolean | null;
+
+  @ApiProperty({ example: false, required: false, nullable: true })
+  @IsOptional()
+  @IsBoolean()
+  closedToDeparture?: boolean | null;
+
+  @ApiProperty({ example: false, required: false, nullable: true })
+  @IsOptional()
+  @IsBoolean()
+  stopSell?: boolean | null;
+}
@@ -0,0 +1,132 @@
+/**
+ * Channel Provider Interfaces
+ *
+ * Contract every channel integration implements, plus the DI token the
+ * providers are registered under. SyncService looks providers up by the
+ * `providerType` declared on each Channel, so a new OTA or channel manager
+ * only needs a class implementing ChannelProvider and an entry in
+ * ChannelManagerModule.
+ */
+
+/**
+ * DI token resolving to every registered ChannelProvider
+ */
+export const CHANNEL_PROVIDERS = 'CHANNEL_PROVIDERS';
+
+export type SyncOperation = 'CREATE' | 'UPDATE' | 'DELETE';
+
+/**
+ * Restrictions a channel can receive, in API field names; minStay and
+ * maxStay apply on arrival, the Through variants to any stay including the date
+ */
+export type ChannelRestriction =
+  | 'minStay'
+  | 'maxStay'
+  | 'minStayThrough'
+  | 'maxStayThrough'
+  | 'minAdvanceBookingDays'
+  | 'maxAdvanceBookingDays'
+  | 'closedToArrival'
+  | 'closedToDeparture'
+  | 'stopSell';
+
+/**
+ * Restriction values a channel receives instead of the record's own; null
+ * sends the restriction cleared
+ */
+export type ChannelRestrictionOverrides = Partial<Record<ChannelRestriction, number | boolean | null>>;
+
+export interface ChannelCapabilities {
+  pushRates: boolean;
+  pushInventory: boolean;
+  restrictions: ChannelRestriction[];
+  pullReservations: boolean;
+  maxBatchSize: number; // Records per API request
+  maxStayLimit?: number; // Longest MaxLOS the channel accepts
+}
+
+export interface ChannelSyncError {
+  recordId: string;
+  error: string;
+  retryable: boolean;
+}
+
+export interface ChannelSyncResult {
+  success: boolean;
+  syncedCount: number;
+  failedCount: number;
+  errors: ChannelSyncError[];
+}
+
+/**
+ * Per-property channel configuration, as stored on ChannelMapping
+ */
+export interface ChannelConfig {
+  hotelId?: string;
+  apiKey?: string;
+  apiSecret?: string;
+  username?: string;
+  password?: string;
+  roomTypeMappings?: Record<string, string>;
+  ratePlanMappings?: Record<string, string>;
+  restrictionOverrides?: ChannelRestrictionOverrides;
+  currency?: string;
+}
+
+export type ChannelReservationStatus = 'CONFIRMED' | 'MODIFIED' | 'CANCELLED';
+
+/**
+ * A reservation as reported by the channel, with channel-side room and rate codes
+ */
+export interface ChannelReservation {
+  channelReservationId: string;
+  status: ChannelReservationStatus;
+  guestName?: string;
+  arrivalDate: string; // YYYY-MM-DD
+  departureDate: string; // YYYY-MM-DD
+  roomCode: string;
+  rateCode: string;
+  rooms: number;
+  totalAmount: number;
+  currency: string;
+  bookedAt: string; // ISO timestamp
+}
+
+export interface ChannelErrorClassification {
+  retryable: boolean;
+  code?: string;
+}
+
+export interface ConnectionTestResult {
+  success: boolean;
+  message: string;
+}
+
+export interface ChannelProvider {
+  readonly providerType: string; // Matches Channel.providerType
+  readonly displayName: string;
+  readonly capabilities: ChannelCapabilities;
+
+  /**
+   * Push availability, rates and restrictions of the given records
+   */
+  pushAri(records: any[], channelConfig: ChannelConfig, operation: SyncOperation): Promise<ChannelSyncResult>;
+
+  /**
+   * Fetch reservations created or changed since the given time
+   */
+  pullReservations(channelConfig: ChannelConfig, since: Date): Promise<ChannelReservation[]>;
+
+  testConnection(channelConfig?: ChannelConfig): Promise<ConnectionTestResult>;
+
+  classifyError(error: any): ChannelErrorClassification;
+}
+
+/**
+ * Provider summary exposed to the UI
+ */
+export interface ChannelProviderInfo {
+  providerType: string;
+  displayName: string;
+  capabilities: ChannelCapabilities;
+}
@@ -0,0 +1,29 @@
+import { Logger } from '@nestjs/common';
+import { OnQueueFailed, Process, Processor } from '@nestjs/bull';
+import { Job } from 'bull';
+
+import { RetryJobData } from '../sync.service';
+import { RetryService } from '../retry.service';
+
+/**
+ * Channel Retry Processor
+ *
+ * Re-sends records that failed with a retryable channel error, one record per job.
+ */
+@Processor('channel-retry')
+export class RetryProcessor {
+  private readonly logger = new Logger(RetryProcessor.name);
+
+  constructor(private readonly retryService: RetryService) {}
+
+  @Process('retry-sync')
+  async handleRetry(job: Job<RetryJobData>) {
+    const outcome = await this.retryService.processRetryJob(job.data, job.attemptsMade + 1, job.opts.attempts ?? 1);
+    return { outcome };
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job<RetryJobData>, error: Error) {
+    this.logger.warn(`Retry of ${job.data.recordId} failed (attempt ${job.attemptsMade}): ${error.message}`);
+  }
+}
@@ -0,0 +1,32 @@
+import { Logger } from '@nestjs/common';
+import { OnQueueFailed, Process, Processor } from '@nestjs/bull';
+import { Job } from 'bull';
+
+import { SyncJobData, SyncService } from '../sync.service';
+
+/**
+ * Channel Sync Processor
+ *
+ * Pushes queued rate inventory syncs to the channel's provider.
+ */
+@Processor('channel-sync')
+export class SyncProcessor {
+  private readonly logger = new Logger(SyncProcessor.name);
+
+  constructor(private readonly syncService: SyncService) {}
+
+  @Process('sync-rates-inventory')
+  async handleSync(job: Job<SyncJobData>) {
+    await this.syncService.processSyncJob(
+      job.data.syncId,
+      job.data.request,
+      job.attemptsMade + 1,
+      job.opts.attempts ?? 1,
+    );
+  }
+
+  @OnQueueFailed()
+  onFailed(job: Job<SyncJobData>, error: Error) {
+    this.logger.error(`Sync job ${job.id} failed (attempt ${job.attemptsMade}): ${error.message}`);
+  }
+}
@@ -1 +1,206 @@
- 
\ No newline at end of file
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { AxiosRequestConfig } from 'axios';
+import { HttpChannelProvider, ChannelApiError, MappedRecord } from './http-channel.provider';
+import {
+  ChannelCapabilities,
+  ChannelConfig,
+  ChannelSyncError,
+  SyncOperation,
+} from '../interfaces/channel-provider.interface';
+
+interface BookingComError {
+  code: string;
+  message: string;
+  roomId?: string;
+  rateId?: string;
+  date?: string;
+}
+
+const RETRYABLE_ERROR_CODES = ['SERVICE_UNAVAILABLE', 'TOO_MANY_REQUESTS', 'TEMPORARY_ERROR', 'LOCK_TIMEOUT'];
+
+/**
+ * Booking.com Channel Provider
+ *
+ * Direct connection to the Booking.com availability XML API:
+ * - One <request> per batch, grouped by room and date
+ * - Rooms to sell per room, price and restrictions per rate
+ * - Credentials and hotel ID taken from the property's channel mapping
+ * - Errors tagged with room, rate and date are attributed to single records
+ */
+@Injectable()
+export class BookingComProvider extends HttpChannelProvider {
+  readonly providerType = 'BOOKING_COM';
+  readonly displayName = 'Booking.com';
+  readonly capabilities: ChannelCapabilities = {
+    pushRates: true,
+    pushInventory: true,
+    restrictions: [
+      'minStay',
+      'maxStay',
+      'minStayThrough',
+      'maxStayThrough',
+      'minAdvanceBookingDays',
+      'maxAdvanceBookingDays',
+      'closedToArrival',
+      'closedToDeparture',
+      'stopSell',
+    ],
+    pullReservations: false,
+    maxBatchSize: 100,
+    maxStayLimit: 28,
+  };
+
+  protected readonly logger = new Logger(BookingComProvider.name);
+
+  constructor(httpService: HttpService, configService: ConfigService) {
+    super(httpService, configService, 'BOOKING_COM', 'https://supply-xml.booking.com/hotels/xml');
+  }
+
+  protected validateConfig(channelConfig: ChannelConfig): string | null {
+    if (!channelConfig.username || !channelConfig.password) {
+      return 'Booking.com username or password not configured';
+    }
+    return super.validateConfig(channelConfig);
+  }
+
+  protected requestConfig(): AxiosRequestConfig {
+    return {
+      headers: { 'Content-Type': 'text/xml; charset=utf-8' },
+      responseType: 'text',
+      timeout: 30000,
+    };
+  }
+
+  protected async sendBatch(
+    batch: MappedRecord[],
+    channelConfig: ChannelConfig,
+    operation: SyncOperation,
+  ): Promise<ChannelSyncError[]> {
+    const response = await this.post<string>('/availability', this.toAvailabilityXml(batch, channelConfig), channelConfig);
+    const body = String(response ?? '');
+
+    if (/<ok\b/i.test(body)) {
+      return [];
+    }
+
+    const errors = this.parseErrors(body);
+    if (!errors.length) {
+      throw new ChannelApiError(`Unexpected Booking.com response for ${operation}`, 'UNKNOWN_RESPONSE', true);
+    }
+
+    // Errors that do not name a room, rate and date fail the whole batch
+    const untagged = errors.find(error => !error.roomId || !error.date);
+    if (untagged) {
+      throw new ChannelApiError(
+        `Booking.com error: ${untagged.message} (Code: ${untagged.code})`,
+        untagged.code,
+        this.isRetryableErrorCode(untagged.code),
+      );
+    }
+
+    return batch
+      .map(item => {
+        const error = errors.find(e =>
+          e.roomId === item.roomCode && e.date === item.date && (!e.rateId || e.rateId === item.rateCode)
+        );
+        return error && {
+          recordId: item.record.id,
+          error: `Booking.com error: ${error.message} (Code: ${error.code})`,
+          retryable: this.isRetryableErrorCode(error.code),
+        };
+      })
+      .filter(Boolean);
+  }
+
+  protected isRetryableErrorCode(code: string): boolean {
+    return RETRYABLE_ERROR_CODES.includes(code);
+  }
+
+  // Private helper methods
+
+  /**
+   * Transform records to the availability XML request
+   */
+  private toAvailabilityXml(batch: MappedRecord[], channelConfig: ChannelConfig): string {
+    const rooms: Record<string, Record<string, MappedRecord[]>> = {};
+    batch.forEach(item => {
+      rooms[item.roomCode] = rooms[item.roomCode] ?? {};
+      rooms[item.roomCode][item.date] = [...(rooms[item.roomCode][item.date] ?? []), item];
+    });
+
+    const flag = (value: boolean) => (value ? '1' : '0');
+    // Advance reservation windows are durations in days; 0 is a valid minimum
+    const advance = (tag: string, days?: number | null) =>
+      days === null || days === undefined ? '' : `<${tag}>${days}D</${tag}>`;
+
+    const roomXml = Object.entries(rooms).map(([roomId, dates]) => {
+      const dateXml = Object.entries(dates).map(([date, items]) => {
+        // Rooms to sell is shared by every rate of the room on a date
+        const roomsToSell = Math.min(...items.map(item => item.record.inventory ?? 0));
+        const rateXml = items.map(({ record, rateCode }) => {
+          const price = this.rateAmount(record);
+          return [
+            `<rate id="${this.escape(rateCode)}"/>`,
+            price !== null ? `<price>${price.toFixed(2)}</price>` : '',
+            `<closed>${flag(record.stopSell)}</closed>`,
+            record.minLos ? `<minimumstay_arrival>${record.minLos}</minimumstay_arrival>` : '',
+            record.maxLos ? `<maximumstay_arrival>${record.maxLos}</maximumstay_arrival>` : '',
+            record.minLosThrough ? `<minimumstay>${record.minLosThrough}</minimumstay>` : '',
+            record.maxLosThrough ? `<maximumstay>${record.maxLosThrough}</maximumstay>` : '',
+            advance('min_advance_res', record.minAdvanceDays),
+            advance('max_advance_res', record.maxAdvanceDays),
+            `<closedonarrival>${flag(record.cta)}</closedonarrival>`,
+            `<closedondeparture>${flag(record.ctd)}</closedondeparture>`,
+          ].join('');
+        }).join('');
+
+        return `<date value="${date}"><roomstosell>${roomsToSell}</roomstosell>${rateXml}</date>`;
+      }).join('');
+
+      return `<room id="${this.escape(roomId)}">${dateXml}</room>`;
+    }).join('');
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<request>',
+      `<username>${this.escape(channelConfig.username)}</username>`,
+      `<password>${this.escape(channelConfig.password)}</password>`,
+      `<hotel_id>${this.escape(channelConfig.hotelId)}</hotel_id>`,
+      '<version>1.0</version>',
+      roomXml,
+      '</request>',
+    ].join('');
+  }
+
+  /**
+   * Read <error code="" room_id="" rate_id="" date="">message</error> elements
+   */
+  private parseErrors(body: string): BookingComError[] {
+    const errors: BookingComError[] = [];
+    const pattern = /<error\b([^>]*)>([\s\S]*?)<\/error>/gi;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(body))) {
+      const attr = (name: string) => new RegExp(`${name}="([^"]*)"`, 'i').exec(match[1])?.[1];
+      errors.push({
+        code: attr('code') ?? 'UNKNOWN',
+        message: match[2].trim(),
+        roomId: attr('room_id'),
+        rateId: attr('rate_id'),
+        date: attr('date'),
+      });
+    }
+
+    return errors;
+  }
+
+  private escape(value: string | undefined): string {
+    return String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
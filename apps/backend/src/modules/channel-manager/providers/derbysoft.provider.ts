@@ -0,0 +1,146 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { AxiosRequestConfig } from 'axios';
+import { HttpChannelProvider, ChannelApiError, MappedRecord } from './http-channel.provider';
+import {
+  ChannelCapabilities,
+  ChannelConfig,
+  ChannelSyncError,
+  SyncOperation,
+} from '../interfaces/channel-provider.interface';
+
+const RETRYABLE_ERROR_CODES = ['SystemBusy', 'SystemError', 'RequestTimeout', 'TooManyRequests'];
+
+/**
+ * Derbysoft Channel Provider
+ *
+ * Pushes ARI through Derbysoft's distribution switch:
+ * - Availability and rate updates per room, rate and date range
+ * - Supplier and hotel identifiers in the request header
+ * - Failed updates reported by their reference and matched to records
+ */
+@Injectable()
+export class DerbysoftProvider extends HttpChannelProvider {
+  readonly providerType = 'DERBYSOFT';
+  readonly displayName = 'Derbysoft';
+  readonly capabilities: ChannelCapabilities = {
+    pushRates: true,
+    pushInventory: true,
+    restrictions: [
+      'minStay',
+      'maxStay',
+      'minStayThrough',
+      'maxStayThrough',
+      'minAdvanceBookingDays',
+      'maxAdvanceBookingDays',
+      'closedToArrival',
+      'closedToDeparture',
+      'stopSell',
+    ],
+    pullReservations: false,
+    maxBatchSize: 100,
+  };
+
+  protected readonly logger = new Logger(DerbysoftProvider.name);
+
+  constructor(httpService: HttpService, configService: ConfigService) {
+    super(httpService, configService, 'DERBYSOFT', 'https://api.derbysoft.com/ari/v4');
+  }
+
+  protected validateConfig(channelConfig: ChannelConfig): string | null {
+    if (!channelConfig.apiKey && !this.apiKey) {
+      return 'Derbysoft API token not configured';
+    }
+    return super.validateConfig(channelConfig);
+  }
+
+  protected requestConfig(channelConfig: ChannelConfig): AxiosRequestConfig {
+    return {
+      headers: {
+        'Authorization': `Bearer ${channelConfig.apiKey || this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      timeout: 30000,
+    };
+  }
+
+  protected async sendBatch(
+    batch: MappedRecord[],
+    channelConfig: ChannelConfig,
+    operation: SyncOperation,
+  ): Promise<ChannelSyncError[]> {
+    const response = await this.post(
+      '/ari/update',
+      {
+        header: {
+          supplierId: channelConfig.username,
+          hotelId: channelConfig.hotelId,
+          echoToken: this.generateRequestId('ds'),
+          timeStamp: new Date().toISOString(),
+        },
+        operation,
+        ariList: batch.map(item => this.toDerbysoftAri(item, channelConfig)),
+      },
+      channelConfig,
+    );
+
+    if (response?.success) {
+      return [];
+    }
+
+    const errors: Array<{ code: string; message: string; ref?: string }> = response?.errors ?? [];
+    const general = errors.find(error => !error.ref);
+    if (general || !errors.length) {
+      const code = general?.code ?? 'UNKNOWN';
+      throw new ChannelApiError(
+        `Derbysoft error: ${general?.message ?? 'Update rejected'} (Code: ${code})`,
+        code,
+        this.isRetryableErrorCode(code),
+      );
+    }
+
+    return errors
+      .filter(error => batch.some(item => item.record.id === error.ref))
+      .map(error => ({
+        recordId: error.ref,
+        error: `Derbysoft error: ${error.message} (Code: ${error.code})`,
+        retryable: this.isRetryableErrorCode(error.code),
+      }));
+  }
+
+  protected isRetryableErrorCode(code: string): boolean {
+    return RETRYABLE_ERROR_CODES.includes(code);
+  }
+
+  // Private helper methods
+
+  /**
+   * Transform a record to a Derbysoft ARI entry covering a single night
+   */
+  private toDerbysoftAri({ record, date, roomCode, rateCode }: MappedRecord, channelConfig: ChannelConfig) {
+    const amount = this.rateAmount(record);
+
+    return {
+      ref: record.id,
+      roomId: roomCode,
+      rateId: rateCode,
+      stayRange: { checkin: date, checkout: date },
+      inventory: { availableCount: record.inventory, closed: !!record.stopSell },
+      rate: amount === null ? null : {
+        currency: channelConfig.currency || 'USD',
+        amountBeforeTax: amount,
+      },
+      restrictions: {
+        minLos: record.minLos ?? undefined,
+        maxLos: record.maxLos ?? undefined,
+        minLosThrough: record.minLosThrough ?? undefined,
+        maxLosThrough: record.maxLosThrough ?? undefined,
+        minAdvanceBooking: record.minAdvanceDays ?? undefined,
+        maxAdvanceBooking: record.maxAdvanceDays ?? undefined,
+        closedToArrival: !!record.cta,
+        closedToDeparture: !!record.ctd,
+      },
+    };
+  }
+}
@@ -0,0 +1,188 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { AxiosRequestConfig } from 'axios';
+import { HttpChannelProvider, ChannelApiError, MappedRecord } from './http-channel.provider';
+import {
+  ChannelCapabilities,
+  ChannelConfig,
+  ChannelReservation,
+  ChannelReservationStatus,
+  ChannelSyncError,
+  SyncOperation,
+} from '../interfaces/channel-provider.interface';
+
+interface ExpediaReservation {
+  id: string;
+  status: 'BOOKED' | 'MODIFIED' | 'CANCELLED';
+  primaryGuest?: { name?: string };
+  checkInDate: string;
+  checkOutDate: string;
+  roomTypeId: string;
+  ratePlanId: string;
+  rooms?: number;
+  totalAmount?: { value: number; currency: string };
+  bookingDateTime: string;
+}
+
+const RESERVATION_STATUS: Record<ExpediaReservation['status'], ChannelReservationStatus> = {
+  BOOKED: 'CONFIRMED',
+  MODIFIED: 'MODIFIED',
+  CANCELLED: 'CANCELLED',
+};
+
+const RETRYABLE_ERROR_CODES = ['SERVICE_UNAVAILABLE', 'RATE_LIMITED', 'INTERNAL_ERROR', 'CONCURRENT_UPDATE'];
+
+/**
+ * Expedia Channel Provider
+ *
+ * Direct connection to Expedia's availability and rates API:
+ * - Room and rate plan updates per stay date
+ * - Basic authentication with the property's EQC credentials
+ * - Warnings are ignored; errors are matched to records by room, rate and date
+ * - Reservations retrieved from the booking retrieval endpoint
+ */
+@Injectable()
+export class ExpediaProvider extends HttpChannelProvider {
+  readonly providerType = 'EXPEDIA';
+  readonly displayName = 'Expedia';
+  readonly capabilities: ChannelCapabilities = {
+    pushRates: true,
+    pushInventory: true,
+    restrictions: ['minStay', 'maxStay', 'closedToArrival', 'closedToDeparture', 'stopSell'],
+    pullReservations: true,
+    maxBatchSize: 50,
+  };
+
+  protected readonly logger = new Logger(ExpediaProvider.name);
+
+  constructor(httpService: HttpService, configService: ConfigService) {
+    super(httpService, configService, 'EXPEDIA', 'https://services.expediapartnercentral.com/eqc/ar/v2');
+  }
+
+  protected validateConfig(channelConfig: ChannelConfig): string | null {
+    if (!channelConfig.username || !channelConfig.password) {
+      return 'Expedia username or password not configured';
+    }
+    return super.validateConfig(channelConfig);
+  }
+
+  protected requestConfig(channelConfig: ChannelConfig): AxiosRequestConfig {
+    return {
+      auth: channelConfig.username
+        ? { username: channelConfig.username, password: channelConfig.password ?? '' }
+        : undefined,
+      headers: {
+        'Content-Type': 'application/json',
+        'Request-ID': this.generateRequestId('exp'),
+      },
+      timeout: 30000,
+    };
+  }
+
+  protected async sendBatch(
+    batch: MappedRecord[],
+    channelConfig: ChannelConfig,
+    operation: SyncOperation,
+  ): Promise<ChannelSyncError[]> {
+    const response = await this.post(
+      `/properties/${encodeURIComponent(channelConfig.hotelId)}/availability-rates`,
+      {
+        operation,
+        roomTypes: this.toExpediaRoomTypes(batch, channelConfig),
+      },
+      channelConfig,
+    );
+
+    const errors: Array<{ code: string; message: string; roomTypeId?: string; ratePlanId?: string; date?: string }> =
+      (response?.errors ?? []);
+    if (!errors.length) {
+      return [];
+    }
+
+    const general = errors.find(error => !error.roomTypeId || !error.date);
+    if (general) {
+      throw new ChannelApiError(
+        `Expedia error: ${general.message} (Code: ${general.code})`,
+        general.code,
+        this.isRetryableErrorCode(general.code),
+      );
+    }
+
+    return batch
+      .map(item => {
+        const error = errors.find(e =>
+          e.roomTypeId === item.roomCode && e.date === item.date && (!e.ratePlanId || e.ratePlanId === item.rateCode)
+        );
+        return error && {
+          recordId: item.record.id,
+          error: `Expedia error: ${error.message} (Code: ${error.code})`,
+          retryable: this.isRetryableErrorCode(error.code),
+        };
+      })
+      .filter(Boolean);
+  }
+
+  protected async fetchReservations(channelConfig: ChannelConfig, since: Date): Promise<ChannelReservation[]> {
+    const response = await this.get(
+      `/properties/${encodeURIComponent(channelConfig.hotelId)}/reservations`,
+      { since: since.toISOString() },
+      channelConfig,
+    );
+
+    const reservations: ExpediaReservation[] = response?.reservations ?? [];
+    return reservations.map(reservation => ({
+      channelReservationId: reservation.id,
+      status: RESERVATION_STATUS[reservation.status] ?? 'CONFIRMED',
+      guestName: reservation.primaryGuest?.name,
+      arrivalDate: reservation.checkInDate,
+      departureDate: reservation.checkOutDate,
+      roomCode: reservation.roomTypeId,
+      rateCode: reservation.ratePlanId,
+      rooms: reservation.rooms ?? 1,
+      totalAmount: reservation.totalAmount?.value ?? 0,
+      currency: reservation.totalAmount?.currency ?? channelConfig.currency ?? 'USD',
+      bookedAt: reservation.bookingDateTime,
+    }));
+  }
+
+  protected isRetryableErrorCode(code: string): boolean {
+    return RETRYABLE_ERROR_CODES.includes(code);
+  }
+
+  // Private helper methods
+
+  /**
+   * Transform records to Expedia room types with per-date availability and rate plans
+   */
+  private toExpediaRoomTypes(batch: MappedRecord[], channelConfig: ChannelConfig) {
+    const roomTypes: Record<string, Record<string, MappedRecord[]>> = {};
+    batch.forEach(item => {
+      roomTypes[item.roomCode] = roomTypes[item.roomCode] ?? {};
+      roomTypes[item.roomCode][item.date] = [...(roomTypes[item.roomCode][item.date] ?? []), item];
+    });
+
+    return Object.entries(roomTypes).map(([roomTypeId, dates]) => ({
+      id: roomTypeId,
+      dates: Object.entries(dates).map(([date, items]) => ({
+        date,
+        totalInventoryAvailable: Math.min(...items.map(item => item.record.inventory ?? 0)),
+        closed: items.every(item => !!item.record.stopSell),
+        ratePlans: items.map(({ record, rateCode }) => {
+          const amount = this.rateAmount(record);
+          return {
+            id: rateCode,
+            closed: !!record.stopSell,
+            rate: amount === null ? undefined : { amount, currency: channelConfig.currency || 'USD' },
+            restrictions: {
+              minLOS: record.minLos ?? undefined,
+              maxLOS: record.maxLos ?? undefined,
+              closedToArrival: !!record.cta,
+              closedToDeparture: !!record.ctd,
+            },
+          };
+        }),
+      })),
+    }));
+  }
+}
@@ -0,0 +1,357 @@
+import { Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { AxiosRequestConfig } from 'axios';
+import { firstValueFrom } from 'rxjs';
+import {
+  ChannelCapabilities,
+  ChannelConfig,
+  ChannelErrorClassification,
+  ChannelProvider,
+  ChannelReservation,
+  ChannelRestriction,
+  ChannelRestrictionOverrides,
+  ChannelSyncError,
+  ChannelSyncResult,
+  ConnectionTestResult,
+  SyncOperation,
+} from '../interfaces/channel-provider.interface';
+
+/**
+ * A rate inventory record with the channel-side room and rate codes resolved
+ */
+export interface MappedRecord {
+  record: any;
+  date: string; // YYYY-MM-DD
+  roomCode: string;
+  rateCode: string;
+}
+
+/**
+ * Raised for failures the channel reported with its own error code
+ */
+export class ChannelApiError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+  }
+}
+
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN'];
+
+/**
+ * RateInventory column holding each restriction
+ */
+export const RESTRICTION_COLUMNS: Record<ChannelRestriction, string> = {
+  minStay: 'minLos',
+  maxStay: 'maxLos',
+  minStayThrough: 'minLosThrough',
+  maxStayThrough: 'maxLosThrough',
+  minAdvanceBookingDays: 'minAdvanceDays',
+  maxAdvanceBookingDays: 'maxAdvanceDays',
+  closedToArrival: 'cta',
+  closedToDeparture: 'ctd',
+  stopSell: 'stopSell',
+};
+
+const FLAG_RESTRICTIONS: ChannelRestriction[] = ['closedToArrival', 'closedToDeparture', 'stopSell'];
+
+function clearedRestriction(restriction: ChannelRestriction): boolean | null {
+  return FLAG_RESTRICTIONS.includes(restriction) ? false : null;
+}
+
+/**
+ * Replace a record's restrictions with the channel's overrides
+ */
+export function applyRestrictionOverrides(record: any, overrides?: ChannelRestrictionOverrides): any {
+  if (!overrides || !Object.keys(overrides).length) {
+    return record;
+  }
+
+  const overridden = { ...record };
+  Object.entries(overrides).forEach(([restriction, value]) => {
+    const column = RESTRICTION_COLUMNS[restriction as ChannelRestriction];
+    if (column) {
+      overridden[column] = value ?? clearedRestriction(restriction as ChannelRestriction);
+    }
+  });
+
+  return overridden;
+}
+
+/**
+ * HTTP Channel Provider Base
+ *
+ * Shared sync flow for HTTP channel integrations:
+ * - Resolves channel room and rate codes from the ChannelMapping
+ * - Sends records in batches, attributing failures to individual records
+ * - Closes out records on DELETE instead of removing them on the channel
+ * - Applies the mapping's restriction overrides, then drops restrictions the
+ *   channel does not declare in its capabilities
+ * - Classifies network, HTTP and channel error codes as retryable or not
+ *
+ * Subclasses provide the endpoint, payload format and response parsing.
+ */
+export abstract class HttpChannelProvider implements ChannelProvider {
+  abstract readonly providerType: string;
+  abstract readonly displayName: string;
+  abstract readonly capabilities: ChannelCapabilities;
+
+  protected abstract readonly logger: Logger;
+  protected readonly apiUrl: string;
+  protected readonly apiKey: string;
+
+  constructor(
+    protected readonly httpService: HttpService,
+    protected readonly configService: ConfigService,
+    envPrefix: string,
+    defaultApiUrl: string,
+  ) {
+    this.apiUrl = this.configService.get<string>(`${envPrefix}_API_URL`) || defaultApiUrl;
+    this.apiKey = this.configService.get<string>(`${envPrefix}_API_KEY`, '');
+  }
+
+  /**
+   * Push rates, inventory and restrictions to the channel
+   */
+  async pushAri(
+    rateInventoryData: any[],
+    channelConfig: ChannelConfig,
+    operation: SyncOperation,
+  ): Promise<ChannelSyncResult> {
+    const startTime = Date.now();
+    const result: ChannelSyncResult = {
+      success: true,
+      syncedCount: 0,
+      failedCount: 0,
+      errors: [],
+    };
+
+    this.logger.log(`Starting ${this.displayName} sync: ${operation} for ${rateInventoryData.length} records`);
+
+    const configError = this.validateConfig(channelConfig ?? {});
+    if (configError) {
+      rateInventoryData.forEach(record => this.fail(result, record.id, configError, false));
+      result.success = false;
+      return result;
+    }
+
+    // Records without a channel-side room or rate code cannot be sent
+    const mapped: MappedRecord[] = [];
+    rateInventoryData.forEach(record => {
+      const roomCode = this.mapCode(record.roomType?.code, channelConfig.roomTypeMappings);
+      const rateCode = this.mapCode(record.ratePlan?.code, channelConfig.ratePlanMappings);
+
+      if (!roomCode) {
+        this.fail(result, record.id, `Room type ${record.roomType?.code} is not mapped for ${this.displayName}`, false);
+      } else if (!rateCode) {
+        this.fail(result, record.id, `Rate plan ${record.ratePlan?.code} is not mapped for ${this.displayName}`, false);
+      } else {
+        const channelRecord = applyRestrictionOverrides(record, channelConfig.restrictionOverrides);
+        mapped.push({
+          record: this.toSupportedRecord(operation === 'DELETE' ? this.toClosedRecord(channelRecord) : channelRecord),
+          date: new Date(record.date).toISOString().split('T')[0],
+          roomCode,
+          rateCode,
+        });
+      }
+    });
+
+    const batchSize = this.capabilities.maxBatchSize;
+    for (let i = 0; i < mapped.length; i += batchSize) {
+      const batch = mapped.slice(i, i + batchSize);
+
+      try {
+        const errors = await this.sendBatch(batch, channelConfig, operation);
+        errors.forEach(error => this.fail(result, error.recordId, error.error, error.retryable));
+        result.syncedCount += batch.length - errors.length;
+      } catch (error) {
+        this.logger.error(`${this.displayName} batch failed: ${error.message}`);
+        batch.forEach(item => this.fail(
+          result,
+          item.record.id,
+          error instanceof ChannelApiError ? error.message : `API call failed: ${this.describeError(error)}`,
+          this.classifyError(error).retryable,
+        ));
+      }
+    }
+
+    result.success = result.failedCount === 0;
+
+    this.logger.log(
+      `${this.displayName} sync completed: ${result.syncedCount} success, ${result.failedCount} failed (${Date.now() - startTime}ms)`
+    );
+
+    return result;
+  }
+
+  /**
+   * Fetch reservations created, modified or cancelled since the given time
+   */
+  async pullReservations(channelConfig: ChannelConfig, since: Date): Promise<ChannelReservation[]> {
+    if (!this.capabilities.pullReservations) {
+      throw new ChannelApiError(`${this.displayName} does not support pulling reservations`, 'NOT_SUPPORTED', false);
+    }
+
+    const configError = this.validateConfig(channelConfig ?? {});
+    if (configError) {
+      throw new ChannelApiError(configError, 'NOT_CONFIGURED', false);
+    }
+
+    const reservations = await this.fetchReservations(channelConfig, since);
+    this.logger.log(`Pulled ${reservations.length} ${this.displayName} reservations since ${since.toISOString()}`);
+    return reservations;
+  }
+
+  /**
+   * Test connection to the channel API
+   */
+  async testConnection(channelConfig: ChannelConfig = {}): Promise<ConnectionTestResult> {
+    try {
+      await firstValueFrom(this.httpService.get(`${this.apiUrl}${this.healthPath()}`, {
+        ...this.requestConfig(channelConfig),
+        timeout: 10000,
+      }));
+
+      return {
+        success: true,
+        message: `${this.displayName} connection successful`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `${this.displayName} connection failed: ${this.describeError(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Classify an error raised while talking to the channel
+   *
+   * Network failures, timeouts, rate limiting and 5xx responses are transient;
+   * other 4xx responses mean the request itself was rejected.
+   */
+  classifyError(error: any): ChannelErrorClassification {
+    if (error instanceof ChannelApiError) {
+      return { retryable: error.retryable, code: error.code };
+    }
+
+    if (RETRYABLE_NETWORK_CODES.includes(error?.code)) {
+      return { retryable: true, code: error.code };
+    }
+
+    const status = error?.response?.status;
+    return {
+      retryable: status === 408 || status === 429 || status >= 500,
+      code: status ? `HTTP_${status}` : error?.code,
+    };
+  }
+
+  /**
+   * Send one batch and return the records the channel rejected
+   */
+  protected abstract sendBatch(
+    batch: MappedRecord[],
+    channelConfig: ChannelConfig,
+    operation: SyncOperation,
+  ): Promise<ChannelSyncError[]>;
+
+  /**
+   * Whether a channel-specific error code is transient
+   */
+  protected abstract isRetryableErrorCode(code: string): boolean;
+
+  /**
+   * Return a message when required configuration is missing
+   */
+  protected validateConfig(channelConfig: ChannelConfig): string | null {
+    return channelConfig.hotelId ? null : `${this.displayName} hotel ID not configured`;
+  }
+
+  /**
+   * Auth headers and defaults for requests to the channel
+   */
+  protected abstract requestConfig(channelConfig: ChannelConfig): AxiosRequestConfig;
+
+  /**
+   * Fetch reservations from the channel; required when capabilities.pullReservations is set
+   */
+  protected fetchReservations(_channelConfig: ChannelConfig, _since: Date): Promise<ChannelReservation[]> {
+    throw new ChannelApiError(`${this.displayName} reservation pull is not implemented`, 'NOT_SUPPORTED', false);
+  }
+
+  protected healthPath(): string {
+    return '/health';
+  }
+
+  protected async post<T = any>(path: string, body: any, channelConfig: ChannelConfig): Promise<T> {
+    const response = await firstValueFrom(
+      this.httpService.post(`${this.apiUrl}${path}`, body, this.requestConfig(channelConfig)),
+    );
+    return response.data;
+  }
+
+  protected async get<T = any>(path: string, params: Record<string, string>, channelConfig: ChannelConfig): Promise<T> {
+    const response = await firstValueFrom(
+      this.httpService.get(`${this.apiUrl}${path}`, { ...this.requestConfig(channelConfig), params }),
+    );
+    return response.data;
+  }
+
+  protected rateAmount(record: any): number | null {
+    return record.rate === null || record.rate === undefined ? null : parseFloat(record.rate.toString());
+  }
+
+  protected generateRequestId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Private helper methods
+
+  /**
+   * Explicit mapping wins; without a mapping table the internal code is sent as-is
+   */
+  private mapCode(internalCode: string | undefined, mapping?: Record<string, string>): string | null {
+    if (!internalCode) {
+      return null;
+    }
+
+    if (!mapping || !Object.keys(mapping).length) {
+      return internalCode;
+    }
+
+    return mapping[internalCode] ?? null;
+  }
+
+  private toClosedRecord(record: any): any {
+    return { ...record, inventory: 0, stopSell: true };
+  }
+
+  /**
+   * Clear restrictions the channel cannot receive so they are not sent
+   */
+  private toSupportedRecord(record: any): any {
+    const supported = { ...record };
+
+    (Object.keys(RESTRICTION_COLUMNS) as ChannelRestriction[]).forEach(restriction => {
+      if (!this.capabilities.restrictions.includes(restriction)) {
+        supported[RESTRICTION_COLUMNS[restriction]] = clearedRestriction(restriction);
+      }
+    });
+
+    return supported;
+  }
+
+  private fail(result: ChannelSyncResult, recordId: string, error: string, retryable: boolean): void {
+    result.errors.push({ recordId, error, retryable });
+    result.failedCount++;
+  }
+
+  private describeError(error: any): string {
+    const status = error?.response?.status;
+    return status ? `${error.message} (HTTP ${status})` : error.message;
+  }
+}
@@ -1 +1,182 @@
- 
\ No newline at end of file
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { AxiosRequestConfig } from 'axios';
+import { HttpChannelProvider, ChannelApiError, MappedRecord } from './http-channel.provider';
+import {
+  ChannelCapabilities,
+  ChannelConfig,
+  ChannelReservation,
+  ChannelReservationStatus,
+  ChannelSyncError,
+  SyncOperation,
+} from '../interfaces/channel-provider.interface';
+
+interface RateGainUpdateResult {
+  ref: string;
+  status: 'OK' | 'ERROR';
+  errorCode?: string;
+  message?: string;
+}
+
+interface RateGainReservation {
+  id: string;
+  status: 'NEW' | 'MODIFIED' | 'CANCELLED';
+  guest?: { firstName?: string; lastName?: string };
+  checkIn: string;
+  checkOut: string;
+  roomCode: string;
+  rateCode: string;
+  rooms?: number;
+  total?: { amount: number; currency: string };
+  createdAt: string;
+}
+
+const RESERVATION_STATUS: Record<RateGainReservation['status'], ChannelReservationStatus> = {
+  NEW: 'CONFIRMED',
+  MODIFIED: 'MODIFIED',
+  CANCELLED: 'CANCELLED',
+};
+
+const RETRYABLE_ERROR_CODES = ['THROTTLED', 'SERVICE_UNAVAILABLE', 'RESOURCE_LOCKED', 'TIMEOUT'];
+
+/**
+ * RateGain Channel Manager Provider
+ *
+ * Pushes ARI (availability, rates, inventory) to RateGain's channel manager,
+ * which distributes it to the connected OTAs:
+ * - JSON batches of room/rate/date updates
+ * - Per-update results matched back to records by reference
+ * - Reservation feed polled by modification time
+ * - Property API key from the channel mapping, falling back to the platform key
+ */
+@Injectable()
+export class RateGainProvider extends HttpChannelProvider {
+  readonly providerType = 'RATEGAIN';
+  readonly displayName = 'RateGain';
+  readonly capabilities: ChannelCapabilities = {
+    pushRates: true,
+    pushInventory: true,
+    restrictions: [
+      'minStay',
+      'maxStay',
+      'minStayThrough',
+      'maxStayThrough',
+      'minAdvanceBookingDays',
+      'maxAdvanceBookingDays',
+      'closedToArrival',
+      'closedToDeparture',
+      'stopSell',
+    ],
+    pullReservations: true,
+    maxBatchSize: 200,
+  };
+
+  protected readonly logger = new Logger(RateGainProvider.name);
+
+  constructor(httpService: HttpService, configService: ConfigService) {
+    super(httpService, configService, 'RATEGAIN', 'https://api.rategain.com/channel-manager/v1');
+  }
+
+  protected validateConfig(channelConfig: ChannelConfig): string | null {
+    if (!channelConfig.apiKey && !this.apiKey) {
+      return 'RateGain API key not configured';
+    }
+    return super.validateConfig(channelConfig);
+  }
+
+  protected requestConfig(channelConfig: ChannelConfig): AxiosRequestConfig {
+    return {
+      headers: {
+        'X-Api-Key': channelConfig.apiKey || this.apiKey,
+        'Content-Type': 'application/json',
+        'X-Request-ID': this.generateRequestId('rg'),
+      },
+      timeout: 30000,
+    };
+  }
+
+  protected async sendBatch(
+    batch: MappedRecord[],
+    channelConfig: ChannelConfig,
+    operation: SyncOperation,
+  ): Promise<ChannelSyncError[]> {
+    const response = await this.post(
+      `/properties/${encodeURIComponent(channelConfig.hotelId)}/ari`,
+      {
+        operation,
+        currency: channelConfig.currency || 'USD',
+        updates: batch.map(item => this.toRateGainUpdate(item)),
+      },
+      channelConfig,
+    );
+
+    if (response?.status === 'ERROR' && !response.results?.length) {
+      const code = response.errorCode ?? 'UNKNOWN';
+      throw new ChannelApiError(`RateGain error: ${response.message} (Code: ${code})`, code, this.isRetryableErrorCode(code));
+    }
+
+    const results: RateGainUpdateResult[] = response?.results ?? [];
+    return results
+      .filter(result => result.status === 'ERROR' && batch.some(item => item.record.id === result.ref))
+      .map(result => ({
+        recordId: result.ref,
+        error: `RateGain error: ${result.message} (Code: ${result.errorCode})`,
+        retryable: this.isRetryableErrorCode(result.errorCode),
+      }));
+  }
+
+  protected async fetchReservations(channelConfig: ChannelConfig, since: Date): Promise<ChannelReservation[]> {
+    const response = await this.get(
+      `/properties/${encodeURIComponent(channelConfig.hotelId)}/reservations`,
+      { modifiedSince: since.toISOString() },
+      channelConfig,
+    );
+
+    const reservations: RateGainReservation[] = response?.reservations ?? [];
+    return reservations.map(reservation => ({
+      channelReservationId: reservation.id,
+      status: RESERVATION_STATUS[reservation.status] ?? 'CONFIRMED',
+      guestName: [reservation.guest?.firstName, reservation.guest?.lastName].filter(Boolean).join(' ') || undefined,
+      arrivalDate: reservation.checkIn,
+      departureDate: reservation.checkOut,
+      roomCode: reservation.roomCode,
+      rateCode: reservation.rateCode,
+      rooms: reservation.rooms ?? 1,
+      totalAmount: reservation.total?.amount ?? 0,
+      currency: reservation.total?.currency ?? channelConfig.currency ?? 'USD',
+      bookedAt: reservation.createdAt,
+    }));
+  }
+
+  protected isRetryableErrorCode(code: string): boolean {
+    return RETRYABLE_ERROR_CODES.includes(code);
+  }
+
+  // Private helper methods
+
+  /**
+   * Transform a record to a RateGain ARI update
+   */
+  private toRateGainUpdate({ record, date, roomCode, rateCode }: MappedRecord) {
+    return {
+      ref: record.id,
+      roomCode,
+      rateCode,
+      date,
+      rate: this.rateAmount(record),
+      inventory: record.inventory,
+      restrictions: {
+        minLos: record.minLos ?? null,
+        maxLos: record.maxLos ?? null,
+        minLosThrough: record.minLosThrough ?? null,
+        maxLosThrough: record.maxLosThrough ?? null,
+        minAdvanceDays: record.minAdvanceDays ?? null,
+        maxAdvanceDays: record.maxAdvanceDays ?? null,
+        closedToArrival: !!record.cta,
+        closedToDeparture: !!record.ctd,
+        stopSell: !!record.stopSell,
+      },
+    };
+  }
+}
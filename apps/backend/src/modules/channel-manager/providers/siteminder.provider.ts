@@ -2,17 +2,17 @@ import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
 import { firstValueFrom } from 'rxjs';
-
-export interface ChannelSyncResult {
-  success: boolean;
-  syncedCount: number;
-  failedCount: number;
-  errors: Array<{
-    recordId: string;
-    error: string;
-    retryable: boolean;
-  }>;
-}
+import { ChannelApiError, applyRestrictionOverrides } from './http-channel.provider';
+import {
+  ChannelCapabilities,
+  ChannelConfig,
+  ChannelErrorClassification,
+  ChannelProvider,
+  ChannelReservation,
+  ChannelSyncResult,
+  ConnectionTestResult,
+  SyncOperation,
+} from '../interfaces/channel-provider.interface';
 
 /**
  * SiteMinder Channel Manager Provider
@@ -25,7 +25,27 @@ export interface ChannelSyncResult {
  * - Comprehensive error handling and retry logic
  */
 @Injectable()
-export class SiteminderProvider {
+export class SiteminderProvider implements ChannelProvider {
+  readonly providerType = 'SITEMINDER';
+  readonly displayName = 'SiteMinder';
+  readonly capabilities: ChannelCapabilities = {
+    pushRates: true,
+    pushInventory: true,
+    restrictions: [
+      'minStay',
+      'maxStay',
+      'minStayThrough',
+      'maxStayThrough',
+      'minAdvanceBookingDays',
+      'maxAdvanceBookingDays',
+      'closedToArrival',
+      'closedToDeparture',
+      'stopSell',
+    ],
+    pullReservations: false,
+    maxBatchSize: 1000,
+  };
+
   private readonly logger = new Logger(SiteminderProvider.name);
   private readonly apiUrl: string;
   private readonly apiKey: string;
@@ -39,12 +59,12 @@ export class SiteminderProvider {
   }
 
   /**
-   * Sync rates and inventory to SiteMinder
+   * Push rates, inventory and restrictions to SiteMinder
    */
-  async syncRatesInventory(
+  async pushAri(
     rateInventoryData: any[],
-    channelConfig: any,
-    operation: 'CREATE' | 'UPDATE' | 'DELETE',
+    channelConfig: ChannelConfig,
+    operation: SyncOperation,
   ): Promise<ChannelSyncResult> {
     const startTime = Date.now();
     const result: ChannelSyncResult = {
@@ -63,7 +83,9 @@ export class SiteminderProvider {
       }
 
       // Group records by date for SiteMinder's bulk update format
-      const groupedByDate = this.groupRecordsByDate(rateInventoryData);
+      const groupedByDate = this.groupRecordsByDate(
+        rateInventoryData.map(record => applyRestrictionOverrides(record, channelConfig.restrictionOverrides)),
+      );
 
       for (const [date, records] of Object.entries(groupedByDate)) {
         try {
@@ -114,13 +136,35 @@ export class SiteminderProvider {
     }
   }
 
+  /**
+   * SiteMinder delivers reservations by push, so there is nothing to pull
+   */
+  async pullReservations(_channelConfig: ChannelConfig, _since: Date): Promise<ChannelReservation[]> {
+    throw new ChannelApiError('SiteMinder does not support pulling reservations', 'NOT_SUPPORTED', false);
+  }
+
+  /**
+   * Classify an error raised while talking to SiteMinder
+   */
+  classifyError(error: any): ChannelErrorClassification {
+    if (error instanceof ChannelApiError) {
+      return { retryable: error.retryable, code: error.code };
+    }
+
+    const status = error?.response?.status;
+    return {
+      retryable: this.isRetryableError(error),
+      code: status ? `HTTP_${status}` : error?.code,
+    };
+  }
+
   /**
    * Sync records for a specific date
    */
   private async syncDateRecords(
     date: string,
     records: any[],
-    channelConfig: any,
+    channelConfig: ChannelConfig,
     operation: string,
   ): Promise<ChannelSyncResult> {
     const result: ChannelSyncResult = {
@@ -197,16 +241,16 @@ export class SiteminderProvider {
   /**
    * Transform internal data format to SiteMinder API format
    */
-  private transformToSiteminderFormat(records: any[], channelConfig: any, date: string): any {
+  private transformToSiteminderFormat(records: any[], channelConfig: ChannelConfig, date: string): any {
     const roomTypes = this.groupRecordsByRoomType(records);
     
     return {
       date: date,
       currency: channelConfig.currency || 'USD',
       roomTypes: Object.entries(roomTypes).map(([roomTypeCode, roomRecords]) => ({
-        roomTypeCode: this.mapRoomType(roomTypeCode, channelConfig.roomTypeMapping),
+        roomTypeCode: this.mapRoomType(roomTypeCode, channelConfig.roomTypeMappings),
         ratePlans: (roomRecords as any[]).map(record => ({
-          ratePlanCode: this.mapRatePlan(record.ratePlan.code, channelConfig.ratePlanMapping),
+          ratePlanCode: this.mapRatePlan(record.ratePlan.code, channelConfig.ratePlanMappings),
           rate: record.rate ? {
             amount: parseFloat(record.rate.toString()),
             currency: channelConfig.currency || 'USD',
@@ -215,6 +259,10 @@ export class SiteminderProvider {
           restrictions: {
             minimumStay: record.minLos,
             maximumStay: record.maxLos,
+            minimumStayThrough: record.minLosThrough,
+            maximumStayThrough: record.maxLosThrough,
+            minimumAdvanceBookingDays: record.minAdvanceDays,
+            maximumAdvanceBookingDays: record.maxAdvanceDays,
             closedToArrival: record.cta,
             closedToDeparture: record.ctd,
             stopSell: record.stopSell,
@@ -265,15 +313,15 @@ export class SiteminderProvider {
   /**
    * Map internal room type to SiteMinder room type
    */
-  private mapRoomType(internalCode: string, mapping: any): string {
-    return mapping[internalCode] || internalCode;
+  private mapRoomType(internalCode: string, mapping?: Record<string, string>): string {
+    return mapping?.[internalCode] || internalCode;
   }
 
   /**
    * Map internal rate plan to SiteMinder rate plan
    */
-  private mapRatePlan(internalCode: string, mapping: any): string {
-    return mapping[internalCode] || internalCode;
+  private mapRatePlan(internalCode: string, mapping?: Record<string, string>): string {
+    return mapping?.[internalCode] || internalCode;
   }
 
   /**
@@ -322,7 +370,7 @@ export class SiteminderProvider {
   /**
    * Test connection to SiteMinder API
    */
-  async testConnection(): Promise<{ success: boolean; message: string }> {
+  async testConnection(): Promise<ConnectionTestResult> {
     try {
       const response = await firstValueFrom(
         this.httpService.get(`${this.apiUrl}/health`, {
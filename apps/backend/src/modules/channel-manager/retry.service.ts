@@ -0,0 +1,105 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { ChannelProviderRegistry } from './channel-provider.registry';
+import { RetryJobData, SyncService } from './sync.service';
+
+export type RetryOutcome = 'SUCCESS' | 'FAILED' | 'SKIPPED';
+
+/**
+ * Channel Sync Retry Service
+ *
+ * Re-sends single records whose sync failed with a retryable error:
+ * - Pushes the record with the provider its channel declares
+ * - Throws while retryable attempts remain so Bull backs off and retries
+ * - Marks the record failed once the channel rejects it for good
+ * - Moves recovered records from failed to successful on the sync log
+ */
+@Injectable()
+export class RetryService {
+  private readonly logger = new Logger(RetryService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly providerRegistry: ChannelProviderRegistry,
+    private readonly syncService: SyncService,
+  ) {}
+
+  /**
+   * Retry one record (called by queue processor)
+   */
+  async processRetryJob(data: RetryJobData, attempt: number, maxAttempts: number): Promise<RetryOutcome> {
+    const { originalSyncId, recordId, request } = data;
+
+    const record = await this.databaseService.rateInventory.findFirst({
+      where: { id: recordId, propertyId: request.propertyId },
+      include: {
+        roomType: true,
+        ratePlan: true,
+        channel: true,
+      },
+    });
+
+    if (!record) {
+      this.logger.warn(`Skipping retry of ${recordId} for sync ${originalSyncId}: record no longer exists`);
+      return 'SKIPPED';
+    }
+
+    const channelConfig = await this.syncService.getChannelConfig(request.propertyId, request.channelId);
+    const provider = this.providerRegistry.get(record.channel.providerType);
+    const result = await provider.pushAri([record], channelConfig, request.operation);
+    const error = result.errors.find(e => e.recordId === recordId);
+
+    if (!error) {
+      await this.markRecovered(originalSyncId, recordId);
+      this.logger.log(`Retry ${attempt}/${maxAttempts} of ${recordId} for sync ${originalSyncId} succeeded`);
+      return 'SUCCESS';
+    }
+
+    if (error.retryable && attempt < maxAttempts) {
+      // Let Bull schedule the next attempt with backoff
+      throw new Error(error.error);
+    }
+
+    await this.databaseService.rateInventory.update({
+      where: { id: recordId },
+      data: {
+        syncStatus: 'FAILED',
+        lastSyncAt: new Date(),
+        syncError: error.error,
+      },
+    });
+
+    this.logger.warn(`Giving up on ${recordId} for sync ${originalSyncId} after ${attempt} attempts: ${error.error}`);
+    return 'FAILED';
+  }
+
+  // Private helper methods
+
+  private async markRecovered(syncId: string, recordId: string): Promise<void> {
+    await this.databaseService.rateInventory.update({
+      where: { id: recordId },
+      data: {
+        syncStatus: 'SUCCESS',
+        lastSyncAt: new Date(),
+        syncError: null,
+      },
+    });
+
+    const syncLog = await this.databaseService.channelSyncLog.update({
+      where: { id: syncId },
+      data: {
+        successCount: { increment: 1 },
+        failedCount: { decrement: 1 },
+        retriedCount: { increment: 1 },
+      },
+    });
+
+    if (syncLog.failedCount === 0) {
+      await this.databaseService.channelSyncLog.update({
+        where: { id: syncId },
+        data: { status: 'SUCCESS', errorMessage: null },
+      });
+    }
+  }
+}
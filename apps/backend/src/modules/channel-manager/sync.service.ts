@@ -7,11 +7,9 @@ import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
 
 import { DatabaseService } from '../database/database.service';
-import { RateGainProvider } from './providers/rategain.provider';
-import { SiteminderProvider } from './providers/siteminder.provider';
-import { DerbysoftProvider } from './providers/derbysoft.provider';
-import { BookingComProvider } from './providers/booking-com.provider';
-import { ExpediaProvider } from './providers/expedia.provider';
+import { BusinessDatesService } from '../business-dates/business-dates.service';
+import { ChannelProviderRegistry } from './channel-provider.registry';
+import { ChannelConfig, ChannelSyncResult } from './interfaces/channel-provider.interface';
 
 export interface SyncRequest {
   propertyId: string;
@@ -34,6 +32,33 @@ export interface SyncResult {
   syncId: string;
 }
 
+/**
+ * Changed rate inventory record to push to its channel
+ */
+export interface SyncRecord {
+  id: string;
+  channelId: string | null;
+}
+
+export interface SyncJobData {
+  syncId: string;
+  request: SyncRequest;
+}
+
+export interface RetryJobData {
+  originalSyncId: string;
+  recordId: string;
+  request: SyncRequest;
+}
+
+export interface SyncStatusFilter {
+  channelId?: string;
+  status?: string;
+  limit?: number;
+}
+
+const RETRY_ATTEMPTS = 3;
+
 /**
  * Channel Manager Sync Service
  * 
@@ -52,11 +77,8 @@ export class SyncService {
     private readonly databaseService: DatabaseService,
     @InjectQueue('channel-sync') private readonly syncQueue: Queue,
     @InjectQueue('channel-retry') private readonly retryQueue: Queue,
-    private readonly rateGainProvider: RateGainProvider,
-    private readonly siteminderProvider: SiteminderProvider,
-    private readonly derbysoftProvider: DerbysoftProvider,
-    private readonly bookingComProvider: BookingComProvider,
-    private readonly expediaProvider: ExpediaProvider,
+    private readonly providerRegistry: ChannelProviderRegistry,
+    private readonly businessDatesService: BusinessDatesService,
   ) {}
 
   /**
@@ -69,16 +91,22 @@ export class SyncService {
       // Validate request
       await this.validateSyncRequest(request);
 
-      // Get channel configuration
       const channel = await this.databaseService.channel.findUnique({
         where: { id: request.channelId },
-        include: { configuration: true },
       });
 
       if (!channel || !channel.isActive) {
         throw new BadRequestException('Channel not found or inactive');
       }
 
+      if (!this.providerRegistry.has(channel.providerType)) {
+        throw new BadRequestException(`No channel provider registered for ${channel.providerType}`);
+      }
+
+      // Fail fast when the property is not mapped; the processor reloads the
+      // configuration so credentials are never stored in Redis
+      await this.getChannelConfig(request.propertyId, request.channelId);
+
       // Create sync log entry
       const syncLog = await this.databaseService.channelSyncLog.create({
         data: {
@@ -98,11 +126,7 @@ export class SyncService {
       
       await this.syncQueue.add(
         'sync-rates-inventory',
-        {
-          syncId,
-          request,
-          channelConfig: channel.configuration,
-        },
+        { syncId, request } as SyncJobData,
         {
           priority,
           delay: 0,
@@ -123,8 +147,8 @@ export class SyncService {
     } catch (error) {
       this.logger.error(`Failed to queue sync job: ${error.message}`, error.stack);
       
-      // Update sync log with error
-      await this.databaseService.channelSyncLog.update({
+      // Update sync log with error (none exists when validation failed)
+      await this.databaseService.channelSyncLog.updateMany({
         where: { id: syncId },
         data: {
           status: 'FAILED',
@@ -137,14 +161,47 @@ export class SyncService {
     }
   }
 
+  /**
+   * Queue a high priority update sync per channel for records changed outside
+   * the grid (suggestions, rules, autonomous actions, approved change requests)
+   *
+   * The change stands when a sync cannot be queued; the channel's records are
+   * marked failed instead.
+   */
+  async syncRecords(propertyId: string, records: SyncRecord[], userId: string): Promise<void> {
+    const idsByChannel = new Map<string, string[]>();
+    for (const record of records.filter(record => record.channelId)) {
+      idsByChannel.set(record.channelId, [...(idsByChannel.get(record.channelId) ?? []), record.id]);
+    }
+
+    for (const [channelId, rateInventoryIds] of idsByChannel) {
+      try {
+        await this.syncRatesInventory({
+          propertyId,
+          channelId,
+          rateInventoryIds,
+          operation: 'UPDATE',
+          priority: 'HIGH',
+          userId,
+        });
+      } catch (error) {
+        this.logger.warn(`Could not queue sync for channel ${channelId}: ${error.message}`);
+
+        await this.databaseService.rateInventory.updateMany({
+          where: { id: { in: rateInventoryIds } },
+          data: { syncStatus: 'FAILED', syncError: error.message },
+        });
+      }
+    }
+  }
+
   /**
    * Process sync job (called by queue processor)
+   *
+   * When the last attempt fails as a whole, the records still waiting on it
+   * are marked failed with the error.
    */
-  async processSyncJob(
-    syncId: string,
-    request: SyncRequest,
-    channelConfig: any,
-  ): Promise<void> {
+  async processSyncJob(syncId: string, request: SyncRequest, attempt = 1, maxAttempts = 1): Promise<void> {
     const startTime = Date.now();
     
     try {
@@ -156,11 +213,13 @@ export class SyncService {
         data: { status: 'IN_PROGRESS' },
       });
 
-      // Get rate inventory data
+      // Get rate inventory data; dates before the hotel's business date are no longer sellable
+      const businessDate = await this.businessDatesService.today(request.propertyId);
       const rateInventoryData = await this.databaseService.rateInventory.findMany({
         where: {
           id: { in: request.rateInventoryIds },
           propertyId: request.propertyId,
+          date: { gte: businessDate },
         },
         include: {
           roomType: true,
@@ -170,14 +229,34 @@ export class SyncService {
       });
 
       if (rateInventoryData.length === 0) {
-        throw new Error('No rate inventory data found');
+        const requestedCount = await this.databaseService.rateInventory.count({
+          where: { id: { in: request.rateInventoryIds }, propertyId: request.propertyId },
+        });
+        if (requestedCount === 0) {
+          throw new Error('No rate inventory data found');
+        }
+
+        // Every date rolled into the past while the batch was queued
+        this.logger.log(`Sync job ${syncId} skipped: all ${requestedCount} records are before the business date`);
+        await this.databaseService.channelSyncLog.update({
+          where: { id: syncId },
+          data: {
+            status: 'CANCELLED',
+            errorMessage: 'All records are before the property business date',
+            completedAt: new Date(),
+            duration: Date.now() - startTime,
+          },
+        });
+        return;
       }
 
-      // Get appropriate provider
-      const provider = this.getProvider(rateInventoryData[0].channel.type);
+      const channelConfig = await this.getChannelConfig(request.propertyId, request.channelId);
+
+      // Get the provider the channel declares
+      const provider = this.providerRegistry.get(rateInventoryData[0].channel.providerType);
       
       // Sync data to external system
-      const result = await provider.syncRatesInventory(
+      const result = await provider.pushAri(
         rateInventoryData,
         channelConfig,
         request.operation,
@@ -186,11 +265,13 @@ export class SyncService {
       // Update individual record sync status
       await this.updateRecordSyncStatus(rateInventoryData, result);
 
+      await this.updateChannelMappingStatus(request, result);
+
       // Update sync log with results
       await this.databaseService.channelSyncLog.update({
         where: { id: syncId },
         data: {
-          status: result.success ? 'SUCCESS' : 'PARTIAL_SUCCESS',
+          status: result.success ? 'SUCCESS' : result.syncedCount > 0 ? 'PARTIAL_SUCCESS' : 'FAILED',
           successCount: result.syncedCount,
           failedCount: result.failedCount,
           errorMessage: result.errors.length > 0 ? JSON.stringify(result.errors) : null,
@@ -222,34 +303,76 @@ export class SyncService {
         },
       });
 
+      if (attempt >= maxAttempts) {
+        await this.databaseService.rateInventory.updateMany({
+          where: {
+            id: { in: request.rateInventoryIds },
+            propertyId: request.propertyId,
+            syncStatus: 'PENDING',
+          },
+          data: { syncStatus: 'FAILED', syncError: error.message },
+        });
+      }
+
       throw error;
     }
   }
 
+  /**
+   * Build the provider configuration from the property's channel mapping
+   */
+  async getChannelConfig(propertyId: string, channelId: string): Promise<ChannelConfig> {
+    const mapping = await this.databaseService.channelMapping.findUnique({
+      where: { propertyId_channelId: { propertyId, channelId } },
+      include: { property: true },
+    });
+
+    if (!mapping || !mapping.syncEnabled) {
+      throw new BadRequestException('Channel is not mapped or sync is disabled for this property');
+    }
+
+    return {
+      hotelId: mapping.hotelId ?? undefined,
+      apiKey: mapping.apiKey ?? undefined,
+      apiSecret: mapping.apiSecret ?? undefined,
+      username: mapping.username ?? undefined,
+      password: mapping.password ?? undefined,
+      roomTypeMappings: mapping.roomTypeMappings ?? {},
+      ratePlanMappings: mapping.ratePlanMappings ?? {},
+      restrictionOverrides: mapping.restrictionOverrides ?? undefined,
+      currency: mapping.property?.currency,
+    };
+  }
+
   /**
    * Get sync status for a property
    */
-  async getSyncStatus(propertyId: string, channelId?: string) {
+  async getSyncStatus(propertyId: string, filter: SyncStatusFilter = {}) {
     const where: any = { propertyId };
-    if (channelId) {
-      where.channelId = channelId;
+    if (filter.channelId) {
+      where.channelId = filter.channelId;
+    }
+    if (filter.status) {
+      where.status = filter.status;
     }
 
     const syncLogs = await this.databaseService.channelSyncLog.findMany({
       where,
       include: { channel: true },
       orderBy: { startedAt: 'desc' },
-      take: 50,
+      take: filter.limit ?? 50,
     });
 
     return syncLogs.map(log => ({
       id: log.id,
+      channelId: log.channelId,
       channel: log.channel.name,
       status: log.status,
       operation: log.operation,
       totalRecords: log.totalRecords,
       successCount: log.successCount,
       failedCount: log.failedCount,
+      retriedCount: log.retriedCount,
       startedAt: log.startedAt,
       completedAt: log.completedAt,
       duration: log.duration,
@@ -261,13 +384,11 @@ export class SyncService {
    * Cancel pending sync jobs
    */
   async cancelSyncJobs(propertyId: string, channelId?: string) {
+    const matches = (data: SyncJobData | RetryJobData) =>
+      data.request.propertyId === propertyId && (!channelId || data.request.channelId === channelId);
+
     const jobs = await this.syncQueue.getJobs(['waiting', 'delayed']);
-    
-    const jobsToCancel = jobs.filter(job => {
-      const data = job.data;
-      return data.request.propertyId === propertyId &&
-        (!channelId || data.request.channelId === channelId);
-    });
+    const jobsToCancel = jobs.filter(job => matches(job.data));
 
     for (const job of jobsToCancel) {
       await job.remove();
@@ -282,34 +403,24 @@ export class SyncService {
       });
     }
 
-    return { cancelledCount: jobsToCancel.length };
+    // Pending retries of the same property and channel would push stale data
+    const retryJobs = await this.retryQueue.getJobs(['waiting', 'delayed']);
+    const retriesToCancel = retryJobs.filter(job => matches(job.data));
+    await Promise.all(retriesToCancel.map(job => job.remove()));
+
+    return { cancelledCount: jobsToCancel.length, cancelledRetries: retriesToCancel.length };
   }
 
   /**
    * Get queue statistics
    */
   async getQueueStats() {
-    const [waiting, active, completed, failed] = await Promise.all([
-      this.syncQueue.getWaiting(),
-      this.syncQueue.getActive(),
-      this.syncQueue.getCompleted(),
-      this.syncQueue.getFailed(),
+    const [sync, retry] = await Promise.all([
+      this.syncQueue.getJobCounts(),
+      this.retryQueue.getJobCounts(),
     ]);
 
-    return {
-      sync: {
-        waiting: waiting.length,
-        active: active.length,
-        completed: completed.length,
-        failed: failed.length,
-      },
-      retry: {
-        waiting: (await this.retryQueue.getWaiting()).length,
-        active: (await this.retryQueue.getActive()).length,
-        completed: (await this.retryQueue.getCompleted()).length,
-        failed: (await this.retryQueue.getFailed()).length,
-      },
-    };
+    return { sync, retry };
   }
 
   // Private helper methods
@@ -333,23 +444,6 @@ export class SyncService {
     }
   }
 
-  private getProvider(channelType: string) {
-    switch (channelType) {
-      case 'RATEGAIN':
-        return this.rateGainProvider;
-      case 'SITEMINDER':
-        return this.siteminderProvider;
-      case 'DERBYSOFT':
-        return this.derbysoftProvider;
-      case 'BOOKING_COM':
-        return this.bookingComProvider;
-      case 'EXPEDIA':
-        return this.expediaProvider;
-      default:
-        throw new Error(`Unsupported channel type: ${channelType}`);
-    }
-  }
-
   private getPriority(priority?: string): number {
     switch (priority) {
       case 'HIGH':
@@ -363,7 +457,7 @@ export class SyncService {
     }
   }
 
-  private async updateRecordSyncStatus(rateInventoryData: any[], result: SyncResult) {
+  private async updateRecordSyncStatus(rateInventoryData: any[], result: ChannelSyncResult) {
     const updates = rateInventoryData.map(record => {
       const error = result.errors.find(e => e.recordId === record.id);
       
@@ -380,28 +474,38 @@ export class SyncService {
     await Promise.all(updates);
   }
 
-  private async queueRetryJobs(syncId: string, errors: any[], request: SyncRequest) {
+  private async updateChannelMappingStatus(request: SyncRequest, result: ChannelSyncResult) {
+    await this.databaseService.channelMapping.updateMany({
+      where: { propertyId: request.propertyId, channelId: request.channelId },
+      data: {
+        lastSyncAt: new Date(),
+        syncStatus: result.success ? 'SUCCESS' : 'FAILED',
+        syncError: result.errors[0]?.error ?? null,
+      },
+    });
+  }
+
+  private async queueRetryJobs(syncId: string, errors: ChannelSyncResult['errors'], request: SyncRequest) {
     const retryableErrors = errors.filter(e => e.retryable);
     
     if (retryableErrors.length === 0) return;
 
     for (const error of retryableErrors) {
-      await this.retryQueue.add(
-        'retry-sync',
-        {
-          originalSyncId: syncId,
-          recordId: error.recordId,
-          request: {
-            ...request,
-            rateInventoryIds: [error.recordId],
-          },
-          retryCount: 1,
+      const data: RetryJobData = {
+        originalSyncId: syncId,
+        recordId: error.recordId,
+        request: {
+          ...request,
+          rateInventoryIds: [error.recordId],
         },
-        {
-          delay: 5000, // 5 second delay
-          attempts: 3,
-        }
-      );
+      };
+
+      await this.retryQueue.add('retry-sync', data, {
+        jobId: `${syncId}_${error.recordId}`,
+        delay: 5000, // 5 second delay
+        attempts: RETRY_ATTEMPTS,
+        backoff: { type: 'exponential', delay: 5000 },
+      });
     }
   }
 } 
\ No newline at end of file
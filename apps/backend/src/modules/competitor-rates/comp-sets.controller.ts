@@ -0,0 +1,141 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { CompSetsService } from './comp-sets.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { UserRole } from '../auth/enums/user-role.enum';
+import {
+  CompSetMarketQueryDto,
+  CreateCompSetDto,
+  CreateCompetitorDto,
+  UpdateCompSetDto,
+  UpdateCompetitorDto,
+} from './dto/competitor-rates.dto';
+
+/**
+ * Comp Sets Controller
+ *
+ * REST API endpoints for competitive set management:
+ * - Competitor properties and their room category mapping
+ * - Primary and aspirational comp sets with member weights
+ * - Weighted market averages of a comp set
+ */
+@ApiTags('comp-sets')
+@Controller('properties/:propertyId')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class CompSetsController {
+  constructor(private readonly compSetsService: CompSetsService) {}
+
+  @Get('competitors')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'List competitor properties' })
+  @ApiResponse({ status: 200, description: 'Competitors retrieved successfully' })
+  async getCompetitors(@Param('propertyId') propertyId: string) {
+    return this.compSetsService.findCompetitors(propertyId);
+  }
+
+  @Post('competitors')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Add a competitor property' })
+  @ApiResponse({ status: 201, description: 'Competitor created successfully' })
+  @ApiResponse({ status: 409, description: 'Competitor code already exists' })
+  async createCompetitor(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: CreateCompetitorDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.compSetsService.createCompetitor(propertyId, dto, user.id);
+  }
+
+  /**
+   * Update a competitor, including its room category mapping
+   */
+  @Put('competitors/:competitorId')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Update a competitor property' })
+  @ApiResponse({ status: 200, description: 'Competitor updated successfully' })
+  async updateCompetitor(
+    @Param('propertyId') propertyId: string,
+    @Param('competitorId') competitorId: string,
+    @Body() dto: UpdateCompetitorDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.compSetsService.updateCompetitor(propertyId, competitorId, dto, user.id);
+  }
+
+  @Get('comp-sets')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'List comp sets' })
+  @ApiResponse({ status: 200, description: 'Comp sets retrieved successfully' })
+  async getCompSets(@Param('propertyId') propertyId: string) {
+    return this.compSetsService.findCompSets(propertyId);
+  }
+
+  @Post('comp-sets')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Create a comp set' })
+  @ApiResponse({ status: 201, description: 'Comp set created successfully' })
+  @ApiResponse({ status: 409, description: 'Name taken, or the property already has a primary comp set' })
+  async createCompSet(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: CreateCompSetDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.compSetsService.createCompSet(propertyId, dto, user.id);
+  }
+
+  @Put('comp-sets/:compSetId')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Update a comp set' })
+  @ApiResponse({ status: 200, description: 'Comp set updated successfully' })
+  async updateCompSet(
+    @Param('propertyId') propertyId: string,
+    @Param('compSetId') compSetId: string,
+    @Body() dto: UpdateCompSetDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.compSetsService.updateCompSet(propertyId, compSetId, dto, user.id);
+  }
+
+  @Delete('comp-sets/:compSetId')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Delete a comp set' })
+  @ApiResponse({ status: 200, description: 'Comp set deleted successfully' })
+  async removeCompSet(
+    @Param('propertyId') propertyId: string,
+    @Param('compSetId') compSetId: string,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.compSetsService.removeCompSet(propertyId, compSetId, user.id);
+  }
+
+  /**
+   * Weighted market average per stay date and room type
+   */
+  @Get('comp-sets/:compSetId/market')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get the weighted market of a comp set' })
+  @ApiResponse({ status: 200, description: 'Comp set market retrieved successfully' })
+  async getMarket(
+    @Param('propertyId') propertyId: string,
+    @Param('compSetId') compSetId: string,
+    @Query() query: CompSetMarketQueryDto,
+  ) {
+    return this.compSetsService.getMarket(propertyId, compSetId, query);
+  }
+}
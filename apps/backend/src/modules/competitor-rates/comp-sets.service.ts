@@ -0,0 +1,443 @@
+import { Injectable, Logger, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { ConvertedRate, FxRatesService } from '../currency/fx-rates.service';
+import {
+  CompSetMarketQueryDto,
+  CompSetMemberDto,
+  CompSetType,
+  CompetitorAvailability,
+  CreateCompSetDto,
+  CreateCompetitorDto,
+  UpdateCompSetDto,
+  UpdateCompetitorDto,
+} from './dto/competitor-rates.dto';
+
+/**
+ * Which competitors count towards a property's market, and how much
+ */
+export interface CompSetWeighting {
+  compSetId: string | null;
+  currency: string; // Property currency every rate is converted to
+  weights: Map<string, number> | null; // By competitor; null counts every active competitor once
+  roomTypeMappings: Map<string, Record<string, string>>; // By competitor
+  inactive: Set<string>;
+}
+
+export interface CompSetMarketPoint {
+  date: string;
+  roomTypeCode: string | null;
+  weightedAverage: number;
+  average: number;
+  min: number;
+  max: number;
+  competitors: Array<{
+    competitorPropertyId: string;
+    competitorName: string;
+    rate: number;
+    weight: number;
+    availability: string | null;
+  }>;
+}
+
+/**
+ * Comp Sets Service
+ *
+ * Competitive sets and the weighting of competitor rates:
+ * - Competitor properties with their room category mapping to our room types
+ * - Named primary and aspirational comp sets with per-competitor weights
+ * - Weighted market averages per stay date and room type
+ */
+@Injectable()
+export class CompSetsService {
+  private readonly logger = new Logger(CompSetsService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly fxRatesService: FxRatesService,
+  ) {}
+
+  /**
+   * Weighting of a comp set, or of the primary one; without a primary comp
+   * set every active competitor counts once
+   */
+  async loadWeighting(propertyId: string, compSetId?: string): Promise<CompSetWeighting> {
+    const [property, competitors, compSet] = await Promise.all([
+      this.databaseService.property.findUnique({ where: { id: propertyId } }),
+      this.databaseService.competitorProperty.findMany({ where: { propertyId } }),
+      compSetId
+        ? this.findCompSet(propertyId, compSetId)
+        : this.databaseService.compSet.findFirst({
+            where: { propertyId, type: CompSetType.PRIMARY },
+            include: { members: true },
+          }),
+    ]);
+
+    return {
+      compSetId: compSet?.id ?? null,
+      currency: property?.currency ?? 'USD',
+      weights: compSet
+        ? new Map((compSet.members ?? []).map(member => [member.competitorPropertyId, member.weight ?? 1]))
+        : null,
+      roomTypeMappings: new Map(competitors.map(competitor => [
+        competitor.id,
+        (competitor.roomTypeMappings ?? {}) as Record<string, string>,
+      ])),
+      inactive: new Set(competitors.filter(competitor => competitor.isActive === false).map(competitor => competitor.id)),
+    };
+  }
+
+  /**
+   * Keep the rates of a comp set's active members, translate their room
+   * categories to our room type codes and attach each member's weight;
+   * categories without a mapping are assumed to already be ours
+   */
+  applyWeighting<T extends { competitorPropertyId: string; roomTypeCode: string | null }>(
+    weighting: CompSetWeighting,
+    rates: T[],
+  ): Array<T & { weight: number }> {
+    const weighted: Array<T & { weight: number }> = [];
+
+    for (const rate of rates) {
+      const weight = weighting.weights ? weighting.weights.get(rate.competitorPropertyId) : 1;
+      if (weight === undefined || weighting.inactive.has(rate.competitorPropertyId)) {
+        continue;
+      }
+
+      const mappings = weighting.roomTypeMappings.get(rate.competitorPropertyId) ?? {};
+      weighted.push({
+        ...rate,
+        roomTypeCode: rate.roomTypeCode ? mappings[rate.roomTypeCode] ?? rate.roomTypeCode : null,
+        weight,
+      });
+    }
+
+    return weighted;
+  }
+
+  /**
+   * Convert rates to the property currency at the exchange rate of the day
+   * they were shopped, then apply the weighting
+   */
+  async weighRates<T extends {
+    competitorPropertyId: string;
+    roomTypeCode: string | null;
+    rate: unknown;
+    currency: string | null;
+    scrapedAt?: Date | null;
+  }>(
+    weighting: CompSetWeighting,
+    rates: T[],
+  ): Promise<Array<Omit<T, 'rate' | 'currency'> & ConvertedRate & { weight: number }>> {
+    return this.applyWeighting(weighting, await this.fxRatesService.convertRates(rates, weighting.currency));
+  }
+
+  /**
+   * Weighted average of bookable rates; null without any
+   */
+  weightedAverage(rates: Array<{ rate: number; weight?: number }>): number | null {
+    const bookable = rates.filter(rate => rate.rate > 0);
+    const totalWeight = bookable.reduce((sum, rate) => sum + (rate.weight ?? 1), 0);
+    if (!totalWeight) {
+      return null;
+    }
+
+    return bookable.reduce((sum, rate) => sum + rate.rate * (rate.weight ?? 1), 0) / totalWeight;
+  }
+
+  // Competitors
+
+  async findCompetitors(propertyId: string) {
+    const competitors = await this.databaseService.competitorProperty.findMany({
+      where: { propertyId },
+      include: { compSetMembers: true },
+      orderBy: { name: 'asc' },
+    });
+
+    return competitors.map(competitor => this.toCompetitorResponse(competitor));
+  }
+
+  async createCompetitor(propertyId: string, dto: CreateCompetitorDto, userId: string) {
+    await this.findProperty(propertyId);
+
+    const existing = await this.databaseService.competitorProperty.findUnique({
+      where: { propertyId_code: { propertyId, code: dto.code } },
+    });
+    if (existing) {
+      throw new ConflictException(`Competitor ${dto.code} already exists`);
+    }
+
+    if (dto.roomTypeMappings) {
+      await this.validateRoomTypeMappings(propertyId, dto.roomTypeMappings);
+    }
+
+    const competitor = await this.databaseService.competitorProperty.create({
+      data: { ...dto, propertyId },
+    });
+    await this.audit(propertyId, userId, 'CREATE', 'COMPETITOR_PROPERTY', competitor.id, { ...dto });
+
+    return this.toCompetitorResponse(competitor);
+  }
+
+  /**
+   * Update a competitor; a room type mapping replaces the current one
+   */
+  async updateCompetitor(propertyId: string, competitorId: string, dto: UpdateCompetitorDto, userId: string) {
+    const competitor = await this.databaseService.competitorProperty.findFirst({
+      where: { id: competitorId, propertyId },
+    });
+    if (!competitor) {
+      throw new NotFoundException(`Competitor ${competitorId} not found`);
+    }
+
+    if (dto.roomTypeMappings) {
+      await this.validateRoomTypeMappings(propertyId, dto.roomTypeMappings);
+    }
+
+    const updated = await this.databaseService.competitorProperty.update({
+      where: { id: competitorId },
+      data: dto,
+    });
+    await this.audit(propertyId, userId, 'UPDATE', 'COMPETITOR_PROPERTY', competitorId, { ...dto });
+
+    return this.toCompetitorResponse(updated);
+  }
+
+  // Comp sets
+
+  async findCompSets(propertyId: string) {
+    return this.databaseService.compSet.findMany({
+      where: { propertyId },
+      include: { members: { include: { competitorProperty: true } } },
+      orderBy: [{ type: 'desc' }, { name: 'asc' }], // PRIMARY before ASPIRATIONAL
+    });
+  }
+
+  async createCompSet(propertyId: string, dto: CreateCompSetDto, userId: string) {
+    await this.findProperty(propertyId);
+
+    const type = dto.type ?? CompSetType.PRIMARY;
+    await this.validateCompSet(propertyId, { ...dto, type });
+
+    const compSet = await this.databaseService.$transaction(async (tx) => {
+      const created = await tx.compSet.create({
+        data: {
+          propertyId,
+          name: dto.name,
+          type,
+          description: dto.description ?? null,
+          createdBy: userId,
+          updatedBy: userId,
+        },
+      });
+      await tx.compSetMember.createMany({ data: this.toMemberData(created.id, dto.members) });
+      return created;
+    });
+
+    await this.audit(propertyId, userId, 'CREATE', 'COMP_SET', compSet.id, { ...dto, type });
+    this.logger.log(`Created ${type} comp set ${dto.name} for property ${propertyId}`);
+
+    return this.findCompSet(propertyId, compSet.id);
+  }
+
+  /**
+   * Update a comp set; members, when given, replace the current ones
+   */
+  async updateCompSet(propertyId: string, compSetId: string, dto: UpdateCompSetDto, userId: string) {
+    const current = await this.findCompSet(propertyId, compSetId);
+    await this.validateCompSet(propertyId, { ...dto, type: dto.type ?? current.type }, compSetId);
+
+    await this.databaseService.$transaction(async (tx) => {
+      await tx.compSet.update({
+        where: { id: compSetId },
+        data: {
+          ...(dto.name !== undefined && { name: dto.name }),
+          ...(dto.type !== undefined && { type: dto.type }),
+          ...(dto.description !== undefined && { description: dto.description }),
+          updatedBy: userId,
+        },
+      });
+
+      if (dto.members) {
+        await tx.compSetMember.deleteMany({ where: { compSetId } });
+        await tx.compSetMember.createMany({ data: this.toMemberData(compSetId, dto.members) });
+      }
+    });
+
+    await this.audit(propertyId, userId, 'UPDATE', 'COMP_SET', compSetId, { ...dto });
+
+    return this.findCompSet(propertyId, compSetId);
+  }
+
+  async removeCompSet(propertyId: string, compSetId: string, userId: string) {
+    const compSet = await this.findCompSet(propertyId, compSetId);
+
+    await this.databaseService.compSet.delete({ where: { id: compSetId } });
+    await this.audit(propertyId, userId, 'DELETE', 'COMP_SET', compSetId, { name: compSet.name, type: compSet.type });
+
+    return { id: compSetId, deleted: true };
+  }
+
+  /**
+   * Weighted market of a comp set per stay date and our room type, from the
+   * latest competitor rates
+   */
+  async getMarket(propertyId: string, compSetId: string, query: CompSetMarketQueryDto): Promise<CompSetMarketPoint[]> {
+    const weighting = await this.loadWeighting(propertyId, compSetId);
+
+    const rates = await this.databaseService.competitorRate.findMany({
+      where: {
+        propertyId,
+        date: { gte: new Date(query.startDate), lte: new Date(query.endDate) },
+      },
+      include: { competitorProperty: true },
+      orderBy: { date: 'asc' },
+    });
+
+    const byKey = new Map<string, any[]>();
+    for (const rate of await this.weighRates(weighting, rates)) {
+      if (query.roomTypeCode && rate.roomTypeCode !== query.roomTypeCode) {
+        continue;
+      }
+
+      const key = `${new Date(rate.date).toISOString().split('T')[0]}|${rate.roomTypeCode ?? ''}`;
+      byKey.set(key, [...(byKey.get(key) ?? []), rate]);
+    }
+
+    const points: CompSetMarketPoint[] = [];
+    for (const [key, group] of byKey) {
+      const competitors = group.map(rate => ({
+        competitorPropertyId: rate.competitorPropertyId,
+        competitorName: rate.competitorProperty?.name ?? rate.competitorPropertyId,
+        rate: parseFloat(rate.rate.toString()),
+        weight: rate.weight,
+        availability: rate.availability ?? null,
+      }));
+      const bookable = competitors.filter(rate => rate.availability !== CompetitorAvailability.SOLD_OUT && rate.rate > 0);
+      const weightedAverage = this.weightedAverage(bookable);
+      if (weightedAverage === null) {
+        continue;
+      }
+
+      const [date, roomTypeCode] = key.split('|');
+      const rateValues = bookable.map(rate => rate.rate);
+      points.push({
+        date,
+        roomTypeCode: roomTypeCode || null,
+        weightedAverage: Math.round(weightedAverage * 100) / 100,
+        average: Math.round(rateValues.reduce((sum, rate) => sum + rate, 0) / rateValues.length * 100) / 100,
+        min: Math.min(...rateValues),
+        max: Math.max(...rateValues),
+        competitors,
+      });
+    }
+
+    return points;
+  }
+
+  // Private helper methods
+
+  private async findCompSet(propertyId: string, compSetId: string) {
+    const compSet = await this.databaseService.compSet.findFirst({
+      where: { id: compSetId, propertyId },
+      include: { members: { include: { competitorProperty: true } } },
+    });
+    if (!compSet) {
+      throw new NotFoundException(`Comp set ${compSetId} not found`);
+    }
+    return compSet;
+  }
+
+  private async findProperty(propertyId: string) {
+    const property = await this.databaseService.property.findUnique({ where: { id: propertyId } });
+    if (!property) {
+      throw new NotFoundException(`Property ${propertyId} not found`);
+    }
+    return property;
+  }
+
+  /**
+   * One primary comp set per property, unique names, and members that are
+   * distinct competitors of the property
+   */
+  private async validateCompSet(
+    propertyId: string,
+    dto: { name?: string; type: string; members?: CompSetMemberDto[] },
+    compSetId?: string,
+  ): Promise<void> {
+    if (dto.type === CompSetType.PRIMARY) {
+      const primary = await this.databaseService.compSet.findFirst({
+        where: { propertyId, type: CompSetType.PRIMARY },
+      });
+      if (primary && primary.id !== compSetId) {
+        throw new ConflictException(`${primary.name} is already the primary comp set; make it aspirational first`);
+      }
+    }
+
+    if (dto.name !== undefined) {
+      const sameName = await this.databaseService.compSet.findFirst({ where: { propertyId, name: dto.name } });
+      if (sameName && sameName.id !== compSetId) {
+        throw new ConflictException(`A comp set named ${dto.name} already exists`);
+      }
+    }
+
+    if (!dto.members) {
+      return;
+    }
+
+    const ids = dto.members.map(member => member.competitorPropertyId);
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException('A competitor can only be in a comp set once');
+    }
+
+    const competitors = ids.length
+      ? await this.databaseService.competitorProperty.findMany({ where: { propertyId, id: { in: ids } } })
+      : [];
+    const unknown = ids.filter(id => !competitors.some(competitor => competitor.id === id));
+    if (unknown.length) {
+      throw new BadRequestException(`Unknown competitors: ${unknown.join(', ')}`);
+    }
+  }
+
+  private async validateRoomTypeMappings(propertyId: string, mappings: Record<string, string>): Promise<void> {
+    const roomTypes = await this.databaseService.roomType.findMany({ where: { propertyId } });
+    const codes = new Set(roomTypes.map(roomType => roomType.code));
+
+    for (const [category, code] of Object.entries(mappings)) {
+      if (!category.trim() || typeof code !== 'string') {
+        throw new BadRequestException('Room type mappings must map competitor room categories to room type codes');
+      }
+      if (!codes.has(code)) {
+        throw new BadRequestException(`Unknown room type ${code} mapped from ${category}`);
+      }
+    }
+  }
+
+  private toMemberData(compSetId: string, members: CompSetMemberDto[]) {
+    return members.map(member => ({
+      compSetId,
+      competitorPropertyId: member.competitorPropertyId,
+      weight: member.weight ?? 1,
+    }));
+  }
+
+  private toCompetitorResponse(competitor: any) {
+    return {
+      id: competitor.id,
+      name: competitor.name,
+      code: competitor.code,
+      address: competitor.address ?? null,
+      starRating: competitor.starRating ?? null,
+      roomTypeMappings: competitor.roomTypeMappings ?? {},
+      isActive: competitor.isActive ?? true,
+      compSetIds: (competitor.compSetMembers ?? []).map(member => member.compSetId),
+      updatedAt: competitor.updatedAt,
+    };
+  }
+
+  private audit(propertyId: string, userId: string, action: string, entityType: string, entityId: string, changes: any) {
+    return this.databaseService.auditLog.create({
+      data: { propertyId, userId, action, entityType, entityId, changes, source: 'API' },
+    });
+  }
+}
@@ -0,0 +1,548 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { BusinessDatesService } from '../business-dates/business-dates.service';
+import { parseTabularFile, TABULAR_FILE_EXTENSIONS } from '../../common/files/tabular-file.parser';
+import { CompetitorRateInput, RateShopperService } from './rate-shopper.service';
+import {
+  CompetitorAvailability,
+  RateShopSource,
+  RateShopStatus,
+  ShopRatesDto,
+} from './dto/competitor-rates.dto';
+
+export interface SkippedCompetitorRate {
+  rowNumber?: number;
+  reason: string;
+}
+
+export interface RateShopResult {
+  rateShopId: string;
+  status: RateShopStatus;
+  received: number;
+  stored: number;
+  competitors: number;
+  skipped: SkippedCompetitorRate[];
+  error: string | null;
+}
+
+interface RateShopContext {
+  source: RateShopSource;
+  fileName?: string;
+  userId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+interface ResolvedCompetitorRate {
+  competitorCode: string;
+  competitorName: string | null;
+  roomTypeCode: string | null;
+  date: Date;
+  rate: number;
+  currency: string;
+  availability: CompetitorAvailability;
+  scrapedAt: Date;
+}
+
+type CompetitorRateColumn = keyof Omit<CompetitorRateInput, 'rowNumber'>;
+
+const DEFAULT_SHOP_HORIZON_DAYS = 30;
+const DEFAULT_SHOP_INTERVAL_HOURS = 24;
+const MAX_COMPETITOR_RATE_ROWS = 20000;
+const REQUIRED_COLUMNS: CompetitorRateColumn[] = ['date', 'rate'];
+
+// Normalised header spellings of each rate export column
+const COLUMN_ALIASES: Record<CompetitorRateColumn, string[]> = {
+  competitorCode: ['competitorcode', 'competitorid', 'hotelcode', 'hotelid'],
+  competitorName: ['competitorname', 'competitor', 'hotelname', 'hotel', 'name'],
+  roomTypeCode: ['roomtypecode', 'roomtype', 'roomcode'],
+  date: ['date', 'staydate', 'checkin', 'arrivaldate'],
+  rate: ['rate', 'price', 'amount'],
+  currency: ['currency', 'currencycode'],
+  availability: ['availability', 'status', 'available'],
+  scrapedAt: ['scrapedat', 'shoppedat', 'shopdate', 'extractdate', 'collectedat'],
+};
+
+// Spellings of availability in shopper exports
+const AVAILABILITY_ALIASES: Record<string, CompetitorAvailability> = {
+  AVAILABLE: CompetitorAvailability.AVAILABLE,
+  OPEN: CompetitorAvailability.AVAILABLE,
+  TRUE: CompetitorAvailability.AVAILABLE,
+  YES: CompetitorAvailability.AVAILABLE,
+  LIMITED: CompetitorAvailability.LIMITED,
+  LAST_ROOMS: CompetitorAvailability.LIMITED,
+  SOLD_OUT: CompetitorAvailability.SOLD_OUT,
+  SOLDOUT: CompetitorAvailability.SOLD_OUT,
+  CLOSED: CompetitorAvailability.SOLD_OUT,
+  FALSE: CompetitorAvailability.SOLD_OUT,
+  NO: CompetitorAvailability.SOLD_OUT,
+};
+
+/**
+ * Competitor Rate Ingestion Service
+ *
+ * Stores competitor rates from every source:
+ * - Shops through the rate shopper API, on demand or on each property's schedule
+ * - CSV/XLSX/JSON exports uploaded from rate shopping tools
+ * - The latest rate per competitor, stay date and room type, plus the full
+ *   history of every shop
+ */
+@Injectable()
+export class CompetitorRateIngestionService {
+  private readonly logger = new Logger(CompetitorRateIngestionService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly rateShopperService: RateShopperService,
+    private readonly businessDatesService: BusinessDatesService,
+  ) {}
+
+  /**
+   * Shop the next stay dates of a property through the rate shopper API
+   */
+  async shop(propertyId: string, options: ShopRatesDto = {}, userId?: string): Promise<RateShopResult> {
+    if (!this.rateShopperService.isConfigured()) {
+      throw new BadRequestException('The rate shopper API is not configured; upload a rate export instead');
+    }
+
+    const property = await this.findProperty(propertyId);
+    const startDate = await this.businessDatesService.today(propertyId);
+    const endDate = this.addDays(startDate, options.horizonDays ?? DEFAULT_SHOP_HORIZON_DAYS);
+    const context: RateShopContext = { source: RateShopSource.API, userId, startDate, endDate };
+    const rateShop = await this.startShop(propertyId, context);
+
+    let inputs: CompetitorRateInput[];
+    try {
+      inputs = await this.rateShopperService.collectCompetitorRates(
+        propertyId,
+        startDate,
+        endDate,
+        options.roomTypeCodes,
+      );
+    } catch (error) {
+      this.logger.error(`Rate shop for property ${propertyId} failed: ${error.message}`);
+      return this.failShop(rateShop.id, error.message);
+    }
+
+    return this.ingest(property, rateShop, inputs, context);
+  }
+
+  /**
+   * Import an uploaded rate shopper export into one property
+   */
+  async importFile(propertyId: string, file: Express.Multer.File, userId: string): Promise<RateShopResult> {
+    if (!file) {
+      throw new BadRequestException('A competitor rate file is required');
+    }
+
+    const property = await this.findProperty(propertyId);
+    const inputs = await this.parseRateFile(file.buffer, file.originalname);
+    const context: RateShopContext = { source: RateShopSource.FILE_IMPORT, fileName: file.originalname, userId };
+    const rateShop = await this.startShop(propertyId, context);
+
+    return this.ingest(property, rateShop, inputs, context);
+  }
+
+  /**
+   * Run the shops of every property whose schedule is due
+   */
+  async runDueShops(now = new Date()): Promise<RateShopResult[]> {
+    if (!this.rateShopperService.isConfigured()) {
+      this.logger.debug('Rate shopper API not configured; skipping scheduled shops');
+      return [];
+    }
+
+    const schedules = await this.databaseService.rateShopSchedule.findMany({
+      where: {
+        isEnabled: true,
+        OR: [{ nextShopAt: null }, { nextShopAt: { lte: now } }],
+      },
+    });
+
+    const results: RateShopResult[] = [];
+
+    for (const schedule of schedules) {
+      try {
+        results.push(await this.shop(schedule.propertyId, {
+          horizonDays: schedule.horizonDays,
+          roomTypeCodes: schedule.roomTypeCodes,
+        }));
+      } catch (error) {
+        this.logger.error(`Scheduled rate shop for property ${schedule.propertyId} failed: ${error.message}`);
+      }
+
+      await this.databaseService.rateShopSchedule.update({
+        where: { id: schedule.id },
+        data: {
+          lastShopAt: now,
+          nextShopAt: new Date(now.getTime() + (schedule.intervalHours ?? DEFAULT_SHOP_INTERVAL_HOURS) * 60 * 60 * 1000),
+        },
+      });
+    }
+
+    return results;
+  }
+
+  // Private helper methods
+
+  /**
+   * Store a shop's rates: every rate goes to the history, and replaces the
+   * latest known rate unless that one was scraped later
+   */
+  private async ingest(
+    property: any,
+    rateShop: any,
+    inputs: CompetitorRateInput[],
+    context: RateShopContext,
+  ): Promise<RateShopResult> {
+    const shoppedAt = new Date(rateShop.startedAt ?? Date.now());
+    const skipped: SkippedCompetitorRate[] = [];
+    const resolved = inputs
+      .map(input => this.resolveInput(input, property.currency, shoppedAt, skipped))
+      .filter((rate): rate is ResolvedCompetitorRate => rate !== null);
+
+    const competitorCodes = [...new Set(resolved.map(rate => rate.competitorCode))];
+    let stored = 0;
+
+    try {
+      await this.databaseService.$transaction(async (tx) => {
+        const competitorIds = new Map<string, string>();
+        for (const code of competitorCodes) {
+          const name = resolved.find(rate => rate.competitorCode === code && rate.competitorName)?.competitorName;
+          const competitor = await tx.competitorProperty.upsert({
+            where: { propertyId_code: { propertyId: property.id, code } },
+            create: { propertyId: property.id, code, name: name ?? code },
+            update: name ? { name } : {},
+          });
+          competitorIds.set(code, competitor.id);
+        }
+
+        if (!resolved.length) {
+          return;
+        }
+
+        const dates = resolved.map(rate => rate.date.getTime());
+        const existing = await tx.competitorRate.findMany({
+          where: {
+            propertyId: property.id,
+            competitorPropertyId: { in: [...competitorIds.values()] },
+            date: { gte: new Date(Math.min(...dates)), lte: new Date(Math.max(...dates)) },
+          },
+        });
+        const latest = new Map<string, any>(existing.map(rate => [
+          this.rateKey(rate.competitorPropertyId, new Date(rate.date), rate.roomTypeCode),
+          rate,
+        ]));
+
+        await tx.competitorRateHistory.createMany({
+          data: resolved.map(rate => ({
+            propertyId: property.id,
+            competitorPropertyId: competitorIds.get(rate.competitorCode),
+            rateShopId: rateShop.id,
+            date: rate.date,
+            roomTypeCode: rate.roomTypeCode,
+            rate: rate.rate,
+            currency: rate.currency,
+            availability: rate.availability,
+            scrapedAt: rate.scrapedAt,
+          })),
+        });
+
+        for (const rate of resolved) {
+          const competitorPropertyId = competitorIds.get(rate.competitorCode);
+          const key = this.rateKey(competitorPropertyId, rate.date, rate.roomTypeCode);
+          const current = latest.get(key);
+          if (current && new Date(current.scrapedAt).getTime() > rate.scrapedAt.getTime()) {
+            continue;
+          }
+
+          const data = {
+            rate: rate.rate,
+            currency: rate.currency,
+            availability: rate.availability,
+            source: context.source === RateShopSource.API ? 'RATE_SHOPPER_API' : context.fileName ?? 'FILE_IMPORT',
+            scrapedAt: rate.scrapedAt,
+          };
+          const saved = current
+            ? await tx.competitorRate.update({ where: { id: current.id }, data })
+            : await tx.competitorRate.create({
+                data: { ...data, propertyId: property.id, competitorPropertyId, date: rate.date, roomTypeCode: rate.roomTypeCode },
+              });
+          latest.set(key, saved);
+          stored++;
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Competitor rates of shop ${rateShop.id} could not be stored: ${error.message}`);
+      return this.failShop(rateShop.id, error.message, inputs.length, skipped);
+    }
+
+    await this.databaseService.rateShop.update({
+      where: { id: rateShop.id },
+      data: {
+        status: RateShopStatus.COMPLETED,
+        received: inputs.length,
+        stored,
+        skipped: skipped.length ? skipped : null,
+        completedAt: new Date(),
+      },
+    });
+
+    await this.databaseService.auditLog.create({
+      data: {
+        propertyId: property.id,
+        userId: context.userId ?? null,
+        action: 'INGEST',
+        entityType: 'COMPETITOR_RATE',
+        entityId: rateShop.id,
+        changes: {
+          source: context.source,
+          fileName: context.fileName ?? null,
+          received: inputs.length,
+          stored,
+          competitors: competitorCodes.length,
+          skipped: skipped.length,
+        },
+        source: context.source === RateShopSource.API ? 'SYNC' : 'IMPORT',
+      },
+    });
+
+    this.logger.log(
+      `Stored ${stored} of ${inputs.length} competitor rates for property ${property.id} from ${context.source}: ` +
+      `${competitorCodes.length} competitors, ${skipped.length} skipped`,
+    );
+
+    return {
+      rateShopId: rateShop.id,
+      status: RateShopStatus.COMPLETED,
+      received: inputs.length,
+      stored,
+      competitors: competitorCodes.length,
+      skipped,
+      error: null,
+    };
+  }
+
+  private resolveInput(
+    input: CompetitorRateInput,
+    defaultCurrency: string,
+    shoppedAt: Date,
+    skipped: SkippedCompetitorRate[],
+  ): ResolvedCompetitorRate | null {
+    const skip = (reason: string) => {
+      skipped.push({ rowNumber: input.rowNumber, reason });
+      return null;
+    };
+
+    const competitorName = input.competitorName?.trim() || null;
+    const competitorCode = input.competitorCode?.trim()
+      || competitorName?.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+    if (!competitorCode) {
+      return skip('Competitor code or name is required');
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date ?? '') || isNaN(new Date(`${input.date}T00:00:00.000Z`).getTime())) {
+      return skip(`Invalid stay date "${input.date ?? ''}"`);
+    }
+
+    const availabilityText = (input.availability ?? '').trim().toUpperCase().replace(/[\s-]+/g, '_');
+    const availability = availabilityText
+      ? AVAILABILITY_ALIASES[availabilityText]
+      : input.rate ? CompetitorAvailability.AVAILABLE : CompetitorAvailability.SOLD_OUT;
+    if (!availability) {
+      return skip(`Unknown availability "${input.availability}"`);
+    }
+
+    const rate = input.rate ?? 0;
+    if (!Number.isFinite(rate) || rate < 0) {
+      return skip(`Invalid rate "${input.rate}"`);
+    }
+    if (rate === 0 && availability !== CompetitorAvailability.SOLD_OUT) {
+      return skip('A rate is required unless the competitor is sold out');
+    }
+
+    const currency = (input.currency?.trim() || defaultCurrency).toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      return skip(`Invalid currency "${input.currency}"`);
+    }
+
+    const scrapedAt = input.scrapedAt ? new Date(input.scrapedAt) : shoppedAt;
+    if (isNaN(scrapedAt.getTime())) {
+      return skip(`Invalid scrape time "${input.scrapedAt}"`);
+    }
+
+    return {
+      competitorCode,
+      competitorName,
+      roomTypeCode: input.roomTypeCode?.trim() || null,
+      date: new Date(`${input.date}T00:00:00.000Z`),
+      rate,
+      currency,
+      availability,
+      // A shop cannot have seen a rate after it ran
+      scrapedAt: scrapedAt.getTime() > shoppedAt.getTime() ? shoppedAt : scrapedAt,
+    };
+  }
+
+  private async parseRateFile(buffer: Buffer, fileName: string): Promise<CompetitorRateInput[]> {
+    const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+    if (extension !== 'json' && !TABULAR_FILE_EXTENSIONS.includes(extension)) {
+      throw new BadRequestException('Only .csv, .xlsx and .json files can be imported');
+    }
+
+    const inputs = extension === 'json'
+      ? this.parseJsonRates(buffer)
+      : await this.parseTabularRates(buffer, fileName);
+
+    if (!inputs.length) {
+      throw new BadRequestException('The competitor rate file is empty');
+    }
+    if (inputs.length > MAX_COMPETITOR_RATE_ROWS) {
+      throw new BadRequestException(`Competitor rate files are limited to ${MAX_COMPETITOR_RATE_ROWS} rates`);
+    }
+
+    return inputs;
+  }
+
+  /**
+   * JSON exports are either in the rate shopper API format, or a list of
+   * rates with the same fields as the CSV columns
+   */
+  private parseJsonRates(buffer: Buffer): CompetitorRateInput[] {
+    let data: any;
+    try {
+      data = JSON.parse(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+    } catch (error) {
+      throw new BadRequestException('The file is not valid JSON');
+    }
+
+    if (data?.competitors) {
+      return this.rateShopperService.transformRateShopperData(data);
+    }
+
+    const rows = Array.isArray(data) ? data : data?.rates;
+    if (!Array.isArray(rows)) {
+      throw new BadRequestException('JSON rate files must contain a list of rates or competitors');
+    }
+
+    return rows.map((row, index) => {
+      const fields = Object.keys(row ?? {});
+      const columns = this.mapColumns(fields);
+      const cell = (column: CompetitorRateColumn) => {
+        const value = columns[column] !== undefined ? row[fields[columns[column]]] : undefined;
+        return value === undefined || value === null ? '' : String(value).trim();
+      };
+
+      return this.toInput(cell, index + 1);
+    });
+  }
+
+  private async parseTabularRates(buffer: Buffer, fileName: string): Promise<CompetitorRateInput[]> {
+    const [header, ...rows] = (await parseTabularFile(buffer, fileName))
+      .filter(row => row.some(cell => cell.trim() !== ''));
+
+    if (!header) {
+      return [];
+    }
+
+    const columns = this.mapColumns(header);
+    const missing = REQUIRED_COLUMNS.filter(column => columns[column] === undefined);
+    if (columns.competitorCode === undefined && columns.competitorName === undefined) {
+      missing.unshift('competitorCode');
+    }
+    if (missing.length) {
+      throw new BadRequestException(`Missing competitor rate columns: ${missing.join(', ')}`);
+    }
+
+    return rows.map((row, index) => {
+      const cell = (column: CompetitorRateColumn) =>
+        columns[column] !== undefined ? (row[columns[column]] ?? '').trim() : '';
+
+      return this.toInput(cell, index + 2); // 1-based, after the header row
+    });
+  }
+
+  private toInput(cell: (column: CompetitorRateColumn) => string, rowNumber: number): CompetitorRateInput {
+    const rate = cell('rate').replace(/[^0-9.\-]/g, '');
+
+    return {
+      competitorCode: cell('competitorCode'),
+      competitorName: cell('competitorName') || undefined,
+      roomTypeCode: cell('roomTypeCode') || undefined,
+      date: cell('date').slice(0, 10),
+      rate: rate ? Number(rate) : null,
+      currency: cell('currency') || undefined,
+      availability: cell('availability') || undefined,
+      scrapedAt: cell('scrapedAt') || undefined,
+      rowNumber,
+    };
+  }
+
+  private mapColumns(header: string[]): Partial<Record<CompetitorRateColumn, number>> {
+    const normalized = header.map(column => column.toLowerCase().replace(/[^a-z0-9]/g, ''));
+    const columns: Partial<Record<CompetitorRateColumn, number>> = {};
+
+    (Object.keys(COLUMN_ALIASES) as CompetitorRateColumn[]).forEach(column => {
+      const index = normalized.findIndex(name => COLUMN_ALIASES[column].includes(name));
+      if (index !== -1 && !Object.values(columns).includes(index)) {
+        columns[column] = index;
+      }
+    });
+
+    return columns;
+  }
+
+  private async findProperty(propertyId: string) {
+    const property = await this.databaseService.property.findUnique({ where: { id: propertyId } });
+    if (!property) {
+      throw new NotFoundException(`Property ${propertyId} not found`);
+    }
+    return property;
+  }
+
+  private startShop(propertyId: string, context: RateShopContext) {
+    return this.databaseService.rateShop.create({
+      data: {
+        propertyId,
+        source: context.source,
+        status: RateShopStatus.RUNNING,
+        fileName: context.fileName ?? null,
+        startDate: context.startDate ?? null,
+        endDate: context.endDate ?? null,
+        requestedBy: context.userId ?? null,
+        startedAt: new Date(),
+      },
+    });
+  }
+
+  private async failShop(
+    rateShopId: string,
+    error: string,
+    received = 0,
+    skipped: SkippedCompetitorRate[] = [],
+  ): Promise<RateShopResult> {
+    await this.databaseService.rateShop.update({
+      where: { id: rateShopId },
+      data: {
+        status: RateShopStatus.FAILED,
+        received,
+        error,
+        skipped: skipped.length ? skipped : null,
+        completedAt: new Date(),
+      },
+    });
+
+    return { rateShopId, status: RateShopStatus.FAILED, received, stored: 0, competitors: 0, skipped, error };
+  }
+
+  private rateKey(competitorPropertyId: string, date: Date, roomTypeCode: string | null): string {
+    return `${competitorPropertyId}|${date.toISOString().split('T')[0]}|${roomTypeCode ?? ''}`;
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result;
+  }
+}
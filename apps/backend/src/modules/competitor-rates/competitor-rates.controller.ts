@@ -0,0 +1,151 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+
+import { CompetitorRatesService } from './competitor-rates.service';
+import { CompetitorRateIngestionService } from './competitor-rate-ingestion.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { UserRole } from '../auth/enums/user-role.enum';
+import {
+  CompetitorRateHistoryQueryDto,
+  CompetitorRateQueryDto,
+  RateShopQueryDto,
+  ShopRatesDto,
+  UpdateRateShopScheduleDto,
+} from './dto/competitor-rates.dto';
+
+const MAX_COMPETITOR_RATE_FILE_SIZE = 10 * 1024 * 1024; // bytes
+
+/**
+ * Competitor Rates Controller
+ *
+ * REST API endpoints for stored competitor rates:
+ * - Latest rates and the rate history of a stay date
+ * - On-demand shops and uploads of rate shopper exports
+ * - Shop history and the per-property shop schedule
+ */
+@ApiTags('competitor-rates')
+@Controller('properties/:propertyId/competitor-rates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class CompetitorRatesController {
+  constructor(
+    private readonly competitorRatesService: CompetitorRatesService,
+    private readonly ingestionService: CompetitorRateIngestionService,
+  ) {}
+
+  /**
+   * Latest competitor rates of a date range
+   */
+  @Get()
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get latest competitor rates' })
+  @ApiResponse({ status: 200, description: 'Competitor rates retrieved successfully' })
+  async getRates(
+    @Param('propertyId') propertyId: string,
+    @Query() query: CompetitorRateQueryDto,
+  ) {
+    return this.competitorRatesService.getLatestRates(propertyId, query);
+  }
+
+  /**
+   * Every rate seen for a stay date across shops
+   */
+  @Get('history')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get competitor rate history of a stay date' })
+  @ApiResponse({ status: 200, description: 'Competitor rate history retrieved successfully' })
+  async getRateHistory(
+    @Param('propertyId') propertyId: string,
+    @Query() query: CompetitorRateHistoryQueryDto,
+  ) {
+    return this.competitorRatesService.getRateHistory(propertyId, query);
+  }
+
+  /**
+   * Recent shops and uploads
+   */
+  @Get('shops')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'List rate shops' })
+  @ApiResponse({ status: 200, description: 'Rate shops retrieved successfully' })
+  async getRateShops(
+    @Param('propertyId') propertyId: string,
+    @Query() query: RateShopQueryDto,
+  ) {
+    return this.competitorRatesService.getRateShops(propertyId, query);
+  }
+
+  /**
+   * Shop competitor rates through the rate shopper API now
+   */
+  @Post('shops')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Shop competitor rates' })
+  @ApiResponse({ status: 200, description: 'Rate shop completed or failed' })
+  @ApiResponse({ status: 400, description: 'Rate shopper API not configured' })
+  async shopRates(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: ShopRatesDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.ingestionService.shop(propertyId, dto, user.id);
+  }
+
+  /**
+   * Import a CSV, XLSX or JSON export from a rate shopping tool
+   */
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_COMPETITOR_RATE_FILE_SIZE } }))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } } } })
+  @ApiOperation({ summary: 'Import a competitor rate file' })
+  @ApiResponse({ status: 200, description: 'Competitor rates stored' })
+  async importRates(
+    @Param('propertyId') propertyId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.ingestionService.importFile(propertyId, file, user.id);
+  }
+
+  @Get('schedule')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get the rate shop schedule' })
+  @ApiResponse({ status: 200, description: 'Rate shop schedule retrieved successfully' })
+  async getSchedule(@Param('propertyId') propertyId: string) {
+    return this.competitorRatesService.getSchedule(propertyId);
+  }
+
+  @Put('schedule')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Update the rate shop schedule' })
+  @ApiResponse({ status: 200, description: 'Rate shop schedule updated successfully' })
+  async updateSchedule(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: UpdateRateShopScheduleDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.competitorRatesService.updateSchedule(propertyId, dto, user.id);
+  }
+}
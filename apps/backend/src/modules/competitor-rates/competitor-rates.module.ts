@@ -0,0 +1,53 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { ConfigModule } from '@nestjs/config';
+import { BullModule } from '@nestjs/bull';
+
+import { DatabaseModule } from '../database/database.module';
+import { CurrencyModule } from '../currency/currency.module';
+import { BusinessDatesModule } from '../business-dates/business-dates.module';
+import { CompetitorRatesController } from './competitor-rates.controller';
+import { CompSetsController } from './comp-sets.controller';
+import { CompetitorRatesService } from './competitor-rates.service';
+import { CompetitorRateIngestionService } from './competitor-rate-ingestion.service';
+import { RateShopperService } from './rate-shopper.service';
+import { CompSetsService } from './comp-sets.service';
+import { RateShopProcessor, RATE_SHOP_QUEUE } from './processors/rate-shop.processor';
+
+/**
+ * Competitor Rates Module
+ *
+ * Competitor pricing collected for each property:
+ * - Rate shopper API adapter, with shops on demand and on a per-property schedule
+ * - Uploads of CSV/XLSX/JSON exports from rate shopping tools
+ * - Latest rates plus the history of every shop
+ * - Primary and aspirational comp sets with weights and room type mapping
+ * - Rates converted to the property currency at the day's exchange rate
+ */
+@Module({
+  imports: [
+    HttpModule,
+    ConfigModule,
+    DatabaseModule,
+    CurrencyModule,
+    BusinessDatesModule,
+    BullModule.registerQueue({
+      name: RATE_SHOP_QUEUE,
+      defaultJobOptions: {
+        attempts: 1, // Repeating job; due schedules are picked up by the next run
+        removeOnComplete: 50,
+        removeOnFail: 50,
+      },
+    }),
+  ],
+  controllers: [CompetitorRatesController, CompSetsController],
+  providers: [
+    CompetitorRatesService,
+    CompetitorRateIngestionService,
+    RateShopperService,
+    CompSetsService,
+    RateShopProcessor,
+  ],
+  exports: [RateShopperService, CompetitorRateIngestionService, CompSetsService],
+})
+export class CompetitorRatesModule {}
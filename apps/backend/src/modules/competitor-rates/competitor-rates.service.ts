@@ -0,0 +1,170 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { RateShopperService } from './rate-shopper.service';
+import { CompSetsService } from './comp-sets.service';
+import { FxRatesService } from '../currency/fx-rates.service';
+import {
+  CompetitorRateHistoryQueryDto,
+  CompetitorRateQueryDto,
+  RateShopQueryDto,
+  UpdateRateShopScheduleDto,
+} from './dto/competitor-rates.dto';
+
+const DEFAULT_RATE_SHOP_LIMIT = 20;
+
+// Schedule of a property that has never saved one
+const DEFAULT_SCHEDULE = {
+  isEnabled: false,
+  intervalHours: 24,
+  horizonDays: 30,
+  roomTypeCodes: [] as string[],
+  lastShopAt: null,
+  nextShopAt: null,
+};
+
+/**
+ * Competitor Rates Service
+ *
+ * Reads stored competitor rates and manages rate shop schedules:
+ * - Latest rate per competitor, stay date and room type
+ * - Every rate seen for a stay date across shops
+ * - Recent shops and uploads with their outcome
+ * - Per-property shop schedule
+ */
+@Injectable()
+export class CompetitorRatesService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly rateShopperService: RateShopperService,
+    private readonly compSetsService: CompSetsService,
+    private readonly fxRatesService: FxRatesService,
+  ) {}
+
+  /**
+   * Latest competitor rates of a property's stay dates, for the members of a
+   * comp set with room categories mapped to our room types
+   */
+  async getLatestRates(propertyId: string, query: CompetitorRateQueryDto) {
+    const [weighting, rates] = await Promise.all([
+      this.compSetsService.loadWeighting(propertyId, query.compSetId),
+      this.databaseService.competitorRate.findMany({
+        where: {
+          propertyId,
+          date: { gte: new Date(query.startDate), lte: new Date(query.endDate) },
+        },
+        include: { competitorProperty: true },
+        orderBy: [{ date: 'asc' }, { rate: 'asc' }],
+      }),
+    ]);
+
+    return (await this.compSetsService.weighRates(weighting, rates))
+      .filter(rate => !query.roomTypeCode || rate.roomTypeCode === query.roomTypeCode)
+      .map(rate => ({ ...this.toRateResponse(rate), weight: rate.weight }));
+  }
+
+  /**
+   * Every rate the shops saw for one stay date, oldest first, in the
+   * property currency at the exchange rate of each shop
+   */
+  async getRateHistory(propertyId: string, query: CompetitorRateHistoryQueryDto) {
+    const history = await this.databaseService.competitorRateHistory.findMany({
+      where: {
+        propertyId,
+        date: new Date(query.date),
+        ...(query.competitorPropertyId && { competitorPropertyId: query.competitorPropertyId }),
+        ...(query.roomTypeCode && { roomTypeCode: query.roomTypeCode }),
+      },
+      include: { competitorProperty: true },
+      orderBy: { scrapedAt: 'asc' },
+    });
+
+    return (await this.fxRatesService.convertToPropertyCurrency(propertyId, history))
+      .map(rate => ({ ...this.toRateResponse(rate), rateShopId: rate.rateShopId }));
+  }
+
+  /**
+   * Most recent shops and uploads of a property
+   */
+  async getRateShops(propertyId: string, query: RateShopQueryDto) {
+    return this.databaseService.rateShop.findMany({
+      where: { propertyId },
+      orderBy: { startedAt: 'desc' },
+      take: query.limit ?? DEFAULT_RATE_SHOP_LIMIT,
+    });
+  }
+
+  async getSchedule(propertyId: string) {
+    const schedule = await this.databaseService.rateShopSchedule.findUnique({ where: { propertyId } });
+
+    return {
+      ...(schedule ?? { ...DEFAULT_SCHEDULE, propertyId }),
+      apiConfigured: this.rateShopperService.isConfigured(),
+    };
+  }
+
+  /**
+   * Save a property's shop schedule; enabling it or changing the interval
+   * shops again one interval after the last shop, or right away
+   */
+  async updateSchedule(propertyId: string, dto: UpdateRateShopScheduleDto, userId: string) {
+    const property = await this.databaseService.property.findUnique({ where: { id: propertyId } });
+    if (!property) {
+      throw new NotFoundException(`Property ${propertyId} not found`);
+    }
+
+    const current = await this.databaseService.rateShopSchedule.findUnique({ where: { propertyId } });
+    const merged = { ...DEFAULT_SCHEDULE, ...current, ...dto };
+    const nextShopAt = merged.lastShopAt
+      ? new Date(new Date(merged.lastShopAt).getTime() + merged.intervalHours * 60 * 60 * 1000)
+      : new Date();
+
+    const data = {
+      isEnabled: merged.isEnabled,
+      intervalHours: merged.intervalHours,
+      horizonDays: merged.horizonDays,
+      roomTypeCodes: merged.roomTypeCodes,
+      nextShopAt: merged.isEnabled ? nextShopAt : null,
+      updatedBy: userId,
+    };
+
+    const schedule = await this.databaseService.rateShopSchedule.upsert({
+      where: { propertyId },
+      create: { ...data, propertyId },
+      update: data,
+    });
+
+    await this.databaseService.auditLog.create({
+      data: {
+        propertyId,
+        userId,
+        action: current ? 'UPDATE' : 'CREATE',
+        entityType: 'RATE_SHOP_SCHEDULE',
+        entityId: schedule.id,
+        changes: { ...dto },
+        source: 'API',
+      },
+    });
+
+    return { ...schedule, apiConfigured: this.rateShopperService.isConfigured() };
+  }
+
+  // Private helper methods
+
+  private toRateResponse(rate: any) {
+    return {
+      id: rate.id,
+      competitorPropertyId: rate.competitorPropertyId,
+      competitorCode: rate.competitorProperty?.code ?? null,
+      competitorName: rate.competitorProperty?.name ?? rate.competitorPropertyId,
+      date: rate.date,
+      roomTypeCode: rate.roomTypeCode,
+      rate: parseFloat(rate.rate.toString()),
+      currency: rate.currency,
+      originalRate: rate.originalRate ?? null,
+      originalCurrency: rate.originalCurrency ?? null,
+      availability: rate.availability,
+      scrapedAt: rate.scrapedAt,
+    };
+  }
+}
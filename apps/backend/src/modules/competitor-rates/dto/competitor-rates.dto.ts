@@ -0,0 +1,259 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Competitor Availability
+ */
+export enum CompetitorAvailability {
+  AVAILABLE = 'AVAILABLE',
+  LIMITED = 'LIMITED',
+  SOLD_OUT = 'SOLD_OUT',
+}
+
+/**
+ * Where the rates of a shop came from
+ */
+export enum RateShopSource {
+  API = 'API',
+  FILE_IMPORT = 'FILE_IMPORT',
+}
+
+/**
+ * Rate Shop Status
+ */
+export enum RateShopStatus {
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Primary sets drive market averages; aspirational sets are for comparison
+ */
+export enum CompSetType {
+  PRIMARY = 'PRIMARY',
+  ASPIRATIONAL = 'ASPIRATIONAL',
+}
+
+/**
+ * Competitor Rate Query DTO
+ */
+export class CompetitorRateQueryDto {
+  @ApiProperty({ example: '2024-03-01' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2024-03-31' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({ example: 'STD', required: false })
+  @IsOptional()
+  @IsString()
+  roomTypeCode?: string;
+
+  @ApiProperty({ example: 'comp-set-id', description: 'Defaults to the primary comp set', required: false })
+  @IsOptional()
+  @IsString()
+  compSetId?: string;
+}
+
+/**
+ * Competitor Rate History Query DTO
+ */
+export class CompetitorRateHistoryQueryDto {
+  @ApiProperty({ example: '2024-03-15', description: 'Stay date' })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty({ example: 'competitor-property-id', required: false })
+  @IsOptional()
+  @IsString()
+  competitorPropertyId?: string;
+
+  @ApiProperty({ example: 'STD', required: false })
+  @IsOptional()
+  @IsString()
+  roomTypeCode?: string;
+}
+
+/**
+ * Rate Shop Query DTO
+ */
+export class RateShopQueryDto {
+  @ApiProperty({ example: 20, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  limit?: number;
+}
+
+/**
+ * Shop Rates DTO
+ */
+export class ShopRatesDto {
+  @ApiProperty({ example: 30, description: 'Stay dates shopped ahead of today', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  horizonDays?: number;
+
+  @ApiProperty({ example: ['STD', 'DLX'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  roomTypeCodes?: string[];
+}
+
+/**
+ * Update Rate Shop Schedule DTO
+ */
+export class UpdateRateShopScheduleDto extends ShopRatesDto {
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  isEnabled?: boolean;
+
+  @ApiProperty({ example: 24, description: 'Hours between scheduled shops', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(168)
+  intervalHours?: number;
+}
+
+/**
+ * Create Competitor DTO
+ */
+export class CreateCompetitorDto {
+  @ApiProperty({ example: 'Grand Hotel Downtown' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @ApiProperty({ example: 'GRAND_DOWNTOWN', description: 'Competitor code used by the rate shopper' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  code: string;
+
+  @ApiProperty({ example: '1 Main Street', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  address?: string;
+
+  @ApiProperty({ example: 4, required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  starRating?: number;
+
+  @ApiProperty({
+    example: { 'Classic King': 'STD', 'Junior Suite': 'STE' },
+    description: 'Competitor room category to our room type code',
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  roomTypeMappings?: Record<string, string>;
+}
+
+/**
+ * Update Competitor DTO
+ */
+export class UpdateCompetitorDto extends PartialType(OmitType(CreateCompetitorDto, ['code'] as const)) {
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+/**
+ * Comp Set Member DTO
+ */
+export class CompSetMemberDto {
+  @ApiProperty({ example: 'competitor-property-id' })
+  @IsString()
+  @IsNotEmpty()
+  competitorPropertyId: string;
+
+  @ApiProperty({ example: 1, description: 'Relative weight in market averages; 1 is normal', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(10)
+  weight?: number;
+}
+
+/**
+ * Create Comp Set DTO
+ */
+export class CreateCompSetDto {
+  @ApiProperty({ example: 'Downtown primary' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: CompSetType, example: CompSetType.PRIMARY, required: false })
+  @IsOptional()
+  @IsEnum(CompSetType)
+  type?: CompSetType;
+
+  @ApiProperty({ example: 'Upscale hotels within 2 km', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ type: [CompSetMemberDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CompSetMemberDto)
+  members: CompSetMemberDto[];
+}
+
+/**
+ * Update Comp Set DTO
+ */
+export class UpdateCompSetDto extends PartialType(CreateCompSetDto) {}
+
+/**
+ * Comp Set Market Query DTO
+ */
+export class CompSetMarketQueryDto {
+  @ApiProperty({ example: '2024-03-01' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2024-03-31' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({ example: 'STD', description: 'Our room type code', required: false })
+  @IsOptional()
+  @IsString()
+  roomTypeCode?: string;
+}
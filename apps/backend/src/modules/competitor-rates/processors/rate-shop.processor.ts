@@ -0,0 +1,45 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { Process, Processor, InjectQueue } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+
+import { CompetitorRateIngestionService } from '../competitor-rate-ingestion.service';
+
+export const RATE_SHOP_QUEUE = 'rate-shop';
+
+const DUE_SHOP_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Rate Shop Processor
+ *
+ * Checks every quarter hour for properties whose rate shop schedule is due,
+ * and shops their competitor rates.
+ */
+@Processor(RATE_SHOP_QUEUE)
+export class RateShopProcessor implements OnModuleInit {
+  private readonly logger = new Logger(RateShopProcessor.name);
+
+  constructor(
+    private readonly ingestionService: CompetitorRateIngestionService,
+    @InjectQueue(RATE_SHOP_QUEUE) private readonly rateShopQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.rateShopQueue.add(
+        'shop-due',
+        {},
+        { jobId: 'rate-shop-due', repeat: { every: DUE_SHOP_CHECK_INTERVAL_MS } },
+      );
+    } catch (error) {
+      this.logger.warn(`Could not schedule rate shops: ${error.message}`);
+    }
+  }
+
+  @Process('shop-due')
+  async handleDueShops(job: Job) {
+    const results = await this.ingestionService.runDueShops();
+    const failed = results.filter(result => result.error).length;
+    this.logger.debug(`Rate shop ${job.id}: ${results.length} properties, ${failed} failed`);
+    return { properties: results.length, failed };
+  }
+}
@@ -0,0 +1,212 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+
+import { DatabaseService } from '../database/database.service';
+import { CompSetsService } from './comp-sets.service';
+import { CompetitorAvailability } from './dto/competitor-rates.dto';
+
+export interface CompetitorRate {
+  competitorId: string;
+  competitorName: string;
+  roomTypeCode: string;
+  rate: number;
+  currency: string;
+  date: Date;
+  availability: boolean;
+  weight?: number; // Comp set weight; 1 when absent
+}
+
+/**
+ * One competitor rate as delivered by a rate shopper, before it is stored
+ */
+export interface CompetitorRateInput {
+  competitorCode: string;
+  competitorName?: string;
+  roomTypeCode?: string;
+  date: string; // YYYY-MM-DD
+  rate: number | null;
+  currency?: string;
+  availability?: string;
+  scrapedAt?: string;
+  rowNumber?: number;
+}
+
+/**
+ * Rate Shopper Service
+ *
+ * Adapter for the external rate shopping API and reader of the stored results:
+ * - Competitor rate collection for a property and date range
+ * - Translation of shopper responses and exports to competitor rate inputs
+ * - Latest stored competitor rates of the primary comp set for recommendations
+ * - Connection testing
+ */
+@Injectable()
+export class RateShopperService {
+  private readonly logger = new Logger(RateShopperService.name);
+  private readonly apiUrl: string;
+  private readonly apiKey: string;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+    private readonly databaseService: DatabaseService,
+    private readonly compSetsService: CompSetsService,
+  ) {
+    this.apiUrl = this.configService.get<string>('RATE_SHOPPER_API_URL', 'https://api.rateshopper.com/v1');
+    this.apiKey = this.configService.get<string>('RATE_SHOPPER_API_KEY', '');
+  }
+
+  /**
+   * Whether an API key is configured; without one, rates can only be uploaded
+   */
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  /**
+   * Collect competitor rates for a property and date range from the rate shopper API
+   */
+  async collectCompetitorRates(
+    propertyId: string,
+    startDate: Date,
+    endDate: Date,
+    roomTypeCodes?: string[],
+  ): Promise<CompetitorRateInput[]> {
+    if (!this.apiKey) {
+      throw new Error('Rate Shopper API key not configured');
+    }
+
+    this.logger.log(`Collecting competitor rates for property ${propertyId}`);
+
+    const response = await firstValueFrom(
+      this.httpService.post(
+        `${this.apiUrl}/rates/search`,
+        {
+          propertyId,
+          startDate: startDate.toISOString().split('T')[0],
+          endDate: endDate.toISOString().split('T')[0],
+          roomTypes: roomTypeCodes?.length ? roomTypeCodes : undefined,
+          includeCompetitors: true,
+          maxResults: 100,
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          timeout: 30000,
+        }
+      )
+    );
+
+    const competitorRates = this.transformRateShopperData(response.data);
+
+    this.logger.log(`Collected ${competitorRates.length} competitor rates`);
+    return competitorRates;
+  }
+
+  /**
+   * Get the latest stored competitor rates of a property's stay dates, for
+   * the primary comp set, with room categories mapped to our room type codes
+   */
+  async getCompetitorRates(
+    propertyId: string,
+    startDate: Date,
+    endDate: Date,
+    roomTypeIds?: string[],
+  ): Promise<CompetitorRate[]> {
+    const [roomTypes, weighting, rates] = await Promise.all([
+      roomTypeIds?.length
+        ? this.databaseService.roomType.findMany({
+            where: { propertyId, id: { in: roomTypeIds } },
+          })
+        : [],
+      this.compSetsService.loadWeighting(propertyId),
+      this.databaseService.competitorRate.findMany({
+        where: {
+          propertyId,
+          date: { gte: startDate, lte: endDate },
+        },
+        include: { competitorProperty: true },
+        orderBy: { date: 'asc' },
+      }),
+    ]);
+    const roomTypeCodes = new Set(roomTypes.map(roomType => roomType.code));
+
+    return (await this.compSetsService.weighRates(weighting, rates))
+      .filter(rate => !roomTypeCodes.size || roomTypeCodes.has(rate.roomTypeCode))
+      .map(rate => ({
+        competitorId: rate.competitorPropertyId,
+        competitorName: rate.competitorProperty?.name ?? rate.competitorPropertyId,
+        roomTypeCode: rate.roomTypeCode,
+        rate: parseFloat(rate.rate.toString()),
+        currency: rate.currency,
+        date: new Date(rate.date),
+        availability: rate.availability !== CompetitorAvailability.SOLD_OUT,
+        weight: rate.weight,
+      }));
+  }
+
+  /**
+   * Transform a Rate Shopper API response, or a JSON export in the same
+   * format, to competitor rate inputs
+   */
+  transformRateShopperData(apiData: any): CompetitorRateInput[] {
+    const competitorRates: CompetitorRateInput[] = [];
+
+    if (apiData?.competitors && Array.isArray(apiData.competitors)) {
+      for (const competitor of apiData.competitors) {
+        for (const rate of competitor.rates || []) {
+          competitorRates.push({
+            competitorCode: String(competitor.code ?? competitor.id ?? ''),
+            competitorName: competitor.name,
+            roomTypeCode: rate.roomType,
+            date: String(rate.date ?? '').slice(0, 10),
+            rate: rate.amount !== undefined && rate.amount !== null ? parseFloat(rate.amount) : null,
+            currency: rate.currency,
+            availability: rate.availability
+              ?? (rate.available === false ? CompetitorAvailability.SOLD_OUT : undefined),
+            scrapedAt: rate.scrapedAt ?? apiData.scrapedAt,
+          });
+        }
+      }
+    }
+
+    return competitorRates;
+  }
+
+  /**
+   * Test connection to Rate Shopper API
+   */
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    try {
+      if (!this.apiKey) {
+        return {
+          success: false,
+          message: 'Rate Shopper API key not configured',
+        };
+      }
+
+      const response = await firstValueFrom(
+        this.httpService.get(`${this.apiUrl}/health`, {
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+          },
+          timeout: 10000,
+        })
+      );
+
+      return {
+        success: true,
+        message: 'Rate Shopper connection successful',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Rate Shopper connection failed: ${error.message}`,
+      };
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+
+import { FxRatesService } from './fx-rates.service';
+import { PortfolioRollupService } from './portfolio-rollup.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { FxRateQueryDto, PortfolioRevenueQueryDto } from './dto/currency.dto';
+
+const MAX_FX_RATE_FILE_SIZE = 5 * 1024 * 1024; // bytes
+
+/**
+ * Currency Controller
+ *
+ * REST API endpoints for currencies:
+ * - Daily exchange rates, and uploads of exchange rate files
+ * - The currency of a property and its reporting currency
+ * - Portfolio revenue converted to the reporting currency
+ */
+@ApiTags('currency')
+@Controller()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class CurrencyController {
+  constructor(
+    private readonly fxRatesService: FxRatesService,
+    private readonly portfolioRollupService: PortfolioRollupService,
+  ) {}
+
+  @Get('fx-rates')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get the exchange rates of a date' })
+  @ApiResponse({ status: 200, description: 'Exchange rates retrieved successfully' })
+  async getRates(@Query() query: FxRateQueryDto) {
+    return this.fxRatesService.getRates(query);
+  }
+
+  /**
+   * Import a CSV, XLSX or JSON file of daily exchange rates
+   */
+  @Post('fx-rates/import')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.CORPORATE_ADMIN)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_FX_RATE_FILE_SIZE } }))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } } } })
+  @ApiOperation({ summary: 'Import an exchange rate file' })
+  @ApiResponse({ status: 200, description: 'Exchange rates stored' })
+  @ApiResponse({ status: 400, description: 'Unsupported, empty or malformed file' })
+  async importRates(
+    @UploadedFile() file: Express.Multer.File,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.fxRatesService.importFile(file, user.id);
+  }
+
+  @Get('properties/:propertyId/currency')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get the currency of a property' })
+  @ApiResponse({ status: 200, description: 'Property and reporting currency retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Property not found' })
+  async getPropertyCurrency(@Param('propertyId') propertyId: string) {
+    return this.fxRatesService.getPropertyCurrency(propertyId);
+  }
+
+  /**
+   * Revenue of every property of an organization in one currency
+   */
+  @Get('organizations/:organizationId/portfolio/revenue')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get portfolio revenue in the reporting currency' })
+  @ApiResponse({ status: 200, description: 'Portfolio revenue retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async getPortfolioRevenue(
+    @Param('organizationId') organizationId: string,
+    @Query() query: PortfolioRevenueQueryDto,
+  ) {
+    return this.portfolioRollupService.getRevenue(organizationId, query);
+  }
+}
@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { BullModule } from '@nestjs/bull';
+
+import { DatabaseModule } from '../database/database.module';
+import { CurrencyController } from './currency.controller';
+import { FxRatesService } from './fx-rates.service';
+import { PortfolioRollupService } from './portfolio-rollup.service';
+import { FxRatesProcessor, FX_RATES_QUEUE } from './processors/fx-rates.processor';
+
+/**
+ * Currency Module
+ *
+ * Currencies of properties and portfolios:
+ * - Daily exchange rate tables from a rates file, uploads or a stand-in table
+ * - Conversion of competitor rates to the property currency
+ * - Portfolio revenue rollups in the organization reporting currency
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    DatabaseModule,
+    BullModule.registerQueue({
+      name: FX_RATES_QUEUE,
+      defaultJobOptions: {
+        attempts: 1, // Repeating job; a failed refresh is retried by the next run
+        removeOnComplete: 20,
+        removeOnFail: 20,
+      },
+    }),
+  ],
+  controllers: [CurrencyController],
+  providers: [FxRatesService, PortfolioRollupService, FxRatesProcessor],
+  exports: [FxRatesService],
+})
+export class CurrencyModule {}
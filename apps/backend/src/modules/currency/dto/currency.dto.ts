@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsString, Length, Matches } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+/**
+ * Where an exchange rate came from; stand-in rates are built in and never stored
+ */
+export enum FxRateSource {
+  FILE = 'FILE',
+  UPLOAD = 'UPLOAD',
+  STAND_IN = 'STAND_IN',
+}
+
+/**
+ * FX Rate Query DTO
+ */
+export class FxRateQueryDto {
+  @ApiProperty({ required: false, example: '2024-03-01', description: 'Rates in effect on this date; defaults to today' })
+  @IsOptional()
+  @IsDateString()
+  date?: string;
+
+  @ApiProperty({ required: false, example: 'USD', description: 'Express every rate against this currency' })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  @Matches(/^[A-Za-z]{3}$/)
+  @Transform(({ value }) => typeof value === 'string' ? value.toUpperCase() : value)
+  base?: string;
+}
+
+/**
+ * Portfolio Revenue Query DTO
+ */
+export class PortfolioRevenueQueryDto {
+  @ApiProperty({ example: '2024-03-01' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2024-03-31' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({ required: false, example: 'EUR', description: 'Defaults to the organization reporting currency' })
+  @IsOptional()
+  @IsString()
+  @Length(3, 3)
+  @Matches(/^[A-Za-z]{3}$/)
+  @Transform(({ value }) => typeof value === 'string' ? value.toUpperCase() : value)
+  currency?: string;
+}
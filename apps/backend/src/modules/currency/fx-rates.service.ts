@@ -0,0 +1,544 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import { DatabaseService } from '../database/database.service';
+import { toDateOnly } from '../../common/dates/business-date';
+import { parseTabularFile, TABULAR_FILE_EXTENSIONS } from '../../common/files/tabular-file.parser';
+import { FxRateQueryDto, FxRateSource } from './dto/currency.dto';
+
+/**
+ * Currency that rates without a direct pair are crossed through
+ */
+export const FX_PIVOT_CURRENCY = 'USD';
+
+// Approximate units per US dollar, used while no rates are loaded for a currency
+const STAND_IN_USD_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CHF: 0.88,
+  JPY: 150,
+  CNY: 7.2,
+  SGD: 1.34,
+  AUD: 1.52,
+  CAD: 1.36,
+  NZD: 1.65,
+  INR: 83.1,
+  IDR: 15600,
+  THB: 35.5,
+  MYR: 4.7,
+  MVR: 15.42,
+  LKR: 300,
+  AED: 3.6725,
+  SAR: 3.75,
+  QAR: 3.64,
+  OMR: 0.385,
+  BHD: 0.376,
+  KWD: 0.307,
+  EGP: 48.5,
+  ZAR: 18.5,
+  TRY: 34,
+  MXN: 18,
+  BRL: 5.5,
+};
+
+const FX_LOOKBACK_DAYS = 31; // A day without rates uses the latest of this many days before it
+const MAX_FX_RATE_ROWS = 50000;
+
+type FxRateColumn = 'date' | 'baseCurrency' | 'quoteCurrency' | 'rate';
+
+// Normalised header spellings of each rate file column
+const COLUMN_ALIASES: Record<FxRateColumn, string[]> = {
+  date: ['date', 'ratedate', 'day', 'asof'],
+  baseCurrency: ['base', 'basecurrency', 'from', 'fromcurrency'],
+  quoteCurrency: ['quote', 'quotecurrency', 'to', 'tocurrency', 'currency', 'target'],
+  rate: ['rate', 'exchangerate', 'fxrate', 'value'],
+};
+const REQUIRED_COLUMNS: FxRateColumn[] = ['date', 'quoteCurrency', 'rate'];
+
+interface FxRateInput {
+  date: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number | null;
+  rowNumber: number;
+}
+
+export interface FxQuote {
+  rate: number;
+  source: FxRateSource;
+  asOf: string | null; // Date of the oldest loaded rate used; null for stand-in rates
+}
+
+export interface FxRateImportResult {
+  received: number;
+  stored: number;
+  dates: string[];
+  skipped: Array<{ rowNumber?: number; reason: string }>;
+}
+
+/**
+ * An amount converted from the currency it was quoted in
+ */
+export interface ConvertedRate {
+  rate: number;
+  currency: string;
+  originalRate: number;
+  originalCurrency: string;
+}
+
+interface FxSeriesPoint {
+  date: string;
+  rate: number;
+  source: FxRateSource;
+}
+
+/**
+ * Exchange rates of a date range, resolved in memory: a direct or inverse
+ * pair, else a cross through the pivot currency, else the stand-in table
+ */
+export class FxTable {
+  constructor(private readonly series: Map<string, FxSeriesPoint[]>) {}
+
+  quote(from: string, to: string, date: Date | string): FxQuote | null {
+    if (from === to) {
+      return { rate: 1, source: FxRateSource.STAND_IN, asOf: null };
+    }
+
+    const day = typeof date === 'string' ? date.slice(0, 10) : date.toISOString().split('T')[0];
+    const direct = this.pairQuote(from, to, day);
+    if (direct || from === FX_PIVOT_CURRENCY || to === FX_PIVOT_CURRENCY) {
+      return direct ?? this.standIn(from, to);
+    }
+
+    const toPivot = this.pairQuote(from, FX_PIVOT_CURRENCY, day) ?? this.standIn(from, FX_PIVOT_CURRENCY);
+    const fromPivot = this.pairQuote(FX_PIVOT_CURRENCY, to, day) ?? this.standIn(FX_PIVOT_CURRENCY, to);
+    if (!toPivot || !fromPivot) {
+      return null;
+    }
+
+    const legs = [toPivot, fromPivot];
+    const loaded = legs.filter(leg => leg.asOf !== null);
+    return {
+      rate: toPivot.rate * fromPivot.rate,
+      source: loaded.length === legs.length ? loaded[0].source : FxRateSource.STAND_IN,
+      asOf: loaded.length ? loaded.map(leg => leg.asOf as string).sort()[0] : null,
+    };
+  }
+
+  /**
+   * Convert an amount at the rate of a date; null without any rate
+   */
+  convert(amount: number, from: string, to: string, date: Date | string): number | null {
+    const quote = this.quote(from, to, date);
+    return quote ? Math.round(amount * quote.rate * 100) / 100 : null;
+  }
+
+  private pairQuote(base: string, quote: string, day: string): FxQuote | null {
+    const direct = this.latest(`${base}|${quote}`, day);
+    if (direct) {
+      return { rate: direct.rate, source: direct.source, asOf: direct.date };
+    }
+
+    const inverse = this.latest(`${quote}|${base}`, day);
+    return inverse ? { rate: 1 / inverse.rate, source: inverse.source, asOf: inverse.date } : null;
+  }
+
+  private latest(key: string, day: string): FxSeriesPoint | null {
+    let found: FxSeriesPoint | null = null;
+    for (const point of this.series.get(key) ?? []) {
+      if (point.date > day) {
+        break;
+      }
+      found = point;
+    }
+    return found;
+  }
+
+  private standIn(from: string, to: string): FxQuote | null {
+    const fromRate = STAND_IN_USD_RATES[from];
+    const toRate = STAND_IN_USD_RATES[to];
+    return fromRate && toRate ? { rate: toRate / fromRate, source: FxRateSource.STAND_IN, asOf: null } : null;
+  }
+}
+
+/**
+ * FX Rates Service
+ *
+ * Daily exchange rate tables and currency conversion:
+ * - Daily rates loaded from the configured rates file, or uploaded
+ * - A built-in stand-in table for currencies without loaded rates
+ * - Conversion of competitor rates to the currency of our property
+ */
+@Injectable()
+export class FxRatesService {
+  private readonly logger = new Logger(FxRatesService.name);
+  private readonly ratesFile: string;
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly configService: ConfigService,
+  ) {
+    this.ratesFile = this.configService.get<string>('FX_RATES_FILE', '');
+  }
+
+  /**
+   * Exchange rates in effect on a date, against one base currency
+   */
+  async getRates(query: FxRateQueryDto) {
+    const date = toDateOnly(query.date ? new Date(query.date) : new Date());
+    const base = query.base ?? FX_PIVOT_CURRENCY;
+    const rows = await this.databaseService.fxRate.findMany({
+      where: { date: { gte: this.addDays(date, -FX_LOOKBACK_DAYS), lte: date } },
+      orderBy: { date: 'asc' },
+    });
+    const table = this.toTable(rows);
+
+    const currencies = new Set([
+      ...Object.keys(STAND_IN_USD_RATES),
+      ...rows.flatMap(row => [row.baseCurrency, row.quoteCurrency]),
+    ]);
+
+    return {
+      base,
+      date: this.formatDate(date),
+      rates: [...currencies]
+        .filter(currency => currency !== base)
+        .sort()
+        .map(currency => ({ currency, quote: table.quote(base, currency, date) }))
+        .filter(({ quote }) => quote !== null)
+        .map(({ currency, quote }) => ({ currency, ...quote })),
+    };
+  }
+
+  /**
+   * Currency of a property, and the reporting currency of its organization
+   */
+  async getPropertyCurrency(propertyId: string) {
+    const property = await this.databaseService.property.findUnique({
+      where: { id: propertyId },
+      include: { organization: true },
+    });
+    if (!property) {
+      throw new NotFoundException(`Property ${propertyId} not found`);
+    }
+
+    return {
+      propertyId,
+      currency: property.currency,
+      reportingCurrency: property.organization?.reportingCurrency ?? FX_PIVOT_CURRENCY,
+    };
+  }
+
+  /**
+   * Exchange rates of a date range between a set of currencies
+   */
+  async loadTable(currencies: string[], startDate: Date, endDate: Date): Promise<FxTable> {
+    const codes = [...new Set([...currencies, FX_PIVOT_CURRENCY])];
+    if (codes.length < 2) {
+      return new FxTable(new Map());
+    }
+
+    const rows = await this.databaseService.fxRate.findMany({
+      where: {
+        baseCurrency: { in: codes },
+        quoteCurrency: { in: codes },
+        date: { gte: this.addDays(toDateOnly(startDate), -FX_LOOKBACK_DAYS), lte: endDate },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    return this.toTable(rows);
+  }
+
+  /**
+   * Convert rates to one currency at the exchange rate of the day they were
+   * quoted; rates in a currency without any exchange rate are left out
+   */
+  async convertRates<T extends { rate: unknown; currency: string | null; scrapedAt?: Date | null; date?: Date }>(
+    rates: T[],
+    currency: string,
+  ): Promise<Array<Omit<T, 'rate' | 'currency'> & ConvertedRate>> {
+    const quotedOn = (rate: T) => new Date(rate.scrapedAt ?? rate.date ?? Date.now());
+    const foreign = rates.filter(rate => rate.currency && rate.currency !== currency);
+    const days = foreign.map(rate => quotedOn(rate).getTime());
+    const table = foreign.length
+      ? await this.loadTable(
+          [currency, ...foreign.map(rate => rate.currency as string)],
+          new Date(days.reduce((min, day) => Math.min(min, day))),
+          new Date(days.reduce((max, day) => Math.max(max, day))),
+        )
+      : null;
+
+    const converted: Array<Omit<T, 'rate' | 'currency'> & ConvertedRate> = [];
+    const missing = new Set<string>();
+
+    for (const rate of rates) {
+      const originalRate = parseFloat(String(rate.rate));
+      const originalCurrency = rate.currency || currency;
+      const value = originalCurrency === currency
+        ? originalRate
+        : table?.convert(originalRate, originalCurrency, currency, quotedOn(rate)) ?? null;
+
+      if (value === null) {
+        missing.add(originalCurrency);
+        continue;
+      }
+
+      converted.push({ ...rate, rate: value, currency, originalRate, originalCurrency });
+    }
+
+    if (missing.size) {
+      this.logger.warn(`No exchange rate from ${[...missing].join(', ')} to ${currency}; those rates were left out`);
+    }
+
+    return converted;
+  }
+
+  /**
+   * Convert rates to the currency of a property
+   */
+  async convertToPropertyCurrency<T extends { rate: unknown; currency: string | null; scrapedAt?: Date | null; date?: Date }>(
+    propertyId: string,
+    rates: T[],
+  ) {
+    const { currency } = await this.getPropertyCurrency(propertyId);
+    return this.convertRates(rates, currency);
+  }
+
+  /**
+   * Load the configured rates file; without one every conversion uses the
+   * stand-in table until rates are uploaded
+   */
+  async refreshFromFile(): Promise<FxRateImportResult | null> {
+    if (!this.ratesFile) {
+      this.logger.debug('No exchange rate file configured; using stand-in rates');
+      return null;
+    }
+
+    const buffer = await fs.readFile(this.ratesFile);
+    return this.importRates(buffer, path.basename(this.ratesFile), FxRateSource.FILE);
+  }
+
+  /**
+   * Import an uploaded exchange rate file
+   */
+  async importFile(file: Express.Multer.File, userId: string): Promise<FxRateImportResult> {
+    if (!file) {
+      throw new BadRequestException('An exchange rate file is required');
+    }
+
+    const result = await this.importRates(file.buffer, file.originalname, FxRateSource.UPLOAD);
+
+    await this.databaseService.auditLog.create({
+      data: {
+        userId,
+        action: 'IMPORT',
+        entityType: 'FX_RATE',
+        entityId: file.originalname,
+        changes: { received: result.received, stored: result.stored, dates: result.dates, skipped: result.skipped.length },
+        source: 'IMPORT',
+      },
+    });
+
+    return result;
+  }
+
+  // Private helper methods
+
+  private async importRates(buffer: Buffer, fileName: string, source: FxRateSource): Promise<FxRateImportResult> {
+    const inputs = await this.parseRateFile(buffer, fileName);
+    const skipped: FxRateImportResult['skipped'] = [];
+    const rates = inputs.filter(input => {
+      const reason = this.validateInput(input);
+      if (reason) {
+        skipped.push({ rowNumber: input.rowNumber, reason });
+      }
+      return !reason;
+    });
+
+    await this.databaseService.$transaction(async (tx) => {
+      for (const rate of rates) {
+        const date = new Date(`${rate.date}T00:00:00.000Z`);
+        await tx.fxRate.upsert({
+          where: {
+            baseCurrency_quoteCurrency_date: {
+              baseCurrency: rate.baseCurrency,
+              quoteCurrency: rate.quoteCurrency,
+              date,
+            },
+          },
+          create: { baseCurrency: rate.baseCurrency, quoteCurrency: rate.quoteCurrency, date, rate: rate.rate, source },
+          update: { rate: rate.rate, source },
+        });
+      }
+    });
+
+    const dates = [...new Set(rates.map(rate => rate.date))].sort();
+    this.logger.log(`Stored ${rates.length} of ${inputs.length} exchange rates from ${fileName}, ${skipped.length} skipped`);
+
+    return { received: inputs.length, stored: rates.length, dates, skipped };
+  }
+
+  private validateInput(input: FxRateInput): string | null {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date) || isNaN(new Date(`${input.date}T00:00:00.000Z`).getTime())) {
+      return `Invalid date "${input.date}"`;
+    }
+    if (!/^[A-Z]{3}$/.test(input.baseCurrency) || !/^[A-Z]{3}$/.test(input.quoteCurrency)) {
+      return `Invalid currency pair "${input.baseCurrency}/${input.quoteCurrency}"`;
+    }
+    if (input.baseCurrency === input.quoteCurrency) {
+      return `Base and quote currency are both ${input.baseCurrency}`;
+    }
+    if (input.rate === null || !Number.isFinite(input.rate) || input.rate <= 0) {
+      return `Invalid rate "${input.rate ?? ''}"`;
+    }
+    return null;
+  }
+
+  private async parseRateFile(buffer: Buffer, fileName: string): Promise<FxRateInput[]> {
+    const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+    if (extension !== 'json' && !TABULAR_FILE_EXTENSIONS.includes(extension)) {
+      throw new BadRequestException('Only .csv, .xlsx and .json files can be imported');
+    }
+
+    const inputs = extension === 'json'
+      ? this.parseJsonRates(buffer)
+      : await this.parseTabularRates(buffer, fileName);
+
+    if (!inputs.length) {
+      throw new BadRequestException('The exchange rate file is empty');
+    }
+    if (inputs.length > MAX_FX_RATE_ROWS) {
+      throw new BadRequestException(`Exchange rate files are limited to ${MAX_FX_RATE_ROWS} rates`);
+    }
+
+    return inputs;
+  }
+
+  /**
+   * JSON files are either a list of rates with the same fields as the CSV
+   * columns, or one or more daily tables of { base, date, rates: { EUR: 0.92 } }
+   */
+  private parseJsonRates(buffer: Buffer): FxRateInput[] {
+    let data: any;
+    try {
+      data = JSON.parse(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+    } catch (error) {
+      throw new BadRequestException('The file is not valid JSON');
+    }
+
+    const entries: any[] = Array.isArray(data) ? data : [data];
+    const inputs: FxRateInput[] = [];
+
+    entries.forEach((entry, index) => {
+      if (entry?.rates && typeof entry.rates === 'object' && !Array.isArray(entry.rates)) {
+        for (const [quoteCurrency, rate] of Object.entries(entry.rates)) {
+          inputs.push(this.toInput({
+            date: String(entry.date ?? ''),
+            baseCurrency: String(entry.base ?? FX_PIVOT_CURRENCY),
+            quoteCurrency,
+            rate: String(rate),
+          }, index + 1));
+        }
+        return;
+      }
+
+      const fields = Object.keys(entry ?? {});
+      const columns = this.mapColumns(fields);
+      const cell = (column: FxRateColumn) => {
+        const value = columns[column] !== undefined ? entry[fields[columns[column]]] : undefined;
+        return value === undefined || value === null ? '' : String(value);
+      };
+      inputs.push(this.toInput({
+        date: cell('date'),
+        baseCurrency: cell('baseCurrency'),
+        quoteCurrency: cell('quoteCurrency'),
+        rate: cell('rate'),
+      }, index + 1));
+    });
+
+    return inputs;
+  }
+
+  private async parseTabularRates(buffer: Buffer, fileName: string): Promise<FxRateInput[]> {
+    const [header, ...rows] = (await parseTabularFile(buffer, fileName))
+      .filter(row => row.some(cell => cell.trim() !== ''));
+
+    if (!header) {
+      return [];
+    }
+
+    const columns = this.mapColumns(header);
+    const missing = REQUIRED_COLUMNS.filter(column => columns[column] === undefined);
+    if (missing.length) {
+      throw new BadRequestException(`Missing exchange rate columns: ${missing.join(', ')}`);
+    }
+
+    return rows.map((row, index) => {
+      const cell = (column: FxRateColumn) =>
+        columns[column] !== undefined ? row[columns[column]] ?? '' : '';
+
+      return this.toInput({
+        date: cell('date'),
+        baseCurrency: cell('baseCurrency'),
+        quoteCurrency: cell('quoteCurrency'),
+        rate: cell('rate'),
+      }, index + 2); // 1-based, after the header row
+    });
+  }
+
+  private toInput(cells: Record<FxRateColumn, string>, rowNumber: number): FxRateInput {
+    const rate = cells.rate.replace(/[^0-9.\-eE]/g, '');
+
+    return {
+      date: cells.date.trim().slice(0, 10),
+      baseCurrency: (cells.baseCurrency.trim() || FX_PIVOT_CURRENCY).toUpperCase(),
+      quoteCurrency: cells.quoteCurrency.trim().toUpperCase(),
+      rate: rate ? Number(rate) : null,
+      rowNumber,
+    };
+  }
+
+  private mapColumns(header: string[]): Partial<Record<FxRateColumn, number>> {
+    const normalized = header.map(column => column.toLowerCase().replace(/[^a-z0-9]/g, ''));
+    const columns: Partial<Record<FxRateColumn, number>> = {};
+
+    (Object.keys(COLUMN_ALIASES) as FxRateColumn[]).forEach(column => {
+      const index = normalized.findIndex(name => COLUMN_ALIASES[column].includes(name));
+      if (index !== -1 && !Object.values(columns).includes(index)) {
+        columns[column] = index;
+      }
+    });
+
+    return columns;
+  }
+
+  private toTable(rows: any[]): FxTable {
+    const series = new Map<string, FxSeriesPoint[]>();
+    for (const row of rows) {
+      const key = `${row.baseCurrency}|${row.quoteCurrency}`;
+      if (!series.has(key)) {
+        series.set(key, []);
+      }
+      series.get(key).push({
+        date: this.formatDate(new Date(row.date)),
+        rate: parseFloat(row.rate.toString()),
+        source: row.source as FxRateSource,
+      });
+    }
+    return new FxTable(series);
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result;
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
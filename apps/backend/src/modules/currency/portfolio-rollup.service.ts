@@ -0,0 +1,111 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { FxRatesService, FX_PIVOT_CURRENCY } from './fx-rates.service';
+import { PortfolioRevenueQueryDto } from './dto/currency.dto';
+
+export interface PropertyRevenueRollup {
+  propertyId: string;
+  propertyName: string;
+  currency: string;
+  roomNights: number;
+  revenue: number; // In the property currency
+  convertedRevenue: number; // In the reporting currency
+  adr: number | null; // In the reporting currency
+  unconvertedNights: number; // Nights without an exchange rate, left out of the converted revenue
+}
+
+/**
+ * Portfolio Rollup Service
+ *
+ * Revenue of every property of an organization, each night converted from the
+ * property currency to the reporting currency at that stay date's exchange rate.
+ */
+@Injectable()
+export class PortfolioRollupService {
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly fxRatesService: FxRatesService,
+  ) {}
+
+  async getRevenue(organizationId: string, query: PortfolioRevenueQueryDto) {
+    const organization = await this.databaseService.organization.findUnique({
+      where: { id: organizationId },
+      include: { properties: { where: { isActive: true } } },
+    });
+    if (!organization) {
+      throw new NotFoundException(`Organization ${organizationId} not found`);
+    }
+
+    const currency = query.currency ?? organization.reportingCurrency ?? FX_PIVOT_CURRENCY;
+    const startDate = new Date(query.startDate);
+    const endDate = new Date(query.endDate);
+    const properties: any[] = organization.properties ?? [];
+
+    const [nights, table] = await Promise.all([
+      this.databaseService.stayNight.findMany({
+        where: {
+          propertyId: { in: properties.map(property => property.id) },
+          stayDate: { gte: startDate, lte: endDate },
+          cancelledAt: null,
+        },
+      }),
+      this.fxRatesService.loadTable([currency, ...properties.map(property => property.currency)], startDate, endDate),
+    ]);
+
+    let totalConvertedRoomNights = 0;
+    const rollups: PropertyRevenueRollup[] = properties.map(property => {
+      const propertyNights = nights.filter(night => night.propertyId === property.id);
+      let revenue = 0;
+      let convertedRevenue = 0;
+      let convertedRoomNights = 0;
+      let unconvertedNights = 0;
+
+      for (const night of propertyNights) {
+        const amount = parseFloat(night.revenue.toString());
+        const converted = table.convert(amount, property.currency, currency, new Date(night.stayDate));
+        revenue += amount;
+
+        if (converted === null) {
+          unconvertedNights++;
+          continue;
+        }
+        convertedRevenue += converted;
+        convertedRoomNights += night.rooms;
+      }
+      totalConvertedRoomNights += convertedRoomNights;
+
+      return {
+        propertyId: property.id,
+        propertyName: property.name,
+        currency: property.currency,
+        roomNights: propertyNights.reduce((sum, night) => sum + night.rooms, 0),
+        revenue: this.round(revenue),
+        convertedRevenue: this.round(convertedRevenue),
+        adr: convertedRoomNights ? this.round(convertedRevenue / convertedRoomNights) : null,
+        unconvertedNights,
+      };
+    });
+
+    const totalRevenue = rollups.reduce((sum, rollup) => sum + rollup.convertedRevenue, 0);
+
+    return {
+      organizationId,
+      currency,
+      startDate: query.startDate,
+      endDate: query.endDate,
+      properties: rollups,
+      totals: {
+        roomNights: rollups.reduce((sum, rollup) => sum + rollup.roomNights, 0),
+        revenue: this.round(totalRevenue),
+        adr: totalConvertedRoomNights ? this.round(totalRevenue / totalConvertedRoomNights) : null,
+      },
+    };
+  }
+
+  // Private helper methods
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,44 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { Process, Processor, InjectQueue } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+
+import { FxRatesService } from '../fx-rates.service';
+
+export const FX_RATES_QUEUE = 'fx-rates';
+
+const FX_REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * FX Rates Processor
+ *
+ * Reloads the configured exchange rate file every six hours, so each day's
+ * rates are stored soon after the file is updated.
+ */
+@Processor(FX_RATES_QUEUE)
+export class FxRatesProcessor implements OnModuleInit {
+  private readonly logger = new Logger(FxRatesProcessor.name);
+
+  constructor(
+    private readonly fxRatesService: FxRatesService,
+    @InjectQueue(FX_RATES_QUEUE) private readonly fxRatesQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.fxRatesQueue.add(
+        'refresh',
+        {},
+        { jobId: 'fx-rates-refresh', repeat: { every: FX_REFRESH_INTERVAL_MS } },
+      );
+    } catch (error) {
+      this.logger.warn(`Could not schedule exchange rate refreshes: ${error.message}`);
+    }
+  }
+
+  @Process('refresh')
+  async handleRefresh(job: Job) {
+    const result = await this.fxRatesService.refreshFromFile();
+    this.logger.debug(`Exchange rate refresh ${job.id}: ${result ? `${result.stored} rates stored` : 'no rates file'}`);
+    return result ?? { stored: 0 };
+  }
+}
@@ -32,46 +32,264 @@ export class DatabaseService {
       this.logger.debug('Mock rateInventory.create called', data);
       return { id: 'mock_id', ...data.data };
     },
+
+    findUnique: async (query: any) => {
+      this.logger.debug('Mock rateInventory.findUnique called', query);
+      return null;
+    },
+
+    update: async (query: any) => {
+      this.logger.debug('Mock rateInventory.update called', query);
+      return { id: query.where.id, ...query.data };
+    },
+
+    upsert: async (query: any) => {
+      this.logger.debug('Mock rateInventory.upsert called', query);
+      return { id: 'mock_id', ...query.create };
+    },
+
+    delete: async (query: any) => {
+      this.logger.debug('Mock rateInventory.delete called', query);
+      return { id: query.where.id };
+    },
+
+    count: async (query: any) => {
+      this.logger.debug('Mock rateInventory.count called', query);
+      return 0;
+    },
+
+    aggregate: async (query: any) => {
+      this.logger.debug('Mock rateInventory.aggregate called', query);
+      return {
+        _count: { id: 0 },
+        _avg: { rate: null, inventory: null },
+        _min: { rate: null, inventory: null },
+        _max: { rate: null, inventory: null },
+      };
+    },
+
+    groupBy: async (query: any) => {
+      this.logger.debug('Mock rateInventory.groupBy called', query);
+      return [];
+    },
   };
 
-  public readonly competitorRate = {
+  public readonly roomType = {
     findMany: async (query: any) => {
-      this.logger.debug('Mock competitorRate.findMany called', query);
+      this.logger.debug('Mock roomType.findMany called', query);
       return [];
     },
-    
-    create: async (data: any) => {
-      this.logger.debug('Mock competitorRate.create called', data);
-      return { id: 'mock_id', ...data.data };
+
+    findFirst: async (query: any) => {
+      this.logger.debug('Mock roomType.findFirst called', query);
+      return null;
+    },
+
+    findUnique: async (query: any) => {
+      this.logger.debug('Mock roomType.findUnique called', query);
+      return null;
+    },
+
+    update: async (query: any) => {
+      this.logger.debug('Mock roomType.update called', query);
+      return { id: query.where.id, ...query.data };
     },
   };
 
-  public readonly aiSuggestion = {
+  public readonly ratePlan = {
     findMany: async (query: any) => {
-      this.logger.debug('Mock aiSuggestion.findMany called', query);
+      this.logger.debug('Mock ratePlan.findMany called', query);
       return [];
     },
-    
+
+    findFirst: async (query: any) => {
+      this.logger.debug('Mock ratePlan.findFirst called', query);
+      return null;
+    },
+
     findUnique: async (query: any) => {
-      this.logger.debug('Mock aiSuggestion.findUnique called', query);
+      this.logger.debug('Mock ratePlan.findUnique called', query);
       return null;
     },
-    
+
+    update: async (query: any) => {
+      this.logger.debug('Mock ratePlan.update called', query);
+      return { id: query.where.id, ...query.data };
+    },
+  };
+
+  public readonly channel = {
+    findMany: async (query: any) => {
+      this.logger.debug('Mock channel.findMany called', query);
+      return [];
+    },
+
+    findUnique: async (query: any) => {
+      this.logger.debug('Mock channel.findUnique called', query);
+      return null;
+    },
+  };
+
+  // Users and their property access
+  public readonly user = this.createMockCollection('user');
+  public readonly userRole = this.createMockCollection('userRole');
+
+  public readonly property = this.createMockCollection('property');
+  public readonly organization = this.createMockCollection('organization');
+
+  // Exchange rates
+  public readonly fxRate = this.createMockCollection('fxRate');
+
+  // Channel sync
+  public readonly channelMapping = this.createMockCollection('channelMapping');
+  public readonly channelSyncLog = this.createMockCollection('channelSyncLog');
+
+  // Reservations & on-the-books
+  public readonly reservation = this.createMockCollection('reservation');
+  public readonly stayNight = this.createMockCollection('stayNight');
+  public readonly onTheBooksSnapshot = this.createMockCollection('onTheBooksSnapshot');
+
+  // Demand forecasting
+  public readonly demandForecast = this.createMockCollection('demandForecast');
+
+  // Pricing rules & guardrails
+  public readonly blackoutDate = this.createMockCollection('blackoutDate');
+  public readonly specialEvent = this.createMockCollection('specialEvent');
+  public readonly seasonalPricing = this.createMockCollection('seasonalPricing');
+  public readonly rateOptimizerSettings = this.createMockCollection('rateOptimizerSettings');
+
+  // Backtesting
+  public readonly backtestRun = this.createMockCollection('backtestRun');
+
+  // Autonomous actions
+  public readonly autonomyGuardrails = this.createMockCollection('autonomyGuardrails');
+  public readonly autonomousAction = this.createMockCollection('autonomousAction');
+
+  // Restriction rules
+  public readonly restrictionRule = this.createMockCollection('restrictionRule');
+  public readonly restrictionRuleCell = this.createMockCollection('restrictionRuleCell');
+
+  // Automation rules
+  public readonly automationRule = this.createMockCollection('automationRule');
+  public readonly automationRuleExecution = this.createMockCollection('automationRuleExecution');
+
+  // Change requests & approvals
+  public readonly changeRequest = this.createMockCollection('changeRequest');
+  public readonly approvalWorkflow = this.createMockCollection('approvalWorkflow');
+
+  public readonly auditLog = {
     create: async (data: any) => {
-      this.logger.debug('Mock aiSuggestion.create called', data);
+      this.logger.debug('Mock auditLog.create called', data);
       return { id: 'mock_id', ...data.data };
     },
-    
-    update: async (query: any) => {
-      this.logger.debug('Mock aiSuggestion.update called', query);
-      return { id: query.where.id, ...query.data };
+
+    findMany: async (query: any) => {
+      this.logger.debug('Mock auditLog.findMany called', query);
+      return [];
     },
   };
 
+  // Competitor rates & rate shops
+  public readonly competitorProperty = this.createMockCollection('competitorProperty');
+  public readonly competitorRate = this.createMockCollection('competitorRate');
+  public readonly competitorRateHistory = this.createMockCollection('competitorRateHistory');
+  public readonly rateShop = this.createMockCollection('rateShop');
+  public readonly rateShopSchedule = this.createMockCollection('rateShopSchedule');
+  public readonly compSet = this.createMockCollection('compSet');
+  public readonly compSetMember = this.createMockCollection('compSetMember');
+
+  // AI suggestions & feedback
+  public readonly aiSuggestion = this.createMockCollection('aiSuggestion');
+  public readonly aiSuggestionFeedback = this.createMockCollection('aiSuggestionFeedback');
+  public readonly aiSuggestionStat = this.createMockCollection('aiSuggestionStat');
+
   constructor() {
     this.logger.log('DatabaseService initialized in development mode (mock)');
   }
 
+  /**
+   * Run a callback as a single unit of work (mock)
+   *
+   * Mirrors Prisma's interactive `$transaction`: the callback receives a client
+   * exposing the same collections. The mock has nothing to roll back, so it
+   * simply hands itself to the callback.
+   */
+  async $transaction<T>(fn: (tx: this) => Promise<T>): Promise<T> {
+    return fn(this);
+  }
+
+  /**
+   * Build a mock collection with the standard CRUD delegate methods
+   */
+  private createMockCollection(name: string) {
+    return {
+      findMany: async (query: any): Promise<any[]> => {
+        this.logger.debug(`Mock ${name}.findMany called`, query);
+        return [];
+      },
+
+      findFirst: async (query: any): Promise<any> => {
+        this.logger.debug(`Mock ${name}.findFirst called`, query);
+        return null;
+      },
+
+      findUnique: async (query: any): Promise<any> => {
+        this.logger.debug(`Mock ${name}.findUnique called`, query);
+        return null;
+      },
+
+      count: async (query: any): Promise<number> => {
+        this.logger.debug(`Mock ${name}.count called`, query);
+        return 0;
+      },
+
+      create: async (data: any): Promise<any> => {
+        this.logger.debug(`Mock ${name}.create called`, data);
+        return { id: 'mock_id', ...data.data };
+      },
+
+      update: async (query: any): Promise<any> => {
+        this.logger.debug(`Mock ${name}.update called`, query);
+        return { id: query.where.id, ...query.data };
+      },
+
+      createMany: async (query: any): Promise<{ count: number }> => {
+        this.logger.debug(`Mock ${name}.createMany called`, query);
+        return { count: query.data?.length ?? 0 };
+      },
+
+      updateMany: async (query: any): Promise<{ count: number }> => {
+        this.logger.debug(`Mock ${name}.updateMany called`, query);
+        return { count: 0 };
+      },
+
+      upsert: async (query: any): Promise<any> => {
+        this.logger.debug(`Mock ${name}.upsert called`, query);
+        return { id: 'mock_id', ...query.create };
+      },
+
+      delete: async (query: any): Promise<any> => {
+        this.logger.debug(`Mock ${name}.delete called`, query);
+        return { id: query.where.id };
+      },
+
+      deleteMany: async (query: any): Promise<{ count: number }> => {
+        this.logger.debug(`Mock ${name}.deleteMany called`, query);
+        return { count: 0 };
+      },
+
+      aggregate: async (query: any): Promise<any> => {
+        this.logger.debug(`Mock ${name}.aggregate called`, query);
+        return { _count: {}, _sum: {}, _avg: {}, _min: {}, _max: {} };
+      },
+
+      groupBy: async (query: any): Promise<any[]> => {
+        this.logger.debug(`Mock ${name}.groupBy called`, query);
+        return [];
+      },
+    };
+  }
+
   /**
    * Health check for database connection
    */
@@ -0,0 +1,206 @@
+import { Injectable } from '@nestjs/common';
+
+export type ForecastMethod = 'BLENDED' | 'PICKUP' | 'SMOOTHING' | 'ON_THE_BOOKS';
+
+export interface BookedNight {
+  rooms: number;
+  bookedAt: Date;
+  cancelledAt: Date | null;
+}
+
+export interface StayDateHistory {
+  stayDate: Date;
+  finalDemand: number; // Rooms that stayed
+  nights: BookedNight[]; // Every booking of the date, including cancelled ones
+}
+
+export interface SmoothingModel {
+  levels: Array<number | null>; // Deseasonalized level by day of week (0 = Sunday)
+  errors: Array<number | null>; // RMSE of one-step-ahead forecasts by day of week
+  seasonalIndexes: number[]; // By month (0 = January)
+}
+
+export interface ForecastInput {
+  stayDate: Date;
+  daysOut: number;
+  onTheBooks: number;
+  history: StayDateHistory[]; // Past stay dates, oldest first
+  bookingsKnownFrom: Date; // Earliest booking time covered by the history
+  smoothingModel: SmoothingModel;
+}
+
+export interface ForecastEstimate {
+  method: ForecastMethod;
+  unconstrainedDemand: number;
+  lowerBound: number;
+  upperBound: number;
+}
+
+interface ModelEstimate {
+  demand: number;
+  sigma: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SMOOTHING_ALPHA = 0.3;
+const SEASONAL_MIN_HISTORY_DAYS = 364;
+const PICKUP_HISTORY_DAYS = 84;
+const MIN_PICKUP_SAMPLES = 3;
+const MIN_SIGMA = 0.5; // Rooms; keeps a perfectly regular history from claiming certainty
+const INTERVAL_Z = 1.2816; // 80% two-sided normal interval
+
+export const FORECAST_CONFIDENCE_LEVEL = 0.8;
+
+/**
+ * Demand Forecast Engine
+ *
+ * Forecasts unconstrained room demand of a stay date from booking history:
+ * - Exponential smoothing of final demand by day of week, with monthly
+ *   seasonal indexes once a year of history exists
+ * - Additive pickup: rooms on the books plus the average pickup still to come
+ *   at the same lead time on recent same-weekday stay dates
+ * - Inverse-variance blend of both with an 80% confidence interval
+ */
+@Injectable()
+export class DemandForecastEngine {
+  /**
+   * Fit the day-of-week smoothing model to a room type's history
+   */
+  buildSmoothingModel(history: StayDateHistory[]): SmoothingModel {
+    const seasonalIndexes = this.calculateSeasonalIndexes(history);
+    const levels: Array<number | null> = [];
+    const errors: Array<number | null> = [];
+
+    for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
+      const series = history
+        .filter(h => h.stayDate.getUTCDay() === dayOfWeek)
+        .map(h => h.finalDemand / seasonalIndexes[h.stayDate.getUTCMonth()]);
+
+      if (!series.length) {
+        levels.push(null);
+        errors.push(null);
+        continue;
+      }
+
+      let level = series[0];
+      const residuals: number[] = [];
+      for (const value of series.slice(1)) {
+        residuals.push(value - level);
+        level = SMOOTHING_ALPHA * value + (1 - SMOOTHING_ALPHA) * level;
+      }
+
+      levels.push(level);
+      errors.push(residuals.length >= 2
+        ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length)
+        : null);
+    }
+
+    return { levels, errors, seasonalIndexes };
+  }
+
+  /**
+   * Forecast one stay date from both models
+   */
+  forecast(input: ForecastInput): ForecastEstimate {
+    const smoothing = this.smoothingForecast(input.smoothingModel, input.stayDate);
+    const pickup = this.pickupForecast(input);
+
+    const estimates = [pickup, smoothing].filter(Boolean);
+    if (!estimates.length) {
+      return {
+        method: 'ON_THE_BOOKS',
+        unconstrainedDemand: input.onTheBooks,
+        lowerBound: input.onTheBooks,
+        upperBound: input.onTheBooks,
+      };
+    }
+
+    // Inverse-variance weighting favours whichever model has been more accurate
+    const weights = estimates.map(e => 1 / Math.pow(Math.max(MIN_SIGMA, e.sigma), 2));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const blended = estimates.reduce((sum, e, i) => sum + e.demand * weights[i], 0) / totalWeight;
+    const sigma = Math.sqrt(1 / totalWeight);
+
+    // Rooms already booked are a floor on demand
+    const demand = Math.max(input.onTheBooks, blended);
+
+    return {
+      method: pickup && smoothing ? 'BLENDED' : pickup ? 'PICKUP' : 'SMOOTHING',
+      unconstrainedDemand: this.round(demand),
+      lowerBound: this.round(Math.max(input.onTheBooks, demand - INTERVAL_Z * sigma)),
+      upperBound: this.round(demand + INTERVAL_Z * sigma),
+    };
+  }
+
+  /**
+   * Rooms on the books for a past stay date as of a point in time
+   */
+  roomsOnBooksAt(nights: BookedNight[], asOf: Date): number {
+    return nights
+      .filter(n => n.bookedAt.getTime() <= asOf.getTime() &&
+        (!n.cancelledAt || n.cancelledAt.getTime() > asOf.getTime()))
+      .reduce((sum, n) => sum + n.rooms, 0);
+  }
+
+  // Private helper methods
+
+  private smoothingForecast(model: SmoothingModel, stayDate: Date): ModelEstimate | null {
+    const level = model.levels[stayDate.getUTCDay()];
+    const error = model.errors[stayDate.getUTCDay()];
+    if (level === null || error === null) {
+      return null;
+    }
+
+    const seasonalIndex = model.seasonalIndexes[stayDate.getUTCMonth()];
+    return { demand: level * seasonalIndex, sigma: error * seasonalIndex };
+  }
+
+  private pickupForecast(input: ForecastInput): ModelEstimate | null {
+    const windowStart = input.stayDate.getTime() - (input.daysOut + PICKUP_HISTORY_DAYS) * DAY_MS;
+
+    const pickups = input.history
+      .filter(h =>
+        h.stayDate.getUTCDay() === input.stayDate.getUTCDay() &&
+        h.stayDate.getTime() >= windowStart &&
+        // The booking window at this lead time must be fully covered by the data
+        h.stayDate.getTime() - input.daysOut * DAY_MS >= input.bookingsKnownFrom.getTime(),
+      )
+      .map(h => h.finalDemand - this.roomsOnBooksAt(h.nights, new Date(h.stayDate.getTime() - input.daysOut * DAY_MS)));
+
+    if (pickups.length < MIN_PICKUP_SAMPLES) {
+      return null;
+    }
+
+    const mean = pickups.reduce((sum, p) => sum + p, 0) / pickups.length;
+    const variance = pickups.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / (pickups.length - 1);
+
+    return { demand: input.onTheBooks + mean, sigma: Math.sqrt(variance) };
+  }
+
+  private calculateSeasonalIndexes(history: StayDateHistory[]): number[] {
+    const span = history.length
+      ? (history[history.length - 1].stayDate.getTime() - history[0].stayDate.getTime()) / DAY_MS
+      : 0;
+    const flat = Array.from({ length: 12 }, () => 1);
+
+    if (span < SEASONAL_MIN_HISTORY_DAYS) {
+      return flat;
+    }
+
+    const overall = history.reduce((sum, h) => sum + h.finalDemand, 0) / history.length;
+    if (!overall) {
+      return flat;
+    }
+
+    return flat.map((_, month) => {
+      const days = history.filter(h => h.stayDate.getUTCMonth() === month);
+      const average = days.length ? days.reduce((sum, h) => sum + h.finalDemand, 0) / days.length : 0;
+      // Months without demand keep a neutral index so they can still be deseasonalized
+      return average > 0 ? average / overall : 1;
+    });
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsString } from 'class-validator';
+
+/**
+ * Forecast Query DTO
+ */
+export class ForecastQueryDto {
+  @ApiProperty({ example: '2024-03-01' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2024-03-31' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({ example: 'room-type-id', required: false })
+  @IsOptional()
+  @IsString()
+  roomTypeId?: string;
+}
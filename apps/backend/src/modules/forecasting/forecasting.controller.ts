@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { ForecastingService } from './forecasting.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { ForecastQueryDto } from './dto/forecasting.dto';
+
+/**
+ * Forecasting Controller
+ *
+ * REST API endpoints for demand forecasts:
+ * - Latest unconstrained demand per room type and stay date
+ * - On-demand forecast runs
+ */
+@ApiTags('forecasting')
+@Controller('properties/:propertyId/forecasts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ForecastingController {
+  constructor(private readonly forecastingService: ForecastingService) {}
+
+  /**
+   * Latest demand forecast for a date range
+   */
+  @Get()
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get demand forecasts' })
+  @ApiResponse({ status: 200, description: 'Forecasts retrieved successfully' })
+  async getForecasts(
+    @Param('propertyId') propertyId: string,
+    @Query() query: ForecastQueryDto,
+  ) {
+    return this.forecastingService.getForecasts(
+      propertyId,
+      new Date(query.startDate),
+      new Date(query.endDate),
+      query.roomTypeId,
+    );
+  }
+
+  /**
+   * Re-forecast the property now
+   */
+  @Post('run')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Run the demand forecast' })
+  @ApiResponse({ status: 200, description: 'Forecast generated' })
+  async runForecast(@Param('propertyId') propertyId: string) {
+    const [summary] = await this.forecastingService.generateForecasts(propertyId);
+    return summary ?? null;
+  }
+}
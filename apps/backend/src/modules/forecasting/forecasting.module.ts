@@ -0,0 +1,44 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+
+import { DatabaseModule } from '../database/database.module';
+import { BusinessDatesModule } from '../business-dates/business-dates.module';
+import { ForecastingController } from './forecasting.controller';
+import { ForecastingService } from './forecasting.service';
+import { DemandForecastEngine } from './demand-forecast.engine';
+import { ForecastingProcessor, FORECASTING_QUEUE } from './processors/forecasting.processor';
+
+/**
+ * Forecasting Module
+ *
+ * Unconstrained demand forecasting from booking history:
+ * - Additive pickup and day-of-week exponential smoothing models
+ * - Per-date, per-room-type demand with confidence intervals
+ * - Nightly forecast runs on a Bull queue
+ */
+@Module({
+  imports: [
+    DatabaseModule,
+    BusinessDatesModule,
+    BullModule.registerQueue({
+      name: FORECASTING_QUEUE,
+      defaultJobOptions: {
+        attempts: 2,
+        backoff: {
+          type: 'exponential',
+          delay: 60000,
+        },
+        removeOnComplete: 30,
+        removeOnFail: 30,
+      },
+    }),
+  ],
+  controllers: [ForecastingController],
+  providers: [
+    ForecastingService,
+    DemandForecastEngine,
+    ForecastingProcessor,
+  ],
+  exports: [ForecastingService, DemandForecastEngine],
+})
+export class ForecastingModule {}
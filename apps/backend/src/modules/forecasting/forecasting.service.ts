@@ -0,0 +1,277 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { toDateOnly } from '../../common/dates/business-date';
+import { BusinessDatesService } from '../business-dates/business-dates.service';
+import {
+  BookedNight,
+  DemandForecastEngine,
+  FORECAST_CONFIDENCE_LEVEL,
+  ForecastMethod,
+  StayDateHistory,
+} from './demand-forecast.engine';
+
+export interface DemandForecastPoint {
+  roomTypeId: string;
+  stayDate: string; // YYYY-MM-DD
+  forecastDate: string; // YYYY-MM-DD
+  method: ForecastMethod;
+  onTheBooks: number;
+  unconstrainedDemand: number;
+  lowerBound: number;
+  upperBound: number;
+  confidenceLevel: number;
+  capacity: number;
+  occupancyForecast: number; // Percent of capacity, constrained to 100
+}
+
+export interface ForecastRunSummary {
+  propertyId: string;
+  forecastDate: string; // YYYY-MM-DD
+  roomTypes: number;
+  rows: number;
+  methods: Record<ForecastMethod, number>;
+}
+
+interface StayNightRow extends BookedNight {
+  roomTypeId: string;
+  stayDate: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FORECAST_HORIZON_DAYS = 365;
+const HISTORY_DAYS = 365;
+const MAX_QUERY_DAYS = 366;
+
+/**
+ * Forecasting Service
+ *
+ * Produces and serves unconstrained demand forecasts:
+ * - Loads stay-night history and current bookings per room type
+ * - Forecasts every stay date of the next year with the demand forecast engine
+ * - Replaces the forecast of a forecast date when it is re-run
+ * - Serves the latest forecast per stay date to reporting and rate recommendations
+ */
+@Injectable()
+export class ForecastingService {
+  private readonly logger = new Logger(ForecastingService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly forecastEngine: DemandForecastEngine,
+    private readonly businessDatesService: BusinessDatesService,
+  ) {}
+
+  /**
+   * Forecast the next year of demand for active properties, from each
+   * property's business date at the forecast time
+   */
+  async generateForecasts(propertyId?: string, forecastDate = new Date()): Promise<ForecastRunSummary[]> {
+    const where: any = { isActive: true };
+    if (propertyId) {
+      where.id = propertyId;
+    }
+
+    const properties = await this.databaseService.property.findMany({ where });
+    const summaries: ForecastRunSummary[] = [];
+
+    for (const property of properties) {
+      const businessDate = await this.businessDatesService.today(property.id, forecastDate);
+      summaries.push(await this.forecastProperty(property.id, businessDate));
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Latest forecast of each stay date in a range
+   */
+  async getForecasts(
+    propertyId: string,
+    startDate: Date,
+    endDate: Date,
+    roomTypeId?: string,
+  ): Promise<DemandForecastPoint[]> {
+    const start = toDateOnly(startDate);
+    const end = toDateOnly(endDate);
+    const days = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+
+    if (days < 1) {
+      throw new BadRequestException('End date must not be before start date');
+    }
+    if (days > MAX_QUERY_DAYS) {
+      throw new BadRequestException(`Forecasts can be requested for at most ${MAX_QUERY_DAYS} days`);
+    }
+
+    const latest = await this.databaseService.demandForecast.findFirst({
+      where: { propertyId },
+      orderBy: { forecastDate: 'desc' },
+      select: { forecastDate: true },
+    });
+    if (!latest) {
+      return [];
+    }
+
+    const forecasts = await this.databaseService.demandForecast.findMany({
+      where: {
+        propertyId,
+        forecastDate: latest.forecastDate,
+        stayDate: { gte: start, lte: end },
+        ...(roomTypeId ? { roomTypeId } : {}),
+      },
+      orderBy: [{ stayDate: 'asc' }, { roomTypeId: 'asc' }],
+    });
+
+    return forecasts.map(forecast => this.toForecastPoint(forecast));
+  }
+
+  /**
+   * Latest forecast of one room type and stay date, if any; limited to
+   * forecasts made by the as-of date when one is given
+   */
+  async getForecastForDate(
+    propertyId: string,
+    roomTypeId: string,
+    stayDate: Date,
+    asOf?: Date,
+  ): Promise<DemandForecastPoint | null> {
+    const forecast = await this.databaseService.demandForecast.findFirst({
+      where: {
+        propertyId,
+        roomTypeId,
+        stayDate: toDateOnly(stayDate),
+        ...(asOf && { forecastDate: { lte: toDateOnly(asOf) } }),
+      },
+      orderBy: { forecastDate: 'desc' },
+    });
+
+    return forecast ? this.toForecastPoint(forecast) : null;
+  }
+
+  // Private helper methods
+
+  private async forecastProperty(propertyId: string, forecastDate: Date): Promise<ForecastRunSummary> {
+    const historyFrom = this.addDays(forecastDate, -HISTORY_DAYS);
+    const horizonEnd = this.addDays(forecastDate, FORECAST_HORIZON_DAYS);
+
+    const [roomTypes, stayNights, firstBooking] = await Promise.all([
+      this.databaseService.roomType.findMany({ where: { propertyId, isActive: true } }),
+      this.databaseService.stayNight.findMany({
+        where: { propertyId, stayDate: { gte: historyFrom, lte: horizonEnd } },
+        select: { roomTypeId: true, stayDate: true, rooms: true, bookedAt: true, cancelledAt: true },
+      }) as Promise<StayNightRow[]>,
+      this.databaseService.stayNight.aggregate({
+        where: { propertyId },
+        _min: { bookedAt: true },
+      }),
+    ]);
+
+    const bookingsKnownFrom = firstBooking._min?.bookedAt ? new Date(firstBooking._min.bookedAt) : forecastDate;
+    const historyStart = new Date(Math.max(historyFrom.getTime(), toDateOnly(bookingsKnownFrom).getTime()));
+    const methods: Record<ForecastMethod, number> = { BLENDED: 0, PICKUP: 0, SMOOTHING: 0, ON_THE_BOOKS: 0 };
+    const rows = [];
+
+    for (const roomType of roomTypes) {
+      const nightsByDate = new Map<string, BookedNight[]>();
+      for (const night of stayNights.filter(n => n.roomTypeId === roomType.id)) {
+        const date = this.formatDate(night.stayDate);
+        nightsByDate.set(date, [...(nightsByDate.get(date) ?? []), {
+          rooms: night.rooms,
+          bookedAt: new Date(night.bookedAt),
+          cancelledAt: night.cancelledAt ? new Date(night.cancelledAt) : null,
+        }]);
+      }
+
+      // Every past date since bookings are known, including dates nobody stayed
+      const history: StayDateHistory[] = [];
+      for (let date = historyStart; date.getTime() < forecastDate.getTime(); date = this.addDays(date, 1)) {
+        const nights = nightsByDate.get(this.formatDate(date)) ?? [];
+        history.push({
+          stayDate: date,
+          finalDemand: nights.filter(n => !n.cancelledAt).reduce((sum, n) => sum + n.rooms, 0),
+          nights,
+        });
+      }
+
+      const smoothingModel = this.forecastEngine.buildSmoothingModel(history);
+
+      for (let daysOut = 0; daysOut <= FORECAST_HORIZON_DAYS; daysOut++) {
+        const stayDate = this.addDays(forecastDate, daysOut);
+        const onTheBooks = (nightsByDate.get(this.formatDate(stayDate)) ?? [])
+          .filter(n => !n.cancelledAt)
+          .reduce((sum, n) => sum + n.rooms, 0);
+
+        const estimate = this.forecastEngine.forecast({
+          stayDate,
+          daysOut,
+          onTheBooks,
+          history,
+          bookingsKnownFrom,
+          smoothingModel,
+        });
+
+        methods[estimate.method]++;
+        rows.push({
+          propertyId,
+          roomTypeId: roomType.id,
+          forecastDate,
+          stayDate,
+          onTheBooks,
+          ...estimate,
+          confidenceLevel: FORECAST_CONFIDENCE_LEVEL,
+          capacity: roomType.totalRooms ?? 0,
+        });
+      }
+    }
+
+    // Re-running a day replaces its forecast
+    await this.databaseService.$transaction(async (tx) => {
+      await tx.demandForecast.deleteMany({ where: { propertyId, forecastDate } });
+      if (rows.length) {
+        await tx.demandForecast.createMany({ data: rows });
+      }
+    });
+
+    this.logger.log(
+      `Forecast ${rows.length} stay dates for property ${propertyId} on ${this.formatDate(forecastDate)}: ` +
+      `${methods.BLENDED} blended, ${methods.PICKUP} pickup, ${methods.SMOOTHING} smoothing, ` +
+      `${methods.ON_THE_BOOKS} on the books only`,
+    );
+
+    return {
+      propertyId,
+      forecastDate: this.formatDate(forecastDate),
+      roomTypes: roomTypes.length,
+      rows: rows.length,
+      methods,
+    };
+  }
+
+  private toForecastPoint(forecast: any): DemandForecastPoint {
+    const capacity = forecast.capacity ?? 0;
+
+    return {
+      roomTypeId: forecast.roomTypeId,
+      stayDate: this.formatDate(forecast.stayDate),
+      forecastDate: this.formatDate(forecast.forecastDate),
+      method: forecast.method,
+      onTheBooks: forecast.onTheBooks,
+      unconstrainedDemand: forecast.unconstrainedDemand,
+      lowerBound: forecast.lowerBound,
+      upperBound: forecast.upperBound,
+      confidenceLevel: forecast.confidenceLevel,
+      capacity,
+      occupancyForecast: capacity
+        ? Math.round(Math.min(1, forecast.unconstrainedDemand / capacity) * 1000) / 10
+        : 0,
+    };
+  }
+
+  private addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_MS);
+  }
+
+  private formatDate(date: Date | string): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+}
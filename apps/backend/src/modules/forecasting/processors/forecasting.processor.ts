@@ -0,0 +1,45 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { Process, Processor, InjectQueue } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+
+import { ForecastingService } from '../forecasting.service';
+
+export const FORECASTING_QUEUE = 'forecasting';
+
+const FORECAST_CRON = '45 2 * * *'; // Daily, after the on-the-books snapshot
+
+/**
+ * Forecasting Processor
+ *
+ * Runs the nightly job that forecasts the next year of demand
+ * for every active property.
+ */
+@Processor(FORECASTING_QUEUE)
+export class ForecastingProcessor implements OnModuleInit {
+  private readonly logger = new Logger(ForecastingProcessor.name);
+
+  constructor(
+    private readonly forecastingService: ForecastingService,
+    @InjectQueue(FORECASTING_QUEUE) private readonly forecastingQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.forecastingQueue.add(
+        'generate-forecasts',
+        {},
+        { jobId: 'forecasting-generate-forecasts', repeat: { cron: FORECAST_CRON } },
+      );
+    } catch (error) {
+      this.logger.warn(`Could not schedule demand forecasts: ${error.message}`);
+    }
+  }
+
+  @Process('generate-forecasts')
+  async handleForecasts(job: Job) {
+    const summaries = await this.forecastingService.generateForecasts();
+    const rows = summaries.reduce((sum, summary) => sum + summary.rows, 0);
+    this.logger.debug(`Demand forecast ${job.id}: ${summaries.length} properties, ${rows} stay dates`);
+    return { properties: summaries.length, rows };
+  }
+}
@@ -0,0 +1,243 @@
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import {
+  IsDate,
+  IsEnum,
+  IsNumber,
+  IsString,
+  IsBoolean,
+  IsOptional,
+  IsNotEmpty,
+  MaxLength,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+
+/**
+ * Pricing Rule Scope DTO
+ *
+ * Shared by blackout dates, special events and seasonal pricing.
+ * Leaving roomTypeId or ratePlanId empty applies the rule to all of them.
+ */
+export class PricingRuleScopeDto {
+  @ApiProperty({ example: 'room-type-id', required: false })
+  @IsOptional()
+  @IsString()
+  roomTypeId?: string;
+
+  @ApiProperty({ example: 'rate-plan-id', required: false })
+  @IsOptional()
+  @IsString()
+  ratePlanId?: string;
+
+  @ApiProperty({ example: '2024-12-24' })
+  @IsDate()
+  @Type(() => Date)
+  startDate: Date;
+
+  @ApiProperty({ example: '2024-12-26' })
+  @IsDate()
+  @Type(() => Date)
+  endDate: Date;
+
+  @ApiProperty({ example: true, required: false })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+/**
+ * Create Blackout Date DTO
+ */
+export class CreateBlackoutDateDto extends PricingRuleScopeDto {
+  @ApiProperty({ example: 'Property buyout', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+}
+
+/**
+ * Update Blackout Date DTO
+ */
+export class UpdateBlackoutDateDto extends PartialType(CreateBlackoutDateDto) {}
+
+/**
+ * Create Special Event DTO
+ */
+export class CreateSpecialEventDto extends PricingRuleScopeDto {
+  @ApiProperty({ example: 'Formula 1 Grand Prix' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name: string;
+
+  @ApiProperty({ example: 'Race weekend, city-wide compression', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ example: 250.00, required: false })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  minRate?: number;
+
+  @ApiProperty({ example: 900.00, required: false })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  maxRate?: number;
+}
+
+/**
+ * Update Special Event DTO
+ */
+export class UpdateSpecialEventDto extends PartialType(CreateSpecialEventDto) {}
+
+/**
+ * Create Seasonal Pricing DTO
+ */
+export class CreateSeasonalPricingDto extends PricingRuleScopeDto {
+  @ApiProperty({ example: 'Summer High Season' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name: string;
+
+  @ApiProperty({ example: 120.00, required: false })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  minRate?: number;
+
+  @ApiProperty({ example: 480.00, required: false })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  maxRate?: number;
+}
+
+/**
+ * Update Seasonal Pricing DTO
+ */
+export class UpdateSeasonalPricingDto extends PartialType(CreateSeasonalPricingDto) {}
+
+/**
+ * Rate Plan Floor/Ceiling DTO
+ *
+ * Send null to clear a limit.
+ */
+export class UpdateRatePlanRateLimitsDto {
+  @ApiProperty({ example: 80.00, required: false, nullable: true })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  minRate?: number | null;
+
+  @ApiProperty({ example: 650.00, required: false, nullable: true })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  maxRate?: number | null;
+}
+
+/**
+ * Room Type Differential Type
+ */
+export enum RoomTypeDifferentialType {
+  AMOUNT = 'AMOUNT',
+  PERCENT = 'PERCENT',
+}
+
+/**
+ * Rate Optimizer Settings DTO
+ *
+ * Send null to clear the property floor or ceiling.
+ */
+export class UpdateRateOptimizerSettingsDto {
+  @ApiProperty({ example: 70.00, required: false, nullable: true, description: 'Property-wide rate floor' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  minRate?: number | null;
+
+  @ApiProperty({ example: 900.00, required: false, nullable: true, description: 'Property-wide rate ceiling' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  maxRate?: number | null;
+
+  @ApiProperty({ example: 15, required: false, description: 'Largest change from the current rate, in percent' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  maxDailyChangePct?: number;
+
+  @ApiProperty({ example: -1.5, required: false, description: 'Price elasticity used until a segment can be estimated' })
+  @IsOptional()
+  @IsNumber()
+  @Min(-5)
+  @Max(-0.1)
+  defaultElasticity?: number;
+}
+
+/**
+ * Room Type Differential DTO
+ *
+ * Prices a room type at least a fixed amount or percentage above its parent.
+ * Send a null parentRoomTypeId to remove the room type from the hierarchy.
+ */
+export class UpdateRoomTypeDifferentialDto {
+  @ApiProperty({ example: 'standard-room-type-id', nullable: true })
+  @ValidateIf((_, value) => value !== null)
+  @IsString()
+  @IsNotEmpty()
+  parentRoomTypeId: string | null;
+
+  @ApiProperty({ enum: RoomTypeDifferentialType, required: false })
+  @ValidateIf(dto => dto.parentRoomTypeId !== null)
+  @IsEnum(RoomTypeDifferentialType)
+  differentialType?: RoomTypeDifferentialType;
+
+  @ApiProperty({ example: 25.00, required: false })
+  @ValidateIf(dto => dto.parentRoomTypeId !== null)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  differentialValue?: number;
+}
+
+/**
+ * Pricing Rule Query DTO
+ */
+export class PricingRuleQueryDto {
+  @ApiProperty({ example: '2024-01-01', required: false })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  startDate?: Date;
+
+  @ApiProperty({ example: '2024-12-31', required: false })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  endDate?: Date;
+
+  @ApiProperty({ example: 'room-type-id', required: false })
+  @IsOptional()
+  @IsString()
+  roomTypeId?: string;
+
+  @ApiProperty({ example: 'rate-plan-id', required: false })
+  @IsOptional()
+  @IsString()
+  ratePlanId?: string;
+
+  @ApiProperty({ example: false, required: false })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === 'true' || value === true)
+  includeInactive?: boolean;
+}
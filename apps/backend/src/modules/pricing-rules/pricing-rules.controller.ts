@@ -0,0 +1,294 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { PricingRulesService } from './pricing-rules.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '@prisma/client';
+import { UserRole } from '../auth/enums/user-role.enum';
+
+import {
+  CreateBlackoutDateDto,
+  UpdateBlackoutDateDto,
+  CreateSpecialEventDto,
+  UpdateSpecialEventDto,
+  CreateSeasonalPricingDto,
+  UpdateSeasonalPricingDto,
+  UpdateRatePlanRateLimitsDto,
+  UpdateRateOptimizerSettingsDto,
+  UpdateRoomTypeDifferentialDto,
+  PricingRuleQueryDto,
+} from './dto/pricing-rules.dto';
+
+/**
+ * Pricing Rules Controller
+ *
+ * REST API endpoints for the guardrails applied during rate validation:
+ * - Blackout dates
+ * - Special events with floor/ceiling rates
+ * - Seasonal floor/ceiling rates
+ * - Rate plan min/max rates
+ * - Rate optimizer settings and room type differentials
+ */
+@ApiTags('pricing-rules')
+@Controller('properties/:propertyId')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class PricingRulesController {
+  constructor(private readonly pricingRulesService: PricingRulesService) {}
+
+  /**
+   * List blackout dates
+   */
+  @Get('blackout-dates')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'List blackout dates' })
+  @ApiResponse({ status: 200, description: 'Blackout dates retrieved successfully' })
+  async getBlackoutDates(
+    @Param('propertyId') propertyId: string,
+    @Query() query: PricingRuleQueryDto,
+  ) {
+    return this.pricingRulesService.listRules('blackoutDate', propertyId, query);
+  }
+
+  /**
+   * Create blackout date
+   */
+  @Post('blackout-dates')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Create blackout date' })
+  @ApiResponse({ status: 201, description: 'Blackout date created successfully' })
+  async createBlackoutDate(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: CreateBlackoutDateDto,
+    @GetUser() user: User,
+  ) {
+    return this.pricingRulesService.createRule('blackoutDate', propertyId, user.id, dto);
+  }
+
+  /**
+   * Update blackout date
+   */
+  @Put('blackout-dates/:id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Update blackout date' })
+  @ApiResponse({ status: 200, description: 'Blackout date updated successfully' })
+  async updateBlackoutDate(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @Body() dto: UpdateBlackoutDateDto,
+    @GetUser() user: User,
+  ) {
+    return this.pricingRulesService.updateRule('blackoutDate', propertyId, id, user.id, dto);
+  }
+
+  /**
+   * Delete blackout date
+   */
+  @Delete('blackout-dates/:id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete blackout date' })
+  @ApiResponse({ status: 204, description: 'Blackout date deleted successfully' })
+  async deleteBlackoutDate(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @GetUser() user: User,
+  ) {
+    return this.pricingRulesService.deleteRule('blackoutDate', propertyId, id, user.id);
+  }
+
+  /**
+   * List special events
+   */
+  @Get('special-events')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'List special events' })
+  @ApiResponse({ status: 200, description: 'Special events retrieved successfully' })
+  async getSpecialEvents(
+    @Param('propertyId') propertyId: string,
+    @Query() query: PricingRuleQueryDto,
+  ) {
+    return this.pricingRulesService.listRules('specialEvent', propertyId, query);
+  }
+
+  /**
+   * Create special event
+   */
+  @Post('special-events')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Create special event' })
+  @ApiResponse({ status: 201, description: 'Special event created successfully' })
+  async createSpecialEvent(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: CreateSpecialEventDto,
+    @GetUser() user: User,
+  ) {
+    return this.pricingRulesService.createRule('specialEvent', propertyId, user.id, dto);
+  }
+
+  /**
+   * Update special event
+   */
+  @Put('special-events/:id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Update special event' })
+  @ApiResponse({ status: 200, description: 'Special event updated successfully' })
+  async updateSpecialEvent(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @Body() dto: UpdateSpecialEventDto,
+    @GetUser() user: User,
+  ) {
+    return this.pricingRulesService.updateRule('specialEvent', propertyId, id, user.id, dto);
+  }
+
+  /**
+   * Delete special event
+   */
+  @Delete('special-events/:id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete special event' })
+  @ApiResponse({ status: 204, description: 'Special event deleted successfully' })
+  async deleteSpecialEvent(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @GetUser() user: User,
+  ) {
+    return this.pricingRulesService.deleteRule('specialEvent', propertyId, id, user.id);
+  }
+
+  /**
+   * List seasonal pricing rules
+   */
+  @Get('seasonal-pricing')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'List seasonal pricing rules' })
+  @ApiResponse({ status: 200, description: 'Seasonal pricing rules retrieved successfully' })
+  async getSeasonalPricing(
+    @Param('propertyId') propertyId: string,
+    @Query() query: PricingRuleQueryDto,
+  ) {
+    return this.pricingRulesService.listRules('seasonalPricing', propertyId, query);
+  }
+
+  /**
+   * Create seasonal pricing rule
+   */
+  @Post('seasonal-pricing')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Create seasonal pricing rule' })
+  @ApiResponse({ status: 201, description: 'Seasonal pricing rule created successfully' })
+  async createSeasonalPricing(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: CreateSeasonalPricingDto,
+    @GetUser() user: User,
+  ) {
+    return this.pricingRulesService.createRule('seasonalPricing', propertyId, user.id, dto);
+  }
+
+  /**
+   * Update seasonal pricing rule
+   */
+  @Put('seasonal-pricing/:id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Update seasonal pricing rule' })
+  @ApiResponse({ status: 200, description: 'Seasonal pricing rule updated successfully' })
+  async updateSeasonalPricing(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @Body() dto: UpdateSeasonalPricingDto,
+    @GetUser() user: User,
+  ) {
+    return this.pricingRulesService.updateRule('seasonalPricing', propertyId, id, user.id, dto);
+  }
+
+  /**
+   * Delete seasonal pricing rule
+   */
+  @Delete('seasonal-pricing/:id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete seasonal pricing rule' })
+  @ApiResponse({ status: 204, description: 'Seasonal pricing rule deleted successfully' })
+  async deleteSeasonalPricing(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @GetUser() user: User,
+  ) {
+    return this.pricingRulesService.deleteRule('seasonalPricing', propertyId, id, user.id);
+  }
+
+  /**
+   * Set rate plan floor and ceiling
+   */
+  @Put('rate-plans/:ratePlanId/rate-limits')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Set rate plan min/max rates' })
+  @ApiResponse({ status: 200, description: 'Rate plan limits updated successfully' })
+  async updateRatePlanRateLimits(
+    @Param('propertyId') propertyId: string,
+    @Param('ratePlanId') ratePlanId: string,
+    @Body() dto: UpdateRatePlanRateLimitsDto,
+    @GetUser() user: User,
+  ) {
+    return this.pricingRulesService.updateRatePlanRateLimits(propertyId, ratePlanId, user.id, dto);
+  }
+
+  /**
+   * Get rate optimizer settings
+   */
+  @Get('rate-optimizer-settings')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get rate optimizer settings' })
+  @ApiResponse({ status: 200, description: 'Rate optimizer settings retrieved successfully' })
+  async getRateOptimizerSettings(@Param('propertyId') propertyId: string) {
+    return this.pricingRulesService.getRateOptimizerSettings(propertyId);
+  }
+
+  /**
+   * Update rate optimizer settings
+   */
+  @Put('rate-optimizer-settings')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Update rate optimizer settings' })
+  @ApiResponse({ status: 200, description: 'Rate optimizer settings updated successfully' })
+  async updateRateOptimizerSettings(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: UpdateRateOptimizerSettingsDto,
+    @GetUser() user: User,
+  ) {
+    return this.pricingRulesService.updateRateOptimizerSettings(propertyId, user.id, dto);
+  }
+
+  /**
+   * Set the parent room type and price differential of a room type
+   */
+  @Put('room-types/:roomTypeId/differential')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Set room type price differential' })
+  @ApiResponse({ status: 200, description: 'Room type differential updated successfully' })
+  async updateRoomTypeDifferential(
+    @Param('propertyId') propertyId: string,
+    @Param('roomTypeId') roomTypeId: string,
+    @Body() dto: UpdateRoomTypeDifferentialDto,
+    @GetUser() user: User,
+  ) {
+    return this.pricingRulesService.updateRoomTypeDifferential(propertyId, roomTypeId, user.id, dto);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../database/database.module';
+import { PricingRulesController } from './pricing-rules.controller';
+import { PricingRulesService } from './pricing-rules.service';
+
+/**
+ * Pricing Rules Module
+ * 
+ * Persisted pricing guardrails enforced by rate validation:
+ * - Blackout dates
+ * - Special events with floor/ceiling rates
+ * - Seasonal floor/ceiling rates
+ * - Rate plan min/max rates
+ * - Rate optimizer settings and room type differentials
+ */
+@Module({
+  imports: [DatabaseModule],
+  controllers: [PricingRulesController],
+  providers: [PricingRulesService],
+  exports: [PricingRulesService],
+})
+export class PricingRulesModule {}
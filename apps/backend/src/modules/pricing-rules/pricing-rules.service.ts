@@ -0,0 +1,424 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import {
+  PricingRuleScopeDto,
+  PricingRuleQueryDto,
+  UpdateRatePlanRateLimitsDto,
+  UpdateRateOptimizerSettingsDto,
+  UpdateRoomTypeDifferentialDto,
+} from './dto/pricing-rules.dto';
+
+export type PricingRuleKind = 'blackoutDate' | 'specialEvent' | 'seasonalPricing';
+
+const AUDIT_ENTITY_TYPES: Record<PricingRuleKind, string> = {
+  blackoutDate: 'BLACKOUT_DATE',
+  specialEvent: 'SPECIAL_EVENT',
+  seasonalPricing: 'SEASONAL_PRICING',
+};
+
+export interface RateOptimizerSettings {
+  propertyId: string;
+  minRate: number | null;
+  maxRate: number | null;
+  maxDailyChangePct: number;
+  defaultElasticity: number;
+}
+
+export const DEFAULT_RATE_OPTIMIZER_SETTINGS = {
+  maxDailyChangePct: 15,
+  defaultElasticity: -1.5,
+};
+
+type PricingRuleInput = Partial<PricingRuleScopeDto> & {
+  minRate?: number | null;
+  maxRate?: number | null;
+  [key: string]: any;
+};
+
+/**
+ * Pricing Rules Service
+ *
+ * Manages the persisted guardrails enforced by rate validation:
+ * - Blackout dates that block rate changes
+ * - Special events with their own floor and ceiling
+ * - Seasonal floors and ceilings
+ * - Per rate plan min/max rate limits
+ * - Rate optimizer limits and room type price differentials
+ */
+@Injectable()
+export class PricingRulesService {
+  private readonly logger = new Logger(PricingRulesService.name);
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * List rules of a kind for a property, optionally limited to an overlapping date range
+   */
+  async listRules(kind: PricingRuleKind, propertyId: string, query: PricingRuleQueryDto) {
+    return this.collection(kind).findMany({
+      where: {
+        propertyId,
+        ...(!query.includeInactive && { isActive: true }),
+        ...(query.roomTypeId && { roomTypeId: query.roomTypeId }),
+        ...(query.ratePlanId && { ratePlanId: query.ratePlanId }),
+        ...(query.endDate && { startDate: { lte: query.endDate } }),
+        ...(query.startDate && { endDate: { gte: query.startDate } }),
+      },
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  /**
+   * Create a rule after checking its scope, dates and rate limits
+   */
+  async createRule(
+    kind: PricingRuleKind,
+    propertyId: string,
+    userId: string,
+    data: PricingRuleInput,
+  ) {
+    await this.validateRule(propertyId, data);
+
+    const rule = await this.databaseService.$transaction(async (tx) => {
+      const created = await tx[kind].create({
+        data: {
+          ...data,
+          propertyId,
+          createdBy: userId,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'CREATE',
+          entityType: AUDIT_ENTITY_TYPES[kind],
+          entityId: created.id,
+          newValues: created,
+          source: 'API',
+        },
+      });
+
+      return created;
+    });
+
+    this.logger.log(`Created ${kind} ${rule.id} for property ${propertyId}`);
+    return rule;
+  }
+
+  /**
+   * Update a rule, validating the merged result
+   */
+  async updateRule(
+    kind: PricingRuleKind,
+    propertyId: string,
+    id: string,
+    userId: string,
+    data: PricingRuleInput,
+  ) {
+    const existing = await this.findRuleOrFail(kind, propertyId, id);
+
+    await this.validateRule(propertyId, { ...existing, ...data });
+
+    const rule = await this.databaseService.$transaction(async (tx) => {
+      const updated = await tx[kind].update({
+        where: { id },
+        data,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'UPDATE',
+          entityType: AUDIT_ENTITY_TYPES[kind],
+          entityId: id,
+          oldValues: existing,
+          newValues: updated,
+          changes: data,
+          source: 'API',
+        },
+      });
+
+      return updated;
+    });
+
+    this.logger.log(`Updated ${kind} ${id}`);
+    return rule;
+  }
+
+  /**
+   * Delete a rule
+   */
+  async deleteRule(kind: PricingRuleKind, propertyId: string, id: string, userId: string): Promise<void> {
+    const existing = await this.findRuleOrFail(kind, propertyId, id);
+
+    await this.databaseService.$transaction(async (tx) => {
+      await tx[kind].delete({ where: { id } });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'DELETE',
+          entityType: AUDIT_ENTITY_TYPES[kind],
+          entityId: id,
+          oldValues: existing,
+          source: 'API',
+        },
+      });
+    });
+
+    this.logger.log(`Deleted ${kind} ${id}`);
+  }
+
+  /**
+   * Set or clear the floor and ceiling of a rate plan
+   */
+  async updateRatePlanRateLimits(
+    propertyId: string,
+    ratePlanId: string,
+    userId: string,
+    dto: UpdateRatePlanRateLimitsDto,
+  ) {
+    const ratePlan = await this.databaseService.ratePlan.findFirst({
+      where: { id: ratePlanId, propertyId },
+    });
+
+    if (!ratePlan) {
+      throw new NotFoundException(`Rate plan ${ratePlanId} not found`);
+    }
+
+    const minRate = dto.minRate !== undefined ? dto.minRate : this.toRate(ratePlan.minRate);
+    const maxRate = dto.maxRate !== undefined ? dto.maxRate : this.toRate(ratePlan.maxRate);
+    this.assertRateLimits(minRate, maxRate);
+
+    const data = {
+      ...(dto.minRate !== undefined && { minRate: dto.minRate }),
+      ...(dto.maxRate !== undefined && { maxRate: dto.maxRate }),
+    };
+
+    const updated = await this.databaseService.$transaction(async (tx) => {
+      const result = await tx.ratePlan.update({
+        where: { id: ratePlanId },
+        data,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'UPDATE',
+          entityType: 'RATE_PLAN',
+          entityId: ratePlanId,
+          oldValues: {
+            minRate: this.toRate(ratePlan.minRate),
+            maxRate: this.toRate(ratePlan.maxRate),
+          },
+          newValues: { minRate, maxRate },
+          changes: data,
+          source: 'API',
+        },
+      });
+
+      return result;
+    });
+
+    this.logger.log(`Updated rate limits for rate plan ${ratePlanId}`);
+    return updated;
+  }
+
+  /**
+   * Rate optimizer settings of a property, with defaults when never configured
+   */
+  async getRateOptimizerSettings(propertyId: string): Promise<RateOptimizerSettings> {
+    const settings = await this.databaseService.rateOptimizerSettings.findUnique({
+      where: { propertyId },
+    });
+
+    return {
+      propertyId,
+      minRate: this.toRate(settings?.minRate),
+      maxRate: this.toRate(settings?.maxRate),
+      maxDailyChangePct: settings?.maxDailyChangePct ?? DEFAULT_RATE_OPTIMIZER_SETTINGS.maxDailyChangePct,
+      defaultElasticity: settings?.defaultElasticity ?? DEFAULT_RATE_OPTIMIZER_SETTINGS.defaultElasticity,
+    };
+  }
+
+  /**
+   * Update the rate optimizer settings of a property
+   */
+  async updateRateOptimizerSettings(
+    propertyId: string,
+    userId: string,
+    dto: UpdateRateOptimizerSettingsDto,
+  ): Promise<RateOptimizerSettings> {
+    const current = await this.getRateOptimizerSettings(propertyId);
+
+    const minRate = dto.minRate !== undefined ? dto.minRate : current.minRate;
+    const maxRate = dto.maxRate !== undefined ? dto.maxRate : current.maxRate;
+    this.assertRateLimits(minRate, maxRate);
+
+    const data = {
+      ...(dto.minRate !== undefined && { minRate: dto.minRate }),
+      ...(dto.maxRate !== undefined && { maxRate: dto.maxRate }),
+      ...(dto.maxDailyChangePct !== undefined && { maxDailyChangePct: dto.maxDailyChangePct }),
+      ...(dto.defaultElasticity !== undefined && { defaultElasticity: dto.defaultElasticity }),
+    };
+
+    await this.databaseService.$transaction(async (tx) => {
+      await tx.rateOptimizerSettings.upsert({
+        where: { propertyId },
+        create: { propertyId, ...data, updatedBy: userId },
+        update: { ...data, updatedBy: userId },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'UPDATE',
+          entityType: 'RATE_OPTIMIZER_SETTINGS',
+          entityId: propertyId,
+          oldValues: current,
+          newValues: { ...current, ...data },
+          changes: data,
+          source: 'API',
+        },
+      });
+    });
+
+    this.logger.log(`Updated rate optimizer settings for property ${propertyId}`);
+    return { ...current, ...data };
+  }
+
+  /**
+   * Place a room type under a parent room type with a minimum price differential
+   */
+  async updateRoomTypeDifferential(
+    propertyId: string,
+    roomTypeId: string,
+    userId: string,
+    dto: UpdateRoomTypeDifferentialDto,
+  ) {
+    const roomTypes = await this.databaseService.roomType.findMany({ where: { propertyId } });
+    const roomType = roomTypes.find(rt => rt.id === roomTypeId);
+
+    if (!roomType) {
+      throw new NotFoundException(`Room type ${roomTypeId} not found`);
+    }
+
+    if (dto.parentRoomTypeId !== null) {
+      if (!roomTypes.some(rt => rt.id === dto.parentRoomTypeId)) {
+        throw new BadRequestException('Parent room type does not belong to this property');
+      }
+
+      // Walk up from the new parent; reaching this room type would close a loop
+      let ancestorId: string | null = dto.parentRoomTypeId;
+      while (ancestorId) {
+        if (ancestorId === roomTypeId) {
+          throw new BadRequestException('A room type cannot be priced against itself or its own children');
+        }
+        ancestorId = roomTypes.find(rt => rt.id === ancestorId)?.parentRoomTypeId ?? null;
+      }
+    }
+
+    const data = dto.parentRoomTypeId === null
+      ? { parentRoomTypeId: null, differentialType: null, differentialValue: null }
+      : {
+          parentRoomTypeId: dto.parentRoomTypeId,
+          differentialType: dto.differentialType,
+          differentialValue: dto.differentialValue,
+        };
+
+    const updated = await this.databaseService.$transaction(async (tx) => {
+      const result = await tx.roomType.update({
+        where: { id: roomTypeId },
+        data,
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'UPDATE',
+          entityType: 'ROOM_TYPE',
+          entityId: roomTypeId,
+          oldValues: {
+            parentRoomTypeId: roomType.parentRoomTypeId ?? null,
+            differentialType: roomType.differentialType ?? null,
+            differentialValue: this.toRate(roomType.differentialValue),
+          },
+          newValues: data,
+          changes: data,
+          source: 'API',
+        },
+      });
+
+      return result;
+    });
+
+    this.logger.log(`Updated price differential for room type ${roomTypeId}`);
+    return updated;
+  }
+
+  // Private helper methods
+
+  private collection(kind: PricingRuleKind) {
+    return this.databaseService[kind];
+  }
+
+  private async findRuleOrFail(kind: PricingRuleKind, propertyId: string, id: string) {
+    const rule = await this.collection(kind).findFirst({
+      where: { id, propertyId },
+    });
+
+    if (!rule) {
+      throw new NotFoundException(`${AUDIT_ENTITY_TYPES[kind]} ${id} not found`);
+    }
+
+    return rule;
+  }
+
+  private async validateRule(propertyId: string, data: PricingRuleInput): Promise<void> {
+    if (data.startDate && data.endDate && new Date(data.startDate) > new Date(data.endDate)) {
+      throw new BadRequestException('Start date must be before or equal to end date');
+    }
+
+    this.assertRateLimits(this.toRate(data.minRate), this.toRate(data.maxRate));
+
+    if (data.roomTypeId) {
+      const roomType = await this.databaseService.roomType.findFirst({
+        where: { id: data.roomTypeId, propertyId },
+      });
+      if (!roomType) {
+        throw new BadRequestException('Room type does not belong to this property');
+      }
+    }
+
+    if (data.ratePlanId) {
+      const ratePlan = await this.databaseService.ratePlan.findFirst({
+        where: { id: data.ratePlanId, propertyId },
+      });
+      if (!ratePlan) {
+        throw new BadRequestException('Rate plan does not belong to this property');
+      }
+    }
+  }
+
+  private assertRateLimits(minRate: number | null | undefined, maxRate: number | null | undefined): void {
+    if (minRate !== null && minRate !== undefined && maxRate !== null && maxRate !== undefined && minRate > maxRate) {
+      throw new BadRequestException('Minimum rate cannot be greater than maximum rate');
+    }
+  }
+
+  private toRate(value: any): number | null {
+    return value === null || value === undefined ? null : parseFloat(value.toString());
+  }
+}
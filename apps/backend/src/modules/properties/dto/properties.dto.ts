@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Last Used Property DTO
+ */
+export class LastUsedPropertyDto {
+  @ApiProperty({ example: 'prop_123', description: 'Property to reopen on the next sign-in' })
+  @IsString()
+  @IsNotEmpty()
+  propertyId: string;
+}
@@ -0,0 +1,63 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Param,
+  Body,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { PropertiesService } from './properties.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { LastUsedPropertyDto } from './dto/properties.dto';
+
+/**
+ * Properties Controller
+ *
+ * REST API endpoints for the user's portfolio:
+ * - Accessible properties grouped by organization
+ * - The last used property, reopened on the next sign-in
+ *
+ * Access follows the user's property roles, so no role restriction applies here.
+ */
+@ApiTags('properties')
+@Controller('properties')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class PropertiesController {
+  constructor(private readonly propertiesService: PropertiesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the accessible properties, grouped by organization' })
+  @ApiResponse({ status: 200, description: 'Portfolio retrieved successfully' })
+  async getPortfolio(@GetUser() user: RequestUser) {
+    return this.propertiesService.getPortfolio(user.id, user.role);
+  }
+
+  @Put('last-used')
+  @ApiOperation({ summary: 'Remember the last used property' })
+  @ApiResponse({ status: 200, description: 'Last used property stored' })
+  @ApiResponse({ status: 403, description: 'No access to the property' })
+  @ApiResponse({ status: 404, description: 'Property not found' })
+  async setLastProperty(
+    @Body() lastUsedDto: LastUsedPropertyDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.propertiesService.setLastProperty(user.id, lastUsedDto.propertyId, user.role);
+  }
+
+  @Get(':propertyId')
+  @ApiOperation({ summary: 'Get an accessible property' })
+  @ApiResponse({ status: 200, description: 'Property retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'No access to the property' })
+  @ApiResponse({ status: 404, description: 'Property not found' })
+  async getProperty(
+    @Param('propertyId') propertyId: string,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.propertiesService.getProperty(user.id, propertyId, user.role);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+
+import { DatabaseModule } from '../database/database.module';
+import { PropertiesController } from './properties.controller';
+import { PropertiesService } from './properties.service';
+
+/**
+ * Properties Module
+ *
+ * Multi-property portfolios:
+ * - Properties a user can access through their roles, grouped by organization
+ * - The last used property per user
+ */
+@Module({
+  imports: [DatabaseModule],
+  controllers: [PropertiesController],
+  providers: [PropertiesService],
+  exports: [PropertiesService],
+})
+export class PropertiesModule {}
@@ -0,0 +1,166 @@
+import { Injectable, ForbiddenException, NotFoundException } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { UserRole } from '../auth/enums/user-role.enum';
+
+export interface PropertySummary {
+  id: string;
+  organizationId: string;
+  code: string;
+  name: string;
+  city: string | null;
+  country: string | null;
+  timezone: string;
+  currency: string;
+  rooms: number; // Physical rooms of the active room types
+  roles: string[]; // Roles the user holds here, including global roles
+}
+
+export interface OrganizationPortfolio {
+  id: string;
+  code: string;
+  name: string;
+  reportingCurrency: string;
+  properties: PropertySummary[];
+}
+
+export interface PropertyPortfolio {
+  organizations: OrganizationPortfolio[];
+  lastPropertyId: string | null; // Null when never set or no longer accessible
+}
+
+interface PropertyAccess {
+  global: boolean; // Global roles reach every active property
+  globalRoles: string[];
+  rolesByProperty: Map<string, string[]>;
+}
+
+/**
+ * Properties Service
+ *
+ * The portfolio a user works in:
+ * - Properties reachable through the user's property roles, or every active
+ *   property for global roles, grouped by organization
+ * - Access checks for a single property
+ * - The last property the user selected, reopened on the next sign-in
+ */
+@Injectable()
+export class PropertiesService {
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * Accessible properties of a user, grouped by organization
+   */
+  async getPortfolio(userId: string, role?: string): Promise<PropertyPortfolio> {
+    const access = await this.loadAccess(userId, role);
+    const properties = await this.databaseService.property.findMany({
+      where: {
+        isActive: true,
+        ...(!access.global && { id: { in: Array.from(access.rolesByProperty.keys()) } }),
+      },
+      include: { organization: true, roomTypes: { where: { isActive: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    const organizations = new Map<string, OrganizationPortfolio>();
+    for (const property of properties) {
+      const organization = property.organization;
+      if (!organizations.has(organization.id)) {
+        organizations.set(organization.id, {
+          id: organization.id,
+          code: organization.code,
+          name: organization.name,
+          reportingCurrency: organization.reportingCurrency,
+          properties: [],
+        });
+      }
+      organizations.get(organization.id).properties.push(this.toSummary(property, access));
+    }
+
+    const user = await this.databaseService.user.findUnique({ where: { id: userId } });
+    const lastPropertyId = properties.some(property => property.id === user?.lastPropertyId)
+      ? user.lastPropertyId
+      : null;
+
+    return {
+      organizations: Array.from(organizations.values()).sort((a, b) => a.name.localeCompare(b.name)),
+      lastPropertyId,
+    };
+  }
+
+  /**
+   * A single property, if the user can access it
+   */
+  async getProperty(userId: string, propertyId: string, role?: string): Promise<PropertySummary> {
+    const property = await this.databaseService.property.findUnique({
+      where: { id: propertyId },
+      include: { roomTypes: { where: { isActive: true } } },
+    });
+    if (!property || !property.isActive) {
+      throw new NotFoundException(`Property ${propertyId} not found`);
+    }
+
+    const access = await this.loadAccess(userId, role);
+    this.assertAccess(access, propertyId);
+
+    return this.toSummary(property, access);
+  }
+
+  /**
+   * Remember the property a user selected
+   */
+  async setLastProperty(userId: string, propertyId: string, role?: string): Promise<{ lastPropertyId: string }> {
+    await this.getProperty(userId, propertyId, role);
+
+    await this.databaseService.user.update({
+      where: { id: userId },
+      data: { lastPropertyId: propertyId },
+    });
+
+    return { lastPropertyId: propertyId };
+  }
+
+  // Private helper methods
+
+  private async loadAccess(userId: string, role?: string): Promise<PropertyAccess> {
+    const userRoles = await this.databaseService.userRole.findMany({
+      where: { userId },
+      include: { role: true },
+    });
+
+    const globalRoles = userRoles.filter(userRole => !userRole.propertyId).map(userRole => userRole.role.name);
+    if (role === UserRole.CORPORATE_ADMIN && !globalRoles.includes(role)) {
+      globalRoles.push(role);
+    }
+
+    const rolesByProperty = new Map<string, string[]>();
+    for (const userRole of userRoles.filter(userRole => userRole.propertyId)) {
+      rolesByProperty.set(userRole.propertyId, [...(rolesByProperty.get(userRole.propertyId) ?? []), userRole.role.name]);
+    }
+
+    return { global: globalRoles.length > 0, globalRoles, rolesByProperty };
+  }
+
+  private assertAccess(access: PropertyAccess, propertyId: string): void {
+    if (!access.global && !access.rolesByProperty.has(propertyId)) {
+      throw new ForbiddenException(`You do not have access to property ${propertyId}`);
+    }
+  }
+
+  private toSummary(property: any, access: PropertyAccess): PropertySummary {
+    const roles = [...access.globalRoles, ...(access.rolesByProperty.get(property.id) ?? [])];
+
+    return {
+      id: property.id,
+      organizationId: property.organizationId,
+      code: property.code,
+      name: property.name,
+      city: property.city ?? null,
+      country: property.country ?? null,
+      timezone: property.timezone,
+      currency: property.currency,
+      rooms: (property.roomTypes ?? []).reduce((sum, roomType) => sum + roomType.totalRooms, 0),
+      roles: Array.from(new Set(roles)),
+    };
+  }
+}
@@ -0,0 +1,693 @@
+import {
+  Injectable,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { ValidationService } from './validation.service';
+import {
+  BulkUpdateDto,
+  BulkUpdateItemDto,
+  BulkOperationType,
+} from './dto/rates-inventory.dto';
+import {
+  RateInventoryValues,
+  toRateInventoryData,
+  toRateInventoryResponse,
+  pickRateInventoryValues,
+} from './rates-inventory.mapper';
+import { ChangeRequestDiff } from '../change-requests/change-requests.service';
+
+export type BulkItemStatus = 'SUCCESS' | 'FAILED' | 'SKIPPED';
+
+export interface BulkItemResult {
+  index: number;
+  id?: string;
+  date: Date;
+  roomTypeId: string;
+  ratePlanId: string;
+  channelId: string;
+  status: BulkItemStatus;
+  errors: string[];
+}
+
+export interface BulkUpdateResult {
+  success: boolean;
+  operation: BulkOperationType;
+  totalCount: number;
+  successCount: number;
+  failedCount: number;
+  skippedCount: number;
+  results: BulkItemResult[];
+}
+
+export interface CopyOptions {
+  roomTypeIds?: string[];
+  ratePlanIds?: string[];
+  channelIds?: string[];
+  copyRates?: boolean;
+  copyInventory?: boolean;
+  copyRestrictions?: boolean;
+}
+
+export interface CopyResult {
+  copiedCount: number;
+  targetDates: number;
+  skippedDates: string[];
+}
+
+interface PlannedItem {
+  index: number;
+  item: BulkUpdateItemDto;
+  existing: any | null;
+}
+
+interface PlannedCopy {
+  source: any;
+  targetDay: Date;
+  existing: any | null;
+}
+
+interface CopyPlan {
+  sourceStart: Date;
+  sourceEnd: Date;
+  targetStart: Date;
+  targetEnd: Date;
+  copyRates: boolean;
+  copyInventory: boolean;
+  copyRestrictions: boolean;
+  copiedFields: string[];
+  items: PlannedCopy[];
+  targetDates: number;
+  skippedDates: string[];
+}
+
+const MAX_BULK_ITEMS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// API fields a copy with restrictions enabled writes
+const RESTRICTION_FIELDS = [
+  'minStay',
+  'maxStay',
+  'minStayThrough',
+  'maxStayThrough',
+  'minAdvanceBookingDays',
+  'maxAdvanceBookingDays',
+  'closedToArrival',
+  'closedToDeparture',
+  'stopSell',
+];
+
+/**
+ * Bulk Operations Service
+ *
+ * Applies multi-record changes to rates and inventory:
+ * - Validates every item before anything is written
+ * - Applies a batch atomically inside a single transaction
+ * - Reports the outcome of each item individually
+ * - Copies date ranges with day-of-week alignment, or plans copies for approval
+ * - Writes an audit entry for every change
+ */
+@Injectable()
+export class BulkOperationsService {
+  private readonly logger = new Logger(BulkOperationsService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly validationService: ValidationService,
+  ) {}
+
+  /**
+   * Apply a bulk update or delete batch
+   *
+   * All items are validated first. If any item fails validation nothing is
+   * written and the remaining items are reported as SKIPPED. Otherwise every
+   * item is applied in one transaction, so a database failure rolls back the
+   * whole batch.
+   */
+  async bulkUpdate(
+    propertyId: string,
+    userId: string,
+    bulkUpdateDto: BulkUpdateDto,
+    source = 'API',
+  ): Promise<BulkUpdateResult> {
+    const { operation, updates } = bulkUpdateDto;
+    this.assertBatch(operation, updates);
+
+    this.logger.log(`Bulk ${operation} of ${updates.length} items for property ${propertyId}`);
+
+    // Phase 1: validate every item without writing
+    const { results, planned } = await this.validateBatch(operation, propertyId, updates);
+
+    if (planned.length !== updates.length) {
+      this.logger.warn(`Bulk ${operation} rejected: ${updates.length - planned.length} items failed validation`);
+      return this.buildBulkResult(operation, results);
+    }
+
+    // Phase 2: apply the whole batch atomically
+    let currentIndex: number | null = null;
+    try {
+      await this.databaseService.$transaction(async (tx) => {
+        for (const { index, item, existing } of planned) {
+          currentIndex = index;
+          const record = operation === BulkOperationType.DELETE
+            ? await this.deleteItem(tx, existing)
+            : await this.upsertItem(tx, propertyId, item, existing);
+
+          await tx.auditLog.create({
+            data: {
+              propertyId,
+              userId,
+              action: operation === BulkOperationType.DELETE ? 'DELETE' : existing ? 'UPDATE' : 'CREATE',
+              entityType: 'RATE_INVENTORY',
+              entityId: record.id,
+              oldValues: existing ? toRateInventoryResponse(existing) : null,
+              newValues: operation === BulkOperationType.DELETE ? null : toRateInventoryResponse(record),
+              source,
+            },
+          });
+
+          results[index].id = record.id;
+          results[index].status = 'SUCCESS';
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Bulk ${operation} rolled back: ${error.message}`, error.stack);
+
+      results.forEach(result => {
+        result.status = 'SKIPPED';
+      });
+      if (currentIndex !== null) {
+        results[currentIndex].status = 'FAILED';
+        results[currentIndex].errors.push(error.message);
+      }
+    }
+
+    const bulkResult = this.buildBulkResult(operation, results);
+    this.logger.log(
+      `Bulk ${operation} finished: ${bulkResult.successCount} succeeded, ${bulkResult.failedCount} failed`
+    );
+
+    return bulkResult;
+  }
+
+  /**
+   * Validate a bulk batch and describe its changes without writing
+   *
+   * Used to stage a batch for approval. Diffs are only returned when every
+   * item passes validation.
+   */
+  async planBulkUpdate(
+    propertyId: string,
+    bulkUpdateDto: BulkUpdateDto,
+  ): Promise<{ result: BulkUpdateResult; diffs: ChangeRequestDiff[] }> {
+    const { operation, updates } = bulkUpdateDto;
+    this.assertBatch(operation, updates);
+
+    const { results, planned } = await this.validateBatch(operation, propertyId, updates);
+    const result = this.buildBulkResult(operation, results);
+
+    if (planned.length !== updates.length) {
+      return { result, diffs: [] };
+    }
+
+    const diffs = planned.map(({ item, existing }) => {
+      const current = existing ? toRateInventoryResponse(existing) : null;
+      const after = operation === BulkOperationType.DELETE ? null : pickRateInventoryValues(item);
+
+      return {
+        rateInventoryId: existing?.id,
+        roomTypeId: existing?.roomTypeId ?? item.roomTypeId,
+        ratePlanId: existing?.ratePlanId ?? item.ratePlanId,
+        channelId: existing?.channelId ?? item.channelId,
+        date: this.dateKey(existing?.date ?? item.date),
+        before: current ? pickRateInventoryValues(current, after ? Object.keys(after) : undefined) : null,
+        after,
+      };
+    });
+
+    return { result, diffs };
+  }
+
+  /**
+   * Copy rates, inventory and restrictions from one date range to another
+   *
+   * Target dates are aligned with source dates on the same weekday, so a
+   * Friday in the target range receives the values of a Friday in the source
+   * range. When the target range is longer than the source, the source weeks
+   * repeat. Target dates whose weekday is not in the source range are skipped.
+   */
+  async copyRatesInventory(
+    propertyId: string,
+    userId: string,
+    sourceStartDate: Date,
+    sourceEndDate: Date,
+    targetStartDate: Date,
+    targetEndDate: Date,
+    options: CopyOptions = {},
+  ): Promise<CopyResult> {
+    const plan = await this.resolveCopy(
+      propertyId,
+      sourceStartDate,
+      sourceEndDate,
+      targetStartDate,
+      targetEndDate,
+      options,
+    );
+    const { copyRates, copyInventory, copyRestrictions } = plan;
+
+    await this.databaseService.$transaction(async (tx) => {
+      for (const { source, targetDay } of plan.items) {
+        await tx.rateInventory.upsert({
+          where: {
+            propertyId_roomTypeId_ratePlanId_channelId_date: {
+              propertyId,
+              roomTypeId: source.roomTypeId,
+              ratePlanId: source.ratePlanId,
+              channelId: source.channelId,
+              date: targetDay,
+            },
+          },
+          // A new target row needs a rate and inventory, so it takes the full source values
+          create: {
+            propertyId,
+            roomTypeId: source.roomTypeId,
+            ratePlanId: source.ratePlanId,
+            channelId: source.channelId,
+            date: targetDay,
+            rate: source.rate,
+            inventory: source.inventory,
+            minLos: source.minLos,
+            maxLos: source.maxLos,
+            minLosThrough: source.minLosThrough,
+            maxLosThrough: source.maxLosThrough,
+            minAdvanceDays: source.minAdvanceDays,
+            maxAdvanceDays: source.maxAdvanceDays,
+            cta: source.cta,
+            ctd: source.ctd,
+            stopSell: source.stopSell,
+            syncStatus: 'PENDING',
+          },
+          update: {
+            ...(copyRates && { rate: source.rate }),
+            ...(copyInventory && { inventory: source.inventory }),
+            ...(copyRestrictions && {
+              minLos: source.minLos,
+              maxLos: source.maxLos,
+              minLosThrough: source.minLosThrough,
+              maxLosThrough: source.maxLosThrough,
+              minAdvanceDays: source.minAdvanceDays,
+              maxAdvanceDays: source.maxAdvanceDays,
+              cta: source.cta,
+              ctd: source.ctd,
+              stopSell: source.stopSell,
+            }),
+            syncStatus: 'PENDING',
+          },
+        });
+      }
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'COPY',
+          entityType: 'RATE_INVENTORY',
+          changes: {
+            sourceStartDate: this.dateKey(plan.sourceStart),
+            sourceEndDate: this.dateKey(plan.sourceEnd),
+            targetStartDate: this.dateKey(plan.targetStart),
+            targetEndDate: this.dateKey(plan.targetEnd),
+            copyRates,
+            copyInventory,
+            copyRestrictions,
+            copiedCount: plan.items.length,
+          },
+          source: 'API',
+        },
+      });
+    });
+
+    const result = this.buildCopyResult(plan);
+    this.logger.log(
+      `Copied ${result.copiedCount} records into ${result.targetDates - result.skippedDates.length} dates for property ${propertyId}`
+    );
+
+    return result;
+  }
+
+  /**
+   * Resolve a copy and describe its changes without writing
+   *
+   * Used to stage a copy for approval. A new target record takes every
+   * source value; an existing one only the copied fields, with source
+   * restrictions that are not set clearing the target's, as a direct copy does.
+   */
+  async planCopy(
+    propertyId: string,
+    sourceStartDate: Date,
+    sourceEndDate: Date,
+    targetStartDate: Date,
+    targetEndDate: Date,
+    options: CopyOptions = {},
+  ): Promise<{ result: CopyResult; diffs: ChangeRequestDiff[] }> {
+    const plan = await this.resolveCopy(
+      propertyId,
+      sourceStartDate,
+      sourceEndDate,
+      targetStartDate,
+      targetEndDate,
+      options,
+    );
+    const { copiedFields } = plan;
+
+    const diffs: ChangeRequestDiff[] = [];
+    for (const { source, targetDay, existing } of plan.items) {
+      const values = toRateInventoryResponse(source);
+      const after: RateInventoryValues = existing
+        ? Object.fromEntries(copiedFields.map(field => [field, values[field] ?? null]))
+        : pickRateInventoryValues(values);
+
+      diffs.push({
+        rateInventoryId: existing?.id,
+        roomTypeId: source.roomTypeId,
+        ratePlanId: source.ratePlanId,
+        channelId: source.channelId,
+        date: this.dateKey(targetDay),
+        before: existing ? pickRateInventoryValues(toRateInventoryResponse(existing), copiedFields) : null,
+        after,
+      });
+    }
+
+    return { result: this.buildCopyResult(plan), diffs };
+  }
+
+  // Private helper methods
+
+  private assertBatch(operation: BulkOperationType, updates: BulkUpdateItemDto[]): void {
+    if (operation === BulkOperationType.COPY) {
+      throw new BadRequestException('Use the copy endpoint for COPY operations');
+    }
+
+    if (!updates?.length) {
+      throw new BadRequestException('Bulk update requires at least one item');
+    }
+
+    if (updates.length > MAX_BULK_ITEMS) {
+      throw new BadRequestException(`Too many items in a single bulk update (max ${MAX_BULK_ITEMS})`);
+    }
+  }
+
+  private async validateBatch(
+    operation: BulkOperationType,
+    propertyId: string,
+    updates: BulkUpdateItemDto[],
+  ): Promise<{ results: BulkItemResult[]; planned: PlannedItem[] }> {
+    const results: BulkItemResult[] = updates.map((item, index) => ({
+      index,
+      id: item.id,
+      date: item.date,
+      roomTypeId: item.roomTypeId,
+      ratePlanId: item.ratePlanId,
+      channelId: item.channelId,
+      status: 'SKIPPED',
+      errors: [],
+    }));
+
+    const planned: PlannedItem[] = [];
+    for (const [index, item] of updates.entries()) {
+      try {
+        const existing = await this.findExistingRecord(propertyId, item);
+        await this.validateItem(operation, propertyId, item, existing);
+        planned.push({ index, item, existing });
+      } catch (error) {
+        results[index].status = 'FAILED';
+        results[index].errors.push(error.message);
+      }
+    }
+
+    return { results, planned };
+  }
+
+  private async findExistingRecord(propertyId: string, item: BulkUpdateItemDto) {
+    if (item.id) {
+      return this.databaseService.rateInventory.findFirst({
+        where: { id: item.id, propertyId },
+      });
+    }
+
+    return this.databaseService.rateInventory.findUnique({
+      where: {
+        propertyId_roomTypeId_ratePlanId_channelId_date: {
+          propertyId,
+          roomTypeId: item.roomTypeId,
+          ratePlanId: item.ratePlanId,
+          channelId: item.channelId,
+          date: this.toUtcDay(item.date),
+        },
+      },
+    });
+  }
+
+  private async validateItem(
+    operation: BulkOperationType,
+    propertyId: string,
+    item: BulkUpdateItemDto,
+    existing: any | null,
+  ): Promise<void> {
+    if (operation === BulkOperationType.DELETE) {
+      if (!existing) {
+        throw new BadRequestException('Rate inventory record not found');
+      }
+      return;
+    }
+
+    if (item.id && !existing) {
+      throw new BadRequestException(`Rate inventory record not found: ${item.id}`);
+    }
+
+    if (existing) {
+      await this.validationService.validateBulkUpdate(item, propertyId);
+      await this.validationService.validateRateInventoryUpdate(item, toRateInventoryResponse(existing));
+      return;
+    }
+
+    if (item.rate === undefined || item.inventory === undefined) {
+      throw new BadRequestException('Rate and inventory are required for new records');
+    }
+
+    await this.validationService.validateRateInventoryData(
+      { ...item, rate: item.rate, inventory: item.inventory },
+      propertyId,
+    );
+  }
+
+  private async upsertItem(tx: any, propertyId: string, item: BulkUpdateItemDto, existing: any | null) {
+    const data = { ...toRateInventoryData(item), syncStatus: 'PENDING' };
+
+    if (existing) {
+      return tx.rateInventory.update({
+        where: { id: existing.id },
+        data,
+      });
+    }
+
+    return tx.rateInventory.create({
+      data: {
+        ...data,
+        propertyId,
+        roomTypeId: item.roomTypeId,
+        ratePlanId: item.ratePlanId,
+        channelId: item.channelId,
+        date: this.toUtcDay(item.date),
+      },
+    });
+  }
+
+  private async deleteItem(tx: any, existing: any) {
+    return tx.rateInventory.delete({
+      where: { id: existing.id },
+    });
+  }
+
+  private buildBulkResult(operation: BulkOperationType, results: BulkItemResult[]): BulkUpdateResult {
+    const successCount = results.filter(r => r.status === 'SUCCESS').length;
+    const failedCount = results.filter(r => r.status === 'FAILED').length;
+
+    return {
+      success: failedCount === 0 && successCount === results.length,
+      operation,
+      totalCount: results.length,
+      successCount,
+      failedCount,
+      skippedCount: results.length - successCount - failedCount,
+      results,
+    };
+  }
+
+  /**
+   * Validate a copy request and pair every target date with its source records
+   *
+   * Each target record is checked with the values it would receive, using the
+   * same rules as a bulk update item; any failure rejects the whole copy.
+   */
+  private async resolveCopy(
+    propertyId: string,
+    sourceStartDate: Date,
+    sourceEndDate: Date,
+    targetStartDate: Date,
+    targetEndDate: Date,
+    options: CopyOptions,
+  ): Promise<CopyPlan> {
+    const sourceStart = this.toUtcDay(sourceStartDate);
+    const sourceEnd = this.toUtcDay(sourceEndDate);
+    const targetStart = this.toUtcDay(targetStartDate);
+    const targetEnd = this.toUtcDay(targetEndDate);
+
+    if (sourceStart > sourceEnd) {
+      throw new BadRequestException('Source start date must not be after source end date');
+    }
+    await this.validationService.validateDateRange(propertyId, targetStart, targetEnd);
+
+    const copyRates = options.copyRates ?? true;
+    const copyInventory = options.copyInventory ?? true;
+    const copyRestrictions = options.copyRestrictions ?? true;
+
+    if (!copyRates && !copyInventory && !copyRestrictions) {
+      throw new BadRequestException('Nothing to copy: enable rates, inventory or restrictions');
+    }
+
+    const copiedFields = [
+      ...(copyRates ? ['rate'] : []),
+      ...(copyInventory ? ['inventory'] : []),
+      ...(copyRestrictions ? RESTRICTION_FIELDS : []),
+    ];
+
+    const sourceRecords = await this.databaseService.rateInventory.findMany({
+      where: {
+        propertyId,
+        date: { gte: sourceStart, lte: sourceEnd },
+        ...(options.roomTypeIds?.length && { roomTypeId: { in: options.roomTypeIds } }),
+        ...(options.ratePlanIds?.length && { ratePlanId: { in: options.ratePlanIds } }),
+        ...(options.channelIds?.length && { channelId: { in: options.channelIds } }),
+      },
+    });
+
+    const recordsByDate = new Map<string, any[]>();
+    for (const record of sourceRecords) {
+      const key = this.dateKey(record.date);
+      recordsByDate.set(key, [...(recordsByDate.get(key) ?? []), record]);
+    }
+
+    // Source dates grouped by weekday, in chronological order
+    const sourceDatesByWeekday = new Map<number, string[]>();
+    for (const day of this.eachDay(sourceStart, sourceEnd)) {
+      const weekday = day.getUTCDay();
+      sourceDatesByWeekday.set(weekday, [...(sourceDatesByWeekday.get(weekday) ?? []), this.dateKey(day)]);
+    }
+
+    const targetDays = this.eachDay(targetStart, targetEnd);
+    const items: PlannedCopy[] = [];
+    const skippedDates: string[] = [];
+    const failures: string[] = [];
+
+    for (const targetDay of targetDays) {
+      const candidates = sourceDatesByWeekday.get(targetDay.getUTCDay()) ?? [];
+      const week = Math.floor((targetDay.getTime() - targetStart.getTime()) / (7 * DAY_MS));
+      const sourceKey = candidates.length ? candidates[week % candidates.length] : null;
+      const records = sourceKey ? recordsByDate.get(sourceKey) ?? [] : [];
+
+      if (records.length === 0) {
+        skippedDates.push(this.dateKey(targetDay));
+        continue;
+      }
+
+      for (const source of records) {
+        items.push(await this.validateCopyTarget(propertyId, source, targetDay, copiedFields, failures));
+      }
+    }
+
+    if (failures.length) {
+      this.logger.warn(`Copy rejected: ${failures.length} target records failed validation`);
+      throw new BadRequestException({
+        message: `Copy failed validation: ${failures.join('; ')}`,
+        errors: failures,
+      });
+    }
+
+    return {
+      sourceStart,
+      sourceEnd,
+      targetStart,
+      targetEnd,
+      copyRates,
+      copyInventory,
+      copyRestrictions,
+      copiedFields,
+      items,
+      targetDates: targetDays.length,
+      skippedDates,
+    };
+  }
+
+  /**
+   * Run a copy target through bulk item validation, recording why it fails
+   *
+   * A new target takes every source value, an existing one only the copied
+   * fields; unset source values are left out of the check.
+   */
+  private async validateCopyTarget(
+    propertyId: string,
+    source: any,
+    targetDay: Date,
+    copiedFields: string[],
+    failures: string[],
+  ): Promise<PlannedCopy> {
+    const target = {
+      roomTypeId: source.roomTypeId,
+      ratePlanId: source.ratePlanId,
+      channelId: source.channelId,
+      date: targetDay,
+    } as BulkUpdateItemDto;
+    const existing = await this.findExistingRecord(propertyId, target);
+
+    const values = pickRateInventoryValues(toRateInventoryResponse(source), existing ? copiedFields : undefined);
+    const item = {
+      ...target,
+      ...Object.fromEntries(Object.entries(values).filter(([, value]) => value !== null)),
+    } as BulkUpdateItemDto;
+
+    try {
+      await this.validateItem(BulkOperationType.UPDATE, propertyId, item, existing);
+    } catch (error) {
+      failures.push(`${this.dateKey(targetDay)} ${source.roomTypeId}/${source.ratePlanId}/${source.channelId}: ${error.message}`);
+    }
+
+    return { source, targetDay, existing };
+  }
+
+  private buildCopyResult(plan: CopyPlan): CopyResult {
+    return {
+      copiedCount: plan.items.length,
+      targetDates: plan.targetDates,
+      skippedDates: plan.skippedDates,
+    };
+  }
+
+  private toUtcDay(date: Date): Date {
+    const value = new Date(date);
+    return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+  }
+
+  private eachDay(start: Date, end: Date): Date[] {
+    const days: Date[] = [];
+    for (let time = start.getTime(); time <= end.getTime(); time += DAY_MS) {
+      days.push(new Date(time));
+    }
+    return days;
+  }
+
+  private dateKey(date: Date): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+}
@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
 import {
   IsDate,
   IsNumber,
@@ -11,6 +11,10 @@ import {
   Min,
   Max,
   IsEnum,
+  IsInt,
+  IsObject,
+  ArrayMaxSize,
+  MaxLength,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 
@@ -45,20 +49,48 @@ export class CreateRateInventoryDto {
   @Min(0)
   inventory: number;
 
-  @ApiProperty({ example: 1, required: false })
+  @ApiProperty({ example: 1, required: false, description: 'Minimum stay for arrivals on the date' })
   @IsOptional()
   @IsNumber()
   @Min(1)
   @Max(30)
   minStay?: number;
 
-  @ApiProperty({ example: 7, required: false })
+  @ApiProperty({ example: 7, required: false, description: 'Maximum stay for arrivals on the date' })
   @IsOptional()
   @IsNumber()
   @Min(1)
   @Max(365)
   maxStay?: number;
 
+  @ApiProperty({ example: 2, required: false, description: 'Minimum stay for any stay including the date' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(30)
+  minStayThrough?: number;
+
+  @ApiProperty({ example: 14, required: false, description: 'Maximum stay for any stay including the date' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(365)
+  maxStayThrough?: number;
+
+  @ApiProperty({ example: 7, required: false, description: 'Days before arrival the booking must be made at least' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  minAdvanceBookingDays?: number;
+
+  @ApiProperty({ example: 90, required: false, description: 'Days before arrival the booking can be made at most' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(730)
+  maxAdvanceBookingDays?: number;
+
   @ApiProperty({ example: false, required: false })
   @IsOptional()
   @IsBoolean()
@@ -91,20 +123,48 @@ export class UpdateRateInventoryDto {
   @Min(0)
   inventory?: number;
 
-  @ApiProperty({ example: 1, required: false })
+  @ApiProperty({ example: 1, required: false, description: 'Minimum stay for arrivals on the date' })
   @IsOptional()
   @IsNumber()
   @Min(1)
   @Max(30)
   minStay?: number;
 
-  @ApiProperty({ example: 7, required: false })
+  @ApiProperty({ example: 7, required: false, description: 'Maximum stay for arrivals on the date' })
   @IsOptional()
   @IsNumber()
   @Min(1)
   @Max(365)
   maxStay?: number;
 
+  @ApiProperty({ example: 2, required: false, description: 'Minimum stay for any stay including the date' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(30)
+  minStayThrough?: number;
+
+  @ApiProperty({ example: 14, required: false, description: 'Maximum stay for any stay including the date' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(365)
+  maxStayThrough?: number;
+
+  @ApiProperty({ example: 7, required: false, description: 'Days before arrival the booking must be made at least' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  minAdvanceBookingDays?: number;
+
+  @ApiProperty({ example: 90, required: false, description: 'Days before arrival the booking can be made at most' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(730)
+  maxAdvanceBookingDays?: number;
+
   @ApiProperty({ example: false, required: false })
   @IsOptional()
   @IsBoolean()
@@ -198,20 +258,48 @@ export class BulkUpdateItemDto {
   @Min(0)
   inventory?: number;
 
-  @ApiProperty({ example: 1, required: false })
+  @ApiProperty({ example: 1, required: false, description: 'Minimum stay for arrivals on the date' })
   @IsOptional()
   @IsNumber()
   @Min(1)
   @Max(30)
   minStay?: number;
 
-  @ApiProperty({ example: 7, required: false })
+  @ApiProperty({ example: 7, required: false, description: 'Maximum stay for arrivals on the date' })
   @IsOptional()
   @IsNumber()
   @Min(1)
   @Max(365)
   maxStay?: number;
 
+  @ApiProperty({ example: 2, required: false, description: 'Minimum stay for any stay including the date' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(30)
+  minStayThrough?: number;
+
+  @ApiProperty({ example: 14, required: false, description: 'Maximum stay for any stay including the date' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(365)
+  maxStayThrough?: number;
+
+  @ApiProperty({ example: 7, required: false, description: 'Days before arrival the booking must be made at least' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  minAdvanceBookingDays?: number;
+
+  @ApiProperty({ example: 90, required: false, description: 'Days before arrival the booking can be made at most' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(730)
+  maxAdvanceBookingDays?: number;
+
   @ApiProperty({ example: false, required: false })
   @IsOptional()
   @IsBoolean()
@@ -310,6 +398,155 @@ export class CopyRatesInventoryDto {
   copyRestrictions?: boolean;
 }
 
+/**
+ * Publish Change Type
+ */
+export enum PublishChangeType {
+  PRICE = 'price',
+  INVENTORY = 'inventory',
+}
+
+/**
+ * Publish Change DTO
+ *
+ * One edited grid cell. Price changes target a single rate plan; inventory
+ * changes apply to every rate plan of the room type. Both fan out to all
+ * channels holding a record for the date.
+ */
+export class PublishChangeDto {
+  @ApiProperty({ example: 'change-1', description: 'Client identifier echoed back in the cell result' })
+  @IsString()
+  changeId: string;
+
+  @ApiProperty({ enum: PublishChangeType, example: PublishChangeType.PRICE })
+  @IsEnum(PublishChangeType)
+  type: PublishChangeType;
+
+  @ApiProperty({ example: 'room-type-id' })
+  @IsString()
+  roomTypeId: string;
+
+  @ApiProperty({ example: 'rate-plan-id', required: false })
+  @IsOptional()
+  @IsString()
+  ratePlanId?: string;
+
+  @ApiProperty({ example: '2024-01-15' })
+  @IsDate()
+  @Type(() => Date)
+  date: Date;
+
+  @ApiProperty({ example: 150.00 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  value: number;
+}
+
+/**
+ * Publish Changes DTO
+ */
+export class PublishChangesDto {
+  @ApiProperty({ type: [PublishChangeDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PublishChangeDto)
+  changes: PublishChangeDto[];
+}
+
+/**
+ * Sync Status Query DTO
+ */
+export class SyncStatusQueryDto {
+  @ApiProperty({ example: ['rate-inventory-1', 'rate-inventory-2'] })
+  @IsArray()
+  @IsString({ each: true })
+  @Transform(({ value }) => (typeof value === 'string' ? value.split(',') : value))
+  ids: string[];
+}
+
+/**
+ * Import Field
+ *
+ * Rate inventory field an import column can be mapped to. Rows are keyed by
+ * room type code, rate plan code and date; the channel code is optional.
+ */
+export enum ImportField {
+  ROOM_TYPE_CODE = 'roomTypeCode',
+  RATE_PLAN_CODE = 'ratePlanCode',
+  CHANNEL_CODE = 'channelCode',
+  DATE = 'date',
+  RATE = 'rate',
+  INVENTORY = 'inventory',
+  MIN_STAY = 'minStay',
+  MAX_STAY = 'maxStay',
+  MIN_STAY_THROUGH = 'minStayThrough',
+  MAX_STAY_THROUGH = 'maxStayThrough',
+  MIN_ADVANCE_BOOKING_DAYS = 'minAdvanceBookingDays',
+  MAX_ADVANCE_BOOKING_DAYS = 'maxAdvanceBookingDays',
+  CLOSED_TO_ARRIVAL = 'closedToArrival',
+  CLOSED_TO_DEPARTURE = 'closedToDeparture',
+  STOP_SELL = 'stopSell',
+}
+
+/**
+ * Import Column Mapping DTO
+ */
+export class ImportColumnMappingDto {
+  @ApiProperty({ example: 'Room Code', description: 'Column header in the uploaded file' })
+  @IsString()
+  column: string;
+
+  @ApiProperty({ enum: ImportField, example: ImportField.ROOM_TYPE_CODE })
+  @IsEnum(ImportField)
+  field: ImportField;
+}
+
+/**
+ * Import Row DTO
+ */
+export class ImportRowDto {
+  @ApiProperty({ example: 2, description: 'Line number in the uploaded file' })
+  @IsInt()
+  @Min(1)
+  rowNumber: number;
+
+  @ApiProperty({ example: { 'Room Code': 'DLX', 'Rate Plan': 'BAR', Date: '2024-01-15', Rate: '150' } })
+  @IsObject()
+  values: Record<string, string>;
+}
+
+/**
+ * Import Preview DTO
+ */
+export class ImportPreviewDto {
+  @ApiProperty({ type: [ImportColumnMappingDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ImportColumnMappingDto)
+  mapping: ImportColumnMappingDto[];
+
+  @ApiProperty({ type: [ImportRowDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ImportRowDto)
+  rows: ImportRowDto[];
+}
+
+/**
+ * Import Commit DTO
+ */
+export class ImportCommitDto extends ImportPreviewDto {
+  @ApiProperty({ example: [2, 3, 5], description: 'Row numbers accepted in the preview' })
+  @IsArray()
+  @IsInt({ each: true })
+  acceptedRows: number[];
+
+  @ApiProperty({ example: 'rates-january.xlsx', required: false })
+  @IsOptional()
+  @IsString()
+  fileName?: string;
+}
+
 /**
  * Rate Inventory Statistics DTO
  */
@@ -354,4 +591,131 @@ export class RateInventoryStatsDto {
     closedToDeparture: boolean;
     _count: { id: number };
   }>;
-} 
\ No newline at end of file
+} 
+
+/**
+ * Restriction a restriction rule sets
+ *
+ * CLOSEOUT, CTA and CTD close the date; the others take a value in nights
+ * (length of stay) or days (advance booking).
+ */
+export enum RestrictionRuleType {
+  CLOSEOUT = 'CLOSEOUT',
+  CTA = 'CTA',
+  CTD = 'CTD',
+  MIN_LOS = 'MIN_LOS',
+  MAX_LOS = 'MAX_LOS',
+  MIN_LOS_THROUGH = 'MIN_LOS_THROUGH',
+  MAX_LOS_THROUGH = 'MAX_LOS_THROUGH',
+  MIN_ADVANCE = 'MIN_ADVANCE',
+  MAX_ADVANCE = 'MAX_ADVANCE',
+}
+
+/**
+ * Restriction Rule Status
+ *
+ * Only ACTIVE rules are expanded into rate inventory; deactivating a rule
+ * reverts the values it set.
+ */
+export enum RestrictionRuleStatus {
+  DRAFT = 'DRAFT',
+  ACTIVE = 'ACTIVE',
+  INACTIVE = 'INACTIVE',
+}
+
+/**
+ * Create Restriction Rule DTO
+ *
+ * Targets take room type, rate plan and channel ids, codes or names; an
+ * empty target applies to all of them.
+ */
+export class CreateRestrictionRuleDto {
+  @ApiProperty({ example: 'Summer weekends MinLOS', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  name?: string;
+
+  @ApiProperty({ enum: RestrictionRuleType, example: RestrictionRuleType.MIN_LOS })
+  @IsEnum(RestrictionRuleType)
+  restriction: RestrictionRuleType;
+
+  @ApiProperty({ example: 3, required: false, description: 'Nights or days; not used by CLOSEOUT, CTA and CTD' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(730)
+  value?: number;
+
+  @ApiProperty({ example: '2024-06-01' })
+  @IsDate()
+  @Type(() => Date)
+  startDate: Date;
+
+  @ApiProperty({ example: '2024-08-31' })
+  @IsDate()
+  @Type(() => Date)
+  endDate: Date;
+
+  @ApiProperty({ example: [5, 6], required: false, description: 'Days of week, 0 = Sunday; every day when empty' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(7)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek?: number[];
+
+  @ApiProperty({ example: ['DLX'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  roomTypes?: string[];
+
+  @ApiProperty({ example: ['BAR'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  ratePlans?: string[];
+
+  @ApiProperty({ example: ['BOOKING_COM'], required: false })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  channels?: string[];
+
+  @ApiProperty({ example: 10, required: false, description: 'Higher wins where rules set the same restriction' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  priority?: number;
+
+  @ApiProperty({ enum: [RestrictionRuleStatus.DRAFT, RestrictionRuleStatus.ACTIVE], required: false, description: 'DRAFT by default' })
+  @IsOptional()
+  @IsEnum(RestrictionRuleStatus)
+  status?: RestrictionRuleStatus;
+
+  @ApiProperty({ example: 'Peak season weekends', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
+
+/**
+ * Update Restriction Rule DTO
+ *
+ * Status changes go through activate and deactivate.
+ */
+export class UpdateRestrictionRuleDto extends PartialType(OmitType(CreateRestrictionRuleDto, ['status'] as const)) {}
+
+/**
+ * Restriction Rule Query DTO
+ */
+export class RestrictionRuleQueryDto {
+  @ApiProperty({ enum: RestrictionRuleStatus, required: false })
+  @IsOptional()
+  @IsEnum(RestrictionRuleStatus)
+  status?: RestrictionRuleStatus;
+}
@@ -0,0 +1,613 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { ValidationService, ValidationIssue } from './validation.service';
+import {
+  CreateRateInventoryDto,
+  ImportColumnMappingDto,
+  ImportField,
+  ImportPreviewDto,
+} from './dto/rates-inventory.dto';
+import {
+  RateInventoryValues,
+  toRateInventoryData,
+  toRateInventoryResponse,
+  pickRateInventoryValues,
+} from './rates-inventory.mapper';
+import { ChangeRequestDiff } from '../change-requests/change-requests.service';
+import { parseTabularFile } from '../../common/files/tabular-file.parser';
+
+export type ImportRowStatus = 'NEW' | 'CHANGED' | 'UNCHANGED' | 'INVALID';
+
+export interface ImportRow {
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+export interface ParsedImportFile {
+  fileName: string;
+  columns: string[];
+  rows: ImportRow[];
+  suggestedMapping: ImportColumnMappingDto[];
+}
+
+export interface ImportRecordDiff extends ChangeRequestDiff {
+  channelCode: string;
+  changedFields: string[];
+}
+
+export interface ImportRowPreview {
+  rowNumber: number;
+  status: ImportRowStatus;
+  roomTypeCode: string | null;
+  ratePlanCode: string | null;
+  channelCode: string | null;
+  date: string | null;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  records: ImportRecordDiff[];
+}
+
+export interface ImportPreview {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  changedRows: number;
+  rows: ImportRowPreview[];
+}
+
+export interface ImportCommitPlan {
+  diffs: ImportRecordDiff[];
+  owners: number[]; // rowNumber of each diff, by index
+  importedRows: number[];
+  skippedRows: Array<{ rowNumber: number; reason: string }>;
+}
+
+export interface ImportCommitResult {
+  success: boolean;
+  importedRows: number[];
+  createdCount: number;
+  updatedCount: number;
+  skippedRows: Array<{ rowNumber: number; reason: string }>;
+}
+
+const MAX_IMPORT_ROWS = 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+// Normalised header spellings recognised when suggesting a column mapping
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  [ImportField.ROOM_TYPE_CODE]: ['roomtypecode', 'roomtype', 'roomcode', 'room'],
+  [ImportField.RATE_PLAN_CODE]: ['rateplancode', 'rateplan', 'plancode', 'code', 'plan'],
+  [ImportField.CHANNEL_CODE]: ['channelcode', 'channel'],
+  [ImportField.DATE]: ['date', 'staydate', 'night'],
+  [ImportField.RATE]: ['rate', 'price', 'amount'],
+  [ImportField.INVENTORY]: ['inventory', 'availability', 'allotment', 'rooms'],
+  [ImportField.MIN_STAY]: ['minstay', 'minlos', 'minimumstay', 'minstayarrival', 'minlosarrival'],
+  [ImportField.MAX_STAY]: ['maxstay', 'maxlos', 'maximumstay', 'maxstayarrival', 'maxlosarrival'],
+  [ImportField.MIN_STAY_THROUGH]: ['minstaythrough', 'minlosthrough', 'minimumstaythrough'],
+  [ImportField.MAX_STAY_THROUGH]: ['maxstaythrough', 'maxlosthrough', 'maximumstaythrough'],
+  [ImportField.MIN_ADVANCE_BOOKING_DAYS]: ['minadvancebookingdays', 'minadvancedays', 'minadvancepurchase', 'minadv'],
+  [ImportField.MAX_ADVANCE_BOOKING_DAYS]: ['maxadvancebookingdays', 'maxadvancedays', 'maxadvancepurchase', 'maxadv'],
+  [ImportField.CLOSED_TO_ARRIVAL]: ['closedtoarrival', 'cta'],
+  [ImportField.CLOSED_TO_DEPARTURE]: ['closedtodeparture', 'ctd'],
+  [ImportField.STOP_SELL]: ['stopsell', 'closed'],
+};
+
+const INTEGER_FIELDS = [
+  ImportField.INVENTORY,
+  ImportField.MIN_STAY,
+  ImportField.MAX_STAY,
+  ImportField.MIN_STAY_THROUGH,
+  ImportField.MAX_STAY_THROUGH,
+  ImportField.MIN_ADVANCE_BOOKING_DAYS,
+  ImportField.MAX_ADVANCE_BOOKING_DAYS,
+];
+const BOOLEAN_FIELDS = [ImportField.CLOSED_TO_ARRIVAL, ImportField.CLOSED_TO_DEPARTURE, ImportField.STOP_SELL];
+
+interface ImportLookups {
+  roomTypes: Map<string, any>;
+  ratePlans: Map<string, any>;
+  channels: Map<string, any>;
+  records: Map<string, any>;
+}
+
+/**
+ * Import Service
+ *
+ * Loads rates, inventory and restrictions from CSV or Excel files:
+ * - Parses uploads into header columns and raw rows
+ * - Suggests a column mapping from the header names
+ * - Resolves room type, rate plan and channel codes for each row
+ * - Validates every target record through ValidationService
+ * - Diffs rows against the current RateInventory values
+ * - Writes accepted rows atomically with an import audit trail
+ */
+@Injectable()
+export class ImportService {
+  private readonly logger = new Logger(ImportService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly validationService: ValidationService,
+  ) {}
+
+  /**
+   * Parse an uploaded CSV or XLSX file; the first row holds the column headers
+   */
+  async parseFile(file: Express.Multer.File): Promise<ParsedImportFile> {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('An import file is required');
+    }
+
+    const table = await parseTabularFile(file.buffer, file.originalname);
+
+    const [header = [], ...body] = table;
+    const columns = header.map(column => column.trim());
+    if (!columns.some(Boolean)) {
+      throw new BadRequestException('The first row of the file must contain column headers');
+    }
+
+    const rows: ImportRow[] = [];
+    body.forEach((cells, index) => {
+      if (cells.every(cell => !cell.trim())) {
+        return;
+      }
+
+      const values: Record<string, string> = {};
+      columns.forEach((column, columnIndex) => {
+        if (column) {
+          values[column] = (cells[columnIndex] ?? '').trim();
+        }
+      });
+      rows.push({ rowNumber: index + 2, values });
+    });
+
+    if (!rows.length) {
+      throw new BadRequestException('The file contains no data rows');
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(`Too many rows in a single import (max ${MAX_IMPORT_ROWS})`);
+    }
+
+    return {
+      fileName: file.originalname,
+      columns: columns.filter(Boolean),
+      rows,
+      suggestedMapping: this.suggestMapping(columns.filter(Boolean)),
+    };
+  }
+
+  /**
+   * Resolve, validate and diff every row against the current records
+   *
+   * Rows without a channel column apply to every active channel connected to
+   * the property. Fields left unmapped keep their current values; new records
+   * need both a rate and an inventory.
+   */
+  async previewImport(propertyId: string, dto: ImportPreviewDto): Promise<ImportPreview> {
+    this.validateMapping(dto.mapping);
+
+    if (dto.rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(`Too many rows in a single import (max ${MAX_IMPORT_ROWS})`);
+    }
+
+    const lookups = await this.loadLookups(propertyId, dto);
+    const seen = new Map<string, number>();
+    const rows: ImportRowPreview[] = [];
+
+    for (const row of dto.rows) {
+      rows.push(await this.previewRow(propertyId, row, dto.mapping, lookups, seen));
+    }
+
+    const invalidRows = rows.filter(row => row.status === 'INVALID').length;
+
+    return {
+      totalRows: rows.length,
+      validRows: rows.length - invalidRows,
+      invalidRows,
+      changedRows: rows.filter(row => row.status === 'NEW' || row.status === 'CHANGED').length,
+      rows,
+    };
+  }
+
+  /**
+   * Collect the record diffs of the accepted rows, skipping invalid and unchanged ones
+   */
+  planCommit(preview: ImportPreview, acceptedRows: number[]): ImportCommitPlan {
+    const accepted = new Set(acceptedRows);
+    const plan: ImportCommitPlan = { diffs: [], owners: [], importedRows: [], skippedRows: [] };
+
+    preview.rows
+      .filter(row => accepted.has(row.rowNumber))
+      .forEach(row => {
+        if (row.status === 'INVALID') {
+          plan.skippedRows.push({
+            rowNumber: row.rowNumber,
+            reason: row.errors.map(error => error.message).join('; '),
+          });
+          return;
+        }
+
+        if (row.status === 'UNCHANGED') {
+          plan.skippedRows.push({ rowNumber: row.rowNumber, reason: 'No changes to import' });
+          return;
+        }
+
+        row.records.forEach(diff => {
+          plan.diffs.push(diff);
+          plan.owners.push(row.rowNumber);
+        });
+        plan.importedRows.push(row.rowNumber);
+      });
+
+    return plan;
+  }
+
+  /**
+   * Write the planned diffs in one transaction, auditing each record as an import
+   */
+  async applyImport(
+    propertyId: string,
+    userId: string,
+    plan: ImportCommitPlan,
+    fileName?: string,
+  ): Promise<ImportCommitResult> {
+    let createdCount = 0;
+    let updatedCount = 0;
+
+    if (plan.diffs.length) {
+      await this.databaseService.$transaction(async (tx) => {
+        for (const [index, diff] of plan.diffs.entries()) {
+          const existing = diff.rateInventoryId
+            ? await tx.rateInventory.findFirst({ where: { id: diff.rateInventoryId, propertyId } })
+            : null;
+
+          const record = existing
+            ? await tx.rateInventory.update({
+                where: { id: existing.id },
+                data: { ...toRateInventoryData(diff.after), syncStatus: 'PENDING' },
+              })
+            : await tx.rateInventory.create({
+                data: {
+                  ...toRateInventoryData(diff.after),
+                  propertyId,
+                  roomTypeId: diff.roomTypeId,
+                  ratePlanId: diff.ratePlanId,
+                  channelId: diff.channelId,
+                  date: new Date(diff.date),
+                  syncStatus: 'PENDING',
+                },
+              });
+
+          if (existing) {
+            updatedCount++;
+          } else {
+            createdCount++;
+          }
+
+          await tx.auditLog.create({
+            data: {
+              propertyId,
+              userId,
+              action: existing ? 'UPDATE' : 'CREATE',
+              entityType: 'RATE_INVENTORY',
+              entityId: record.id,
+              oldValues: existing ? toRateInventoryResponse(existing) : undefined,
+              newValues: toRateInventoryResponse(record),
+              changes: {
+                ...diff.after,
+                fileName: fileName ?? null,
+                rowNumber: plan.owners[index],
+              },
+              source: 'IMPORT',
+            },
+          });
+        }
+      });
+    }
+
+    this.logger.log(
+      `Imported ${plan.importedRows.length} rows into property ${propertyId}: ` +
+      `${createdCount} created, ${updatedCount} updated, ${plan.skippedRows.length} skipped`
+    );
+
+    return {
+      success: plan.skippedRows.length === 0,
+      importedRows: plan.importedRows,
+      createdCount,
+      updatedCount,
+      skippedRows: plan.skippedRows,
+    };
+  }
+
+  // Private helper methods
+
+  private async previewRow(
+    propertyId: string,
+    row: ImportRow,
+    mapping: ImportColumnMappingDto[],
+    lookups: ImportLookups,
+    seen: Map<string, number>,
+  ): Promise<ImportRowPreview> {
+    const raw = (field: ImportField) => {
+      const column = mapping.find(m => m.field === field)?.column;
+      return column === undefined ? undefined : (row.values[column] ?? '').trim();
+    };
+
+    const roomTypeCode = raw(ImportField.ROOM_TYPE_CODE) || null;
+    const ratePlanCode = raw(ImportField.RATE_PLAN_CODE) || null;
+    const channelCode = raw(ImportField.CHANNEL_CODE) || null;
+    const date = raw(ImportField.DATE) || null;
+
+    const preview: ImportRowPreview = {
+      rowNumber: row.rowNumber,
+      status: 'UNCHANGED',
+      roomTypeCode,
+      ratePlanCode,
+      channelCode,
+      date,
+      errors: [],
+      warnings: [],
+      records: [],
+    };
+
+    const roomType = roomTypeCode && lookups.roomTypes.get(roomTypeCode.toUpperCase());
+    const ratePlan = ratePlanCode && lookups.ratePlans.get(ratePlanCode.toUpperCase());
+
+    if (!roomTypeCode) {
+      preview.errors.push(this.issue('roomTypeCode', 'ROOM_TYPE_REQUIRED', 'Room type code is required'));
+    } else if (!roomType) {
+      preview.errors.push(this.issue('roomTypeCode', 'ROOM_TYPE_UNKNOWN', `Unknown room type code ${roomTypeCode}`));
+    }
+
+    if (!ratePlanCode) {
+      preview.errors.push(this.issue('ratePlanCode', 'RATE_PLAN_REQUIRED', 'Rate plan code is required'));
+    } else if (!ratePlan) {
+      preview.errors.push(this.issue('ratePlanCode', 'RATE_PLAN_UNKNOWN', `Unknown rate plan code ${ratePlanCode}`));
+    }
+
+    if (!date) {
+      preview.errors.push(this.issue('date', 'DATE_REQUIRED', 'Date is required'));
+    } else if (!this.isValidDate(date)) {
+      preview.errors.push(this.issue('date', 'DATE_INVALID', `Date ${date} must be a valid YYYY-MM-DD date`));
+    }
+
+    let channels = Array.from(lookups.channels.values());
+    if (channelCode) {
+      const channel = lookups.channels.get(channelCode.toUpperCase());
+      channels = channel ? [channel] : [];
+      if (!channel) {
+        preview.errors.push(this.issue(
+          'channelCode',
+          'CHANNEL_NOT_CONNECTED',
+          `Channel ${channelCode} is not connected to this property`,
+        ));
+      }
+    } else if (!channels.length) {
+      preview.errors.push(this.issue('channelCode', 'NO_CHANNELS', 'No active channels are connected to this property'));
+    }
+
+    const values = this.parseValues(raw, preview.errors);
+
+    if (!Object.keys(values).length) {
+      preview.errors.push(this.issue('rate', 'NO_VALUES', 'Row has no rate, inventory or restriction values'));
+    }
+
+    const rowKey = [roomTypeCode, ratePlanCode, channelCode ?? '*', date].join('|').toUpperCase();
+    if (seen.has(rowKey)) {
+      preview.errors.push(this.issue('date', 'DUPLICATE_ROW', `Duplicates row ${seen.get(rowKey)} of the file`));
+    } else {
+      seen.set(rowKey, row.rowNumber);
+    }
+
+    if (preview.errors.length) {
+      preview.status = 'INVALID';
+      return preview;
+    }
+
+    for (const channel of channels) {
+      const current = lookups.records.get(this.recordKey(roomType.id, ratePlan.id, channel.id, date));
+      const before = current ? pickRateInventoryValues(toRateInventoryResponse(current)) : null;
+
+      if (!current && (values.rate === undefined || values.inventory === undefined)) {
+        preview.errors.push(this.issue(
+          values.rate === undefined ? 'rate' : 'inventory',
+          'RATE_INVENTORY_REQUIRED',
+          `Rate and inventory are required to create a record on ${channel.code}`,
+        ));
+        continue;
+      }
+
+      const candidate = Object.assign(new CreateRateInventoryDto(), {
+        ...before,
+        ...values,
+        date: new Date(date),
+        roomTypeId: roomType.id,
+        ratePlanId: ratePlan.id,
+        channelId: channel.id,
+      });
+      const report = await this.validationService.inspectRateInventoryData(candidate, propertyId);
+      this.mergeIssues(preview.errors, report.errors);
+      this.mergeIssues(preview.warnings, report.warnings);
+
+      const proposed = current ? values : pickRateInventoryValues(candidate);
+      const changedFields = Object.keys(proposed).filter(field => before?.[field] !== proposed[field]);
+      if (!changedFields.length) {
+        continue;
+      }
+
+      preview.records.push({
+        rateInventoryId: current?.id,
+        roomTypeId: roomType.id,
+        ratePlanId: ratePlan.id,
+        channelId: channel.id,
+        channelCode: channel.code,
+        date,
+        before: before && pickRateInventoryValues(before, changedFields),
+        after: current ? pickRateInventoryValues(proposed, changedFields) : proposed,
+        changedFields,
+      });
+    }
+
+    if (preview.errors.length) {
+      preview.status = 'INVALID';
+      preview.records = [];
+    } else if (preview.records.some(record => !record.rateInventoryId)) {
+      preview.status = 'NEW';
+    } else if (preview.records.length) {
+      preview.status = 'CHANGED';
+    }
+
+    return preview;
+  }
+
+  /**
+   * Parse the mapped value columns, reporting unparseable cells as row errors
+   *
+   * Blank cells leave the current value unchanged.
+   */
+  private parseValues(
+    raw: (field: ImportField) => string | undefined,
+    errors: ValidationIssue[],
+  ): RateInventoryValues {
+    const values: RateInventoryValues = {};
+
+    const rate = raw(ImportField.RATE);
+    if (rate) {
+      // Currency symbols and separators are dropped; "N/A" or "TBD" leave nothing to parse
+      const digits = rate.replace(/[^0-9.-]/g, '');
+      const parsed = Number(digits);
+      if (!digits || !Number.isFinite(parsed) || parsed <= 0) {
+        errors.push(this.issue('rate', 'RATE_INVALID', `Rate ${rate} is not a positive number`));
+      } else {
+        values.rate = Math.round(parsed * 100) / 100;
+      }
+    }
+
+    INTEGER_FIELDS.forEach(field => {
+      const value = raw(field);
+      if (!value) return;
+
+      if (!/^-?\d+$/.test(value)) {
+        errors.push(this.issue(field, `${this.codeOf(field)}_INVALID`, `${value} is not a whole number`));
+      } else {
+        values[field] = parseInt(value, 10);
+      }
+    });
+
+    BOOLEAN_FIELDS.forEach(field => {
+      const value = raw(field);
+      if (!value) return;
+
+      const normalized = value.toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) {
+        values[field] = true;
+      } else if (FALSE_VALUES.includes(normalized)) {
+        values[field] = false;
+      } else {
+        errors.push(this.issue(field, `${this.codeOf(field)}_INVALID`, `${value} is not a yes/no value`));
+      }
+    });
+
+    return values;
+  }
+
+  private async loadLookups(propertyId: string, dto: ImportPreviewDto): Promise<ImportLookups> {
+    const dateColumn = dto.mapping.find(m => m.field === ImportField.DATE)?.column;
+    const dates = Array.from(new Set(
+      dto.rows
+        .map(row => (row.values[dateColumn] ?? '').trim())
+        .filter(date => this.isValidDate(date)),
+    ));
+
+    const [roomTypes, ratePlans, channelMappings, records] = await Promise.all([
+      this.databaseService.roomType.findMany({ where: { propertyId } }),
+      this.databaseService.ratePlan.findMany({ where: { propertyId } }),
+      this.databaseService.channelMapping.findMany({
+        where: { propertyId },
+        include: { channel: true },
+      }),
+      dates.length
+        ? this.databaseService.rateInventory.findMany({
+            where: { propertyId, date: { in: dates.map(date => new Date(date)) } },
+          })
+        : Promise.resolve([]),
+    ]);
+
+    return {
+      roomTypes: new Map(roomTypes.map(roomType => [roomType.code.toUpperCase(), roomType])),
+      ratePlans: new Map(ratePlans.map(ratePlan => [ratePlan.code.toUpperCase(), ratePlan])),
+      channels: new Map(
+        channelMappings
+          .filter(mapping => mapping.channel.isActive)
+          .map(mapping => [mapping.channel.code.toUpperCase(), mapping.channel]),
+      ),
+      records: new Map(records.map(record => [
+        this.recordKey(record.roomTypeId, record.ratePlanId, record.channelId, this.dateKey(record.date)),
+        record,
+      ])),
+    };
+  }
+
+  private validateMapping(mapping: ImportColumnMappingDto[]): void {
+    const required = [ImportField.ROOM_TYPE_CODE, ImportField.RATE_PLAN_CODE, ImportField.DATE];
+    const missing = required.filter(field => !mapping.some(m => m.field === field));
+    if (missing.length) {
+      throw new BadRequestException(`Map a column to each of: ${missing.join(', ')}`);
+    }
+
+    const fields = mapping.map(m => m.field);
+    const duplicated = fields.filter((field, index) => fields.indexOf(field) !== index);
+    if (duplicated.length) {
+      throw new BadRequestException(`Each field can only be mapped once: ${Array.from(new Set(duplicated)).join(', ')}`);
+    }
+  }
+
+  private suggestMapping(columns: string[]): ImportColumnMappingDto[] {
+    const mapping: ImportColumnMappingDto[] = [];
+    const normalized = columns.map(column => column.toLowerCase().replace(/[^a-z0-9]/g, ''));
+
+    (Object.keys(FIELD_ALIASES) as ImportField[]).forEach(field => {
+      for (const alias of FIELD_ALIASES[field]) {
+        const index = normalized.indexOf(alias);
+        if (index !== -1 && !mapping.some(m => m.column === columns[index])) {
+          mapping.push({ column: columns[index], field });
+          break;
+        }
+      }
+    });
+
+    return mapping;
+  }
+
+  private mergeIssues(target: ValidationIssue[], issues: ValidationIssue[]): void {
+    issues.forEach(issue => {
+      if (!target.some(existing => existing.code === issue.code && existing.message === issue.message)) {
+        target.push(issue);
+      }
+    });
+  }
+
+  private isValidDate(value: string): boolean {
+    const date = new Date(value);
+    return DATE_PATTERN.test(value) && !isNaN(date.getTime()) && this.dateKey(date) === value;
+  }
+
+  private recordKey(roomTypeId: string, ratePlanId: string, channelId: string, date: string): string {
+    return `${roomTypeId}|${ratePlanId}|${channelId}|${date}`;
+  }
+
+  private dateKey(date: Date): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+
+  private codeOf(field: ImportField): string {
+    return field.replace(/([A-Z])/g, '_$1').toUpperCase();
+  }
+
+  private issue(field: string, code: string, message: string): ValidationIssue {
+    return { field, code, message, severity: 'ERROR' };
+  }
+}
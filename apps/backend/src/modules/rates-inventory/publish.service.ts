@@ -0,0 +1,252 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import { SyncService } from '../channel-manager/sync.service';
+import {
+  BulkOperationType,
+  BulkUpdateDto,
+  BulkUpdateItemDto,
+  PublishChangeDto,
+  PublishChangeType,
+} from './dto/rates-inventory.dto';
+import { BulkItemResult, BulkUpdateResult } from './bulk-operations.service';
+
+export type CellSyncStatus = 'PENDING' | 'SUCCESS' | 'FAILED';
+
+export interface PublishCellResult {
+  changeId: string;
+  status: CellSyncStatus;
+  rateInventoryIds: string[];
+  errors: string[];
+}
+
+export interface ChannelSyncOutcome {
+  channelId: string;
+  syncId?: string;
+  status: 'QUEUED' | 'FAILED';
+  recordCount: number;
+  error?: string;
+}
+
+export interface PublishResult {
+  success: boolean;
+  totalCount: number;
+  pendingCount: number;
+  failedCount: number;
+  cells: PublishCellResult[];
+  channels: ChannelSyncOutcome[];
+}
+
+export interface PublishPlan {
+  bulkUpdate: BulkUpdateDto;
+  owners: string[]; // changeId of each bulk item, by index
+  cells: PublishCellResult[];
+}
+
+export interface RecordSyncStatus {
+  id: string;
+  status: CellSyncStatus;
+  error: string | null;
+  lastSyncAt: Date | null;
+}
+
+/**
+ * Publish Service
+ *
+ * Turns edited grid cells into channel updates:
+ * - Expands each cell to the rate inventory records behind it
+ * - Maps the bulk update outcome back onto the cells
+ * - Queues one channel manager sync per channel
+ * - Reports per-record sync state for polling
+ */
+@Injectable()
+export class PublishService {
+  private readonly logger = new Logger(PublishService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly syncService: SyncService,
+  ) {}
+
+  /**
+   * Expand edited cells into a bulk update over existing records
+   *
+   * A price cell targets its rate plan on every channel. An inventory cell
+   * targets every rate plan and channel of the room type. Cells without
+   * matching records fail here and are left out of the batch.
+   */
+  async planPublish(propertyId: string, changes: PublishChangeDto[]): Promise<PublishPlan> {
+    const cells: PublishCellResult[] = changes.map(change => ({
+      changeId: change.changeId,
+      status: 'PENDING',
+      rateInventoryIds: [],
+      errors: [],
+    }));
+
+    const records = changes.length
+      ? await this.databaseService.rateInventory.findMany({
+          where: {
+            propertyId,
+            roomTypeId: { in: Array.from(new Set(changes.map(c => c.roomTypeId))) },
+            date: { in: Array.from(new Set(changes.map(c => this.dateKey(c.date)))).map(d => new Date(d)) },
+          },
+        })
+      : [];
+
+    const updates: BulkUpdateItemDto[] = [];
+    const owners: string[] = [];
+
+    changes.forEach((change, index) => {
+      const cell = cells[index];
+      const date = this.dateKey(change.date);
+
+      if (change.type === PublishChangeType.PRICE && !change.ratePlanId) {
+        this.failCell(cell, 'A rate plan is required for price changes');
+        return;
+      }
+
+      const targets = records.filter(record =>
+        record.roomTypeId === change.roomTypeId &&
+        this.dateKey(record.date) === date &&
+        (change.type === PublishChangeType.INVENTORY || record.ratePlanId === change.ratePlanId)
+      );
+
+      if (!targets.length) {
+        this.failCell(cell, `No rate inventory records to publish for ${date}`);
+        return;
+      }
+
+      for (const record of targets) {
+        updates.push({
+          id: record.id,
+          date: record.date,
+          roomTypeId: record.roomTypeId,
+          ratePlanId: record.ratePlanId,
+          channelId: record.channelId,
+          ...(change.type === PublishChangeType.PRICE ? { rate: change.value } : { inventory: change.value }),
+        });
+        owners.push(change.changeId);
+      }
+    });
+
+    return {
+      bulkUpdate: { operation: BulkOperationType.UPDATE, updates },
+      owners,
+      cells,
+    };
+  }
+
+  /**
+   * Map the bulk update outcome onto the cells and queue a sync per channel
+   *
+   * Nothing is synced when the batch was rejected. A cell fails when any of
+   * its records failed to write or its channel sync could not be queued;
+   * otherwise it stays PENDING until the channel manager reports back.
+   */
+  async syncPublished(
+    propertyId: string,
+    userId: string,
+    plan: PublishPlan,
+    bulkResult?: BulkUpdateResult,
+  ): Promise<PublishResult> {
+    const cellsById = new Map(plan.cells.map(cell => [cell.changeId, cell]));
+    const published: BulkItemResult[] = [];
+
+    bulkResult?.results.forEach((item, index) => {
+      const cell = cellsById.get(plan.owners[index]);
+      if (item.status === 'SUCCESS') {
+        cell.rateInventoryIds.push(item.id);
+        published.push(item);
+      } else {
+        this.failCell(cell, ...(item.errors.length ? item.errors : ['Not published: another change in the batch failed']));
+      }
+    });
+
+    const channels = await this.queueChannelSyncs(propertyId, userId, published);
+
+    for (const outcome of channels.filter(c => c.status === 'FAILED')) {
+      const failedIds = new Set(published.filter(item => item.channelId === outcome.channelId).map(item => item.id));
+      plan.cells
+        .filter(cell => cell.rateInventoryIds.some(id => failedIds.has(id)))
+        .forEach(cell => this.failCell(cell, `Sync to channel ${outcome.channelId} failed: ${outcome.error}`));
+    }
+
+    const failedCount = plan.cells.filter(cell => cell.status === 'FAILED').length;
+    this.logger.log(
+      `Published ${plan.cells.length - failedCount} of ${plan.cells.length} cells for property ${propertyId} ` +
+      `across ${channels.length} channels`
+    );
+
+    return {
+      success: failedCount === 0,
+      totalCount: plan.cells.length,
+      pendingCount: plan.cells.length - failedCount,
+      failedCount,
+      cells: plan.cells,
+      channels,
+    };
+  }
+
+  /**
+   * Get the channel sync state of published records
+   */
+  async getSyncStatus(propertyId: string, ids: string[]): Promise<RecordSyncStatus[]> {
+    const records = await this.databaseService.rateInventory.findMany({
+      where: { propertyId, id: { in: ids } },
+      select: { id: true, syncStatus: true, syncError: true, lastSyncAt: true },
+    });
+
+    return records.map(record => ({
+      id: record.id,
+      status: (record.syncStatus ?? 'PENDING') as CellSyncStatus,
+      error: record.syncError ?? null,
+      lastSyncAt: record.lastSyncAt ?? null,
+    }));
+  }
+
+  // Private helper methods
+
+  private async queueChannelSyncs(
+    propertyId: string,
+    userId: string,
+    published: BulkItemResult[],
+  ): Promise<ChannelSyncOutcome[]> {
+    const idsByChannel = new Map<string, string[]>();
+    for (const item of published) {
+      idsByChannel.set(item.channelId, [...(idsByChannel.get(item.channelId) ?? []), item.id]);
+    }
+
+    const outcomes: ChannelSyncOutcome[] = [];
+    for (const [channelId, rateInventoryIds] of idsByChannel) {
+      try {
+        const { syncId } = await this.syncService.syncRatesInventory({
+          propertyId,
+          channelId,
+          rateInventoryIds,
+          operation: 'UPDATE',
+          priority: 'HIGH',
+          userId,
+        });
+        outcomes.push({ channelId, syncId, status: 'QUEUED', recordCount: rateInventoryIds.length });
+      } catch (error) {
+        this.logger.warn(`Could not queue sync for channel ${channelId}: ${error.message}`);
+
+        await this.databaseService.rateInventory.updateMany({
+          where: { id: { in: rateInventoryIds } },
+          data: { syncStatus: 'FAILED', syncError: error.message },
+        });
+        outcomes.push({ channelId, status: 'FAILED', recordCount: rateInventoryIds.length, error: error.message });
+      }
+    }
+
+    return outcomes;
+  }
+
+  private failCell(cell: PublishCellResult, ...errors: string[]): void {
+    cell.status = 'FAILED';
+    cell.errors.push(...errors);
+  }
+
+  private dateKey(date: Date): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+}
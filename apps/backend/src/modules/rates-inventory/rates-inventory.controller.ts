@@ -7,18 +7,26 @@ import {
   Body,
   Param,
   Query,
+  Res,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
   HttpCode,
   HttpStatus,
+  BadRequestException,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
 
 import { RatesInventoryService } from './rates-inventory.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { GetUser } from '../auth/decorators/get-user.decorator';
-import { UserRole, User } from '@prisma/client';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { UserRole } from '../auth/enums/user-role.enum';
+import { isChangeRequestSubmission } from '../change-requests/change-requests.service';
 
 import {
   CreateRateInventoryDto,
@@ -26,14 +34,21 @@ import {
   BulkUpdateDto,
   RateInventoryQueryDto,
   CopyRatesInventoryDto,
+  PublishChangesDto,
+  SyncStatusQueryDto,
+  ImportPreviewDto,
+  ImportCommitDto,
 } from './dto/rates-inventory.dto';
 
+const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024; // bytes
+
 /**
  * Rates & Inventory Controller
  * 
  * REST API endpoints for managing rates, inventory, and restrictions:
  * - CRUD operations for rate/inventory records
  * - Bulk operations (update, delete, copy)
+ * - CSV/XLSX import with preview
  * - Query and filtering capabilities
  * - Statistics and reporting
  * - Multi-tenant and role-based access control
@@ -55,7 +70,7 @@ export class RatesInventoryController {
   async getRatesInventory(
     @Param('propertyId') propertyId: string,
     @Query() query: RateInventoryQueryDto,
-    @GetUser() user: User,
+    @GetUser() user: RequestUser,
   ) {
     return this.ratesInventoryService.getRatesInventory(propertyId, user.id, query);
   }
@@ -67,12 +82,15 @@ export class RatesInventoryController {
   @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
   @ApiOperation({ summary: 'Create rate and inventory record' })
   @ApiResponse({ status: 201, description: 'Rate and inventory created successfully' })
+  @ApiResponse({ status: 202, description: 'Change submitted for approval' })
   async createRateInventory(
     @Param('propertyId') propertyId: string,
     @Body() createDto: CreateRateInventoryDto,
-    @GetUser() user: User,
+    @GetUser() user: RequestUser,
+    @Res({ passthrough: true }) res: Response,
   ) {
-    return this.ratesInventoryService.createRateInventory(propertyId, user.id, createDto);
+    const result = await this.ratesInventoryService.createRateInventory(propertyId, user.id, createDto, user.role);
+    return this.acceptIfPending(res, result);
   }
 
   /**
@@ -82,12 +100,17 @@ export class RatesInventoryController {
   @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
   @ApiOperation({ summary: 'Update rate and inventory record' })
   @ApiResponse({ status: 200, description: 'Rate and inventory updated successfully' })
+  @ApiResponse({ status: 202, description: 'Change submitted for approval' })
+  @ApiResponse({ status: 404, description: 'Rate and inventory record not found for the property' })
   async updateRateInventory(
+    @Param('propertyId') propertyId: string,
     @Param('id') id: string,
     @Body() updateDto: UpdateRateInventoryDto,
-    @GetUser() user: User,
+    @GetUser() user: RequestUser,
+    @Res({ passthrough: true }) res: Response,
   ) {
-    return this.ratesInventoryService.updateRateInventory(id, user.id, updateDto);
+    const result = await this.ratesInventoryService.updateRateInventory(propertyId, id, user.id, updateDto, user.role);
+    return this.acceptIfPending(res, result);
   }
 
   /**
@@ -98,11 +121,16 @@ export class RatesInventoryController {
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete rate and inventory record' })
   @ApiResponse({ status: 204, description: 'Rate and inventory deleted successfully' })
+  @ApiResponse({ status: 202, description: 'Change submitted for approval' })
+  @ApiResponse({ status: 404, description: 'Rate and inventory record not found for the property' })
   async deleteRateInventory(
+    @Param('propertyId') propertyId: string,
     @Param('id') id: string,
-    @GetUser() user: User,
+    @GetUser() user: RequestUser,
+    @Res({ passthrough: true }) res: Response,
   ) {
-    return this.ratesInventoryService.deleteRateInventory(id, user.id);
+    const result = await this.ratesInventoryService.deleteRateInventory(propertyId, id, user.id, user.role);
+    return this.acceptIfPending(res, result);
   }
 
   /**
@@ -112,12 +140,99 @@ export class RatesInventoryController {
   @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
   @ApiOperation({ summary: 'Bulk update rates and inventory' })
   @ApiResponse({ status: 200, description: 'Bulk update completed successfully' })
+  @ApiResponse({ status: 202, description: 'Bulk update submitted for approval' })
   async bulkUpdateRatesInventory(
     @Param('propertyId') propertyId: string,
     @Body() bulkUpdateDto: BulkUpdateDto,
-    @GetUser() user: User,
+    @GetUser() user: RequestUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const result = await this.ratesInventoryService.bulkUpdateRatesInventory(propertyId, user.id, bulkUpdateDto, user.role);
+    return this.acceptIfPending(res, result);
+  }
+
+  /**
+   * Publish grid changes and sync them to every affected channel
+   */
+  @Post('publish')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Publish grid changes and queue channel syncs' })
+  @ApiResponse({ status: 200, description: 'Changes published with per-cell results' })
+  @ApiResponse({ status: 202, description: 'Changes submitted for approval' })
+  async publishRatesInventory(
+    @Param('propertyId') propertyId: string,
+    @Body() publishDto: PublishChangesDto,
+    @GetUser() user: RequestUser,
+    @Res({ passthrough: true }) res: Response,
   ) {
-    return this.ratesInventoryService.bulkUpdateRatesInventory(propertyId, user.id, bulkUpdateDto);
+    const result = await this.ratesInventoryService.publishRatesInventory(propertyId, user.id, publishDto, user.role);
+    return this.acceptIfPending(res, result);
+  }
+
+  /**
+   * Get channel sync state of rate inventory records
+   */
+  @Get('sync-status')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get channel sync state of rate inventory records' })
+  @ApiQuery({ name: 'ids', description: 'Comma-separated rate inventory ids', required: true })
+  @ApiResponse({ status: 200, description: 'Sync state retrieved successfully' })
+  async getSyncStatus(
+    @Param('propertyId') propertyId: string,
+    @Query() query: SyncStatusQueryDto,
+  ) {
+    return this.ratesInventoryService.getSyncStatus(propertyId, query.ids);
+  }
+
+  /**
+   * Upload a CSV or XLSX import file and get its columns and rows back
+   */
+  @Post('import/upload')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_SIZE } }))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } } } })
+  @ApiOperation({ summary: 'Parse a rates and inventory import file' })
+  @ApiResponse({ status: 200, description: 'File parsed with a suggested column mapping' })
+  async uploadImportFile(@UploadedFile() file: Express.Multer.File) {
+    return this.ratesInventoryService.parseImportFile(file);
+  }
+
+  /**
+   * Validate mapped import rows and diff them against current values
+   */
+  @Post('import/preview')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Preview an import with row-level errors and diffs' })
+  @ApiResponse({ status: 200, description: 'Import preview generated' })
+  async previewImport(
+    @Param('propertyId') propertyId: string,
+    @Body() previewDto: ImportPreviewDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.ratesInventoryService.previewImport(propertyId, user.id, previewDto);
+  }
+
+  /**
+   * Import the accepted rows of a previewed file
+   */
+  @Post('import/commit')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Import the accepted rows' })
+  @ApiResponse({ status: 200, description: 'Rows imported' })
+  @ApiResponse({ status: 202, description: 'Import submitted for approval' })
+  async commitImport(
+    @Param('propertyId') propertyId: string,
+    @Body() commitDto: ImportCommitDto,
+    @GetUser() user: RequestUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const result = await this.ratesInventoryService.commitImport(propertyId, user.id, commitDto, user.role);
+    return this.acceptIfPending(res, result);
   }
 
   /**
@@ -127,12 +242,14 @@ export class RatesInventoryController {
   @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
   @ApiOperation({ summary: 'Copy rates and inventory between date ranges' })
   @ApiResponse({ status: 200, description: 'Rates and inventory copied successfully' })
+  @ApiResponse({ status: 202, description: 'Copy submitted for approval' })
   async copyRatesInventory(
     @Param('propertyId') propertyId: string,
     @Body() copyDto: CopyRatesInventoryDto,
-    @GetUser() user: User,
+    @GetUser() user: RequestUser,
+    @Res({ passthrough: true }) res: Response,
   ) {
-    return this.ratesInventoryService.copyRatesInventory(
+    const result = await this.ratesInventoryService.copyRatesInventory(
       propertyId,
       user.id,
       copyDto.sourceStartDate,
@@ -147,7 +264,9 @@ export class RatesInventoryController {
         copyInventory: copyDto.copyInventory,
         copyRestrictions: copyDto.copyRestrictions,
       },
+      user.role,
     );
+    return this.acceptIfPending(res, result);
   }
 
   /**
@@ -159,43 +278,25 @@ export class RatesInventoryController {
   @ApiResponse({ status: 200, description: 'Statistics retrieved successfully' })
   async getRateInventoryStats(
     @Param('propertyId') propertyId: string,
-    @GetUser() user: User,
+    @GetUser() user: RequestUser,
   ) {
     return this.ratesInventoryService.getRateInventoryStats(propertyId, user.id);
   }
 
-  /**
-   * Get single rate and inventory record
-   */
-  @Get(':id')
-  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
-  @ApiOperation({ summary: 'Get single rate and inventory record' })
-  @ApiResponse({ status: 200, description: 'Rate and inventory record retrieved successfully' })
-  async getRateInventoryById(
-    @Param('propertyId') propertyId: string,
-    @Param('id') id: string,
-    @GetUser() user: User,
-  ) {
-    // This would be implemented in the service
-    // return this.ratesInventoryService.getRateInventoryById(propertyId, id, user.id);
-    throw new Error('Not implemented yet');
-  }
-
   /**
    * Validate rate and inventory data
    */
   @Post('validate')
+  @HttpCode(HttpStatus.OK)
   @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
   @ApiOperation({ summary: 'Validate rate and inventory data' })
   @ApiResponse({ status: 200, description: 'Validation completed' })
   async validateRateInventory(
     @Param('propertyId') propertyId: string,
     @Body() createDto: CreateRateInventoryDto,
-    @GetUser() user: User,
+    @GetUser() user: RequestUser,
   ) {
-    // This would validate without saving
-    // return this.ratesInventoryService.validateRateInventory(propertyId, createDto, user.id);
-    throw new Error('Not implemented yet');
+    return this.ratesInventoryService.validateRateInventory(propertyId, createDto, user.id);
   }
 
   /**
@@ -204,16 +305,60 @@ export class RatesInventoryController {
   @Get('consistency-check')
   @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
   @ApiOperation({ summary: 'Check rate consistency across channels' })
+  @ApiQuery({ name: 'startDate', description: 'Start date (YYYY-MM-DD)', required: false })
+  @ApiQuery({ name: 'endDate', description: 'End date (YYYY-MM-DD)', required: false })
+  @ApiQuery({ name: 'date', description: 'Single date, used when no range is given', required: false })
+  @ApiQuery({ name: 'roomTypeId', required: false })
+  @ApiQuery({ name: 'ratePlanId', required: false })
   @ApiResponse({ status: 200, description: 'Consistency check completed' })
   async checkRateConsistency(
     @Param('propertyId') propertyId: string,
     @Query('roomTypeId') roomTypeId: string,
     @Query('ratePlanId') ratePlanId: string,
+    @Query('startDate') startDate: string,
+    @Query('endDate') endDate: string,
     @Query('date') date: string,
-    @GetUser() user: User,
+    @GetUser() user: RequestUser,
   ) {
-    // This would check rate consistency
-    // return this.ratesInventoryService.checkRateConsistency(propertyId, roomTypeId, ratePlanId, new Date(date), user.id);
+    const start = new Date(startDate ?? date);
+    const end = new Date(endDate ?? startDate ?? date);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new BadRequestException('A valid startDate/endDate range or date is required');
+    }
+
+    return this.ratesInventoryService.checkRateConsistency(propertyId, user.id, {
+      startDate: start,
+      endDate: end,
+      roomTypeId,
+      ratePlanId,
+    });
+  }
+
+  /**
+   * Get single rate and inventory record
+   */
+  @Get(':id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get single rate and inventory record' })
+  @ApiResponse({ status: 200, description: 'Rate and inventory record retrieved successfully' })
+  async getRateInventoryById(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @GetUser() user: RequestUser,
+  ) {
+    // This would be implemented in the service
+    // return this.ratesInventoryService.getRateInventoryById(propertyId, id, user.id);
     throw new Error('Not implemented yet');
   }
-} 
\ No newline at end of file
+
+  /**
+   * Answer 202 Accepted when the write was staged as a change request
+   */
+  private acceptIfPending<T>(res: Response, result: T): T {
+    if (isChangeRequestSubmission(result) && result.pendingApproval) {
+      res.status(HttpStatus.ACCEPTED);
+    }
+    return result;
+  }
+}
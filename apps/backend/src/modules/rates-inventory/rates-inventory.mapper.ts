@@ -0,0 +1,126 @@
+import { UpdateRateInventoryDto } from './dto/rates-inventory.dto';
+
+/**
+ * Rate Inventory Mapper
+ *
+ * Translates between the API field names used by the DTOs and the frontend
+ * (minStay, closedToArrival, ...) and the RateInventory column names
+ * (minLos, cta, ...). Stay restrictions come in two kinds: on arrival
+ * (minStay/minLos) and through, for any stay including the date
+ * (minStayThrough/minLosThrough).
+ */
+
+/**
+ * Restriction and value fields that can be written to a RateInventory row
+ */
+export interface RateInventoryWriteData {
+  rate?: number;
+  inventory?: number;
+  minLos?: number;
+  maxLos?: number;
+  minLosThrough?: number;
+  maxLosThrough?: number;
+  minAdvanceDays?: number;
+  maxAdvanceDays?: number;
+  cta?: boolean;
+  ctd?: boolean;
+  stopSell?: boolean;
+}
+
+/**
+ * Rate inventory values in API field names
+ */
+export interface RateInventoryValues {
+  rate?: number;
+  inventory?: number;
+  minStay?: number;
+  maxStay?: number;
+  minStayThrough?: number;
+  maxStayThrough?: number;
+  minAdvanceBookingDays?: number;
+  maxAdvanceBookingDays?: number;
+  closedToArrival?: boolean;
+  closedToDeparture?: boolean;
+  stopSell?: boolean;
+}
+
+const VALUE_FIELDS: Array<keyof RateInventoryValues> = [
+  'rate',
+  'inventory',
+  'minStay',
+  'maxStay',
+  'minStayThrough',
+  'maxStayThrough',
+  'minAdvanceBookingDays',
+  'maxAdvanceBookingDays',
+  'closedToArrival',
+  'closedToDeparture',
+  'stopSell',
+];
+
+/**
+ * Map DTO fields to RateInventory columns, keeping only fields that were provided
+ */
+export function toRateInventoryData(dto: UpdateRateInventoryDto): RateInventoryWriteData {
+  const data: RateInventoryWriteData = {
+    rate: dto.rate,
+    inventory: dto.inventory,
+    minLos: dto.minStay,
+    maxLos: dto.maxStay,
+    minLosThrough: dto.minStayThrough,
+    maxLosThrough: dto.maxStayThrough,
+    minAdvanceDays: dto.minAdvanceBookingDays,
+    maxAdvanceDays: dto.maxAdvanceBookingDays,
+    cta: dto.closedToArrival,
+    ctd: dto.closedToDeparture,
+    stopSell: dto.stopSell,
+  };
+
+  Object.keys(data).forEach(key => {
+    if (data[key] === undefined) {
+      delete data[key];
+    }
+  });
+
+  return data;
+}
+
+/**
+ * Map a RateInventory row (optionally with relations) to the API response shape
+ */
+export function toRateInventoryResponse(record: any) {
+  if (!record) {
+    return null;
+  }
+
+  const { minLos, maxLos, minLosThrough, maxLosThrough, minAdvanceDays, maxAdvanceDays, cta, ctd, ...rest } = record;
+
+  return {
+    ...rest,
+    rate: record.rate !== undefined && record.rate !== null ? parseFloat(record.rate.toString()) : record.rate,
+    minStay: minLos ?? undefined,
+    maxStay: maxLos ?? undefined,
+    minStayThrough: minLosThrough ?? undefined,
+    maxStayThrough: maxLosThrough ?? undefined,
+    minAdvanceBookingDays: minAdvanceDays ?? undefined,
+    maxAdvanceBookingDays: maxAdvanceDays ?? undefined,
+    closedToArrival: cta ?? false,
+    closedToDeparture: ctd ?? false,
+    stopSell: record.stopSell ?? false,
+  };
+}
+
+/**
+ * Pick the provided API values, optionally limited to the given fields
+ */
+export function pickRateInventoryValues(source: any, fields?: string[]): RateInventoryValues {
+  const values: RateInventoryValues = {};
+
+  VALUE_FIELDS.forEach(field => {
+    if (source?.[field] !== undefined && (!fields || fields.includes(field))) {
+      values[field as string] = source[field];
+    }
+  });
+
+  return values;
+}
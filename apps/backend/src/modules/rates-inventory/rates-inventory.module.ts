@@ -1,9 +1,16 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { DatabaseModule } from '../database/database.module';
+import { ChangeRequestsModule } from '../change-requests/change-requests.module';
+import { ChannelManagerModule } from '../channel-manager/channel-manager.module';
+import { BusinessDatesModule } from '../business-dates/business-dates.module';
 import { RatesInventoryController } from './rates-inventory.controller';
 import { RatesInventoryService } from './rates-inventory.service';
 import { ValidationService } from './validation.service';
 import { BulkOperationsService } from './bulk-operations.service';
+import { PublishService } from './publish.service';
+import { ImportService } from './import.service';
+import { RestrictionRulesController } from './restriction-rules.controller';
+import { RestrictionRulesService } from './restriction-rules.service';
 
 /**
  * Rates & Inventory Management Module
@@ -13,16 +20,21 @@ import { BulkOperationsService } from './bulk-operations.service';
  * - Restrictions (MinLOS, MaxLOS, CTA, CTD, Stop Sell)
  * - Multi-channel distribution
  * - Bulk operations and validation
+ * - CSV/XLSX imports
+ * - Persisted bulk restriction rules
  * - Real-time sync with channel managers
  */
 @Module({
-  imports: [DatabaseModule],
-  controllers: [RatesInventoryController],
+  imports: [DatabaseModule, forwardRef(() => ChangeRequestsModule), ChannelManagerModule, BusinessDatesModule],
+  controllers: [RatesInventoryController, RestrictionRulesController],
   providers: [
     RatesInventoryService,
     ValidationService,
     BulkOperationsService,
+    PublishService,
+    ImportService,
+    RestrictionRulesService,
   ],
-  exports: [RatesInventoryService],
+  exports: [RatesInventoryService, ValidationService],
 })
 export class RatesInventoryModule {} 
\ No newline at end of file
@@ -1 +1,614 @@
- 
\ No newline at end of file
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { DatabaseService } from '../database/database.service';
+import {
+  ValidationService,
+  ValidationReport,
+  RateConsistencyReport,
+} from './validation.service';
+import {
+  BulkOperationsService,
+  BulkUpdateResult,
+  CopyOptions,
+  CopyResult,
+} from './bulk-operations.service';
+import { PublishService, PublishResult, RecordSyncStatus } from './publish.service';
+import {
+  ImportService,
+  ImportPreview,
+  ImportCommitResult,
+  ParsedImportFile,
+} from './import.service';
+import {
+  CreateRateInventoryDto,
+  UpdateRateInventoryDto,
+  BulkUpdateDto,
+  RateInventoryQueryDto,
+  RateInventoryStatsDto,
+  PublishChangesDto,
+  ImportPreviewDto,
+  ImportCommitDto,
+} from './dto/rates-inventory.dto';
+import {
+  toRateInventoryData,
+  toRateInventoryResponse,
+  pickRateInventoryValues,
+} from './rates-inventory.mapper';
+import {
+  ChangeRequestsService,
+  ChangeRequestDiff,
+  ChangeRequestSubmission,
+} from '../change-requests/change-requests.service';
+import { ChangeRequestOperation } from '../change-requests/dto/change-requests.dto';
+import { BusinessDatesService } from '../business-dates/business-dates.service';
+
+/**
+ * Rates & Inventory Service
+ *
+ * Business logic behind the rates & inventory endpoints:
+ * - Querying the grid for a property and date range
+ * - Validated create, update and delete of single records
+ * - Bulk updates and range copies (delegated to BulkOperationsService)
+ * - Publishing grid edits and queueing channel syncs (delegated to PublishService)
+ * - CSV/XLSX imports with a validated diff preview (delegated to ImportService)
+ * - Forward-looking rate and inventory statistics
+ * - Audit entries for every write
+ * - Staging writes as change requests for roles that need approval
+ */
+@Injectable()
+export class RatesInventoryService {
+  private readonly logger = new Logger(RatesInventoryService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly validationService: ValidationService,
+    private readonly bulkOperationsService: BulkOperationsService,
+    private readonly publishService: PublishService,
+    private readonly importService: ImportService,
+    private readonly changeRequestsService: ChangeRequestsService,
+    private readonly businessDatesService: BusinessDatesService,
+  ) {}
+
+  /**
+   * Get rates and inventory for a property with filtering
+   */
+  async getRatesInventory(
+    propertyId: string,
+    userId: string,
+    query: RateInventoryQueryDto,
+  ) {
+    const where = {
+      propertyId,
+      date: {
+        gte: query.startDate,
+        lte: query.endDate,
+      },
+      ...(query.roomTypeIds?.length && { roomTypeId: { in: query.roomTypeIds } }),
+      ...(query.ratePlanIds?.length && { ratePlanId: { in: query.ratePlanIds } }),
+      ...(query.channelIds?.length && { channelId: { in: query.channelIds } }),
+    };
+
+    const [records, total] = await Promise.all([
+      this.databaseService.rateInventory.findMany({
+        where,
+        include: {
+          roomType: true,
+          ratePlan: true,
+          channel: true,
+        },
+        orderBy: [
+          { date: 'asc' },
+          { roomType: { sortOrder: 'asc' } },
+          { ratePlan: { sortOrder: 'asc' } },
+        ],
+      }),
+      this.databaseService.rateInventory.count({ where }),
+    ]);
+
+    const data = records.map(record => {
+      const response = toRateInventoryResponse(record);
+
+      if (query.includeRestrictions === false) {
+        delete response.minStay;
+        delete response.maxStay;
+        delete response.minStayThrough;
+        delete response.maxStayThrough;
+        delete response.minAdvanceBookingDays;
+        delete response.maxAdvanceBookingDays;
+        delete response.closedToArrival;
+        delete response.closedToDeparture;
+        delete response.stopSell;
+      }
+
+      return response;
+    });
+
+    this.logger.debug(`User ${userId} loaded ${data.length} rate inventory records for property ${propertyId}`);
+
+    return { data, total };
+  }
+
+  /**
+   * Create a single rate and inventory record
+   */
+  async createRateInventory(
+    propertyId: string,
+    userId: string,
+    createDto: CreateRateInventoryDto,
+    userRole?: string,
+  ) {
+    await this.validationService.validateRateInventoryData(createDto, propertyId);
+
+    const date = new Date(createDto.date);
+    const existing = await this.databaseService.rateInventory.findUnique({
+      where: {
+        propertyId_roomTypeId_ratePlanId_channelId_date: {
+          propertyId,
+          roomTypeId: createDto.roomTypeId,
+          ratePlanId: createDto.ratePlanId,
+          channelId: createDto.channelId,
+          date,
+        },
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException('A rate inventory record already exists for this room type, rate plan, channel and date');
+    }
+
+    const submission = await this.submitIfApprovalRequired(propertyId, userId, userRole, ChangeRequestOperation.CREATE, [{
+      roomTypeId: createDto.roomTypeId,
+      ratePlanId: createDto.ratePlanId,
+      channelId: createDto.channelId,
+      date: this.dateKey(date),
+      before: null,
+      after: pickRateInventoryValues(createDto),
+    }]);
+    if (submission) {
+      return submission;
+    }
+
+    const record = await this.databaseService.$transaction(async (tx) => {
+      const created = await tx.rateInventory.create({
+        data: {
+          ...toRateInventoryData(createDto),
+          propertyId,
+          roomTypeId: createDto.roomTypeId,
+          ratePlanId: createDto.ratePlanId,
+          channelId: createDto.channelId,
+          date,
+          syncStatus: 'PENDING',
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'CREATE',
+          entityType: 'RATE_INVENTORY',
+          entityId: created.id,
+          newValues: toRateInventoryResponse(created),
+          source: 'API',
+        },
+      });
+
+      return created;
+    });
+
+    this.logger.log(`Created rate inventory ${record.id} for property ${propertyId}`);
+    return toRateInventoryResponse(record);
+  }
+
+  /**
+   * Update an existing rate and inventory record
+   */
+  async updateRateInventory(
+    propertyId: string,
+    id: string,
+    userId: string,
+    updateDto: UpdateRateInventoryDto,
+    userRole?: string,
+  ) {
+    const existing = await this.findRecordOrFail(propertyId, id);
+    const current = toRateInventoryResponse(existing);
+
+    await this.validationService.validateRateInventoryUpdate(updateDto, current);
+
+    const after = pickRateInventoryValues(updateDto);
+    const submission = await this.submitIfApprovalRequired(existing.propertyId, userId, userRole, ChangeRequestOperation.UPDATE, [{
+      ...this.recordKey(existing),
+      before: pickRateInventoryValues(current, Object.keys(after)),
+      after,
+    }]);
+    if (submission) {
+      return submission;
+    }
+
+    const record = await this.databaseService.$transaction(async (tx) => {
+      const updated = await tx.rateInventory.update({
+        where: { id },
+        data: {
+          ...toRateInventoryData(updateDto),
+          syncStatus: 'PENDING',
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId: existing.propertyId,
+          userId,
+          action: 'UPDATE',
+          entityType: 'RATE_INVENTORY',
+          entityId: id,
+          oldValues: toRateInventoryResponse(existing),
+          newValues: toRateInventoryResponse(updated),
+          changes: updateDto,
+          source: 'API',
+        },
+      });
+
+      return updated;
+    });
+
+    this.logger.log(`Updated rate inventory ${id}`);
+    return toRateInventoryResponse(record);
+  }
+
+  /**
+   * Delete a rate and inventory record
+   */
+  async deleteRateInventory(
+    propertyId: string,
+    id: string,
+    userId: string,
+    userRole?: string,
+  ): Promise<ChangeRequestSubmission | void> {
+    const existing = await this.findRecordOrFail(propertyId, id);
+
+    const submission = await this.submitIfApprovalRequired(existing.propertyId, userId, userRole, ChangeRequestOperation.DELETE, [{
+      ...this.recordKey(existing),
+      before: pickRateInventoryValues(toRateInventoryResponse(existing)),
+      after: null,
+    }]);
+    if (submission) {
+      return submission;
+    }
+
+    await this.databaseService.$transaction(async (tx) => {
+      await tx.rateInventory.delete({ where: { id } });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId: existing.propertyId,
+          userId,
+          action: 'DELETE',
+          entityType: 'RATE_INVENTORY',
+          entityId: id,
+          oldValues: toRateInventoryResponse(existing),
+          source: 'API',
+        },
+      });
+    });
+
+    this.logger.log(`Deleted rate inventory ${id}`);
+  }
+
+  /**
+   * Apply a bulk update batch atomically, or stage it when the role needs approval
+   */
+  async bulkUpdateRatesInventory(
+    propertyId: string,
+    userId: string,
+    bulkUpdateDto: BulkUpdateDto,
+    userRole?: string,
+  ): Promise<BulkUpdateResult | ChangeRequestSubmission> {
+    const mayNeedApproval = await this.changeRequestsService.getRequiredApprovals(propertyId, userRole);
+    if (!mayNeedApproval.length) {
+      return this.bulkOperationsService.bulkUpdate(propertyId, userId, bulkUpdateDto);
+    }
+
+    const { result, diffs } = await this.bulkOperationsService.planBulkUpdate(propertyId, bulkUpdateDto);
+    if (!diffs.length) {
+      return result;
+    }
+
+    const submission = await this.submitIfApprovalRequired(
+      propertyId,
+      userId,
+      userRole,
+      ChangeRequestOperation.BULK_UPDATE,
+      diffs,
+    );
+
+    return submission ?? this.bulkOperationsService.bulkUpdate(propertyId, userId, bulkUpdateDto);
+  }
+
+  /**
+   * Publish edited grid cells as one bulk update, then queue a sync per channel
+   */
+  async publishRatesInventory(
+    propertyId: string,
+    userId: string,
+    publishDto: PublishChangesDto,
+    userRole?: string,
+  ): Promise<PublishResult | ChangeRequestSubmission> {
+    const plan = await this.publishService.planPublish(propertyId, publishDto.changes);
+    if (!plan.bulkUpdate.updates.length) {
+      return this.publishService.syncPublished(propertyId, userId, plan);
+    }
+
+    const result = await this.bulkUpdateRatesInventory(propertyId, userId, plan.bulkUpdate, userRole);
+    if ('pendingApproval' in result) {
+      return result;
+    }
+
+    return this.publishService.syncPublished(propertyId, userId, plan, result);
+  }
+
+  /**
+   * Get the channel sync state of rate inventory records
+   */
+  async getSyncStatus(propertyId: string, ids: string[]): Promise<RecordSyncStatus[]> {
+    return this.publishService.getSyncStatus(propertyId, ids);
+  }
+
+  /**
+   * Parse an uploaded import file into columns, rows and a suggested mapping
+   */
+  async parseImportFile(file: Express.Multer.File): Promise<ParsedImportFile> {
+    return this.importService.parseFile(file);
+  }
+
+  /**
+   * Validate mapped import rows and diff them against the current records
+   */
+  async previewImport(
+    propertyId: string,
+    userId: string,
+    previewDto: ImportPreviewDto,
+  ): Promise<ImportPreview> {
+    const preview = await this.importService.previewImport(propertyId, previewDto);
+
+    this.logger.debug(
+      `Import preview by user ${userId}: ${preview.changedRows} changed, ${preview.invalidRows} invalid of ${preview.totalRows} rows`
+    );
+
+    return preview;
+  }
+
+  /**
+   * Import the accepted rows, or stage them when the role needs approval
+   *
+   * Rows are re-validated against the current records, so rows that became
+   * invalid since the preview are skipped rather than written.
+   */
+  async commitImport(
+    propertyId: string,
+    userId: string,
+    commitDto: ImportCommitDto,
+    userRole?: string,
+  ): Promise<ImportCommitResult | ChangeRequestSubmission> {
+    const preview = await this.importService.previewImport(propertyId, commitDto);
+    const plan = this.importService.planCommit(preview, commitDto.acceptedRows);
+
+    if (plan.diffs.length) {
+      const submission = await this.submitIfApprovalRequired(
+        propertyId,
+        userId,
+        userRole,
+        ChangeRequestOperation.BULK_UPDATE,
+        plan.diffs.map(({ channelCode, changedFields, ...diff }) => diff),
+      );
+      if (submission) {
+        return submission;
+      }
+    }
+
+    return this.importService.applyImport(propertyId, userId, plan, commitDto.fileName);
+  }
+
+  /**
+   * Copy rates and inventory between date ranges, or stage the copy when the role needs approval
+   */
+  async copyRatesInventory(
+    propertyId: string,
+    userId: string,
+    sourceStartDate: Date,
+    sourceEndDate: Date,
+    targetStartDate: Date,
+    targetEndDate: Date,
+    options: CopyOptions,
+    userRole?: string,
+  ): Promise<CopyResult | ChangeRequestSubmission> {
+    const copy = () => this.bulkOperationsService.copyRatesInventory(
+      propertyId,
+      userId,
+      sourceStartDate,
+      sourceEndDate,
+      targetStartDate,
+      targetEndDate,
+      options,
+    );
+
+    const mayNeedApproval = await this.changeRequestsService.getRequiredApprovals(propertyId, userRole);
+    if (!mayNeedApproval.length) {
+      return copy();
+    }
+
+    const { result, diffs } = await this.bulkOperationsService.planCopy(
+      propertyId,
+      sourceStartDate,
+      sourceEndDate,
+      targetStartDate,
+      targetEndDate,
+      options,
+    );
+    if (!diffs.length) {
+      return result;
+    }
+
+    const submission = await this.submitIfApprovalRequired(
+      propertyId,
+      userId,
+      userRole,
+      ChangeRequestOperation.COPY,
+      diffs,
+    );
+
+    return submission ?? copy();
+  }
+
+  /**
+   * Get rate and inventory statistics from today onwards
+   */
+  async getRateInventoryStats(propertyId: string, userId: string): Promise<RateInventoryStatsDto> {
+    const today = await this.businessDatesService.today(propertyId);
+
+    const where = {
+      propertyId,
+      date: { gte: today },
+    };
+
+    const [aggregate, restrictionGroups] = await Promise.all([
+      this.databaseService.rateInventory.aggregate({
+        where,
+        _count: { id: true },
+        _avg: { rate: true, inventory: true },
+        _min: { rate: true, inventory: true },
+        _max: { rate: true, inventory: true },
+      }),
+      this.databaseService.rateInventory.groupBy({
+        by: ['stopSell', 'cta', 'ctd'],
+        where,
+        _count: { id: true },
+      }),
+    ]);
+
+    this.logger.debug(`User ${userId} requested statistics for property ${propertyId}`);
+
+    return {
+      total: aggregate._count.id,
+      averageRate: this.toNumber(aggregate._avg.rate),
+      averageInventory: this.toNumber(aggregate._avg.inventory),
+      rateRange: {
+        min: this.toNumber(aggregate._min.rate),
+        max: this.toNumber(aggregate._max.rate),
+      },
+      inventoryRange: {
+        min: this.toNumber(aggregate._min.inventory),
+        max: this.toNumber(aggregate._max.inventory),
+      },
+      restrictions: restrictionGroups.map(group => ({
+        stopSell: group.stopSell,
+        closedToArrival: group.cta,
+        closedToDeparture: group.ctd,
+        _count: { id: group._count.id },
+      })),
+    };
+  }
+
+  /**
+   * Validate rate and inventory data without saving
+   */
+  async validateRateInventory(
+    propertyId: string,
+    createDto: CreateRateInventoryDto,
+    userId: string,
+  ): Promise<ValidationReport> {
+    const report = await this.validationService.inspectRateInventoryData(createDto, propertyId);
+
+    this.logger.debug(
+      `Dry-run validation by user ${userId}: ${report.errors.length} errors, ${report.warnings.length} warnings`
+    );
+
+    return report;
+  }
+
+  /**
+   * Check rate consistency across every channel for a date range
+   */
+  async checkRateConsistency(
+    propertyId: string,
+    userId: string,
+    params: {
+      startDate: Date;
+      endDate: Date;
+      roomTypeId?: string;
+      ratePlanId?: string;
+    },
+  ): Promise<RateConsistencyReport> {
+    const report = await this.validationService.checkRateConsistencyRange(
+      propertyId,
+      params.startDate,
+      params.endDate,
+      {
+        roomTypeId: params.roomTypeId,
+        ratePlanId: params.ratePlanId,
+      },
+    );
+
+    this.logger.debug(
+      `Consistency check by user ${userId}: ${report.inconsistentCount} of ${report.checkedCount} records drift`
+    );
+
+    return report;
+  }
+
+  // Private helper methods
+
+  /**
+   * Stage the change as a change request when the role may only write with approval
+   */
+  private async submitIfApprovalRequired(
+    propertyId: string,
+    userId: string,
+    userRole: string | undefined,
+    operation: ChangeRequestOperation,
+    diffs: ChangeRequestDiff[],
+  ): Promise<ChangeRequestSubmission | null> {
+    const permissions = await this.changeRequestsService.getRequiredApprovals(propertyId, userRole, diffs);
+    if (!permissions.length) {
+      return null;
+    }
+
+    return this.changeRequestsService.submit({ propertyId, userId, operation, diffs, permissions });
+  }
+
+  private recordKey(record: any) {
+    return {
+      rateInventoryId: record.id,
+      roomTypeId: record.roomTypeId,
+      ratePlanId: record.ratePlanId,
+      channelId: record.channelId,
+      date: this.dateKey(record.date),
+    };
+  }
+
+  private dateKey(date: Date): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+
+  /**
+   * Record of the property; records of other properties are reported as missing
+   */
+  private async findRecordOrFail(propertyId: string, id: string) {
+    const record = await this.databaseService.rateInventory.findFirst({
+      where: { id, propertyId },
+    });
+
+    if (!record) {
+      throw new NotFoundException(`Rate inventory record ${id} not found`);
+    }
+
+    return record;
+  }
+
+  private toNumber(value: any): number {
+    return value === null || value === undefined ? 0 : parseFloat(value.toString());
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+
+import { RestrictionRulesService } from './restriction-rules.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { UserRole } from '../auth/enums/user-role.enum';
+import {
+  CreateRestrictionRuleDto,
+  RestrictionRuleQueryDto,
+  UpdateRestrictionRuleDto,
+} from './dto/rates-inventory.dto';
+
+/**
+ * Restriction Rules Controller
+ *
+ * REST API endpoints for persisted bulk restrictions:
+ * - Rule CRUD over date ranges and day-of-week patterns
+ * - Activating a rule to expand it into rate inventory
+ * - Deactivating a rule to revert the records it set
+ */
+@ApiTags('restriction-rules')
+@Controller('properties/:propertyId/restriction-rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class RestrictionRulesController {
+  constructor(private readonly restrictionRulesService: RestrictionRulesService) {}
+
+  /**
+   * List restriction rules
+   */
+  @Get()
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'List restriction rules' })
+  @ApiResponse({ status: 200, description: 'Restriction rules retrieved successfully' })
+  async getRules(
+    @Param('propertyId') propertyId: string,
+    @Query() query: RestrictionRuleQueryDto,
+  ) {
+    return this.restrictionRulesService.findAll(propertyId, query);
+  }
+
+  /**
+   * Get a restriction rule
+   */
+  @Get(':id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get restriction rule' })
+  @ApiResponse({ status: 200, description: 'Restriction rule retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Restriction rule not found' })
+  async getRule(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+  ) {
+    return this.restrictionRulesService.findOne(propertyId, id);
+  }
+
+  /**
+   * Create a restriction rule, applying it when created active
+   */
+  @Post()
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Create restriction rule' })
+  @ApiResponse({ status: 201, description: 'Restriction rule created successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid value, date pattern or targets' })
+  async createRule(
+    @Param('propertyId') propertyId: string,
+    @Body() dto: CreateRestrictionRuleDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.restrictionRulesService.create(propertyId, user.id, dto);
+  }
+
+  /**
+   * Update a restriction rule; an active rule is applied again
+   */
+  @Put(':id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Update restriction rule' })
+  @ApiResponse({ status: 200, description: 'Restriction rule updated successfully' })
+  @ApiResponse({ status: 404, description: 'Restriction rule not found' })
+  async updateRule(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @Body() dto: UpdateRestrictionRuleDto,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.restrictionRulesService.update(propertyId, id, user.id, dto);
+  }
+
+  /**
+   * Activate a restriction rule
+   */
+  @Post(':id/activate')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Activate restriction rule' })
+  @ApiResponse({ status: 200, description: 'Rule applied; includes records applied, shadowed and in conflict' })
+  @ApiResponse({ status: 404, description: 'Restriction rule not found' })
+  async activateRule(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.restrictionRulesService.activate(propertyId, id, user.id);
+  }
+
+  /**
+   * Deactivate a restriction rule
+   */
+  @Post(':id/deactivate')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Deactivate restriction rule' })
+  @ApiResponse({ status: 200, description: 'Rule reverted; includes records reverted and edited since' })
+  @ApiResponse({ status: 400, description: 'Restriction rule is not active' })
+  async deactivateRule(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.restrictionRulesService.deactivate(propertyId, id, user.id);
+  }
+
+  /**
+   * Delete a restriction rule
+   */
+  @Delete(':id')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete restriction rule' })
+  @ApiResponse({ status: 204, description: 'Restriction rule deleted and reverted successfully' })
+  async deleteRule(
+    @Param('propertyId') propertyId: string,
+    @Param('id') id: string,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.restrictionRulesService.remove(propertyId, id, user.id);
+  }
+}
@@ -0,0 +1,747 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+import { DatabaseService } from '../database/database.service';
+import { toDateOnly } from '../../common/dates/business-date';
+import { SyncService } from '../channel-manager/sync.service';
+import { ValidationService } from './validation.service';
+import {
+  RateInventoryValues,
+  RateInventoryWriteData,
+  pickRateInventoryValues,
+  toRateInventoryResponse,
+} from './rates-inventory.mapper';
+import {
+  CreateRestrictionRuleDto,
+  RestrictionRuleQueryDto,
+  RestrictionRuleStatus,
+  RestrictionRuleType,
+  UpdateRestrictionRuleDto,
+} from './dto/rates-inventory.dto';
+
+type RestrictionColumn = Exclude<keyof RateInventoryWriteData, 'rate' | 'inventory'>;
+type CellValue = number | boolean | null;
+
+interface RestrictionTarget {
+  column: RestrictionColumn;
+  field: keyof RateInventoryValues;
+  range?: [number, number]; // Allowed values; closing restrictions take none
+}
+
+/**
+ * RateInventory column and API field each restriction sets
+ */
+const RESTRICTION_TARGETS: Record<RestrictionRuleType, RestrictionTarget> = {
+  [RestrictionRuleType.CLOSEOUT]: { column: 'stopSell', field: 'stopSell' },
+  [RestrictionRuleType.CTA]: { column: 'cta', field: 'closedToArrival' },
+  [RestrictionRuleType.CTD]: { column: 'ctd', field: 'closedToDeparture' },
+  [RestrictionRuleType.MIN_LOS]: { column: 'minLos', field: 'minStay', range: [1, 30] },
+  [RestrictionRuleType.MAX_LOS]: { column: 'maxLos', field: 'maxStay', range: [1, 365] },
+  [RestrictionRuleType.MIN_LOS_THROUGH]: { column: 'minLosThrough', field: 'minStayThrough', range: [1, 30] },
+  [RestrictionRuleType.MAX_LOS_THROUGH]: { column: 'maxLosThrough', field: 'maxStayThrough', range: [1, 365] },
+  [RestrictionRuleType.MIN_ADVANCE]: { column: 'minAdvanceDays', field: 'minAdvanceBookingDays', range: [0, 365] },
+  [RestrictionRuleType.MAX_ADVANCE]: { column: 'maxAdvanceDays', field: 'maxAdvanceBookingDays', range: [1, 730] },
+};
+
+const RESTRICTION_FIELDS: string[] = Object.values(RESTRICTION_TARGETS).map(target => target.field);
+const MAX_RULE_DAYS = 366;
+const CONFLICT_LIMIT = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface RuleDefinition {
+  restriction: RestrictionRuleType;
+  value: number | null;
+  startDate: Date;
+  endDate: Date;
+  daysOfWeek: number[];
+  roomTypeIds: string[];
+  ratePlanIds: string[];
+  channelIds: string[];
+}
+
+interface TargetLookups {
+  roomTypes: Map<string, { id: string; code: string; name: string }>;
+  ratePlans: Map<string, { id: string; code: string; name: string }>;
+  channels: Map<string, { id: string; code: string; name: string }>;
+}
+
+export interface RestrictionRuleConflict {
+  date: string;
+  roomTypeId: string;
+  ratePlanId: string;
+  channelId: string;
+  reason: string;
+}
+
+/**
+ * Outcome of expanding a rule into rate inventory
+ */
+export interface RuleApplicationSummary {
+  matched: number; // Rate inventory records on the rule's dates and targets
+  applied: number; // Records the rule's value was written to
+  shadowed: number; // Records a higher-priority rule sets instead
+  conflicts: RestrictionRuleConflict[]; // Records left out because the value would be invalid there
+}
+
+/**
+ * Outcome of reverting a rule
+ */
+export interface RuleRevertSummary {
+  reverted: number; // Records restored to the next rule's value or their value before any rule
+  unchanged: number; // Records another rule sets, or that already hold the value they revert to
+  edited: number; // Records changed since the rule set them; left as they are
+}
+
+/**
+ * Restriction Rules Service
+ *
+ * Persisted bulk restrictions:
+ * - Rules over a date range and day-of-week pattern, targeting room types,
+ *   rate plans and channels
+ * - Expansion of active rules into per-date rate inventory restrictions
+ * - Priority-based resolution where rules set the same restriction on the
+ *   same record; ties go to the latest activated rule
+ * - Deactivation reverting exactly the records a rule set, to the next
+ *   covering rule or to the value before any rule
+ */
+@Injectable()
+export class RestrictionRulesService {
+  private readonly logger = new Logger(RestrictionRulesService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly validationService: ValidationService,
+    private readonly syncService: SyncService,
+  ) {}
+
+  /**
+   * List rules of a property, highest priority first
+   */
+  async findAll(propertyId: string, query: RestrictionRuleQueryDto) {
+    const rules = await this.databaseService.restrictionRule.findMany({
+      where: {
+        propertyId,
+        ...(query.status && { status: query.status }),
+      },
+      orderBy: [{ priority: 'desc' }, { startDate: 'asc' }],
+    });
+
+    const [lookups, counts] = await Promise.all([
+      this.loadLookups(propertyId),
+      this.cellCounts(rules.map(rule => rule.id)),
+    ]);
+    return rules.map(rule => this.toResponse(rule, lookups, counts.get(rule.id)));
+  }
+
+  /**
+   * One rule with the number of records it covers
+   */
+  async findOne(propertyId: string, id: string) {
+    const rule = await this.findRuleOrFail(propertyId, id);
+    return this.respond(rule);
+  }
+
+  /**
+   * Create a rule; it is a draft unless created active, in which case it is applied at once
+   */
+  async create(propertyId: string, userId: string, dto: CreateRestrictionRuleDto) {
+    const lookups = await this.loadLookups(propertyId);
+    const data = this.normalize(dto, lookups);
+
+    const rule = await this.databaseService.$transaction(async (tx) => {
+      const created = await tx.restrictionRule.create({
+        data: {
+          ...data,
+          propertyId,
+          name: dto.name,
+          priority: dto.priority ?? 0,
+          notes: dto.notes,
+          status: RestrictionRuleStatus.DRAFT,
+          createdBy: userId,
+          updatedBy: userId,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'CREATE',
+          entityType: 'RESTRICTION_RULE',
+          entityId: created.id,
+          newValues: created,
+          source: 'API',
+        },
+      });
+
+      return created;
+    });
+
+    this.logger.log(`Created restriction rule ${rule.id} for property ${propertyId}`);
+
+    if (dto.status === RestrictionRuleStatus.ACTIVE) {
+      return this.activate(propertyId, rule.id, userId);
+    }
+    return this.respond(rule, lookups);
+  }
+
+  /**
+   * Update a rule; an active rule is reverted and applied again with the changes
+   */
+  async update(propertyId: string, id: string, userId: string, dto: UpdateRestrictionRuleDto) {
+    const existing = await this.findRuleOrFail(propertyId, id);
+    const lookups = await this.loadLookups(propertyId);
+    const data = this.normalize({
+      restriction: dto.restriction ?? existing.restriction,
+      value: dto.value !== undefined ? dto.value : existing.value ?? undefined,
+      startDate: dto.startDate ?? existing.startDate,
+      endDate: dto.endDate ?? existing.endDate,
+      daysOfWeek: dto.daysOfWeek ?? existing.daysOfWeek,
+      roomTypes: dto.roomTypes ?? existing.roomTypeIds,
+      ratePlans: dto.ratePlans ?? existing.ratePlanIds,
+      channels: dto.channels ?? existing.channelIds,
+    }, lookups);
+
+    const isActive = existing.status === RestrictionRuleStatus.ACTIVE;
+    if (isActive) {
+      await this.revertRule(existing, userId);
+    }
+
+    const rule = await this.databaseService.$transaction(async (tx) => {
+      const updated = await tx.restrictionRule.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(dto.name !== undefined && { name: dto.name }),
+          ...(dto.priority !== undefined && { priority: dto.priority }),
+          ...(dto.notes !== undefined && { notes: dto.notes }),
+          updatedBy: userId,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'UPDATE',
+          entityType: 'RESTRICTION_RULE',
+          entityId: id,
+          oldValues: existing,
+          newValues: updated,
+          changes: dto as Prisma.InputJsonValue,
+          source: 'API',
+        },
+      });
+
+      return { ...existing, ...updated };
+    });
+
+    this.logger.log(`Updated restriction rule ${id}`);
+
+    if (isActive) {
+      const application = await this.applyRule(rule, userId);
+      return { ...(await this.respond({ ...rule, status: RestrictionRuleStatus.ACTIVE }, lookups)), application };
+    }
+    return this.respond(rule, lookups);
+  }
+
+  /**
+   * Activate a rule and expand it into rate inventory. Activating an active
+   * rule again covers records created since it was applied.
+   */
+  async activate(propertyId: string, id: string, userId: string) {
+    const existing = await this.findRuleOrFail(propertyId, id);
+    const rule = existing.status === RestrictionRuleStatus.ACTIVE
+      ? existing
+      : { ...existing, status: RestrictionRuleStatus.ACTIVE, activatedAt: new Date(), deactivatedAt: null };
+
+    const application = await this.applyRule(rule, userId);
+
+    this.logger.log(
+      `Applied restriction rule ${id}: ${application.applied} of ${application.matched} records, ` +
+      `${application.shadowed} shadowed, ${application.conflicts.length} conflicts`,
+    );
+    return { ...(await this.respond(rule)), application };
+  }
+
+  /**
+   * Deactivate a rule, reverting the records it set
+   */
+  async deactivate(propertyId: string, id: string, userId: string) {
+    const existing = await this.findRuleOrFail(propertyId, id);
+    if (existing.status !== RestrictionRuleStatus.ACTIVE) {
+      throw new BadRequestException('Only active restriction rules can be deactivated');
+    }
+
+    const application = await this.revertRule(existing, userId);
+
+    this.logger.log(
+      `Reverted restriction rule ${id}: ${application.reverted} records reverted, ${application.edited} edited since`,
+    );
+    return {
+      ...(await this.respond({ ...existing, status: RestrictionRuleStatus.INACTIVE, deactivatedAt: new Date() })),
+      application,
+    };
+  }
+
+  /**
+   * Delete a rule; an active rule is reverted first
+   */
+  async remove(propertyId: string, id: string, userId: string): Promise<void> {
+    const existing = await this.findRuleOrFail(propertyId, id);
+    if (existing.status === RestrictionRuleStatus.ACTIVE) {
+      await this.revertRule(existing, userId);
+    }
+
+    await this.databaseService.$transaction(async (tx) => {
+      await tx.restrictionRule.delete({ where: { id } });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId,
+          action: 'DELETE',
+          entityType: 'RESTRICTION_RULE',
+          entityId: id,
+          oldValues: existing,
+          source: 'API',
+        },
+      });
+    });
+
+    this.logger.log(`Deleted restriction rule ${id}`);
+  }
+
+  // Private helper methods
+
+  private async findRuleOrFail(propertyId: string, id: string) {
+    const rule = await this.databaseService.restrictionRule.findFirst({
+      where: { id, propertyId },
+    });
+    if (!rule) {
+      throw new NotFoundException('Restriction rule not found');
+    }
+    return rule;
+  }
+
+  /**
+   * Write the rule's value to the records on its dates and targets it does not
+   * cover yet, where it outranks the other active rules setting the same restriction
+   */
+  private async applyRule(rule: any, userId: string): Promise<RuleApplicationSummary> {
+    const target = RESTRICTION_TARGETS[rule.restriction as RestrictionRuleType];
+    const value = this.ruleValue(rule);
+
+    const records = await this.databaseService.rateInventory.findMany({
+      where: {
+        propertyId: rule.propertyId,
+        date: { in: this.expandDates(rule) },
+        ...(rule.roomTypeIds.length && { roomTypeId: { in: rule.roomTypeIds } }),
+        ...(rule.ratePlanIds.length && { ratePlanId: { in: rule.ratePlanIds } }),
+        ...(rule.channelIds.length && { channelId: { in: rule.channelIds } }),
+      },
+    });
+
+    const covered = new Set(
+      (await this.databaseService.restrictionRuleCell.findMany({
+        where: { ruleId: rule.id },
+        select: { rateInventoryId: true },
+      })).map(cell => cell.rateInventoryId),
+    );
+    const pending = records.filter(record => !covered.has(record.id));
+    const competing = await this.activeCells(pending.map(record => record.id), target.column, rule.id);
+
+    const cells: any[] = [];
+    const written: any[] = [];
+    const conflicts: RestrictionRuleConflict[] = [];
+    let shadowed = 0;
+
+    for (const record of pending) {
+      const others = competing.get(record.id) ?? [];
+      const current = this.cellValue(record[target.column]);
+      const outranks = others.every(cell => this.outranks(rule, cell.rule));
+
+      if (!outranks) {
+        shadowed++;
+      } else if (current !== value) {
+        const existing = toRateInventoryResponse(record);
+        try {
+          await this.validationService.validateRateInventoryUpdate(
+            pickRateInventoryValues({ ...existing, [target.field]: value }, RESTRICTION_FIELDS),
+            existing,
+          );
+        } catch (error) {
+          conflicts.push({
+            date: this.formatDate(record.date),
+            roomTypeId: record.roomTypeId,
+            ratePlanId: record.ratePlanId,
+            channelId: record.channelId,
+            reason: error.message,
+          });
+          continue;
+        }
+        written.push(record);
+      }
+
+      cells.push({
+        ruleId: rule.id,
+        rateInventoryId: record.id,
+        field: target.column,
+        value,
+        // Every active cell on a record keeps the value from before the first of them
+        baseline: others.length ? others[0].baseline : current,
+      });
+    }
+
+    await this.databaseService.$transaction(async (tx) => {
+      if (cells.length) {
+        await tx.restrictionRuleCell.createMany({ data: cells });
+      }
+
+      if (written.length) {
+        await tx.rateInventory.updateMany({
+          where: { id: { in: written.map(record => record.id) } },
+          data: { [target.column]: value, syncStatus: 'PENDING' },
+        });
+      }
+
+      await tx.restrictionRule.update({
+        where: { id: rule.id },
+        data: {
+          status: RestrictionRuleStatus.ACTIVE,
+          activatedAt: rule.activatedAt,
+          deactivatedAt: null,
+          updatedBy: userId,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId: rule.propertyId,
+          userId,
+          action: 'UPDATE',
+          entityType: 'RESTRICTION_RULE',
+          entityId: rule.id,
+          changes: {
+            status: RestrictionRuleStatus.ACTIVE,
+            field: target.column,
+            value,
+            rateInventoryIds: written.map(record => record.id),
+            shadowed,
+            conflicts: conflicts.length,
+          },
+          source: 'API',
+        },
+      });
+    });
+
+    await this.syncService.syncRecords(rule.propertyId, written, userId);
+
+    return {
+      matched: records.length,
+      applied: written.length,
+      shadowed,
+      conflicts: conflicts.slice(0, CONFLICT_LIMIT),
+    };
+  }
+
+  /**
+   * Revert the records the rule sets to the next covering rule's value, or to
+   * their value before any rule. Records changed since are left as they are.
+   */
+  private async revertRule(rule: any, userId: string): Promise<RuleRevertSummary> {
+    const cells = await this.databaseService.restrictionRuleCell.findMany({
+      where: { ruleId: rule.id },
+      include: { rateInventory: true },
+    });
+    const field = RESTRICTION_TARGETS[rule.restriction as RestrictionRuleType].column;
+    const competing = await this.activeCells(cells.map(cell => cell.rateInventoryId), field, rule.id);
+
+    const writes = new Map<string, { value: CellValue; records: any[] }>();
+    let unchanged = 0;
+    let edited = 0;
+
+    for (const cell of cells) {
+      const record = cell.rateInventory;
+      const others = competing.get(cell.rateInventoryId) ?? [];
+      const current = this.cellValue(record?.[field]);
+
+      if (!record || !others.every(other => this.outranks(rule, other.rule))) {
+        unchanged++;
+        continue;
+      }
+      if (current !== this.cellValue(cell.value)) {
+        edited++;
+        continue;
+      }
+
+      const next = others.length
+        ? this.cellValue(others.reduce((top, other) => this.outranks(other.rule, top.rule) ? other : top).value)
+        : this.cellValue(cell.baseline);
+      if (next === current) {
+        unchanged++;
+        continue;
+      }
+
+      const key = JSON.stringify(next);
+      writes.set(key, { value: next, records: [...(writes.get(key)?.records ?? []), record] });
+    }
+
+    const reverted = [...writes.values()].flatMap(write => write.records);
+
+    await this.databaseService.$transaction(async (tx) => {
+      await tx.restrictionRuleCell.deleteMany({ where: { ruleId: rule.id } });
+
+      for (const write of writes.values()) {
+        await tx.rateInventory.updateMany({
+          where: { id: { in: write.records.map(record => record.id) } },
+          data: { [field]: write.value, syncStatus: 'PENDING' },
+        });
+      }
+
+      await tx.restrictionRule.update({
+        where: { id: rule.id },
+        data: {
+          status: RestrictionRuleStatus.INACTIVE,
+          deactivatedAt: new Date(),
+          updatedBy: userId,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          propertyId: rule.propertyId,
+          userId,
+          action: 'UPDATE',
+          entityType: 'RESTRICTION_RULE',
+          entityId: rule.id,
+          changes: {
+            status: RestrictionRuleStatus.INACTIVE,
+            field,
+            reverted: [...writes.values()].map(write => ({
+              value: write.value,
+              rateInventoryIds: write.records.map(record => record.id),
+            })),
+            edited,
+          },
+          source: 'API',
+        },
+      });
+    });
+
+    await this.syncService.syncRecords(rule.propertyId, reverted, userId);
+
+    return { reverted: reverted.length, unchanged, edited };
+  }
+
+  /**
+   * Cells of other active rules setting the field on the records, by record
+   */
+  private async activeCells(rateInventoryIds: string[], field: RestrictionColumn, excludeRuleId: string) {
+    const byRecord = new Map<string, any[]>();
+    if (!rateInventoryIds.length) {
+      return byRecord;
+    }
+
+    const cells = await this.databaseService.restrictionRuleCell.findMany({
+      where: {
+        rateInventoryId: { in: rateInventoryIds },
+        field,
+        ruleId: { not: excludeRuleId },
+        rule: { status: RestrictionRuleStatus.ACTIVE },
+      },
+      include: { rule: true },
+    });
+
+    for (const cell of cells) {
+      byRecord.set(cell.rateInventoryId, [...(byRecord.get(cell.rateInventoryId) ?? []), cell]);
+    }
+    return byRecord;
+  }
+
+  /**
+   * Whether a rule's value wins over another's: higher priority, then the latest activated
+   */
+  private outranks(rule: any, other: any): boolean {
+    if (rule.priority !== other.priority) {
+      return rule.priority > other.priority;
+    }
+    return new Date(rule.activatedAt ?? 0).getTime() >= new Date(other.activatedAt ?? 0).getTime();
+  }
+
+  /**
+   * Stay dates of the range that fall on the rule's days of week
+   */
+  private expandDates(rule: { startDate: Date; endDate: Date; daysOfWeek: number[] }): Date[] {
+    const dates: Date[] = [];
+    const end = toDateOnly(rule.endDate).getTime();
+
+    for (let time = toDateOnly(rule.startDate).getTime(); time <= end; time += DAY_MS) {
+      const date = new Date(time);
+      if (!rule.daysOfWeek.length || rule.daysOfWeek.includes(date.getUTCDay())) {
+        dates.push(date);
+      }
+    }
+    return dates;
+  }
+
+  /**
+   * Resolve targets to ids and check the restriction's value and the date pattern
+   */
+  private normalize(dto: {
+    restriction: RestrictionRuleType;
+    value?: number;
+    startDate: Date;
+    endDate: Date;
+    daysOfWeek?: number[];
+    roomTypes?: string[];
+    ratePlans?: string[];
+    channels?: string[];
+  }, lookups: TargetLookups): RuleDefinition {
+    const { range } = RESTRICTION_TARGETS[dto.restriction];
+    if (range && (dto.value === undefined || dto.value === null)) {
+      throw new BadRequestException(`${dto.restriction} requires a value`);
+    }
+    if (range && (dto.value < range[0] || dto.value > range[1])) {
+      throw new BadRequestException(`${dto.restriction} must be between ${range[0]} and ${range[1]}`);
+    }
+
+    const startDate = toDateOnly(dto.startDate);
+    const endDate = toDateOnly(dto.endDate);
+    if (endDate < startDate) {
+      throw new BadRequestException('End date must not be before start date');
+    }
+    if ((endDate.getTime() - startDate.getTime()) / DAY_MS >= MAX_RULE_DAYS) {
+      throw new BadRequestException(`A restriction rule can span at most ${MAX_RULE_DAYS} days`);
+    }
+
+    const daysOfWeek = [...new Set(dto.daysOfWeek ?? [])].sort();
+    if (!this.expandDates({ startDate, endDate, daysOfWeek }).length) {
+      throw new BadRequestException('The days of week select no date in the range');
+    }
+
+    return {
+      restriction: dto.restriction,
+      value: range ? dto.value : null,
+      startDate,
+      endDate,
+      daysOfWeek,
+      roomTypeIds: this.resolveTargets(dto.roomTypes, lookups.roomTypes, 'room type'),
+      ratePlanIds: this.resolveTargets(dto.ratePlans, lookups.ratePlans, 'rate plan'),
+      channelIds: this.resolveTargets(dto.channels, lookups.channels, 'channel'),
+    };
+  }
+
+  /**
+   * Match targets by id, code or name, case-insensitively
+   */
+  private resolveTargets(
+    targets: string[] | undefined,
+    options: TargetLookups['roomTypes'],
+    label: string,
+  ): string[] {
+    const ids = new Set<string>();
+    const unknown: string[] = [];
+
+    for (const target of targets ?? []) {
+      const key = target.trim().toLowerCase();
+      const match = [...options.values()].find(option =>
+        option.id === target || option.code.toLowerCase() === key || option.name.toLowerCase() === key);
+      if (match) {
+        ids.add(match.id);
+      } else {
+        unknown.push(target);
+      }
+    }
+
+    if (unknown.length) {
+      throw new BadRequestException(`Unknown ${label}: ${unknown.join(', ')}`);
+    }
+    return [...ids];
+  }
+
+  /**
+   * Room types and rate plans of the property and the channels mapped to it
+   */
+  private async loadLookups(propertyId: string): Promise<TargetLookups> {
+    const [roomTypes, ratePlans, mappings] = await Promise.all([
+      this.databaseService.roomType.findMany({ where: { propertyId } }),
+      this.databaseService.ratePlan.findMany({ where: { propertyId } }),
+      this.databaseService.channelMapping.findMany({
+        where: { propertyId },
+        include: { channel: true },
+      }),
+    ]);
+
+    const toLookup = (items: any[]) =>
+      new Map(items.map(item => [item.id, { id: item.id, code: item.code, name: item.name }]));
+    return {
+      roomTypes: toLookup(roomTypes),
+      ratePlans: toLookup(ratePlans),
+      channels: toLookup(mappings.map(mapping => mapping.channel).filter(Boolean)),
+    };
+  }
+
+  private async cellCounts(ruleIds: string[]): Promise<Map<string, number>> {
+    if (!ruleIds.length) {
+      return new Map();
+    }
+
+    const groups = await this.databaseService.restrictionRuleCell.groupBy({
+      by: ['ruleId'],
+      where: { ruleId: { in: ruleIds } },
+      _count: { _all: true },
+    });
+    return new Map(groups.map(group => [group.ruleId, group._count._all]));
+  }
+
+  private async respond(rule: any, lookups?: TargetLookups) {
+    const [targets, counts] = await Promise.all([
+      lookups ?? this.loadLookups(rule.propertyId),
+      this.cellCounts([rule.id]),
+    ]);
+    return this.toResponse(rule, targets, counts.get(rule.id));
+  }
+
+  private toResponse(rule: any, lookups: TargetLookups, cellCount = 0) {
+    const describe = (ids: string[], options: TargetLookups['roomTypes']) =>
+      (ids ?? []).map(id => options.get(id) ?? { id, code: id, name: id });
+
+    return {
+      id: rule.id,
+      propertyId: rule.propertyId,
+      name: rule.name ?? null,
+      restriction: rule.restriction,
+      value: rule.value ?? null,
+      startDate: this.formatDate(rule.startDate),
+      endDate: this.formatDate(rule.endDate),
+      daysOfWeek: rule.daysOfWeek ?? [],
+      targets: {
+        roomTypes: describe(rule.roomTypeIds, lookups.roomTypes),
+        ratePlans: describe(rule.ratePlanIds, lookups.ratePlans),
+        channels: describe(rule.channelIds, lookups.channels),
+      },
+      priority: rule.priority ?? 0,
+      status: rule.status,
+      notes: rule.notes ?? null,
+      cellCount,
+      activatedAt: rule.activatedAt ?? null,
+      deactivatedAt: rule.deactivatedAt ?? null,
+      createdBy: rule.createdBy ?? null,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+
+  private ruleValue(rule: any): CellValue {
+    return RESTRICTION_TARGETS[rule.restriction as RestrictionRuleType].range ? rule.value : true;
+  }
+
+  private cellValue(value: unknown): CellValue {
+    return value === undefined || value === null ? null : value as CellValue;
+  }
+
+  private formatDate(date: Date | string): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+}
@@ -4,27 +4,70 @@ import {
   Logger,
 } from '@nestjs/common';
 import { DatabaseService } from '../database/database.service';
+import { BusinessDatesService } from '../business-dates/business-dates.service';
+import { daysBetween, toDateOnly } from '../../common/dates/business-date';
 import {
   CreateRateInventoryDto,
   UpdateRateInventoryDto,
   BulkUpdateItemDto,
 } from './dto/rates-inventory.dto';
+import { RateInventoryValues } from './rates-inventory.mapper';
+
+export type ValidationSeverity = 'ERROR' | 'WARNING';
+
+export interface ValidationIssue {
+  field: string;
+  code: string;
+  message: string;
+  severity: ValidationSeverity;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export interface RateConsistencyResult {
+  id: string;
+  date: Date;
+  roomTypeId: string;
+  ratePlanId: string;
+  channelId: string;
+  channelName: string;
+  rate: number;
+  warnings: ValidationIssue[];
+}
+
+export interface RateConsistencyReport {
+  propertyId: string;
+  startDate: Date;
+  endDate: Date;
+  checkedCount: number;
+  inconsistentCount: number;
+  results: RateConsistencyResult[];
+}
+
+const RATE_DEVIATION_THRESHOLD = 0.2;
 
 /**
  * Validation Service
  * 
  * Handles business rule validation for rates and inventory:
  * - Rate and inventory constraints
- * - Restriction logic validation
+ * - Restriction logic validation, including stay-through and advance booking windows
  * - Channel-specific rules
- * - Date range validation
+ * - Date range validation and past-date locking against the property's business date
  * - Business rule enforcement
  */
 @Injectable()
 export class ValidationService {
   private readonly logger = new Logger(ValidationService.name);
 
-  constructor(private readonly databaseService: DatabaseService) {}
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly businessDatesService: BusinessDatesService,
+  ) {}
 
   /**
    * Validate rate and inventory data for creation
@@ -33,42 +76,76 @@ export class ValidationService {
     data: CreateRateInventoryDto,
     propertyId: string,
   ): Promise<void> {
-    const errors: string[] = [];
+    const report = await this.inspectRateInventoryData(data, propertyId);
+
+    if (!report.valid) {
+      throw new BadRequestException({
+        message: `Validation failed: ${report.errors.map(e => e.message).join(', ')}`,
+        errors: report.errors,
+      });
+    }
+  }
+
+  /**
+   * Run the full creation rule set without throwing
+   *
+   * Used for dry-run validation: blocking problems are returned as errors,
+   * advisory ones (rate parity drift, stop sell overriding inventory) as warnings.
+   */
+  async inspectRateInventoryData(
+    data: CreateRateInventoryDto,
+    propertyId: string,
+  ): Promise<ValidationReport> {
+    const errors: ValidationIssue[] = [];
+    const warnings: ValidationIssue[] = [];
 
     // Validate basic constraints
     if (data.rate < 0) {
-      errors.push('Rate cannot be negative');
+      errors.push(this.issue('rate', 'RATE_NEGATIVE', 'Rate cannot be negative'));
     }
 
     if (data.inventory < 0) {
-      errors.push('Inventory cannot be negative');
+      errors.push(this.issue('inventory', 'INVENTORY_NEGATIVE', 'Inventory cannot be negative'));
     }
 
-    // Validate date is not in the past (allow today)
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    if (data.date < today) {
-      errors.push('Cannot set rates for past dates');
+    // Validate date is not in the past for the hotel (allow today)
+    const today = await this.businessDatesService.today(propertyId);
+    const date = toDateOnly(data.date);
+    if (date < today) {
+      errors.push(this.issue('date', 'DATE_IN_PAST', 'Cannot set rates for past dates'));
     }
 
     // Validate date is not too far in the future (2 years max)
-    const maxFutureDate = new Date();
-    maxFutureDate.setFullYear(maxFutureDate.getFullYear() + 2);
-    if (data.date > maxFutureDate) {
-      errors.push('Cannot set rates more than 2 years in advance');
+    const maxFutureDate = new Date(today);
+    maxFutureDate.setUTCFullYear(maxFutureDate.getUTCFullYear() + 2);
+    if (date > maxFutureDate) {
+      errors.push(this.issue('date', 'DATE_TOO_FAR', 'Cannot set rates more than 2 years in advance'));
     }
 
     // Validate MinLOS and MaxLOS
     if (data.minStay && data.maxStay && data.minStay > data.maxStay) {
-      errors.push('Minimum stay cannot be greater than maximum stay');
+      errors.push(this.issue('minStay', 'MIN_STAY_EXCEEDS_MAX', 'Minimum stay cannot be greater than maximum stay'));
     }
 
     if (data.minStay && (data.minStay < 1 || data.minStay > 30)) {
-      errors.push('Minimum stay must be between 1 and 30 days');
+      errors.push(this.issue('minStay', 'MIN_STAY_OUT_OF_RANGE', 'Minimum stay must be between 1 and 30 days'));
     }
 
     if (data.maxStay && (data.maxStay < 1 || data.maxStay > 365)) {
-      errors.push('Maximum stay must be between 1 and 365 days');
+      errors.push(this.issue('maxStay', 'MAX_STAY_OUT_OF_RANGE', 'Maximum stay must be between 1 and 365 days'));
+    }
+
+    const restrictionIssues = this.collectRestrictionIssues(data, data.date, today);
+    errors.push(...restrictionIssues.filter(issue => issue.severity === 'ERROR'));
+    warnings.push(...restrictionIssues.filter(issue => issue.severity === 'WARNING'));
+
+    if (data.stopSell && data.inventory > 0) {
+      warnings.push(this.issue(
+        'stopSell',
+        'STOP_SELL_OVERRIDES_INVENTORY',
+        'Stop sell is enabled, so the inventory will not be sellable',
+        'WARNING',
+      ));
     }
 
     // Validate room type exists and belongs to property
@@ -80,7 +157,7 @@ export class ValidationService {
     });
 
     if (!roomType) {
-      errors.push('Invalid room type for this property');
+      errors.push(this.issue('roomTypeId', 'ROOM_TYPE_INVALID', 'Invalid room type for this property'));
     }
 
     // Validate rate plan exists and belongs to property
@@ -92,7 +169,7 @@ export class ValidationService {
     });
 
     if (!ratePlan) {
-      errors.push('Invalid rate plan for this property');
+      errors.push(this.issue('ratePlanId', 'RATE_PLAN_INVALID', 'Invalid rate plan for this property'));
     }
 
     // Validate channel exists and is active
@@ -101,7 +178,7 @@ export class ValidationService {
     });
 
     if (!channel || !channel.isActive) {
-      errors.push('Invalid or inactive channel');
+      errors.push(this.issue('channelId', 'CHANNEL_INVALID', 'Invalid or inactive channel'));
     }
 
     // Channel-specific validation
@@ -114,9 +191,23 @@ export class ValidationService {
       await this.validatePropertySpecificRules(data, propertyId, roomType, ratePlan, errors);
     }
 
-    if (errors.length > 0) {
-      throw new BadRequestException(`Validation failed: ${errors.join(', ')}`);
-    }
+    // Cross-channel drift is advisory only
+    if (roomType && ratePlan && channel && data.rate !== undefined) {
+      const otherChannelRates = await this.findOtherChannelRates(
+        propertyId,
+        data.roomTypeId,
+        data.ratePlanId,
+        data.date,
+        data.channelId,
+      );
+      warnings.push(...this.compareChannelRates(data.rate, otherChannelRates));
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      warnings,
+    };
   }
 
   /**
@@ -128,24 +219,31 @@ export class ValidationService {
   ): Promise<void> {
     const errors: string[] = [];
 
+    // Past dates are locked once the hotel's business date has moved on
+    const today = await this.businessDatesService.today(existingRecord.propertyId);
+    if (toDateOnly(existingRecord.date) < today) {
+      errors.push('Cannot change rates or inventory for past dates');
+    }
+
     // Validate rate constraints
     if (updateData.rate !== undefined) {
       if (updateData.rate < 0) {
         errors.push('Rate cannot be negative');
       }
 
-      // Check for rate floor/ceiling if configured
+      // Check rate plan, seasonal and event floors/ceilings if configured
       const ratePlan = await this.databaseService.ratePlan.findUnique({
         where: { id: existingRecord.ratePlanId },
       });
 
-      if (ratePlan?.minRate && updateData.rate < ratePlan.minRate) {
-        errors.push(`Rate cannot be below minimum rate of $${ratePlan.minRate}`);
-      }
-
-      if (ratePlan?.maxRate && updateData.rate > ratePlan.maxRate) {
-        errors.push(`Rate cannot exceed maximum rate of $${ratePlan.maxRate}`);
-      }
+      const guardrailIssues = await this.collectRateGuardrailIssues(
+        existingRecord.propertyId,
+        existingRecord.roomTypeId,
+        ratePlan,
+        new Date(existingRecord.date),
+        updateData.rate,
+      );
+      errors.push(...guardrailIssues.map(issue => issue.message));
     }
 
     // Validate inventory constraints
@@ -179,16 +277,23 @@ export class ValidationService {
       }
     }
 
+    // Through and advance booking restrictions are checked against the values they will end up with
+    const restrictionIssues = this.collectRestrictionIssues(
+      { ...existingRecord, ...updateData },
+      new Date(existingRecord.date),
+      today,
+    );
+    errors.push(...restrictionIssues.filter(issue => issue.severity === 'ERROR').map(issue => issue.message));
+    restrictionIssues
+      .filter(issue => issue.severity === 'WARNING')
+      .forEach(issue => this.logger.warn(issue.message));
+
     // Validate restriction logic
     if (updateData.stopSell && (updateData.inventory > 0 || updateData.rate > 0)) {
       // Allow but warn - stop sell overrides inventory/rate
       this.logger.warn('Stop sell is enabled but inventory/rate is set - stop sell takes precedence');
     }
 
-    if (updateData.closedToArrival && updateData.closedToDeparture) {
-      errors.push('Cannot close both arrival and departure on the same date');
-    }
-
     if (errors.length > 0) {
       throw new BadRequestException(`Validation failed: ${errors.join(', ')}`);
     }
@@ -203,6 +308,11 @@ export class ValidationService {
   ): Promise<void> {
     const errors: string[] = [];
 
+    const today = await this.businessDatesService.today(propertyId);
+    if (toDateOnly(updateItem.date) < today) {
+      errors.push(`Invalid date ${updateItem.date}: past dates cannot be changed`);
+    }
+
     // Basic validation
     if (updateItem.rate !== undefined && updateItem.rate < 0) {
       errors.push(`Invalid rate for ${updateItem.date}: cannot be negative`);
@@ -212,6 +322,10 @@ export class ValidationService {
       errors.push(`Invalid inventory for ${updateItem.date}: cannot be negative`);
     }
 
+    this.collectRestrictionIssues(updateItem, updateItem.date, today)
+      .filter(issue => issue.severity === 'ERROR')
+      .forEach(issue => errors.push(`Invalid restrictions for ${updateItem.date}: ${issue.message}`));
+
     // Validate entities exist
     const [roomType, ratePlan, channel] = await Promise.all([
       this.databaseService.roomType.findFirst({
@@ -248,30 +362,44 @@ export class ValidationService {
   private async validateChannelSpecificRules(
     data: CreateRateInventoryDto,
     channel: any,
-    errors: string[],
+    errors: ValidationIssue[],
   ): Promise<void> {
-    switch (channel.type) {
+    switch (channel.code) {
       case 'BOOKING_COM':
         // Booking.com specific rules
         if (data.rate && data.rate < 10) {
-          errors.push('Booking.com requires minimum rate of $10');
+          errors.push(this.issue('rate', 'CHANNEL_MIN_RATE', 'Booking.com requires minimum rate of $10'));
         }
         if (data.maxStay && data.maxStay > 28) {
-          errors.push('Booking.com maximum stay cannot exceed 28 days');
+          errors.push(this.issue('maxStay', 'CHANNEL_MAX_STAY', 'Booking.com maximum stay cannot exceed 28 days'));
+        }
+        if (data.maxStayThrough && data.maxStayThrough > 28) {
+          errors.push(this.issue(
+            'maxStayThrough',
+            'CHANNEL_MAX_STAY',
+            'Booking.com maximum stay through cannot exceed 28 days',
+          ));
         }
         break;
 
       case 'EXPEDIA':
         // Expedia specific rules
         if (data.rate && data.rate < 15) {
-          errors.push('Expedia requires minimum rate of $15');
+          errors.push(this.issue('rate', 'CHANNEL_MIN_RATE', 'Expedia requires minimum rate of $15'));
         }
         break;
 
       case 'AGODA':
         // Agoda specific rules
         if (data.minStay && data.minStay > 14) {
-          errors.push('Agoda minimum stay cannot exceed 14 days');
+          errors.push(this.issue('minStay', 'CHANNEL_MIN_STAY', 'Agoda minimum stay cannot exceed 14 days'));
+        }
+        if (data.minStayThrough && data.minStayThrough > 14) {
+          errors.push(this.issue(
+            'minStayThrough',
+            'CHANNEL_MIN_STAY',
+            'Agoda minimum stay through cannot exceed 14 days',
+          ));
         }
         break;
 
@@ -282,24 +410,28 @@ export class ValidationService {
       default:
         // Generic OTA rules
         if (data.rate && data.rate < 5) {
-          errors.push('Minimum rate of $5 required for OTA channels');
+          errors.push(this.issue('rate', 'CHANNEL_MIN_RATE', 'Minimum rate of $5 required for OTA channels'));
         }
         break;
     }
 
     // Check channel-specific rate parity rules
-    if (channel.type !== 'DIRECT' && data.rate) {
+    if (channel.code !== 'DIRECT' && data.rate) {
       const directRate = await this.databaseService.rateInventory.findFirst({
         where: {
           roomTypeId: data.roomTypeId,
           ratePlanId: data.ratePlanId,
           date: data.date,
-          channel: { type: 'DIRECT' },
+          channel: { code: 'DIRECT' },
         },
       });
 
       if (directRate && data.rate < directRate.rate * 0.95) {
-        errors.push('OTA rate cannot be more than 5% below direct rate (rate parity)');
+        errors.push(this.issue(
+          'rate',
+          'RATE_PARITY',
+          'OTA rate cannot be more than 5% below direct rate (rate parity)',
+        ));
       }
     }
   }
@@ -312,66 +444,174 @@ export class ValidationService {
     propertyId: string,
     roomType: any,
     ratePlan: any,
-    errors: string[],
+    errors: ValidationIssue[],
   ): Promise<void> {
     // Check for blackout dates
     const blackoutDate = await this.databaseService.blackoutDate.findFirst({
-      where: {
-        propertyId,
-        date: data.date,
-        isActive: true,
-      },
+      where: this.pricingRuleScope(propertyId, data.roomTypeId, data.ratePlanId, data.date),
     });
 
     if (blackoutDate) {
-      errors.push(`${data.date.toISOString().split('T')[0]} is a blackout date`);
+      errors.push(this.issue('date', 'BLACKOUT_DATE', `${data.date.toISOString().split('T')[0]} is a blackout date`));
+    }
+
+    // Rate plan, special event and seasonal floors/ceilings
+    errors.push(...await this.collectRateGuardrailIssues(
+      propertyId,
+      data.roomTypeId,
+      ratePlan,
+      data.date,
+      data.rate,
+    ));
+
+    // Check inventory against overbooking limits
+    if (data.inventory > roomType.totalRooms * 1.1) {
+      errors.push(this.issue('inventory', 'OVERBOOKING_LIMIT', 'Inventory exceeds 110% of total rooms (overbooking limit)'));
+    }
+  }
+
+  /**
+   * Check stay-through and advance booking restrictions
+   *
+   * Arrival restrictions apply to stays starting on the date, through
+   * restrictions to every stay including it, so an arrival has to satisfy
+   * both: the longest minimum may not exceed the shortest maximum.
+   */
+  private collectRestrictionIssues(values: RateInventoryValues, date: Date, today: Date): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (values.minStayThrough && values.maxStayThrough && values.minStayThrough > values.maxStayThrough) {
+      issues.push(this.issue(
+        'minStayThrough',
+        'MIN_STAY_THROUGH_EXCEEDS_MAX',
+        'Minimum stay through cannot be greater than maximum stay through',
+      ));
+    } else if (
+      (values.minStay && values.maxStayThrough && values.minStay > values.maxStayThrough)
+      || (values.minStayThrough && values.maxStay && values.minStayThrough > values.maxStay)
+    ) {
+      issues.push(this.issue(
+        'minStayThrough',
+        'STAY_WINDOW_EMPTY',
+        'Arrival and through stay restrictions leave no bookable length of stay',
+      ));
+    }
+
+    const minAdvance = values.minAdvanceBookingDays;
+    const maxAdvance = values.maxAdvanceBookingDays;
+
+    if (minAdvance !== undefined && minAdvance !== null && maxAdvance && minAdvance > maxAdvance) {
+      issues.push(this.issue(
+        'minAdvanceBookingDays',
+        'ADVANCE_WINDOW_INVALID',
+        'Minimum advance booking days cannot be greater than maximum advance booking days',
+      ));
+    }
+
+    // Arrivals closer than the minimum advance can no longer be booked
+    if (minAdvance && date) {
+      const daysOut = daysBetween(today, date);
+
+      if (daysOut < minAdvance) {
+        issues.push(this.issue(
+          'minAdvanceBookingDays',
+          'ADVANCE_WINDOW_PASSED',
+          `The date is ${Math.max(daysOut, 0)} days out, so a ${minAdvance}-day advance booking requirement closes it`,
+          'WARNING',
+        ));
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check a rate against the rate plan, special event and seasonal floors/ceilings
+   */
+  private async collectRateGuardrailIssues(
+    propertyId: string,
+    roomTypeId: string,
+    ratePlan: any,
+    date: Date,
+    rate: number,
+  ): Promise<ValidationIssue[]> {
+    const issues: ValidationIssue[] = [];
+
+    if (rate === undefined || rate === null) {
+      return issues;
+    }
+
+    const planMin = this.toRate(ratePlan?.minRate);
+    const planMax = this.toRate(ratePlan?.maxRate);
+
+    if (planMin !== null && rate < planMin) {
+      issues.push(this.issue('rate', 'RATE_PLAN_MIN_RATE', `Rate cannot be below minimum rate of $${planMin}`));
+    }
+
+    if (planMax !== null && rate > planMax) {
+      issues.push(this.issue('rate', 'RATE_PLAN_MAX_RATE', `Rate cannot exceed maximum rate of $${planMax}`));
     }
 
+    const scope = this.pricingRuleScope(propertyId, roomTypeId, ratePlan?.id, date);
+
     // Check for special events that might affect pricing
-    const specialEvent = await this.databaseService.specialEvent.findFirst({
-      where: {
-        propertyId,
-        startDate: { lte: data.date },
-        endDate: { gte: data.date },
-        isActive: true,
-      },
-    });
+    const specialEvents = await this.databaseService.specialEvent.findMany({ where: scope });
 
-    if (specialEvent && specialEvent.minRate && data.rate < specialEvent.minRate) {
-      errors.push(`Minimum rate of $${specialEvent.minRate} required during ${specialEvent.name}`);
+    for (const event of specialEvents) {
+      const eventMin = this.toRate(event.minRate);
+      const eventMax = this.toRate(event.maxRate);
+
+      if (eventMin !== null && rate < eventMin) {
+        issues.push(this.issue('rate', 'EVENT_MIN_RATE', `Minimum rate of $${eventMin} required during ${event.name}`));
+      }
+      if (eventMax !== null && rate > eventMax) {
+        issues.push(this.issue('rate', 'EVENT_MAX_RATE', `Maximum rate of $${eventMax} exceeded during ${event.name}`));
+      }
     }
 
     // Validate against seasonal pricing rules
-    const seasonalRule = await this.databaseService.seasonalPricing.findFirst({
-      where: {
-        propertyId,
-        roomTypeId: data.roomTypeId,
-        ratePlanId: data.ratePlanId,
-        startDate: { lte: data.date },
-        endDate: { gte: data.date },
-        isActive: true,
-      },
-    });
+    const seasonalRules = await this.databaseService.seasonalPricing.findMany({ where: scope });
+
+    for (const seasonalRule of seasonalRules) {
+      const seasonalMin = this.toRate(seasonalRule.minRate);
+      const seasonalMax = this.toRate(seasonalRule.maxRate);
 
-    if (seasonalRule) {
-      if (seasonalRule.minRate && data.rate < seasonalRule.minRate) {
-        errors.push(`Seasonal minimum rate of $${seasonalRule.minRate} required`);
+      if (seasonalMin !== null && rate < seasonalMin) {
+        issues.push(this.issue('rate', 'SEASONAL_MIN_RATE', `Seasonal minimum rate of $${seasonalMin} required`));
       }
-      if (seasonalRule.maxRate && data.rate > seasonalRule.maxRate) {
-        errors.push(`Seasonal maximum rate of $${seasonalRule.maxRate} exceeded`);
+      if (seasonalMax !== null && rate > seasonalMax) {
+        issues.push(this.issue('rate', 'SEASONAL_MAX_RATE', `Seasonal maximum rate of $${seasonalMax} exceeded`));
       }
     }
 
-    // Check inventory against overbooking limits
-    if (data.inventory > roomType.totalRooms * 1.1) {
-      errors.push('Inventory exceeds 110% of total rooms (overbooking limit)');
-    }
+    return issues;
+  }
+
+  /**
+   * Active pricing rules covering a date, scoped to a room type and rate plan
+   * (rules without a room type or rate plan apply to all of them)
+   */
+  private pricingRuleScope(propertyId: string, roomTypeId: string, ratePlanId: string, date: Date) {
+    return {
+      propertyId,
+      isActive: true,
+      startDate: { lte: date },
+      endDate: { gte: date },
+      AND: [
+        { OR: [{ roomTypeId: null }, { roomTypeId }] },
+        { OR: [{ ratePlanId: null }, { ratePlanId }] },
+      ],
+    };
+  }
+
+  private toRate(value: any): number | null {
+    return value === null || value === undefined ? null : parseFloat(value.toString());
   }
 
   /**
    * Validate date range for bulk operations
    */
-  validateDateRange(startDate: Date, endDate: Date): void {
+  async validateDateRange(propertyId: string, startDate: Date, endDate: Date): Promise<void> {
     const errors: string[] = [];
 
     if (startDate >= endDate) {
@@ -383,9 +623,8 @@ export class ValidationService {
       errors.push('Date range cannot exceed 365 days');
     }
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    if (endDate < today) {
+    const today = await this.businessDatesService.today(propertyId);
+    if (toDateOnly(endDate) < today) {
       errors.push('End date cannot be in the past');
     }
 
@@ -405,10 +644,92 @@ export class ValidationService {
     newRate: number,
     channelId: string,
   ): Promise<string[]> {
-    const warnings: string[] = [];
-
     // Get rates for the same room type, rate plan, and date across all channels
-    const existingRates = await this.databaseService.rateInventory.findMany({
+    const existingRates = await this.findOtherChannelRates(propertyId, roomTypeId, ratePlanId, date, channelId);
+
+    return this.compareChannelRates(newRate, existingRates).map(warning => warning.message);
+  }
+
+  /**
+   * Check rate consistency across every channel for a date range
+   *
+   * Each room type / rate plan / date is compared channel against channel;
+   * only records that drift from at least one other channel are returned.
+   */
+  async checkRateConsistencyRange(
+    propertyId: string,
+    startDate: Date,
+    endDate: Date,
+    filters: { roomTypeId?: string; ratePlanId?: string } = {},
+  ): Promise<RateConsistencyReport> {
+    if (startDate > endDate) {
+      throw new BadRequestException('Start date must not be after end date');
+    }
+
+    const daysDiff = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+    if (daysDiff > 365) {
+      throw new BadRequestException('Date range cannot exceed 365 days');
+    }
+
+    const records = await this.databaseService.rateInventory.findMany({
+      where: {
+        propertyId,
+        date: { gte: startDate, lte: endDate },
+        ...(filters.roomTypeId && { roomTypeId: filters.roomTypeId }),
+        ...(filters.ratePlanId && { ratePlanId: filters.ratePlanId }),
+      },
+      include: { channel: true },
+      orderBy: { date: 'asc' },
+    });
+
+    // Group the channels selling the same room type, rate plan and date
+    const groups = new Map<string, any[]>();
+    for (const record of records) {
+      const key = `${record.roomTypeId}|${record.ratePlanId}|${new Date(record.date).toISOString().split('T')[0]}`;
+      groups.set(key, [...(groups.get(key) ?? []), record]);
+    }
+
+    const results: RateConsistencyResult[] = [];
+    for (const group of groups.values()) {
+      if (group.length < 2) continue;
+
+      for (const record of group) {
+        const rate = parseFloat(record.rate.toString());
+        const warnings = this.compareChannelRates(rate, group.filter(other => other.id !== record.id));
+
+        if (warnings.length > 0) {
+          results.push({
+            id: record.id,
+            date: record.date,
+            roomTypeId: record.roomTypeId,
+            ratePlanId: record.ratePlanId,
+            channelId: record.channelId,
+            channelName: record.channel?.name,
+            rate,
+            warnings,
+          });
+        }
+      }
+    }
+
+    return {
+      propertyId,
+      startDate,
+      endDate,
+      checkedCount: records.length,
+      inconsistentCount: results.length,
+      results,
+    };
+  }
+
+  private async findOtherChannelRates(
+    propertyId: string,
+    roomTypeId: string,
+    ratePlanId: string,
+    date: Date,
+    channelId: string,
+  ) {
+    return this.databaseService.rateInventory.findMany({
       where: {
         propertyId,
         roomTypeId,
@@ -418,17 +739,36 @@ export class ValidationService {
       },
       include: { channel: true },
     });
+  }
+
+  private compareChannelRates(newRate: number, otherRates: any[]): ValidationIssue[] {
+    const warnings: ValidationIssue[] = [];
+
+    for (const other of otherRates) {
+      const otherRate = parseFloat(other.rate.toString());
+      if (!otherRate) continue;
 
-    for (const rate of existingRates) {
-      const priceDiff = Math.abs(newRate - rate.rate) / rate.rate;
-      
-      if (priceDiff > 0.2) { // More than 20% difference
-        warnings.push(
-          `Rate differs by ${(priceDiff * 100).toFixed(1)}% from ${rate.channel.name} ($${rate.rate})`
-        );
+      const priceDiff = Math.abs(newRate - otherRate) / otherRate;
+
+      if (priceDiff > RATE_DEVIATION_THRESHOLD) {
+        warnings.push(this.issue(
+          'rate',
+          'RATE_CHANNEL_DEVIATION',
+          `Rate differs by ${(priceDiff * 100).toFixed(1)}% from ${other.channel?.name ?? other.channelId} ($${otherRate})`,
+          'WARNING',
+        ));
       }
     }
 
     return warnings;
   }
+
+  private issue(
+    field: string,
+    code: string,
+    message: string,
+    severity: ValidationSeverity = 'ERROR',
+  ): ValidationIssue {
+    return { field, code, message, severity };
+  }
 } 
\ No newline at end of file
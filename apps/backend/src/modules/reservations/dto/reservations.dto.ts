@@ -0,0 +1,104 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Reservation Status
+ */
+export enum ReservationStatus {
+  CONFIRMED = 'CONFIRMED',
+  MODIFIED = 'MODIFIED',
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Where a reservation was ingested from
+ */
+export enum ReservationSource {
+  CHANNEL_PULL = 'CHANNEL_PULL',
+  FILE_IMPORT = 'FILE_IMPORT',
+  FILE_DROP = 'FILE_DROP',
+}
+
+/**
+ * Reservation Query DTO
+ */
+export class ReservationQueryDto {
+  @ApiProperty({ example: '2024-03-01', required: false, description: 'Earliest arrival date' })
+  @IsOptional()
+  @IsDateString()
+  arrivalFrom?: string;
+
+  @ApiProperty({ example: '2024-03-31', required: false, description: 'Latest arrival date' })
+  @IsOptional()
+  @IsDateString()
+  arrivalTo?: string;
+
+  @ApiProperty({ enum: ReservationStatus, required: false })
+  @IsOptional()
+  @IsEnum(ReservationStatus)
+  status?: ReservationStatus;
+
+  @ApiProperty({ example: 'channel-id', required: false })
+  @IsOptional()
+  @IsString()
+  channelId?: string;
+
+  @ApiProperty({ example: 100, required: false, description: 'Most recently booked reservations to return (max 500)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  @Type(() => Number)
+  limit?: number;
+}
+
+/**
+ * Performance Query DTO
+ */
+export class PerformanceQueryDto {
+  @ApiProperty({ example: '2024-03-01' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({ example: '2024-03-31' })
+  @IsDateString()
+  endDate: string;
+
+  @ApiProperty({ example: 'room-type-id', required: false })
+  @IsOptional()
+  @IsString()
+  roomTypeId?: string;
+}
+
+/**
+ * Booking Pace Query DTO
+ */
+export class BookingPaceQueryDto {
+  @ApiProperty({ example: '2024-03-15', description: 'Stay date' })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty({ example: 'room-type-id', required: false })
+  @IsOptional()
+  @IsString()
+  roomTypeId?: string;
+}
+
+/**
+ * Capture Snapshot DTO
+ */
+export class CaptureSnapshotDto {
+  @ApiProperty({ example: '2024-03-01', required: false, description: 'Snapshot date, defaults to today' })
+  @IsOptional()
+  @IsDateString()
+  snapshotDate?: string;
+}
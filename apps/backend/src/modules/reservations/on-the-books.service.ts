@@ -0,0 +1,402 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import { toDateOnly } from '../../common/dates/business-date';
+import { BusinessDatesService } from '../business-dates/business-dates.service';
+import { HistoricalPerformance } from '../ai-insights/recommendation.engine';
+
+export interface SnapshotSummary {
+  propertyId: string;
+  snapshotDate: string; // YYYY-MM-DD
+  rows: number;
+  roomsOnBooks: number;
+  pickup: number;
+}
+
+export interface DailyPerformance {
+  date: string; // YYYY-MM-DD
+  roomsSold: number;
+  capacity: number;
+  revenue: number;
+  occupancy: number; // percent
+  adr: number | null;
+  revpar: number | null;
+  pickup1Day: number | null;
+  pickup7Day: number | null;
+}
+
+export interface BookingPace {
+  stayDate: string; // YYYY-MM-DD
+  roomTypeId: string | null;
+  daysOut: number;
+  roomsOnBooks: number;
+  roomsOnBooksLastYear: number;
+  pickup7Day: number;
+  vsLastYear: number | null; // percent vs. same lead time last year
+  vsForecast: number | null;
+  velocityTrend: 'accelerating' | 'steady' | 'declining';
+  criticalBookingWindow: boolean;
+  pickupVsCompSet: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNAPSHOT_HORIZON_DAYS = 365;
+const MAX_PERFORMANCE_DAYS = 366;
+const LAST_YEAR_OFFSET_DAYS = 364; // Same weekday one year back
+const CRITICAL_WINDOW_DAYS = 14;
+const HISTORY_WEEKS = 8;
+const TREND_WINDOW_DAYS = 28;
+const TREND_THRESHOLD = 5; // Occupancy points
+
+/**
+ * On-the-Books Service
+ *
+ * Occupancy, ADR, RevPAR and pickup from stay nights:
+ * - Daily snapshots of rooms and revenue on the books per room type and stay date
+ * - Per-date performance with 1 and 7 day pickup
+ * - Booking pace against the same lead time last year
+ * - Historical performance for the recommendation engine
+ */
+@Injectable()
+export class OnTheBooksService {
+  private readonly logger = new Logger(OnTheBooksService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly businessDatesService: BusinessDatesService,
+  ) {}
+
+  /**
+   * Capture the on-the-books position of active properties for yesterday onward,
+   * as of each property's business date unless a snapshot date is given
+   */
+  async captureSnapshots(propertyId?: string, snapshotDate?: Date): Promise<SnapshotSummary[]> {
+    const where: any = { isActive: true };
+    if (propertyId) {
+      where.id = propertyId;
+    }
+
+    const properties = await this.databaseService.property.findMany({ where });
+    const summaries: SnapshotSummary[] = [];
+
+    for (const property of properties) {
+      const asOf = snapshotDate
+        ? toDateOnly(snapshotDate)
+        : await this.businessDatesService.today(property.id);
+      summaries.push(await this.captureSnapshot(property.id, asOf));
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Per-date occupancy, ADR, RevPAR and pickup of a property
+   */
+  async getPerformance(
+    propertyId: string,
+    startDate: Date,
+    endDate: Date,
+    roomTypeId?: string,
+  ): Promise<DailyPerformance[]> {
+    const start = toDateOnly(startDate);
+    const end = toDateOnly(endDate);
+    const days = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+
+    if (days < 1) {
+      throw new BadRequestException('End date must not be before start date');
+    }
+    if (days > MAX_PERFORMANCE_DAYS) {
+      throw new BadRequestException(`Performance can be requested for at most ${MAX_PERFORMANCE_DAYS} days`);
+    }
+
+    const today = await this.businessDatesService.today(propertyId);
+    const roomTypeFilter = roomTypeId ? { roomTypeId } : {};
+
+    const [capacity, nights, snapshots] = await Promise.all([
+      this.getCapacity(propertyId, roomTypeId),
+      this.databaseService.stayNight.groupBy({
+        by: ['stayDate'],
+        where: { propertyId, ...roomTypeFilter, stayDate: { gte: start, lte: end }, cancelledAt: null },
+        _sum: { rooms: true, revenue: true },
+      }),
+      this.databaseService.onTheBooksSnapshot.groupBy({
+        by: ['snapshotDate', 'stayDate'],
+        where: {
+          propertyId,
+          ...roomTypeFilter,
+          stayDate: { gte: start, lte: end },
+          snapshotDate: { in: [this.addDays(today, -1), this.addDays(today, -7)] },
+        },
+        _sum: { roomsSold: true },
+      }),
+    ]);
+
+    const soldByDate = new Map<string, { rooms: number; revenue: number }>(
+      nights.map(n => [this.formatDate(n.stayDate), {
+        rooms: n._sum.rooms ?? 0,
+        revenue: n._sum.revenue ? parseFloat(n._sum.revenue.toString()) : 0,
+      }]),
+    );
+    const snapshotRooms = (snapshotDate: Date, stayDate: string): number | undefined =>
+      snapshots.find(s =>
+        this.formatDate(s.snapshotDate) === this.formatDate(snapshotDate) &&
+        this.formatDate(s.stayDate) === stayDate,
+      )?._sum.roomsSold;
+
+    return Array.from({ length: days }, (_, offset) => {
+      const stayDate = this.addDays(start, offset);
+      const date = this.formatDate(stayDate);
+      const sold = soldByDate.get(date) ?? { rooms: 0, revenue: 0 };
+      const isFuture = stayDate.getTime() >= today.getTime();
+      const yesterdayRooms = snapshotRooms(this.addDays(today, -1), date);
+      const lastWeekRooms = snapshotRooms(this.addDays(today, -7), date);
+
+      return {
+        date,
+        roomsSold: sold.rooms,
+        capacity,
+        revenue: this.round(sold.revenue),
+        occupancy: capacity ? this.round((sold.rooms / capacity) * 100, 1) : 0,
+        adr: sold.rooms ? this.round(sold.revenue / sold.rooms) : null,
+        revpar: capacity ? this.round(sold.revenue / capacity) : null,
+        pickup1Day: isFuture && yesterdayRooms !== undefined ? sold.rooms - yesterdayRooms : null,
+        pickup7Day: isFuture && lastWeekRooms !== undefined ? sold.rooms - lastWeekRooms : null,
+      };
+    });
+  }
+
+  /**
+   * Booking pace of a stay date against the same lead time last year
+   */
+  async getBookingPace(propertyId: string, stayDate: Date, roomTypeId?: string): Promise<BookingPace> {
+    const stay = toDateOnly(stayDate);
+    const now = new Date();
+    const today = await this.businessDatesService.today(propertyId, now);
+    const daysOut = Math.round((stay.getTime() - today.getTime()) / DAY_MS);
+
+    const [roomsOnBooks, roomsOnBooksLastYear, roomsWeekAgo, roomsTwoWeeksAgo] = await Promise.all([
+      this.roomsOnBooksAsOf(propertyId, stay, now, roomTypeId),
+      this.roomsOnBooksAsOf(
+        propertyId,
+        this.addDays(stay, -LAST_YEAR_OFFSET_DAYS),
+        this.addDays(now, -LAST_YEAR_OFFSET_DAYS),
+        roomTypeId,
+      ),
+      this.roomsOnBooksAsOf(propertyId, stay, this.addDays(now, -7), roomTypeId),
+      this.roomsOnBooksAsOf(propertyId, stay, this.addDays(now, -14), roomTypeId),
+    ]);
+
+    const pickup7Day = roomsOnBooks - roomsWeekAgo;
+    const previousPickup = roomsWeekAgo - roomsTwoWeeksAgo;
+
+    return {
+      stayDate: this.formatDate(stay),
+      roomTypeId: roomTypeId ?? null,
+      daysOut,
+      roomsOnBooks,
+      roomsOnBooksLastYear,
+      pickup7Day,
+      vsLastYear: roomsOnBooksLastYear
+        ? this.round(((roomsOnBooks - roomsOnBooksLastYear) / roomsOnBooksLastYear) * 100, 1)
+        : null,
+      vsForecast: null, // No demand forecast yet
+      velocityTrend: this.velocityTrend(pickup7Day, previousPickup),
+      criticalBookingWindow: daysOut >= 0 && daysOut <= CRITICAL_WINDOW_DAYS,
+      pickupVsCompSet: null, // Competitor pickup is not available from rate shopping
+    };
+  }
+
+  /**
+   * Occupancy and ADR of the same weekday over recent weeks, with the trend
+   * of the last four weeks against the same weeks last year; null without history.
+   * Backtests pass an earlier as-of date to see only what was known then
+   */
+  async getHistoricalPerformance(
+    propertyId: string,
+    roomTypeId: string,
+    date: Date,
+    asOf?: Date,
+  ): Promise<HistoricalPerformance | null> {
+    const today = asOf ? toDateOnly(asOf) : await this.businessDatesService.today(propertyId);
+    const historyStart = this.addDays(today, -HISTORY_WEEKS * 7);
+    const trendStart = this.addDays(today, -TREND_WINDOW_DAYS);
+    const weekday = toDateOnly(date).getUTCDay();
+
+    const [capacity, recentNights, lastYearNights] = await Promise.all([
+      this.getCapacity(propertyId, roomTypeId),
+      this.databaseService.stayNight.groupBy({
+        by: ['stayDate'],
+        where: { propertyId, roomTypeId, stayDate: { gte: historyStart, lt: today }, cancelledAt: null },
+        _sum: { rooms: true, revenue: true },
+      }),
+      this.databaseService.stayNight.aggregate({
+        where: {
+          propertyId,
+          roomTypeId,
+          stayDate: {
+            gte: this.addDays(trendStart, -LAST_YEAR_OFFSET_DAYS),
+            lt: this.addDays(today, -LAST_YEAR_OFFSET_DAYS),
+          },
+          cancelledAt: null,
+        },
+        _sum: { rooms: true },
+      }),
+    ]);
+
+    if (!capacity || !recentNights.length) {
+      return null;
+    }
+
+    const sameWeekday = recentNights.filter(n => new Date(n.stayDate).getUTCDay() === weekday);
+    const sample = sameWeekday.length ? sameWeekday : recentNights;
+    const sampleDays = sameWeekday.length ? HISTORY_WEEKS : HISTORY_WEEKS * 7;
+    const rooms = sample.reduce((sum, n) => sum + (n._sum.rooms ?? 0), 0);
+    const revenue = sample.reduce((sum, n) => sum + (n._sum.revenue ? parseFloat(n._sum.revenue.toString()) : 0), 0);
+
+    const recentRooms = recentNights
+      .filter(n => new Date(n.stayDate).getTime() >= trendStart.getTime())
+      .reduce((sum, n) => sum + (n._sum.rooms ?? 0), 0);
+    const lastYearRooms = lastYearNights._sum?.rooms ?? 0;
+    const occupancyChange = ((recentRooms - lastYearRooms) / (capacity * TREND_WINDOW_DAYS)) * 100;
+
+    return {
+      averageOccupancy: this.round((rooms / (capacity * sampleDays)) * 100, 1),
+      averageAdr: rooms ? this.round(revenue / rooms) : 0,
+      seasonalTrend: !lastYearRooms
+        ? 'stable'
+        : occupancyChange > TREND_THRESHOLD ? 'up' : occupancyChange < -TREND_THRESHOLD ? 'down' : 'stable',
+    };
+  }
+
+  // Private helper methods
+
+  private async captureSnapshot(propertyId: string, snapshotDate: Date): Promise<SnapshotSummary> {
+    const firstStayDate = this.addDays(snapshotDate, -1);
+    const lastStayDate = this.addDays(snapshotDate, SNAPSHOT_HORIZON_DAYS);
+    const asOf = this.addDays(snapshotDate, 1); // End of the snapshot day
+    const stayDateRange = { gte: firstStayDate, lte: lastStayDate };
+
+    const [roomTypes, sold, previous] = await Promise.all([
+      this.databaseService.roomType.findMany({ where: { propertyId, isActive: true } }),
+      this.databaseService.stayNight.groupBy({
+        by: ['roomTypeId', 'stayDate'],
+        where: {
+          propertyId,
+          stayDate: stayDateRange,
+          bookedAt: { lt: asOf },
+          OR: [{ cancelledAt: null }, { cancelledAt: { gte: asOf } }],
+        },
+        _sum: { rooms: true, revenue: true },
+      }),
+      this.databaseService.onTheBooksSnapshot.findFirst({
+        where: { propertyId, snapshotDate: { lt: snapshotDate } },
+        orderBy: { snapshotDate: 'desc' },
+        select: { snapshotDate: true },
+      }),
+    ]);
+
+    const previousRows = previous
+      ? await this.databaseService.onTheBooksSnapshot.findMany({
+          where: { propertyId, snapshotDate: previous.snapshotDate, stayDate: stayDateRange },
+          select: { roomTypeId: true, stayDate: true, roomsSold: true },
+        })
+      : [];
+
+    const key = (roomTypeId: string, stayDate: Date) => `${roomTypeId}|${this.formatDate(stayDate)}`;
+    const soldByKey = new Map(sold.map(s => [key(s.roomTypeId, s.stayDate), s._sum]));
+    const previousByKey = new Map<string, number>(previousRows.map(p => [key(p.roomTypeId, p.stayDate), p.roomsSold]));
+
+    const rows = [];
+    for (const roomType of roomTypes) {
+      for (let offset = 0; offset <= SNAPSHOT_HORIZON_DAYS + 1; offset++) {
+        const stayDate = this.addDays(firstStayDate, offset);
+        const totals = soldByKey.get(key(roomType.id, stayDate));
+        const roomsSold = totals?.rooms ?? 0;
+
+        rows.push({
+          propertyId,
+          roomTypeId: roomType.id,
+          snapshotDate,
+          stayDate,
+          roomsSold,
+          revenue: totals?.revenue ? parseFloat(totals.revenue.toString()) : 0,
+          capacity: roomType.totalRooms ?? 0,
+          pickup: previous ? roomsSold - (previousByKey.get(key(roomType.id, stayDate)) ?? 0) : 0,
+        });
+      }
+    }
+
+    // Re-capturing a day replaces its snapshot
+    await this.databaseService.$transaction(async (tx) => {
+      await tx.onTheBooksSnapshot.deleteMany({ where: { propertyId, snapshotDate } });
+      if (rows.length) {
+        await tx.onTheBooksSnapshot.createMany({ data: rows });
+      }
+    });
+
+    const summary: SnapshotSummary = {
+      propertyId,
+      snapshotDate: this.formatDate(snapshotDate),
+      rows: rows.length,
+      roomsOnBooks: rows.reduce((sum, row) => sum + row.roomsSold, 0),
+      pickup: rows.reduce((sum, row) => sum + row.pickup, 0),
+    };
+
+    this.logger.log(
+      `Captured on-the-books snapshot ${summary.snapshotDate} for property ${propertyId}: ` +
+      `${summary.roomsOnBooks} room nights, pickup ${summary.pickup}`,
+    );
+
+    return summary;
+  }
+
+  /**
+   * Rooms on the books for a stay date as they stood at a point in time
+   */
+  private async roomsOnBooksAsOf(
+    propertyId: string,
+    stayDate: Date,
+    asOf: Date,
+    roomTypeId?: string,
+  ): Promise<number> {
+    const totals = await this.databaseService.stayNight.aggregate({
+      where: {
+        propertyId,
+        ...(roomTypeId ? { roomTypeId } : {}),
+        stayDate,
+        bookedAt: { lte: asOf },
+        OR: [{ cancelledAt: null }, { cancelledAt: { gt: asOf } }],
+      },
+      _sum: { rooms: true },
+    });
+
+    return totals._sum?.rooms ?? 0;
+  }
+
+  private async getCapacity(propertyId: string, roomTypeId?: string): Promise<number> {
+    const roomTypes = await this.databaseService.roomType.findMany({
+      where: { propertyId, isActive: true, ...(roomTypeId ? { id: roomTypeId } : {}) },
+    });
+
+    return roomTypes.reduce((sum, roomType) => sum + (roomType.totalRooms ?? 0), 0);
+  }
+
+  private velocityTrend(pickup: number, previousPickup: number): BookingPace['velocityTrend'] {
+    if (pickup > previousPickup * 1.1 && pickup > previousPickup) return 'accelerating';
+    if (pickup < previousPickup * 0.9 && pickup < previousPickup) return 'declining';
+    return 'steady';
+  }
+
+  private addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * DAY_MS);
+  }
+
+  private formatDate(date: Date | string): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+
+  private round(value: number, decimals = 2): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
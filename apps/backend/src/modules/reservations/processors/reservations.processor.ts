@@ -0,0 +1,75 @@
+import { Logger, OnModuleInit } from '@nestjs/common';
+import { Process, Processor, InjectQueue } from '@nestjs/bull';
+import { Job, Queue } from 'bull';
+
+import { ReservationIngestionService } from '../reservation-ingestion.service';
+import { OnTheBooksService } from '../on-the-books.service';
+
+export const RESERVATIONS_QUEUE = 'reservations';
+
+const CHANNEL_PULL_INTERVAL_MS = 15 * 60 * 1000;
+const DROP_FOLDER_SCAN_INTERVAL_MS = 5 * 60 * 1000;
+const SNAPSHOT_CRON = '15 2 * * *'; // Daily, after the night's last pickup
+
+/**
+ * Reservations Processor
+ *
+ * Runs the repeating reservation jobs:
+ * - Pulls reservations from channels that support it
+ * - Imports files from the reservation drop folder
+ * - Captures the daily on-the-books snapshots
+ */
+@Processor(RESERVATIONS_QUEUE)
+export class ReservationsProcessor implements OnModuleInit {
+  private readonly logger = new Logger(ReservationsProcessor.name);
+
+  constructor(
+    private readonly ingestionService: ReservationIngestionService,
+    private readonly onTheBooksService: OnTheBooksService,
+    @InjectQueue(RESERVATIONS_QUEUE) private readonly reservationsQueue: Queue,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.reservationsQueue.add(
+        'pull-channels',
+        {},
+        { jobId: 'reservations-pull-channels', repeat: { every: CHANNEL_PULL_INTERVAL_MS } },
+      );
+      await this.reservationsQueue.add(
+        'scan-drop-folder',
+        {},
+        { jobId: 'reservations-scan-drop-folder', repeat: { every: DROP_FOLDER_SCAN_INTERVAL_MS } },
+      );
+      await this.reservationsQueue.add(
+        'capture-snapshots',
+        {},
+        { jobId: 'reservations-capture-snapshots', repeat: { cron: SNAPSHOT_CRON } },
+      );
+    } catch (error) {
+      this.logger.warn(`Could not schedule reservation jobs: ${error.message}`);
+    }
+  }
+
+  @Process('pull-channels')
+  async handleChannelPull(job: Job) {
+    const results = await this.ingestionService.pullChannelReservations();
+    const failed = results.filter(result => result.error).length;
+    this.logger.debug(`Reservation pull ${job.id}: ${results.length} channels, ${failed} failed`);
+    return { channels: results.length, failed };
+  }
+
+  @Process('scan-drop-folder')
+  async handleDropFolder(job: Job) {
+    const results = await this.ingestionService.processDropFolder();
+    this.logger.debug(`Reservation drop folder scan ${job.id}: ${results.length} files`);
+    return { files: results.length, failed: results.filter(result => !result.processed).length };
+  }
+
+  @Process('capture-snapshots')
+  async handleSnapshots(job: Job) {
+    const summaries = await this.onTheBooksService.captureSnapshots();
+    this.logger.debug(`On-the-books snapshot ${job.id}: ${summaries.length} properties`);
+    return { properties: summaries.length };
+  }
+}
@@ -0,0 +1,330 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import { DatabaseService } from '../database/database.service';
+import { SyncService } from '../channel-manager/sync.service';
+import { ChannelProviderRegistry } from '../channel-manager/channel-provider.registry';
+import { ChannelReservation } from '../channel-manager/interfaces/channel-provider.interface';
+import { parseTabularFile, TABULAR_FILE_EXTENSIONS } from '../../common/files/tabular-file.parser';
+import {
+  IngestionResult,
+  ReservationInput,
+  ReservationsService,
+} from './reservations.service';
+import { ReservationSource, ReservationStatus } from './dto/reservations.dto';
+
+export interface ChannelPullResult {
+  propertyId: string;
+  channelId: string;
+  channelName: string;
+  result: IngestionResult | null;
+  error: string | null;
+}
+
+export interface DropFileResult {
+  fileName: string;
+  processed: boolean;
+  results: Array<{ propertyCode: string; result: IngestionResult | null; error: string | null }>;
+  error: string | null;
+}
+
+type ReservationColumn = keyof Omit<ReservationInput, 'rowNumber'> | 'propertyCode';
+
+const DEFAULT_PULL_LOOKBACK_DAYS = 7;
+const MAX_RESERVATION_ROWS = 5000;
+const REQUIRED_COLUMNS: ReservationColumn[] = [
+  'confirmationNumber',
+  'roomTypeCode',
+  'arrivalDate',
+  'departureDate',
+  'totalRevenue',
+];
+
+// Normalised header spellings of each reservation file column
+const COLUMN_ALIASES: Record<ReservationColumn, string[]> = {
+  confirmationNumber: ['confirmationnumber', 'confirmation', 'reservationid', 'reference'],
+  propertyCode: ['propertycode', 'property', 'hotelcode'],
+  roomTypeCode: ['roomtypecode', 'roomtype', 'roomcode'],
+  ratePlanCode: ['rateplancode', 'rateplan', 'ratecode'],
+  channelCode: ['channelcode', 'channel', 'source'],
+  status: ['status', 'reservationstatus'],
+  guestName: ['guestname', 'guest'],
+  bookedAt: ['bookedat', 'bookingdate', 'booked', 'createdat'],
+  arrivalDate: ['arrivaldate', 'arrival', 'checkin'],
+  departureDate: ['departuredate', 'departure', 'checkout'],
+  rooms: ['rooms', 'roomcount', 'numberofrooms'],
+  totalRevenue: ['totalrevenue', 'revenue', 'totalamount', 'amount'],
+  currency: ['currency', 'currencycode'],
+};
+
+/**
+ * Reservation Ingestion Service
+ *
+ * Feeds reservations into the on-the-books model from every source:
+ * - Incremental pulls from channels whose provider supports them
+ * - CSV/XLSX uploads for a single property
+ * - A drop folder of CSV/XLSX exports covering many properties
+ */
+@Injectable()
+export class ReservationIngestionService {
+  private readonly logger = new Logger(ReservationIngestionService.name);
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly configService: ConfigService,
+    private readonly reservationsService: ReservationsService,
+    private readonly syncService: SyncService,
+    private readonly providerRegistry: ChannelProviderRegistry,
+  ) {}
+
+  /**
+   * Pull reservations changed since the last pull from every channel that supports it
+   */
+  async pullChannelReservations(propertyId?: string): Promise<ChannelPullResult[]> {
+    const where: any = { syncEnabled: true };
+    if (propertyId) {
+      where.propertyId = propertyId;
+    }
+
+    const mappings = await this.databaseService.channelMapping.findMany({
+      where,
+      include: { channel: true },
+    });
+
+    const results: ChannelPullResult[] = [];
+
+    for (const mapping of mappings) {
+      const providerType = mapping.channel?.providerType;
+      if (!providerType || !this.providerRegistry.has(providerType)) {
+        continue;
+      }
+
+      const provider = this.providerRegistry.get(providerType);
+      if (!provider.capabilities.pullReservations) {
+        continue;
+      }
+
+      const pulledAt = new Date();
+      const since = mapping.lastReservationPullAt
+        ?? new Date(pulledAt.getTime() - DEFAULT_PULL_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+      try {
+        const channelConfig = await this.syncService.getChannelConfig(mapping.propertyId, mapping.channelId);
+        const reservations = await provider.pullReservations(channelConfig, new Date(since));
+        const inputs = reservations.map(reservation =>
+          this.fromChannelReservation(reservation, channelConfig.roomTypeMappings, channelConfig.ratePlanMappings),
+        );
+
+        const result = await this.reservationsService.ingest(mapping.propertyId, inputs, {
+          source: ReservationSource.CHANNEL_PULL,
+          channelId: mapping.channelId,
+        });
+
+        await this.databaseService.channelMapping.update({
+          where: { id: mapping.id },
+          data: { lastReservationPullAt: pulledAt },
+        });
+
+        results.push({
+          propertyId: mapping.propertyId,
+          channelId: mapping.channelId,
+          channelName: mapping.channel.name,
+          result,
+          error: null,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Reservation pull from ${mapping.channel.name} for property ${mapping.propertyId} failed: ${error.message}`,
+        );
+        results.push({
+          propertyId: mapping.propertyId,
+          channelId: mapping.channelId,
+          channelName: mapping.channel.name,
+          result: null,
+          error: error.message,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Import an uploaded reservation file into one property
+   */
+  async importFile(propertyId: string, file: Express.Multer.File, userId: string): Promise<IngestionResult> {
+    if (!file) {
+      throw new BadRequestException('A reservation file is required');
+    }
+
+    const inputs = await this.parseReservationFile(file.buffer, file.originalname);
+
+    return this.reservationsService.ingest(propertyId, inputs.map(({ input }) => input), {
+      source: ReservationSource.FILE_IMPORT,
+      userId,
+      fileName: file.originalname,
+    });
+  }
+
+  /**
+   * Import every file in the drop folder, then move it to processed/ or failed/
+   */
+  async processDropFolder(): Promise<DropFileResult[]> {
+    const dropDir = this.configService.get<string>('RESERVATION_DROP_DIR');
+    if (!dropDir) {
+      return [];
+    }
+
+    const entries = await fs.readdir(dropDir, { withFileTypes: true });
+    const files = entries
+      .filter(entry => entry.isFile())
+      .map(entry => entry.name)
+      .filter(name => TABULAR_FILE_EXTENSIONS.includes(name.split('.').pop()?.toLowerCase() ?? ''))
+      .sort();
+
+    const results: DropFileResult[] = [];
+
+    for (const fileName of files) {
+      const filePath = path.join(dropDir, fileName);
+      const fileResult: DropFileResult = { fileName, processed: false, results: [], error: null };
+
+      try {
+        const inputs = await this.parseReservationFile(await fs.readFile(filePath), fileName, true);
+        const byProperty = new Map<string, ReservationInput[]>();
+        for (const { propertyCode, input } of inputs) {
+          byProperty.set(propertyCode, [...(byProperty.get(propertyCode) ?? []), input]);
+        }
+
+        for (const [propertyCode, propertyInputs] of byProperty) {
+          const property = await this.databaseService.property.findUnique({ where: { code: propertyCode } });
+          if (!property) {
+            fileResult.results.push({ propertyCode, result: null, error: `Unknown property code ${propertyCode}` });
+            continue;
+          }
+
+          const result = await this.reservationsService.ingest(property.id, propertyInputs, {
+            source: ReservationSource.FILE_DROP,
+            fileName,
+          });
+          fileResult.results.push({ propertyCode, result, error: null });
+        }
+
+        fileResult.processed = true;
+      } catch (error) {
+        this.logger.error(`Reservation drop file ${fileName} could not be imported: ${error.message}`);
+        fileResult.error = error.message;
+      }
+
+      await this.moveDropFile(dropDir, fileName, fileResult.processed ? 'processed' : 'failed');
+      results.push(fileResult);
+    }
+
+    return results;
+  }
+
+  // Private helper methods
+
+  private async parseReservationFile(
+    buffer: Buffer,
+    fileName: string,
+    requirePropertyCode = false,
+  ): Promise<Array<{ propertyCode: string; input: ReservationInput }>> {
+    const [header, ...rows] = (await parseTabularFile(buffer, fileName))
+      .filter(row => row.some(cell => cell.trim() !== ''));
+
+    if (!header) {
+      throw new BadRequestException('The reservation file is empty');
+    }
+    if (rows.length > MAX_RESERVATION_ROWS) {
+      throw new BadRequestException(`Reservation files are limited to ${MAX_RESERVATION_ROWS} rows`);
+    }
+
+    const columns = this.mapColumns(header);
+    const required = requirePropertyCode ? [...REQUIRED_COLUMNS, 'propertyCode' as const] : REQUIRED_COLUMNS;
+    const missing = required.filter(column => columns[column] === undefined);
+    if (missing.length) {
+      throw new BadRequestException(`Missing reservation columns: ${missing.join(', ')}`);
+    }
+
+    const importedAt = new Date().toISOString();
+
+    return rows.map((row, index) => {
+      const cell = (column: ReservationColumn) =>
+        columns[column] !== undefined ? (row[columns[column]] ?? '').trim() : '';
+      const status = cell('status').toUpperCase();
+
+      return {
+        propertyCode: cell('propertyCode'),
+        input: {
+          confirmationNumber: cell('confirmationNumber'),
+          status: (Object.values(ReservationStatus) as string[]).includes(status)
+            ? status as ReservationStatus
+            : ReservationStatus.CONFIRMED,
+          roomTypeCode: cell('roomTypeCode'),
+          ratePlanCode: cell('ratePlanCode') || undefined,
+          channelCode: cell('channelCode') || undefined,
+          guestName: cell('guestName') || undefined,
+          bookedAt: cell('bookedAt') || importedAt,
+          arrivalDate: cell('arrivalDate'),
+          departureDate: cell('departureDate'),
+          rooms: cell('rooms') ? Number(cell('rooms')) : 1,
+          totalRevenue: Number(cell('totalRevenue')),
+          currency: cell('currency') || undefined,
+          rowNumber: index + 2, // 1-based, after the header row
+        },
+      };
+    });
+  }
+
+  private mapColumns(header: string[]): Partial<Record<ReservationColumn, number>> {
+    const normalized = header.map(column => column.toLowerCase().replace(/[^a-z0-9]/g, ''));
+    const columns: Partial<Record<ReservationColumn, number>> = {};
+
+    (Object.keys(COLUMN_ALIASES) as ReservationColumn[]).forEach(column => {
+      const index = normalized.findIndex(name => COLUMN_ALIASES[column].includes(name));
+      if (index !== -1 && !Object.values(columns).includes(index)) {
+        columns[column] = index;
+      }
+    });
+
+    return columns;
+  }
+
+  /**
+   * Translate channel-side room and rate codes back to ours; codes without a
+   * mapping are assumed to already be ours
+   */
+  private fromChannelReservation(
+    reservation: ChannelReservation,
+    roomTypeMappings: Record<string, string> = {},
+    ratePlanMappings: Record<string, string> = {},
+  ): ReservationInput {
+    const unmap = (code: string, mappings: Record<string, string>) =>
+      Object.keys(mappings).find(ours => mappings[ours] === code) ?? code;
+
+    return {
+      confirmationNumber: reservation.channelReservationId,
+      status: reservation.status as ReservationStatus,
+      roomTypeCode: unmap(reservation.roomCode, roomTypeMappings),
+      ratePlanCode: reservation.rateCode ? unmap(reservation.rateCode, ratePlanMappings) : undefined,
+      guestName: reservation.guestName,
+      bookedAt: reservation.bookedAt,
+      arrivalDate: reservation.arrivalDate,
+      departureDate: reservation.departureDate,
+      rooms: reservation.rooms,
+      totalRevenue: reservation.totalAmount,
+      currency: reservation.currency,
+    };
+  }
+
+  private async moveDropFile(dropDir: string, fileName: string, folder: 'processed' | 'failed'): Promise<void> {
+    const targetDir = path.join(dropDir, folder);
+    await fs.mkdir(targetDir, { recursive: true });
+    await fs.rename(
+      path.join(dropDir, fileName),
+      path.join(targetDir, `${new Date().toISOString().replace(/[:.]/g, '-')}_${fileName}`),
+    );
+  }
+}
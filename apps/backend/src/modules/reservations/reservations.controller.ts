@@ -0,0 +1,152 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+
+import { ReservationsService } from './reservations.service';
+import { ReservationIngestionService } from './reservation-ingestion.service';
+import { OnTheBooksService } from './on-the-books.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { RequestUser } from '../auth/interfaces/auth.interface';
+import { UserRole } from '../auth/enums/user-role.enum';
+
+import {
+  ReservationQueryDto,
+  PerformanceQueryDto,
+  BookingPaceQueryDto,
+  CaptureSnapshotDto,
+} from './dto/reservations.dto';
+
+const MAX_RESERVATION_FILE_SIZE = 5 * 1024 * 1024; // bytes
+
+/**
+ * Reservations Controller
+ *
+ * REST API endpoints for bookings and on-the-books reporting:
+ * - Reservation listing, file import and on-demand channel pulls
+ * - Occupancy, ADR, RevPAR and pickup per stay date
+ * - Booking pace against last year
+ * - On-demand on-the-books snapshots
+ */
+@ApiTags('reservations')
+@Controller('properties/:propertyId')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ReservationsController {
+  constructor(
+    private readonly reservationsService: ReservationsService,
+    private readonly ingestionService: ReservationIngestionService,
+    private readonly onTheBooksService: OnTheBooksService,
+  ) {}
+
+  /**
+   * List reservations of a property
+   */
+  @Get('reservations')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'List reservations' })
+  @ApiResponse({ status: 200, description: 'Reservations retrieved successfully' })
+  async getReservations(
+    @Param('propertyId') propertyId: string,
+    @Query() query: ReservationQueryDto,
+  ) {
+    return this.reservationsService.findAll(propertyId, query);
+  }
+
+  /**
+   * Import reservations from a CSV or XLSX file
+   */
+  @Post('reservations/import')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_RESERVATION_FILE_SIZE } }))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } } } })
+  @ApiOperation({ summary: 'Import a reservation file' })
+  @ApiResponse({ status: 200, description: 'Reservations ingested' })
+  async importReservations(
+    @Param('propertyId') propertyId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @GetUser() user: RequestUser,
+  ) {
+    return this.ingestionService.importFile(propertyId, file, user.id);
+  }
+
+  /**
+   * Pull new and changed reservations from the property's channels now
+   */
+  @Post('reservations/pull')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Pull reservations from channels' })
+  @ApiResponse({ status: 200, description: 'Reservations pulled from each supporting channel' })
+  async pullReservations(@Param('propertyId') propertyId: string) {
+    return this.ingestionService.pullChannelReservations(propertyId);
+  }
+
+  /**
+   * Occupancy, ADR, RevPAR and pickup per stay date
+   */
+  @Get('on-the-books/performance')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get on-the-books performance' })
+  @ApiResponse({ status: 200, description: 'Performance retrieved successfully' })
+  async getPerformance(
+    @Param('propertyId') propertyId: string,
+    @Query() query: PerformanceQueryDto,
+  ) {
+    return this.onTheBooksService.getPerformance(
+      propertyId,
+      new Date(query.startDate),
+      new Date(query.endDate),
+      query.roomTypeId,
+    );
+  }
+
+  /**
+   * Booking pace of a stay date
+   */
+  @Get('on-the-books/pace')
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN, UserRole.AI_VIEWER)
+  @ApiOperation({ summary: 'Get booking pace for a stay date' })
+  @ApiResponse({ status: 200, description: 'Booking pace retrieved successfully' })
+  async getBookingPace(
+    @Param('propertyId') propertyId: string,
+    @Query() query: BookingPaceQueryDto,
+  ) {
+    return this.onTheBooksService.getBookingPace(propertyId, new Date(query.date), query.roomTypeId);
+  }
+
+  /**
+   * Capture the on-the-books snapshot now
+   */
+  @Post('on-the-books/snapshots')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.REVENUE_MANAGER, UserRole.DISTRIBUTION_MANAGER, UserRole.CORPORATE_ADMIN)
+  @ApiOperation({ summary: 'Capture an on-the-books snapshot' })
+  @ApiResponse({ status: 200, description: 'Snapshot captured' })
+  async captureSnapshot(
+    @Param('propertyId') propertyId: string,
+    @Body() captureDto: CaptureSnapshotDto,
+  ) {
+    const [summary] = await this.onTheBooksService.captureSnapshots(
+      propertyId,
+      captureDto.snapshotDate ? new Date(captureDto.snapshotDate) : undefined,
+    );
+    return summary ?? null;
+  }
+}
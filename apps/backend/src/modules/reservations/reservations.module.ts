@@ -0,0 +1,46 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { BullModule } from '@nestjs/bull';
+
+import { DatabaseModule } from '../database/database.module';
+import { ChannelManagerModule } from '../channel-manager/channel-manager.module';
+import { BusinessDatesModule } from '../business-dates/business-dates.module';
+import { ReservationsController } from './reservations.controller';
+import { ReservationsService } from './reservations.service';
+import { ReservationIngestionService } from './reservation-ingestion.service';
+import { OnTheBooksService } from './on-the-books.service';
+import { ReservationsProcessor, RESERVATIONS_QUEUE } from './processors/reservations.processor';
+
+/**
+ * Reservations Module
+ *
+ * Bookings and the on-the-books position built from them:
+ * - Reservation and stay night storage
+ * - Ingestion from channel pulls, uploads and a drop folder
+ * - Daily on-the-books snapshots for occupancy, ADR, RevPAR and pickup
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    DatabaseModule,
+    ChannelManagerModule,
+    BusinessDatesModule,
+    BullModule.registerQueue({
+      name: RESERVATIONS_QUEUE,
+      defaultJobOptions: {
+        attempts: 1, // Repeating jobs; the next run picks up where this one failed
+        removeOnComplete: 50,
+        removeOnFail: 50,
+      },
+    }),
+  ],
+  controllers: [ReservationsController],
+  providers: [
+    ReservationsService,
+    ReservationIngestionService,
+    OnTheBooksService,
+    ReservationsProcessor,
+  ],
+  exports: [ReservationsService, OnTheBooksService],
+})
+export class ReservationsModule {}
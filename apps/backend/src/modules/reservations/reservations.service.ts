@@ -0,0 +1,397 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+
+import { DatabaseService } from '../database/database.service';
+import {
+  ReservationQueryDto,
+  ReservationSource,
+  ReservationStatus,
+} from './dto/reservations.dto';
+
+export interface ReservationInput {
+  confirmationNumber: string;
+  status: ReservationStatus;
+  roomTypeCode: string;
+  ratePlanCode?: string;
+  channelCode?: string;
+  guestName?: string;
+  bookedAt: string; // ISO timestamp or YYYY-MM-DD
+  arrivalDate: string; // YYYY-MM-DD
+  departureDate: string; // YYYY-MM-DD
+  rooms: number;
+  totalRevenue: number;
+  currency?: string;
+  rowNumber?: number; // Source row for file ingestion
+}
+
+export interface IngestionContext {
+  source: ReservationSource;
+  channelId?: string; // Channel every input came from, for channel pulls
+  userId?: string;
+  fileName?: string;
+}
+
+export interface SkippedReservation {
+  confirmationNumber: string | null;
+  rowNumber?: number;
+  reason: string;
+}
+
+export interface IngestionResult {
+  received: number;
+  created: number;
+  updated: number;
+  cancelled: number;
+  unchanged: number;
+  skipped: SkippedReservation[];
+}
+
+interface ResolvedReservation {
+  input: ReservationInput;
+  roomTypeId: string;
+  ratePlanId: string | null;
+  channelId: string | null;
+  bookedAt: Date;
+  arrivalDate: Date;
+  departureDate: Date;
+}
+
+const DEFAULT_RESERVATION_LIMIT = 100;
+const MAX_STAY_NIGHTS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reservations Service
+ *
+ * Stores reservations and their stay nights for on-the-books reporting:
+ * - Resolves room type, rate plan and channel codes of ingested bookings
+ * - Upserts by confirmation number so repeated pulls and files are idempotent
+ * - Rebuilds stay nights when dates, rooms or revenue change
+ * - Keeps cancelled nights with their cancellation time for pace history
+ */
+@Injectable()
+export class ReservationsService {
+  private readonly logger = new Logger(ReservationsService.name);
+
+  constructor(private readonly databaseService: DatabaseService) {}
+
+  /**
+   * List reservations of a property, most recently booked first
+   */
+  async findAll(propertyId: string, query: ReservationQueryDto) {
+    const where: any = { propertyId };
+
+    if (query.arrivalFrom || query.arrivalTo) {
+      where.arrivalDate = {};
+      if (query.arrivalFrom) where.arrivalDate.gte = new Date(query.arrivalFrom);
+      if (query.arrivalTo) where.arrivalDate.lte = new Date(query.arrivalTo);
+    }
+    if (query.status) {
+      where.status = query.status;
+    }
+    if (query.channelId) {
+      where.channelId = query.channelId;
+    }
+
+    return this.databaseService.reservation.findMany({
+      where,
+      include: {
+        roomType: true,
+        ratePlan: true,
+        channel: true,
+      },
+      orderBy: { bookedAt: 'desc' },
+      take: query.limit ?? DEFAULT_RESERVATION_LIMIT,
+    });
+  }
+
+  /**
+   * Create, update or cancel reservations of a property
+   */
+  async ingest(
+    propertyId: string,
+    inputs: ReservationInput[],
+    context: IngestionContext,
+  ): Promise<IngestionResult> {
+    const property = await this.databaseService.property.findUnique({ where: { id: propertyId } });
+    if (!property) {
+      throw new NotFoundException(`Property ${propertyId} not found`);
+    }
+
+    const result: IngestionResult = {
+      received: inputs.length,
+      created: 0,
+      updated: 0,
+      cancelled: 0,
+      unchanged: 0,
+      skipped: [],
+    };
+
+    const resolved = await this.resolveInputs(propertyId, inputs, context, result.skipped);
+    if (!resolved.length) {
+      return result;
+    }
+
+    const existing = await this.databaseService.reservation.findMany({
+      where: {
+        propertyId,
+        confirmationNumber: { in: resolved.map(r => r.input.confirmationNumber) },
+      },
+    });
+    const existingByNumber = new Map<string, any>(existing.map(r => [r.confirmationNumber, r]));
+
+    await this.databaseService.$transaction(async (tx) => {
+      for (const reservation of resolved) {
+        const { input } = reservation;
+        const current = existingByNumber.get(input.confirmationNumber);
+        const data = {
+          channelId: reservation.channelId,
+          roomTypeId: reservation.roomTypeId,
+          ratePlanId: reservation.ratePlanId,
+          source: context.source,
+          status: input.status,
+          guestName: input.guestName ?? null,
+          arrivalDate: reservation.arrivalDate,
+          departureDate: reservation.departureDate,
+          rooms: input.rooms,
+          totalRevenue: input.totalRevenue,
+          currency: input.currency ?? property.currency,
+        };
+
+        if (current && !this.hasChanged(current, reservation)) {
+          result.unchanged++;
+          continue;
+        }
+
+        if (input.status === ReservationStatus.CANCELLED) {
+          const cancelledAt = current?.cancelledAt ?? new Date();
+
+          if (current) {
+            await tx.reservation.update({
+              where: { id: current.id },
+              data: { status: ReservationStatus.CANCELLED, cancelledAt },
+            });
+            await tx.stayNight.updateMany({
+              where: { reservationId: current.id, cancelledAt: null },
+              data: { cancelledAt },
+            });
+          } else {
+            // Booked and cancelled between two pulls; keep it for pace history
+            const created = await tx.reservation.create({
+              data: { ...data, propertyId, confirmationNumber: input.confirmationNumber, bookedAt: reservation.bookedAt, cancelledAt },
+            });
+            await tx.stayNight.createMany({
+              data: this.buildStayNights(propertyId, created.id, reservation, reservation.bookedAt, cancelledAt),
+            });
+          }
+
+          result.cancelled++;
+          continue;
+        }
+
+        if (current) {
+          // Modifications keep the original booking time so pace is not double counted
+          const bookedAt = current.bookedAt ?? reservation.bookedAt;
+          await tx.reservation.update({
+            where: { id: current.id },
+            data: { ...data, cancelledAt: null },
+          });
+          await tx.stayNight.deleteMany({ where: { reservationId: current.id } });
+          await tx.stayNight.createMany({
+            data: this.buildStayNights(propertyId, current.id, reservation, bookedAt, null),
+          });
+          result.updated++;
+        } else {
+          const created = await tx.reservation.create({
+            data: { ...data, propertyId, confirmationNumber: input.confirmationNumber, bookedAt: reservation.bookedAt },
+          });
+          await tx.stayNight.createMany({
+            data: this.buildStayNights(propertyId, created.id, reservation, reservation.bookedAt, null),
+          });
+          result.created++;
+        }
+      }
+
+      await tx.auditLog.create({
+        data: {
+          propertyId,
+          userId: context.userId ?? null,
+          action: 'INGEST',
+          entityType: 'RESERVATION',
+          changes: {
+            source: context.source,
+            channelId: context.channelId ?? null,
+            fileName: context.fileName ?? null,
+            received: result.received,
+            created: result.created,
+            updated: result.updated,
+            cancelled: result.cancelled,
+            unchanged: result.unchanged,
+            skipped: result.skipped.length,
+          },
+          source: context.source === ReservationSource.CHANNEL_PULL ? 'SYNC' : 'IMPORT',
+        },
+      });
+    });
+
+    this.logger.log(
+      `Ingested ${result.received} reservations into property ${propertyId} from ${context.source}: ` +
+      `${result.created} created, ${result.updated} updated, ${result.cancelled} cancelled, ` +
+      `${result.skipped.length} skipped`,
+    );
+
+    return result;
+  }
+
+  // Private helper methods
+
+  private async resolveInputs(
+    propertyId: string,
+    inputs: ReservationInput[],
+    context: IngestionContext,
+    skipped: SkippedReservation[],
+  ): Promise<ResolvedReservation[]> {
+    const channelCodes = Array.from(new Set(inputs.map(input => input.channelCode).filter(Boolean)));
+
+    const [roomTypes, ratePlans, channels] = await Promise.all([
+      this.databaseService.roomType.findMany({ where: { propertyId } }),
+      this.databaseService.ratePlan.findMany({ where: { propertyId } }),
+      channelCodes.length && !context.channelId
+        ? this.databaseService.channel.findMany({ where: { code: { in: channelCodes } } })
+        : Promise.resolve([]),
+    ]);
+
+    const roomTypeIds = new Map<string, string>(roomTypes.map(rt => [rt.code, rt.id]));
+    const ratePlanIds = new Map<string, string>(ratePlans.map(rp => [rp.code, rp.id]));
+    const channelIds = new Map<string, string>(channels.map(c => [c.code, c.id]));
+    const seen = new Set<string>();
+    const resolved: ResolvedReservation[] = [];
+
+    for (const input of inputs) {
+      const skip = (reason: string) => skipped.push({
+        confirmationNumber: input.confirmationNumber || null,
+        rowNumber: input.rowNumber,
+        reason,
+      });
+
+      if (!input.confirmationNumber) {
+        skip('Confirmation number is required');
+        continue;
+      }
+      if (seen.has(input.confirmationNumber)) {
+        skip(`Duplicate confirmation number ${input.confirmationNumber}`);
+        continue;
+      }
+
+      const roomTypeId = roomTypeIds.get(input.roomTypeCode);
+      if (!roomTypeId) {
+        skip(`Unknown room type code ${input.roomTypeCode}`);
+        continue;
+      }
+
+      const ratePlanId = input.ratePlanCode ? ratePlanIds.get(input.ratePlanCode) : null;
+      if (input.ratePlanCode && !ratePlanId) {
+        skip(`Unknown rate plan code ${input.ratePlanCode}`);
+        continue;
+      }
+
+      const channelId = context.channelId ?? (input.channelCode ? channelIds.get(input.channelCode) : null);
+      if (!context.channelId && input.channelCode && !channelId) {
+        skip(`Unknown channel code ${input.channelCode}`);
+        continue;
+      }
+
+      if (!DATE_PATTERN.test(input.arrivalDate) || !DATE_PATTERN.test(input.departureDate)) {
+        skip('Arrival and departure dates must be YYYY-MM-DD');
+        continue;
+      }
+
+      const arrivalDate = new Date(`${input.arrivalDate}T00:00:00.000Z`);
+      const departureDate = new Date(`${input.departureDate}T00:00:00.000Z`);
+      const nights = Math.round((departureDate.getTime() - arrivalDate.getTime()) / DAY_MS);
+      if (isNaN(nights) || nights < 1) {
+        skip('Departure date must be after arrival date');
+        continue;
+      }
+      if (nights > MAX_STAY_NIGHTS) {
+        skip(`Stays longer than ${MAX_STAY_NIGHTS} nights are not supported`);
+        continue;
+      }
+
+      const bookedAt = new Date(input.bookedAt);
+      if (isNaN(bookedAt.getTime())) {
+        skip(`Invalid booking date ${input.bookedAt}`);
+        continue;
+      }
+
+      if (!Number.isInteger(input.rooms) || input.rooms < 1) {
+        skip('Rooms must be a positive whole number');
+        continue;
+      }
+      if (typeof input.totalRevenue !== 'number' || isNaN(input.totalRevenue) || input.totalRevenue < 0) {
+        skip('Total revenue must be zero or more');
+        continue;
+      }
+
+      seen.add(input.confirmationNumber);
+      resolved.push({
+        input,
+        roomTypeId,
+        ratePlanId: ratePlanId ?? null,
+        channelId: channelId ?? null,
+        bookedAt,
+        arrivalDate,
+        departureDate,
+      });
+    }
+
+    return resolved;
+  }
+
+  private hasChanged(current: any, reservation: ResolvedReservation): boolean {
+    const { input } = reservation;
+
+    if (input.status === ReservationStatus.CANCELLED) {
+      return current.status !== ReservationStatus.CANCELLED;
+    }
+
+    return current.status !== input.status ||
+      current.roomTypeId !== reservation.roomTypeId ||
+      (current.ratePlanId ?? null) !== reservation.ratePlanId ||
+      new Date(current.arrivalDate).getTime() !== reservation.arrivalDate.getTime() ||
+      new Date(current.departureDate).getTime() !== reservation.departureDate.getTime() ||
+      current.rooms !== input.rooms ||
+      parseFloat(current.totalRevenue.toString()) !== input.totalRevenue;
+  }
+
+  /**
+   * One stay night per night of the stay; revenue is split evenly with the
+   * rounding remainder on the last night so the nights add up to the total
+   */
+  private buildStayNights(
+    propertyId: string,
+    reservationId: string,
+    reservation: ResolvedReservation,
+    bookedAt: Date,
+    cancelledAt: Date | null,
+  ) {
+    const nights = Math.round(
+      (reservation.departureDate.getTime() - reservation.arrivalDate.getTime()) / DAY_MS,
+    );
+    const totalCents = Math.round(reservation.input.totalRevenue * 100);
+    const nightlyCents = Math.floor(totalCents / nights);
+
+    return Array.from({ length: nights }, (_, night) => ({
+      reservationId,
+      propertyId,
+      roomTypeId: reservation.roomTypeId,
+      ratePlanId: reservation.ratePlanId,
+      channelId: reservation.channelId,
+      stayDate: new Date(reservation.arrivalDate.getTime() + night * DAY_MS),
+      rooms: reservation.input.rooms,
+      revenue: (night === nights - 1 ? totalCents - nightlyCents * (nights - 1) : nightlyCents) / 100,
+      bookedAt,
+      cancelledAt,
+    }));
+  }
+}
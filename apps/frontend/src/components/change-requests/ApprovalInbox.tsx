@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import {
+  Inbox,
+  Check,
+  X,
+  ArrowRight,
+  AlertTriangle,
+  RefreshCw,
+  MessageSquare,
+} from 'lucide-react';
+
+import { useApprovalInbox } from '@/hooks/useChangeRequests';
+import { ChangeRequest, ChangeRequestDiff, RateInventoryValues } from '@/types/change-requests';
+
+interface ApprovalInboxProps {
+  propertyId: string;
+}
+
+const FIELD_LABELS: Record<keyof RateInventoryValues, string> = {
+  rate: 'Rate',
+  inventory: 'Inventory',
+  minStay: 'Min Stay',
+  maxStay: 'Max Stay',
+  closedToArrival: 'CTA',
+  closedToDeparture: 'CTD',
+  stopSell: 'Stop Sell',
+};
+
+const MAX_VISIBLE_DIFFS = 10;
+
+/**
+ * Approval Inbox Component
+ *
+ * Pending rate and inventory change requests awaiting the current user:
+ * - Before/after view of every staged change
+ * - Approve (applies the changes) or reject with a comment
+ * - Escalation indicator for requests left pending
+ */
+export function ApprovalInbox({ propertyId }: ApprovalInboxProps) {
+  const {
+    inbox,
+    isLoading,
+    error,
+    refetch,
+    approveChangeRequest,
+    rejectChangeRequest,
+    isApproving,
+    isRejecting,
+  } = useApprovalInbox(propertyId);
+
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const setComment = (id: string, value: string) =>
+    setComments(prev => ({ ...prev, [id]: value }));
+
+  const handleApprove = async (request: ChangeRequest) => {
+    await approveChangeRequest(request.id, comments[request.id] || undefined);
+    setComment(request.id, '');
+  };
+
+  const handleReject = async (request: ChangeRequest) => {
+    const comment = comments[request.id]?.trim();
+    if (!comment) {
+      return;
+    }
+    await rejectChangeRequest(request.id, comment);
+    setComment(request.id, '');
+  };
+
+  const formatValue = (field: keyof RateInventoryValues, value: any) => {
+    if (value === undefined || value === null) return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (field === 'rate') return `$${Number(value).toFixed(2)}`;
+    return String(value);
+  };
+
+  const renderDiff = (diff: ChangeRequestDiff, index: number) => {
+    const fields = Array.from(new Set([
+      ...Object.keys(diff.before ?? {}),
+      ...Object.keys(diff.after ?? {}),
+    ])) as Array<keyof RateInventoryValues>;
+
+    return (
+      <tr key={`${diff.rateInventoryId ?? diff.date}-${index}`} className="border-t border-gray-100">
+        <td className="py-2 pr-3 text-gray-900 whitespace-nowrap">
+          {format(new Date(diff.date), 'EEE, MMM d')}
+        </td>
+        <td className="py-2 pr-3 text-gray-500 text-xs">
+          {diff.roomTypeId} / {diff.ratePlanId} / {diff.channelId}
+        </td>
+        <td className="py-2">
+          {!diff.before && <span className="text-xs font-medium text-green-700">New record</span>}
+          {!diff.after && <span className="text-xs font-medium text-red-700">Delete record</span>}
+          {diff.before && diff.after && (
+            <div className="flex flex-wrap gap-2">
+              {fields.map(field => (
+                <span key={field} className="inline-flex items-center space-x-1 text-xs bg-gray-50 border border-gray-200 rounded-lg px-2 py-1">
+                  <span className="text-gray-500">{FIELD_LABELS[field]}</span>
+                  <span className="text-gray-700">{formatValue(field, diff.before?.[field])}</span>
+                  <ArrowRight className="h-3 w-3 text-gray-400" />
+                  <span className="font-semibold text-gray-900">{formatValue(field, diff.after?.[field])}</span>
+                </span>
+              ))}
+            </div>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  if (error) {
+    return (
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-200/50 p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="flex items-center justify-center w-10 h-10 bg-red-100 rounded-xl">
+            <AlertTriangle className="h-5 w-5 text-red-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Approvals</h3>
+            <p className="text-sm text-red-600">Error loading change requests</p>
+          </div>
+        </div>
+        <button
+          onClick={() => refetch()}
+          className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-colors duration-200"
+        >
+          <RefreshCw className="h-4 w-4" />
+          <span>Retry</span>
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-gray-200/50 overflow-hidden">
+      {/* Header */}
+      <div className="p-6 bg-gradient-to-r from-amber-50 to-orange-50 border-b border-gray-200/50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="flex items-center justify-center w-10 h-10 bg-gradient-to-r from-amber-500 to-orange-600 rounded-xl">
+              <Inbox className="h-5 w-5 text-white" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Approvals</h3>
+              <p className="text-sm text-gray-500">
+                {isLoading ? 'Loading change requests...' : `${inbox.length} awaiting your decision`}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => refetch()}
+            className="p-2 hover:bg-white/50 rounded-lg transition-colors duration-200"
+          >
+            <RefreshCw className="h-4 w-4 text-gray-600" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {!isLoading && inbox.length === 0 && (
+          <div className="text-center py-8">
+            <div className="flex items-center justify-center w-12 h-12 bg-gray-100 rounded-xl mx-auto mb-3">
+              <Check className="h-6 w-6 text-gray-400" />
+            </div>
+            <p className="text-gray-500 text-sm">Nothing to review</p>
+          </div>
+        )}
+
+        {inbox.map(request => {
+          const diffs = expanded[request.id] ? request.diffs : request.diffs.slice(0, MAX_VISIBLE_DIFFS);
+          const comment = comments[request.id] ?? '';
+
+          return (
+            <div key={request.id} className="border border-gray-200 rounded-xl p-4 bg-gradient-to-r from-gray-50 to-white">
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium border text-blue-700 bg-blue-100 border-blue-200">
+                      {request.operation.replace('_', ' ')}
+                    </span>
+                    {request.escalationLevel > 0 && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium border text-red-700 bg-red-100 border-red-200">
+                        Escalated
+                      </span>
+                    )}
+                  </div>
+                  <div className="font-medium text-gray-900 mt-2">{request.summary}</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Requested by {request.requestedBy} • {formatDistanceToNow(new Date(request.createdAt), { addSuffix: true })}
+                  </div>
+                </div>
+              </div>
+
+              {request.requestComment && (
+                <div className="flex items-start space-x-2 text-sm text-gray-600 mb-3">
+                  <MessageSquare className="h-4 w-4 mt-0.5 text-gray-400" />
+                  <span>{request.requestComment}</span>
+                </div>
+              )}
+
+              <table className="w-full text-sm mb-3">
+                <tbody>{diffs.map(renderDiff)}</tbody>
+              </table>
+
+              {request.diffs.length > MAX_VISIBLE_DIFFS && (
+                <button
+                  onClick={() => setExpanded(prev => ({ ...prev, [request.id]: !prev[request.id] }))}
+                  className="text-xs text-blue-600 hover:text-blue-700 mb-3"
+                >
+                  {expanded[request.id] ? 'Show less' : `Show all ${request.diffs.length} changes`}
+                </button>
+              )}
+
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(request.id, e.target.value)}
+                placeholder="Comment (required to reject)"
+                rows={2}
+                className="w-full text-sm border border-gray-200 rounded-lg p-2 mb-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+
+              <div className="flex justify-end space-x-2">
+                <button
+                  onClick={() => handleReject(request)}
+                  disabled={!comment.trim() || isRejecting || isApproving}
+                  className="flex items-center space-x-1 px-4 py-2 text-sm border border-red-200 text-red-700 rounded-xl hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  <X className="h-4 w-4" />
+                  <span>Reject</span>
+                </button>
+                <button
+                  onClick={() => handleApprove(request)}
+                  disabled={isApproving || isRejecting}
+                  className="flex items-center space-x-1 px-4 py-2 text-sm bg-gradient-to-r from-green-600 to-emerald-600 text-white rounded-xl hover:from-green-700 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-sm"
+                >
+                  <Check className="h-4 w-4" />
+                  <span>Approve & Apply</span>
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo, useRef } from 'react';
+import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { AgGridReact } from 'ag-grid-react';
 import {
   ColDef,
@@ -36,9 +36,19 @@ import { Separator } from '@/components/ui/separator';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 
-import { useRatesInventory } from '@/hooks/useRatesInventory';
+import {
+  useRatesInventory,
+  useRateInventoryValidation,
+  useRateConsistencyCheck,
+} from '@/hooks/useRatesInventory';
 import { useAuth } from '@/hooks/useAuth';
-import { RateInventoryData, BulkUpdateOperation } from '@/types/rates-inventory';
+import {
+  RateInventoryData,
+  BulkUpdateOperation,
+  CreateRateInventoryRequest,
+  ValidationIssue,
+  ValidationReport,
+} from '@/types/rates-inventory';
 
 // AG Grid theme and styles
 import 'ag-grid-community/styles/ag-grid.css';
@@ -61,6 +71,31 @@ import 'ag-grid-enterprise';
  * @version 1.0.0
  */
 
+// Editable columns that can carry inline validation issues
+const ISSUE_FIELDS = [
+  'rate',
+  'inventory',
+  'minStay',
+  'maxStay',
+  'closedToArrival',
+  'closedToDeparture',
+  'stopSell',
+];
+
+const toValidationRequest = (row: RateInventoryData): CreateRateInventoryRequest => ({
+  date: new Date(row.date),
+  roomTypeId: row.roomTypeId,
+  ratePlanId: row.ratePlanId,
+  channelId: row.channelId,
+  rate: row.rate,
+  inventory: row.inventory,
+  minStay: row.minStay,
+  maxStay: row.maxStay,
+  closedToArrival: row.closedToArrival,
+  closedToDeparture: row.closedToDeparture,
+  stopSell: row.stopSell,
+});
+
 interface RatesInventoryGridProps {
   propertyId: string;
   dateRange: { start: Date; end: Date };
@@ -88,6 +123,8 @@ export const RatesInventoryGrid: React.FC<RatesInventoryGridProps> = ({
   const [selectedRows, setSelectedRows] = useState<RateInventoryData[]>([]);
   const [bulkOperation, setBulkOperation] = useState<BulkUpdateOperation | null>(null);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [cellIssues, setCellIssues] = useState<Record<string, ValidationIssue[]>>({});
+  const issuesRef = useRef({ validationErrors, cellIssues });
 
   // Data fetching
   const {
@@ -103,6 +140,88 @@ export const RatesInventoryGrid: React.FC<RatesInventoryGridProps> = ({
     endDate: dateRangeState.endDate,
   });
 
+  // Server-side dry-run validation and cross-channel consistency
+  const { mutateAsync: validateRateInventory } = useRateInventoryValidation();
+  const { data: consistencyReport } = useRateConsistencyCheck(
+    selectedPropertyId,
+    {
+      startDate: dateRangeState.startDate,
+      endDate: dateRangeState.endDate,
+    },
+    !isLoading,
+  );
+
+  useEffect(() => {
+    if (!consistencyReport) return;
+
+    setCellIssues(prev => {
+      const next = { ...prev };
+      consistencyReport.results.forEach(result => {
+        next[`${result.id}_rate`] = result.warnings;
+      });
+      return next;
+    });
+  }, [consistencyReport]);
+
+  // Cell class rules read through a ref, so repaint when issues change
+  useEffect(() => {
+    issuesRef.current = { validationErrors, cellIssues };
+    gridApi?.refreshCells({ force: true });
+  }, [validationErrors, cellIssues, gridApi]);
+
+  const getCellIssues = (params: { data?: RateInventoryData; colDef?: ColDef }): ValidationIssue[] => {
+    const field = params.colDef?.field;
+    if (!params.data || !field) return [];
+
+    const key = `${params.data.id}_${field}`;
+    const localError = issuesRef.current.validationErrors[key];
+
+    return [
+      ...(localError ? [{ field, code: 'INVALID_VALUE', message: localError, severity: 'ERROR' as const }] : []),
+      ...(issuesRef.current.cellIssues[key] ?? []),
+    ];
+  };
+
+  const issueColumnProps: Partial<ColDef> = {
+    cellClassRules: {
+      'bg-red-50 text-red-700': (params: CellClassParams) =>
+        getCellIssues(params).some(issue => issue.severity === 'ERROR'),
+      'bg-amber-50 text-amber-700': (params: CellClassParams) => {
+        const issues = getCellIssues(params);
+        return issues.length > 0 && issues.every(issue => issue.severity === 'WARNING');
+      },
+    },
+    tooltipValueGetter: (params: any) => {
+      const issues = getCellIssues(params);
+      return issues.length ? issues.map(issue => issue.message).join('\n') : undefined;
+    },
+  };
+
+  const applyServerIssues = (rowId: string, editedField: string, report: ValidationReport) => {
+    setCellIssues(prev => {
+      // Replace everything previously reported for this row
+      const next = Object.fromEntries(
+        Object.entries(prev).filter(([key]) => !key.startsWith(`${rowId}_`))
+      );
+
+      [...report.errors, ...report.warnings].forEach(issue => {
+        const field = ISSUE_FIELDS.includes(issue.field) ? issue.field : editedField;
+        const key = `${rowId}_${field}`;
+        next[key] = [...(next[key] ?? []), issue];
+      });
+
+      return next;
+    });
+  };
+
+  const issueCounts = useMemo(() => {
+    const issues = Object.values(cellIssues).flat();
+    return {
+      errors: issues.filter(issue => issue.severity === 'ERROR').length + Object.keys(validationErrors).length,
+      warnings: issues.filter(issue => issue.severity === 'WARNING').length,
+    };
+  }, [cellIssues, validationErrors]);
+
   // Custom cell renderers
   const SyncStatusRenderer = (params: any) => {
     const status = params.value;
@@ -206,6 +325,7 @@ export const RatesInventoryGrid: React.FC<RatesInventoryGridProps> = ({
     {
       headerName: 'Rate ($)',
       field: 'rate',
+      ...issueColumnProps,
       width: 100,
       editable: true,
       type: 'numericColumn',
@@ -223,6 +343,7 @@ export const RatesInventoryGrid: React.FC<RatesInventoryGridProps> = ({
     {
       headerName: 'Inventory',
       field: 'inventory',
+      ...issueColumnProps,
       width: 100,
       editable: true,
       type: 'numericColumn',
@@ -236,6 +357,7 @@ export const RatesInventoryGrid: React.FC<RatesInventoryGridProps> = ({
     {
       headerName: 'Min LOS',
       field: 'minStay',
+      ...issueColumnProps,
       width: 90,
       editable: true,
       type: 'numericColumn',
@@ -249,6 +371,7 @@ export const RatesInventoryGrid: React.FC<RatesInventoryGridProps> = ({
     {
       headerName: 'Max LOS',
       field: 'maxStay',
+      ...issueColumnProps,
       width: 90,
       editable: true,
       type: 'numericColumn',
@@ -262,6 +385,7 @@ export const RatesInventoryGrid: React.FC<RatesInventoryGridProps> = ({
     {
       headerName: 'CTA',
       field: 'closedToArrival',
+      ...issueColumnProps,
       width: 80,
       editable: true,
       cellRenderer: BooleanRenderer,
@@ -270,6 +394,7 @@ export const RatesInventoryGrid: React.FC<RatesInventoryGridProps> = ({
     {
       headerName: 'CTD',
       field: 'closedToDeparture',
+      ...issueColumnProps,
       width: 80,
       editable: true,
       cellRenderer: BooleanRenderer,
@@ -278,6 +403,7 @@ export const RatesInventoryGrid: React.FC<RatesInventoryGridProps> = ({
     {
       headerName: 'Stop Sell',
       field: 'stopSell',
+      ...issueColumnProps,
       width: 90,
       editable: true,
       cellRenderer: BooleanRenderer,
@@ -337,6 +463,13 @@ export const RatesInventoryGrid: React.FC<RatesInventoryGridProps> = ({
       return newErrors;
     });
 
+    // Dry-run the full server rule set; issues show inline without blocking the edit
+    validateRateInventory({ propertyId: selectedPropertyId, data: toValidationRequest(data) })
+      .then(report => applyServerIssues(data.id, colDef.field!, report))
+      .catch(() => {
+        // Request failures are logged by the validation hook
+      });
+
     // Trigger data change callback
     onDataChange?.([{
       id: data.id,
@@ -347,7 +480,7 @@ export const RatesInventoryGrid: React.FC<RatesInventoryGridProps> = ({
 
     // Update sync status to pending
     event.node.setDataValue('syncStatus', 'PENDING');
-  }, [onDataChange]);
+  }, [onDataChange, selectedPropertyId, validateRateInventory]);
 
   const onSelectionChanged = useCallback((event: SelectionChangedEvent) => {
     const selectedNodes = event.api.getSelectedNodes();
@@ -600,6 +733,12 @@ export const RatesInventoryGrid: React.FC<RatesInventoryGridProps> = ({
             </div>
             
             <div className="flex items-center space-x-4">
+              {(issueCounts.errors > 0 || issueCounts.warnings > 0) && (
+                <div className="flex items-center">
+                  <AlertTriangle className="w-4 h-4 text-amber-500 mr-1" />
+                  {issueCounts.errors} errors, {issueCounts.warnings} warnings
+                </div>
+              )}
               <div className="flex items-center">
                 <CheckCircle className="w-4 h-4 text-green-500 mr-1" />
                 Synced
@@ -0,0 +1,132 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { changeRequestsApi } from '@/lib/api/change-requests';
+import { ChangeRequestQueryParams } from '@/types/change-requests';
+
+/**
+ * Change Requests Hook
+ *
+ * Lists change requests for a property and exposes the decisions:
+ * - Approve (applies the staged changes)
+ * - Reject with a comment
+ * - Cancel own pending requests
+ */
+export const useChangeRequests = (
+  propertyId: string,
+  params: ChangeRequestQueryParams = {},
+) => {
+  const queryClient = useQueryClient();
+
+  const queryKey = ['change-requests', propertyId, params];
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey,
+    queryFn: () => changeRequestsApi.getChangeRequests(propertyId, params),
+    enabled: !!propertyId,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+
+  const decisions = useChangeRequestDecisions(propertyId);
+
+  return {
+    changeRequests: data || [],
+    isLoading,
+    error,
+    refetch,
+    ...decisions,
+    invalidateCache: () => queryClient.invalidateQueries({ queryKey: ['change-requests', propertyId] }),
+  };
+};
+
+/**
+ * Hook for the approver inbox: pending requests the current user can decide on
+ */
+export const useApprovalInbox = (propertyId: string) => {
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['change-requests-inbox', propertyId],
+    queryFn: () => changeRequestsApi.getInbox(propertyId),
+    enabled: !!propertyId,
+    staleTime: 30 * 1000, // 30 seconds
+    refetchInterval: 60 * 1000, // poll for new requests every minute
+  });
+
+  const decisions = useChangeRequestDecisions(propertyId);
+
+  return {
+    inbox: data || [],
+    isLoading,
+    error,
+    refetch,
+    ...decisions,
+  };
+};
+
+/**
+ * Approve, reject and cancel mutations shared by the list and the inbox
+ */
+const useChangeRequestDecisions = (propertyId: string) => {
+  const queryClient = useQueryClient();
+
+  const invalidate = (applied: boolean) => {
+    queryClient.invalidateQueries({ queryKey: ['change-requests', propertyId] });
+    queryClient.invalidateQueries({ queryKey: ['change-requests-inbox', propertyId] });
+    if (applied) {
+      queryClient.invalidateQueries({ queryKey: ['rates-inventory', propertyId] });
+    }
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: ({ id, comment }: { id: string; comment?: string }) =>
+      changeRequestsApi.approveChangeRequest(propertyId, id, comment),
+    onSuccess: () => {
+      invalidate(true);
+      toast.success('Change request approved and applied');
+    },
+    onError: (error: any) => {
+      invalidate(false);
+      const message = error.response?.data?.message || 'Failed to approve change request';
+      toast.error(message);
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ id, comment }: { id: string; comment: string }) =>
+      changeRequestsApi.rejectChangeRequest(propertyId, id, comment),
+    onSuccess: () => {
+      invalidate(false);
+      toast.success('Change request rejected');
+    },
+    onError: (error: any) => {
+      const message = error.response?.data?.message || 'Failed to reject change request';
+      toast.error(message);
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => changeRequestsApi.cancelChangeRequest(propertyId, id),
+    onSuccess: () => {
+      invalidate(false);
+      toast.success('Change request cancelled');
+    },
+    onError: (error: any) => {
+      const message = error.response?.data?.message || 'Failed to cancel change request';
+      toast.error(message);
+    },
+  });
+
+  return {
+    isApproving: approveMutation.isPending,
+    isRejecting: rejectMutation.isPending,
+    isCancelling: cancelMutation.isPending,
+
+    approveChangeRequest: (id: string, comment?: string) =>
+      approveMutation.mutateAsync({ id, comment }),
+
+    rejectChangeRequest: (id: string, comment: string) =>
+      rejectMutation.mutateAsync({ id, comment }),
+
+    cancelChangeRequest: (id: string) =>
+      cancelMutation.mutateAsync(id),
+  };
+};
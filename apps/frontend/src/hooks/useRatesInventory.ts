@@ -10,7 +10,9 @@ import {
   BulkUpdateRequest,
   CopyRatesInventoryRequest,
   RateInventoryStats,
+  RateConsistencyParams,
 } from '@/types/rates-inventory';
+import { ChangeRequestSubmission, isChangeRequestSubmission } from '@/types/change-requests';
 
 /**
  * Rates & Inventory Hook
@@ -21,6 +23,7 @@ import {
  * - Bulk operations (update, delete, copy)
  * - Real-time validation and error handling
  * - Cache management and synchronization
+ * - Writes staged for approval (change requests)
  */
 export const useRatesInventory = (
   propertyId: string,
@@ -31,6 +34,18 @@ export const useRatesInventory = (
   // Query key factory
   const queryKey = ['rates-inventory', propertyId, queryParams];
 
+  // Writes from roles that need approval come back as change requests
+  const handleSubmission = (submission: ChangeRequestSubmission) => {
+    queryClient.invalidateQueries({ queryKey: ['change-requests', propertyId] });
+
+    if (submission.pendingApproval) {
+      toast.info('Change submitted for approval');
+    } else {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Change auto-approved and applied');
+    }
+  };
+
   // Fetch rates and inventory data
   const {
     data,
@@ -57,6 +72,11 @@ export const useRatesInventory = (
     mutationFn: (data: CreateRateInventoryRequest) =>
       ratesInventoryApi.createRateInventory(propertyId, data),
     onSuccess: (newRecord) => {
+      if (isChangeRequestSubmission(newRecord)) {
+        handleSubmission(newRecord);
+        return;
+      }
+
       // Update cache with new record
       queryClient.setQueryData(queryKey, (oldData: any) => {
         if (!oldData) return { data: [newRecord], total: 1 };
@@ -78,7 +98,7 @@ export const useRatesInventory = (
   // Update rate inventory mutation
   const updateMutation = useMutation({
     mutationFn: ({ id, data }: { id: string; data: UpdateRateInventoryRequest }) =>
-      ratesInventoryApi.updateRateInventory(id, data),
+      ratesInventoryApi.updateRateInventory(propertyId, id, data),
     onMutate: async ({ id, data }) => {
       // Cancel outgoing refetches
       await queryClient.cancelQueries({ queryKey });
@@ -100,7 +120,16 @@ export const useRatesInventory = (
 
       return { previousData };
     },
-    onSuccess: (updatedRecord) => {
+    onSuccess: (updatedRecord, variables, context) => {
+      if (isChangeRequestSubmission(updatedRecord)) {
+        // The record keeps its current values until the change is approved
+        if (context?.previousData) {
+          queryClient.setQueryData(queryKey, context.previousData);
+        }
+        handleSubmission(updatedRecord);
+        return;
+      }
+
       // Update cache with server response
       queryClient.setQueryData(queryKey, (oldData: any) => {
         if (!oldData) return oldData;
@@ -128,7 +157,7 @@ export const useRatesInventory = (
 
   // Delete rate inventory mutation
   const deleteMutation = useMutation({
-    mutationFn: (id: string) => ratesInventoryApi.deleteRateInventory(id),
+    mutationFn: (id: string) => ratesInventoryApi.deleteRateInventory(propertyId, id),
     onMutate: async (id) => {
       await queryClient.cancelQueries({ queryKey });
       const previousData = queryClient.getQueryData(queryKey);
@@ -146,7 +175,15 @@ export const useRatesInventory = (
 
       return { previousData };
     },
-    onSuccess: () => {
+    onSuccess: (result, variables, context) => {
+      if (isChangeRequestSubmission(result)) {
+        if (context?.previousData) {
+          queryClient.setQueryData(queryKey, context.previousData);
+        }
+        handleSubmission(result);
+        return;
+      }
+
       toast.success('Rate and inventory deleted successfully');
     },
     onError: (error: any, variables, context) => {
@@ -164,6 +201,11 @@ export const useRatesInventory = (
     mutationFn: (data: BulkUpdateRequest) =>
       ratesInventoryApi.bulkUpdateRatesInventory(propertyId, data),
     onSuccess: (result) => {
+      if (isChangeRequestSubmission(result)) {
+        handleSubmission(result);
+        return;
+      }
+
       // Invalidate and refetch data
       queryClient.invalidateQueries({ queryKey });
       
@@ -180,6 +222,11 @@ export const useRatesInventory = (
     mutationFn: (data: CopyRatesInventoryRequest) =>
       ratesInventoryApi.copyRatesInventory(propertyId, data),
     onSuccess: (result) => {
+      if (isChangeRequestSubmission(result)) {
+        handleSubmission(result);
+        return;
+      }
+
       // Invalidate and refetch data
       queryClient.invalidateQueries({ queryKey });
       
@@ -269,21 +316,17 @@ export const useRateInventoryValidation = () => {
 };
 
 /**
- * Hook for checking rate consistency
+ * Hook for checking rate consistency across channels for a date range
  */
-export const useRateConsistencyCheck = () => {
-  return useMutation({
-    mutationFn: ({
-      propertyId,
-      roomTypeId,
-      ratePlanId,
-      date,
-    }: {
-      propertyId: string;
-      roomTypeId: string;
-      ratePlanId: string;
-      date: Date;
-    }) =>
-      ratesInventoryApi.checkRateConsistency(propertyId, roomTypeId, ratePlanId, date),
+export const useRateConsistencyCheck = (
+  propertyId: string,
+  params: RateConsistencyParams,
+  enabled = true,
+) => {
+  return useQuery({
+    queryKey: ['rates-inventory-consistency', propertyId, params],
+    queryFn: () => ratesInventoryApi.checkRateConsistency(propertyId, params),
+    enabled: enabled && !!propertyId,
+    staleTime: 60 * 1000, // 1 minute
   });
-}; 
\ No newline at end of file
+};
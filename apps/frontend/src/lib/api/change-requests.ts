@@ -0,0 +1,112 @@
+import { apiClient } from './client';
+import {
+  ChangeRequest,
+  ChangeRequestQueryParams,
+  ApprovalWorkflow,
+  UpdateApprovalWorkflowRequest,
+} from '@/types/change-requests';
+
+/**
+ * Change Requests API Client
+ *
+ * Handles all API calls for the approval workflow:
+ * - Listing change requests and the approver inbox
+ * - Approve, reject and cancel decisions
+ * - Approval workflow configuration
+ */
+export const changeRequestsApi = {
+  /**
+   * List change requests for a property
+   */
+  async getChangeRequests(
+    propertyId: string,
+    params: ChangeRequestQueryParams = {},
+  ): Promise<ChangeRequest[]> {
+    const response = await apiClient.get(
+      `/properties/${propertyId}/change-requests`,
+      { params }
+    );
+
+    return response.data;
+  },
+
+  /**
+   * Pending change requests awaiting the current user's decision
+   */
+  async getInbox(propertyId: string): Promise<ChangeRequest[]> {
+    const response = await apiClient.get(
+      `/properties/${propertyId}/change-requests/inbox`
+    );
+
+    return response.data;
+  },
+
+  /**
+   * Approve and apply a change request
+   */
+  async approveChangeRequest(
+    propertyId: string,
+    id: string,
+    comment?: string,
+  ): Promise<ChangeRequest> {
+    const response = await apiClient.post(
+      `/properties/${propertyId}/change-requests/${id}/approve`,
+      { comment }
+    );
+
+    return response.data;
+  },
+
+  /**
+   * Reject a change request
+   */
+  async rejectChangeRequest(
+    propertyId: string,
+    id: string,
+    comment: string,
+  ): Promise<ChangeRequest> {
+    const response = await apiClient.post(
+      `/properties/${propertyId}/change-requests/${id}/reject`,
+      { comment }
+    );
+
+    return response.data;
+  },
+
+  /**
+   * Cancel own change request
+   */
+  async cancelChangeRequest(propertyId: string, id: string): Promise<ChangeRequest> {
+    const response = await apiClient.post(
+      `/properties/${propertyId}/change-requests/${id}/cancel`
+    );
+
+    return response.data;
+  },
+
+  /**
+   * Get approval workflow configuration
+   */
+  async getApprovalWorkflow(propertyId: string): Promise<ApprovalWorkflow> {
+    const response = await apiClient.get(
+      `/properties/${propertyId}/approval-workflow`
+    );
+
+    return response.data;
+  },
+
+  /**
+   * Update approval workflow configuration
+   */
+  async updateApprovalWorkflow(
+    propertyId: string,
+    data: UpdateApprovalWorkflowRequest,
+  ): Promise<ApprovalWorkflow> {
+    const response = await apiClient.put(
+      `/properties/${propertyId}/approval-workflow`,
+      data
+    );
+
+    return response.data;
+  },
+};
@@ -7,6 +7,9 @@ import {
   BulkUpdateRequest,
   CopyRatesInventoryRequest,
   RateInventoryStats,
+  ValidationReport,
+  RateConsistencyParams,
+  RateConsistencyReport,
 } from '@/types/rates-inventory';
 
 /**
@@ -76,11 +79,12 @@ export const ratesInventoryApi = {
    * Update existing rate and inventory record
    */
   async updateRateInventory(
+    propertyId: string,
     id: string,
     data: UpdateRateInventoryRequest,
   ) {
     const response = await apiClient.put(
-      `/properties/*/rates-inventory/${id}`,
+      `/properties/${propertyId}/rates-inventory/${id}`,
       data
     );
     
@@ -90,9 +94,9 @@ export const ratesInventoryApi = {
   /**
    * Delete rate and inventory record
    */
-  async deleteRateInventory(id: string) {
+  async deleteRateInventory(propertyId: string, id: string) {
     const response = await apiClient.delete(
-      `/properties/*/rates-inventory/${id}`
+      `/properties/${propertyId}/rates-inventory/${id}`
     );
     
     return response.data;
@@ -152,12 +156,12 @@ export const ratesInventoryApi = {
   },
 
   /**
-   * Validate rate and inventory data
+   * Validate rate and inventory data without saving
    */
   async validateRateInventory(
     propertyId: string,
     data: CreateRateInventoryRequest,
-  ) {
+  ): Promise<ValidationReport> {
     const response = await apiClient.post(
       `/properties/${propertyId}/rates-inventory/validate`,
       {
@@ -170,25 +174,24 @@ export const ratesInventoryApi = {
   },
 
   /**
-   * Check rate consistency across channels
+   * Check rate consistency across channels for a date range
    */
   async checkRateConsistency(
     propertyId: string,
-    roomTypeId: string,
-    ratePlanId: string,
-    date: Date,
-  ) {
+    params: RateConsistencyParams,
+  ): Promise<RateConsistencyReport> {
     const response = await apiClient.get(
       `/properties/${propertyId}/rates-inventory/consistency-check`,
       {
         params: {
-          roomTypeId,
-          ratePlanId,
-          date: date.toISOString(),
+          startDate: params.startDate.toISOString(),
+          endDate: params.endDate.toISOString(),
+          ...(params.roomTypeId && { roomTypeId: params.roomTypeId }),
+          ...(params.ratePlanId && { ratePlanId: params.ratePlanId }),
         },
       }
     );
     
     return response.data;
   },
-}; 
\ No newline at end of file
+};
\ No newline at end of file
@@ -0,0 +1,92 @@
+/**
+ * Change Request Types
+ *
+ * TypeScript interfaces for the rate and inventory approval workflow
+ */
+
+export type ChangeRequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+export type ChangeRequestOperation = 'CREATE' | 'UPDATE' | 'DELETE' | 'BULK_UPDATE' | 'COPY';
+
+export interface RateInventoryValues {
+  rate?: number;
+  inventory?: number;
+  minStay?: number;
+  maxStay?: number;
+  closedToArrival?: boolean;
+  closedToDeparture?: boolean;
+  stopSell?: boolean;
+}
+
+export interface ChangeRequestDiff {
+  rateInventoryId?: string;
+  roomTypeId: string;
+  ratePlanId: string;
+  channelId: string;
+  date: string;
+  before: RateInventoryValues | null;
+  after: RateInventoryValues | null;
+}
+
+export interface ChangeRequest {
+  id: string;
+  propertyId: string;
+  requestedBy: string;
+  status: ChangeRequestStatus;
+  operation: ChangeRequestOperation;
+  entityType: string;
+  permissions: string[];
+  summary?: string;
+  requestComment?: string;
+  diffs: ChangeRequestDiff[];
+  approverRoles: string[];
+  escalationLevel: number;
+  escalatedAt?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewComment?: string;
+  appliedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Returned by rate inventory writes that were staged for approval
+ */
+export interface ChangeRequestSubmission {
+  pendingApproval: boolean;
+  changeRequest: ChangeRequest;
+}
+
+export interface ChangeRequestQueryParams {
+  status?: ChangeRequestStatus;
+  requestedBy?: string;
+}
+
+export interface NotificationTemplate {
+  subject: string;
+  body: string;
+  channels: ('email' | 'sms' | 'push' | 'slack' | 'teams')[];
+  urgency: 'low' | 'medium' | 'high' | 'critical';
+}
+
+export interface EscalationRule {
+  condition: 'ALWAYS' | ChangeRequestOperation;
+  delay: number; // minutes
+  escalateTo: string[];
+  notification?: NotificationTemplate;
+}
+
+export interface ApprovalWorkflow {
+  propertyId: string;
+  required: boolean;
+  approvers: string[];
+  threshold: number | null;
+  autoApprove: boolean;
+  escalation: EscalationRule[];
+}
+
+export type UpdateApprovalWorkflowRequest = Partial<Omit<ApprovalWorkflow, 'propertyId'>>;
+
+export const isChangeRequestSubmission = (value: any): value is ChangeRequestSubmission =>
+  !!value && typeof value === 'object' && 'pendingApproval' in value && 'changeRequest' in value;
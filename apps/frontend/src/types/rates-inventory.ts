@@ -172,6 +172,46 @@ export interface ValidationError {
   code?: string;
 }
 
+export type ValidationSeverity = 'ERROR' | 'WARNING';
+
+export interface ValidationIssue extends ValidationError {
+  code: string;
+  severity: ValidationSeverity;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export interface RateConsistencyParams {
+  startDate: Date;
+  endDate: Date;
+  roomTypeId?: string;
+  ratePlanId?: string;
+}
+
+export interface RateConsistencyResult {
+  id: string;
+  date: string;
+  roomTypeId: string;
+  ratePlanId: string;
+  channelId: string;
+  channelName: string;
+  rate: number;
+  warnings: ValidationIssue[];
+}
+
+export interface RateConsistencyReport {
+  propertyId: string;
+  startDate: string;
+  endDate: string;
+  checkedCount: number;
+  inconsistentCount: number;
+  results: RateConsistencyResult[];
+}
+
 export interface ApiError {
   message: string;
   statusCode: number;
@@ -0,0 +1,440 @@
+/**
+ * Automation Rule Builder
+ * Form for the conditions, action, scope and mode of an automation rule, with a live preview of its matches
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { AlertTriangle, Eye, Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import { describeMetrics } from '../lib/automation-rules';
+import {
+  RULE_ACTION_LABELS,
+  RULE_METRIC_LABELS,
+  RULE_STATUS_LABELS,
+  type AutomationRule,
+  type AutomationRuleInput,
+  type AutomationRuleStatus,
+  type RuleAction,
+  type RuleActionType,
+  type RuleCondition,
+  type RuleConditionMetric,
+  type RuleOperator,
+  type RulePreview,
+  type RuleScopeOption,
+} from '../types/automation-rules';
+
+interface AutomationRuleBuilderProps {
+  rule?: AutomationRule; // Edited rule; a new rule when absent
+  roomTypes?: RuleScopeOption[];
+  ratePlans?: RuleScopeOption[];
+  channels?: RuleScopeOption[];
+  isSaving: boolean;
+  onSave: (input: AutomationRuleInput) => Promise<boolean>;
+  onPreview: (input: AutomationRuleInput) => Promise<RulePreview>;
+  onCancel: () => void;
+}
+
+const OPERATORS: RuleOperator[] = ['>', '>=', '=', '<=', '<'];
+const METRICS = Object.keys(RULE_METRIC_LABELS) as RuleConditionMetric[];
+const ACTIONS = Object.keys(RULE_ACTION_LABELS) as RuleActionType[];
+const STATUSES = Object.keys(RULE_STATUS_LABELS) as AutomationRuleStatus[];
+
+const DEFAULT_CONDITIONS: Record<RuleConditionMetric, RuleCondition> = {
+  OCCUPANCY: { metric: 'OCCUPANCY', operator: '>', value: 75 },
+  DAYS_OUT: { metric: 'DAYS_OUT', operator: '<=', value: 7 },
+  COMPETITOR_POSITION: { metric: 'COMPETITOR_POSITION', operator: '<', value: -5 },
+  PICKUP: { metric: 'PICKUP', operator: '<', value: 3, pickupDays: 7 },
+  EVENT: { metric: 'EVENT', present: true },
+};
+
+const inputClass = 'h-9 px-3 rounded-lg border border-gray-300 bg-white text-sm';
+
+function ScopeField({
+  label,
+  options,
+  selected,
+  onChange,
+}: {
+  label: string;
+  options?: RuleScopeOption[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+}) {
+  // Without option lists the scope is entered as comma-separated IDs
+  if (!options) {
+    return (
+      <label className="block text-sm">
+        <span className="text-gray-600">{label} (IDs, all when empty)</span>
+        <input
+          value={selected.join(', ')}
+          onChange={e => onChange(e.target.value.split(',').map(id => id.trim()).filter(Boolean))}
+          className={`${inputClass} w-full mt-1`}
+        />
+      </label>
+    );
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="text-gray-600 mb-1">{label} {selected.length === 0 && <span className="text-gray-400">(all)</span>}</div>
+      <div className="flex flex-wrap gap-2">
+        {options.map(option => {
+          const isSelected = selected.includes(option.id);
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => onChange(isSelected ? selected.filter(id => id !== option.id) : [...selected, option.id])}
+              className={`px-2 py-1 rounded-full border text-xs ${
+                isSelected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700'
+              }`}
+            >
+              {option.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default function AutomationRuleBuilder({
+  rule,
+  roomTypes,
+  ratePlans,
+  channels,
+  isSaving,
+  onSave,
+  onPreview,
+  onCancel,
+}: AutomationRuleBuilderProps) {
+  const [name, setName] = useState(rule?.name ?? '');
+  const [description, setDescription] = useState(rule?.description ?? '');
+  const [status, setStatus] = useState<AutomationRuleStatus>(rule?.status ?? 'TESTING');
+  const [conditions, setConditions] = useState<RuleCondition[]>(rule?.conditions ?? [DEFAULT_CONDITIONS.OCCUPANCY]);
+  const [action, setAction] = useState<RuleAction>(rule?.action ?? { type: 'ADJUST_RATE', value: 10, unit: 'PERCENT' });
+  const [roomTypeIds, setRoomTypeIds] = useState<string[]>(rule?.roomTypeIds ?? []);
+  const [ratePlanIds, setRatePlanIds] = useState<string[]>(rule?.ratePlanIds ?? []);
+  const [horizonDays, setHorizonDays] = useState(rule?.horizonDays ?? 30);
+  const [cooldownHours, setCooldownHours] = useState(rule?.cooldownHours ?? 24);
+  const [preview, setPreview] = useState<RulePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const toInput = (): AutomationRuleInput => ({
+    name: name.trim(),
+    description: description.trim() || undefined,
+    status,
+    conditions,
+    action,
+    roomTypeIds,
+    ratePlanIds,
+    horizonDays,
+    cooldownHours,
+  });
+
+  const updateCondition = (index: number, changes: Partial<RuleCondition>) => {
+    setConditions(prev => prev.map((condition, i) => i === index ? { ...condition, ...changes } : condition));
+    setPreview(null);
+  };
+
+  const changeMetric = (index: number, metric: RuleConditionMetric) => {
+    setConditions(prev => prev.map((condition, i) => i === index ? DEFAULT_CONDITIONS[metric] : condition));
+    setPreview(null);
+  };
+
+  const changeActionType = (type: RuleActionType) => {
+    setAction(
+      type === 'ADJUST_RATE' ? { type, value: 10, unit: 'PERCENT' } :
+      type === 'SET_MIN_LOS' ? { type, value: 2 } :
+      { type, channelId: channels?.[0]?.id },
+    );
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      setPreview(await onPreview(toInput()));
+      setFormError(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setFormError('Give the rule a name');
+      return;
+    }
+    setFormError(null);
+    if (await onSave(toInput())) {
+      onCancel();
+    }
+  };
+
+  return (
+    <section className="bg-white border border-gray-200 rounded-xl shadow-sm">
+      <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="font-semibold text-gray-900">{rule ? `Edit “${rule.name}”` : 'New automation rule'}</h2>
+        <button onClick={onCancel} className="p-1 text-gray-400 hover:text-gray-600" aria-label="Close rule builder">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Name and mode */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="block text-sm md:col-span-2">
+            <span className="text-gray-600">Name</span>
+            <input value={name} onChange={e => setName(e.target.value)} className={`${inputClass} w-full mt-1`} />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-600">Mode</span>
+            <select
+              value={status}
+              onChange={e => setStatus(e.target.value as AutomationRuleStatus)}
+              className={`${inputClass} w-full mt-1`}
+            >
+              {STATUSES.map(option => (
+                <option key={option} value={option}>{RULE_STATUS_LABELS[option]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm md:col-span-3">
+            <span className="text-gray-600">Description</span>
+            <input
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              className={`${inputClass} w-full mt-1`}
+            />
+          </label>
+        </div>
+
+        {/* Conditions */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">When all of these hold for a stay date</h3>
+          <div className="space-y-2">
+            {conditions.map((condition, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <select
+                  value={condition.metric}
+                  onChange={e => changeMetric(index, e.target.value as RuleConditionMetric)}
+                  className={inputClass}
+                >
+                  {METRICS.map(metric => (
+                    <option key={metric} value={metric}>{RULE_METRIC_LABELS[metric]}</option>
+                  ))}
+                </select>
+
+                {condition.metric === 'EVENT' ? (
+                  <select
+                    value={condition.present ? 'yes' : 'no'}
+                    onChange={e => updateCondition(index, { present: e.target.value === 'yes' })}
+                    className={inputClass}
+                  >
+                    <option value="yes">is on the date</option>
+                    <option value="no">is not on the date</option>
+                  </select>
+                ) : (
+                  <>
+                    {condition.metric === 'PICKUP' && (
+                      <select
+                        value={condition.pickupDays ?? 7}
+                        onChange={e => updateCondition(index, { pickupDays: Number(e.target.value) as 1 | 7 })}
+                        className={inputClass}
+                      >
+                        <option value={1}>over 1 day</option>
+                        <option value={7}>over 7 days</option>
+                      </select>
+                    )}
+                    <select
+                      value={condition.operator}
+                      onChange={e => updateCondition(index, { operator: e.target.value as RuleOperator })}
+                      className={`${inputClass} w-20`}
+                    >
+                      {OPERATORS.map(operator => (
+                        <option key={operator} value={operator}>{operator}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      value={condition.value ?? ''}
+                      onChange={e => updateCondition(index, { value: Number(e.target.value) })}
+                      className={`${inputClass} w-24`}
+                    />
+                  </>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => setConditions(prev => prev.filter((_, i) => i !== index))}
+                  disabled={conditions.length === 1}
+                  className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                  aria-label="Remove condition"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setConditions(prev => [...prev, DEFAULT_CONDITIONS.DAYS_OUT])}
+            className="mt-2 inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+          >
+            <Plus className="w-4 h-4" />
+            Add condition
+          </button>
+        </div>
+
+        {/* Action */}
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Then</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={action.type}
+              onChange={e => changeActionType(e.target.value as RuleActionType)}
+              className={inputClass}
+            >
+              {ACTIONS.map(type => (
+                <option key={type} value={type}>{RULE_ACTION_LABELS[type]}</option>
+              ))}
+            </select>
+
+            {action.type === 'ADJUST_RATE' && (
+              <>
+                <input
+                  type="number"
+                  value={action.value ?? ''}
+                  onChange={e => setAction({ ...action, value: Number(e.target.value) })}
+                  className={`${inputClass} w-24`}
+                />
+                <select
+                  value={action.unit ?? 'PERCENT'}
+                  onChange={e => setAction({ ...action, unit: e.target.value as 'AMOUNT' | 'PERCENT' })}
+                  className={inputClass}
+                >
+                  <option value="PERCENT">%</option>
+                  <option value="AMOUNT">amount</option>
+                </select>
+                <span className="text-xs text-gray-500">Negative values lower the rate</span>
+              </>
+            )}
+
+            {action.type === 'SET_MIN_LOS' && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={action.value ?? ''}
+                  onChange={e => setAction({ ...action, value: Number(e.target.value) })}
+                  className={`${inputClass} w-20`}
+                />
+                <span className="text-sm text-gray-600">nights</span>
+              </>
+            )}
+
+            {action.type === 'CLOSE_CHANNEL' && (channels ? (
+              <select
+                value={action.channelId ?? ''}
+                onChange={e => setAction({ ...action, channelId: e.target.value })}
+                className={inputClass}
+              >
+                {channels.map(channel => (
+                  <option key={channel.id} value={channel.id}>{channel.name}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                placeholder="Channel ID"
+                value={action.channelId ?? ''}
+                onChange={e => setAction({ ...action, channelId: e.target.value.trim() })}
+                className={inputClass}
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* Scope */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <ScopeField label="Room types" options={roomTypes} selected={roomTypeIds} onChange={setRoomTypeIds} />
+          <ScopeField label="Rate plans" options={ratePlans} selected={ratePlanIds} onChange={setRatePlanIds} />
+          <label className="block text-sm">
+            <span className="text-gray-600">Look ahead (days)</span>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={horizonDays}
+              onChange={e => setHorizonDays(Number(e.target.value))}
+              className={`${inputClass} w-full mt-1`}
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-600">Cooldown per date (hours)</span>
+            <input
+              type="number"
+              min={1}
+              max={720}
+              value={cooldownHours}
+              onChange={e => setCooldownHours(Number(e.target.value))}
+              className={`${inputClass} w-full mt-1`}
+            />
+          </label>
+        </div>
+
+        {formError && (
+          <div className="flex items-center gap-2 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {formError}
+          </div>
+        )}
+
+        {/* Preview */}
+        {preview && (
+          <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm">
+            <div className="font-medium text-blue-900 mb-2">
+              Matches {preview.total} stay date{preview.total === 1 ? '' : 's'} now
+              {preview.total > preview.matches.length && ` (first ${preview.matches.length} shown)`}
+            </div>
+            {preview.matches.length > 0 && (
+              <div className="max-h-48 overflow-y-auto space-y-1 text-blue-800">
+                {preview.matches.map(match => (
+                  <div key={`${match.roomTypeId}-${match.stayDate}`} className="flex gap-3">
+                    <span className="font-mono">{match.stayDate}</span>
+                    <span>{match.roomTypeCode}</span>
+                    <span className="text-blue-600">{describeMetrics(match.metrics)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={handlePreview}
+            disabled={isPreviewing}
+            className="h-9 px-3 inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white text-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isPreviewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+            Preview matches
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="h-9 px-3 inline-flex items-center gap-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save rule
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,331 @@
+/**
+ * Automation Rules Manager
+ * Lists a property's automation rules with their performance, and opens the rule builder
+ */
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Bed,
+  DollarSign,
+  FlaskConical,
+  History,
+  Loader2,
+  Pause,
+  Pencil,
+  Play,
+  Plus,
+  RefreshCw,
+  Share2,
+  ShieldOff,
+  Trash2,
+} from 'lucide-react';
+import AutomationRuleBuilder from './AutomationRuleBuilder';
+import { useAutomationRules } from '../hooks/useAutomationRules';
+import { describeAction, describeCondition, describeMetrics } from '../lib/automation-rules';
+import {
+  RULE_STATUS_LABELS,
+  type AutomationRule,
+  type AutomationRuleStatus,
+  type AutomationRuleType,
+  type RuleExecutionStatus,
+} from '../types/automation-rules';
+
+interface AutomationRulesManagerProps {
+  propertyId?: string;
+}
+
+const STATUS_STYLES: Record<AutomationRuleStatus, string> = {
+  ACTIVE: 'bg-green-100 text-green-700',
+  PAUSED: 'bg-amber-100 text-amber-700',
+  TESTING: 'bg-blue-100 text-blue-700',
+};
+
+const EXECUTION_STYLES: Record<RuleExecutionStatus, string> = {
+  APPLIED: 'text-green-700',
+  SHADOW: 'text-blue-700',
+  FAILED: 'text-red-700',
+};
+
+const TYPE_ICONS: Record<AutomationRuleType, React.ComponentType<{ className?: string }>> = {
+  PRICING: DollarSign,
+  INVENTORY: Bed,
+  CHANNEL: Share2,
+};
+
+function formatTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+export default function AutomationRulesManager({ propertyId }: AutomationRulesManagerProps) {
+  const {
+    rules,
+    executions,
+    isLoading,
+    isSaving,
+    error,
+    isForbidden,
+    refresh,
+    saveRule,
+    setStatus,
+    deleteRule,
+    previewRule,
+    loadExecutions,
+  } = useAutomationRules(propertyId);
+  // undefined: builder closed; null: new rule
+  const [editing, setEditing] = useState<AutomationRule | null | undefined>(undefined);
+  const [historyRuleId, setHistoryRuleId] = useState<string | null>(null);
+
+  const toggleHistory = (ruleId: string) => {
+    if (historyRuleId === ruleId) {
+      setHistoryRuleId(null);
+      return;
+    }
+    setHistoryRuleId(ruleId);
+    loadExecutions(ruleId);
+  };
+
+  const handleDelete = (rule: AutomationRule) => {
+    if (window.confirm(`Delete “${rule.name}” and its execution history?`)) {
+      deleteRule(rule.id);
+    }
+  };
+
+  if (isForbidden) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <ShieldOff className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-lg font-semibold text-gray-900 mb-2">Automation rules unavailable</h1>
+          <p className="text-sm text-gray-600">
+            Managing automation rules requires a revenue manager or corporate admin role.
+          </p>
+          <Link href="/" className="inline-block mt-4 text-sm text-blue-600 hover:underline">
+            Back to rates grid
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const totalImpact = rules.reduce((sum, rule) => sum + rule.performance.revenueImpact, 0);
+  const totalTriggers = rules.reduce((sum, rule) => sum + rule.performance.timesTriggered, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-6 py-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-1">
+              <ArrowLeft className="w-4 h-4" />
+              Rates grid
+            </Link>
+            <h1 className="text-2xl font-semibold text-gray-900">Automation Rules</h1>
+            <p className="text-sm text-gray-500">
+              {rules.filter(rule => rule.status === 'ACTIVE').length} active •{' '}
+              {rules.filter(rule => rule.status === 'TESTING').length} testing •{' '}
+              {totalTriggers} triggers • {totalImpact.toLocaleString(undefined, { maximumFractionDigits: 0 })} revenue impact
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={refresh}
+              disabled={isLoading}
+              className="h-9 px-3 inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white text-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              Refresh
+            </button>
+            <button
+              onClick={() => setEditing(null)}
+              className="h-9 px-3 inline-flex items-center gap-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              New rule
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {editing !== undefined && (
+          <AutomationRuleBuilder
+            key={editing?.id ?? 'new'}
+            rule={editing ?? undefined}
+            isSaving={isSaving}
+            onSave={input => saveRule(input, editing?.id)}
+            onPreview={previewRule}
+            onCancel={() => setEditing(undefined)}
+          />
+        )}
+
+        {/* Rules */}
+        <section className="space-y-3">
+          {rules.length === 0 && !isLoading && (
+            <div className="bg-white border border-gray-200 rounded-xl p-8 text-center text-sm text-gray-500">
+              No automation rules yet. New rules start in testing, where matches are recorded without changing rates.
+            </div>
+          )}
+
+          {rules.map(rule => {
+            const TypeIcon = TYPE_ICONS[rule.type] ?? DollarSign;
+            const history = executions[rule.id];
+
+            return (
+              <div key={rule.id} className="bg-white border border-gray-200 rounded-xl shadow-sm">
+                <div className="p-4 flex flex-wrap items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <TypeIcon className="w-4 h-4 text-gray-500" />
+                      <h2 className="font-semibold text-gray-900">{rule.name}</h2>
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[rule.status]}`}>
+                        {RULE_STATUS_LABELS[rule.status]}
+                      </span>
+                    </div>
+                    {rule.description && <p className="text-sm text-gray-500 mb-2">{rule.description}</p>}
+                    <div className="text-sm text-gray-700">
+                      <strong>When</strong> {rule.conditions.map(describeCondition).join(' and ')}
+                    </div>
+                    <div className="text-sm text-gray-700">
+                      <strong>Then</strong> {describeAction(rule.action)}
+                      <span className="text-gray-500">
+                        {' '}• next {rule.horizonDays} days
+                        {rule.roomTypeIds.length > 0 && ` • ${rule.roomTypeIds.length} room types`}
+                        {rule.ratePlanIds.length > 0 && ` • ${rule.ratePlanIds.length} rate plans`}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-4 gap-4 text-sm text-right">
+                    <div>
+                      <div className="font-semibold text-gray-900">{rule.performance.timesTriggered}</div>
+                      <div className="text-xs text-gray-500">Triggered</div>
+                    </div>
+                    <div>
+                      <div className="font-semibold text-gray-900">
+                        {rule.performance.successRate !== null ? `${rule.performance.successRate}%` : '—'}
+                      </div>
+                      <div className="text-xs text-gray-500">Success</div>
+                    </div>
+                    <div>
+                      <div className="font-semibold text-green-600">
+                        {rule.performance.revenueImpact.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                      </div>
+                      <div className="text-xs text-gray-500">Revenue impact</div>
+                    </div>
+                    <div>
+                      <div className="font-semibold text-gray-900">{formatTime(rule.performance.lastTriggeredAt)}</div>
+                      <div className="text-xs text-gray-500">Last triggered</div>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="px-4 py-2 border-t border-gray-100 flex flex-wrap gap-2">
+                  {rule.status !== 'ACTIVE' && (
+                    <button
+                      onClick={() => setStatus(rule.id, 'ACTIVE')}
+                      className="inline-flex items-center gap-1 px-2 py-1 rounded text-sm text-green-700 hover:bg-green-50"
+                    >
+                      <Play className="w-4 h-4" />
+                      Activate
+                    </button>
+                  )}
+                  {rule.status !== 'TESTING' && (
+                    <button
+                      onClick={() => setStatus(rule.id, 'TESTING')}
+                      className="inline-flex items-center gap-1 px-2 py-1 rounded text-sm text-blue-700 hover:bg-blue-50"
+                    >
+                      <FlaskConical className="w-4 h-4" />
+                      Test
+                    </button>
+                  )}
+                  {rule.status !== 'PAUSED' && (
+                    <button
+                      onClick={() => setStatus(rule.id, 'PAUSED')}
+                      className="inline-flex items-center gap-1 px-2 py-1 rounded text-sm text-amber-700 hover:bg-amber-50"
+                    >
+                      <Pause className="w-4 h-4" />
+                      Pause
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEditing(rule)}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <Pencil className="w-4 h-4" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => toggleHistory(rule.id)}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <History className="w-4 h-4" />
+                    {historyRuleId === rule.id ? 'Hide executions' : 'Executions'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    className="ml-auto inline-flex items-center gap-1 px-2 py-1 rounded text-sm text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </button>
+                </div>
+
+                {historyRuleId === rule.id && (
+                  <div className="border-t border-gray-100">
+                    {!history ? (
+                      <div className="p-4 text-sm text-gray-500">Loading executions…</div>
+                    ) : history.length === 0 ? (
+                      <div className="p-4 text-sm text-gray-500">The rule has not triggered yet.</div>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead className="bg-gray-50 text-gray-500 text-xs uppercase">
+                          <tr>
+                            <th className="px-4 py-2 text-left">Executed</th>
+                            <th className="px-4 py-2 text-left">Stay date</th>
+                            <th className="px-4 py-2 text-left">Outcome</th>
+                            <th className="px-4 py-2 text-left">Matched on</th>
+                            <th className="px-4 py-2 text-right">Records</th>
+                            <th className="px-4 py-2 text-right">Revenue impact</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {history.map(execution => (
+                            <tr key={execution.id}>
+                              <td className="px-4 py-2 text-gray-600">{formatTime(execution.executedAt)}</td>
+                              <td className="px-4 py-2 font-mono">{execution.stayDate}</td>
+                              <td className={`px-4 py-2 font-medium ${EXECUTION_STYLES[execution.status]}`} title={execution.error ?? undefined}>
+                                {execution.status === 'SHADOW' ? 'Shadow' : execution.status === 'APPLIED' ? 'Applied' : 'Failed'}
+                              </td>
+                              <td className="px-4 py-2 text-gray-600">{describeMetrics(execution.metrics)}</td>
+                              <td className="px-4 py-2 text-right">{execution.changes.length}</td>
+                              <td className="px-4 py-2 text-right">
+                                {execution.revenueImpact !== null
+                                  ? execution.revenueImpact.toLocaleString(undefined, { maximumFractionDigits: 0 })
+                                  : '—'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </section>
+      </div>
+    </div>
+  );
+}
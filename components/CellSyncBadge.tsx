@@ -0,0 +1,39 @@
+import React from 'react';
+import { CheckCircle, Loader2, XCircle } from 'lucide-react';
+import type { CellSyncState } from '../types/publish';
+
+interface CellSyncBadgeProps {
+  state?: CellSyncState;
+}
+
+/**
+ * Cell Sync Badge
+ *
+ * Channel sync state of a published grid cell: pending, synced, or failed
+ * with the reason in the hover title.
+ */
+export default function CellSyncBadge({ state }: CellSyncBadgeProps) {
+  if (!state) return null;
+
+  if (state.status === 'FAILED') {
+    return (
+      <div title={`Sync failed: ${state.reason || 'Unknown error'}`} className="cursor-help">
+        <XCircle className="w-3 h-3 text-red-600 dark:text-red-400" />
+      </div>
+    );
+  }
+
+  if (state.status === 'SUCCESS') {
+    return (
+      <div title="Synced to all channels">
+        <CheckCircle className="w-3 h-3 text-emerald-600 dark:text-emerald-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div title={state.reason || 'Syncing to channels...'}>
+      <Loader2 className="w-3 h-3 text-amber-600 dark:text-amber-400 animate-spin" />
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+/**
+ * Channel Sync Monitor
+ * Operations view of channel sync health: per-channel history, failed records and queue depth
+ */
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import {
+  Activity,
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle,
+  Clock,
+  Loader2,
+  RefreshCw,
+  ShieldOff,
+  XCircle,
+} from 'lucide-react';
+import { useChannelSyncMonitor } from '../hooks/useChannelSyncMonitor';
+import type { ChannelSyncStatus, QueueJobCounts } from '../types/channel-sync';
+
+interface ChannelSyncMonitorProps {
+  propertyId?: string;
+}
+
+const WINDOW_OPTIONS = [6, 24, 72, 168];
+
+const STATUS_STYLES: Record<ChannelSyncStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  IN_PROGRESS: { label: 'Syncing', className: 'bg-blue-100 text-blue-700' },
+  SUCCESS: { label: 'Success', className: 'bg-green-100 text-green-700' },
+  PARTIAL_SUCCESS: { label: 'Partial', className: 'bg-amber-100 text-amber-700' },
+  FAILED: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+  CANCELLED: { label: 'Cancelled', className: 'bg-gray-100 text-gray-500' },
+};
+
+function StatusBadge({ status }: { status: ChannelSyncStatus | null }) {
+  if (!status) {
+    return <span className="text-xs text-gray-400">Never synced</span>;
+  }
+
+  const style = STATUS_STYLES[status] ?? STATUS_STYLES.PENDING;
+  return (
+    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}>
+      {style.label}
+    </span>
+  );
+}
+
+function formatTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function QueueCard({ title, counts }: { title: string; counts?: QueueJobCounts }) {
+  const items: Array<{ label: string; value?: number; className: string }> = [
+    { label: 'Waiting', value: counts?.waiting, className: 'text-gray-900' },
+    { label: 'Active', value: counts?.active, className: 'text-blue-600' },
+    { label: 'Delayed', value: counts?.delayed, className: 'text-amber-600' },
+    { label: 'Failed', value: counts?.failed, className: 'text-red-600' },
+  ];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 shadow-sm">
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-600 mb-3">
+        <Activity className="w-4 h-4" />
+        {title}
+      </div>
+      <div className="grid grid-cols-4 gap-2">
+        {items.map(item => (
+          <div key={item.label}>
+            <div className={`text-2xl font-semibold ${item.className}`}>{item.value ?? '—'}</div>
+            <div className="text-xs text-gray-500">{item.label}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function ChannelSyncMonitor({ propertyId }: ChannelSyncMonitorProps) {
+  const {
+    overview,
+    logs,
+    failures,
+    queueStats,
+    channelId,
+    setChannelId,
+    hours,
+    setHours,
+    autoRefresh,
+    setAutoRefresh,
+    isLoading,
+    error,
+    isForbidden,
+    lastUpdated,
+    refresh,
+  } = useChannelSyncMonitor(propertyId);
+
+  const selectedChannel = overview.find(channel => channel.channelId === channelId);
+
+  if (isForbidden) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <ShieldOff className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-lg font-semibold text-gray-900 mb-2">Sync monitor unavailable</h1>
+          <p className="text-sm text-gray-600">
+            Monitoring channel sync requires the channel_sync.monitor permission (Operations role).
+          </p>
+          <Link href="/" className="inline-block mt-4 text-sm text-blue-600 hover:underline">
+            Back to rates grid
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-6 py-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-1">
+              <ArrowLeft className="w-4 h-4" />
+              Rates grid
+            </Link>
+            <h1 className="text-2xl font-semibold text-gray-900">Channel Sync Monitor</h1>
+            <p className="text-sm text-gray-500">
+              {lastUpdated ? `Updated ${lastUpdated.toLocaleTimeString()}` : 'Loading…'}
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <select
+              value={hours}
+              onChange={e => setHours(Number(e.target.value))}
+              className="h-9 px-3 rounded-lg border border-gray-300 bg-white text-sm"
+            >
+              {WINDOW_OPTIONS.map(option => (
+                <option key={option} value={option}>
+                  Last {option < 48 ? `${option} hours` : `${option / 24} days`}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={autoRefresh}
+                onChange={e => setAutoRefresh(e.target.checked)}
+              />
+              Auto-refresh
+            </label>
+            <button
+              onClick={refresh}
+              disabled={isLoading}
+              className="h-9 px-3 inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white text-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {/* Queue depth */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <QueueCard title="Sync queue" counts={queueStats?.sync} />
+          <QueueCard title="Retry queue" counts={queueStats?.retry} />
+        </div>
+
+        {/* Channels */}
+        <section className="bg-white border border-gray-200 rounded-xl shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="font-semibold text-gray-900">Channels</h2>
+            {selectedChannel && (
+              <button onClick={() => setChannelId(undefined)} className="text-sm text-blue-600 hover:underline">
+                Show all channels
+              </button>
+            )}
+          </div>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500 text-xs uppercase">
+              <tr>
+                <th className="px-4 py-2 text-left">Channel</th>
+                <th className="px-4 py-2 text-left">Last status</th>
+                <th className="px-4 py-2 text-left">Last sync</th>
+                <th className="px-4 py-2 text-right">Syncs</th>
+                <th className="px-4 py-2 text-right">Failed syncs</th>
+                <th className="px-4 py-2 text-right">Records synced</th>
+                <th className="px-4 py-2 text-right">Records failing</th>
+                <th className="px-4 py-2 text-right">Avg duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              {overview.map(channel => (
+                <tr
+                  key={channel.channelId}
+                  onClick={() => setChannelId(channel.channelId === channelId ? undefined : channel.channelId)}
+                  className={`border-t border-gray-100 cursor-pointer hover:bg-gray-50 ${
+                    channel.channelId === channelId ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <td className="px-4 py-2">
+                    <div className="font-medium text-gray-900">{channel.channelName}</div>
+                    <div className="text-xs text-gray-500">
+                      {channel.providerType ?? 'No provider'}
+                      {!channel.syncEnabled && ' · sync disabled'}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2">
+                    <StatusBadge status={channel.lastStatus} />
+                    {channel.lastError && (
+                      <div className="text-xs text-red-600 truncate max-w-xs" title={channel.lastError}>
+                        {channel.lastError}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">{formatTime(channel.lastSyncAt)}</td>
+                  <td className="px-4 py-2 text-right">
+                    {channel.syncCount}
+                    {channel.pendingSyncCount > 0 && (
+                      <span className="ml-1 text-xs text-blue-600">({channel.pendingSyncCount} open)</span>
+                    )}
+                  </td>
+                  <td className={`px-4 py-2 text-right ${channel.failedSyncCount ? 'text-red-600 font-medium' : ''}`}>
+                    {channel.failedSyncCount}
+                  </td>
+                  <td className="px-4 py-2 text-right">{channel.recordsSynced}</td>
+                  <td className={`px-4 py-2 text-right ${channel.failedRecords ? 'text-red-600 font-medium' : ''}`}>
+                    {channel.failedRecords}
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-600">{formatDuration(channel.averageDuration)}</td>
+                </tr>
+              ))}
+              {overview.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-center text-gray-500">
+                    No channels are mapped to this property
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </section>
+
+        {/* History */}
+        <section className="bg-white border border-gray-200 rounded-xl shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-900">
+              Sync history{selectedChannel ? ` · ${selectedChannel.channelName}` : ''}
+            </h2>
+          </div>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500 text-xs uppercase">
+              <tr>
+                <th className="px-4 py-2 text-left">Started</th>
+                <th className="px-4 py-2 text-left">Channel</th>
+                <th className="px-4 py-2 text-left">Operation</th>
+                <th className="px-4 py-2 text-left">Status</th>
+                <th className="px-4 py-2 text-right">Synced</th>
+                <th className="px-4 py-2 text-right">Failed</th>
+                <th className="px-4 py-2 text-right">Retried</th>
+                <th className="px-4 py-2 text-right">Duration</th>
+                <th className="px-4 py-2 text-left">Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {logs.map(log => (
+                <tr key={log.id} className="border-t border-gray-100">
+                  <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{formatTime(log.startedAt)}</td>
+                  <td className="px-4 py-2">{log.channel}</td>
+                  <td className="px-4 py-2 text-gray-600">{log.operation}</td>
+                  <td className="px-4 py-2"><StatusBadge status={log.status} /></td>
+                  <td className="px-4 py-2 text-right">{log.successCount}/{log.totalRecords}</td>
+                  <td className={`px-4 py-2 text-right ${log.failedCount ? 'text-red-600' : ''}`}>{log.failedCount}</td>
+                  <td className="px-4 py-2 text-right">{log.retriedCount}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{formatDuration(log.duration)}</td>
+                  <td className="px-4 py-2 text-xs text-red-600 truncate max-w-xs" title={log.errorMessage ?? undefined}>
+                    {log.errorMessage}
+                  </td>
+                </tr>
+              ))}
+              {logs.length === 0 && (
+                <tr>
+                  <td colSpan={9} className="px-4 py-6 text-center text-gray-500">
+                    <Clock className="w-5 h-5 mx-auto mb-1 opacity-50" />
+                    No syncs recorded yet
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </section>
+
+        {/* Failures */}
+        <section className="bg-white border border-gray-200 rounded-xl shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200 flex items-center gap-2">
+            {failures.length ? (
+              <XCircle className="w-4 h-4 text-red-500" />
+            ) : (
+              <CheckCircle className="w-4 h-4 text-green-500" />
+            )}
+            <h2 className="font-semibold text-gray-900">
+              Failed records{selectedChannel ? ` · ${selectedChannel.channelName}` : ''}
+            </h2>
+          </div>
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500 text-xs uppercase">
+              <tr>
+                <th className="px-4 py-2 text-left">Channel</th>
+                <th className="px-4 py-2 text-left">Room / Rate</th>
+                <th className="px-4 py-2 text-left">Stay date</th>
+                <th className="px-4 py-2 text-left">Error</th>
+                <th className="px-4 py-2 text-left">Last attempt</th>
+              </tr>
+            </thead>
+            <tbody>
+              {failures.map(record => (
+                <tr key={record.id} className="border-t border-gray-100">
+                  <td className="px-4 py-2">{record.channelName}</td>
+                  <td className="px-4 py-2 font-mono text-xs">{record.roomTypeCode} / {record.ratePlanCode}</td>
+                  <td className="px-4 py-2">{record.date}</td>
+                  <td className="px-4 py-2 text-red-600">{record.error}</td>
+                  <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{formatTime(record.lastSyncAt)}</td>
+                </tr>
+              ))}
+              {failures.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                    Every record is in sync
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </section>
+      </div>
+    </div>
+  );
+}
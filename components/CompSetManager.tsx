@@ -0,0 +1,563 @@
+/**
+ * Comp Set Manager
+ * Maintains a property's competitors with their room category mapping, and its weighted comp sets
+ */
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Building2,
+  Loader2,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Save,
+  ShieldOff,
+  Star,
+  Trash2,
+  Users,
+  X,
+} from 'lucide-react';
+import { useCompSets } from '../hooks/useCompSets';
+import {
+  COMP_SET_TYPE_LABELS,
+  type CompSet,
+  type CompSetInput,
+  type CompSetType,
+  type Competitor,
+  type CompetitorInput,
+} from '../types/comp-sets';
+
+interface CompSetManagerProps {
+  propertyId?: string;
+}
+
+const TYPE_STYLES: Record<CompSetType, string> = {
+  PRIMARY: 'bg-blue-100 text-blue-700',
+  ASPIRATIONAL: 'bg-purple-100 text-purple-700',
+};
+
+const COMP_SET_TYPES = Object.keys(COMP_SET_TYPE_LABELS) as CompSetType[];
+
+const inputClass = 'h-9 px-3 rounded-lg border border-gray-300 bg-white text-sm';
+
+function CompSetForm({
+  compSet,
+  competitors,
+  isSaving,
+  onSave,
+  onCancel,
+}: {
+  compSet?: CompSet; // Edited comp set; a new one when absent
+  competitors: Competitor[];
+  isSaving: boolean;
+  onSave: (input: CompSetInput) => Promise<boolean>;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(compSet?.name ?? '');
+  const [type, setType] = useState<CompSetType>(compSet?.type ?? 'PRIMARY');
+  const [description, setDescription] = useState(compSet?.description ?? '');
+  // Weight by member competitor
+  const [weights, setWeights] = useState<Record<string, number>>(() =>
+    Object.fromEntries((compSet?.members ?? []).map(member => [member.competitorPropertyId, member.weight])),
+  );
+
+  const toggleMember = (competitorId: string) => {
+    setWeights(prev => {
+      const { [competitorId]: current, ...rest } = prev;
+      return current === undefined ? { ...prev, [competitorId]: 1 } : rest;
+    });
+  };
+
+  const handleSave = async () => {
+    const saved = await onSave({
+      name: name.trim(),
+      type,
+      description: description.trim() || undefined,
+      members: Object.entries(weights).map(([competitorPropertyId, weight]) => ({ competitorPropertyId, weight })),
+    });
+    if (saved) onCancel();
+  };
+
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+
+  return (
+    <div className="bg-white border border-blue-200 rounded-xl shadow-sm p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-gray-900">{compSet ? `Edit ${compSet.name}` : 'New comp set'}</h2>
+        <button onClick={onCancel} className="p-1 rounded hover:bg-gray-100" aria-label="Close">
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="block text-sm">
+          <span className="text-gray-600">Name</span>
+          <input value={name} onChange={e => setName(e.target.value)} className={`${inputClass} w-full mt-1`} />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-600">Type</span>
+          <select
+            value={type}
+            onChange={e => setType(e.target.value as CompSetType)}
+            className={`${inputClass} w-full mt-1`}
+          >
+            {COMP_SET_TYPES.map(option => (
+              <option key={option} value={option}>{COMP_SET_TYPE_LABELS[option]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-600">Description</span>
+          <input value={description} onChange={e => setDescription(e.target.value)} className={`${inputClass} w-full mt-1`} />
+        </label>
+      </div>
+
+      <div className="text-sm">
+        <div className="text-gray-600 mb-2">Members and weights</div>
+        {competitors.length === 0 ? (
+          <p className="text-gray-500">Add competitors before building a comp set.</p>
+        ) : (
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {competitors.map(competitor => {
+              const weight = weights[competitor.id];
+              const isMember = weight !== undefined;
+
+              return (
+                <div key={competitor.id} className="flex items-center gap-3 px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={isMember}
+                    onChange={() => toggleMember(competitor.id)}
+                    disabled={!competitor.isActive && !isMember}
+                  />
+                  <span className={`flex-1 ${competitor.isActive ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {competitor.name}
+                    {!competitor.isActive && ' (inactive)'}
+                  </span>
+                  {isMember && (
+                    <>
+                      <input
+                        type="number"
+                        min={0.1}
+                        max={10}
+                        step={0.1}
+                        value={weight}
+                        onChange={e => setWeights(prev => ({ ...prev, [competitor.id]: Number(e.target.value) }))}
+                        className={`${inputClass} w-24 text-right`}
+                        aria-label={`Weight of ${competitor.name}`}
+                      />
+                      <span className="w-14 text-right text-gray-500">
+                        {totalWeight > 0 ? `${Math.round(weight / totalWeight * 100)}%` : '—'}
+                      </span>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="h-9 px-3 rounded-lg border border-gray-300 bg-white text-sm hover:bg-gray-50">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !name.trim() || totalWeight === 0}
+          className="h-9 px-3 inline-flex items-center gap-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save comp set
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function CompetitorForm({
+  competitor,
+  isSaving,
+  onSave,
+  onCancel,
+}: {
+  competitor?: Competitor; // Edited competitor; a new one when absent
+  isSaving: boolean;
+  onSave: (input: CompetitorInput) => Promise<boolean>;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(competitor?.name ?? '');
+  const [code, setCode] = useState(competitor?.code ?? '');
+  const [address, setAddress] = useState(competitor?.address ?? '');
+  const [starRating, setStarRating] = useState<number | ''>(competitor?.starRating ?? '');
+  const [isActive, setIsActive] = useState(competitor?.isActive ?? true);
+  // Competitor room category → our room type code, as editable rows
+  const [mappings, setMappings] = useState<Array<[string, string]>>(
+    Object.entries(competitor?.roomTypeMappings ?? {}),
+  );
+
+  const updateMapping = (index: number, position: 0 | 1, value: string) => {
+    setMappings(prev => prev.map((mapping, i) => {
+      if (i !== index) return mapping;
+      const next: [string, string] = [...mapping];
+      next[position] = value;
+      return next;
+    }));
+  };
+
+  const handleSave = async () => {
+    const saved = await onSave({
+      name: name.trim(),
+      code: code.trim(),
+      address: address.trim() || undefined,
+      starRating: starRating === '' ? undefined : starRating,
+      isActive,
+      roomTypeMappings: Object.fromEntries(
+        mappings
+          .map(([category, roomTypeCode]) => [category.trim(), roomTypeCode.trim()])
+          .filter(([category, roomTypeCode]) => category && roomTypeCode),
+      ),
+    });
+    if (saved) onCancel();
+  };
+
+  return (
+    <div className="bg-white border border-blue-200 rounded-xl shadow-sm p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-gray-900">{competitor ? `Edit ${competitor.name}` : 'New competitor'}</h2>
+        <button onClick={onCancel} className="p-1 rounded hover:bg-gray-100" aria-label="Close">
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <label className="block text-sm">
+          <span className="text-gray-600">Name</span>
+          <input value={name} onChange={e => setName(e.target.value)} className={`${inputClass} w-full mt-1`} />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-600">Rate shopper code</span>
+          <input
+            value={code}
+            onChange={e => setCode(e.target.value)}
+            disabled={!!competitor}
+            className={`${inputClass} w-full mt-1 disabled:bg-gray-50 disabled:text-gray-500`}
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-600">Address</span>
+          <input value={address} onChange={e => setAddress(e.target.value)} className={`${inputClass} w-full mt-1`} />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-600">Stars</span>
+          <select
+            value={starRating}
+            onChange={e => setStarRating(e.target.value ? Number(e.target.value) : '')}
+            className={`${inputClass} w-full mt-1`}
+          >
+            <option value="">—</option>
+            {[1, 2, 3, 4, 5].map(stars => <option key={stars} value={stars}>{stars}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" checked={isActive} onChange={e => setIsActive(e.target.checked)} />
+        Active — inactive competitors are left out of every market average
+      </label>
+
+      <div className="text-sm">
+        <div className="text-gray-600 mb-2">
+          Room category mapping <span className="text-gray-400">(unmapped categories are read as our room type codes)</span>
+        </div>
+        <div className="space-y-2">
+          {mappings.map(([category, roomTypeCode], index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                value={category}
+                onChange={e => updateMapping(index, 0, e.target.value)}
+                placeholder="Competitor category, e.g. DLX-KING"
+                className={`${inputClass} flex-1`}
+              />
+              <span className="text-gray-400">→</span>
+              <input
+                value={roomTypeCode}
+                onChange={e => updateMapping(index, 1, e.target.value)}
+                placeholder="Our room type code"
+                className={`${inputClass} w-48`}
+              />
+              <button
+                onClick={() => setMappings(prev => prev.filter((_, i) => i !== index))}
+                className="p-2 rounded text-red-600 hover:bg-red-50"
+                aria-label="Remove mapping"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setMappings(prev => [...prev, ['', '']])}
+            className="inline-flex items-center gap-1 px-2 py-1 rounded text-sm text-blue-700 hover:bg-blue-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add mapping
+          </button>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="h-9 px-3 rounded-lg border border-gray-300 bg-white text-sm hover:bg-gray-50">
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !name.trim() || !code.trim()}
+          className="h-9 px-3 inline-flex items-center gap-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save competitor
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function CompSetManager({ propertyId }: CompSetManagerProps) {
+  const {
+    competitors,
+    compSets,
+    isLoading,
+    isSaving,
+    error,
+    isForbidden,
+    refresh,
+    saveCompetitor,
+    saveCompSet,
+    deleteCompSet,
+  } = useCompSets(propertyId);
+  // undefined: form closed; null: new entry
+  const [editingCompSet, setEditingCompSet] = useState<CompSet | null | undefined>(undefined);
+  const [editingCompetitor, setEditingCompetitor] = useState<Competitor | null | undefined>(undefined);
+
+  const handleDelete = (compSet: CompSet) => {
+    if (window.confirm(`Delete “${compSet.name}”? Its competitors are kept.`)) {
+      deleteCompSet(compSet.id);
+    }
+  };
+
+  if (isForbidden) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <ShieldOff className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-lg font-semibold text-gray-900 mb-2">Comp sets unavailable</h1>
+          <p className="text-sm text-gray-600">
+            Managing comp sets requires a revenue manager or corporate admin role.
+          </p>
+          <Link href="/" className="inline-block mt-4 text-sm text-blue-600 hover:underline">
+            Back to rates grid
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const competitorNames = new Map(competitors.map(competitor => [competitor.id, competitor.name]));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-6 py-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-1">
+              <ArrowLeft className="w-4 h-4" />
+              Rates grid
+            </Link>
+            <h1 className="text-2xl font-semibold text-gray-900">Comp Sets</h1>
+            <p className="text-sm text-gray-500">
+              {compSets.length} comp sets • {competitors.filter(competitor => competitor.isActive).length} active competitors •
+              {' '}the primary comp set weights market averages in recommendations
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={refresh}
+              disabled={isLoading}
+              className="h-9 px-3 inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white text-sm hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              Refresh
+            </button>
+            <button
+              onClick={() => setEditingCompetitor(null)}
+              className="h-9 px-3 inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white text-sm hover:bg-gray-50"
+            >
+              <Building2 className="w-4 h-4" />
+              New competitor
+            </button>
+            <button
+              onClick={() => setEditingCompSet(null)}
+              className="h-9 px-3 inline-flex items-center gap-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              New comp set
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {editingCompSet !== undefined && (
+          <CompSetForm
+            key={editingCompSet?.id ?? 'new'}
+            compSet={editingCompSet ?? undefined}
+            competitors={competitors}
+            isSaving={isSaving}
+            onSave={input => saveCompSet(input, editingCompSet?.id)}
+            onCancel={() => setEditingCompSet(undefined)}
+          />
+        )}
+
+        {editingCompetitor !== undefined && (
+          <CompetitorForm
+            key={editingCompetitor?.id ?? 'new'}
+            competitor={editingCompetitor ?? undefined}
+            isSaving={isSaving}
+            onSave={input => saveCompetitor(input, editingCompetitor?.id)}
+            onCancel={() => setEditingCompetitor(undefined)}
+          />
+        )}
+
+        {/* Comp sets */}
+        <section className="space-y-3">
+          {compSets.length === 0 && !isLoading && (
+            <div className="bg-white border border-gray-200 rounded-xl p-8 text-center text-sm text-gray-500">
+              No comp sets yet. Without a primary comp set, every active competitor counts equally in market averages.
+            </div>
+          )}
+
+          {compSets.map(compSet => {
+            const totalWeight = compSet.members.reduce((sum, member) => sum + member.weight, 0);
+
+            return (
+              <div key={compSet.id} className="bg-white border border-gray-200 rounded-xl shadow-sm">
+                <div className="p-4">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Users className="w-4 h-4 text-gray-500" />
+                    <h2 className="font-semibold text-gray-900">{compSet.name}</h2>
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${TYPE_STYLES[compSet.type]}`}>
+                      {COMP_SET_TYPE_LABELS[compSet.type]}
+                    </span>
+                  </div>
+                  {compSet.description && <p className="text-sm text-gray-500 mb-2">{compSet.description}</p>}
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {compSet.members.map(member => (
+                      <span
+                        key={member.competitorPropertyId}
+                        className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-gray-100 text-sm text-gray-700"
+                      >
+                        {member.competitorProperty?.name ?? competitorNames.get(member.competitorPropertyId) ?? member.competitorPropertyId}
+                        <span className="text-gray-500">
+                          ×{member.weight} ({totalWeight > 0 ? Math.round(member.weight / totalWeight * 100) : 0}%)
+                        </span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="px-4 py-2 border-t border-gray-100 flex flex-wrap gap-2">
+                  <button
+                    onClick={() => setEditingCompSet(compSet)}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <Pencil className="w-4 h-4" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(compSet)}
+                    className="ml-auto inline-flex items-center gap-1 px-2 py-1 rounded text-sm text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </section>
+
+        {/* Competitors */}
+        <section className="bg-white border border-gray-200 rounded-xl shadow-sm">
+          <div className="px-4 py-3 border-b border-gray-100 font-semibold text-gray-900">Competitors</div>
+          {competitors.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500">
+              No competitors yet. Competitors are also added by rate shops and rate uploads.
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-500 text-xs uppercase">
+                <tr>
+                  <th className="px-4 py-2 text-left">Name</th>
+                  <th className="px-4 py-2 text-left">Code</th>
+                  <th className="px-4 py-2 text-left">Stars</th>
+                  <th className="px-4 py-2 text-left">Room category mapping</th>
+                  <th className="px-4 py-2 text-right">Comp sets</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {competitors.map(competitor => {
+                  const mappings = Object.entries(competitor.roomTypeMappings);
+
+                  return (
+                    <tr key={competitor.id} className={competitor.isActive ? '' : 'text-gray-400'}>
+                      <td className="px-4 py-2 font-medium">
+                        {competitor.name}
+                        {!competitor.isActive && <span className="ml-2 text-xs">(inactive)</span>}
+                      </td>
+                      <td className="px-4 py-2 font-mono">{competitor.code}</td>
+                      <td className="px-4 py-2">
+                        {competitor.starRating ? (
+                          <span className="inline-flex items-center gap-0.5">
+                            {competitor.starRating}
+                            <Star className="w-3 h-3 text-amber-500" />
+                          </span>
+                        ) : '—'}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {mappings.length > 0
+                          ? mappings.map(([category, roomTypeCode]) => `${category} → ${roomTypeCode}`).join(', ')
+                          : '—'}
+                      </td>
+                      <td className="px-4 py-2 text-right">{competitor.compSetIds.length}</td>
+                      <td className="px-4 py-2 text-right">
+                        <button
+                          onClick={() => setEditingCompetitor(competitor)}
+                          className="inline-flex items-center gap-1 px-2 py-1 rounded text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          <Pencil className="w-4 h-4" />
+                          Edit
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
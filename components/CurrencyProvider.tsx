@@ -0,0 +1,105 @@
+/**
+ * Currency Provider
+ * Makes the selected property's currency, its reporting currency and today's
+ * exchange rates available to every component below it
+ */
+
+'use client';
+
+import React, { createContext, useCallback, useEffect, useMemo, useState } from 'react';
+import { currencyApi } from '../lib/api/currency';
+import { convertAmount, DEFAULT_CURRENCY } from '../lib/currency';
+import { formatCurrency as formatInCurrency } from '../lib/utils';
+import type { FxRateTable } from '../types/currency';
+
+export interface CurrencyContextValue {
+  currency: string; // Property currency
+  reportingCurrency: string; // Organization currency for portfolio rollups
+  rates: FxRateTable | null; // Today's rates against the property currency
+  isLoading: boolean;
+  /**
+   * Format an amount, in the property currency unless another is given
+   */
+  formatCurrency: (value: number, currency?: string) => string;
+  /**
+   * Convert an amount to the property currency unless another target is given;
+   * null without an exchange rate
+   */
+  convert: (amount: number, from: string, to?: string) => number | null;
+}
+
+export const CurrencyContext = createContext<CurrencyContextValue>({
+  currency: DEFAULT_CURRENCY,
+  reportingCurrency: DEFAULT_CURRENCY,
+  rates: null,
+  isLoading: false,
+  formatCurrency: (value, currency = DEFAULT_CURRENCY) => formatInCurrency(value, currency),
+  convert: (amount, from, to = DEFAULT_CURRENCY) => from === to ? amount : null,
+});
+
+interface CurrencyProviderProps {
+  propertyId?: string;
+  currency?: string; // Known currency of the selected property; loaded from the API otherwise
+  children: React.ReactNode;
+}
+
+export function CurrencyProvider({ propertyId, currency: knownCurrency, children }: CurrencyProviderProps) {
+  const [propertyCurrency, setPropertyCurrency] = useState<string | null>(null);
+  const [reportingCurrency, setReportingCurrency] = useState(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<FxRateTable | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const currency = knownCurrency ?? propertyCurrency ?? DEFAULT_CURRENCY;
+
+  useEffect(() => {
+    if (!propertyId) {
+      setPropertyCurrency(null);
+      return;
+    }
+
+    let cancelled = false;
+    currencyApi.getPropertyCurrency(propertyId)
+      .then(result => {
+        if (!cancelled) {
+          setPropertyCurrency(result.currency);
+          setReportingCurrency(result.reportingCurrency);
+        }
+      })
+      // Without the backend, amounts keep the known or default currency
+      .catch(() => !cancelled && setPropertyCurrency(null));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [propertyId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    currencyApi.getRates(currency)
+      .then(table => !cancelled && setRates(table))
+      .catch(() => !cancelled && setRates(null))
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currency]);
+
+  const formatCurrency = useCallback(
+    (value: number, target: string = currency) => formatInCurrency(value, target),
+    [currency],
+  );
+
+  const convert = useCallback(
+    (amount: number, from: string, to: string = currency) => convertAmount(amount, from, to, rates),
+    [currency, rates],
+  );
+
+  const value = useMemo<CurrencyContextValue>(
+    () => ({ currency, reportingCurrency, rates, isLoading, formatCurrency, convert }),
+    [currency, reportingCurrency, rates, isLoading, formatCurrency, convert],
+  );
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
@@ -9,6 +9,9 @@ import {
   Shield, X, Plus, Save, Upload, Calendar, Building, Settings, Eye, 
   Trash2, Clock, MapPin, Target, ChevronDown, ChevronUp 
 } from 'lucide-react';
+import { useRestrictionRules } from '../hooks/useRestrictionRules';
+import { toRestrictionRuleType } from '../lib/restriction-rules';
+import type { RestrictionRuleInput } from '../types/restriction-rules';
 
 // Types
 interface RestrictionType {
@@ -36,6 +39,7 @@ interface BulkRestriction {
   createdBy: string;
   createdAt: Date;
   notes?: string;
+  ruleId?: string; // Restriction rule the restriction was saved as
 }
 
 interface Props {
@@ -44,6 +48,7 @@ interface Props {
   isDark?: boolean;
   onPublishConfirmation: () => void;
   logEvent: (event: any) => void;
+  propertyId?: string;
 }
 
 const restrictionTypes: RestrictionType[] = [
@@ -144,7 +149,8 @@ export default function EnhancedBulkRestrictions({
   onClose, 
   isDark = false, 
   onPublishConfirmation,
-  logEvent 
+  logEvent,
+  propertyId
 }: Props) {
   const [selectedRestrictionType, setSelectedRestrictionType] = useState<RestrictionType | null>(null);
   const [restrictionForm, setRestrictionForm] = useState({
@@ -157,6 +163,50 @@ export default function EnhancedBulkRestrictions({
   });
   const [bulkRestrictions, setBulkRestrictions] = useState<BulkRestriction[]>([]);
   const [isMobile, setIsMobile] = useState(false);
+  const { createRule, activateRule, isSaving } = useRestrictionRules(propertyId);
+
+  const toRuleInput = (restriction: BulkRestriction, status: 'DRAFT' | 'ACTIVE'): RestrictionRuleInput | null => {
+    const type = toRestrictionRuleType(restriction.restrictionType.id);
+    if (!type) return null;
+
+    return {
+      restriction: type,
+      value: restriction.value ? parseInt(restriction.value) : undefined,
+      startDate: restriction.dateRange.start,
+      endDate: restriction.dateRange.end,
+      roomTypes: restriction.targets.roomTypes,
+      ratePlans: restriction.targets.ratePlans,
+      channels: restriction.targets.channels,
+      status,
+      notes: restriction.notes || undefined
+    };
+  };
+
+  /**
+   * Save restrictions as restriction rules; publishing activates drafts saved
+   * before. Resolves to the number of restrictions that could not be saved.
+   */
+  const persistRestrictions = async (status: 'DRAFT' | 'ACTIVE'): Promise<number> => {
+    let failed = 0;
+    const saved: BulkRestriction[] = [];
+
+    for (const restriction of bulkRestrictions) {
+      if (restriction.ruleId) {
+        const activated = status === 'ACTIVE' ? await activateRule(restriction.ruleId) : true;
+        if (!activated) failed++;
+        saved.push(restriction);
+        continue;
+      }
+
+      const input = toRuleInput(restriction, status);
+      const rule = input && await createRule(input);
+      if (!rule) failed++;
+      saved.push(rule ? { ...restriction, ruleId: rule.id } : restriction);
+    }
+
+    setBulkRestrictions(saved);
+    return failed;
+  };
 
   // Check screen size
   useEffect(() => {
@@ -280,8 +330,14 @@ export default function EnhancedBulkRestrictions({
     alert(`✅ Restriction "${selectedRestrictionType!.name}" added successfully!`);
   };
 
-  const handleSaveDraft = () => {
+  const handleSaveDraft = async () => {
     console.log('Saving restrictions as draft:', bulkRestrictions);
+
+    const failed = await persistRestrictions('DRAFT');
+    if (failed > 0) {
+      alert(`${failed} restriction(s) could not be saved. Check the selected property and try again.`);
+      return;
+    }
     
     // Update all restrictions to draft status
     setBulkRestrictions(prev => prev.map(r => ({ ...r, status: 'draft' as const })));
@@ -309,13 +365,19 @@ export default function EnhancedBulkRestrictions({
     alert(`✅ ${bulkRestrictions.length} restriction(s) saved as draft!\n\nYou can continue editing or publish them later.`);
   };
 
-  const handleSaveAndPublish = () => {
+  const handleSaveAndPublish = async () => {
     if (bulkRestrictions.length === 0) {
       alert('Please add at least one restriction before publishing.');
       return;
     }
     
     console.log('Publishing restrictions:', bulkRestrictions);
+
+    const failed = await persistRestrictions('ACTIVE');
+    if (failed > 0) {
+      alert(`${failed} restriction(s) could not be published. Check the selected property and try again.`);
+      return;
+    }
     
     // Update all restrictions to published status
     setBulkRestrictions(prev => prev.map(r => ({ ...r, status: 'published' as const })));
@@ -446,7 +508,7 @@ export default function EnhancedBulkRestrictions({
               {/* Save Draft Button */}
               <button
                 onClick={handleSaveDraft}
-                disabled={bulkRestrictions.length === 0}
+                disabled={bulkRestrictions.length === 0 || isSaving}
                 className="px-4 py-2 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors flex items-center gap-2"
               >
                 <Save className="w-4 h-4" />
@@ -456,7 +518,7 @@ export default function EnhancedBulkRestrictions({
               {/* Save & Publish Button */}
               <button
                 onClick={handleSaveAndPublish}
-                disabled={bulkRestrictions.length === 0}
+                disabled={bulkRestrictions.length === 0 || isSaving}
                 className="px-6 py-2 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-all duration-200 flex items-center gap-2 shadow-lg hover:shadow-xl transform hover:scale-105"
               >
                 <Upload className="w-4 h-4" />
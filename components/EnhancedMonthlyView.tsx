@@ -14,6 +14,7 @@ import {
   CheckSquare, Square, MoreHorizontal, Copy, Edit3, Save, X
 } from 'lucide-react';
 import { RevenueAnalytics } from './RevenueAnalytics';
+import { useCurrency } from '../hooks/useCurrency';
 
 // Enhanced interfaces for world-class functionality
 interface RevenueCellData {
@@ -56,6 +57,8 @@ export const EnhancedMonthlyView: React.FC<MonthlyViewProps> = ({
   setMonthlyViewDate,
   sampleRoomTypes,
 }) => {
+  const { formatCurrency: formatInCurrency } = useCurrency();
+
   // Advanced state management
   const [viewMode, setViewMode] = useState<'calendar' | 'grid' | 'analytics'>('calendar');
   const [selectedMetric, setSelectedMetric] = useState<'adr' | 'revpar' | 'occupancy' | 'variance'>('revpar');
@@ -166,13 +169,8 @@ export const EnhancedMonthlyView: React.FC<MonthlyViewProps> = ({
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      maximumFractionDigits: 0
-    }).format(amount / 100);
-  };
+  // Amounts are in minor units of the property currency
+  const formatCurrency = (amount: number) => formatInCurrency(amount / 100);
 
   const formatPercentage = (value: number) => {
     return `${value.toFixed(1)}%`;
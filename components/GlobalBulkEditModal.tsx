@@ -16,6 +16,7 @@ import {
   Zap, TrendingUp, BarChart3
 } from 'lucide-react';
 import { addDays, subDays, startOfMonth, endOfMonth, eachDayOfInterval, format, isSameDay, isSameMonth, addMonths, subMonths } from 'date-fns';
+import type { DaySelection } from '../types/restriction-rules';
 
 // Enhanced Types for Smart Date Selection
 interface RoomType {
@@ -48,16 +49,6 @@ interface EnhancedDateSelection {
   selectedDates: Date[];
 }
 
-interface DaySelection {
-  monday: boolean;
-  tuesday: boolean;
-  wednesday: boolean;
-  thursday: boolean;
-  friday: boolean;
-  saturday: boolean;
-  sunday: boolean;
-}
-
 interface BulkEditData {
   roomTypes: string[];
   ratePlans: string[];
@@ -7,7 +7,10 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { X, Globe, TrendingUp, TrendingDown, AlertTriangle, Clock, Target, BarChart3, Users, MapPin, ExternalLink, RefreshCw, Filter, ChevronDown, ChevronRight, Eye, EyeOff, Play, Pause, Settings, Bell, BellRing, CheckCircle, XCircle, AlertCircle, Info, Calendar, Building, DollarSign, Activity, Zap, Brain, Sparkles, ChevronUp, ArrowRight, Star, Shield, LineChart, PieChart, Gauge, Bot, Cpu, MessageSquare, Database, Layers, TrendingUp as TrendUp, Search, BookOpen, FileText, Monitor, Bed, CreditCard, Percent, BarChart2, TrendingUpIcon, Hash, Wifi, Phone, Mail } from 'lucide-react';
-import { generateGranularInsights, generateAnalyticsData, generateAutomationData, type EnhancedInsight, type AnalyticsData, type AutomationRule } from '../services/enhanced-insights-data';
+import Link from 'next/link';
+import { generateGranularInsights, generateAnalyticsData, type EnhancedInsight, type AnalyticsData } from '../services/enhanced-insights-data';
+import { useAutomationRules } from '../hooks/useAutomationRules';
+import { describeAction, describeCondition } from '../lib/automation-rules';
 
 interface GlobalNewsInsightsProps {
   isOpen: boolean;
@@ -18,6 +21,7 @@ interface GlobalNewsInsightsProps {
   onDismissInsight: (insight: any) => void;
   onRefreshInsights: () => Promise<void>;
   isLoading?: boolean;
+  propertyId?: string;
 }
 
 export default function GlobalNewsInsights({
@@ -28,7 +32,8 @@ export default function GlobalNewsInsights({
   onApplyInsight,
   onDismissInsight,
   onRefreshInsights,
-  isLoading = false
+  isLoading = false,
+  propertyId
 }: GlobalNewsInsightsProps) {
   const [activeTab, setActiveTab] = useState<'insights' | 'analytics' | 'automation' | 'settings'>('insights');
   const [selectedInsight, setSelectedInsight] = useState<EnhancedInsight | null>(null);
@@ -39,7 +44,10 @@ export default function GlobalNewsInsights({
   // Get enhanced data
   const enhancedInsights = useMemo(() => generateGranularInsights(), []);
   const analyticsData = useMemo(() => generateAnalyticsData(), []);
-  const automationRules = useMemo(() => generateAutomationData(), []);
+  // Rules load once the automation tab is opened
+  const { rules: automationRules, error: automationError } = useAutomationRules(
+    activeTab === 'automation' ? propertyId : undefined
+  );
 
   useEffect(() => {
     if (isOpen) {
@@ -532,18 +540,43 @@ export default function GlobalNewsInsights({
   );
 
   // Enhanced Automation Tab
-  const AutomationTab = () => (
+  const AutomationTab = () => {
+    const ruleTypeStyle = (type: string) =>
+      type === 'PRICING' ? 'bg-green-100 text-green-600' :
+      type === 'INVENTORY' ? 'bg-blue-100 text-blue-600' :
+      'bg-purple-100 text-purple-600';
+    const measuredRules = automationRules.filter(r => r.performance.successRate !== null);
+    const topRule = [...automationRules].sort((a, b) => b.performance.revenueImpact - a.performance.revenueImpact)[0];
+    const mostActiveRule = [...automationRules].sort((a, b) => b.performance.timesTriggered - a.performance.timesTriggered)[0];
+    const testingRule = automationRules.find(r => r.status === 'TESTING');
+
+    return (
     <div className="p-6 space-y-6">
       {/* Automation Overview */}
       <div className={`p-6 rounded-xl ${isDark ? 'bg-gray-800' : 'bg-white'} border ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
-        <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
-          <Bot className="w-6 h-6 text-blue-600" />
-          AI Automation Status Dashboard
-        </h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Bot className="w-6 h-6 text-blue-600" />
+            AI Automation Status Dashboard
+          </h3>
+          {propertyId && (
+            <Link href={`/automation-rules?propertyId=${propertyId}`} className="text-sm text-blue-600 hover:underline flex items-center gap-1">
+              Manage rules
+              <ArrowRight className="w-4 h-4" />
+            </Link>
+          )}
+        </div>
+
+        {automationError && (
+          <div className="mb-4 text-sm text-red-600 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            {automationError}
+          </div>
+        )}
         
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
           <div className={`p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}>
-            <div className="text-2xl font-bold text-green-600">{automationRules.filter(r => r.status === 'active').length}</div>
+            <div className="text-2xl font-bold text-green-600">{automationRules.filter(r => r.status === 'ACTIVE').length}</div>
             <div className="text-sm opacity-75">Active Rules</div>
             <div className="text-xs text-green-600">Running automatically</div>
           </div>
@@ -552,11 +585,13 @@ export default function GlobalNewsInsights({
               {automationRules.reduce((sum, rule) => sum + rule.performance.timesTriggered, 0)}
             </div>
             <div className="text-sm opacity-75">Total Triggers</div>
-            <div className="text-xs text-blue-600">This month</div>
+            <div className="text-xs text-blue-600">Including shadow runs</div>
           </div>
           <div className={`p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}>
             <div className="text-2xl font-bold text-purple-600">
-              {(automationRules.reduce((sum, rule) => sum + rule.performance.successRate, 0) / automationRules.length).toFixed(1)}%
+              {measuredRules.length
+                ? `${(measuredRules.reduce((sum, rule) => sum + (rule.performance.successRate ?? 0), 0) / measuredRules.length).toFixed(1)}%`
+                : '—'}
             </div>
             <div className="text-sm opacity-75">Success Rate</div>
             <div className="text-xs text-purple-600">Average across rules</div>
@@ -566,7 +601,7 @@ export default function GlobalNewsInsights({
               ₹{(automationRules.reduce((sum, rule) => sum + rule.performance.revenueImpact, 0) / 1000000).toFixed(1)}M
             </div>
             <div className="text-sm opacity-75">Revenue Impact</div>
-            <div className="text-xs text-orange-600">Generated by AI</div>
+            <div className="text-xs text-orange-600">From applied rate changes</div>
           </div>
         </div>
       </div>
@@ -575,42 +610,43 @@ export default function GlobalNewsInsights({
       <div className={`p-6 rounded-xl ${isDark ? 'bg-gray-800' : 'bg-white'} border ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
         <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
           <Settings className="w-6 h-6 text-gray-600" />
-          Active Automation Rules
+          Automation Rules
         </h3>
         
         <div className="space-y-4">
+          {automationRules.length === 0 && (
+            <div className="text-sm opacity-75">No automation rules have been set up for this property.</div>
+          )}
           {automationRules.map((rule) => (
             <div key={rule.id} className={`p-4 rounded-lg border ${isDark ? 'border-gray-600 bg-gray-750' : 'border-gray-200 bg-gray-50'}`}>
               <div className="flex items-start justify-between mb-3">
                 <div className="flex-1">
                   <div className="flex items-center gap-3 mb-2">
-                    <div className={`p-2 rounded-lg ${
-                      rule.type === 'pricing' ? 'bg-green-100 text-green-600' :
-                      rule.type === 'inventory' ? 'bg-blue-100 text-blue-600' :
-                      'bg-purple-100 text-purple-600'
-                    }`}>
-                      {rule.type === 'pricing' ? <DollarSign className="w-4 h-4" /> :
-                       rule.type === 'inventory' ? <Bed className="w-4 h-4" /> :
+                    <div className={`p-2 rounded-lg ${ruleTypeStyle(rule.type)}`}>
+                      {rule.type === 'PRICING' ? <DollarSign className="w-4 h-4" /> :
+                       rule.type === 'INVENTORY' ? <Bed className="w-4 h-4" /> :
                        <BarChart3 className="w-4 h-4" />}
                     </div>
                     <h4 className="font-semibold">{rule.name}</h4>
                     <div className={`px-2 py-1 rounded-full text-xs ${
-                      rule.status === 'active' ? 'bg-green-100 text-green-700' :
-                      rule.status === 'paused' ? 'bg-yellow-100 text-yellow-700' :
+                      rule.status === 'ACTIVE' ? 'bg-green-100 text-green-700' :
+                      rule.status === 'PAUSED' ? 'bg-yellow-100 text-yellow-700' :
                       'bg-blue-100 text-blue-700'
                     }`}>
-                      {rule.status.toUpperCase()}
+                      {rule.status}
                     </div>
                   </div>
                   
                   <div className="text-sm mb-2">
-                    <strong>Trigger:</strong> {rule.trigger}
+                    <strong>Trigger:</strong> {rule.conditions.map(describeCondition).join(' AND ')}
                   </div>
                   <div className="text-sm mb-2">
-                    <strong>Action:</strong> {rule.action}
+                    <strong>Action:</strong> {describeAction(rule.action)}
                   </div>
                   <div className="text-sm mb-2">
-                    <strong>Applies to:</strong> {rule.roomTypes.slice(0, 2).join(', ')}{rule.roomTypes.length > 2 && '...'} • {rule.ratePlans.slice(0, 2).join(', ')}{rule.ratePlans.length > 2 && '...'}
+                    <strong>Applies to:</strong>{' '}
+                    {rule.roomTypeIds.length ? `${rule.roomTypeIds.length} room types` : 'All room types'} •{' '}
+                    {rule.ratePlanIds.length ? `${rule.ratePlanIds.length} rate plans` : 'All rate plans'} • next {rule.horizonDays} days
                   </div>
                 </div>
                 
@@ -629,33 +665,34 @@ export default function GlobalNewsInsights({
                 </div>
                 <div>
                   <div className="opacity-75">Success Rate</div>
-                  <div className="font-bold text-green-600">{rule.performance.successRate.toFixed(1)}%</div>
+                  <div className="font-bold text-green-600">
+                    {rule.performance.successRate !== null ? `${rule.performance.successRate.toFixed(1)}%` : '—'}
+                  </div>
                 </div>
                 <div>
                   <div className="opacity-75">Last Triggered</div>
-                  <div className="font-bold">{rule.performance.lastTriggered.toLocaleDateString()}</div>
+                  <div className="font-bold">
+                    {rule.performance.lastTriggeredAt ? new Date(rule.performance.lastTriggeredAt).toLocaleDateString() : 'Never'}
+                  </div>
                 </div>
                 <div>
                   <div className="opacity-75">Status</div>
                   <div className={`font-bold ${
-                    rule.status === 'active' ? 'text-green-600' :
-                    rule.status === 'paused' ? 'text-yellow-600' :
+                    rule.status === 'ACTIVE' ? 'text-green-600' :
+                    rule.status === 'PAUSED' ? 'text-yellow-600' :
                     'text-blue-600'
                   }`}>
-                    {rule.status === 'active' ? 'Running' : rule.status === 'paused' ? 'Paused' : 'Testing'}
+                    {rule.status === 'ACTIVE' ? 'Running' : rule.status === 'PAUSED' ? 'Paused' : 'Testing'}
                   </div>
                 </div>
               </div>
-              
-              <div className="mt-3 p-3 bg-blue-50 dark:bg-blue-900/20 rounded text-sm">
-                <strong>Conditions:</strong> {rule.conditions.join(' • ')}
-              </div>
             </div>
           ))}
         </div>
       </div>
 
       {/* Performance Analytics */}
+      {automationRules.length > 0 && (
       <div className={`p-6 rounded-xl ${isDark ? 'bg-gray-800' : 'bg-white'} border ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
         <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
           <Activity className="w-6 h-6 text-green-600" />
@@ -665,28 +702,32 @@ export default function GlobalNewsInsights({
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div className={`p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}>
             <h4 className="font-semibold mb-2">Top Performing Rule</h4>
-            <div className="text-lg font-bold text-green-600">Weekend Premium Pricing</div>
-            <div className="text-sm opacity-75">89.3% success rate</div>
-            <div className="text-sm text-green-600">₹485,000 generated</div>
+            <div className="text-lg font-bold text-green-600">{topRule.name}</div>
+            <div className="text-sm opacity-75">
+              {topRule.performance.successRate !== null ? `${topRule.performance.successRate.toFixed(1)}% success rate` : 'Not applied yet'}
+            </div>
+            <div className="text-sm text-green-600">₹{topRule.performance.revenueImpact.toLocaleString()} generated</div>
           </div>
           
           <div className={`p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}>
             <h4 className="font-semibold mb-2">Most Active Rule</h4>
-            <div className="text-lg font-bold text-blue-600">Weekend Premium Pricing</div>
-            <div className="text-sm opacity-75">28 triggers this month</div>
-            <div className="text-sm text-blue-600">Every 1.1 days average</div>
+            <div className="text-lg font-bold text-blue-600">{mostActiveRule.name}</div>
+            <div className="text-sm opacity-75">{mostActiveRule.performance.timesTriggered} triggers</div>
           </div>
           
           <div className={`p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}>
             <h4 className="font-semibold mb-2">Testing Phase</h4>
-            <div className="text-lg font-bold text-yellow-600">Channel Optimization</div>
-            <div className="text-sm opacity-75">60% success rate</div>
-            <div className="text-sm text-yellow-600">Needs refinement</div>
+            <div className="text-lg font-bold text-yellow-600">{testingRule ? testingRule.name : 'No rules in testing'}</div>
+            {testingRule && (
+              <div className="text-sm opacity-75">{testingRule.performance.shadowCount} shadow matches recorded</div>
+            )}
           </div>
         </div>
       </div>
+      )}
     </div>
-  );
+    );
+  };
 
   if (!isOpen) return null;
 
@@ -0,0 +1,402 @@
+/**
+ * Import Wizard
+ * Uploads a CSV/XLSX file of rates, inventory and restrictions, maps its columns,
+ * previews the diff against current values and imports the accepted rows
+ */
+'use client';
+
+import React, { useRef } from 'react';
+import {
+  Upload,
+  X,
+  FileSpreadsheet,
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle,
+  AlertTriangle,
+  XCircle,
+  Clock,
+  Loader2,
+} from 'lucide-react';
+import { useRatesImport } from '../hooks/useRatesImport';
+import {
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRowPreview,
+  ImportRowStatus,
+  ImportStep,
+  ImportValues,
+} from '../types/import';
+
+interface ImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  propertyId?: string;
+  onImported?: (summary: string) => void;
+  isDark?: boolean;
+}
+
+const STEPS: Array<{ key: ImportStep; label: string }> = [
+  { key: 'upload', label: 'Upload' },
+  { key: 'mapping', label: 'Map Columns' },
+  { key: 'preview', label: 'Review Changes' },
+  { key: 'complete', label: 'Done' },
+];
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  NEW: { label: 'New', className: 'bg-blue-100 text-blue-700' },
+  CHANGED: { label: 'Changed', className: 'bg-amber-100 text-amber-700' },
+  UNCHANGED: { label: 'Unchanged', className: 'bg-gray-100 text-gray-600' },
+  INVALID: { label: 'Error', className: 'bg-red-100 text-red-700' },
+};
+
+const VALUE_LABELS: Record<keyof ImportValues, string> = {
+  rate: 'Rate',
+  inventory: 'Inventory',
+  minStay: 'Min stay',
+  maxStay: 'Max stay',
+  minStayThrough: 'Min stay through',
+  maxStayThrough: 'Max stay through',
+  minAdvanceBookingDays: 'Min advance days',
+  maxAdvanceBookingDays: 'Max advance days',
+  closedToArrival: 'CTA',
+  closedToDeparture: 'CTD',
+  stopSell: 'Stop sell',
+};
+
+export default function ImportWizard({ isOpen, onClose, propertyId, onImported, isDark = false }: ImportWizardProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const {
+    step,
+    file,
+    mapping,
+    preview,
+    acceptedRows,
+    outcome,
+    error,
+    isLoading,
+    upload,
+    mapColumn,
+    loadPreview,
+    toggleRow,
+    setAllAccepted,
+    commit,
+    goBack,
+    reset,
+  } = useRatesImport(propertyId);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const missingRequired = IMPORT_FIELDS
+    .filter(({ required, field }) => required && !mapping.some(m => m.field === field))
+    .map(({ label }) => label);
+
+  const fieldForColumn = (column: string): ImportField | '' =>
+    mapping.find(m => m.column === column)?.field ?? '';
+
+  const formatValue = (value: unknown) => {
+    if (value === undefined || value === null) return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+  };
+
+  const renderDiff = (row: ImportRowPreview) => (
+    <div className="space-y-1">
+      {row.records.map(record => (
+        <div key={record.channelId} className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+          <span className="font-medium text-gray-500 w-24 truncate">{record.channelCode}</span>
+          {record.changedFields.map(field => (
+            <span key={field} className="whitespace-nowrap">
+              <span className="text-gray-500">{VALUE_LABELS[field]}: </span>
+              <span className="text-gray-400 line-through">{formatValue(record.before?.[field])}</span>
+              <span className="text-gray-400"> → </span>
+              <span className="font-medium">{formatValue(record.after[field])}</span>
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+
+  const stepIndex = STEPS.findIndex(s => s.key === step);
+  const acceptable = preview?.rows.filter(row => row.status === 'NEW' || row.status === 'CHANGED').length ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className={`w-full max-w-5xl mx-4 max-h-[95vh] flex flex-col overflow-hidden rounded-xl shadow-2xl ${
+        isDark ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'
+      }`}>
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
+              <FileSpreadsheet className="w-5 h-5 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold">Import Rates & Inventory</h2>
+              <p className="text-sm text-gray-500">
+                {file ? `${file.fileName} · ${file.rows.length} rows` : 'CSV or Excel file keyed by room type code, rate plan code and date'}
+              </p>
+            </div>
+          </div>
+          <button onClick={handleClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Steps */}
+        <div className="flex items-center gap-2 px-6 py-3 border-b border-gray-200 text-sm">
+          {STEPS.map((s, index) => (
+            <React.Fragment key={s.key}>
+              {index > 0 && <span className="text-gray-300">/</span>}
+              <span className={index === stepIndex
+                ? 'font-semibold text-blue-600'
+                : index < stepIndex ? 'text-gray-700' : 'text-gray-400'}>
+                {index + 1}. {s.label}
+              </span>
+            </React.Fragment>
+          ))}
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <div
+              onClick={() => fileInput.current?.click()}
+              className="flex flex-col items-center justify-center gap-3 p-12 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition-colors"
+            >
+              {isLoading
+                ? <Loader2 className="w-10 h-10 text-blue-500 animate-spin" />
+                : <Upload className="w-10 h-10 text-gray-400" />}
+              <div className="text-center">
+                <p className="font-medium">{isLoading ? 'Reading file...' : 'Choose a .csv or .xlsx file'}</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  One row per room type, rate plan and date. Columns are mapped in the next step.
+                </p>
+              </div>
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,.xlsx"
+                className="hidden"
+                onChange={(e) => {
+                  const selected = e.target.files?.[0];
+                  if (selected) upload(selected);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          )}
+
+          {step === 'mapping' && file && (
+            <div className="border border-gray-200 rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600">
+                  <tr>
+                    <th className="text-left px-4 py-2 font-medium">File Column</th>
+                    <th className="text-left px-4 py-2 font-medium">Sample</th>
+                    <th className="text-left px-4 py-2 font-medium">Maps To</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {file.columns.map(column => (
+                    <tr key={column} className="border-t border-gray-100">
+                      <td className="px-4 py-2 font-medium">{column}</td>
+                      <td className="px-4 py-2 text-gray-500 truncate max-w-[12rem]">
+                        {file.rows.slice(0, 3).map(row => row.values[column]).filter(Boolean).join(', ')}
+                      </td>
+                      <td className="px-4 py-2">
+                        <select
+                          value={fieldForColumn(column)}
+                          onChange={(e) => mapColumn(column, e.target.value as ImportField | '')}
+                          className={`w-full px-2 py-1 border border-gray-300 rounded-md ${isDark ? 'bg-gray-800' : 'bg-white'}`}
+                        >
+                          <option value="">Ignore column</option>
+                          {IMPORT_FIELDS.map(({ field, label, required }) => (
+                            <option key={field} value={field}>{label}{required ? ' *' : ''}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {step === 'preview' && preview && (
+            <>
+              <div className="grid grid-cols-4 gap-3 text-sm">
+                <div className="p-3 bg-gray-50 rounded-lg"><div className="text-gray-500">Rows</div><div className="text-lg font-semibold">{preview.totalRows}</div></div>
+                <div className="p-3 bg-blue-50 rounded-lg"><div className="text-blue-600">With changes</div><div className="text-lg font-semibold">{preview.changedRows}</div></div>
+                <div className="p-3 bg-red-50 rounded-lg"><div className="text-red-600">Errors</div><div className="text-lg font-semibold">{preview.invalidRows}</div></div>
+                <div className="p-3 bg-green-50 rounded-lg"><div className="text-green-600">Accepted</div><div className="text-lg font-semibold">{acceptedRows.length}</div></div>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 w-8">
+                        <input
+                          type="checkbox"
+                          checked={acceptable > 0 && acceptedRows.length === acceptable}
+                          onChange={(e) => setAllAccepted(e.target.checked)}
+                        />
+                      </th>
+                      <th className="text-left px-3 py-2 font-medium">Row</th>
+                      <th className="text-left px-3 py-2 font-medium">Room / Plan</th>
+                      <th className="text-left px-3 py-2 font-medium">Date</th>
+                      <th className="text-left px-3 py-2 font-medium">Status</th>
+                      <th className="text-left px-3 py-2 font-medium">Changes</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.map(row => {
+                      const selectable = row.status === 'NEW' || row.status === 'CHANGED';
+                      return (
+                        <tr key={row.rowNumber} className={`border-t border-gray-100 align-top ${row.status === 'INVALID' ? 'bg-red-50/50' : ''}`}>
+                          <td className="px-3 py-2">
+                            <input
+                              type="checkbox"
+                              disabled={!selectable}
+                              checked={acceptedRows.includes(row.rowNumber)}
+                              onChange={() => toggleRow(row.rowNumber)}
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            {row.roomTypeCode ?? '—'} / {row.ratePlanCode ?? '—'}
+                            {row.channelCode && <span className="text-gray-400"> · {row.channelCode}</span>}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap">{row.date ?? '—'}</td>
+                          <td className="px-3 py-2">
+                            <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[row.status].className}`}>
+                              {STATUS_STYLES[row.status].label}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2">
+                            {row.errors.map(issue => (
+                              <div key={issue.code + issue.message} className="flex items-start gap-1 text-xs text-red-700">
+                                <XCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />{issue.message}
+                              </div>
+                            ))}
+                            {row.status !== 'INVALID' && renderDiff(row)}
+                            {row.warnings.map(issue => (
+                              <div key={issue.code + issue.message} className="flex items-start gap-1 text-xs text-amber-700">
+                                <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />{issue.message}
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {step === 'complete' && outcome && (
+            <div className="flex flex-col items-center gap-3 p-8 text-center">
+              {outcome.pendingApproval ? (
+                <>
+                  <Clock className="w-12 h-12 text-amber-500" />
+                  <p className="font-medium">Import submitted for approval</p>
+                  <p className="text-sm text-gray-500">The accepted rows will be applied once the change request is approved.</p>
+                </>
+              ) : (
+                <>
+                  <CheckCircle className="w-12 h-12 text-green-500" />
+                  <p className="font-medium">
+                    Imported {outcome.result?.importedRows.length ?? 0} rows
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {outcome.result?.createdCount ?? 0} records created, {outcome.result?.updatedCount ?? 0} updated
+                  </p>
+                  {!!outcome.result?.skippedRows.length && (
+                    <div className="w-full max-w-xl mt-2 text-left border border-amber-200 bg-amber-50 rounded-lg p-3 text-sm">
+                      <div className="font-medium text-amber-800 mb-1">Skipped rows</div>
+                      {outcome.result.skippedRows.map(skipped => (
+                        <div key={skipped.rowNumber} className="text-amber-700">
+                          Row {skipped.rowNumber}: {skipped.reason}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-6 border-t border-gray-200 bg-gray-50">
+          <div className="text-sm text-gray-600">
+            {step === 'mapping' && missingRequired.length > 0 && `Map a column to: ${missingRequired.join(', ')}`}
+            {step === 'preview' && 'Only the accepted rows are imported'}
+          </div>
+          <div className="flex items-center gap-3">
+            {(step === 'mapping' || step === 'preview') && (
+              <button
+                onClick={goBack}
+                disabled={isLoading}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </button>
+            )}
+            {step === 'mapping' && (
+              <button
+                onClick={() => loadPreview()}
+                disabled={isLoading || missingRequired.length > 0}
+                className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArrowRight className="w-4 h-4" />}
+                Preview Changes
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                onClick={() => commit()}
+                disabled={isLoading || acceptedRows.length === 0}
+                className="flex items-center gap-2 px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                Import {acceptedRows.length} Rows
+              </button>
+            )}
+            {step === 'complete' && (
+              <button
+                onClick={() => {
+                  if (outcome) {
+                    onImported?.(outcome.pendingApproval
+                      ? 'Import submitted for approval'
+                      : `${outcome.result?.importedRows.length ?? 0} rows imported`);
+                  }
+                  handleClose();
+                }}
+                className="px-6 py-2 bg-gray-900 hover:bg-gray-800 text-white rounded-lg font-medium transition-colors"
+              >
+                Close
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,109 +3,23 @@
  * Header with title, property selector, and competitor tracking
  */
 
-import React, { useState, useRef, useEffect } from 'react';
-import { ChevronDown, Building, Target, Eye, EyeOff, Plus, Sun, Moon, User, Edit3, BarChart3 } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ChevronDown, Building, Target, Eye, EyeOff, Plus, Sun, Moon, User, Edit3, BarChart3, Activity, Bot, Users } from 'lucide-react';
 import Link from 'next/link';
-
-interface Property {
-  id: string;
-  name: string;
-  location: string;
-  type: string;
-  rooms: number;
-  avatar: string;
-}
-
-interface Competitor {
-  id: string;
-  name: string;
-  type: string;
-  distance: string;
-  avatar: string;
-}
+import { usePropertyPortfolio } from '../hooks/usePropertyPortfolio';
+import { useCompSets } from '../hooks/useCompSets';
+import { propertyInitials, propertyLocation } from '../lib/properties';
+import type { PropertySummary } from '../types/properties';
+import type { Competitor } from '../types/comp-sets';
 
 interface IntegratedHeaderProps {
   isDark: boolean;
   onToggleDarkMode: () => void;
   inlineEdit?: any;
-  onPropertyChange?: (property: Property) => void;
+  onPropertyChange?: (property: PropertySummary) => void;
   onCompetitorsChange?: (competitors: Competitor[]) => void;
-
 }
 
-const mockProperties: Property[] = [
-  {
-    id: 'prop-1',
-    name: 'Ocean View Resort & Spa',
-    location: 'Maldives',
-    type: 'Resort',
-    rooms: 150,
-    avatar: '🏖️'
-  },
-  {
-    id: 'prop-2', 
-    name: 'Downtown Business Hotel',
-    location: 'New York, USA',
-    type: 'Business Hotel',
-    rooms: 280,
-    avatar: '🏢'
-  },
-  {
-    id: 'prop-3',
-    name: 'Mountain Lodge Retreat',
-    location: 'Swiss Alps',
-    type: 'Lodge',
-    rooms: 85,
-    avatar: '🏔️'
-  },
-  {
-    id: 'prop-4',
-    name: 'City Center Boutique',
-    location: 'London, UK', 
-    type: 'Boutique Hotel',
-    rooms: 65,
-    avatar: '🏛️'
-  },
-  {
-    id: 'prop-5',
-    name: 'Beachfront Paradise',
-    location: 'Bali, Indonesia',
-    type: 'Beach Resort',
-    rooms: 200,
-    avatar: '🌴'
-  }
-];
-
-const mockCompetitors: Record<string, Competitor[]> = {
-  'prop-1': [
-    { id: 'comp-1', name: 'Paradise Resort', type: 'Luxury Resort', distance: '2.1 km', avatar: '🏝️' },
-    { id: 'comp-2', name: 'Azure Waters Hotel', type: 'Beach Resort', distance: '3.5 km', avatar: '🌊' },
-    { id: 'comp-3', name: 'Coral Bay Resort', type: 'Resort', distance: '5.2 km', avatar: '🐠' },
-    { id: 'comp-4', name: 'Sunset Villa Resort', type: 'Villa Resort', distance: '7.8 km', avatar: '🌅' }
-  ],
-  'prop-2': [
-    { id: 'comp-5', name: 'Manhattan Grand', type: 'Business Hotel', distance: '0.8 km', avatar: '🏙️' },
-    { id: 'comp-6', name: 'Times Square Inn', type: 'City Hotel', distance: '1.2 km', avatar: '🎭' },
-    { id: 'comp-7', name: 'Broadway Suites', type: 'Business Hotel', distance: '1.5 km', avatar: '🎪' },
-    { id: 'comp-8', name: 'Central Park Hotel', type: 'Luxury Hotel', distance: '2.3 km', avatar: '🌳' }
-  ],
-  'prop-3': [
-    { id: 'comp-9', name: 'Alpine Peak Lodge', type: 'Mountain Lodge', distance: '1.5 km', avatar: '⛰️' },
-    { id: 'comp-10', name: 'Snow Valley Resort', type: 'Ski Resort', distance: '3.2 km', avatar: '🎿' },
-    { id: 'comp-11', name: 'Glacier View Hotel', type: 'Mountain Hotel', distance: '4.7 km', avatar: '🏔️' }
-  ],
-  'prop-4': [
-    { id: 'comp-12', name: 'Thames Boutique', type: 'Boutique Hotel', distance: '0.5 km', avatar: '🇬🇧' },
-    { id: 'comp-13', name: 'Covent Garden Inn', type: 'Historic Hotel', distance: '1.1 km', avatar: '🎭' },
-    { id: 'comp-14', name: 'Westminster Palace', type: 'Luxury Hotel', distance: '1.8 km', avatar: '👑' }
-  ],
-  'prop-5': [
-    { id: 'comp-15', name: 'Bali Breeze Resort', type: 'Beach Resort', distance: '1.2 km', avatar: '🌺' },
-    { id: 'comp-16', name: 'Tropical Paradise', type: 'Resort', distance: '2.5 km', avatar: '🥥' },
-    { id: 'comp-17', name: 'Sunset Beach Hotel', type: 'Beach Hotel', distance: '3.8 km', avatar: '🏄' }
-  ]
-};
-
 export default function IntegratedHeader({ 
   isDark, 
   onToggleDarkMode, 
@@ -113,10 +27,17 @@ export default function IntegratedHeader({
   onPropertyChange,
   onCompetitorsChange
 }: IntegratedHeaderProps) {
-  const [selectedProperty, setSelectedProperty] = useState<Property>(mockProperties[0]);
+  const {
+    organizations,
+    selectedProperty,
+    selectProperty,
+    isLoading: isLoadingProperties,
+    error: propertiesError,
+  } = usePropertyPortfolio();
+  const { competitors, compSets } = useCompSets(selectedProperty?.id);
   const [showDropdown, setShowDropdown] = useState(false);
   const [activeTab, setActiveTab] = useState<'properties' | 'competitors'>('properties');
-  const [selectedCompetitors, setSelectedCompetitors] = useState<Set<string>>(new Set(['comp-1', 'comp-2']));
+  const [selectedCompetitors, setSelectedCompetitors] = useState<Set<string>>(new Set());
   const [isMounted, setIsMounted] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -139,18 +60,32 @@ export default function IntegratedHeader({
     }
   }, [isMounted]);
 
-  const handlePropertySelect = (property: Property) => {
-    console.log('Property selected:', property);
-    setSelectedProperty(property);
-    onPropertyChange?.(property);
-    // Reset competitors for new property
-    const newCompetitors = mockCompetitors[property.id]?.slice(0, 2).map(c => c.id) || [];
-    setSelectedCompetitors(new Set(newCompetitors));
+  const currentCompetitors = useMemo(() => competitors.filter(c => c.isActive), [competitors]);
+
+  // Report the restored property as well as every later selection; the
+  // callbacks are left out of the dependencies as parents pass inline handlers
+  useEffect(() => {
+    if (selectedProperty) {
+      onPropertyChange?.(selectedProperty);
+    }
+  }, [selectedProperty]);
+
+  // Track the primary comp set of the property, or its first two competitors without one
+  useEffect(() => {
+    const primary = compSets.find(compSet => compSet.type === 'PRIMARY');
+    const tracked = primary
+      ? primary.members.map(member => member.competitorPropertyId)
+      : currentCompetitors.slice(0, 2).map(c => c.id);
+    setSelectedCompetitors(new Set(tracked));
+    onCompetitorsChange?.(currentCompetitors.filter(c => tracked.includes(c.id)));
+  }, [currentCompetitors, compSets]);
+
+  const handlePropertySelect = (property: PropertySummary) => {
+    selectProperty(property.id);
     setShowDropdown(false);
   };
 
   const handleCompetitorToggle = (competitorId: string) => {
-    console.log('Toggling competitor:', competitorId);
     const newSelected = new Set(selectedCompetitors);
     if (newSelected.has(competitorId)) {
       newSelected.delete(competitorId);
@@ -160,16 +95,14 @@ export default function IntegratedHeader({
     setSelectedCompetitors(newSelected);
     
     // Notify parent component
-    const competitors = mockCompetitors[selectedProperty.id]?.filter(c => newSelected.has(c.id)) || [];
-    onCompetitorsChange?.(competitors);
+    onCompetitorsChange?.(currentCompetitors.filter(c => newSelected.has(c.id)));
   };
 
   const handleDropdownClick = () => {
-    console.log('Dropdown button clicked, current state:', showDropdown);
     setShowDropdown(!showDropdown);
   };
 
-  const currentCompetitors = mockCompetitors[selectedProperty.id] || [];
+  const propertyQuery = selectedProperty ? `?propertyId=${selectedProperty.id}` : '';
   const selectedCompetitorsList = currentCompetitors.filter(c => selectedCompetitors.has(c.id));
 
   return (
@@ -194,25 +127,36 @@ export default function IntegratedHeader({
                          rounded-xl px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all duration-200 
                          shadow-sm hover:shadow-md min-w-[320px]"
               >
-                <span className="text-2xl">{selectedProperty.avatar}</span>
-                <div className="flex-1 text-left">
-                  <div className="font-semibold text-gray-900 dark:text-white text-sm">
-                    {selectedProperty.name}
-                  </div>
-                  <div className="text-xs text-gray-500 dark:text-gray-400">
-                    {selectedProperty.location} • {selectedProperty.rooms} rooms
-                    {selectedCompetitorsList.length > 0 && (
-                      <span className="ml-2">• {selectedCompetitorsList.length} competitors tracked</span>
-                    )}
+                {selectedProperty ? (
+                  <>
+                    <span className="w-9 h-9 rounded-lg bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300
+                                   flex items-center justify-center text-sm font-semibold">
+                      {propertyInitials(selectedProperty)}
+                    </span>
+                    <div className="flex-1 text-left">
+                      <div className="font-semibold text-gray-900 dark:text-white text-sm">
+                        {selectedProperty.name}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {propertyLocation(selectedProperty)} • {selectedProperty.rooms} rooms
+                        {selectedCompetitorsList.length > 0 && (
+                          <span className="ml-2">• {selectedCompetitorsList.length} competitors tracked</span>
+                        )}
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex-1 text-left text-sm text-gray-500 dark:text-gray-400">
+                    {isLoadingProperties ? 'Loading properties...' : propertiesError ?? 'No property selected'}
                   </div>
-                </div>
+                )}
                 <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform duration-200 ${
                   showDropdown ? 'rotate-180' : ''
                 }`} />
               </button>
 
               {/* Enhanced Dropdown */}
-              {showDropdown && (
+              {showDropdown && selectedProperty && (
                 <div className="absolute top-full left-0 mt-2 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 
                               rounded-xl shadow-xl z-[9999] max-h-96 overflow-hidden">
                   
@@ -245,32 +189,44 @@ export default function IntegratedHeader({
                   <div className="max-h-80 overflow-y-auto">
                     {activeTab === 'properties' && (
                       <div className="p-2">
-                        {mockProperties.map((property) => (
-                          <button
-                            key={property.id}
-                            onClick={() => handlePropertySelect(property)}
-                            className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors
-                              ${selectedProperty.id === property.id
-                                ? 'bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-700'
-                                : 'hover:bg-gray-50 dark:hover:bg-gray-700'
-                              }`}
-                          >
-                            <span className="text-xl">{property.avatar}</span>
-                            <div className="flex-1">
-                              <div className="font-medium text-gray-900 dark:text-white text-sm">
-                                {property.name}
-                              </div>
-                              <div className="text-xs text-gray-500 dark:text-gray-400">
-                                {property.location} • {property.type}
-                              </div>
-                              <div className="text-xs text-gray-400 dark:text-gray-500">
-                                {property.rooms} rooms
+                        {organizations.map((organization) => (
+                          <div key={organization.id}>
+                            {organizations.length > 1 && (
+                              <div className="px-3 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500">
+                                {organization.name}
                               </div>
-                            </div>
-                            {selectedProperty.id === property.id && (
-                              <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                             )}
-                          </button>
+                            {organization.properties.map((property) => (
+                              <button
+                                key={property.id}
+                                onClick={() => handlePropertySelect(property)}
+                                className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors
+                                  ${selectedProperty.id === property.id
+                                    ? 'bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-700'
+                                    : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                                  }`}
+                              >
+                                <span className="w-8 h-8 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200
+                                               flex items-center justify-center text-xs font-semibold">
+                                  {propertyInitials(property)}
+                                </span>
+                                <div className="flex-1">
+                                  <div className="font-medium text-gray-900 dark:text-white text-sm">
+                                    {property.name}
+                                  </div>
+                                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                                    {propertyLocation(property)} • {property.currency}
+                                  </div>
+                                  <div className="text-xs text-gray-400 dark:text-gray-500">
+                                    {property.rooms} rooms
+                                  </div>
+                                </div>
+                                {selectedProperty.id === property.id && (
+                                  <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
+                                )}
+                              </button>
+                            ))}
+                          </div>
                         ))}
                         
                         {/* Add Property Option */}
@@ -321,13 +277,17 @@ export default function IntegratedHeader({
                               )}
                             </button>
                             
-                            <span className="text-lg">{competitor.avatar}</span>
+                            <span className="w-7 h-7 rounded-md bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300
+                                           flex items-center justify-center text-xs font-semibold">
+                              {competitor.name.charAt(0).toUpperCase()}
+                            </span>
                             <div className="flex-1">
                               <div className="font-medium text-gray-900 dark:text-white text-sm">
                                 {competitor.name}
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400">
-                                {competitor.type} • {competitor.distance}
+                                {competitor.starRating ? `${competitor.starRating}★` : competitor.code}
+                                {competitor.address && ` • ${competitor.address}`}
                               </div>
                             </div>
                             
@@ -356,7 +316,7 @@ export default function IntegratedHeader({
           <div className="flex items-center gap-4">
             {/* Competitive Intelligence Dashboard Link */}
             <Link
-              href="/competitive-intelligence"
+              href={`/competitive-intelligence${propertyQuery}`}
               className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white rounded-lg transition-all duration-200 shadow-sm hover:shadow-md text-sm font-medium"
               title="View Competitive Intelligence Dashboard"
             >
@@ -364,6 +324,36 @@ export default function IntegratedHeader({
               <span>Competitive Intelligence</span>
             </Link>
 
+            {/* Channel Sync Monitor Link */}
+            <Link
+              href={`/channel-sync${propertyQuery}`}
+              className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg transition-colors text-sm font-medium"
+              title="View Channel Sync Monitor"
+            >
+              <Activity className="w-4 h-4" />
+              <span>Sync Monitor</span>
+            </Link>
+
+            {/* Automation Rules Link */}
+            <Link
+              href={`/automation-rules${propertyQuery}`}
+              className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg transition-colors text-sm font-medium"
+              title="Manage Automation Rules"
+            >
+              <Bot className="w-4 h-4" />
+              <span>Automation</span>
+            </Link>
+
+            {/* Comp Sets Link */}
+            <Link
+              href={`/comp-sets${propertyQuery}`}
+              className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg transition-colors text-sm font-medium"
+              title="Manage Comp Sets"
+            >
+              <Users className="w-4 h-4" />
+              <span>Comp Sets</span>
+            </Link>
+
             {/* Dark Mode Toggle */}
             <button
               onClick={onToggleDarkMode}
@@ -1,130 +1,112 @@
 /**
  * Property Selector Component
- * Multi-property dropdown for revenue managers
+ * Multi-property dropdown for revenue managers, grouped by organization
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { ChevronDown } from 'lucide-react';
-
-interface Property {
-  id: string;
-  name: string;
-  location: string;
-  type: string;
-  rooms: number;
-  avatar: string;
-}
+import { usePropertyPortfolio } from '../hooks/usePropertyPortfolio';
+import { propertyInitials, propertyLocation } from '../lib/properties';
+import type { PropertySummary } from '../types/properties';
 
 interface PropertySelectorProps {
   isDark?: boolean;
+  onPropertyChange?: (property: PropertySummary) => void;
 }
 
-const mockProperties: Property[] = [
-  {
-    id: 'prop-1',
-    name: 'Ocean View Resort & Spa',
-    location: 'Maldives',
-    type: 'Resort',
-    rooms: 150,
-    avatar: '🏖️'
-  },
-  {
-    id: 'prop-2', 
-    name: 'Downtown Business Hotel',
-    location: 'New York, USA',
-    type: 'Business Hotel',
-    rooms: 280,
-    avatar: '🏢'
-  },
-  {
-    id: 'prop-3',
-    name: 'Mountain Lodge Retreat',
-    location: 'Swiss Alps',
-    type: 'Lodge',
-    rooms: 85,
-    avatar: '🏔️'
-  },
-  {
-    id: 'prop-4',
-    name: 'City Center Boutique',
-    location: 'London, UK', 
-    type: 'Boutique Hotel',
-    rooms: 65,
-    avatar: '🏛️'
-  },
-  {
-    id: 'prop-5',
-    name: 'Beachfront Paradise',
-    location: 'Bali, Indonesia',
-    type: 'Beach Resort',
-    rooms: 200,
-    avatar: '🌴'
-  }
-];
-
-export default function PropertySelector({ isDark = false }: PropertySelectorProps) {
-  const [selectedProperty, setSelectedProperty] = useState<Property>(mockProperties[0]);
+export default function PropertySelector({ isDark = false, onPropertyChange }: PropertySelectorProps) {
+  const { organizations, selectedProperty, selectProperty, isLoading, error } = usePropertyPortfolio();
   const [showDropdown, setShowDropdown] = useState(false);
 
+  // Report the restored property as well as every later selection; the
+  // callback is left out of the dependencies as parents pass inline handlers
+  useEffect(() => {
+    if (selectedProperty) {
+      onPropertyChange?.(selectedProperty);
+    }
+  }, [selectedProperty]);
+
   return (
     <div className="relative">
       <button
         onClick={() => setShowDropdown(!showDropdown)}
-        className="flex items-center gap-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 
-                 rounded-xl px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all duration-200 
-                 shadow-sm hover:shadow-md min-w-[280px]"
+        disabled={!selectedProperty}
+        className="flex items-center gap-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700
+                 rounded-xl px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all duration-200
+                 shadow-sm hover:shadow-md min-w-[280px] disabled:cursor-default"
       >
-        <span className="text-2xl">{selectedProperty.avatar}</span>
-        <div className="flex-1 text-left">
-          <div className="font-semibold text-gray-900 dark:text-white text-sm">
-            {selectedProperty.name}
-          </div>
-          <div className="text-xs text-gray-500 dark:text-gray-400">
-            {selectedProperty.location} • {selectedProperty.rooms} rooms
+        {selectedProperty ? (
+          <>
+            <span className="w-9 h-9 rounded-lg bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300
+                           flex items-center justify-center text-sm font-semibold">
+              {propertyInitials(selectedProperty)}
+            </span>
+            <div className="flex-1 text-left">
+              <div className="font-semibold text-gray-900 dark:text-white text-sm">
+                {selectedProperty.name}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {propertyLocation(selectedProperty)} • {selectedProperty.rooms} rooms
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="flex-1 text-left text-sm text-gray-500 dark:text-gray-400">
+            {isLoading ? 'Loading properties...' : error ?? 'No property selected'}
           </div>
-        </div>
+        )}
         <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform duration-200 ${
           showDropdown ? 'rotate-180' : ''
         }`} />
       </button>
 
       {/* Property Dropdown */}
-      {showDropdown && (
-        <div className="absolute top-full left-0 mt-2 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 
+      {showDropdown && selectedProperty && (
+        <div className="absolute top-full left-0 mt-2 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700
                       rounded-xl shadow-lg z-50 max-h-80 overflow-y-auto">
-          <div className="p-2">
-            {mockProperties.map((property) => (
-              <button
-                key={property.id}
-                onClick={() => {
-                  setSelectedProperty(property);
-                  setShowDropdown(false);
-                }}
-                className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors
-                  ${selectedProperty.id === property.id
-                    ? 'bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-700'
-                    : 'hover:bg-gray-50 dark:hover:bg-gray-700'
-                  }`}
-              >
-                <span className="text-xl">{property.avatar}</span>
-                <div className="flex-1">
-                  <div className="font-medium text-gray-900 dark:text-white text-sm">
-                    {property.name}
-                  </div>
-                  <div className="text-xs text-gray-500 dark:text-gray-400">
-                    {property.location} • {property.type}
-                  </div>
-                  <div className="text-xs text-gray-400 dark:text-gray-500">
-                    {property.rooms} rooms
-                  </div>
+          {organizations.map((organization) => (
+            <div key={organization.id} className="p-2">
+              {organizations.length > 1 && (
+                <div className="px-3 pt-1 pb-2 text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500">
+                  {organization.name}
                 </div>
-                {selectedProperty.id === property.id && (
-                  <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                )}
-              </button>
-            ))}
-          </div>
-          
+              )}
+              {organization.properties.map((property) => (
+                <button
+                  key={property.id}
+                  onClick={() => {
+                    selectProperty(property.id);
+                    setShowDropdown(false);
+                  }}
+                  className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors
+                    ${selectedProperty.id === property.id
+                      ? 'bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-700'
+                      : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                >
+                  <span className="w-8 h-8 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200
+                                 flex items-center justify-center text-xs font-semibold">
+                    {propertyInitials(property)}
+                  </span>
+                  <div className="flex-1">
+                    <div className="font-medium text-gray-900 dark:text-white text-sm">
+                      {property.name}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {propertyLocation(property)} • {property.currency}
+                    </div>
+                    <div className="text-xs text-gray-400 dark:text-gray-500">
+                      {property.rooms} rooms
+                    </div>
+                  </div>
+                  {selectedProperty.id === property.id && (
+                    <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
+                  )}
+                </button>
+              ))}
+            </div>
+          ))}
+
           {/* Add Property Option */}
           <div className="border-t border-gray-200 dark:border-gray-700 p-2">
             <button className="w-full flex items-center gap-3 p-3 rounded-lg text-left hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
@@ -145,4 +127,4 @@ export default function PropertySelector({ isDark = false }: PropertySelectorPro
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -27,8 +27,11 @@ import {
   Shield,
   Eye,
   FileText,
-  Tag
+  Tag,
+  XCircle,
+  RefreshCw
 } from 'lucide-react';
+import type { CellSyncStatus, PublishOutcome } from '../types/publish';
 
 interface Change {
   id: string;
@@ -45,8 +48,12 @@ interface Change {
 interface PublishConfirmationProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: () => void;
+  onConfirm: () => void | Promise<void>;
+  onRetryFailed?: () => void | Promise<void>;
   changes: Change[];
+  outcome?: PublishOutcome | null; // Server outcome once published
+  syncError?: string | null; // Last failed refresh of the channel sync state
+  isPublishing?: boolean;
   isDark?: boolean;
 }
 
@@ -77,10 +84,13 @@ export default function PublishConfirmation({
   isOpen, 
   onClose, 
   onConfirm, 
+  onRetryFailed,
   changes, 
+  outcome,
+  syncError,
+  isPublishing = false,
   isDark = false 
 }: PublishConfirmationProps) {
-  const [isPublishing, setIsPublishing] = useState(false);
   const [showDetails, setShowDetails] = useState(false);
 
   /**
@@ -169,11 +179,42 @@ export default function PublishConfirmation({
   const analysis = analyzeChanges();
 
   const handleConfirm = async () => {
-    setIsPublishing(true);
-    // Simulate publishing delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    setIsPublishing(false);
-    onConfirm();
+    await onConfirm();
+  };
+
+  /**
+   * Sync status of each published change, and totals for the results summary
+   */
+  const statusByChange = useMemo(() => {
+    const statuses: Record<string, CellSyncStatus> = {};
+    outcome?.cells.forEach(cell => {
+      statuses[cell.changeId] = cell.status;
+    });
+    return statuses;
+  }, [outcome]);
+
+  const outcomeCounts = useMemo(() => {
+    const counts: Record<CellSyncStatus, number> = { PENDING: 0, SUCCESS: 0, FAILED: 0 };
+    outcome?.cells.forEach(cell => {
+      counts[cell.status] += 1;
+    });
+    return counts;
+  }, [outcome]);
+
+  const describeChange = (changeId: string) => {
+    const change = changes.find(c => c.id === changeId);
+    if (!change) return changeId;
+    const date = isNaN(new Date(change.date).getTime()) ? change.date : formatDateShort(change.date);
+    return [change.room, change.product, date].filter(Boolean).join(' • ');
+  };
+
+  const renderSyncStatus = (changeId: string) => {
+    switch (statusByChange[changeId]) {
+      case 'SUCCESS': return <CheckCircle className="w-4 h-4 text-green-600" />;
+      case 'FAILED': return <XCircle className="w-4 h-4 text-red-600" />;
+      case 'PENDING': return <Clock className="w-4 h-4 text-yellow-600" />;
+      default: return null;
+    }
   };
 
   const getRiskColor = (level: 'low' | 'medium' | 'high') => {
@@ -244,6 +285,67 @@ export default function PublishConfirmation({
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Publish Results - Server outcome per change and channel */}
+          {outcome && (
+            <div className="border border-gray-200 rounded-lg">
+              <div className="bg-gray-50 px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <RefreshCw className={`w-5 h-5 text-blue-600 ${outcomeCounts.PENDING > 0 && !outcome.pendingApproval ? 'animate-spin' : ''}`} />
+                  Publish Results
+                </h3>
+                <div className="flex items-center gap-3 text-xs font-medium">
+                  <span className="text-green-700">{outcomeCounts.SUCCESS} synced</span>
+                  <span className="text-yellow-700">{outcomeCounts.PENDING} pending</span>
+                  <span className="text-red-700">{outcomeCounts.FAILED} failed</span>
+                </div>
+              </div>
+
+              {syncError && (
+                <div className="px-4 py-3 text-sm bg-red-50 text-red-800 border-b border-gray-200 flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4" />
+                  Could not refresh the channel sync status: {syncError}
+                </div>
+              )}
+
+              {outcome.pendingApproval && (
+                <div className="px-4 py-3 text-sm bg-yellow-50 text-yellow-800 border-b border-gray-200 flex items-center gap-2">
+                  <Shield className="w-4 h-4" />
+                  Submitted for approval. Changes are synced to channels once a reviewer approves them.
+                </div>
+              )}
+
+              {outcome.channels.length > 0 && (
+                <div className="px-4 py-3 border-b border-gray-100 flex flex-wrap gap-2">
+                  {outcome.channels.map(channel => (
+                    <span
+                      key={channel.channelId}
+                      title={channel.error}
+                      className={`px-2 py-1 rounded-full text-xs ${
+                        channel.status === 'QUEUED' ? 'bg-blue-100 text-blue-700' : 'bg-red-100 text-red-700'
+                      }`}
+                    >
+                      {channel.channelId} • {channel.recordCount} records • {channel.status === 'QUEUED' ? 'sync queued' : 'sync failed'}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {outcomeCounts.FAILED > 0 && (
+                <div className="max-h-48 overflow-y-auto">
+                  {outcome.cells.filter(cell => cell.status === 'FAILED').map(cell => (
+                    <div key={cell.changeId} className="flex items-start gap-2 p-3 text-sm border-b border-gray-100 last:border-b-0">
+                      <XCircle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+                      <div>
+                        <div className="font-medium">{describeChange(cell.changeId)}</div>
+                        <div className="text-xs text-red-700">{cell.errors.join('; ') || 'Publish failed'}</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Summary Overview */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
@@ -318,7 +420,8 @@ export default function PublishConfirmation({
                         </div>
                         {groupChanges.map(change => (
                           <div key={change.id} className="flex items-center justify-between p-3 text-sm">
-                            <div>
+                            <div className="flex items-center gap-2">
+                              {renderSyncStatus(change.id)}
                               <span className="text-gray-600 text-xs">{formatDateShort(change.date)}</span>
                             </div>
                             <div className="flex items-center gap-2 text-right">
@@ -370,7 +473,8 @@ export default function PublishConfirmation({
                       </div>
                       {groupChanges.map(change => (
                         <div key={change.id} className="flex items-center justify-between p-3 text-sm">
-                          <div>
+                          <div className="flex items-center gap-2">
+                            {renderSyncStatus(change.id)}
                             <span className="text-gray-600 text-xs">{formatDateShort(change.date)}</span>
                           </div>
                           <div className="flex items-center gap-2 text-right">
@@ -480,33 +584,58 @@ export default function PublishConfirmation({
         <div className="flex items-center justify-between p-6 border-t border-gray-200 bg-gray-50">
           <div className="flex items-center gap-2 text-sm text-gray-600">
             <Clock className="w-4 h-4" />
-            Changes will be published immediately and cannot be undone
+            {!outcome
+              ? 'Changes will be published immediately and cannot be undone'
+              : outcomeCounts.PENDING > 0 && !outcome.pendingApproval
+                ? 'Waiting for channel confirmations...'
+                : 'Publish finished'}
           </div>
-          <div className="flex items-center gap-3">
-            <button 
-              onClick={onClose}
-              className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
-            >
-              Cancel
-            </button>
-            <button 
-              onClick={handleConfirm}
-              disabled={isPublishing}
-              className="flex items-center gap-2 px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
-            >
-              {isPublishing ? (
-                <>
-                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                  Publishing...
-                </>
-              ) : (
-                <>
-                  <Save className="w-4 h-4" />
-                  Confirm & Publish
-                </>
+          {outcome ? (
+            <div className="flex items-center gap-3">
+              {outcomeCounts.FAILED > 0 && onRetryFailed && (
+                <button
+                  onClick={() => onRetryFailed()}
+                  disabled={isPublishing}
+                  className="flex items-center gap-2 px-4 py-2 border border-red-300 text-red-700 hover:bg-red-50 rounded-lg font-medium transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-4 h-4 ${isPublishing ? 'animate-spin' : ''}`} />
+                  Retry Failed ({outcomeCounts.FAILED})
+                </button>
               )}
-            </button>
-          </div>
+              <button
+                onClick={onClose}
+                className="px-6 py-2 bg-gray-900 hover:bg-gray-800 text-white rounded-lg font-medium transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-3">
+              <button 
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                Cancel
+              </button>
+              <button 
+                onClick={handleConfirm}
+                disabled={isPublishing}
+                className="flex items-center gap-2 px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                {isPublishing ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                    Publishing...
+                  </>
+                ) : (
+                  <>
+                    <Save className="w-4 h-4" />
+                    Confirm & Publish
+                  </>
+                )}
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
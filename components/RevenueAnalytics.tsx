@@ -9,6 +9,7 @@ import {
   TrendingUp, TrendingDown, BarChart3, PieChart, Target, 
   Calendar, Users, DollarSign, Package, AlertCircle, Star
 } from 'lucide-react';
+import { useCurrency } from '../hooks/useCurrency';
 
 interface RevenueAnalyticsProps {
   monthlyData: any[];
@@ -21,6 +22,8 @@ export const RevenueAnalytics: React.FC<RevenueAnalyticsProps> = ({
   selectedMetric,
   monthlyViewDate
 }) => {
+  const { formatCurrency: formatInCurrency } = useCurrency();
+
   // Calculate KPIs
   const totalRevenue = monthlyData.reduce((sum, d) => sum + d.revpar * d.inventory, 0);
   const avgOccupancy = monthlyData.reduce((sum, d) => sum + d.occupancy, 0) / monthlyData.length;
@@ -40,13 +43,8 @@ export const RevenueAnalytics: React.FC<RevenueAnalyticsProps> = ({
   const weekendRevPAR = weekendData.reduce((sum, d) => sum + d.revpar, 0) / weekendData.length;
   const weekdayRevPAR = weekdayData.reduce((sum, d) => sum + d.revpar, 0) / weekdayData.length;
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      maximumFractionDigits: 0
-    }).format(amount / 100);
-  };
+  // Amounts are in minor units of the property currency
+  const formatCurrency = (amount: number) => formatInCurrency(amount / 100);
 
   const formatPercentage = (value: number) => {
     return `${value.toFixed(1)}%`;
@@ -220,7 +218,7 @@ export const RevenueAnalytics: React.FC<RevenueAnalyticsProps> = ({
               <span className="font-medium text-green-800 dark:text-green-400">Opportunity</span>
             </div>
             <p className="text-sm text-green-700 dark:text-green-300">
-              Weekday rates are 15% below market average. Consider increasing ADR by ₹800-1200 for Tuesday-Thursday.
+              Weekday rates are 15% below market average. Consider increasing ADR by {formatInCurrency(800)}-{formatInCurrency(1200)} for Tuesday-Thursday.
             </p>
           </div>
 
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { X, Plus, Shield, Building, DollarSign, Globe, FileText, CalendarIcon, ArrowRight, ArrowLeft, Archive, CheckCircle, Lightbulb } from 'lucide-react';
+import type { DaySelection } from '../types/restriction-rules';
 
 interface RestrictionType {
   id: string;
@@ -32,6 +33,26 @@ interface WorkingBulkRestrictionsProps {
   onApply: (data: any) => void;
 }
 
+const ALL_DAYS: DaySelection = {
+  monday: true,
+  tuesday: true,
+  wednesday: true,
+  thursday: true,
+  friday: true,
+  saturday: true,
+  sunday: true,
+};
+
+const DAY_LABELS: Array<[keyof DaySelection, string]> = [
+  ['monday', 'Mon'],
+  ['tuesday', 'Tue'],
+  ['wednesday', 'Wed'],
+  ['thursday', 'Thu'],
+  ['friday', 'Fri'],
+  ['saturday', 'Sat'],
+  ['sunday', 'Sun'],
+];
+
 export const WorkingBulkRestrictions: React.FC<WorkingBulkRestrictionsProps> = ({
   isOpen,
   onClose,
@@ -46,6 +67,8 @@ export const WorkingBulkRestrictions: React.FC<WorkingBulkRestrictionsProps> = (
     roomTypes: [] as string[],
     ratePlans: [] as string[],
     channels: [] as string[],
+    daySelection: ALL_DAYS,
+    priority: '',
     notes: ''
   });
   
@@ -82,14 +105,21 @@ export const WorkingBulkRestrictions: React.FC<WorkingBulkRestrictionsProps> = (
       roomTypes: [],
       ratePlans: [],
       channels: [],
+      daySelection: ALL_DAYS,
+      priority: '',
       notes: ''
     });
     onClose();
   };
 
+  // Length of stay and booking window restrictions take nights or days
+  const needsValue = selectedRestrictionType?.category === 'length_of_stay' || selectedRestrictionType?.category === 'booking';
+
   const isReadyToApply = selectedRestrictionType && 
     restrictionForm.dateRange.start && 
     restrictionForm.dateRange.end && 
+    (!needsValue || parseInt(restrictionForm.value) >= 0) &&
+    Object.values(restrictionForm.daySelection).some(Boolean) &&
     (restrictionForm.roomTypes.length > 0 || restrictionForm.ratePlans.length > 0 || restrictionForm.channels.length > 0);
 
   const targetCount = restrictionForm.roomTypes.length + restrictionForm.ratePlans.length + restrictionForm.channels.length;
@@ -222,6 +252,60 @@ export const WorkingBulkRestrictions: React.FC<WorkingBulkRestrictionsProps> = (
                         />
                       </div>
                     </div>
+
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Days of Week</label>
+                      <div className="flex flex-wrap gap-2">
+                        {DAY_LABELS.map(([day, label]) => (
+                          <button
+                            key={day}
+                            type="button"
+                            onClick={() => setRestrictionForm(prev => ({
+                              ...prev,
+                              daySelection: { ...prev.daySelection, [day]: !prev.daySelection[day] }
+                            }))}
+                            className={`px-3 py-2 rounded-lg text-sm font-medium border-2 transition-colors ${
+                              restrictionForm.daySelection[day]
+                                ? 'bg-blue-600 border-blue-600 text-white'
+                                : 'bg-white dark:bg-gray-800 border-blue-300 dark:border-blue-600 text-gray-700 dark:text-gray-300'
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                      {needsValue && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                            {selectedRestrictionType.category === 'booking' ? 'Days' : 'Nights'}
+                          </label>
+                          <input
+                            type="number"
+                            min={selectedRestrictionType.category === 'booking' ? 0 : 1}
+                            value={restrictionForm.value}
+                            onChange={(e) => setRestrictionForm(prev => ({ ...prev, value: e.target.value }))}
+                            className="w-full px-4 py-3 border-2 border-blue-300 dark:border-blue-600 rounded-xl focus:ring-4 focus:ring-blue-200 dark:focus:ring-blue-800 focus:border-blue-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                          />
+                        </div>
+                      )}
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                          Priority <span className="font-normal text-gray-500">(higher wins over overlapping rules)</span>
+                        </label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          placeholder="0"
+                          value={restrictionForm.priority}
+                          onChange={(e) => setRestrictionForm(prev => ({ ...prev, priority: e.target.value }))}
+                          className="w-full px-4 py-3 border-2 border-blue-300 dark:border-blue-600 rounded-xl focus:ring-4 focus:ring-blue-200 dark:focus:ring-blue-800 focus:border-blue-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        />
+                      </div>
+                    </div>
                   </div>
                 </div>
               )}
@@ -26,6 +26,7 @@ import {
   Lock
 } from 'lucide-react';
 import { EnhancedAIRecommendation, Event, CompetitorContext, RiskAssessment } from '../../types';
+import { useCurrency } from '../../hooks/useCurrency';
 
 interface AISuggestionBadgeProps {
   recommendation: EnhancedAIRecommendation;
@@ -54,6 +55,7 @@ export function AISuggestionBadge({
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
   const badgeRef = useRef<HTMLDivElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
+  const { formatCurrency } = useCurrency();
 
   const updateTooltipPosition = () => {
     if (!badgeRef.current || !tooltipRef.current) return;
@@ -122,14 +124,6 @@ export function AISuggestionBadge({
     }
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      maximumFractionDigits: 0
-    }).format(value);
-  };
-
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 0.8) return 'text-green-400';
     if (confidence >= 0.6) return 'text-yellow-400';
@@ -32,7 +32,7 @@ export const CalendarGrid: React.FC<CalendarGridProps> = ({
   const dateHeaders = useMemo(() => {
     return gridData.dates.map(date => (
       <div
-        key={date.toISOString()}
+        key={date}
         className="sticky top-0 z-10 bg-white border-b border-gray-200 p-2 text-center font-medium"
       >
         {formatDate(date, 'short')}
@@ -1,6 +1,6 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { cn } from '@/lib/utils';
-import { formatCurrency } from '@/lib/utils';
+import { useCurrency } from '@/hooks/useCurrency';
 import type { GridCell as GridCellType } from '@/types';
 
 interface GridCellProps {
@@ -20,6 +20,7 @@ export const GridCell: React.FC<GridCellProps> = ({
 }) => {
   const [editValue, setEditValue] = useState(String(cell.value));
   const inputRef = useRef<HTMLInputElement>(null);
+  const { formatCurrency } = useCurrency();
 
   // Focus input when entering edit mode
   useEffect(() => {
@@ -65,7 +66,7 @@ export const GridCell: React.FC<GridCellProps> = ({
       return formatCurrency(Number(value));
     }
     return String(value);
-  }, []);
+  }, [formatCurrency]);
 
   return (
     <div
@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { X, TrendingUp, TrendingDown, Minus, Star, MapPin, Clock, ArrowUpDown, Search, Filter, ChevronDown, Lightbulb, Brain, Target, Zap, DollarSign, AlertTriangle, ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
+import { X, Users, TrendingUp, TrendingDown, Minus, Star, MapPin, Clock, ArrowUpDown, Search, Filter, ChevronDown, Lightbulb, Brain, Target, Zap, DollarSign, AlertTriangle, ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
+import type { CompSet } from '../../types/comp-sets';
 
 // Extended channel list with 20+ real channels
 const CHANNELS = [
@@ -42,6 +43,8 @@ interface CompetitorInfo {
   avgDailyRate?: number;
   occupancyRate?: number;
   channels?: CompetitorChannelRate[];
+  code?: string; // Rate shopper code, used to match comp set members
+  weight?: number; // Comp set weight; 1 when absent
 }
 
 interface CompetitorSideDrawerProps {
@@ -53,6 +56,7 @@ interface CompetitorSideDrawerProps {
   roomType: string;
   currentPrice?: number;
   onDateNavigate?: (direction: 'prev' | 'next') => void;
+  compSets?: CompSet[]; // Weights the market average; the primary comp set is selected first
 }
 
 export const CompetitorSideDrawer: React.FC<CompetitorSideDrawerProps> = ({
@@ -63,7 +67,8 @@ export const CompetitorSideDrawer: React.FC<CompetitorSideDrawerProps> = ({
   currentDate,
   roomType,
   currentPrice,
-  onDateNavigate
+  onDateNavigate,
+  compSets = []
 }) => {
   if (!isOpen) return null;
 
@@ -73,6 +78,8 @@ export const CompetitorSideDrawer: React.FC<CompetitorSideDrawerProps> = ({
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedChannels, setSelectedChannels] = useState<string[]>(['all']);
   const [isChannelFilterOpen, setIsChannelFilterOpen] = useState(false);
+  // Comp set id, 'primary' until one is picked, or 'all' for every competitor at equal weight
+  const [compSetFilter, setCompSetFilter] = useState<string>('primary');
   
   const [currentScrollLeft, setCurrentScrollLeft] = useState(0);
   const [isScrolling, setIsScrolling] = useState(false);
@@ -262,7 +269,30 @@ export const CompetitorSideDrawer: React.FC<CompetitorSideDrawerProps> = ({
     return allCompetitors;
   };
 
-  const baseCompetitors = ensureMinimumCompetitors(competitors);
+  const activeCompSet = compSetFilter === 'all'
+    ? null
+    : compSets.find(compSet => compSetFilter === 'primary' ? compSet.type === 'PRIMARY' : compSet.id === compSetFilter) ?? null;
+
+  // Members of the active comp set with their weights, matched by name or rate shopper code;
+  // when none of the competitors are members yet, all of them are kept at equal weight
+  const applyCompSet = (comps: CompetitorInfo[]): CompetitorInfo[] => {
+    if (!activeCompSet) return comps;
+
+    const weights = new Map<string, number>();
+    for (const member of activeCompSet.members) {
+      for (const key of [member.competitorProperty?.name, member.competitorProperty?.code, member.competitorPropertyId]) {
+        if (key) weights.set(key.toLowerCase(), member.weight);
+      }
+    }
+
+    const members = comps.flatMap(comp => {
+      const weight = weights.get(comp.name.toLowerCase()) ?? (comp.code ? weights.get(comp.code.toLowerCase()) : undefined);
+      return weight === undefined ? [] : [{ ...comp, weight }];
+    });
+    return members.length > 0 ? members : comps;
+  };
+
+  const baseCompetitors = ensureMinimumCompetitors(applyCompSet(competitors));
   const enhancedCompetitors = baseCompetitors.map(comp => ({
     ...comp,
     channels: generateChannelData(comp.rate, comp.name)
@@ -338,6 +368,20 @@ export const CompetitorSideDrawer: React.FC<CompetitorSideDrawerProps> = ({
     }
   });
 
+  // Weighted average of the competitors' cheapest rates; competitors without a weight count once
+  const getMarketAverage = () => {
+    let weightedSum = 0;
+    let totalWeight = 0;
+    for (const competitor of sortedCompetitors) {
+      const rate = getCompetitorCheapestRate(competitor).rate;
+      if (rate <= 0) continue;
+      const weight = competitor.weight ?? 1;
+      weightedSum += rate * weight;
+      totalWeight += weight;
+    }
+    return totalWeight > 0 ? weightedSum / totalWeight : 0;
+  };
+
   const getTrendIcon = (trend: 'up' | 'down' | 'stable') => {
     switch (trend) {
       case 'up': return <TrendingUp className="w-3 h-3 text-red-500" />;
@@ -471,7 +515,7 @@ export const CompetitorSideDrawer: React.FC<CompetitorSideDrawerProps> = ({
     const userLowestRate = getUserCheapestRate().rate;
     const userChannel = getUserCheapestRate().channel;
     const competitorRates = sortedCompetitors.map(comp => getCompetitorCheapestRate(comp).rate);
-    const avgCompetitorRate = competitorRates.reduce((sum, rate) => sum + rate, 0) / competitorRates.length;
+    const avgCompetitorRate = getMarketAverage();
     const lowestCompetitorRate = Math.min(...competitorRates);
     const highestCompetitorRate = Math.max(...competitorRates);
     const rateSpread = highestCompetitorRate - lowestCompetitorRate;
@@ -745,6 +789,25 @@ export const CompetitorSideDrawer: React.FC<CompetitorSideDrawerProps> = ({
                 </div>
                 
                 <div className="flex items-center gap-3">
+                  {compSets.length > 0 && (
+                    <div className="relative">
+                      <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                      <select
+                        value={activeCompSet?.id ?? 'all'}
+                        onChange={(e) => setCompSetFilter(e.target.value)}
+                        className="pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white w-48"
+                        title="Comp set weighting the market average"
+                      >
+                        <option value="all">All competitors</option>
+                        {compSets.map(compSet => (
+                          <option key={compSet.id} value={compSet.id}>
+                            {compSet.name}{compSet.type === 'PRIMARY' ? ' (primary)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
                   <div className="relative">
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
                     <input
@@ -812,8 +875,16 @@ export const CompetitorSideDrawer: React.FC<CompetitorSideDrawerProps> = ({
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-4">
                           <div>
-                            <h4 className="font-semibold text-lg text-gray-900 dark:text-white">
+                            <h4 className="font-semibold text-lg text-gray-900 dark:text-white flex items-center gap-2">
                               {competitor.name}
+                              {activeCompSet && competitor.weight !== undefined && (
+                                <span
+                                  className="px-2 py-0.5 text-xs font-medium bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300 rounded-full"
+                                  title={`Weight in ${activeCompSet.name}`}
+                                >
+                                  ×{competitor.weight}
+                                </span>
+                              )}
                             </h4>
                             <div className="flex items-center gap-3 mt-1">
                               <div className="flex items-center gap-1">
@@ -964,7 +1035,7 @@ export const CompetitorSideDrawer: React.FC<CompetitorSideDrawerProps> = ({
                   {(() => {
                     const userLowestRate = getUserCheapestRate().rate;
                     const competitorRates = sortedCompetitors.map(comp => getCompetitorCheapestRate(comp).rate).filter(rate => rate > 0);
-                    const avgCompetitorRate = competitorRates.length > 0 ? competitorRates.reduce((sum, rate) => sum + rate, 0) / competitorRates.length : 0;
+                    const avgCompetitorRate = getMarketAverage();
                     const allRates = [userLowestRate, ...competitorRates].sort((a, b) => a - b);
                     const userPosition = allRates.indexOf(userLowestRate) + 1;
                     const diffFromAvg = avgCompetitorRate > 0 ? ((userLowestRate - avgCompetitorRate) / avgCompetitorRate) * 100 : 0;
@@ -1058,7 +1129,7 @@ export const CompetitorSideDrawer: React.FC<CompetitorSideDrawerProps> = ({
                   {(() => {
                     const userLowestRate = getUserCheapestRate().rate;
                     const competitorRates = sortedCompetitors.map(comp => getCompetitorCheapestRate(comp).rate).filter(rate => rate > 0);
-                    const avgCompetitorRate = competitorRates.length > 0 ? competitorRates.reduce((sum, rate) => sum + rate, 0) / competitorRates.length : 0;
+                    const avgCompetitorRate = getMarketAverage();
                     const diffFromAvg = avgCompetitorRate > 0 ? ((userLowestRate - avgCompetitorRate) / avgCompetitorRate) * 100 : 0;
                     const allRates = [userLowestRate, ...competitorRates].sort((a, b) => a - b);
                     const userPosition = allRates.indexOf(userLowestRate) + 1;
@@ -1217,7 +1288,7 @@ export const CompetitorSideDrawer: React.FC<CompetitorSideDrawerProps> = ({
                   {(() => {
                     const userLowestRate = getUserCheapestRate().rate;
                     const competitorRates = sortedCompetitors.map(comp => getCompetitorCheapestRate(comp).rate).filter(rate => rate > 0);
-                    const avgCompetitorRate = competitorRates.length > 0 ? competitorRates.reduce((sum, rate) => sum + rate, 0) / competitorRates.length : 0;
+                    const avgCompetitorRate = getMarketAverage();
                     const allRates = [userLowestRate, ...competitorRates].sort((a, b) => a - b);
                     const userPosition = allRates.indexOf(userLowestRate) + 1;
                     const minRate = Math.min(...competitorRates);
@@ -0,0 +1,145 @@
+/**
+ * Automation Rules Hook
+ * Loads a property's automation rules and saves, pauses, tests, previews and deletes them
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { automationRulesApi } from '../lib/api/automation-rules';
+import { ApiError } from '../lib/api/client';
+import type {
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationRuleStatus,
+  RuleExecution,
+  RulePreview,
+} from '../types/automation-rules';
+
+/**
+ * Hook for the automation rules manager
+ *
+ * Features:
+ * - Rule list with performance, refreshed after every change
+ * - Create and update from the rule builder; status changes pause, resume or test a rule
+ * - Preview of the matches of an unsaved rule
+ * - Execution history of one rule
+ */
+export function useAutomationRules(propertyId?: string) {
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [executions, setExecutions] = useState<Record<string, RuleExecution[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isForbidden, setIsForbidden] = useState(false);
+
+  const handleError = useCallback((err: unknown, fallback: string) => {
+    if (err instanceof ApiError && err.status === 403) {
+      setIsForbidden(true);
+    }
+    setError(err instanceof Error ? err.message : fallback);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!propertyId) {
+      setError('Select a property to manage automation rules');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setRules(await automationRulesApi.list(propertyId));
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Failed to load automation rules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [propertyId, handleError]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Create a rule, or update it when an id is given; resolves false on failure
+   */
+  const saveRule = useCallback(async (input: AutomationRuleInput, ruleId?: string): Promise<boolean> => {
+    if (!propertyId) return false;
+
+    setIsSaving(true);
+    try {
+      const saved = ruleId
+        ? await automationRulesApi.update(propertyId, ruleId, input)
+        : await automationRulesApi.create(propertyId, input);
+      setRules(prev => ruleId ? prev.map(rule => rule.id === ruleId ? saved : rule) : [saved, ...prev]);
+      setError(null);
+      return true;
+    } catch (err) {
+      handleError(err, 'Failed to save automation rule');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [propertyId, handleError]);
+
+  const setStatus = useCallback(async (ruleId: string, status: AutomationRuleStatus) => {
+    if (!propertyId) return;
+
+    try {
+      const saved = await automationRulesApi.update(propertyId, ruleId, { status });
+      setRules(prev => prev.map(rule => rule.id === ruleId ? saved : rule));
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Failed to change rule status');
+    }
+  }, [propertyId, handleError]);
+
+  const deleteRule = useCallback(async (ruleId: string) => {
+    if (!propertyId) return;
+
+    try {
+      await automationRulesApi.remove(propertyId, ruleId);
+      setRules(prev => prev.filter(rule => rule.id !== ruleId));
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Failed to delete automation rule');
+    }
+  }, [propertyId, handleError]);
+
+  /**
+   * Matches of an unsaved rule; errors are thrown to the builder
+   */
+  const previewRule = useCallback(async (input: AutomationRuleInput): Promise<RulePreview> => {
+    if (!propertyId) {
+      throw new Error('Select a property to preview rules');
+    }
+    return automationRulesApi.preview(propertyId, input);
+  }, [propertyId]);
+
+  const loadExecutions = useCallback(async (ruleId: string) => {
+    if (!propertyId) return;
+
+    try {
+      const ruleExecutions = await automationRulesApi.getExecutions(propertyId, ruleId);
+      setExecutions(prev => ({ ...prev, [ruleId]: ruleExecutions }));
+    } catch (err) {
+      handleError(err, 'Failed to load rule executions');
+    }
+  }, [propertyId, handleError]);
+
+  return {
+    rules,
+    executions,
+    isLoading,
+    isSaving,
+    error,
+    isForbidden,
+    refresh,
+    saveRule,
+    setStatus,
+    deleteRule,
+    previewRule,
+    loadExecutions,
+  };
+}
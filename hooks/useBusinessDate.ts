@@ -0,0 +1,63 @@
+/**
+ * Business Date Hook
+ * Loads the business date of a property, the "today" of its date columns
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { businessDatesApi } from '../lib/api/business-dates';
+import { localDateString } from '../lib/business-date';
+import type { DateOnly } from '../types/business-date';
+
+/**
+ * Hook for the grid and every view that starts from "today"
+ *
+ * Features:
+ * - Business date and timezone of the property from the API
+ * - Without the backend, today in the property's known timezone, or in the
+ *   browser's timezone when none is known
+ * - Reloads when the property changes and when the local day ends
+ */
+export function useBusinessDate(propertyId?: string, knownTimezone?: string) {
+  const [timezone, setTimezone] = useState<string | undefined>(knownTimezone);
+  const [businessDate, setBusinessDate] = useState<DateOnly>(() => localDateString(knownTimezone));
+  const [isLoading, setIsLoading] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    setTimezone(knownTimezone);
+    setBusinessDate(localDateString(knownTimezone));
+    if (!propertyId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    businessDatesApi.getBusinessDate(propertyId)
+      .then(result => {
+        if (!cancelled) {
+          setTimezone(result.timezone);
+          setBusinessDate(result.businessDate);
+        }
+      })
+      // Keep the locally computed date
+      .catch(() => undefined)
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [propertyId, knownTimezone, refreshKey]);
+
+  // Move to the next business date once the property's day has ended
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (localDateString(timezone) !== businessDate) {
+        setRefreshKey(key => key + 1);
+      }
+    }, 60 * 1000);
+
+    return () => clearInterval(interval);
+  }, [timezone, businessDate]);
+
+  return { businessDate, timezone, isLoading };
+}
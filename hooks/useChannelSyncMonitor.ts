@@ -0,0 +1,102 @@
+/**
+ * Channel Sync Monitor Hook
+ * Loads and periodically refreshes channel sync health, history, failures and queue depth
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { channelSyncApi } from '../lib/api/channel-sync';
+import { ApiError } from '../lib/api/client';
+import type {
+  ChannelSyncSummary,
+  FailedSyncRecord,
+  QueueStats,
+  SyncLogEntry,
+} from '../types/channel-sync';
+
+const REFRESH_INTERVAL = 15000; // milliseconds
+const HISTORY_LIMIT = 50;
+
+/**
+ * Hook for the channel sync monitor
+ *
+ * Features:
+ * - Per-channel summary over a selectable window
+ * - Sync history and failed records, optionally narrowed to one channel
+ * - Sync and retry queue depth
+ * - Auto-refresh that can be paused; stops when the role lacks channel_sync.monitor
+ */
+export function useChannelSyncMonitor(propertyId?: string) {
+  const [overview, setOverview] = useState<ChannelSyncSummary[]>([]);
+  const [logs, setLogs] = useState<SyncLogEntry[]>([]);
+  const [failures, setFailures] = useState<FailedSyncRecord[]>([]);
+  const [queueStats, setQueueStats] = useState<QueueStats | null>(null);
+  const [channelId, setChannelId] = useState<string | undefined>();
+  const [hours, setHours] = useState(24);
+  const [autoRefresh, setAutoRefresh] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isForbidden, setIsForbidden] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!propertyId) {
+      setError('Select a property to monitor channel sync');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [nextOverview, nextLogs, nextFailures, nextQueueStats] = await Promise.all([
+        channelSyncApi.getOverview(propertyId, hours),
+        channelSyncApi.getLogs(propertyId, { channelId, limit: HISTORY_LIMIT }),
+        channelSyncApi.getFailures(propertyId, channelId),
+        channelSyncApi.getQueueStats(),
+      ]);
+
+      setOverview(nextOverview);
+      setLogs(nextLogs);
+      setFailures(nextFailures);
+      setQueueStats(nextQueueStats);
+      setLastUpdated(new Date());
+      setError(null);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 403) {
+        setIsForbidden(true);
+      }
+      setError(err instanceof Error ? err.message : 'Failed to load channel sync status');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [propertyId, channelId, hours]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!autoRefresh || isForbidden) return;
+
+    const timer = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [autoRefresh, isForbidden, refresh]);
+
+  return {
+    overview,
+    logs,
+    failures,
+    queueStats,
+    channelId,
+    setChannelId,
+    hours,
+    setHours,
+    autoRefresh,
+    setAutoRefresh,
+    isLoading,
+    error,
+    isForbidden,
+    lastUpdated,
+    refresh,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Comp Sets Hook
+ * Loads a property's competitors and comp sets, and saves and deletes them
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { compSetsApi } from '../lib/api/comp-sets';
+import { ApiError } from '../lib/api/client';
+import type {
+  CompSet,
+  CompSetInput,
+  Competitor,
+  CompetitorInput,
+} from '../types/comp-sets';
+
+/**
+ * Hook for the comp set manager and the competitor drawer
+ *
+ * Features:
+ * - Competitors with their room category mapping, and comp sets with member weights
+ * - Create and update of competitors and comp sets; comp sets are reloaded after a
+ *   competitor changes so member names stay current
+ * - Primary comp set, which weights the market averages of recommendations
+ */
+export function useCompSets(propertyId?: string) {
+  const [competitors, setCompetitors] = useState<Competitor[]>([]);
+  const [compSets, setCompSets] = useState<CompSet[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isForbidden, setIsForbidden] = useState(false);
+
+  const handleError = useCallback((err: unknown, fallback: string) => {
+    if (err instanceof ApiError && err.status === 403) {
+      setIsForbidden(true);
+    }
+    setError(err instanceof Error ? err.message : fallback);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!propertyId) {
+      setError('Select a property to manage comp sets');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const [loadedCompetitors, loadedCompSets] = await Promise.all([
+        compSetsApi.listCompetitors(propertyId),
+        compSetsApi.list(propertyId),
+      ]);
+      setCompetitors(loadedCompetitors);
+      setCompSets(loadedCompSets);
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Failed to load comp sets');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [propertyId, handleError]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Create a competitor, or update it when an id is given; resolves false on failure
+   */
+  const saveCompetitor = useCallback(async (input: CompetitorInput, competitorId?: string): Promise<boolean> => {
+    if (!propertyId) return false;
+
+    setIsSaving(true);
+    try {
+      if (competitorId) {
+        const { code: _code, ...changes } = input;
+        const saved = await compSetsApi.updateCompetitor(propertyId, competitorId, changes);
+        setCompetitors(prev => prev.map(competitor => competitor.id === competitorId ? saved : competitor));
+        setCompSets(await compSetsApi.list(propertyId));
+      } else {
+        const saved = await compSetsApi.createCompetitor(propertyId, input);
+        setCompetitors(prev => [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      setError(null);
+      return true;
+    } catch (err) {
+      handleError(err, 'Failed to save competitor');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [propertyId, handleError]);
+
+  /**
+   * Create a comp set, or update it when an id is given; resolves false on failure
+   */
+  const saveCompSet = useCallback(async (input: CompSetInput, compSetId?: string): Promise<boolean> => {
+    if (!propertyId) return false;
+
+    setIsSaving(true);
+    try {
+      const saved = compSetId
+        ? await compSetsApi.update(propertyId, compSetId, input)
+        : await compSetsApi.create(propertyId, input);
+      setCompSets(prev => compSetId ? prev.map(compSet => compSet.id === compSetId ? saved : compSet) : [...prev, saved]);
+      setError(null);
+      return true;
+    } catch (err) {
+      handleError(err, 'Failed to save comp set');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [propertyId, handleError]);
+
+  const deleteCompSet = useCallback(async (compSetId: string) => {
+    if (!propertyId) return;
+
+    try {
+      await compSetsApi.remove(propertyId, compSetId);
+      setCompSets(prev => prev.filter(compSet => compSet.id !== compSetId));
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Failed to delete comp set');
+    }
+  }, [propertyId, handleError]);
+
+  const primaryCompSet = compSets.find(compSet => compSet.type === 'PRIMARY') ?? null;
+
+  return {
+    competitors,
+    compSets,
+    primaryCompSet,
+    isLoading,
+    isSaving,
+    error,
+    isForbidden,
+    refresh,
+    saveCompetitor,
+    saveCompSet,
+    deleteCompSet,
+  };
+}
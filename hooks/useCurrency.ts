@@ -0,0 +1,21 @@
+/**
+ * Currency Hook
+ * Reads the selected property's currency and exchange rates from CurrencyProvider
+ */
+
+'use client';
+
+import { useContext } from 'react';
+import { CurrencyContext, type CurrencyContextValue } from '../components/CurrencyProvider';
+
+/**
+ * Hook for every component that shows amounts
+ *
+ * Features:
+ * - Formatting in the property currency, or in any other currency
+ * - Conversion between currencies at today's exchange rates
+ * - Outside a CurrencyProvider amounts are formatted in the default currency
+ */
+export function useCurrency(): CurrencyContextValue {
+  return useContext(CurrencyContext);
+}
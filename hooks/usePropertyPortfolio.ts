@@ -0,0 +1,72 @@
+/**
+ * Property Portfolio Hook
+ * Loads the properties a user can access and tracks the selected one
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { propertiesApi } from '../lib/api/properties';
+import type { OrganizationPortfolio, PropertySummary } from '../types/properties';
+
+/**
+ * Hook for the property selectors
+ *
+ * Features:
+ * - Accessible properties grouped by organization
+ * - Opens on the user's last used property, or the first one
+ * - Remembers every selection for the user's next sign-in
+ */
+export function usePropertyPortfolio() {
+  const [organizations, setOrganizations] = useState<OrganizationPortfolio[]>([]);
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const properties = useMemo(
+    () => organizations.flatMap(organization => organization.properties),
+    [organizations],
+  );
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const portfolio = await propertiesApi.getPortfolio();
+      const accessible = portfolio.organizations.flatMap(organization => organization.properties);
+      setOrganizations(portfolio.organizations);
+      setSelectedPropertyId(current =>
+        accessible.some(property => property.id === current)
+          ? current
+          : portfolio.lastPropertyId ?? accessible[0]?.id ?? null,
+      );
+      setError(accessible.length ? null : 'No properties are assigned to your account');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load properties');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const selectProperty = useCallback((propertyId: string) => {
+    setSelectedPropertyId(propertyId);
+    // Selection still applies for this visit when it cannot be stored
+    propertiesApi.setLastUsed(propertyId).catch(() => undefined);
+  }, []);
+
+  const selectedProperty: PropertySummary | null =
+    properties.find(property => property.id === selectedPropertyId) ?? null;
+
+  return {
+    organizations,
+    properties,
+    selectedProperty,
+    selectProperty,
+    isLoading,
+    error,
+    refresh,
+  };
+}
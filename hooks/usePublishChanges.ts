@@ -0,0 +1,248 @@
+/**
+ * Publish Changes Hook
+ * Publishes grid changes to the backend and tracks the channel sync state of every cell
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { publishApi } from '../lib/api/publish';
+import {
+  CellSyncState,
+  ChannelSyncOutcome,
+  PublishCell,
+  PublishCellOutcome,
+  PublishCellResult,
+  PublishOutcome,
+  RecordSyncStatus,
+  isPublishSubmission,
+} from '../types/publish';
+
+const SYNC_POLL_INTERVAL = 5000; // milliseconds
+const MAX_SYNC_POLLS = 24; // stop polling after two minutes
+
+interface LastPublish {
+  changeIds: string[];
+  pendingApproval: boolean;
+  changeRequestId?: string;
+  channels: ChannelSyncOutcome[];
+}
+
+/**
+ * Hook for the grid publish flow
+ *
+ * Features:
+ * - Sends resolved cells to the publish endpoint in one request
+ * - Polls channel sync state until every published cell succeeds or fails
+ * - Exposes per-cell sync state for the grid and the last outcome for the dialog
+ * - Reports a failed sync status refresh as an error while polling continues
+ * - Retries only the cells that failed
+ */
+export function usePublishChanges(propertyId?: string) {
+  const [cells, setCells] = useState<Record<string, PublishCellOutcome>>({});
+  const [lastPublish, setLastPublish] = useState<LastPublish | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requests = useRef<Record<string, PublishCell>>({});
+  const pollCount = useRef(0);
+
+  const mergeCells = useCallback((updates: PublishCellOutcome[]) => {
+    setCells(prev => {
+      const next = { ...prev };
+      updates.forEach(cell => {
+        next[cell.changeId] = cell;
+      });
+      return next;
+    });
+  }, []);
+
+  const publishCells = useCallback(async (toPublish: PublishCell[], merge: boolean) => {
+    if (toPublish.length === 0) return;
+
+    setIsPublishing(true);
+    pollCount.current = 0;
+    toPublish.forEach(cell => {
+      requests.current[cell.changeId] = cell;
+    });
+
+    const sendable = toPublish.filter(cell => cell.request);
+    let results: PublishCellOutcome[];
+    let channels: ChannelSyncOutcome[] = [];
+    let pendingApproval = false;
+    let changeRequestId: string | undefined;
+
+    try {
+      if (!propertyId) {
+        throw new Error('Select a property before publishing');
+      }
+
+      const response = sendable.length
+        ? await publishApi.publishChanges(propertyId, sendable.map(cell => cell.request!))
+        : null;
+
+      if (isPublishSubmission(response)) {
+        pendingApproval = true;
+        changeRequestId = response.changeRequest.id;
+        results = toPublish.map(cell => cell.error
+          ? failedCell(cell, [cell.error])
+          : { ...pendingCell(cell), awaitingApproval: true });
+      } else {
+        const byChange: Record<string, PublishCellResult> = {};
+        response?.cells.forEach(result => {
+          byChange[result.changeId] = result;
+        });
+
+        results = toPublish.map(cell => {
+          const result = byChange[cell.changeId];
+          if (cell.error) return failedCell(cell, [cell.error]);
+          if (!result) return failedCell(cell, ['No result returned for this change']);
+          return {
+            changeId: cell.changeId,
+            cellKey: cell.cellKey,
+            status: result.status,
+            errors: result.errors,
+            rateInventoryIds: result.rateInventoryIds,
+          };
+        });
+        channels = response?.channels ?? [];
+      }
+    } catch (error: any) {
+      results = toPublish.map(cell => failedCell(cell, [cell.error ?? error.message]));
+    }
+
+    mergeCells(results);
+    setLastPublish(prev => {
+      const changeIds = toPublish.map(cell => cell.changeId);
+      if (!merge || !prev) {
+        return { changeIds, pendingApproval, changeRequestId, channels };
+      }
+
+      const retriedChannels = channels.map(channel => channel.channelId);
+      return {
+        changeIds: Array.from(new Set([...prev.changeIds, ...changeIds])),
+        pendingApproval: prev.pendingApproval || pendingApproval,
+        changeRequestId: changeRequestId ?? prev.changeRequestId,
+        channels: [...prev.channels.filter(c => !retriedChannels.includes(c.channelId)), ...channels],
+      };
+    });
+    setIsPublishing(false);
+  }, [propertyId, mergeCells]);
+
+  const publish = useCallback(
+    (toPublish: PublishCell[]) => publishCells(toPublish, false),
+    [publishCells]
+  );
+
+  // Outcome of the last publish, kept current as channel syncs complete
+  const outcome = useMemo<PublishOutcome | null>(() => {
+    if (!lastPublish) return null;
+    return {
+      pendingApproval: lastPublish.pendingApproval,
+      changeRequestId: lastPublish.changeRequestId,
+      cells: lastPublish.changeIds.map(id => cells[id]).filter(Boolean),
+      channels: lastPublish.channels,
+    };
+  }, [lastPublish, cells]);
+
+  const retryFailed = useCallback(() => {
+    if (!outcome) return Promise.resolve();
+    const failed = outcome.cells
+      .filter(cell => cell.status === 'FAILED')
+      .map(cell => requests.current[cell.changeId])
+      .filter(Boolean);
+    return publishCells(failed, true);
+  }, [outcome, publishCells]);
+
+  const clearOutcome = useCallback(() => setLastPublish(null), []);
+
+  // Sync state per grid cell; later publishes of the same cell win
+  const cellSyncStates = useMemo(() => {
+    const states: Record<string, CellSyncState> = {};
+    Object.keys(cells).forEach(id => {
+      const cell = cells[id];
+      states[cell.cellKey] = {
+        status: cell.status,
+        reason: cell.status === 'FAILED'
+          ? cell.errors.join('; ')
+          : cell.awaitingApproval ? 'Awaiting approval' : undefined,
+      };
+    });
+    return states;
+  }, [cells]);
+
+  // Poll channel sync state of published records until they settle
+  useEffect(() => {
+    if (!propertyId) return;
+
+    const pending = Object.keys(cells)
+      .map(id => cells[id])
+      .filter(cell => cell.status === 'PENDING' && cell.rateInventoryIds.length > 0);
+    if (pending.length === 0 || pollCount.current >= MAX_SYNC_POLLS) return;
+
+    const timer = setTimeout(async () => {
+      pollCount.current += 1;
+      const ids = Array.from(new Set(pending.reduce<string[]>((all, cell) => all.concat(cell.rateInventoryIds), [])));
+
+      try {
+        const statuses = await publishApi.getSyncStatus(propertyId, ids);
+        const byId: Record<string, RecordSyncStatus> = {};
+        statuses.forEach(status => {
+          byId[status.id] = status;
+        });
+        mergeCells(pending.map(cell => resolveSyncState(cell, byId)));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to refresh channel sync status');
+        mergeCells([]);
+      }
+    }, SYNC_POLL_INTERVAL);
+
+    return () => clearTimeout(timer);
+  }, [cells, propertyId, mergeCells]);
+
+  return {
+    publish,
+    retryFailed,
+    clearOutcome,
+    outcome,
+    cellSyncStates,
+    isPublishing,
+    error,
+  };
+}
+
+function pendingCell(cell: PublishCell): PublishCellOutcome {
+  return {
+    changeId: cell.changeId,
+    cellKey: cell.cellKey,
+    status: 'PENDING',
+    errors: [],
+    rateInventoryIds: [],
+  };
+}
+
+function failedCell(cell: PublishCell, errors: string[]): PublishCellOutcome {
+  return { ...pendingCell(cell), status: 'FAILED', errors };
+}
+
+/**
+ * A cell fails as soon as one of its records fails to sync and succeeds once all have synced
+ */
+function resolveSyncState(
+  cell: PublishCellOutcome,
+  byId: Record<string, RecordSyncStatus>
+): PublishCellOutcome {
+  const records = cell.rateInventoryIds.map(id => byId[id]).filter(Boolean);
+  const failed = records.filter(record => record.status === 'FAILED');
+
+  if (failed.length > 0) {
+    const errors = Array.from(new Set(failed.map(record => record.error || 'Channel sync failed')));
+    return { ...cell, status: 'FAILED', errors };
+  }
+
+  if (records.length === cell.rateInventoryIds.length && records.every(record => record.status === 'SUCCESS')) {
+    return { ...cell, status: 'SUCCESS' };
+  }
+
+  return { ...cell };
+}
@@ -0,0 +1,144 @@
+/**
+ * Rates Import Hook
+ * Drives the import wizard: upload, column mapping, diff preview and commit of accepted rows
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { importApi } from '../lib/api/import';
+import { isPublishSubmission } from '../types/publish';
+import {
+  ImportColumnMapping,
+  ImportCommitResult,
+  ImportField,
+  ImportPreview,
+  ImportStep,
+  ParsedImportFile,
+} from '../types/import';
+
+export interface ImportOutcome {
+  pendingApproval: boolean;
+  changeRequestId?: string;
+  result?: ImportCommitResult;
+}
+
+/**
+ * Hook for the rates import wizard
+ *
+ * Features:
+ * - Uploads the file and starts from the server-suggested column mapping
+ * - Previews mapped rows with row-level errors and before/after values
+ * - Accepts every changed row by default; invalid rows cannot be accepted
+ * - Commits only the accepted rows and reports approval staging
+ */
+export function useRatesImport(propertyId?: string) {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [file, setFile] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping[]>([]);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [acceptedRows, setAcceptedRows] = useState<number[]>([]);
+  const [outcome, setOutcome] = useState<ImportOutcome | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const run = useCallback(async (action: (propertyId: string) => Promise<void>) => {
+    if (!propertyId) {
+      setError('Select a property before importing');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action(propertyId);
+    } catch (err: any) {
+      setError(err.message || 'Import request failed');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [propertyId]);
+
+  const upload = useCallback((selected: File) => run(async id => {
+    const parsed = await importApi.uploadFile(id, selected);
+    setFile(parsed);
+    setMapping(parsed.suggestedMapping);
+    setPreview(null);
+    setStep('mapping');
+  }), [run]);
+
+  // Map a column to a field; an empty field unmaps the column
+  const mapColumn = useCallback((column: string, field: ImportField | '') => {
+    setMapping(prev => {
+      const next = prev.filter(m => m.column !== column && m.field !== field);
+      return field ? [...next, { column, field }] : next;
+    });
+  }, []);
+
+  const loadPreview = useCallback(() => run(async id => {
+    if (!file) return;
+    const result = await importApi.previewImport(id, mapping, file.rows);
+    setPreview(result);
+    setAcceptedRows(result.rows
+      .filter(row => row.status === 'NEW' || row.status === 'CHANGED')
+      .map(row => row.rowNumber));
+    setStep('preview');
+  }), [run, file, mapping]);
+
+  const toggleRow = useCallback((rowNumber: number) => {
+    setAcceptedRows(prev => prev.includes(rowNumber)
+      ? prev.filter(row => row !== rowNumber)
+      : [...prev, rowNumber]);
+  }, []);
+
+  const setAllAccepted = useCallback((accepted: boolean) => {
+    setAcceptedRows(accepted && preview
+      ? preview.rows
+        .filter(row => row.status === 'NEW' || row.status === 'CHANGED')
+        .map(row => row.rowNumber)
+      : []);
+  }, [preview]);
+
+  const commit = useCallback(() => run(async id => {
+    if (!file || acceptedRows.length === 0) return;
+    const response = await importApi.commitImport(id, mapping, file.rows, acceptedRows, file.fileName);
+    setOutcome(isPublishSubmission(response)
+      ? { pendingApproval: true, changeRequestId: response.changeRequest.id }
+      : { pendingApproval: false, result: response });
+    setStep('complete');
+  }), [run, file, mapping, acceptedRows]);
+
+  const goBack = useCallback(() => {
+    setError(null);
+    setStep(prev => (prev === 'preview' ? 'mapping' : 'upload'));
+  }, []);
+
+  const reset = useCallback(() => {
+    setStep('upload');
+    setFile(null);
+    setMapping([]);
+    setPreview(null);
+    setAcceptedRows([]);
+    setOutcome(null);
+    setError(null);
+  }, []);
+
+  return {
+    step,
+    file,
+    mapping,
+    preview,
+    acceptedRows,
+    outcome,
+    error,
+    isLoading,
+    upload,
+    mapColumn,
+    loadPreview,
+    toggleRow,
+    setAllAccepted,
+    commit,
+    goBack,
+    reset,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Restriction Rules Hook
+ * Loads a property's persisted bulk restrictions and creates, activates, deactivates and deletes them
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { restrictionRulesApi } from '../lib/api/restriction-rules';
+import { ApiError } from '../lib/api/client';
+import type { RestrictionRule, RestrictionRuleInput } from '../types/restriction-rules';
+
+/**
+ * Hook for the bulk restriction panels and the grid
+ *
+ * Features:
+ * - Rule list, with the outcome of the last activation or deactivation on the changed rule
+ * - Create as draft or active; activating expands a rule into rate inventory
+ * - Deactivate and delete, reverting the rate inventory a rule set
+ */
+export function useRestrictionRules(propertyId?: string) {
+  const [rules, setRules] = useState<RestrictionRule[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isForbidden, setIsForbidden] = useState(false);
+
+  const handleError = useCallback((err: unknown, fallback: string) => {
+    if (err instanceof ApiError && err.status === 403) {
+      setIsForbidden(true);
+    }
+    setError(err instanceof Error ? err.message : fallback);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!propertyId) {
+      setError('Select a property to manage restriction rules');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setRules(await restrictionRulesApi.list(propertyId));
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Failed to load restriction rules');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [propertyId, handleError]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const replaceRule = useCallback((saved: RestrictionRule) => {
+    setRules(prev => prev.some(rule => rule.id === saved.id)
+      ? prev.map(rule => rule.id === saved.id ? saved : rule)
+      : [saved, ...prev]);
+  }, []);
+
+  /**
+   * Create a rule; resolves to the saved rule, or null on failure
+   */
+  const createRule = useCallback(async (input: RestrictionRuleInput): Promise<RestrictionRule | null> => {
+    if (!propertyId) {
+      setError('Select a property to save restriction rules');
+      return null;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await restrictionRulesApi.create(propertyId, input);
+      replaceRule(saved);
+      setError(null);
+      return saved;
+    } catch (err) {
+      handleError(err, 'Failed to save restriction rule');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [propertyId, handleError, replaceRule]);
+
+  const activateRule = useCallback(async (ruleId: string): Promise<RestrictionRule | null> => {
+    if (!propertyId) return null;
+
+    setIsSaving(true);
+    try {
+      const saved = await restrictionRulesApi.activate(propertyId, ruleId);
+      replaceRule(saved);
+      setError(null);
+      return saved;
+    } catch (err) {
+      handleError(err, 'Failed to activate restriction rule');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [propertyId, handleError, replaceRule]);
+
+  const deactivateRule = useCallback(async (ruleId: string): Promise<RestrictionRule | null> => {
+    if (!propertyId) return null;
+
+    setIsSaving(true);
+    try {
+      const saved = await restrictionRulesApi.deactivate(propertyId, ruleId);
+      replaceRule(saved);
+      setError(null);
+      return saved;
+    } catch (err) {
+      handleError(err, 'Failed to deactivate restriction rule');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [propertyId, handleError, replaceRule]);
+
+  const deleteRule = useCallback(async (ruleId: string) => {
+    if (!propertyId) return;
+
+    try {
+      await restrictionRulesApi.remove(propertyId, ruleId);
+      setRules(prev => prev.filter(rule => rule.id !== ruleId));
+      setError(null);
+    } catch (err) {
+      handleError(err, 'Failed to delete restriction rule');
+    }
+  }, [propertyId, handleError]);
+
+  return {
+    rules,
+    isLoading,
+    isSaving,
+    error,
+    isForbidden,
+    refresh,
+    createRule,
+    activateRule,
+    deactivateRule,
+    deleteRule,
+  };
+}
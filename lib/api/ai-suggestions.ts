@@ -0,0 +1,72 @@
+/**
+ * AI Suggestions API Client
+ * Applies, undoes and rejects suggestions, sends feedback and reads acceptance stats
+ */
+
+import type {
+  SuggestionFeedback,
+  SuggestionReasonCode,
+  SuggestionState,
+  SuggestionStatsSummary,
+} from '@/types/ai-suggestions';
+import { apiRequest } from './client';
+
+interface AiInsightsResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * The AI insights endpoints report failures in the body rather than the status
+ */
+async function aiInsightsRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await apiRequest<AiInsightsResponse<T>>(path, init);
+  if (!response.success) {
+    throw new Error(response.error || 'AI insights request failed');
+  }
+  return response.data as T;
+}
+
+export const aiSuggestionsApi = {
+  /**
+   * Load a suggested rate on every channel
+   */
+  apply(suggestionId: string): Promise<SuggestionState> {
+    return aiInsightsRequest(`/ai-insights/suggestions/${suggestionId}/apply`, { method: 'POST' });
+  },
+
+  /**
+   * Restore the rates an applied suggestion replaced, while undo is available
+   */
+  undo(suggestionId: string): Promise<SuggestionState> {
+    return aiInsightsRequest(`/ai-insights/suggestions/${suggestionId}/undo`, { method: 'POST' });
+  },
+
+  /**
+   * Reject a suggestion with a reason code
+   */
+  reject(suggestionId: string, reasonCode: SuggestionReasonCode, comment?: string): Promise<void> {
+    return aiInsightsRequest(`/ai-insights/suggestions/${suggestionId}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ reasonCode, comment }),
+    });
+  },
+
+  /**
+   * Tell whether a suggestion was helpful, and why not
+   */
+  sendFeedback(suggestionId: string, feedback: SuggestionFeedback): Promise<void> {
+    return aiInsightsRequest(`/ai-insights/suggestions/${suggestionId}/feedback`, {
+      method: 'POST',
+      body: JSON.stringify(feedback),
+    });
+  },
+
+  /**
+   * Acceptance and rejection stats per user and suggestion type
+   */
+  getStats(propertyId: string): Promise<SuggestionStatsSummary> {
+    return aiInsightsRequest(`/ai-insights/suggestions/${propertyId}/stats`);
+  },
+};
@@ -0,0 +1,59 @@
+/**
+ * Automation Rules API Client
+ * Manages automation rules, previews their matches and reads their executions
+ */
+
+import type {
+  AutomationRule,
+  AutomationRuleInput,
+  RuleExecution,
+  RulePreview,
+} from '@/types/automation-rules';
+import { apiRequest } from './client';
+
+export const automationRulesApi = {
+  /**
+   * Rules of a property with their performance
+   */
+  list(propertyId: string): Promise<AutomationRule[]> {
+    return apiRequest(`/properties/${propertyId}/automation-rules`);
+  },
+
+  create(propertyId: string, rule: AutomationRuleInput): Promise<AutomationRule> {
+    return apiRequest(`/properties/${propertyId}/automation-rules`, {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    });
+  },
+
+  /**
+   * Update a rule; pass only status to pause, resume or test it
+   */
+  update(propertyId: string, ruleId: string, changes: Partial<AutomationRuleInput>): Promise<AutomationRule> {
+    return apiRequest(`/properties/${propertyId}/automation-rules/${ruleId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  },
+
+  remove(propertyId: string, ruleId: string): Promise<void> {
+    return apiRequest(`/properties/${propertyId}/automation-rules/${ruleId}`, { method: 'DELETE' });
+  },
+
+  /**
+   * Stay dates and room types an unsaved rule would match now
+   */
+  preview(propertyId: string, rule: AutomationRuleInput): Promise<RulePreview> {
+    return apiRequest(`/properties/${propertyId}/automation-rules/preview`, {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    });
+  },
+
+  /**
+   * Most recent executions of a rule
+   */
+  getExecutions(propertyId: string, ruleId: string, limit = 50): Promise<RuleExecution[]> {
+    return apiRequest(`/properties/${propertyId}/automation-rules/${ruleId}/executions?limit=${limit}`);
+  },
+};
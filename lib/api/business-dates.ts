@@ -0,0 +1,13 @@
+/**
+ * Business Dates API Client
+ * Reads the business date of a property, which the grid uses as "today"
+ */
+
+import type { PropertyBusinessDate } from '@/types/business-date';
+import { apiRequest } from './client';
+
+export const businessDatesApi = {
+  getBusinessDate(propertyId: string): Promise<PropertyBusinessDate> {
+    return apiRequest(`/properties/${propertyId}/business-date`);
+  },
+};
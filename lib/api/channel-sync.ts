@@ -0,0 +1,48 @@
+/**
+ * Channel Sync API Client
+ * Reads sync history, channel health and queue depth for the sync monitor
+ */
+
+import type {
+  ChannelSyncStatus,
+  ChannelSyncSummary,
+  FailedSyncRecord,
+  QueueStats,
+  SyncLogEntry,
+} from '@/types/channel-sync';
+import { apiRequest } from './client';
+
+export const channelSyncApi = {
+  /**
+   * Per-channel sync health over the last hours
+   */
+  getOverview(propertyId: string, hours = 24): Promise<ChannelSyncSummary[]> {
+    return apiRequest(`/properties/${propertyId}/channel-sync/overview?hours=${hours}`);
+  },
+
+  /**
+   * Most recent syncs, optionally for one channel or status
+   */
+  getLogs(propertyId: string, filter: { channelId?: string; status?: ChannelSyncStatus; limit?: number } = {}): Promise<SyncLogEntry[]> {
+    const params = new URLSearchParams();
+    if (filter.channelId) params.set('channelId', filter.channelId);
+    if (filter.status) params.set('status', filter.status);
+    if (filter.limit) params.set('limit', String(filter.limit));
+    return apiRequest(`/properties/${propertyId}/channel-sync/logs?${params}`);
+  },
+
+  /**
+   * Records whose last channel push failed
+   */
+  getFailures(propertyId: string, channelId?: string): Promise<FailedSyncRecord[]> {
+    const params = new URLSearchParams(channelId ? { channelId } : {});
+    return apiRequest(`/properties/${propertyId}/channel-sync/failures?${params}`);
+  },
+
+  /**
+   * Job counts of the sync and retry queues
+   */
+  getQueueStats(): Promise<QueueStats> {
+    return apiRequest('/channel-sync/queue-stats');
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * API Client
+ * Authenticated fetch helper for the rates & inventory backend
+ */
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api/v1';
+const TOKEN_STORAGE_KEY = 'rates_inventory_token';
+
+/**
+ * Error thrown for non-2xx responses, carrying the HTTP status
+ */
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Send a request and return the parsed JSON body, throwing the server message on failure
+ */
+export async function apiRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const token = typeof window !== 'undefined' ? window.localStorage.getItem(TOKEN_STORAGE_KEY) : null;
+  // Let the browser set the multipart boundary for uploads
+  const isUpload = typeof FormData !== 'undefined' && init.body instanceof FormData;
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: {
+      ...(isUpload ? {} : { 'Content-Type': 'application/json' }),
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init.headers,
+    },
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = Array.isArray(body?.message) ? body.message.join(', ') : body?.message;
+    throw new ApiError(message || `Request failed with status ${response.status}`, response.status);
+  }
+
+  return body as T;
+}
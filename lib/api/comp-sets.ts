@@ -0,0 +1,80 @@
+/**
+ * Comp Sets API Client
+ * Manages competitor properties and comp sets, and reads the weighted market of a comp set
+ */
+
+import type {
+  CompSet,
+  CompSetInput,
+  CompSetMarketPoint,
+  Competitor,
+  CompetitorInput,
+} from '@/types/comp-sets';
+import { apiRequest } from './client';
+
+export const compSetsApi = {
+  listCompetitors(propertyId: string): Promise<Competitor[]> {
+    return apiRequest(`/properties/${propertyId}/competitors`);
+  },
+
+  createCompetitor(propertyId: string, competitor: CompetitorInput): Promise<Competitor> {
+    return apiRequest(`/properties/${propertyId}/competitors`, {
+      method: 'POST',
+      body: JSON.stringify(competitor),
+    });
+  },
+
+  /**
+   * Update a competitor; the code cannot change
+   */
+  updateCompetitor(
+    propertyId: string,
+    competitorId: string,
+    changes: Partial<Omit<CompetitorInput, 'code'>>,
+  ): Promise<Competitor> {
+    return apiRequest(`/properties/${propertyId}/competitors/${competitorId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  },
+
+  list(propertyId: string): Promise<CompSet[]> {
+    return apiRequest(`/properties/${propertyId}/comp-sets`);
+  },
+
+  create(propertyId: string, compSet: CompSetInput): Promise<CompSet> {
+    return apiRequest(`/properties/${propertyId}/comp-sets`, {
+      method: 'POST',
+      body: JSON.stringify(compSet),
+    });
+  },
+
+  /**
+   * Update a comp set; members, when given, replace the current ones
+   */
+  update(propertyId: string, compSetId: string, changes: Partial<CompSetInput>): Promise<CompSet> {
+    return apiRequest(`/properties/${propertyId}/comp-sets/${compSetId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  },
+
+  remove(propertyId: string, compSetId: string): Promise<void> {
+    return apiRequest(`/properties/${propertyId}/comp-sets/${compSetId}`, { method: 'DELETE' });
+  },
+
+  /**
+   * Weighted market average per stay date and room type
+   */
+  getMarket(
+    propertyId: string,
+    compSetId: string,
+    startDate: string,
+    endDate: string,
+    roomTypeCode?: string,
+  ): Promise<CompSetMarketPoint[]> {
+    const params = new URLSearchParams({ startDate, endDate });
+    if (roomTypeCode) params.set('roomTypeCode', roomTypeCode);
+    return apiRequest(`/properties/${propertyId}/comp-sets/${compSetId}/market?${params}`);
+  },
+};
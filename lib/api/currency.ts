@@ -0,0 +1,53 @@
+/**
+ * Currency API Client
+ * Reads property currencies and daily exchange rates, uploads rate files and
+ * rolls portfolio revenue up to the reporting currency
+ */
+
+import type {
+  FxRateImportResult,
+  FxRateTable,
+  PortfolioRevenue,
+  PropertyCurrency,
+} from '@/types/currency';
+import { apiRequest } from './client';
+
+export const currencyApi = {
+  getPropertyCurrency(propertyId: string): Promise<PropertyCurrency> {
+    return apiRequest(`/properties/${propertyId}/currency`);
+  },
+
+  /**
+   * Exchange rates in effect on a date (today by default) against a base currency
+   */
+  getRates(base: string, date?: string): Promise<FxRateTable> {
+    const params = new URLSearchParams({ base });
+    if (date) {
+      params.set('date', date);
+    }
+    return apiRequest(`/fx-rates?${params.toString()}`);
+  },
+
+  importRates(file: File): Promise<FxRateImportResult> {
+    const body = new FormData();
+    body.append('file', file);
+    return apiRequest('/fx-rates/import', { method: 'POST', body });
+  },
+
+  /**
+   * Revenue of an organization's properties, converted to its reporting currency
+   * unless another currency is given
+   */
+  getPortfolioRevenue(
+    organizationId: string,
+    startDate: string,
+    endDate: string,
+    currency?: string,
+  ): Promise<PortfolioRevenue> {
+    const params = new URLSearchParams({ startDate, endDate });
+    if (currency) {
+      params.set('currency', currency);
+    }
+    return apiRequest(`/organizations/${organizationId}/portfolio/revenue?${params.toString()}`);
+  },
+};
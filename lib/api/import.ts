@@ -0,0 +1,54 @@
+/**
+ * Import API Client
+ * Uploads rate files, previews the mapped rows and commits the accepted ones
+ */
+
+import type {
+  ImportColumnMapping,
+  ImportCommitResult,
+  ImportPreview,
+  ImportRow,
+  ParsedImportFile,
+} from '@/types/import';
+import type { PublishSubmission } from '@/types/publish';
+import { apiRequest } from './client';
+
+export const importApi = {
+  /**
+   * Upload a CSV or XLSX file and get its columns, rows and a suggested mapping
+   */
+  uploadFile(propertyId: string, file: File): Promise<ParsedImportFile> {
+    const body = new FormData();
+    body.append('file', file);
+    return apiRequest(`/properties/${propertyId}/rates-inventory/import/upload`, {
+      method: 'POST',
+      body,
+    });
+  },
+
+  /**
+   * Validate mapped rows and diff them against the current rates and inventory
+   */
+  previewImport(propertyId: string, mapping: ImportColumnMapping[], rows: ImportRow[]): Promise<ImportPreview> {
+    return apiRequest(`/properties/${propertyId}/rates-inventory/import/preview`, {
+      method: 'POST',
+      body: JSON.stringify({ mapping, rows }),
+    });
+  },
+
+  /**
+   * Import the accepted rows; staged for approval when the role requires it
+   */
+  commitImport(
+    propertyId: string,
+    mapping: ImportColumnMapping[],
+    rows: ImportRow[],
+    acceptedRows: number[],
+    fileName?: string
+  ): Promise<ImportCommitResult | PublishSubmission> {
+    return apiRequest(`/properties/${propertyId}/rates-inventory/import/commit`, {
+      method: 'POST',
+      body: JSON.stringify({ mapping, rows, acceptedRows, fileName }),
+    });
+  },
+};
@@ -0,0 +1,27 @@
+/**
+ * Properties API Client
+ * Reads the user's portfolio and remembers the last used property
+ */
+
+import type { PropertyPortfolio, PropertySummary } from '@/types/properties';
+import { apiRequest } from './client';
+
+export const propertiesApi = {
+  /**
+   * Properties the user can access, grouped by organization
+   */
+  getPortfolio(): Promise<PropertyPortfolio> {
+    return apiRequest('/properties');
+  },
+
+  getProperty(propertyId: string): Promise<PropertySummary> {
+    return apiRequest(`/properties/${propertyId}`);
+  },
+
+  setLastUsed(propertyId: string): Promise<{ lastPropertyId: string }> {
+    return apiRequest('/properties/last-used', {
+      method: 'PUT',
+      body: JSON.stringify({ propertyId }),
+    });
+  },
+};
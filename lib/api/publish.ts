@@ -0,0 +1,32 @@
+/**
+ * Publish API Client
+ * Sends grid changes to the rates & inventory backend and polls channel sync state
+ */
+
+import type {
+  PublishChange,
+  PublishResult,
+  PublishSubmission,
+  RecordSyncStatus,
+} from '@/types/publish';
+import { apiRequest } from './client';
+
+export const publishApi = {
+  /**
+   * Publish edited cells and queue a sync per affected channel
+   */
+  publishChanges(propertyId: string, changes: PublishChange[]): Promise<PublishResult | PublishSubmission> {
+    return apiRequest(`/properties/${propertyId}/rates-inventory/publish`, {
+      method: 'POST',
+      body: JSON.stringify({ changes }),
+    });
+  },
+
+  /**
+   * Channel sync state of published rate inventory records
+   */
+  getSyncStatus(propertyId: string, ids: string[]): Promise<RecordSyncStatus[]> {
+    const params = new URLSearchParams({ ids: ids.join(',') });
+    return apiRequest(`/properties/${propertyId}/rates-inventory/sync-status?${params}`);
+  },
+};
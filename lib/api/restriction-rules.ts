@@ -0,0 +1,53 @@
+/**
+ * Restriction Rules API Client
+ * Manages persisted bulk restrictions and activates or reverts them
+ */
+
+import type {
+  RestrictionRule,
+  RestrictionRuleInput,
+  RestrictionRuleStatus,
+} from '@/types/restriction-rules';
+import { apiRequest } from './client';
+
+export const restrictionRulesApi = {
+  /**
+   * Rules of a property, highest priority first
+   */
+  list(propertyId: string, status?: RestrictionRuleStatus): Promise<RestrictionRule[]> {
+    const query = status ? `?status=${status}` : '';
+    return apiRequest(`/properties/${propertyId}/restriction-rules${query}`);
+  },
+
+  /**
+   * Create a rule; a rule created active is applied at once
+   */
+  create(propertyId: string, rule: RestrictionRuleInput): Promise<RestrictionRule> {
+    return apiRequest(`/properties/${propertyId}/restriction-rules`, {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    });
+  },
+
+  update(propertyId: string, ruleId: string, changes: Partial<Omit<RestrictionRuleInput, 'status'>>): Promise<RestrictionRule> {
+    return apiRequest(`/properties/${propertyId}/restriction-rules/${ruleId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  },
+
+  activate(propertyId: string, ruleId: string): Promise<RestrictionRule> {
+    return apiRequest(`/properties/${propertyId}/restriction-rules/${ruleId}/activate`, { method: 'POST' });
+  },
+
+  /**
+   * Deactivate a rule, reverting the rate inventory it set
+   */
+  deactivate(propertyId: string, ruleId: string): Promise<RestrictionRule> {
+    return apiRequest(`/properties/${propertyId}/restriction-rules/${ruleId}/deactivate`, { method: 'POST' });
+  },
+
+  remove(propertyId: string, ruleId: string): Promise<void> {
+    return apiRequest(`/properties/${propertyId}/restriction-rules/${ruleId}`, { method: 'DELETE' });
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Automation Rule Descriptions
+ * Plain-language text for rule conditions and actions, shared by the rule list and builder
+ */
+
+import {
+  RULE_METRIC_LABELS,
+  type RuleAction,
+  type RuleCondition,
+  type RuleMetrics,
+} from '@/types/automation-rules';
+
+/**
+ * e.g. "Occupancy % > 75", "Pickup (rooms) over 7 days < 3", "No special event"
+ */
+export function describeCondition(condition: RuleCondition): string {
+  if (condition.metric === 'EVENT') {
+    return condition.present ? 'Special event on the date' : 'No special event';
+  }
+
+  const label = condition.metric === 'PICKUP'
+    ? `${RULE_METRIC_LABELS.PICKUP} over ${condition.pickupDays ?? 7} day${condition.pickupDays === 1 ? '' : 's'}`
+    : RULE_METRIC_LABELS[condition.metric];
+  return `${label} ${condition.operator} ${condition.value}`;
+}
+
+/**
+ * e.g. "82% occupancy • 5 days out • 12% above competitors • Grand Prix"
+ */
+export function describeMetrics(metrics: RuleMetrics): string {
+  const parts = [
+    metrics.occupancy !== null ? `${metrics.occupancy}% occupancy` : null,
+    `${metrics.daysOut} day${metrics.daysOut === 1 ? '' : 's'} out`,
+    metrics.competitorPosition !== null
+      ? `${Math.abs(metrics.competitorPosition)}% ${metrics.competitorPosition >= 0 ? 'above' : 'below'} competitors`
+      : null,
+    metrics.pickup7Day !== null ? `${metrics.pickup7Day} picked up in 7 days` : null,
+    metrics.event,
+  ];
+  return parts.filter(Boolean).join(' • ');
+}
+
+/**
+ * e.g. "Raise rate by 10%", "Close channel booking-com", "Set minimum stay to 2 nights"
+ */
+export function describeAction(action: RuleAction, channelName?: string): string {
+  switch (action.type) {
+    case 'ADJUST_RATE': {
+      const amount = Math.abs(action.value ?? 0);
+      const verb = (action.value ?? 0) >= 0 ? 'Raise' : 'Lower';
+      return `${verb} rate by ${action.unit === 'AMOUNT' ? amount.toFixed(2) : `${amount}%`}`;
+    }
+    case 'CLOSE_CHANNEL':
+      return `Close channel ${channelName ?? action.channelId}`;
+    case 'SET_MIN_LOS':
+      return `Set minimum stay to ${action.value} night${action.value === 1 ? '' : 's'}`;
+  }
+}
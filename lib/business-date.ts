@@ -0,0 +1,66 @@
+/**
+ * Business Date Helpers
+ * Date-only arithmetic on YYYY-MM-DD strings, so date columns follow the
+ * property's calendar rather than the browser's local time
+ */
+
+import type { DateOnly } from '../types/business-date';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calendar day of an instant in a timezone; the browser's own timezone when
+ * none is given or it is unknown
+ */
+export function localDateString(timezone?: string, at: Date = new Date()): DateOnly {
+  try {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(at);
+  } catch {
+    return localDateString(undefined, at);
+  }
+}
+
+export function addDays(date: DateOnly, days: number): DateOnly {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Whole days from one date to another; negative when `to` is earlier
+ */
+export function daysBetween(from: DateOnly, to: DateOnly): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Local-midnight Date of a date-only value, for display and weekday checks
+ */
+export function toLocalDate(date: DateOnly): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Date-only value of a date picked in the browser's local calendar
+ */
+export function fromLocalDate(date: Date): DateOnly {
+  return localDateString(undefined, date);
+}
+
+/**
+ * Day of week of a date-only value, 0 for Sunday
+ */
+export function dayOfWeek(date: DateOnly): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Dates before the property's business date are locked for editing
+ */
+export function isPastDate(date: DateOnly, businessDate: DateOnly): boolean {
+  return date < businessDate;
+}
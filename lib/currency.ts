@@ -0,0 +1,58 @@
+/**
+ * Currency Helpers
+ * Number formats per currency and conversion through a daily exchange rate table
+ */
+
+import type { FxRateTable } from '@/types/currency';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Locale of each currency's home market, for digit grouping; others use en-US
+const CURRENCY_LOCALES: Record<string, string> = {
+  INR: 'en-IN',
+  SAR: 'en-SA',
+  AED: 'en-AE',
+  QAR: 'en-QA',
+  EUR: 'en-IE',
+  GBP: 'en-GB',
+  CHF: 'de-CH',
+  IDR: 'id-ID',
+  MVR: 'en-MV',
+  SGD: 'en-SG',
+  AUD: 'en-AU',
+  JPY: 'ja-JP',
+  THB: 'th-TH',
+};
+
+export function currencyLocale(currency: string): string {
+  return CURRENCY_LOCALES[currency] ?? 'en-US';
+}
+
+/**
+ * Symbol of a currency as the formatter prints it, e.g. "₹" or "CHF"
+ */
+export function currencySymbol(currency: string): string {
+  return new Intl.NumberFormat(currencyLocale(currency), { style: 'currency', currency })
+    .formatToParts(0)
+    .find(part => part.type === 'currency')?.value ?? currency;
+}
+
+/**
+ * Convert an amount between two currencies of a rate table; null when either
+ * currency has no rate
+ */
+export function convertAmount(amount: number, from: string, to: string, table: FxRateTable | null): number | null {
+  if (from === to) {
+    return amount;
+  }
+  if (!table) {
+    return null;
+  }
+
+  const rateOf = (currency: string) =>
+    currency === table.base ? 1 : table.rates.find(quote => quote.currency === currency)?.rate;
+  const fromRate = rateOf(from);
+  const toRate = rateOf(to);
+
+  return fromRate && toRate ? amount * (toRate / fromRate) : null;
+}
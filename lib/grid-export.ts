@@ -0,0 +1,239 @@
+/**
+ * Rates Grid Export
+ * Flattens the rates grid into one row per room type × rate plan × date and
+ * writes it to Excel, CSV or PDF
+ */
+
+export type GridExportFormat = 'excel' | 'csv' | 'pdf';
+
+export interface GridExportOptions {
+  format: GridExportFormat;
+  includeRestrictions: boolean;
+  includeAIInsights: boolean;
+  includeEvents: boolean;
+}
+
+// Structural views of the grid data, so the exporter does not depend on page-local types
+export interface ExportableDate {
+  dateStr: string; // YYYY-MM-DD
+  dayName: string;
+  events: Array<{ title: string }>;
+}
+
+export interface ExportableRoomType {
+  name: string;
+  inventoryData: Array<{ inventory: number; restrictions?: string[] }>;
+  products: Array<{
+    name: string;
+    type: string;
+    data: Array<{
+      rate: number;
+      restrictions: string[];
+      aiInsights: Array<{ title: string; confidence: number }>;
+    }>;
+  }>;
+}
+
+export interface GridExportRow {
+  roomType: string;
+  ratePlan: string;
+  ratePlanCode: string;
+  date: string;
+  day: string;
+  rate: number;
+  inventory: number;
+  restrictions?: string;
+  aiInsights?: string;
+  events?: string;
+}
+
+interface ExportColumn {
+  key: keyof GridExportRow;
+  header: string;
+  width: number; // Excel column width in characters
+}
+
+const BASE_COLUMNS: ExportColumn[] = [
+  { key: 'roomType', header: 'Room Type', width: 20 },
+  { key: 'ratePlan', header: 'Rate Plan', width: 26 },
+  { key: 'ratePlanCode', header: 'Code', width: 10 },
+  { key: 'date', header: 'Date', width: 12 },
+  { key: 'day', header: 'Day', width: 6 },
+  { key: 'rate', header: 'Rate', width: 10 },
+  { key: 'inventory', header: 'Inventory', width: 10 },
+];
+
+const MIME_TYPES: Record<GridExportFormat, string> = {
+  excel: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv;charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+const FILE_EXTENSIONS: Record<GridExportFormat, string> = {
+  excel: 'xlsx',
+  csv: 'csv',
+  pdf: 'pdf',
+};
+
+/**
+ * Build export rows for the given date indexes of the grid
+ *
+ * `getRestrictions` supplies restrictions that live outside the cell data,
+ * such as bulk restrictions, for a room type, rate plan code and date.
+ */
+export function buildGridExportRows(
+  roomTypes: ExportableRoomType[],
+  dates: ExportableDate[],
+  dateIndexes: number[],
+  options: GridExportOptions,
+  getRestrictions: (roomTypeName: string, ratePlanCode: string, dateStr: string) => string[] = () => []
+): GridExportRow[] {
+  const rows: GridExportRow[] = [];
+
+  roomTypes.forEach(roomType => {
+    roomType.products.forEach(product => {
+      dateIndexes.forEach(dateIndex => {
+        const date = dates[dateIndex];
+        const cell = product.data[dateIndex];
+        if (!date || !cell) return;
+
+        const inventory = roomType.inventoryData[dateIndex];
+        const row: GridExportRow = {
+          roomType: roomType.name,
+          ratePlan: product.name,
+          ratePlanCode: product.type,
+          date: date.dateStr,
+          day: date.dayName,
+          rate: cell.rate,
+          inventory: inventory?.inventory ?? 0,
+        };
+
+        if (options.includeRestrictions) {
+          row.restrictions = unique([
+            ...(inventory?.restrictions ?? []),
+            ...cell.restrictions,
+            ...getRestrictions(roomType.name, product.type, date.dateStr),
+          ]).join('; ');
+        }
+        if (options.includeAIInsights) {
+          row.aiInsights = cell.aiInsights.map(insight => `${insight.title} (${insight.confidence}%)`).join('; ');
+        }
+        if (options.includeEvents) {
+          row.events = unique(date.events.map(event => event.title)).join('; ');
+        }
+
+        rows.push(row);
+      });
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * Write rows in the requested format and download the file
+ */
+export async function exportGrid(rows: GridExportRow[], options: GridExportOptions, fileName: string): Promise<void> {
+  const columns = getColumns(options);
+
+  let content: BlobPart;
+  switch (options.format) {
+    case 'excel':
+      content = await toXlsx(rows, columns);
+      break;
+    case 'csv':
+      content = toCsv(rows, columns);
+      break;
+    case 'pdf':
+      content = await toPdf(rows, columns, fileName);
+      break;
+  }
+
+  downloadFile(
+    new Blob([content], { type: MIME_TYPES[options.format] }),
+    `${fileName}.${FILE_EXTENSIONS[options.format]}`
+  );
+}
+
+// Private helpers
+
+function getColumns(options: GridExportOptions): ExportColumn[] {
+  return [
+    ...BASE_COLUMNS,
+    ...(options.includeRestrictions ? [{ key: 'restrictions' as const, header: 'Restrictions', width: 40 }] : []),
+    ...(options.includeAIInsights ? [{ key: 'aiInsights' as const, header: 'AI Insights', width: 40 }] : []),
+    ...(options.includeEvents ? [{ key: 'events' as const, header: 'Events', width: 30 }] : []),
+  ];
+}
+
+function toCsv(rows: GridExportRow[], columns: ExportColumn[]): string {
+  const escape = (value: unknown) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [
+    columns.map(column => escape(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escape(row[column.key])).join(',')),
+  ];
+
+  // BOM so Excel opens the file as UTF-8
+  return '\uFEFF' + lines.join('\r\n');
+}
+
+async function toXlsx(rows: GridExportRow[], columns: ExportColumn[]): Promise<ArrayBuffer> {
+  const { default: ExcelJS } = await import('exceljs');
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const sheet = workbook.addWorksheet('Rates & Inventory', {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  sheet.columns = columns.map(column => ({ header: column.header, key: column.key, width: column.width }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.getColumn('rate').numFmt = '#,##0.00';
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+  rows.forEach(row => sheet.addRow(row));
+
+  return workbook.xlsx.writeBuffer() as Promise<ArrayBuffer>;
+}
+
+async function toPdf(rows: GridExportRow[], columns: ExportColumn[], title: string): Promise<ArrayBuffer> {
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([
+    import('jspdf'),
+    import('jspdf-autotable'),
+  ]);
+
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+  doc.setFontSize(14);
+  doc.text(title, 40, 40);
+
+  autoTable(doc, {
+    startY: 56,
+    head: [columns.map(column => column.header)],
+    body: rows.map(row => columns.map(column => {
+      const value = row[column.key];
+      return column.key === 'rate' ? Number(value).toLocaleString() : String(value ?? '');
+    })),
+    styles: { fontSize: 7, cellPadding: 3, overflow: 'linebreak' },
+    headStyles: { fillColor: [37, 99, 235] },
+  });
+
+  return doc.output('arraybuffer');
+}
+
+function downloadFile(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function unique(values: string[]): string[] {
+  return values.filter((value, index) => value && values.indexOf(value) === index);
+}
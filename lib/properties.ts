@@ -0,0 +1,21 @@
+/**
+ * Property Helpers
+ * Display labels for properties in selectors and headers
+ */
+
+import type { PropertySummary } from '../types/properties';
+
+export function propertyLocation(property: PropertySummary): string {
+  return [property.city, property.country].filter(Boolean).join(', ') || property.timezone;
+}
+
+/**
+ * Up to two initials of the property name, for its badge
+ */
+export function propertyInitials(property: PropertySummary): string {
+  const initials = property.name
+    .split(/\s+/)
+    .filter(word => /^[A-Za-z0-9]/.test(word))
+    .map(word => word[0].toUpperCase());
+  return initials.slice(0, 2).join('') || property.code.slice(0, 2).toUpperCase();
+}
@@ -0,0 +1,65 @@
+/**
+ * Restriction Rule Helpers
+ * Date patterns and plain-language outcomes of persisted bulk restrictions
+ */
+
+import {
+  RESTRICTION_TYPE_IDS,
+  type DaySelection,
+  type RestrictionRule,
+  type RestrictionRuleType,
+  type RuleApplicationSummary,
+  type RuleRevertSummary,
+} from '@/types/restriction-rules';
+
+const DAY_KEYS: Array<keyof DaySelection> = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+/**
+ * Days of week of a day selection, 0 = Sunday; empty when every day is selected
+ */
+export function toDaysOfWeek(selection: DaySelection): number[] {
+  const days = DAY_KEYS.flatMap((key, day) => selection[key] ? [day] : []);
+  return days.length === DAY_KEYS.length ? [] : days;
+}
+
+/**
+ * Rule restriction of a bulk restriction type id, e.g. 'minlos' → MIN_LOS
+ */
+export function toRestrictionRuleType(restrictionTypeId: string): RestrictionRuleType | undefined {
+  return (Object.keys(RESTRICTION_TYPE_IDS) as RestrictionRuleType[])
+    .find(type => RESTRICTION_TYPE_IDS[type] === restrictionTypeId);
+}
+
+/**
+ * Whether an active rule covers a stay date (YYYY-MM-DD)
+ */
+export function ruleCoversDate(rule: RestrictionRule, date: string): boolean {
+  if (rule.status !== 'ACTIVE' || date < rule.startDate || date > rule.endDate) {
+    return false;
+  }
+  return !rule.daysOfWeek.length || rule.daysOfWeek.includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+}
+
+/**
+ * e.g. "Applied to 42 of 48 records • 4 set by higher-priority rules • 2 conflicts"
+ */
+export function describeApplication(summary: RuleApplicationSummary | RuleRevertSummary): string {
+  if ('reverted' in summary) {
+    const parts = [`Reverted ${summary.reverted} record${summary.reverted === 1 ? '' : 's'}`];
+    if (summary.edited) parts.push(`${summary.edited} edited since and left as they are`);
+    return parts.join(' • ');
+  }
+
+  const parts = [`Applied to ${summary.applied} of ${summary.matched} records`];
+  if (summary.shadowed) parts.push(`${summary.shadowed} set by higher-priority rules`);
+  if (summary.conflicts.length) parts.push(`${summary.conflicts.length} conflicts`);
+  return parts.join(' • ');
+}
@@ -6,6 +6,9 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import { format as dateFnsFormat, parseISO } from 'date-fns';
+import { currencyLocale, DEFAULT_CURRENCY } from './currency';
+import { addDays } from './business-date';
+import type { DateOnly } from '../types/business-date';
 
 /**
  * Combines class names with Tailwind CSS classes
@@ -15,10 +18,11 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 /**
- * Formats currency values with proper locale and currency symbol
+ * Formats currency values with the currency's locale and symbol; components
+ * should pass the property currency from useCurrency
  */
-export function formatCurrency(value: number, currency: string = 'SAR'): string {
-  return new Intl.NumberFormat('en-SA', {
+export function formatCurrency(value: number, currency: string = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat(currencyLocale(currency), {
     style: 'currency',
     currency,
     minimumFractionDigits: 0,
@@ -45,15 +49,13 @@ export function formatDate(date: Date | string, formatType: 'short' | 'medium' |
 }
 
 /**
- * Generates an array of dates between start and end dates
+ * Generates the date-only values from start to end date, inclusive
  */
-export function generateDateRange(startDate: Date, endDate: Date): Date[] {
-  const dates: Date[] = [];
-  let currentDate = new Date(startDate);
+export function generateDateRange(startDate: DateOnly, endDate: DateOnly): DateOnly[] {
+  const dates: DateOnly[] = [];
 
-  while (currentDate <= endDate) {
-    dates.push(new Date(currentDate));
-    currentDate.setDate(currentDate.getDate() + 1);
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    dates.push(date);
   }
 
   return dates;
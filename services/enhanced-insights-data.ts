@@ -63,24 +63,6 @@ export interface ChannelAnalysis {
   recommendations: string[];
 }
 
-export interface AutomationRule {
-  id: string;
-  name: string;
-  type: 'pricing' | 'inventory' | 'channel';
-  status: 'active' | 'paused' | 'testing';
-  trigger: string;
-  action: string;
-  roomTypes: string[];
-  ratePlans: string[];
-  conditions: string[];
-  performance: {
-    timesTriggered: number;
-    successRate: number;
-    revenueImpact: number;
-    lastTriggered: Date;
-  };
-}
-
 export interface AnalyticsData {
   revenueAnalysis: {
     actualRevenue: number;
@@ -1067,109 +1049,3 @@ export const generateAnalyticsData = (): AnalyticsData => ({
     }
   ]
 });
-
-// Generate automation rules data
-export const generateAutomationData = (): AutomationRule[] => [
-  {
-    id: 'auto-1',
-    name: 'Weekend Premium Pricing',
-    type: 'pricing',
-    status: 'active',
-    trigger: 'Friday-Sunday arrivals AND occupancy forecast > 75%',
-    action: 'Increase BAR rates by 15-25% based on demand intensity',
-    roomTypes: ['Deluxe Ocean View', 'Premium Ocean View', 'Suite Ocean Front'],
-    ratePlans: ['BAR', 'ADV7', 'ADV14'],
-    conditions: ['Competitor rates support premium', 'No major events causing oversupply', 'Weather forecast favorable'],
-    performance: {
-      timesTriggered: 28,
-      successRate: 89.3,
-      revenueImpact: 485000,
-      lastTriggered: new Date('2024-02-15T16:30:00')
-    }
-  },
-  {
-    id: 'auto-2',
-    name: 'Last Minute Inventory Push',
-    type: 'inventory',
-    status: 'active',
-    trigger: 'T-2 days AND occupancy forecast < 60%',
-    action: 'Open all rate restrictions, increase OTA allocations by 40%',
-    roomTypes: ['Standard City View', 'Standard Garden View'],
-    ratePlans: ['BAR', 'SALE', 'FLASH'],
-    conditions: ['No group blocks pending', 'Minimum ADR threshold maintained', 'Weather not severely adverse'],
-    performance: {
-      timesTriggered: 12,
-      successRate: 75.0,
-      revenueImpact: 125000,
-      lastTriggered: new Date('2024-02-12T10:15:00')
-    }
-  },
-  {
-    id: 'auto-3',
-    name: 'Corporate Rate Protection',
-    type: 'inventory',
-    status: 'active',
-    trigger: 'Leisure demand > 140% pace AND weekend period',
-    action: 'Reduce corporate inventory by 50%, increase minimum stay to 2 nights',
-    roomTypes: ['Standard City View', 'Standard Garden View', 'Deluxe Ocean View'],
-    ratePlans: ['CORP', 'GOV', 'NEGOT'],
-    conditions: ['Corporate denial rate < 15%', 'Key account bookings protected', 'Advance booking window > 14 days'],
-    performance: {
-      timesTriggered: 15,
-      successRate: 93.3,
-      revenueImpact: 285000,
-      lastTriggered: new Date('2024-02-14T14:20:00')
-    }
-  },
-  {
-    id: 'auto-4',
-    name: 'Competitive Rate Response',
-    type: 'pricing',
-    status: 'active',
-    trigger: 'Key competitor rate decrease > 10% AND booking pace decline > 20%',
-    action: 'Match competitor rates within 5% for affected periods',
-    roomTypes: ['All room types'],
-    ratePlans: ['BAR', 'ADV7', 'ADV14'],
-    conditions: ['Rate matching maintains minimum margins', 'Not during peak demand periods', 'Competitor action sustained > 24 hours'],
-    performance: {
-      timesTriggered: 8,
-      successRate: 87.5,
-      revenueImpact: 95000,
-      lastTriggered: new Date('2024-02-10T09:45:00')
-    }
-  },
-  {
-    id: 'auto-5',
-    name: 'Channel Optimization',
-    type: 'channel',
-    status: 'testing',
-    trigger: 'Direct booking conversion > 15% AND OTA commission > 18%',
-    action: 'Reduce OTA allocations by 20%, increase direct booking incentives',
-    roomTypes: ['All room types'],
-    ratePlans: ['BAR', 'PKG', 'PROMO'],
-    conditions: ['Direct booking infrastructure stable', 'Marketing budget available', 'Customer satisfaction scores > 8.5'],
-    performance: {
-      timesTriggered: 5,
-      successRate: 60.0,
-      revenueImpact: 35000,
-      lastTriggered: new Date('2024-02-08T11:30:00')
-    }
-  },
-  {
-    id: 'auto-6',
-    name: 'Demand Surge Response',
-    type: 'pricing',
-    status: 'active',
-    trigger: 'Booking pace > 150% historical average AND forecast accuracy > 85%',
-    action: 'Progressive rate increases: +10% at 150% pace, +20% at 200% pace',
-    roomTypes: ['Deluxe Ocean View', 'Premium Ocean View'],
-    ratePlans: ['BAR', 'ADV7'],
-    conditions: ['Rate increases do not exceed premium positioning', 'Guest satisfaction maintained', 'Competitor rates support increase'],
-    performance: {
-      timesTriggered: 22,
-      successRate: 91.0,
-      revenueImpact: 420000,
-      lastTriggered: new Date('2024-02-16T13:15:00')
-    }
-  }
-]; 
\ No newline at end of file
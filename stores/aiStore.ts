@@ -1,7 +1,9 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { generateId } from '@/lib/utils';
+import { aiSuggestionsApi } from '@/lib/api/ai-suggestions';
 import type { AIRecommendation } from '@/types';
+import type { SuggestionFeedback, SuggestionReasonCode } from '@/types/ai-suggestions';
 
 interface AIState {
   recommendations: AIRecommendation[];
@@ -11,8 +13,8 @@ interface AIState {
   // Actions
   generateRecommendations: (cellIds: string[]) => Promise<void>;
   acceptRecommendation: (recommendationId: string, value?: number) => void;
-  dismissRecommendation: (recommendationId: string, reason: string) => void;
-  provideFeedback: (recommendationId: string, feedback: string) => void;
+  dismissRecommendation: (recommendationId: string, reasonCode: SuggestionReasonCode, comment?: string) => Promise<void>;
+  provideFeedback: (recommendationId: string, feedback: SuggestionFeedback) => Promise<void>;
 }
 
 export const useAIStore = create<AIState>()(
@@ -61,22 +63,30 @@ export const useAIStore = create<AIState>()(
         }));
       },
 
-      dismissRecommendation: (recommendationId, reason) => {
-        set((state) => ({
+      dismissRecommendation: async (recommendationId, reasonCode, comment) => {
+        const previous = get().recommendations.find(rec => rec.id === recommendationId)?.status;
+        const setStatus = (status: AIRecommendation['status']) => set((state) => ({
           recommendations: state.recommendations.map(rec =>
-            rec.id === recommendationId
-              ? {
-                  ...rec,
-                  status: 'dismissed',
-                }
-              : rec
+            rec.id === recommendationId ? { ...rec, status } : rec
           ),
         }));
+
+        setStatus('dismissed');
+        try {
+          await aiSuggestionsApi.reject(recommendationId, reasonCode, comment);
+        } catch (error) {
+          // Restore the suggestion so the rejection can be retried
+          setStatus(previous ?? 'pending');
+          set({ error: error instanceof Error ? error.message : 'Failed to reject recommendation' });
+        }
       },
 
-      provideFeedback: (recommendationId, feedback) => {
-        // In a real implementation, this would send feedback to the AI system
-        console.log(`Feedback for recommendation ${recommendationId}:`, feedback);
+      provideFeedback: async (recommendationId, feedback) => {
+        try {
+          await aiSuggestionsApi.sendFeedback(recommendationId, feedback);
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to send feedback' });
+        }
       },
     }),
     {
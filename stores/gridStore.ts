@@ -8,6 +8,10 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { GridData, GridCell, RoomType } from '@/types';
+import type { DateOnly } from '@/types/business-date';
+import { businessDatesApi } from '@/lib/api/business-dates';
+import { isPastDate, localDateString } from '@/lib/business-date';
+import { generateDateRange } from '@/lib/utils';
 
 // Utility function to generate unique IDs
 function generateId(): string {
@@ -23,7 +27,7 @@ interface GridState {
   error: string | null;
   
   // Actions
-  loadGridData: (params: { propertyId: string; startDate: Date; endDate: Date }) => Promise<void>;
+  loadGridData: (params: { propertyId: string; startDate: DateOnly; endDate: DateOnly }) => Promise<void>;
   selectCell: (cellId: string) => void;
   editCell: (cellId: string, value: string) => void;
   bulkUpdateCells: (cellIds: string[], changes: Record<string, any>) => void;
@@ -44,16 +48,18 @@ export const useGridStore = create<GridState>()(
       loadGridData: async ({ propertyId, startDate, endDate }) => {
         set({ isLoading: true, error: null });
         try {
+          // Dates before the property's business date are locked
+          const businessDate = await businessDatesApi.getBusinessDate(propertyId)
+            .then(result => result.businessDate)
+            .catch(() => localDateString());
+
           // In a real implementation, this would be an API call
           const mockGridData: GridData = {
-            dates: Array.from({ length: 15 }, (_, i) => {
-              const date = new Date(startDate);
-              date.setDate(date.getDate() + i);
-              return date;
-            }),
+            dates: generateDateRange(startDate, endDate),
+            businessDate,
             dateRange: {
-              start: startDate.toISOString(),
-              end: endDate.toISOString(),
+              start: startDate,
+              end: endDate,
             },
             roomTypes: [
               { id: '1', name: 'Standard Room', code: 'STD', capacity: 2, baseRate: 450, inventory: 10, amenities: [], isActive: true },
@@ -81,7 +87,7 @@ export const useGridStore = create<GridState>()(
               cellType: 'rate' as const,
               value: roomType.baseRate ?? 0, // Provide default value of 0 if baseRate is undefined
               originalValue: roomType.baseRate ?? 0, // Provide default value of 0 if originalValue is undefined
-              isEditable: true,
+              isEditable: !isPastDate(date, businessDate),
               isSelected: false,
               isEditing: false,
               hasChanges: false,
@@ -0,0 +1,67 @@
+/**
+ * AI Suggestion Feedback Types
+ * Rejection reasons, feedback and acceptance stats of AI suggestions
+ */
+
+export type SuggestionReasonCode =
+  | 'TOO_AGGRESSIVE'
+  | 'TOO_CONSERVATIVE'
+  | 'EVENT_NOT_RELEVANT'
+  | 'COMPETITOR_SET_WRONG'
+  | 'DEMAND_MISJUDGED'
+  | 'CONFLICTS_WITH_STRATEGY'
+  | 'DATA_ISSUE'
+  | 'OTHER';
+
+export const SUGGESTION_REASON_LABELS: Record<SuggestionReasonCode, string> = {
+  TOO_AGGRESSIVE: 'Too aggressive',
+  TOO_CONSERVATIVE: 'Too conservative',
+  EVENT_NOT_RELEVANT: 'Event not relevant',
+  COMPETITOR_SET_WRONG: 'Competitor set wrong',
+  DEMAND_MISJUDGED: 'Demand misjudged',
+  CONFLICTS_WITH_STRATEGY: 'Conflicts with our strategy',
+  DATA_ISSUE: 'Data issue',
+  OTHER: 'Other',
+};
+
+export interface SuggestionFeedback {
+  rating: 'HELPFUL' | 'NOT_HELPFUL';
+  reasonCode?: SuggestionReasonCode;
+  comment?: string;
+}
+
+export type SuggestionExpiryReason = 'STAY_DATE_PASSED' | 'TTL_ELAPSED' | 'RATE_CHANGED' | 'MARKET_MOVED';
+
+export interface SuggestionState {
+  id: string;
+  isApplied: boolean;
+  appliedAt?: string;
+  undoAvailable: boolean;
+  undoExpiresAt?: string;
+  undoneAt?: string;
+  expiresAt?: string;
+  expiredAt?: string;
+  expiryReason?: SuggestionExpiryReason;
+}
+
+export interface SuggestionDecisionStats {
+  suggestionType: string;
+  userId?: string; // Absent on property totals per type
+  accepted: number;
+  rejected: number;
+  feedback: number;
+  acceptanceRate: number | null;
+  reasonCounts: Partial<Record<SuggestionReasonCode, number>>;
+}
+
+export interface SuggestionStatsSummary {
+  propertyId: string;
+  byUser: SuggestionDecisionStats[];
+  byType: SuggestionDecisionStats[];
+  suppressedPatterns: {
+    pattern: string;
+    consecutiveRejections: number;
+    lastRejectedAt: string;
+    suppressedUntil: string;
+  }[];
+}
@@ -0,0 +1,141 @@
+/**
+ * Automation Rule Types
+ * User-defined pricing and inventory rules, their condition DSL, actions and executions
+ */
+
+export type AutomationRuleStatus = 'ACTIVE' | 'PAUSED' | 'TESTING';
+
+export type AutomationRuleType = 'PRICING' | 'INVENTORY' | 'CHANNEL';
+
+export type RuleConditionMetric = 'OCCUPANCY' | 'DAYS_OUT' | 'COMPETITOR_POSITION' | 'PICKUP' | 'EVENT';
+
+export type RuleOperator = '>' | '<' | '=' | '>=' | '<=';
+
+export type RuleActionType = 'ADJUST_RATE' | 'CLOSE_CHANNEL' | 'SET_MIN_LOS';
+
+export type RuleExecutionStatus = 'APPLIED' | 'SHADOW' | 'FAILED';
+
+export const RULE_STATUS_LABELS: Record<AutomationRuleStatus, string> = {
+  ACTIVE: 'Active',
+  PAUSED: 'Paused',
+  TESTING: 'Testing (shadow)',
+};
+
+export const RULE_METRIC_LABELS: Record<RuleConditionMetric, string> = {
+  OCCUPANCY: 'Occupancy %',
+  DAYS_OUT: 'Days out',
+  COMPETITOR_POSITION: 'Rate vs. competitors %',
+  PICKUP: 'Pickup (rooms)',
+  EVENT: 'Special event',
+};
+
+export const RULE_ACTION_LABELS: Record<RuleActionType, string> = {
+  ADJUST_RATE: 'Adjust rate',
+  CLOSE_CHANNEL: 'Close channel',
+  SET_MIN_LOS: 'Set minimum stay',
+};
+
+// Numeric metrics compare with operator and value; EVENT tests present
+export interface RuleCondition {
+  metric: RuleConditionMetric;
+  operator?: RuleOperator;
+  value?: number;
+  pickupDays?: 1 | 7;
+  present?: boolean;
+}
+
+export interface RuleAction {
+  type: RuleActionType;
+  value?: number; // Rate change, or minimum nights
+  unit?: 'AMOUNT' | 'PERCENT';
+  channelId?: string;
+}
+
+export interface AutomationRuleInput {
+  name: string;
+  description?: string;
+  status?: AutomationRuleStatus;
+  conditions: RuleCondition[];
+  action: RuleAction;
+  roomTypeIds?: string[]; // All room types when empty
+  ratePlanIds?: string[]; // All rate plans when empty
+  horizonDays?: number;
+  cooldownHours?: number;
+}
+
+export interface AutomationRulePerformance {
+  timesTriggered: number;
+  appliedCount: number;
+  failedCount: number;
+  shadowCount: number;
+  successRate: number | null; // percent of applied among applied and failed
+  revenueImpact: number;
+  lastTriggeredAt: string | null;
+  lastEvaluatedAt: string | null;
+}
+
+export interface AutomationRule {
+  id: string;
+  propertyId: string;
+  name: string;
+  description: string | null;
+  type: AutomationRuleType;
+  status: AutomationRuleStatus;
+  conditions: RuleCondition[];
+  action: RuleAction;
+  roomTypeIds: string[];
+  ratePlanIds: string[];
+  horizonDays: number;
+  cooldownHours: number;
+  performance: AutomationRulePerformance;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RuleMetrics {
+  occupancy: number | null;
+  daysOut: number;
+  competitorPosition: number | null;
+  pickup1Day: number | null;
+  pickup7Day: number | null;
+  event: string | null;
+}
+
+export interface RuleMatch {
+  stayDate: string; // YYYY-MM-DD
+  roomTypeId: string;
+  roomTypeCode: string;
+  metrics: RuleMetrics;
+}
+
+export interface RulePreview {
+  total: number;
+  matches: RuleMatch[]; // First 100
+}
+
+export interface RuleExecution {
+  id: string;
+  ruleId: string;
+  roomTypeId: string;
+  stayDate: string; // YYYY-MM-DD
+  status: RuleExecutionStatus;
+  metrics: RuleMetrics;
+  changes: Array<{
+    id: string;
+    ratePlanId: string;
+    channelId: string;
+    before: Record<string, number | boolean | null>;
+    after: Record<string, number | boolean | null>;
+  }>;
+  error: string | null;
+  revenueImpact: number | null; // Measured once the stay date has passed
+  impactMeasuredAt: string | null;
+  executedAt: string;
+}
+
+// Room types, rate plans and channels offered in the rule builder
+export interface RuleScopeOption {
+  id: string;
+  name: string;
+}
@@ -0,0 +1,19 @@
+/**
+ * Business Date Types
+ * Date-only values and the business date of a property in its own timezone
+ */
+
+/**
+ * Calendar day as YYYY-MM-DD; stay dates and business dates are never
+ * shifted by the browser's timezone
+ */
+export type DateOnly = string;
+
+export interface PropertyBusinessDate {
+  propertyId: string;
+  timezone: string; // IANA timezone of the property
+  businessDate: DateOnly; // "Today" at the property
+  localTime: string; // HH:mm at the property
+  lastRolledDate: DateOnly | null; // Business date of the last nightly roll
+  lastRolledAt: string | null;
+}
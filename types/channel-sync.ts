@@ -0,0 +1,70 @@
+/**
+ * Channel Sync Monitor Types
+ * Sync history, per-channel health and queue depth reported by the channel manager
+ */
+
+export type ChannelSyncStatus =
+  | 'PENDING'
+  | 'IN_PROGRESS'
+  | 'SUCCESS'
+  | 'PARTIAL_SUCCESS'
+  | 'FAILED'
+  | 'CANCELLED';
+
+export interface SyncLogEntry {
+  id: string;
+  channelId: string;
+  channel: string;
+  status: ChannelSyncStatus;
+  operation: 'CREATE' | 'UPDATE' | 'DELETE';
+  totalRecords: number;
+  successCount: number;
+  failedCount: number;
+  retriedCount: number;
+  startedAt: string;
+  completedAt: string | null;
+  duration: number | null; // milliseconds
+  errorMessage: string | null;
+}
+
+export interface ChannelSyncSummary {
+  channelId: string;
+  channelName: string;
+  providerType: string | null;
+  syncEnabled: boolean;
+  lastSyncAt: string | null;
+  lastStatus: ChannelSyncStatus | null;
+  lastError: string | null;
+  syncCount: number;
+  failedSyncCount: number;
+  pendingSyncCount: number;
+  recordsSynced: number;
+  recordsFailed: number;
+  failedRecords: number;
+  averageDuration: number | null; // milliseconds
+}
+
+export interface FailedSyncRecord {
+  id: string;
+  channelId: string;
+  channelName: string;
+  roomTypeCode: string;
+  ratePlanCode: string;
+  date: string; // YYYY-MM-DD
+  error: string | null;
+  lastSyncAt: string | null;
+}
+
+// Bull job counts of one queue
+export interface QueueJobCounts {
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+}
+
+export interface QueueStats {
+  sync: QueueJobCounts;
+  retry: QueueJobCounts;
+}
@@ -0,0 +1,71 @@
+/**
+ * Comp Set Types
+ * Competitor properties, their room category mapping, and weighted competitive sets
+ */
+
+export type CompSetType = 'PRIMARY' | 'ASPIRATIONAL';
+
+export const COMP_SET_TYPE_LABELS: Record<CompSetType, string> = {
+  PRIMARY: 'Primary',
+  ASPIRATIONAL: 'Aspirational',
+};
+
+export interface Competitor {
+  id: string;
+  name: string;
+  code: string;
+  address: string | null;
+  starRating: number | null;
+  roomTypeMappings: Record<string, string>; // Competitor room category → our room type code
+  isActive: boolean;
+  compSetIds: string[];
+  updatedAt: string;
+}
+
+export interface CompetitorInput {
+  name: string;
+  code: string;
+  address?: string;
+  starRating?: number;
+  roomTypeMappings?: Record<string, string>;
+  isActive?: boolean;
+}
+
+export interface CompSetMember {
+  id: string;
+  competitorPropertyId: string;
+  weight: number;
+  competitorProperty?: { id: string; name: string; code: string };
+}
+
+export interface CompSet {
+  id: string;
+  name: string;
+  type: CompSetType;
+  description: string | null;
+  members: CompSetMember[];
+  updatedAt: string;
+}
+
+export interface CompSetInput {
+  name: string;
+  type?: CompSetType;
+  description?: string;
+  members: Array<{ competitorPropertyId: string; weight: number }>;
+}
+
+export interface CompSetMarketPoint {
+  date: string;
+  roomTypeCode: string | null;
+  weightedAverage: number;
+  average: number;
+  min: number;
+  max: number;
+  competitors: Array<{
+    competitorPropertyId: string;
+    competitorName: string;
+    rate: number;
+    weight: number;
+    availability: string | null;
+  }>;
+}
@@ -0,0 +1,62 @@
+/**
+ * Currency Types
+ * Property and reporting currencies, daily exchange rates and portfolio rollups
+ */
+
+export type FxRateSource = 'FILE' | 'UPLOAD' | 'STAND_IN';
+
+export const FX_RATE_SOURCE_LABELS: Record<FxRateSource, string> = {
+  FILE: 'Rates file',
+  UPLOAD: 'Uploaded',
+  STAND_IN: 'Stand-in',
+};
+
+export interface FxQuote {
+  currency: string;
+  rate: number; // Units of this currency per unit of the base currency
+  source: FxRateSource;
+  asOf: string | null; // Date of the loaded rate used; null for stand-in rates
+}
+
+export interface FxRateTable {
+  base: string;
+  date: string;
+  rates: FxQuote[];
+}
+
+export interface PropertyCurrency {
+  propertyId: string;
+  currency: string;
+  reportingCurrency: string;
+}
+
+export interface FxRateImportResult {
+  received: number;
+  stored: number;
+  dates: string[];
+  skipped: Array<{ rowNumber?: number; reason: string }>;
+}
+
+export interface PropertyRevenueRollup {
+  propertyId: string;
+  propertyName: string;
+  currency: string;
+  roomNights: number;
+  revenue: number; // Property currency
+  convertedRevenue: number; // Reporting currency
+  adr: number | null; // Reporting currency
+  unconvertedNights: number;
+}
+
+export interface PortfolioRevenue {
+  organizationId: string;
+  currency: string;
+  startDate: string;
+  endDate: string;
+  properties: PropertyRevenueRollup[];
+  totals: {
+    roomNights: number;
+    revenue: number;
+    adr: number | null;
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Rates Import Types
+ * Shapes of the CSV/XLSX import wizard: upload, column mapping, preview and commit
+ */
+
+// Rate inventory field an import column can be mapped to
+export type ImportField =
+  | 'roomTypeCode'
+  | 'ratePlanCode'
+  | 'channelCode'
+  | 'date'
+  | 'rate'
+  | 'inventory'
+  | 'minStay'
+  | 'maxStay'
+  | 'minStayThrough'
+  | 'maxStayThrough'
+  | 'minAdvanceBookingDays'
+  | 'maxAdvanceBookingDays'
+  | 'closedToArrival'
+  | 'closedToDeparture'
+  | 'stopSell';
+
+export type ImportRowStatus = 'NEW' | 'CHANGED' | 'UNCHANGED' | 'INVALID';
+
+export type ImportStep = 'upload' | 'mapping' | 'preview' | 'complete';
+
+export interface ImportColumnMapping {
+  column: string;
+  field: ImportField;
+}
+
+export interface ImportRow {
+  rowNumber: number; // Line in the uploaded file
+  values: Record<string, string>;
+}
+
+export interface ParsedImportFile {
+  fileName: string;
+  columns: string[];
+  rows: ImportRow[];
+  suggestedMapping: ImportColumnMapping[];
+}
+
+export interface ImportIssue {
+  field: string;
+  code: string;
+  message: string;
+  severity: 'ERROR' | 'WARNING';
+}
+
+export interface ImportValues {
+  rate?: number;
+  inventory?: number;
+  minStay?: number;
+  maxStay?: number;
+  minStayThrough?: number;
+  maxStayThrough?: number;
+  minAdvanceBookingDays?: number;
+  maxAdvanceBookingDays?: number;
+  closedToArrival?: boolean;
+  closedToDeparture?: boolean;
+  stopSell?: boolean;
+}
+
+export interface ImportRecordDiff {
+  rateInventoryId?: string;
+  channelId: string;
+  channelCode: string;
+  date: string;
+  before: ImportValues | null; // null when the record will be created
+  after: ImportValues;
+  changedFields: Array<keyof ImportValues>;
+}
+
+export interface ImportRowPreview {
+  rowNumber: number;
+  status: ImportRowStatus;
+  roomTypeCode: string | null;
+  ratePlanCode: string | null;
+  channelCode: string | null;
+  date: string | null;
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+  records: ImportRecordDiff[];
+}
+
+export interface ImportPreview {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  changedRows: number;
+  rows: ImportRowPreview[];
+}
+
+export interface ImportCommitResult {
+  success: boolean;
+  importedRows: number[];
+  createdCount: number;
+  updatedCount: number;
+  skippedRows: Array<{ rowNumber: number; reason: string }>;
+}
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required?: boolean }> = [
+  { field: 'roomTypeCode', label: 'Room Type Code', required: true },
+  { field: 'ratePlanCode', label: 'Rate Plan Code', required: true },
+  { field: 'date', label: 'Date (YYYY-MM-DD)', required: true },
+  { field: 'channelCode', label: 'Channel Code' },
+  { field: 'rate', label: 'Rate' },
+  { field: 'inventory', label: 'Inventory' },
+  { field: 'minStay', label: 'Min Stay (arrival)' },
+  { field: 'maxStay', label: 'Max Stay (arrival)' },
+  { field: 'minStayThrough', label: 'Min Stay Through' },
+  { field: 'maxStayThrough', label: 'Max Stay Through' },
+  { field: 'minAdvanceBookingDays', label: 'Min Advance Booking Days' },
+  { field: 'maxAdvanceBookingDays', label: 'Max Advance Booking Days' },
+  { field: 'closedToArrival', label: 'Closed to Arrival' },
+  { field: 'closedToDeparture', label: 'Closed to Departure' },
+  { field: 'stopSell', label: 'Stop Sell' },
+];
@@ -3,6 +3,8 @@
  * Based on UX Design specifications and business requirements
  */
 
+import type { DateOnly } from './business-date';
+
 // =============================================================================
 // CORE BUSINESS ENTITIES
 // =============================================================================
@@ -64,10 +66,11 @@ export interface Cell {
 export interface GridData {
   cells: GridCell[][];
   roomTypes: RoomType[];
-  dates: Date[];
+  dates: DateOnly[];
+  businessDate: DateOnly; // Property "today"; earlier dates are locked
   dateRange: {
-    start: string;
-    end: string;
+    start: DateOnly;
+    end: DateOnly;
   };
   metadata?: GridMetadata;
 }
@@ -76,7 +79,7 @@ export interface GridCell {
   id: string;
   rowId: string;
   columnId: string;
-  date: Date;
+  date: DateOnly;
   roomTypeId: string;
   cellType: CellType;
   value: number | string;
@@ -108,8 +111,12 @@ export interface GridMetadata {
 export interface RateRestrictions {
   minRate?: number;
   maxRate?: number;
-  minStay?: number;
+  minStay?: number; // Stays arriving on the date
   maxStay?: number;
+  minStayThrough?: number; // Any stay including the date
+  maxStayThrough?: number;
+  minAdvanceBookingDays?: number;
+  maxAdvanceBookingDays?: number;
   closedToArrival: boolean;
   closedToDeparture: boolean;
   stopSell: boolean;
@@ -0,0 +1,30 @@
+/**
+ * Property Types
+ * Properties a user can access, grouped by the organization that owns them
+ */
+
+export interface PropertySummary {
+  id: string;
+  organizationId: string;
+  code: string;
+  name: string;
+  city: string | null;
+  country: string | null;
+  timezone: string;
+  currency: string;
+  rooms: number;
+  roles: string[]; // Roles the user holds at this property, including global roles
+}
+
+export interface OrganizationPortfolio {
+  id: string;
+  code: string;
+  name: string;
+  reportingCurrency: string;
+  properties: PropertySummary[];
+}
+
+export interface PropertyPortfolio {
+  organizations: OrganizationPortfolio[];
+  lastPropertyId: string | null;
+}
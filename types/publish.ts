@@ -0,0 +1,93 @@
+/**
+ * Publish & Channel Sync Types
+ * Request and result shapes of the grid publish flow
+ */
+
+export type CellSyncStatus = 'PENDING' | 'SUCCESS' | 'FAILED';
+
+// One edited grid cell as sent to the publish endpoint
+export interface PublishChange {
+  changeId: string;
+  type: 'price' | 'inventory';
+  roomTypeId: string;
+  ratePlanId?: string;
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface PublishCellResult {
+  changeId: string;
+  status: CellSyncStatus;
+  rateInventoryIds: string[];
+  errors: string[];
+}
+
+export interface ChannelSyncOutcome {
+  channelId: string;
+  syncId?: string;
+  status: 'QUEUED' | 'FAILED';
+  recordCount: number;
+  error?: string;
+}
+
+export interface PublishResult {
+  success: boolean;
+  totalCount: number;
+  pendingCount: number;
+  failedCount: number;
+  cells: PublishCellResult[];
+  channels: ChannelSyncOutcome[];
+}
+
+// Returned instead of a PublishResult when the role needs approval to write
+export interface PublishSubmission {
+  pendingApproval: boolean;
+  changeRequest: {
+    id: string;
+    summary?: string;
+  };
+}
+
+export interface RecordSyncStatus {
+  id: string;
+  status: CellSyncStatus;
+  error: string | null;
+  lastSyncAt: string | null;
+}
+
+// Sync state shown on a grid cell
+export interface CellSyncState {
+  status: CellSyncStatus;
+  reason?: string;
+}
+
+// A grid change resolved to its cell, ready to publish
+export interface PublishCell {
+  changeId: string;
+  cellKey: string;
+  request?: PublishChange;
+  error?: string; // Set when the change could not be mapped to a cell
+}
+
+export interface PublishCellOutcome {
+  changeId: string;
+  cellKey: string;
+  status: CellSyncStatus;
+  errors: string[];
+  rateInventoryIds: string[];
+  awaitingApproval?: boolean;
+}
+
+// Server outcome of a publish, kept current while channel syncs complete
+export interface PublishOutcome {
+  pendingApproval: boolean;
+  changeRequestId?: string;
+  cells: PublishCellOutcome[];
+  channels: ChannelSyncOutcome[];
+}
+
+export const isPublishSubmission = (value: any): value is PublishSubmission =>
+  !!value && typeof value === 'object' && 'pendingApproval' in value && 'changeRequest' in value;
+
+export const cellSyncKey = (roomTypeId: string, ratePlanId: string | undefined, date: string) =>
+  `${roomTypeId}|${ratePlanId ?? 'inventory'}|${date}`;
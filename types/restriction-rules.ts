@@ -0,0 +1,117 @@
+/**
+ * Restriction Rule Types
+ * Persisted bulk restrictions over a date pattern, expanded into rate inventory while active
+ */
+
+export type RestrictionRuleType =
+  | 'CLOSEOUT'
+  | 'CTA'
+  | 'CTD'
+  | 'MIN_LOS'
+  | 'MAX_LOS'
+  | 'MIN_LOS_THROUGH'
+  | 'MAX_LOS_THROUGH'
+  | 'MIN_ADVANCE'
+  | 'MAX_ADVANCE';
+
+export type RestrictionRuleStatus = 'DRAFT' | 'ACTIVE' | 'INACTIVE';
+
+export const RESTRICTION_RULE_STATUS_LABELS: Record<RestrictionRuleStatus, string> = {
+  DRAFT: 'Draft',
+  ACTIVE: 'Active',
+  INACTIVE: 'Inactive',
+};
+
+// Restriction type ids of the bulk restriction panels and the grid, by rule restriction
+export const RESTRICTION_TYPE_IDS: Record<RestrictionRuleType, string> = {
+  CLOSEOUT: 'closeout',
+  CTA: 'cta',
+  CTD: 'ctd',
+  MIN_LOS: 'minlos',
+  MAX_LOS: 'maxlos',
+  MIN_LOS_THROUGH: 'minlos_through',
+  MAX_LOS_THROUGH: 'maxlos_through',
+  MIN_ADVANCE: 'min_advance_purchase',
+  MAX_ADVANCE: 'max_advance_purchase',
+};
+
+// Days a bulk edit applies to, as picked in the bulk edit modal
+export interface DaySelection {
+  monday: boolean;
+  tuesday: boolean;
+  wednesday: boolean;
+  thursday: boolean;
+  friday: boolean;
+  saturday: boolean;
+  sunday: boolean;
+}
+
+export interface RestrictionRuleTarget {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export interface RestrictionRuleInput {
+  name?: string;
+  restriction: RestrictionRuleType;
+  value?: number; // Nights or days; not used by CLOSEOUT, CTA and CTD
+  startDate: string;
+  endDate: string;
+  daysOfWeek?: number[]; // 0 = Sunday; every day when empty
+  roomTypes?: string[]; // Ids, codes or names; all when empty
+  ratePlans?: string[];
+  channels?: string[];
+  priority?: number; // Higher wins where rules set the same restriction
+  status?: Extract<RestrictionRuleStatus, 'DRAFT' | 'ACTIVE'>;
+  notes?: string;
+}
+
+export interface RestrictionRuleConflict {
+  date: string;
+  roomTypeId: string;
+  ratePlanId: string;
+  channelId: string;
+  reason: string;
+}
+
+// Returned by activation: records written, left to higher-priority rules, or invalid
+export interface RuleApplicationSummary {
+  matched: number;
+  applied: number;
+  shadowed: number;
+  conflicts: RestrictionRuleConflict[];
+}
+
+// Returned by deactivation: records edited since the rule set them are left as they are
+export interface RuleRevertSummary {
+  reverted: number;
+  unchanged: number;
+  edited: number;
+}
+
+export interface RestrictionRule {
+  id: string;
+  propertyId: string;
+  name: string | null;
+  restriction: RestrictionRuleType;
+  value: number | null;
+  startDate: string;
+  endDate: string;
+  daysOfWeek: number[];
+  targets: {
+    roomTypes: RestrictionRuleTarget[];
+    ratePlans: RestrictionRuleTarget[];
+    channels: RestrictionRuleTarget[];
+  };
+  priority: number;
+  status: RestrictionRuleStatus;
+  notes: string | null;
+  cellCount: number; // Rate inventory records the rule covers while active
+  activatedAt: string | null;
+  deactivatedAt: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  application?: RuleApplicationSummary | RuleRevertSummary;
+}